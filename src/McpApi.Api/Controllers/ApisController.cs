@@ -1,16 +1,22 @@
+using System.Diagnostics;
 using System.Security.Claims;
+using System.Text;
+using System.Text.Json;
 using McpApi.Api.DTOs;
 using McpApi.Api.Services;
-using McpApi.Core.GraphQL;
+using McpApi.Core;
+using McpApi.Core.Auth;
+using McpApi.Core.Http;
 using McpApi.Core.Models;
 using McpApi.Core.OpenApi;
-using McpApi.Core.Postman;
 using McpApi.Core.Secrets;
 using McpApi.Core.Services;
 using McpApi.Core.Storage;
+using McpApi.Core.Utilities;
 using McpApi.Core.Validation;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
+using Microsoft.Extensions.Caching.Memory;
 
 namespace McpApi.Api.Controllers;
 
@@ -19,38 +25,37 @@ namespace McpApi.Api.Controllers;
 [Authorize]
 public class ApisController : ControllerBase
 {
+    private const int MaxSpecContentBytes = 10 * 1024 * 1024;
+
     private readonly IApiRegistrationStore _store;
-    private readonly IOpenApiParser _parser;
-    private readonly OpenApiDiscovery _discovery;
-    private readonly PostmanCollectionParser _postmanParser;
-    private readonly GraphQLSchemaParser _graphqlParser;
+    private readonly ISpecLoader _specLoader;
     private readonly IHttpClientFactory _httpClientFactory;
     private readonly ICurrentUserService _currentUser;
     private readonly IUsageTrackingService _usageTracking;
     private readonly ISecretResolver _secretResolver;
+    private readonly IApiCallLogService _callLog;
+    private readonly IMemoryCache _cache;
     private readonly ILogger<ApisController> _logger;
 
     public ApisController(
         IApiRegistrationStore store,
-        IOpenApiParser parser,
-        OpenApiDiscovery discovery,
-        PostmanCollectionParser postmanParser,
-        GraphQLSchemaParser graphqlParser,
+        ISpecLoader specLoader,
         IHttpClientFactory httpClientFactory,
         ICurrentUserService currentUser,
         IUsageTrackingService usageTracking,
         ISecretResolver secretResolver,
+        IApiCallLogService callLog,
+        IMemoryCache cache,
         ILogger<ApisController> logger)
     {
         _store = store;
-        _parser = parser;
-        _discovery = discovery;
-        _postmanParser = postmanParser;
-        _graphqlParser = graphqlParser;
+        _specLoader = specLoader;
         _httpClientFactory = httpClientFactory;
         _currentUser = currentUser;
         _usageTracking = usageTracking;
         _secretResolver = secretResolver;
+        _callLog = callLog;
+        _cache = cache;
         _logger = logger;
     }
 
@@ -86,102 +91,149 @@ public class ApisController : ControllerBase
         return Ok(api.ToDetailDto(endpoints));
     }
 
+    [HttpPost("preview")]
+    public Task<IActionResult> Preview([FromBody] RegisterApiRequest request, CancellationToken ct)
+    {
+        return PreviewAsync(() => _specLoader.LoadAsync(request.BaseUrl, request.SpecUrl, ct), ct);
+    }
+
+    [HttpPost("preview/content")]
+    [RequestSizeLimit(MaxSpecContentBytes)]
+    public Task<IActionResult> PreviewContent([FromBody] RegisterApiContentRequest request, CancellationToken ct)
+    {
+        return PreviewAsync(() => _specLoader.ParseContentAsync(request.BaseUrl, request.Content, ct), ct);
+    }
+
     [HttpPost]
-    public async Task<IActionResult> Register([FromBody] RegisterApiRequest request, CancellationToken ct)
+    public Task<IActionResult> Register([FromBody] RegisterApiRequest request, CancellationToken ct)
+    {
+        return RegisterAsync(
+            () => _specLoader.LoadAsync(request.BaseUrl, request.SpecUrl, ct),
+            request.DisplayName, request.Description, request.SelectedEndpointIds, ct);
+    }
+
+    [HttpPost("content")]
+    [RequestSizeLimit(MaxSpecContentBytes)]
+    public Task<IActionResult> RegisterContent([FromBody] RegisterApiContentRequest request, CancellationToken ct)
+    {
+        return RegisterAsync(
+            () => _specLoader.ParseContentAsync(request.BaseUrl, request.Content, ct),
+            request.DisplayName, request.Description, request.SelectedEndpointIds, ct);
+    }
+
+    private async Task<IActionResult> PreviewAsync(Func<Task<ApiRegistration>> loadRegistration, CancellationToken ct)
     {
         var userId = GetRequiredUserId();
         var userTier = await GetUserTierAsync(ct);
 
+        // Parse only - nothing is saved until the user registers the API
+        ApiRegistration registration;
         try
         {
-            UrlValidator.ValidateExternalUrl(request.BaseUrl);
-            if (!string.IsNullOrEmpty(request.SpecUrl))
-            {
-                UrlValidator.ValidateExternalUrl(request.SpecUrl);
-            }
+            registration = await loadRegistration();
+        }
+        catch (Exception ex) when (IsSpecLoadError(ex, ct))
+        {
+            return BadRequest(new ErrorResponse(ex.Message));
+        }
 
-            var targetUrl = request.SpecUrl ?? request.BaseUrl;
+        var alreadyRegistered = await _store.ExistsAsync(userId, registration.Id, ct);
+        var (_, _, maxEndpoints) = TierLimits.GetLimits(userTier);
 
-            ApiRegistration registration;
+        return Ok(registration.ToPreviewDto(
+            alreadyRegistered,
+            maxEndpoints == int.MaxValue ? null : maxEndpoints));
+    }
 
-            // Check if this is a GraphQL endpoint
-            if (GraphQLSchemaParser.LooksLikeGraphQLEndpoint(targetUrl))
-            {
-                registration = await _graphqlParser.ParseFromEndpointAsync(targetUrl, ct);
-            }
-            else
-            {
-                // Discover spec URL if not provided
-                var specUrl = request.SpecUrl;
-                if (string.IsNullOrEmpty(specUrl))
-                {
-                    specUrl = await _discovery.DiscoverAsync(request.BaseUrl, ct);
-                    if (specUrl == null)
-                    {
-                        return BadRequest(new ErrorResponse(
-                            $"Could not discover OpenAPI spec at {request.BaseUrl}. Please provide the spec URL manually."));
-                    }
-                }
-
-                // Fetch and detect format
-                using var httpClient = _httpClientFactory.CreateClient();
-                var response = await httpClient.GetAsync(specUrl, ct);
-                response.EnsureSuccessStatusCode();
-                var content = await response.Content.ReadAsStringAsync(ct);
-
-                if (PostmanCollectionParser.IsPostmanCollection(content))
-                {
-                    registration = _postmanParser.ParseFromJson(content, specUrl);
-                }
-                else if (GraphQLSchemaParser.IsGraphQLSchema(content))
-                {
-                    registration = _graphqlParser.ParseFromSdl(content, request.BaseUrl);
-                }
-                else
-                {
-                    registration = await _parser.ParseAsync(specUrl, ct);
-                }
-            }
+    private async Task<IActionResult> RegisterAsync(
+        Func<Task<ApiRegistration>> loadRegistration,
+        string? displayName,
+        string? description,
+        List<string>? selectedEndpointIds,
+        CancellationToken ct)
+    {
+        var userId = GetRequiredUserId();
+        var userTier = await GetUserTierAsync(ct);
 
-            // Check if API already exists
-            if (await _store.ExistsAsync(userId, registration.Id, ct))
-            {
-                return Conflict(new ErrorResponse($"API '{registration.Id}' is already registered"));
-            }
+        ApiRegistration registration;
+        try
+        {
+            registration = await loadRegistration();
+        }
+        catch (Exception ex) when (IsSpecLoadError(ex, ct))
+        {
+            return BadRequest(new ErrorResponse(ex.Message));
+        }
 
-            var endpoints = registration.Endpoints.ToList();
+        // Check if API already exists
+        if (await _store.ExistsAsync(userId, registration.Id, ct))
+        {
+            return Conflict(new ErrorResponse($"API '{registration.Id}' is already registered"));
+        }
 
-            // Check usage limits
-            var currentApiCount = await _store.GetApiCountAsync(userId, ct);
-            if (!_usageTracking.CanRegisterApi(userTier, currentApiCount))
-            {
-                var (_, maxApis, _) = TierLimits.GetLimits(userTier);
-                return BadRequest(new ErrorResponse($"API limit reached. Your {userTier} tier allows {maxApis} APIs."));
-            }
+        // Only the endpoints the user kept in the preview are saved
+        var endpoints = registration.Endpoints.ToList();
+        if (selectedEndpointIds != null)
+        {
+            var selectedIds = selectedEndpointIds.ToHashSet(StringComparer.OrdinalIgnoreCase);
+            endpoints = endpoints.Where(e => selectedIds.Contains(e.Id)).ToList();
 
-            var (_, _, maxEndpoints) = TierLimits.GetLimits(userTier);
-            if (maxEndpoints != int.MaxValue && endpoints.Count > maxEndpoints)
+            if (endpoints.Count == 0)
             {
-                return BadRequest(new ErrorResponse(
-                    $"This API has {endpoints.Count} endpoints, which exceeds your tier limit of {maxEndpoints}."));
+                return BadRequest(new ErrorResponse("Select at least one endpoint to register"));
             }
+        }
 
-            // Set user ownership and save
-            registration.UserId = userId;
-            await _store.UpsertAsync(registration, ct);
-            await _store.SaveEndpointsAsync(userId, registration.Id, endpoints, ct);
+        // Check usage limits
+        var currentApiCount = await _store.GetApiCountAsync(userId, ct);
+        if (!_usageTracking.CanRegisterApi(userTier, currentApiCount))
+        {
+            var (_, maxApis, _) = TierLimits.GetLimits(userTier);
+            return BadRequest(new ErrorResponse($"API limit reached. Your {userTier} tier allows {maxApis} APIs."));
+        }
 
-            _logger.LogInformation("API registration created: {ApiId} by user {UserId}", registration.Id, userId);
+        var (_, _, maxEndpoints) = TierLimits.GetLimits(userTier);
+        if (maxEndpoints != int.MaxValue && endpoints.Count > maxEndpoints)
+        {
+            return BadRequest(new ErrorResponse(
+                $"{endpoints.Count} endpoints selected, which exceeds your tier limit of {maxEndpoints}.",
+                "Deselect endpoints in the preview to stay within the limit."));
+        }
 
-            return CreatedAtAction(nameof(Get), new { id = registration.Id },
-                registration.ToDto(endpoints.Count, endpoints.Count(e => e.IsEnabled)));
+        // Apply user overrides from the registration wizard
+        if (!string.IsNullOrWhiteSpace(displayName))
+        {
+            registration.DisplayName = displayName.Trim();
         }
-        catch (Exception ex)
+
+        if (!string.IsNullOrWhiteSpace(description))
         {
-            return BadRequest(new ErrorResponse(ex.Message));
+            registration.Description = description.Trim();
         }
+
+        // Set user ownership and save
+        registration.UserId = userId;
+        await _store.UpsertAsync(registration, ct);
+        await _store.SaveEndpointsAsync(userId, registration.Id, endpoints, ct);
+
+        _logger.LogInformation("API registration created: {ApiId} by user {UserId}", registration.Id, userId);
+
+        return CreatedAtAction(nameof(Get), new { id = registration.Id },
+            registration.ToDto(endpoints.Count, endpoints.Count(e => e.IsEnabled)));
     }
 
+    /// <summary>
+    /// Whether a spec failed to load for a reason the user can fix: an invalid URL, a spec that can't be fetched
+    /// or discovered, or content that can't be parsed. Anything else is left to the error middleware.
+    /// </summary>
+    private static bool IsSpecLoadError(Exception ex, CancellationToken ct) =>
+        ex is ArgumentException
+            or OpenApiParseException
+            or HttpRequestException
+            or JsonException
+            or InvalidOperationException
+        || (ex is TaskCanceledException && !ct.IsCancellationRequested);
+
     [HttpPut("{id}")]
     public async Task<IActionResult> Update(string id, [FromBody] UpdateApiRequest request, CancellationToken ct)
     {
@@ -203,6 +255,73 @@ public class ApisController : ControllerBase
             api.IsEnabled = request.IsEnabled.Value;
         }
 
+        if (request.RefreshSchedule != null)
+        {
+            var schedule = request.RefreshSchedule.ToLowerInvariant();
+            if (schedule is not (Constants.SpecRefresh.ScheduleOff
+                or Constants.SpecRefresh.ScheduleDaily
+                or Constants.SpecRefresh.ScheduleWeekly))
+            {
+                return BadRequest(new ErrorResponse($"Unsupported refresh schedule '{request.RefreshSchedule}'"));
+            }
+
+            if (schedule != Constants.SpecRefresh.ScheduleOff && string.IsNullOrEmpty(api.SpecUrl))
+            {
+                return BadRequest(new ErrorResponse($"API '{id}' does not have a spec URL to refresh from"));
+            }
+
+            api.RefreshSchedule = schedule;
+        }
+
+        if (request.Resilience != null)
+        {
+            var resilience = new ResilienceConfig
+            {
+                TimeoutSeconds = request.Resilience.TimeoutSeconds,
+                MaxRetries = request.Resilience.MaxRetries,
+                BackoffMs = request.Resilience.BackoffMs,
+                RetryIdempotentOnly = request.Resilience.RetryIdempotentOnly,
+                CircuitBreakerThreshold = request.Resilience.CircuitBreakerThreshold,
+                CircuitBreakerSeconds = request.Resilience.CircuitBreakerSeconds
+            };
+
+            try
+            {
+                RetryPolicy.Validate(resilience);
+            }
+            catch (ArgumentException ex)
+            {
+                return BadRequest(new ErrorResponse("Invalid resilience settings", ex.Message));
+            }
+
+            api.Resilience = resilience;
+        }
+
+        if (request.Server != null)
+        {
+            try
+            {
+                api.SelectServer(request.Server, request.ServerVariables ?? new Dictionary<string, string>());
+                UrlValidator.ValidateExternalUrl(api.BaseUrl);
+            }
+            catch (ArgumentException ex)
+            {
+                return BadRequest(new ErrorResponse("Invalid server", ex.Message));
+            }
+        }
+
+        if (request.Environment != null)
+        {
+            try
+            {
+                api.SelectEnvironment(request.Environment);
+            }
+            catch (ArgumentException ex)
+            {
+                return BadRequest(new ErrorResponse("Invalid environment", ex.Message));
+            }
+        }
+
         await _store.UpsertAsync(api, ct);
 
         var endpointCount = await _store.GetEndpointCountAsync(userId, id, ct);
@@ -263,39 +382,114 @@ public class ApisController : ControllerBase
             return BadRequest(new ErrorResponse($"API '{id}' does not have a spec URL to refresh from"));
         }
 
+        var existingEndpoints = await _store.GetEndpointsAsync(userId, id, ct);
+        ApiRegistration refreshedApi;
         try
         {
-            var existingEndpoints = await _store.GetEndpointsAsync(userId, id, ct);
-            var refreshedApi = await _parser.ParseAsync(existingApi.SpecUrl, ct);
-            var newEndpoints = refreshedApi.Endpoints.ToList();
+            refreshedApi = await _specLoader.LoadAsync(existingApi.BaseUrl, existingApi.SpecUrl, ct);
+        }
+        catch (Exception ex) when (IsSpecLoadError(ex, ct))
+        {
+            return BadRequest(new ErrorResponse($"Failed to refresh API: {ex.Message}"));
+        }
 
-            // Preserve settings
-            refreshedApi.Id = existingApi.Id;
-            refreshedApi.UserId = userId;
-            refreshedApi.IsEnabled = existingApi.IsEnabled;
-            refreshedApi.Auth = existingApi.Auth;
-            refreshedApi.CreatedAt = existingApi.CreatedAt;
-            refreshedApi.ETag = existingApi.ETag;
+        var newEndpoints = refreshedApi.Endpoints.ToList();
 
-            // Preserve endpoint enabled states
-            foreach (var endpoint in newEndpoints)
-            {
-                var existing = existingEndpoints.FirstOrDefault(e => e.OperationId == endpoint.OperationId);
-                if (existing != null)
-                {
-                    endpoint.IsEnabled = existing.IsEnabled;
-                }
-            }
+        EndpointDiff.PreserveSettings(existingEndpoints, newEndpoints);
+        var changes = EndpointDiff.Compare(existingEndpoints, newEndpoints);
 
+        if (!changes.HasChanges)
+        {
+            // Nothing to review - just record the refresh, saving endpoints for fields the diff doesn't show
+            refreshedApi.PreserveSettingsFrom(existingApi);
             await _store.UpsertAsync(refreshedApi, ct);
             await _store.SaveEndpointsAsync(userId, id, newEndpoints, ct);
+            return Ok(changes.ToDto(null, existingApi.ApiVersion, refreshedApi.ApiVersion));
+        }
 
-            return Ok(refreshedApi.ToDetailDto(newEndpoints));
+        // Nothing is applied until the user accepts the change set. Its summary is kept on the registration,
+        // as scheduled refreshes do, and its signature identifies it when it is applied
+        var pending = PendingSpecChanges.From(changes, refreshedApi.ApiVersion, DateTime.UtcNow);
+        if (existingApi.PendingChanges?.Signature == pending.Signature)
+        {
+            pending.DetectedAt = existingApi.PendingChanges.DetectedAt;
         }
-        catch (Exception ex)
+
+        existingApi.PendingChanges = pending;
+        await _store.UpsertAsync(existingApi, ct);
+
+        return Ok(changes.ToDto(pending.Signature, existingApi.ApiVersion, refreshedApi.ApiVersion));
+    }
+
+    [HttpPost("{id}/refresh/apply")]
+    public async Task<IActionResult> ApplyRefresh(string id, [FromBody] ApplyRefreshRequest request, CancellationToken ct)
+    {
+        var userId = GetRequiredUserId();
+        var existingApi = await _store.GetAsync(userId, id, ct);
+
+        if (existingApi == null)
         {
-            return BadRequest(new ErrorResponse($"Failed to refresh API: {ex.Message}"));
+            return NotFound(new ErrorResponse($"API '{id}' not found"));
+        }
+
+        if (existingApi.PendingChanges?.Signature != request.ChangeSetId || string.IsNullOrEmpty(existingApi.SpecUrl))
+        {
+            return BadRequest(new ErrorResponse("This change set has expired or was replaced. Refresh the spec again."));
+        }
+
+        // The spec is compared again, so what is applied is exactly what was reviewed
+        var currentEndpoints = await _store.GetEndpointsAsync(userId, id, ct);
+        ApiRegistration refreshedApi;
+        try
+        {
+            refreshedApi = await _specLoader.LoadAsync(existingApi.BaseUrl, existingApi.SpecUrl, ct);
+        }
+        catch (Exception ex) when (IsSpecLoadError(ex, ct))
+        {
+            return BadRequest(new ErrorResponse($"Failed to apply refresh: {ex.Message}"));
         }
+
+        var newEndpoints = refreshedApi.Endpoints.ToList();
+
+        EndpointDiff.PreserveSettings(currentEndpoints, newEndpoints);
+        var changes = EndpointDiff.Compare(currentEndpoints, newEndpoints);
+
+        if (PendingSpecChanges.From(changes, refreshedApi.ApiVersion, DateTime.UtcNow).Signature != request.ChangeSetId)
+        {
+            return Conflict(new ErrorResponse(
+                "The spec has changed since these changes were reviewed.",
+                "Refresh the spec again to review the latest changes."));
+        }
+
+        // Only added endpoints can be left out; removals and changes are applied as a set
+        var excludedIds = (request.ExcludedEndpointIds ?? []).ToHashSet(StringComparer.OrdinalIgnoreCase);
+        var addedIds = changes.Added.Select(e => e.Id).ToHashSet();
+        var endpoints = newEndpoints
+            .Where(e => !addedIds.Contains(e.Id) || !excludedIds.Contains(e.Id))
+            .ToList();
+
+        var userTier = await GetUserTierAsync(ct);
+        var (_, _, maxEndpoints) = TierLimits.GetLimits(userTier);
+        var addedCount = endpoints.Count(e => addedIds.Contains(e.Id));
+        if (addedCount > 0 && maxEndpoints != int.MaxValue && endpoints.Count > maxEndpoints)
+        {
+            return BadRequest(new ErrorResponse(
+                $"Applying these changes would leave {endpoints.Count} endpoints, which exceeds your tier limit of {maxEndpoints}.",
+                "Leave out some of the added endpoints."));
+        }
+
+        // Clears the pending changes, which are not carried over
+        refreshedApi.PreserveSettingsFrom(existingApi);
+
+        await _store.UpsertAsync(refreshedApi, ct);
+        await _store.SaveEndpointsAsync(userId, id, endpoints, ct);
+        await _store.DeleteEndpointsAsync(userId, id, changes.Removed.Select(e => e.Id), ct);
+
+        _logger.LogInformation(
+            "Spec refresh applied for API: {ApiId} by user {UserId} ({Added} added, {Removed} removed, {Changed} changed)",
+            id, userId, addedCount, changes.Removed.Count, changes.Changed.Count);
+
+        return Ok(refreshedApi.ToDetailDto(endpoints));
     }
 
     [HttpPut("{id}/auth")]
@@ -319,11 +513,13 @@ public class ApisController : ControllerBase
         try
         {
             // Convert request to auth configuration with encrypted secrets
-            api.Auth = ConvertToAuthConfig(request, userId, user.EncryptionKeySalt);
+            var auth = ConvertToAuthConfig(request, api.GetAuth(request.Environment), userId, user.EncryptionKeySalt);
+            api.SetAuth(request.Environment, auth);
             await _store.UpsertAsync(api, ct);
 
-            _logger.LogInformation("Auth config updated for API: {ApiId} by user {UserId}, new auth type: {AuthType}",
-                id, userId, api.Auth.AuthType);
+            _logger.LogInformation(
+                "Auth config updated for API: {ApiId} ({Environment}) by user {UserId}, new auth type: {AuthType}",
+                id, request.Environment ?? Constants.Environments.Default, userId, auth.AuthType);
 
             var endpointCount = await _store.GetEndpointCountAsync(userId, id, ct);
             var enabledCount = await _store.GetEnabledEndpointCountAsync(userId, id, ct);
@@ -335,80 +531,285 @@ public class ApisController : ControllerBase
         }
     }
 
-    private AuthConfiguration ConvertToAuthConfig(UpdateAuthConfigRequest request, string userId, string userSalt)
+    /// <summary>
+    /// Adds a named environment, or changes its base URL. New environments start without auth.
+    /// </summary>
+    [HttpPut("{id}/environments/{name}")]
+    public async Task<IActionResult> SetEnvironment(
+        string id, string name, [FromBody] SetEnvironmentRequest request, CancellationToken ct)
+    {
+        var userId = GetRequiredUserId();
+        var api = await _store.GetAsync(userId, id, ct);
+
+        if (api == null)
+        {
+            return NotFound(new ErrorResponse($"API '{id}' not found"));
+        }
+
+        try
+        {
+            var baseUrl = request.BaseUrl.Trim().TrimEnd('/');
+            UrlValidator.ValidateExternalUrl(baseUrl);
+            api.SetEnvironment(name, baseUrl);
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new ErrorResponse("Invalid environment", ex.Message));
+        }
+
+        await _store.UpsertAsync(api, ct);
+
+        var endpointCount = await _store.GetEndpointCountAsync(userId, id, ct);
+        var enabledCount = await _store.GetEnabledEndpointCountAsync(userId, id, ct);
+        return Ok(api.ToDto(endpointCount, enabledCount));
+    }
+
+    [HttpDelete("{id}/environments/{name}")]
+    public async Task<IActionResult> DeleteEnvironment(string id, string name, CancellationToken ct)
+    {
+        var userId = GetRequiredUserId();
+        var api = await _store.GetAsync(userId, id, ct);
+
+        if (api == null)
+        {
+            return NotFound(new ErrorResponse($"API '{id}' not found"));
+        }
+
+        try
+        {
+            api.RemoveEnvironment(name);
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new ErrorResponse(ex.Message));
+        }
+
+        await _store.UpsertAsync(api, ct);
+        return NoContent();
+    }
+
+    [HttpPost("{id}/oauth/authorize")]
+    public async Task<IActionResult> StartOAuthAuthorization(
+        string id, [FromBody] StartOAuthAuthorizationRequest request, CancellationToken ct)
+    {
+        var userId = GetRequiredUserId();
+        var api = await _store.GetAsync(userId, id, ct);
+
+        if (api == null)
+        {
+            return NotFound(new ErrorResponse($"API '{id}' not found"));
+        }
+
+        AuthConfiguration auth;
+        try
+        {
+            auth = api.GetAuth(request.Environment);
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new ErrorResponse(ex.Message));
+        }
+
+        if (auth is not OAuth2AuthConfig { Flow: Constants.OAuth2.AuthorizationCodeFlow } oauth)
+        {
+            return BadRequest(new ErrorResponse("API is not configured for the OAuth2 authorization code flow"));
+        }
+
+        if (!Uri.TryCreate(request.RedirectUri, UriKind.Absolute, out var redirectUri)
+            || (redirectUri.Scheme != Uri.UriSchemeHttps && redirectUri.Scheme != Uri.UriSchemeHttp))
+        {
+            return BadRequest(new ErrorResponse("Redirect URI must be an absolute HTTP(S) URL"));
+        }
+
+        var user = await _currentUser.GetCurrentUserAsync(ct);
+        if (user == null || string.IsNullOrEmpty(user.EncryptionKeySalt))
+        {
+            return BadRequest(new ErrorResponse("User encryption key not configured"));
+        }
+
+        try
+        {
+            var clientId = await _secretResolver.ResolveAsync(oauth.ClientId, userId, user.EncryptionKeySalt, ct);
+            var codeVerifier = OAuth2AuthorizationCode.GenerateCodeVerifier();
+            var state = OAuth2AuthorizationCode.GenerateState();
+
+            var authorizationUrl = OAuth2AuthorizationCode.BuildAuthorizationUrl(
+                oauth, clientId, request.RedirectUri, state, OAuth2AuthorizationCode.CreateCodeChallenge(codeVerifier));
+
+            // The verifier never leaves the server; the callback looks it up by state
+            _cache.Set(
+                GetPendingOAuthCacheKey(state),
+                new PendingOAuthAuthorization(userId, id, request.Environment, request.RedirectUri, codeVerifier),
+                TimeSpan.FromMinutes(Constants.OAuth2.PendingAuthorizationMinutes));
+
+            return Ok(new StartOAuthAuthorizationResponse(authorizationUrl));
+        }
+        catch (Exception ex)
+        {
+            return BadRequest(new ErrorResponse(ex.Message));
+        }
+    }
+
+    [HttpPost("oauth/callback")]
+    public async Task<IActionResult> CompleteOAuthAuthorization(
+        [FromBody] CompleteOAuthAuthorizationRequest request, CancellationToken ct)
+    {
+        var userId = GetRequiredUserId();
+        var cacheKey = GetPendingOAuthCacheKey(request.State);
+
+        if (!_cache.TryGetValue(cacheKey, out PendingOAuthAuthorization? pending)
+            || pending == null
+            || pending.UserId != userId)
+        {
+            return BadRequest(new ErrorResponse("Authorization request has expired or is invalid. Please start again."));
+        }
+
+        // State values are single-use
+        _cache.Remove(cacheKey);
+
+        var api = await _store.GetAsync(userId, pending.ApiId, ct);
+        if (api == null)
+        {
+            return NotFound(new ErrorResponse($"API '{pending.ApiId}' not found"));
+        }
+
+        OAuth2AuthConfig? oauth;
+        try
+        {
+            oauth = api.GetAuth(pending.Environment) as OAuth2AuthConfig;
+        }
+        catch (ArgumentException)
+        {
+            // The environment was removed while the user was away
+            oauth = null;
+        }
+
+        if (oauth == null)
+        {
+            return BadRequest(new ErrorResponse("API is no longer configured for OAuth2"));
+        }
+
+        var user = await _currentUser.GetCurrentUserAsync(ct);
+        if (user == null || string.IsNullOrEmpty(user.EncryptionKeySalt))
+        {
+            return BadRequest(new ErrorResponse("User encryption key not configured"));
+        }
+
+        try
+        {
+            var clientId = await _secretResolver.ResolveAsync(oauth.ClientId, userId, user.EncryptionKeySalt, ct);
+            var clientSecret = await _secretResolver.ResolveAsync(oauth.ClientSecret, userId, user.EncryptionKeySalt, ct);
+
+            using var httpClient = _httpClientFactory.CreateClient(Constants.HttpClients.OAuth2);
+            var tokens = await OAuth2AuthorizationCode.ExchangeCodeAsync(
+                httpClient, oauth.TokenUrl, clientId, clientSecret,
+                request.Code, pending.RedirectUri, pending.CodeVerifier, ct);
+
+            if (string.IsNullOrEmpty(tokens.RefreshToken))
+            {
+                return BadRequest(new ErrorResponse(
+                    "The provider did not return a refresh token",
+                    "Request offline access, e.g. the 'offline_access' scope or access_type=offline in the authorization URL."));
+            }
+
+            oauth.RefreshToken = _secretResolver.Encrypt(tokens.RefreshToken, userId, user.EncryptionKeySalt);
+            await _store.UpsertAsync(api, ct);
+
+            _logger.LogInformation("OAuth2 account connected for API: {ApiId} by user {UserId}", api.Id, userId);
+
+            var endpointCount = await _store.GetEndpointCountAsync(userId, api.Id, ct);
+            var enabledCount = await _store.GetEnabledEndpointCountAsync(userId, api.Id, ct);
+            return Ok(api.ToDto(endpointCount, enabledCount));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "OAuth2 code exchange failed for API: {ApiId}", api.Id);
+            return BadRequest(new ErrorResponse("Failed to complete OAuth2 authorization", ex.Message));
+        }
+    }
+
+    private static string GetPendingOAuthCacheKey(string state) => $"oauth-pending:{state}";
+
+    private sealed record PendingOAuthAuthorization(
+        string UserId, string ApiId, string? Environment, string RedirectUri, string CodeVerifier);
+
+    /// <summary>
+    /// Builds the new auth configuration, keeping already-stored secrets that the request leaves blank.
+    /// </summary>
+    private AuthConfiguration ConvertToAuthConfig(
+        UpdateAuthConfigRequest request, AuthConfiguration current, string userId, string userSalt)
     {
         return request.AuthType.ToLowerInvariant() switch
         {
             "none" => new NoAuthConfig { Name = request.Name },
 
-            "apikey" => CreateApiKeyConfig(request, userId, userSalt),
+            "apikey" => CreateApiKeyConfig(request, current as ApiKeyAuthConfig, userId, userSalt),
 
-            "bearer" => CreateBearerConfig(request, userId, userSalt),
+            "bearer" => CreateBearerConfig(request, current as BearerTokenAuthConfig, userId, userSalt),
 
-            "basic" => CreateBasicConfig(request, userId, userSalt),
+            "basic" => CreateBasicConfig(request, current as BasicAuthConfig, userId, userSalt),
 
-            "oauth2" => CreateOAuth2Config(request, userId, userSalt),
+            "oauth2" => CreateOAuth2Config(request, current as OAuth2AuthConfig, userId, userSalt),
 
             _ => throw new ArgumentException($"Unknown auth type: {request.AuthType}")
         };
     }
 
-    private ApiKeyAuthConfig CreateApiKeyConfig(UpdateAuthConfigRequest request, string userId, string userSalt)
+    private ApiKeyAuthConfig CreateApiKeyConfig(
+        UpdateAuthConfigRequest request, ApiKeyAuthConfig? current, string userId, string userSalt)
     {
         if (string.IsNullOrEmpty(request.In))
             throw new ArgumentException("'In' is required for API key auth (header, query, or cookie)");
         if (string.IsNullOrEmpty(request.ParameterName))
             throw new ArgumentException("'ParameterName' is required for API key auth");
-        if (string.IsNullOrEmpty(request.ApiKeyValue))
-            throw new ArgumentException("'ApiKeyValue' is required for API key auth");
 
         return new ApiKeyAuthConfig
         {
             Name = request.Name,
             In = request.In,
             ParameterName = request.ParameterName,
-            Secret = _secretResolver.Encrypt(request.ApiKeyValue, userId, userSalt)
+            Secret = EncryptOrKeep(request.ApiKeyValue, current?.Secret, "ApiKeyValue", "API key", userId, userSalt)
         };
     }
 
-    private BearerTokenAuthConfig CreateBearerConfig(UpdateAuthConfigRequest request, string userId, string userSalt)
+    private BearerTokenAuthConfig CreateBearerConfig(
+        UpdateAuthConfigRequest request, BearerTokenAuthConfig? current, string userId, string userSalt)
     {
-        if (string.IsNullOrEmpty(request.BearerToken))
-            throw new ArgumentException("'BearerToken' is required for bearer auth");
-
         return new BearerTokenAuthConfig
         {
             Name = request.Name,
             Prefix = request.Prefix ?? "Bearer",
-            Secret = _secretResolver.Encrypt(request.BearerToken, userId, userSalt)
+            Secret = EncryptOrKeep(request.BearerToken, current?.Secret, "BearerToken", "bearer", userId, userSalt)
         };
     }
 
-    private BasicAuthConfig CreateBasicConfig(UpdateAuthConfigRequest request, string userId, string userSalt)
+    private BasicAuthConfig CreateBasicConfig(
+        UpdateAuthConfigRequest request, BasicAuthConfig? current, string userId, string userSalt)
     {
-        if (string.IsNullOrEmpty(request.Username))
-            throw new ArgumentException("'Username' is required for basic auth");
-        if (string.IsNullOrEmpty(request.Password))
-            throw new ArgumentException("'Password' is required for basic auth");
-
         return new BasicAuthConfig
         {
             Name = request.Name,
-            Username = _secretResolver.Encrypt(request.Username, userId, userSalt),
-            Password = _secretResolver.Encrypt(request.Password, userId, userSalt)
+            Username = EncryptOrKeep(request.Username, current?.Username, "Username", "basic", userId, userSalt),
+            Password = EncryptOrKeep(request.Password, current?.Password, "Password", "basic", userId, userSalt)
         };
     }
 
-    private OAuth2AuthConfig CreateOAuth2Config(UpdateAuthConfigRequest request, string userId, string userSalt)
+    private OAuth2AuthConfig CreateOAuth2Config(
+        UpdateAuthConfigRequest request, OAuth2AuthConfig? current, string userId, string userSalt)
     {
         if (string.IsNullOrEmpty(request.Flow))
             throw new ArgumentException("'Flow' is required for OAuth2 auth");
+        if (request.Flow != Constants.OAuth2.ClientCredentialsFlow && request.Flow != Constants.OAuth2.AuthorizationCodeFlow)
+            throw new ArgumentException($"Unsupported OAuth2 flow: {request.Flow}");
         if (string.IsNullOrEmpty(request.TokenUrl))
             throw new ArgumentException("'TokenUrl' is required for OAuth2 auth");
-        if (string.IsNullOrEmpty(request.ClientId))
-            throw new ArgumentException("'ClientId' is required for OAuth2 auth");
-        if (string.IsNullOrEmpty(request.ClientSecret))
-            throw new ArgumentException("'ClientSecret' is required for OAuth2 auth");
+        if (request.Flow == Constants.OAuth2.AuthorizationCodeFlow && string.IsNullOrEmpty(request.AuthorizationUrl))
+            throw new ArgumentException("'AuthorizationUrl' is required for the OAuth2 authorization code flow");
+
+        // The server posts the client secret and codes to the token URL, so it must not reach internal hosts
+        UrlValidator.ValidateExternalUrl(request.TokenUrl);
+        if (!string.IsNullOrEmpty(request.AuthorizationUrl))
+            UrlValidator.ValidateExternalUrl(request.AuthorizationUrl);
 
         return new OAuth2AuthConfig
         {
@@ -416,12 +817,35 @@ public class ApisController : ControllerBase
             Flow = request.Flow,
             TokenUrl = request.TokenUrl,
             AuthorizationUrl = request.AuthorizationUrl,
-            ClientId = _secretResolver.Encrypt(request.ClientId, userId, userSalt),
-            ClientSecret = _secretResolver.Encrypt(request.ClientSecret, userId, userSalt),
-            Scopes = request.Scopes ?? []
+            ClientId = EncryptOrKeep(request.ClientId, current?.ClientId, "ClientId", "OAuth2", userId, userSalt),
+            ClientSecret = EncryptOrKeep(request.ClientSecret, current?.ClientSecret, "ClientSecret", "OAuth2", userId, userSalt),
+            Scopes = request.Scopes ?? [],
+            // A connected account stays connected unless the client or provider changes
+            RefreshToken = current != null
+                && current.Flow == request.Flow
+                && current.TokenUrl == request.TokenUrl
+                && string.IsNullOrEmpty(request.ClientId)
+                    ? current.RefreshToken
+                    : null
         };
     }
 
+    /// <summary>
+    /// Encrypts a new secret value, or reuses the stored one when the value is omitted.
+    /// </summary>
+    private SecretReference EncryptOrKeep(
+        string? value, SecretReference? current, string fieldName, string authLabel, string userId, string userSalt)
+    {
+        if (!string.IsNullOrEmpty(value))
+            return _secretResolver.Encrypt(value, userId, userSalt);
+
+        // Only user-encrypted secrets are kept; spec placeholders never hold a real value
+        if (current is { IsEncrypted: true })
+            return current;
+
+        throw new ArgumentException($"'{fieldName}' is required for {authLabel} auth");
+    }
+
     [HttpGet("{id}/endpoints")]
     public async Task<IActionResult> GetEndpoints(string id, CancellationToken ct)
     {
@@ -437,6 +861,101 @@ public class ApisController : ControllerBase
         return Ok(endpoints.Select(e => e.ToDto()));
     }
 
+    [HttpGet("{id}/endpoints/{endpointId}")]
+    public async Task<IActionResult> GetEndpoint(string id, string endpointId, CancellationToken ct)
+    {
+        var userId = GetRequiredUserId();
+        var endpoint = await _store.GetEndpointAsync(userId, id, endpointId, ct);
+
+        if (endpoint == null)
+        {
+            return NotFound(new ErrorResponse($"Endpoint '{endpointId}' not found in API '{id}'"));
+        }
+
+        return Ok(endpoint.ToDetailDto());
+    }
+
+    /// <summary>
+    /// Calls an endpoint with the stored credentials, for trying it out from the dashboard.
+    /// Counts against the monthly API call quota like an MCP tool call.
+    /// </summary>
+    [HttpPost("{id}/endpoints/{endpointId}/execute")]
+    public async Task<IActionResult> ExecuteEndpoint(
+        string id,
+        string endpointId,
+        [FromBody] ExecuteEndpointRequest request,
+        CancellationToken ct)
+    {
+        var userId = GetRequiredUserId();
+        var api = await _store.GetAsync(userId, id, ct);
+
+        if (api == null)
+        {
+            return NotFound(new ErrorResponse($"API '{id}' not found"));
+        }
+
+        var endpoint = await _store.GetEndpointAsync(userId, id, endpointId, ct);
+        if (endpoint == null)
+        {
+            return NotFound(new ErrorResponse($"Endpoint '{endpointId}' not found in API '{id}'"));
+        }
+
+        var user = await _currentUser.GetCurrentUserAsync(ct);
+        try
+        {
+            await _usageTracking.CheckAndRecordApiCallAsync(userId, user?.Tier ?? "free", ct);
+        }
+        catch (UsageLimitExceededException ex)
+        {
+            return StatusCode(StatusCodes.Status429TooManyRequests, new ErrorResponse(
+                "Usage limit exceeded",
+                $"You have reached your {ex.LimitType} limit ({ex.Limit}). Upgrade your plan to continue."));
+        }
+
+        var secretContext = string.IsNullOrEmpty(user?.EncryptionKeySalt)
+            ? null
+            : new UserSecretContext(userId, user.EncryptionKeySalt);
+
+        var stopwatch = Stopwatch.StartNew();
+        try
+        {
+            var response = await _callLog.ExecuteAndLogAsync(
+                new ApiCallContext(userId, Constants.CallLog.SourceTryIt),
+                api,
+                endpoint,
+                ToolArguments.ToParameters(request.Arguments),
+                secretContext,
+                ct);
+
+            return Ok(new EndpointExecutionDto(
+                response.StatusCode,
+                response.ReasonPhrase,
+                response.IsSuccess,
+                response.Headers,
+                response.Body,
+                stopwatch.ElapsedMilliseconds,
+                response.Attempts,
+                response.PageCount,
+                response.HasMorePages,
+                response.ContentType,
+                response.BinaryBody == null ? null : Convert.ToBase64String(response.BinaryBody),
+                response.BinarySize));
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new ErrorResponse(ex.Message));
+        }
+        catch (HttpRequestException ex)
+        {
+            _logger.LogWarning(ex, "Playground request failed for endpoint {EndpointId} of API {ApiId}", endpointId, id);
+            return StatusCode(StatusCodes.Status502BadGateway, new ErrorResponse("Request to the API failed", ex.Message));
+        }
+        catch (OAuth2NotConnectedException ex)
+        {
+            return Conflict(new ErrorResponse("OAuth2 account is not connected", ex.Message));
+        }
+    }
+
     [HttpPut("{id}/endpoints/{endpointId}/toggle")]
     public async Task<IActionResult> ToggleEndpoint(string id, string endpointId, [FromBody] ToggleRequest request, CancellationToken ct)
     {
@@ -454,6 +973,173 @@ public class ApisController : ControllerBase
         return Ok(endpoint.ToDto());
     }
 
+    [HttpPut("{id}/endpoints/{endpointId}/shaping")]
+    public async Task<IActionResult> UpdateResponseShaping(
+        string id,
+        string endpointId,
+        [FromBody] UpdateResponseShapingRequest request,
+        CancellationToken ct)
+    {
+        var userId = GetRequiredUserId();
+        var endpoint = await _store.GetEndpointAsync(userId, id, endpointId, ct);
+
+        if (endpoint == null)
+        {
+            return NotFound(new ErrorResponse($"Endpoint '{endpointId}' not found in API '{id}'"));
+        }
+
+        try
+        {
+            endpoint.ResponseShaping = ToResponseShaping(request.Shaping);
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new ErrorResponse("Invalid response shaping", ex.Message));
+        }
+
+        await _store.UpdateEndpointAsync(endpoint, ct);
+
+        return Ok(endpoint.ToDetailDto());
+    }
+
+    /// <summary>
+    /// Shapes a sample response without saving, so the effect of a config can be checked before applying it.
+    /// </summary>
+    [HttpPost("{id}/endpoints/{endpointId}/shaping/preview")]
+    public async Task<IActionResult> PreviewResponseShaping(
+        string id,
+        string endpointId,
+        [FromBody] PreviewResponseShapingRequest request,
+        CancellationToken ct)
+    {
+        var userId = GetRequiredUserId();
+        var endpoint = await _store.GetEndpointAsync(userId, id, endpointId, ct);
+
+        if (endpoint == null)
+        {
+            return NotFound(new ErrorResponse($"Endpoint '{endpointId}' not found in API '{id}'"));
+        }
+
+        ResponseShapingConfig? shaping;
+        try
+        {
+            shaping = ToResponseShaping(request.Shaping);
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new ErrorResponse("Invalid response shaping", ex.Message));
+        }
+
+        var sample = new ApiResponse
+        {
+            StatusCode = request.StatusCode,
+            ReasonPhrase = null,
+            Headers = request.Headers ?? new Dictionary<string, string[]>(),
+            Body = request.Body
+        };
+
+        var original = ResponseShaper.ToToolOutput(sample);
+        var shaped = ResponseShaper.ToToolOutput(sample, shaping);
+
+        return Ok(new ResponseShapingPreviewDto(
+            original,
+            shaped,
+            Encoding.UTF8.GetByteCount(original),
+            Encoding.UTF8.GetByteCount(shaped)));
+    }
+
+    [HttpPut("{id}/endpoints/{endpointId}/pagination")]
+    public async Task<IActionResult> UpdatePagination(
+        string id,
+        string endpointId,
+        [FromBody] UpdatePaginationRequest request,
+        CancellationToken ct)
+    {
+        var userId = GetRequiredUserId();
+        var endpoint = await _store.GetEndpointAsync(userId, id, endpointId, ct);
+
+        if (endpoint == null)
+        {
+            return NotFound(new ErrorResponse($"Endpoint '{endpointId}' not found in API '{id}'"));
+        }
+
+        if (request.Pagination == null)
+        {
+            endpoint.Pagination = null;
+        }
+        else
+        {
+            var pagination = new PaginationConfig
+            {
+                Style = request.Pagination.Style.Trim().ToLowerInvariant(),
+                Parameter = NullIfEmpty(request.Pagination.Parameter),
+                CursorPath = NullIfEmpty(request.Pagination.CursorPath),
+                ItemsPath = NullIfEmpty(request.Pagination.ItemsPath)
+            };
+
+            try
+            {
+                Paginator.Validate(pagination);
+            }
+            catch (ArgumentException ex)
+            {
+                return BadRequest(new ErrorResponse("Invalid pagination", ex.Message));
+            }
+
+            endpoint.Pagination = pagination;
+        }
+
+        await _store.UpdateEndpointAsync(endpoint, ct);
+
+        return Ok(endpoint.ToDetailDto());
+    }
+
+    /// <summary>
+    /// Sets whether MCP tool calls to the endpoint wait for approval in the dashboard.
+    /// </summary>
+    [HttpPut("{id}/endpoints/{endpointId}/approval")]
+    public async Task<IActionResult> UpdateApprovalPolicy(
+        string id,
+        string endpointId,
+        [FromBody] UpdateApprovalPolicyRequest request,
+        CancellationToken ct)
+    {
+        var userId = GetRequiredUserId();
+        var endpoint = await _store.GetEndpointAsync(userId, id, endpointId, ct);
+
+        if (endpoint == null)
+        {
+            return NotFound(new ErrorResponse($"Endpoint '{endpointId}' not found in API '{id}'"));
+        }
+
+        endpoint.RequiresApproval = request.RequiresApproval;
+        await _store.UpdateEndpointAsync(endpoint, ct);
+
+        return Ok(endpoint.ToDetailDto());
+    }
+
+    private static string? NullIfEmpty(string? value)
+    {
+        return string.IsNullOrWhiteSpace(value) ? null : value.Trim();
+    }
+
+    private static ResponseShapingConfig? ToResponseShaping(ResponseShapingDto? dto)
+    {
+        if (dto == null)
+            return null;
+
+        var shaping = new ResponseShapingConfig
+        {
+            Fields = dto.Fields?.Select(f => f.Trim()).Where(f => f.Length > 0).ToList(),
+            MaxArrayLength = dto.MaxArrayLength,
+            MaxBytes = dto.MaxBytes,
+            Headers = dto.Headers?.Select(h => h.Trim()).ToList()
+        };
+
+        ResponseShaper.Validate(shaping);
+        return shaping;
+    }
+
     private string GetRequiredUserId()
     {
         return _currentUser.UserId
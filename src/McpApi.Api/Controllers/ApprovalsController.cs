@@ -0,0 +1,142 @@
+using McpApi.Api.DTOs;
+using McpApi.Api.Services;
+using McpApi.Core;
+using McpApi.Core.Auth;
+using McpApi.Core.Models;
+using McpApi.Core.Services;
+using McpApi.Core.Storage;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+
+namespace McpApi.Api.Controllers;
+
+/// <summary>
+/// Inbox of MCP tool calls waiting for approval, for endpoints that require it.
+/// </summary>
+[ApiController]
+[Route("api/approvals")]
+[Authorize]
+public class ApprovalsController : ControllerBase
+{
+    private static readonly string[] Statuses =
+    [
+        Constants.Approvals.StatusPending,
+        Constants.Approvals.StatusApproved,
+        Constants.Approvals.StatusRejected,
+        Constants.Approvals.StatusExecuted,
+        Constants.Approvals.StatusExpired
+    ];
+
+    private readonly IApprovalStore _store;
+    private readonly IApprovalService _approvals;
+    private readonly ICurrentUserService _currentUser;
+    private readonly IMcpTokenService _tokenService;
+
+    public ApprovalsController(
+        IApprovalStore store,
+        IApprovalService approvals,
+        ICurrentUserService currentUser,
+        IMcpTokenService tokenService)
+    {
+        _store = store;
+        _approvals = approvals;
+        _currentUser = currentUser;
+        _tokenService = tokenService;
+    }
+
+    [HttpGet]
+    public async Task<IActionResult> GetApprovals(
+        [FromQuery] string? status = Constants.Approvals.StatusPending,
+        CancellationToken ct = default)
+    {
+        var userId = GetRequiredUserId();
+        var now = DateTime.UtcNow;
+
+        var filter = string.IsNullOrWhiteSpace(status) ? "all" : status.ToLowerInvariant();
+        if (filter != "all" && !Statuses.Contains(filter))
+        {
+            return BadRequest(new ErrorResponse($"Unknown status '{status}'", $"Use one of: all, {string.Join(", ", Statuses)}"));
+        }
+
+        // Expired requests are stored as pending, or as approved when the call was never made
+        var recent = await _store.QueryAsync(userId, ct: ct);
+        var approvals = filter switch
+        {
+            "all" => recent,
+            Constants.Approvals.StatusExpired => (await _store.QueryAsync(userId, Constants.Approvals.StatusPending, ct: ct))
+                .Concat(await _store.QueryAsync(userId, Constants.Approvals.StatusApproved, ct: ct))
+                .OrderByDescending(a => a.CreatedAt)
+                .ToList(),
+            _ => await _store.QueryAsync(userId, filter, ct: ct)
+        };
+
+        var tokenNames = await GetTokenNamesAsync(userId, ct);
+        return Ok(approvals
+            .Where(a => filter == "all" || a.GetStatus(now) == filter)
+            .Select(a => a.ToDto(now, TokenName(tokenNames, a.TokenId), FindPreviousArguments(recent, a)))
+            .ToList());
+    }
+
+    [HttpPost("{id}/approve")]
+    public Task<IActionResult> Approve(string id, [FromBody] DecideApprovalRequest? request, CancellationToken ct)
+    {
+        return DecideAsync(id, true, request?.Note, ct);
+    }
+
+    [HttpPost("{id}/reject")]
+    public Task<IActionResult> Reject(string id, [FromBody] DecideApprovalRequest? request, CancellationToken ct)
+    {
+        return DecideAsync(id, false, request?.Note, ct);
+    }
+
+    private async Task<IActionResult> DecideAsync(string id, bool approve, string? note, CancellationToken ct)
+    {
+        var userId = GetRequiredUserId();
+
+        ApprovalRequest? approval;
+        try
+        {
+            approval = await _approvals.DecideAsync(userId, id, approve, note, ct);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return Conflict(new ErrorResponse("Approval already decided", ex.Message));
+        }
+
+        if (approval == null)
+            return NotFound(new ErrorResponse("Approval not found"));
+
+        var tokenNames = await GetTokenNamesAsync(userId, ct);
+        return Ok(approval.ToDto(DateTime.UtcNow, TokenName(tokenNames, approval.TokenId)));
+    }
+
+    private string GetRequiredUserId()
+    {
+        return _currentUser.UserId
+            ?? throw new UnauthorizedAccessException("User must be authenticated");
+    }
+
+    // The most recent earlier call to the same endpoint that was let through
+    private static string? FindPreviousArguments(IReadOnlyList<ApprovalRequest> recent, ApprovalRequest approval)
+    {
+        return recent
+            .Where(a => a.Id != approval.Id &&
+                        a.ApiId == approval.ApiId &&
+                        a.EndpointId == approval.EndpointId &&
+                        a.CreatedAt < approval.CreatedAt &&
+                        a.Status is Constants.Approvals.StatusApproved or Constants.Approvals.StatusExecuted)
+            .MaxBy(a => a.CreatedAt)
+            ?.Arguments;
+    }
+
+    private async Task<Dictionary<string, string>> GetTokenNamesAsync(string userId, CancellationToken ct)
+    {
+        var tokens = await _tokenService.GetUserTokensAsync(userId, ct);
+        return tokens.ToDictionary(t => t.Id, t => t.Name);
+    }
+
+    private static string? TokenName(Dictionary<string, string> tokenNames, string? tokenId)
+    {
+        return tokenId != null && tokenNames.TryGetValue(tokenId, out var name) ? name : null;
+    }
+}
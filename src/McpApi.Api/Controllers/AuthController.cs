@@ -21,6 +21,8 @@ public class AuthController : ControllerBase
     private readonly IMcpTokenStore _mcpTokenStore;
     private readonly IUsageStore _usageStore;
     private readonly IRefreshTokenStore _refreshTokenStore;
+    private readonly IApiCallLogStore _callLogStore;
+    private readonly IApprovalStore _approvalStore;
     private readonly IUserStore _userStore;
     private readonly ILogger<AuthController> _logger;
 
@@ -32,6 +34,8 @@ public class AuthController : ControllerBase
         IMcpTokenStore mcpTokenStore,
         IUsageStore usageStore,
         IRefreshTokenStore refreshTokenStore,
+        IApiCallLogStore callLogStore,
+        IApprovalStore approvalStore,
         IUserStore userStore,
         ILogger<AuthController> logger)
     {
@@ -42,6 +46,8 @@ public class AuthController : ControllerBase
         _mcpTokenStore = mcpTokenStore;
         _usageStore = usageStore;
         _refreshTokenStore = refreshTokenStore;
+        _callLogStore = callLogStore;
+        _approvalStore = approvalStore;
         _userStore = userStore;
         _logger = logger;
     }
@@ -224,10 +230,16 @@ public class AuthController : ControllerBase
             await _mcpTokenStore.DeleteAllForUserAsync(userId, ct);
             _logger.LogInformation("Deleted MCP tokens for user {UserId}", userId);
 
-            // 3. Delete usage records
+            // 3. Delete usage records, call logs and approvals
             await _usageStore.DeleteAllForUserAsync(userId, ct);
             _logger.LogInformation("Deleted usage records for user {UserId}", userId);
 
+            await _callLogStore.DeleteAllForUserAsync(userId, ct);
+            _logger.LogInformation("Deleted call logs for user {UserId}", userId);
+
+            await _approvalStore.DeleteAllForUserAsync(userId, ct);
+            _logger.LogInformation("Deleted approvals for user {UserId}", userId);
+
             // 4. Delete all refresh tokens (not just revoke - permanently delete)
             await _refreshTokenStore.DeleteAllForUserAsync(userId, ct);
             _logger.LogInformation("Deleted refresh tokens for user {UserId}", userId);
@@ -0,0 +1,134 @@
+using McpApi.Api.DTOs;
+using McpApi.Api.Services;
+using McpApi.Core.Chat;
+using McpApi.Core.Models;
+using McpApi.Core.Secrets;
+using McpApi.Core.Services;
+using McpApi.Core.Storage;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+
+namespace McpApi.Api.Controllers;
+
+[ApiController]
+[Route("api/playground")]
+[Authorize]
+public class PlaygroundController : ControllerBase
+{
+    private const int MaxMessageLength = 2000;
+    private const int MaxHistoryMessages = 20;
+
+    private readonly IApiRegistrationStore _store;
+    private readonly IApiCallLogService _callLog;
+    private readonly IUsageTrackingService _usageTracking;
+    private readonly IApprovalService _approvals;
+    private readonly ICurrentUserService _currentUser;
+    private readonly IChatModel? _chatModel;
+    private readonly ILogger<PlaygroundController> _logger;
+
+    public PlaygroundController(
+        IApiRegistrationStore store,
+        IApiCallLogService callLog,
+        IUsageTrackingService usageTracking,
+        IApprovalService approvals,
+        ICurrentUserService currentUser,
+        ILogger<PlaygroundController> logger,
+        IChatModel? chatModel = null)
+    {
+        _store = store;
+        _callLog = callLog;
+        _usageTracking = usageTracking;
+        _approvals = approvals;
+        _currentUser = currentUser;
+        _logger = logger;
+        _chatModel = chatModel;
+    }
+
+    [HttpGet("tools")]
+    public async Task<IActionResult> GetTools(CancellationToken ct)
+    {
+        var userId = GetRequiredUserId();
+        var tools = await LoadToolsAsync(userId, ct);
+
+        return Ok(new PlaygroundToolsResponse(_chatModel != null, tools.Select(t => t.ToDto()).ToList()));
+    }
+
+    [HttpPost("chat")]
+    public async Task<IActionResult> Chat([FromBody] PlaygroundChatRequest request, CancellationToken ct)
+    {
+        if (_chatModel == null)
+        {
+            return BadRequest(new ErrorResponse("Playground is not configured", "No chat model API key is set on the server"));
+        }
+
+        if (string.IsNullOrWhiteSpace(request.Message))
+        {
+            return BadRequest(new ErrorResponse("Message is required"));
+        }
+
+        if (request.Message.Length > MaxMessageLength)
+        {
+            return BadRequest(new ErrorResponse($"Message too long (max {MaxMessageLength} characters)"));
+        }
+
+        IEnumerable<PlaygroundMessageDto> history = request.History ?? [];
+        var messages = new List<ChatMessage>();
+        foreach (var message in history.TakeLast(MaxHistoryMessages))
+        {
+            if (message.Role != ChatMessage.UserRole && message.Role != ChatMessage.AssistantRole)
+            {
+                return BadRequest(new ErrorResponse($"Invalid message role '{message.Role}'"));
+            }
+
+            // The conversation sent to the model must start with a user message
+            if (messages.Count == 0 && message.Role != ChatMessage.UserRole)
+            {
+                continue;
+            }
+
+            messages.Add(new ChatMessage(message.Role, message.Content));
+        }
+        messages.Add(new ChatMessage(ChatMessage.UserRole, request.Message.Trim()));
+
+        var userId = GetRequiredUserId();
+        var user = await _currentUser.GetCurrentUserAsync(ct);
+        var secretContext = string.IsNullOrEmpty(user?.EncryptionKeySalt)
+            ? null
+            : new UserSecretContext(userId, user.EncryptionKeySalt);
+
+        var tools = await LoadToolsAsync(userId, ct);
+        var context = new PlaygroundContext(userId, user?.Tier ?? "free", secretContext, tools);
+        var playground = new ToolPlayground(_chatModel, _callLog, _usageTracking, _approvals);
+
+        try
+        {
+            var result = await playground.RunAsync(context, messages, ct);
+            return Ok(result.ToDto());
+        }
+        catch (HttpRequestException ex)
+        {
+            _logger.LogError(ex, "Chat model request failed for user {UserId}", userId);
+            return StatusCode(StatusCodes.Status502BadGateway, new ErrorResponse("Chat model request failed", ex.Message));
+        }
+    }
+
+    private async Task<IReadOnlyList<PlaygroundTool>> LoadToolsAsync(string userId, CancellationToken ct)
+    {
+        var apis = await _store.GetEnabledAsync(userId, ct);
+        var sources = new List<(ApiRegistration Api, IReadOnlyList<ApiEndpoint> Endpoints)>();
+
+        foreach (var api in apis.OrderBy(a => a.Id, StringComparer.Ordinal))
+        {
+            var endpoints = await _store.GetEnabledEndpointsAsync(userId, api.Id, ct);
+            sources.Add((api, endpoints.OrderBy(e => e.Id, StringComparer.Ordinal).ToList()));
+        }
+
+        return ToolPlayground.BuildTools(sources);
+    }
+
+    private string GetRequiredUserId()
+    {
+        return _currentUser.UserId
+            ?? throw new UnauthorizedAccessException("User must be authenticated");
+    }
+}
@@ -1,6 +1,9 @@
 using McpApi.Api.DTOs;
 using McpApi.Api.Services;
+using McpApi.Core;
 using McpApi.Core.Auth;
+using McpApi.Core.Models;
+using McpApi.Core.Storage;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 
@@ -13,11 +16,16 @@ public class TokensController : ControllerBase
 {
     private readonly IMcpTokenService _tokenService;
     private readonly ICurrentUserService _currentUser;
+    private readonly IApiRegistrationStore _apiStore;
 
-    public TokensController(IMcpTokenService tokenService, ICurrentUserService currentUser)
+    public TokensController(
+        IMcpTokenService tokenService,
+        ICurrentUserService currentUser,
+        IApiRegistrationStore apiStore)
     {
         _tokenService = tokenService;
         _currentUser = currentUser;
+        _apiStore = apiStore;
     }
 
     [HttpGet]
@@ -33,11 +41,54 @@ public class TokensController : ControllerBase
     {
         var userId = GetRequiredUserId();
 
-        var result = await _tokenService.CreateTokenAsync(userId, request.Name, request.ExpiresAt, ct);
+        string? environment = null;
+        if (!string.IsNullOrWhiteSpace(request.DefaultEnvironment))
+        {
+            try
+            {
+                environment = request.DefaultEnvironment.Trim().Equals(Constants.Environments.Default, StringComparison.OrdinalIgnoreCase)
+                    ? Constants.Environments.Default
+                    : ApiEnvironment.ValidateName(request.DefaultEnvironment);
+            }
+            catch (ArgumentException ex)
+            {
+                return BadRequest(new ErrorResponse("Invalid environment", ex.Message));
+            }
+        }
+
+        var result = await _tokenService.CreateTokenAsync(userId, request.Name, request.ExpiresAt, environment, ct);
 
         return CreatedAtAction(nameof(GetAll), new CreateTokenResponse(result.Token.ToDto(), result.PlaintextToken));
     }
 
+    /// <summary>
+    /// Checks that a plaintext token authenticates against the MCP server, as a client connection would.
+    /// </summary>
+    [HttpPost("test")]
+    public async Task<IActionResult> Test([FromBody] TestTokenRequest request, CancellationToken ct)
+    {
+        var userId = GetRequiredUserId();
+
+        var token = await _tokenService.ValidateTokenAsync(request.Token.Trim(), ct);
+
+        // Another user's token is reported as invalid rather than confirming it exists
+        if (token == null || token.UserId != userId)
+        {
+            return BadRequest(new ErrorResponse("Token is invalid, expired, or revoked"));
+        }
+
+        var apis = await _apiStore.GetEnabledAsync(userId, ct);
+
+        // Endpoints are stored separately, so registrations don't carry them
+        var toolCount = 0;
+        foreach (var api in apis)
+        {
+            toolCount += await _apiStore.GetEnabledEndpointCountAsync(userId, api.Id, ct);
+        }
+
+        return Ok(new TestTokenResponse(token.Id, token.Name, apis.Count, toolCount));
+    }
+
     [HttpPut("{id}/revoke")]
     public async Task<IActionResult> Revoke(string id, CancellationToken ct)
     {
@@ -1,6 +1,9 @@
 using McpApi.Api.DTOs;
 using McpApi.Api.Services;
+using McpApi.Core;
+using McpApi.Core.Auth;
 using McpApi.Core.Services;
+using McpApi.Core.Storage;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 
@@ -13,11 +16,19 @@ public class UsageController : ControllerBase
 {
     private readonly IUsageTrackingService _usageService;
     private readonly ICurrentUserService _currentUser;
+    private readonly IApiCallLogStore _callLogStore;
+    private readonly IMcpTokenService _tokenService;
 
-    public UsageController(IUsageTrackingService usageService, ICurrentUserService currentUser)
+    public UsageController(
+        IUsageTrackingService usageService,
+        ICurrentUserService currentUser,
+        IApiCallLogStore callLogStore,
+        IMcpTokenService tokenService)
     {
         _usageService = usageService;
         _currentUser = currentUser;
+        _callLogStore = callLogStore;
+        _tokenService = tokenService;
     }
 
     [HttpGet("summary")]
@@ -39,12 +50,145 @@ public class UsageController : ControllerBase
         return Ok(history.Select(r => r.ToDto()));
     }
 
+    [HttpGet("daily")]
+    public async Task<IActionResult> GetDaily(
+        [FromQuery] int days = Constants.UsageBreakdown.DefaultDays,
+        [FromQuery] string? apiId = null,
+        [FromQuery] string? tokenId = null,
+        [FromQuery] string? source = null,
+        CancellationToken ct = default)
+    {
+        var userId = GetRequiredUserId();
+
+        var points = await _usageService.GetDailyUsageAsync(userId, CreateBreakdownQuery(days, apiId, tokenId, source), ct);
+        return Ok(points.Select(p => p.ToDto()));
+    }
+
+    [HttpGet("breakdown")]
+    public async Task<IActionResult> GetBreakdown(
+        [FromQuery] string by = Constants.UsageBreakdown.ByApi,
+        [FromQuery] int days = Constants.UsageBreakdown.DefaultDays,
+        [FromQuery] int top = Constants.UsageBreakdown.DefaultTop,
+        [FromQuery] string? apiId = null,
+        [FromQuery] string? tokenId = null,
+        [FromQuery] string? source = null,
+        CancellationToken ct = default)
+    {
+        var userId = GetRequiredUserId();
+
+        var dimension = by.ToLowerInvariant();
+        if (dimension is not (Constants.UsageBreakdown.ByApi or Constants.UsageBreakdown.ByEndpoint
+            or Constants.UsageBreakdown.ByToken or Constants.UsageBreakdown.BySource))
+        {
+            return BadRequest(new ErrorResponse($"Unknown breakdown '{by}'", "Use 'api', 'endpoint', 'token' or 'source'"));
+        }
+
+        var items = await _usageService.GetUsageBreakdownAsync(
+            userId,
+            dimension,
+            CreateBreakdownQuery(days, apiId, tokenId, source),
+            Math.Clamp(top, 1, Constants.UsageBreakdown.MaxTop),
+            ct);
+
+        // Tokens are stored by ID, so label them with their current names
+        if (dimension == Constants.UsageBreakdown.ByToken)
+        {
+            var tokenNames = await GetTokenNamesAsync(userId, ct);
+            return Ok(items.Select(i => i.ToDto(TokenName(tokenNames, i.Key))));
+        }
+
+        return Ok(items.Select(i => i.ToDto()));
+    }
+
+    [HttpGet("calls")]
+    public async Task<IActionResult> GetCalls(
+        [FromQuery] string? apiId = null,
+        [FromQuery] string? source = null,
+        [FromQuery] string? tokenId = null,
+        [FromQuery] string? status = null,
+        [FromQuery] string? search = null,
+        [FromQuery] DateTime? from = null,
+        [FromQuery] DateTime? to = null,
+        [FromQuery] int pageSize = Constants.CallLog.DefaultPageSize,
+        [FromQuery] string? continuationToken = null,
+        CancellationToken ct = default)
+    {
+        var userId = GetRequiredUserId();
+
+        bool? isSuccess;
+        switch (status?.ToLowerInvariant())
+        {
+            case null or "" or "all":
+                isSuccess = null;
+                break;
+            case "success":
+                isSuccess = true;
+                break;
+            case "error":
+                isSuccess = false;
+                break;
+            default:
+                return BadRequest(new ErrorResponse($"Unknown status '{status}'", "Use 'success' or 'error'"));
+        }
+
+        var query = new ApiCallLogQuery(
+            ApiId: string.IsNullOrWhiteSpace(apiId) ? null : apiId,
+            Source: string.IsNullOrWhiteSpace(source) ? null : source,
+            TokenId: string.IsNullOrWhiteSpace(tokenId) ? null : tokenId,
+            IsSuccess: isSuccess,
+            Search: string.IsNullOrWhiteSpace(search) ? null : search.Trim(),
+            From: from,
+            To: to,
+            PageSize: Math.Clamp(pageSize, 1, Constants.CallLog.MaxPageSize),
+            ContinuationToken: string.IsNullOrEmpty(continuationToken) ? null : continuationToken);
+
+        var page = await _callLogStore.QueryAsync(userId, query, ct);
+        var tokenNames = await GetTokenNamesAsync(userId, ct);
+
+        return Ok(new ApiCallLogPageDto(
+            page.Items.Select(l => l.ToSummaryDto(TokenName(tokenNames, l.TokenId))).ToList(),
+            page.ContinuationToken));
+    }
+
+    [HttpGet("calls/{id}")]
+    public async Task<IActionResult> GetCall(string id, CancellationToken ct)
+    {
+        var userId = GetRequiredUserId();
+
+        var log = await _callLogStore.GetAsync(userId, id, ct);
+        if (log == null)
+            return NotFound(new ErrorResponse("Call log entry not found"));
+
+        var tokenNames = await GetTokenNamesAsync(userId, ct);
+        return Ok(log.ToDto(TokenName(tokenNames, log.TokenId)));
+    }
+
     private string GetRequiredUserId()
     {
         return _currentUser.UserId
             ?? throw new UnauthorizedAccessException("User must be authenticated");
     }
 
+    private static UsageBreakdownQuery CreateBreakdownQuery(int days, string? apiId, string? tokenId, string? source)
+    {
+        return new UsageBreakdownQuery(
+            Days: Math.Clamp(days, 1, Constants.UsageBreakdown.MaxDays),
+            ApiId: string.IsNullOrWhiteSpace(apiId) ? null : apiId,
+            TokenId: string.IsNullOrWhiteSpace(tokenId) ? null : tokenId,
+            Source: string.IsNullOrWhiteSpace(source) ? null : source);
+    }
+
+    private async Task<Dictionary<string, string>> GetTokenNamesAsync(string userId, CancellationToken ct)
+    {
+        var tokens = await _tokenService.GetUserTokensAsync(userId, ct);
+        return tokens.ToDictionary(t => t.Id, t => t.Name);
+    }
+
+    private static string? TokenName(Dictionary<string, string> tokenNames, string? tokenId)
+    {
+        return tokenId != null && tokenNames.TryGetValue(tokenId, out var name) ? name : null;
+    }
+
     private async Task<string> GetUserTierAsync(CancellationToken ct)
     {
         var user = await _currentUser.GetCurrentUserAsync(ct);
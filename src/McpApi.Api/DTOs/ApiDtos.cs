@@ -1,16 +1,43 @@
 using System.ComponentModel.DataAnnotations;
+using System.Text.Json;
+using McpApi.Core.Http;
 using McpApi.Core.Models;
 
 namespace McpApi.Api.DTOs;
 
 public record RegisterApiRequest(
     [Required] string BaseUrl,
-    string? SpecUrl = null
+    string? SpecUrl = null,
+    string? DisplayName = null,
+    string? Description = null,
+    // Endpoint IDs to keep; endpoints not listed are never saved. All endpoints are kept when null
+    List<string>? SelectedEndpointIds = null
+);
+
+// Registers from an uploaded or pasted spec; there is no spec URL, so the base URL is required
+public record RegisterApiContentRequest(
+    [Required] string BaseUrl,
+    [Required] string Content,
+    string? DisplayName = null,
+    string? Description = null,
+    List<string>? SelectedEndpointIds = null
 );
 
 public record UpdateApiRequest(
     string? DisplayName,
-    bool? IsEnabled
+    bool? IsEnabled,
+    // off, daily, or weekly
+    string? RefreshSchedule = null,
+    ResilienceDto? Resilience = null,
+    // Name of a server declared by the spec, with values for its variables
+    string? Server = null,
+    Dictionary<string, string>? ServerVariables = null,
+    // Environment calls use by default; "default" for the API's own base URL and auth
+    string? Environment = null
+);
+
+public record SetEnvironmentRequest(
+    [Required] string BaseUrl
 );
 
 public record ToggleRequest(bool Enabled);
@@ -34,7 +61,56 @@ public record UpdateAuthConfigRequest(
     string? AuthorizationUrl,
     string? ClientId,
     string? ClientSecret,
-    List<string>? Scopes
+    List<string>? Scopes,
+    // Environment whose auth is updated; the default environment when null
+    string? Environment = null
+);
+
+public record StartOAuthAuthorizationRequest(
+    [Required] string RedirectUri,
+    string? Environment = null
+);
+
+public record StartOAuthAuthorizationResponse(
+    string AuthorizationUrl
+);
+
+public record CompleteOAuthAuthorizationRequest(
+    [Required] string Code,
+    [Required] string State
+);
+
+public record ApplyRefreshRequest(
+    [Required] string ChangeSetId,
+    // Added endpoints to leave out; they are not saved
+    List<string>? ExcludedEndpointIds = null
+);
+
+public record ExecuteEndpointRequest(
+    // Parameter values by name, plus "body" for the request body (the same shape as MCP tool arguments)
+    Dictionary<string, JsonElement>? Arguments = null
+);
+
+public record UpdateResponseShapingRequest(
+    // Null removes shaping so tools return the full response
+    ResponseShapingDto? Shaping = null
+);
+
+public record UpdatePaginationRequest(
+    // Null goes back to detecting pagination from the endpoint's parameters
+    PaginationDto? Pagination = null
+);
+
+public record UpdateApprovalPolicyRequest(
+    bool RequiresApproval
+);
+
+public record PreviewResponseShapingRequest(
+    ResponseShapingDto? Shaping,
+    // Sample response to shape, usually the last try-it result
+    int StatusCode = 200,
+    Dictionary<string, string[]>? Headers = null,
+    string? Body = null
 );
 
 public record ApiRegistrationDto(
@@ -49,6 +125,7 @@ public record ApiRegistrationDto(
     bool IsEnabled,
     DateTime CreatedAt,
     DateTime LastRefreshed,
+    string RefreshSchedule,
     int EndpointCount,
     int EnabledEndpointCount
 );
@@ -62,7 +139,8 @@ public record ApiEndpointDto(
     string? Summary,
     string? Description,
     List<string> Tags,
-    bool IsEnabled
+    bool IsEnabled,
+    bool RequiresApproval
 );
 
 public record ApiDetailDto(
@@ -77,15 +155,190 @@ public record ApiDetailDto(
     bool IsEnabled,
     DateTime CreatedAt,
     DateTime LastRefreshed,
+    string RefreshSchedule,
+    ResilienceDto Resilience,
+    List<ApiEndpointDto> Endpoints,
+    List<WebhookDto> Webhooks,
+    List<ServerDto> Servers,
+    // Null when a custom base URL is used
+    string? SelectedServer,
+    Dictionary<string, string> ServerVariables,
+    List<EnvironmentDto> Environments,
+    // Null when calls use the default environment
+    string? ActiveEnvironment,
+    // Null unless a refresh found changes that wait for review
+    PendingSpecChangesDto? PendingChanges
+);
+
+public record PendingSpecChangesDto(
+    DateTime DetectedAt,
+    string? ApiVersion,
+    int AddedCount,
+    int RemovedCount,
+    int ChangedCount,
+    bool HasBreakingChanges
+);
+
+public record EnvironmentDto(
+    string Name,
+    string BaseUrl,
+    AuthConfigDto Auth
+);
+
+public record ServerDto(
+    string Name,
+    // URL template with {variables}
+    string Url,
+    string? Description,
+    Dictionary<string, ServerVariableDto> Variables
+);
+
+public record ServerVariableDto(
+    string Default,
+    // Allowed values; null when any value is allowed
+    List<string>? Enum,
+    string? Description
+);
+
+public record WebhookDto(
+    // webhook or callback
+    string Kind,
+    string Name,
+    string Method,
+    // Runtime expression a callback is sent to; null for webhooks
+    string? Url,
+    string? SourceOperationId,
+    string? OperationId,
+    string? Summary,
+    string? Description
+);
+
+public record ResilienceDto(
+    int TimeoutSeconds,
+    int MaxRetries,
+    int BackoffMs,
+    bool RetryIdempotentOnly,
+    // 0 turns the circuit breaker off
+    int CircuitBreakerThreshold,
+    int CircuitBreakerSeconds
+);
+
+public record ApiPreviewDto(
+    string Id,
+    string DisplayName,
+    string BaseUrl,
+    string? SpecUrl,
+    string OpenApiVersion,
+    string? ApiVersion,
+    string? Description,
+    AuthConfigDto Auth,
+    bool AlreadyRegistered,
+    // Endpoint limit for the caller's tier; null when unlimited
+    int? MaxEndpointsPerApi,
     List<ApiEndpointDto> Endpoints
 );
 
+public record ApiRefreshDiffDto(
+    // Null when nothing changed and the refresh was applied immediately
+    string? ChangeSetId,
+    string? PreviousApiVersion,
+    string? ApiVersion,
+    List<ApiEndpointDto> Added,
+    List<ApiEndpointDto> Removed,
+    List<EndpointChangeDto> Changed,
+    int UnchangedCount,
+    bool HasBreakingChanges
+);
+
+public record EndpointChangeDto(
+    ApiEndpointDto Endpoint,
+    string PreviousMethod,
+    string PreviousPath,
+    bool IsBreaking,
+    List<EndpointFieldChangeDto> Changes
+);
+
+public record EndpointFieldChangeDto(
+    string Description,
+    bool IsBreaking
+);
+
+public record ApiEndpointDetailDto(
+    ApiEndpointDto Endpoint,
+    List<ParameterDto> Parameters,
+    RequestBodyDto? RequestBody,
+    ResponseShapingDto? ResponseShaping,
+    // Configured pagination; null when it is auto-detected
+    PaginationDto? Pagination,
+    PaginationDto? DetectedPagination
+);
+
+public record PaginationDto(
+    string Style,
+    string? Parameter,
+    string? CursorPath,
+    string? ItemsPath
+);
+
+public record ResponseShapingDto(
+    List<string>? Fields,
+    int? MaxArrayLength,
+    int? MaxBytes,
+    List<string>? Headers
+);
+
+public record ResponseShapingPreviewDto(
+    string Original,
+    string Shaped,
+    int OriginalBytes,
+    int ShapedBytes
+);
+
+public record ParameterDto(
+    string Name,
+    string In,
+    bool Required,
+    string? Description,
+    JsonSchema Schema
+);
+
+public record RequestBodyDto(
+    bool Required,
+    string? Description,
+    string ContentType,
+    JsonSchema Schema
+);
+
+public record EndpointExecutionDto(
+    int StatusCode,
+    string? ReasonPhrase,
+    bool IsSuccess,
+    Dictionary<string, string[]> Headers,
+    string? Body,
+    long DurationMs,
+    int Attempts,
+    int PageCount,
+    bool HasMorePages,
+    string? ContentType,
+    // Base64 body of a binary response, when it was within the size limit
+    string? BinaryBody,
+    long? BinarySize
+);
+
 public record AuthConfigDto(
     string AuthType,
     string? Name,
     string? In,
     string? ParameterName,
-    string? Prefix
+    string? Prefix,
+    // True once the user has stored credentials; the values themselves are never returned
+    bool HasSecret,
+    string? Flow,
+    string? TokenUrl,
+    string? AuthorizationUrl,
+    List<string>? Scopes,
+    // For the OAuth2 authorization code flow: whether an account has been connected
+    bool HasRefreshToken
 );
 
 public static class ApiDtoExtensions
@@ -104,6 +357,7 @@ public static class ApiDtoExtensions
             api.IsEnabled,
             api.CreatedAt,
             api.LastRefreshed,
+            api.RefreshSchedule,
             endpointCount,
             enabledEndpointCount
         );
@@ -120,7 +374,52 @@ public static class ApiDtoExtensions
             endpoint.Summary,
             endpoint.Description,
             endpoint.Tags,
-            endpoint.IsEnabled
+            endpoint.IsEnabled,
+            endpoint.RequiresApproval
+        );
+    }
+
+    public static ApiEndpointDetailDto ToDetailDto(this ApiEndpoint endpoint)
+    {
+        // Matches the inputs of the endpoint's MCP tool
+        var body = ToolSchemaBuilder.GetBodyContent(endpoint);
+
+        return new ApiEndpointDetailDto(
+            endpoint.ToDto(),
+            endpoint.Parameters
+                .Where(p => !p.ExcludeFromTool)
+                .Select(p => new ParameterDto(p.Name, p.In, p.Required, p.Description, p.Schema))
+                .ToList(),
+            body == null
+                ? null
+                : new RequestBodyDto(
+                    endpoint.RequestBody!.Required,
+                    endpoint.RequestBody.Description,
+                    body.Value.ContentType,
+                    body.Value.Schema),
+            endpoint.ResponseShaping?.ToDto(),
+            endpoint.Pagination?.ToDto(),
+            Paginator.Detect(endpoint)?.ToDto()
+        );
+    }
+
+    public static PaginationDto ToDto(this PaginationConfig pagination)
+    {
+        return new PaginationDto(
+            pagination.Style,
+            pagination.Parameter,
+            pagination.CursorPath,
+            pagination.ItemsPath
+        );
+    }
+
+    public static ResponseShapingDto ToDto(this ResponseShapingConfig shaping)
+    {
+        return new ResponseShapingDto(
+            shaping.Fields,
+            shaping.MaxArrayLength,
+            shaping.MaxBytes,
+            shaping.Headers
         );
     }
 
@@ -133,33 +432,95 @@ public static class ApiDtoExtensions
                 apiKey.Name,
                 apiKey.In,
                 apiKey.ParameterName,
-                null
+                null,
+                apiKey.Secret.IsEncrypted,
+                null,
+                null,
+                null,
+                null,
+                false
             ),
             BearerTokenAuthConfig bearer => new AuthConfigDto(
                 bearer.AuthType,
                 bearer.Name,
                 null,
                 null,
-                bearer.Prefix
+                bearer.Prefix,
+                bearer.Secret.IsEncrypted,
+                null,
+                null,
+                null,
+                null,
+                false
             ),
             BasicAuthConfig basic => new AuthConfigDto(
                 basic.AuthType,
                 basic.Name,
                 null,
                 null,
-                null
+                null,
+                basic.Username.IsEncrypted && basic.Password.IsEncrypted,
+                null,
+                null,
+                null,
+                null,
+                false
             ),
             OAuth2AuthConfig oauth => new AuthConfigDto(
                 oauth.AuthType,
                 oauth.Name,
                 null,
                 null,
-                null
+                null,
+                oauth.ClientId.IsEncrypted && oauth.ClientSecret.IsEncrypted,
+                oauth.Flow,
+                oauth.TokenUrl,
+                oauth.AuthorizationUrl,
+                oauth.Scopes,
+                oauth.RefreshToken?.IsEncrypted == true
             ),
-            _ => new AuthConfigDto(auth.AuthType, auth.Name, null, null, null)
+            _ => new AuthConfigDto(auth.AuthType, auth.Name, null, null, null, false, null, null, null, null, false)
         };
     }
 
+    public static ApiPreviewDto ToPreviewDto(this ApiRegistration api, bool alreadyRegistered, int? maxEndpointsPerApi)
+    {
+        return new ApiPreviewDto(
+            api.Id,
+            api.DisplayName,
+            api.BaseUrl,
+            api.SpecUrl,
+            api.OpenApiVersion,
+            api.ApiVersion,
+            api.Description,
+            api.Auth.ToDto(),
+            alreadyRegistered,
+            maxEndpointsPerApi,
+            api.Endpoints.Select(e => e.ToDto()).ToList()
+        );
+    }
+
+    public static ApiRefreshDiffDto ToDto(
+        this EndpointChangeSet changes, string? changeSetId, string? previousApiVersion, string? apiVersion)
+    {
+        return new ApiRefreshDiffDto(
+            changeSetId,
+            previousApiVersion,
+            apiVersion,
+            changes.Added.Select(e => e.ToDto()).ToList(),
+            changes.Removed.Select(e => e.ToDto()).ToList(),
+            changes.Changed.Select(c => new EndpointChangeDto(
+                c.Current.ToDto(),
+                c.Previous.Method,
+                c.Previous.Path,
+                c.IsBreaking,
+                c.Changes.Select(f => new EndpointFieldChangeDto(f.Description, f.IsBreaking)).ToList()
+            )).ToList(),
+            changes.UnchangedCount,
+            changes.HasBreakingChanges
+        );
+    }
+
     public static ApiDetailDto ToDetailDto(this ApiRegistration api, IReadOnlyList<ApiEndpoint> endpoints)
     {
         return new ApiDetailDto(
@@ -174,7 +535,71 @@ public static class ApiDtoExtensions
             api.IsEnabled,
             api.CreatedAt,
             api.LastRefreshed,
-            endpoints.Select(e => e.ToDto()).ToList()
+            api.RefreshSchedule,
+            api.Resilience.ToDto(),
+            endpoints.Select(e => e.ToDto()).ToList(),
+            api.Webhooks.Select(w => w.ToDto()).ToList(),
+            api.Servers.Select(s => s.ToDto()).ToList(),
+            api.SelectedServer,
+            api.ServerVariables,
+            api.Environments.Select(e => e.ToDto()).ToList(),
+            api.ActiveEnvironment,
+            api.PendingChanges?.ToDto()
+        );
+    }
+
+    public static PendingSpecChangesDto ToDto(this PendingSpecChanges changes)
+    {
+        return new PendingSpecChangesDto(
+            changes.DetectedAt,
+            changes.ApiVersion,
+            changes.AddedCount,
+            changes.RemovedCount,
+            changes.ChangedCount,
+            changes.HasBreakingChanges
+        );
+    }
+
+    public static EnvironmentDto ToDto(this ApiEnvironment environment)
+    {
+        return new EnvironmentDto(environment.Name, environment.BaseUrl, environment.Auth.ToDto());
+    }
+
+    public static ServerDto ToDto(this ServerDefinition server)
+    {
+        return new ServerDto(
+            server.Name,
+            server.Url,
+            server.Description,
+            server.Variables.ToDictionary(
+                v => v.Key,
+                v => new ServerVariableDto(v.Value.Default, v.Value.Enum, v.Value.Description))
+        );
+    }
+
+    public static WebhookDto ToDto(this WebhookDefinition webhook)
+    {
+        return new WebhookDto(
+            webhook.Kind,
+            webhook.Name,
+            webhook.Method,
+            webhook.Url,
+            webhook.SourceOperationId,
+            webhook.OperationId,
+            webhook.Summary,
+            webhook.Description
+        );
+    }
+
+    public static ResilienceDto ToDto(this ResilienceConfig resilience)
+    {
+        return new ResilienceDto(
+            resilience.TimeoutSeconds,
+            resilience.MaxRetries,
+            resilience.BackoffMs,
+            resilience.RetryIdempotentOnly,
+            resilience.CircuitBreakerThreshold,
+            resilience.CircuitBreakerSeconds
         );
     }
 }
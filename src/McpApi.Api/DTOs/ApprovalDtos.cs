@@ -0,0 +1,65 @@
+using McpApi.Core.Models;
+
+namespace McpApi.Api.DTOs;
+
+public record ApprovalDto(
+    string Id,
+    // Pending, approved, rejected, executed or expired
+    string Status,
+    string? TokenId,
+    string? TokenName,
+    // Environment the token selects; null for the API's active environment
+    string? Environment,
+    string ApiId,
+    string ApiName,
+    string EndpointId,
+    string OperationId,
+    string Method,
+    string Path,
+    string ToolName,
+    string Arguments,
+    // Arguments of the last approved call to the same endpoint, to compare against
+    string? PreviousArguments,
+    DateTime CreatedAt,
+    DateTime ExpiresAt,
+    DateTime? DecidedAt,
+    string? DecisionNote,
+    DateTime? ExecutedAt
+);
+
+public record DecideApprovalRequest(
+    // Shown to the MCP client when a call is rejected
+    string? Note = null
+);
+
+public static class ApprovalDtoExtensions
+{
+    public static ApprovalDto ToDto(
+        this ApprovalRequest approval,
+        DateTime now,
+        string? tokenName = null,
+        string? previousArguments = null)
+    {
+        return new ApprovalDto(
+            approval.Id,
+            approval.GetStatus(now),
+            approval.TokenId,
+            tokenName,
+            approval.Environment,
+            approval.ApiId,
+            approval.ApiName,
+            approval.EndpointId,
+            approval.OperationId,
+            approval.Method,
+            approval.Path,
+            approval.ToolName,
+            approval.Arguments,
+            previousArguments,
+            approval.CreatedAt,
+            approval.ExpiresAt,
+            approval.DecidedAt,
+            approval.DecisionNote,
+            approval.ExecutedAt
+        );
+    }
+}
@@ -0,0 +1,66 @@
+using System.ComponentModel.DataAnnotations;
+using System.Text.Json;
+using McpApi.Core.Chat;
+
+namespace McpApi.Api.DTOs;
+
+public record PlaygroundChatRequest(
+    [Required] string Message,
+    List<PlaygroundMessageDto>? History = null
+);
+
+public record PlaygroundMessageDto(
+    string Role,
+    string Content
+);
+
+public record PlaygroundChatResponse(
+    string Message,
+    List<PlaygroundToolCallDto> ToolCalls
+);
+
+public record PlaygroundToolCallDto(
+    string Tool,
+    string? ApiName,
+    string? Method,
+    string? Path,
+    JsonElement Input,
+    string Output,
+    bool IsError
+);
+
+public record PlaygroundToolsResponse(
+    bool Enabled,
+    List<PlaygroundToolDto> Tools
+);
+
+public record PlaygroundToolDto(
+    string Name,
+    string Description,
+    string ApiName,
+    string Method,
+    string Path
+);
+
+public static class PlaygroundDtoExtensions
+{
+    public static PlaygroundChatResponse ToDto(this PlaygroundResult result)
+    {
+        return new PlaygroundChatResponse(
+            result.Message,
+            result.ToolCalls.Select(c => new PlaygroundToolCallDto(
+                c.Tool, c.ApiName, c.Method, c.Path, c.Input, c.Output, c.IsError)).ToList()
+        );
+    }
+
+    public static PlaygroundToolDto ToDto(this PlaygroundTool tool)
+    {
+        return new PlaygroundToolDto(
+            tool.Definition.Name,
+            tool.Definition.Description,
+            tool.Api.DisplayName,
+            tool.Endpoint.Method.ToUpperInvariant(),
+            tool.Endpoint.Path
+        );
+    }
+}
@@ -5,12 +5,15 @@ namespace McpApi.Api.DTOs;
 
 public record CreateTokenRequest(
     [Required] string Name,
-    DateTime? ExpiresAt = null
+    DateTime? ExpiresAt = null,
+    // Environment the token's calls use for APIs that define it; each API's active environment when null
+    string? DefaultEnvironment = null
 );
 
 public record McpTokenDto(
     string Id,
     string Name,
+    string? DefaultEnvironment,
     DateTime CreatedAt,
     DateTime? LastUsedAt,
     DateTime? ExpiresAt,
@@ -23,6 +26,17 @@ public record CreateTokenResponse(
     string PlaintextToken
 );
 
+public record TestTokenRequest(
+    [Required] string Token
+);
+
+public record TestTokenResponse(
+    string TokenId,
+    string TokenName,
+    int ApiCount,
+    int EndpointCount
+);
+
 public static class TokenDtoExtensions
 {
     public static McpTokenDto ToDto(this McpToken token)
@@ -30,6 +44,7 @@ public static class TokenDtoExtensions
         return new McpTokenDto(
             token.Id,
             token.Name,
+            token.DefaultEnvironment,
             token.CreatedAt,
             token.LastUsedAt,
             token.ExpiresAt,
@@ -21,6 +21,55 @@ public record UsageRecordDto(
     DateTime? LastCallAt
 );
 
+public record DailyUsageDto(
+    string Date,
+    int CallCount,
+    int ErrorCount
+);
+
+public record UsageBreakdownItemDto(
+    string? Key,
+    string Label,
+    string? Detail,
+    int CallCount,
+    int ErrorCount,
+    long AverageDurationMs
+);
+
+public record ApiCallLogSummaryDto(
+    string Id,
+    DateTime Timestamp,
+    string Source,
+    string? TokenId,
+    string? TokenName,
+    string ApiId,
+    string ApiName,
+    // Null for the API's default environment
+    string? Environment,
+    string OperationId,
+    string Method,
+    string Path,
+    int? StatusCode,
+    bool IsSuccess,
+    long DurationMs,
+    string? Error
+);
+
+public record ApiCallLogDto(
+    ApiCallLogSummaryDto Summary,
+    string? Arguments,
+    string? RequestUrl,
+    Dictionary<string, string[]>? RequestHeaders,
+    string? RequestBody,
+    Dictionary<string, string[]>? ResponseHeaders,
+    string? ResponseBody
+);
+
+public record ApiCallLogPageDto(
+    List<ApiCallLogSummaryDto> Items,
+    string? ContinuationToken
+);
+
 public static class UsageDtoExtensions
 {
     public static UsageSummaryDto ToDto(this UsageSummary summary)
@@ -46,4 +95,55 @@ public static class UsageDtoExtensions
             record.LastCallAt
         );
     }
+
+    public static DailyUsageDto ToDto(this DailyUsagePoint point)
+    {
+        return new DailyUsageDto(point.Date, point.CallCount, point.ErrorCount);
+    }
+
+    public static UsageBreakdownItemDto ToDto(this UsageBreakdownItem item, string? label = null)
+    {
+        return new UsageBreakdownItemDto(
+            item.Key,
+            label ?? item.Label,
+            item.Detail,
+            item.CallCount,
+            item.ErrorCount,
+            item.AverageDurationMs
+        );
+    }
+
+    public static ApiCallLogSummaryDto ToSummaryDto(this ApiCallLog log, string? tokenName = null)
+    {
+        return new ApiCallLogSummaryDto(
+            log.Id,
+            log.Timestamp,
+            log.Source,
+            log.TokenId,
+            tokenName,
+            log.ApiId,
+            log.ApiName,
+            log.Environment,
+            log.OperationId,
+            log.Method,
+            log.Path,
+            log.StatusCode,
+            log.IsSuccess,
+            log.DurationMs,
+            log.Error
+        );
+    }
+
+    public static ApiCallLogDto ToDto(this ApiCallLog log, string? tokenName = null)
+    {
+        return new ApiCallLogDto(
+            log.ToSummaryDto(tokenName),
+            log.Arguments,
+            log.RequestUrl,
+            log.RequestHeaders,
+            log.RequestBody,
+            log.ResponseHeaders,
+            log.ResponseBody
+        );
+    }
 }
@@ -4,9 +4,12 @@ using McpApi.Api.Auth;
 using McpApi.Api.HealthChecks;
 using McpApi.Api.Middleware;
 using McpApi.Api.Services;
+using McpApi.Core;
 using McpApi.Core.Auth;
+using McpApi.Core.Chat;
 using McpApi.Core.GraphQL;
 using McpApi.Core.Http;
+using McpApi.Core.Notifications;
 using McpApi.Core.OpenApi;
 using McpApi.Core.Postman;
 using McpApi.Core.Secrets;
@@ -82,6 +85,13 @@ builder.Services.Configure<IpRateLimitOptions>(options =>
             Endpoint = "*:/api/demo/chat",
             Period = "1m",
             Limit = 5
+        },
+        // Playground chat endpoint: 10 requests per minute per IP (each request runs a model loop)
+        new RateLimitRule
+        {
+            Endpoint = "*:/api/playground/chat",
+            Period = "1m",
+            Limit = 10
         }
     };
 });
@@ -280,6 +290,18 @@ builder.Services.AddSingleton<IRefreshTokenStore>(sp =>
     return new CosmosRefreshTokenStore(cosmosClient, databaseName);
 });
 
+builder.Services.AddSingleton<IApiCallLogStore>(sp =>
+{
+    var cosmosClient = sp.GetRequiredService<CosmosClient>();
+    return new CosmosApiCallLogStore(cosmosClient, databaseName);
+});
+
+builder.Services.AddSingleton<IApprovalStore>(sp =>
+{
+    var cosmosClient = sp.GetRequiredService<CosmosClient>();
+    return new CosmosApprovalStore(cosmosClient, databaseName);
+});
+
 // Configure services
 builder.Services.AddSingleton<IUsageTrackingService>(sp =>
 {
@@ -303,6 +325,23 @@ builder.Services.AddScoped<IAuthService>(sp =>
     return new AuthService(userStore);
 });
 
+// Configure email notifications (optional - scheduled refreshes skip emails without it)
+var acsConnectionString = builder.Configuration["Acs:ConnectionString"]
+    ?? builder.Configuration["acs-connection-string"];
+var acsSenderAddress = builder.Configuration["Acs:SenderAddress"];
+
+if (!string.IsNullOrEmpty(acsConnectionString) && !string.IsNullOrEmpty(acsSenderAddress))
+{
+    builder.Services.AddSingleton<IEmailService>(new AcsEmailService(acsConnectionString, acsSenderAddress));
+}
+else
+{
+    Console.WriteLine("[WARNING] Email not configured (Acs:ConnectionString and Acs:SenderAddress required)");
+}
+
+// Scheduled spec re-sync for APIs with a refresh schedule
+builder.Services.AddHostedService<ScheduledSpecRefreshService>();
+
 // Configure current user service
 builder.Services.AddHttpContextAccessor();
 builder.Services.AddScoped<ICurrentUserService, HttpContextCurrentUserService>();
@@ -329,15 +368,30 @@ else
     builder.Services.AddScoped<IGitHubDemoService>(_ => null!);
 }
 
+// Configure tool playground chat model (optional - playground chat is disabled without it)
+if (!string.IsNullOrEmpty(anthropicApiKey))
+{
+    var playgroundModel = builder.Configuration["Playground:Model"] ?? Constants.Playground.DefaultModel;
+    builder.Services.AddTransient<IChatModel>(sp => new AnthropicChatModel(
+        sp.GetRequiredService<IHttpClientFactory>().CreateClient(),
+        anthropicApiKey,
+        playgroundModel));
+}
+
 // Register parsers
 builder.Services.AddTransient<IOpenApiParser>(sp => sp.GetRequiredService<OpenApiParser>());
+builder.Services.AddTransient<ISpecLoader, SpecLoader>();
 builder.Services.AddSingleton<IAuthHandlerFactory>(sp =>
 {
     var secretResolver = sp.GetRequiredService<ISecretResolver>();
     var httpClientFactory = sp.GetRequiredService<IHttpClientFactory>();
-    return new AuthHandlerFactory(secretResolver, httpClientFactory);
+    var apiStore = sp.GetRequiredService<IApiRegistrationStore>();
+    var logger = sp.GetRequiredService<ILogger<AuthHandlerFactory>>();
+    return new AuthHandlerFactory(secretResolver, httpClientFactory, apiStore, logger);
 });
 builder.Services.AddSingleton<IApiClient, DynamicApiClient>();
+builder.Services.AddSingleton<IApiCallLogService, ApiCallLogService>();
+builder.Services.AddSingleton<IApprovalService, ApprovalService>();
 
 // Configure health checks
 builder.Services.AddHealthChecks()
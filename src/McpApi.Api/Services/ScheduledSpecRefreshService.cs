@@ -0,0 +1,191 @@
+using System.Net;
+using System.Text;
+using McpApi.Core;
+using McpApi.Core.Models;
+using McpApi.Core.Notifications;
+using McpApi.Core.Storage;
+using McpApi.Core.Utilities;
+
+namespace McpApi.Api.Services;
+
+/// <summary>
+/// Checks the specs of APIs with a daily or weekly refresh schedule and emails owners when they change.
+/// Changes are held for review on the API page rather than applied, so users choose what to keep
+/// just as they do when refreshing by hand.
+/// </summary>
+public class ScheduledSpecRefreshService : BackgroundService
+{
+    private readonly IServiceScopeFactory _scopeFactory;
+    private readonly IApiRegistrationStore _store;
+    private readonly IUserStore _userStore;
+    private readonly IConfiguration _configuration;
+    private readonly ILogger<ScheduledSpecRefreshService> _logger;
+    private readonly IEmailService? _emailService;
+
+    public ScheduledSpecRefreshService(
+        IServiceScopeFactory scopeFactory,
+        IApiRegistrationStore store,
+        IUserStore userStore,
+        IConfiguration configuration,
+        ILogger<ScheduledSpecRefreshService> logger,
+        IEmailService? emailService = null)
+    {
+        _scopeFactory = scopeFactory;
+        _store = store;
+        _userStore = userStore;
+        _configuration = configuration;
+        _logger = logger;
+        _emailService = emailService;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        using var timer = new PeriodicTimer(TimeSpan.FromMinutes(Constants.SpecRefresh.ScheduleCheckIntervalMinutes));
+
+        do
+        {
+            try
+            {
+                await RefreshDueApisAsync(stoppingToken);
+            }
+            catch (Exception ex) when (ex is not OperationCanceledException)
+            {
+                _logger.LogError(ex, "Scheduled spec refresh run failed");
+            }
+        }
+        while (await timer.WaitForNextTickAsync(stoppingToken));
+    }
+
+    /// <summary>
+    /// Checks every scheduled API whose refresh is due. Runs on each timer tick.
+    /// </summary>
+    public async Task RefreshDueApisAsync(CancellationToken ct)
+    {
+        var registrations = await _store.GetScheduledForRefreshAsync(ct);
+        var now = DateTime.UtcNow;
+
+        foreach (var api in registrations.Where(a => IsDue(a, now)))
+        {
+            try
+            {
+                await RefreshApiAsync(api, ct);
+            }
+            catch (Exception ex) when (ex is not OperationCanceledException)
+            {
+                // Retried on the next run
+                _logger.LogWarning(ex, "Scheduled refresh failed for API: {ApiId} of user {UserId}", api.Id, api.UserId);
+            }
+        }
+    }
+
+    /// <summary>
+    /// Whether a day (or a week, for weekly schedules) has passed since the spec was last checked.
+    /// </summary>
+    public static bool IsDue(ApiRegistration api, DateTime now)
+    {
+        var interval = api.RefreshSchedule == Constants.SpecRefresh.ScheduleWeekly
+            ? TimeSpan.FromDays(7)
+            : TimeSpan.FromDays(1);
+
+        // Specs with changes waiting for review are checked again on the same schedule
+        var lastChecked = api.PendingChanges is { } pending && pending.CheckedAt > api.LastRefreshed
+            ? pending.CheckedAt
+            : api.LastRefreshed;
+        return now - lastChecked >= interval;
+    }
+
+    private async Task RefreshApiAsync(ApiRegistration api, CancellationToken ct)
+    {
+        using var scope = _scopeFactory.CreateScope();
+        var specLoader = scope.ServiceProvider.GetRequiredService<ISpecLoader>();
+
+        var existingEndpoints = await _store.GetEndpointsAsync(api.UserId, api.Id, ct);
+        var refreshedApi = await specLoader.LoadAsync(api.BaseUrl, api.SpecUrl, ct);
+        var newEndpoints = refreshedApi.Endpoints.ToList();
+
+        EndpointDiff.PreserveSettings(existingEndpoints, newEndpoints);
+        var changes = EndpointDiff.Compare(existingEndpoints, newEndpoints);
+
+        if (!changes.HasChanges)
+        {
+            // Nothing to review - just record the refresh, which also drops changes that were reverted
+            refreshedApi.PreserveSettingsFrom(api);
+            await _store.UpsertAsync(refreshedApi, ct);
+            await _store.SaveEndpointsAsync(api.UserId, api.Id, newEndpoints, ct);
+            return;
+        }
+
+        // Nothing is saved until the user reviews the refresh on the API page
+        var pending = PendingSpecChanges.From(changes, refreshedApi.ApiVersion, DateTime.UtcNow);
+        var isNew = api.PendingChanges?.Signature != pending.Signature;
+        if (!isNew)
+        {
+            pending.DetectedAt = api.PendingChanges!.DetectedAt;
+        }
+
+        api.PendingChanges = pending;
+        await _store.UpsertAsync(api, ct);
+
+        _logger.LogInformation(
+            "Scheduled refresh for API: {ApiId} found changes to review ({Added} added, {Removed} removed, {Changed} changed)",
+            api.Id, changes.Added.Count, changes.Removed.Count, changes.Changed.Count);
+
+        if (isNew)
+        {
+            await NotifyChangesAsync(api, changes, ct);
+        }
+    }
+
+    private async Task NotifyChangesAsync(ApiRegistration api, EndpointChangeSet changes, CancellationToken ct)
+    {
+        if (_emailService == null)
+        {
+            _logger.LogWarning("Email service not configured; spec changes for API {ApiId} were not sent", api.Id);
+            return;
+        }
+
+        var user = await _userStore.GetByIdAsync(api.UserId, ct);
+        if (user == null || string.IsNullOrEmpty(user.Email))
+        {
+            return;
+        }
+
+        var frontendUrl = _configuration["App:FrontendUrl"] ?? "http://localhost:3000";
+        var apiUrl = $"{frontendUrl.TrimEnd('/')}/apis/{Uri.EscapeDataString(api.Id)}";
+
+        var lines = new List<string>();
+        lines.AddRange(changes.Removed.Select(e => $"{e.Method} {e.Path}: endpoint removed"));
+        lines.AddRange(changes.Changed
+            .SelectMany(c => c.Changes
+                .Select(f => $"{c.Current.Method} {c.Current.Path}: {f.Description}{(f.IsBreaking ? " (breaking)" : "")}")));
+        lines.AddRange(changes.Added.Select(e => $"{e.Method} {e.Path}: new endpoint"));
+
+        var summary = changes.HasBreakingChanges
+            ? "changed in ways that may break MCP clients using its tools"
+            : "changed";
+        const string review = "Nothing has been applied yet. Review the changes from the API page to choose what to apply.";
+
+        var text = new StringBuilder()
+            .AppendLine($"The spec for {api.DisplayName} {summary}.")
+            .AppendLine()
+            .AppendLine(string.Join(Environment.NewLine, lines.Select(l => $"- {l}")))
+            .AppendLine()
+            .AppendLine(review);
+        var html = new StringBuilder()
+            .Append($"<p>The spec for <strong>{WebUtility.HtmlEncode(api.DisplayName)}</strong> {summary}.</p>")
+            .Append("<ul>")
+            .Append(string.Concat(lines.Select(l => $"<li>{WebUtility.HtmlEncode(l)}</li>")))
+            .Append("</ul>")
+            .Append($"<p>{review}</p>");
+
+        text.AppendLine().AppendLine($"Review the changes: {apiUrl}");
+        html.Append($"<p><a href=\"{WebUtility.HtmlEncode(apiUrl)}\">Review the changes</a></p>");
+
+        await _emailService.SendEmailAsync(
+            user.Email,
+            changes.HasBreakingChanges ? $"Breaking changes in {api.DisplayName}" : $"Spec changes in {api.DisplayName}",
+            text.ToString(),
+            html.ToString(),
+            ct);
+    }
+}
@@ -0,0 +1,121 @@
+using System.Text;
+using McpApi.Core.GraphQL;
+using McpApi.Core.Models;
+using McpApi.Core.OpenApi;
+using McpApi.Core.Postman;
+using McpApi.Core.Validation;
+
+namespace McpApi.Api.Services;
+
+public interface ISpecLoader
+{
+    /// <summary>
+    /// Fetches and parses the spec of an API without persisting anything, detecting whether it is an
+    /// OpenAPI spec, a Postman collection or a GraphQL schema or endpoint.
+    /// </summary>
+    /// <param name="baseUrl">Base URL of the API, used to discover the spec when no spec URL is given.</param>
+    /// <param name="specUrl">URL of the spec, if known.</param>
+    /// <param name="ct">Cancellation token.</param>
+    Task<ApiRegistration> LoadAsync(string baseUrl, string? specUrl, CancellationToken ct = default);
+
+    /// <summary>
+    /// Parses an uploaded or pasted spec (OpenAPI JSON/YAML, Postman v2.1 or GraphQL SDL) against an explicit base URL.
+    /// </summary>
+    /// <param name="baseUrl">Base URL the API is called at.</param>
+    /// <param name="content">The spec content.</param>
+    /// <param name="ct">Cancellation token.</param>
+    Task<ApiRegistration> ParseContentAsync(string baseUrl, string content, CancellationToken ct = default);
+}
+
+public class SpecLoader : ISpecLoader
+{
+    private readonly IOpenApiParser _parser;
+    private readonly OpenApiDiscovery _discovery;
+    private readonly PostmanCollectionParser _postmanParser;
+    private readonly GraphQLSchemaParser _graphqlParser;
+    private readonly IHttpClientFactory _httpClientFactory;
+
+    public SpecLoader(
+        IOpenApiParser parser,
+        OpenApiDiscovery discovery,
+        PostmanCollectionParser postmanParser,
+        GraphQLSchemaParser graphqlParser,
+        IHttpClientFactory httpClientFactory)
+    {
+        _parser = parser;
+        _discovery = discovery;
+        _postmanParser = postmanParser;
+        _graphqlParser = graphqlParser;
+        _httpClientFactory = httpClientFactory;
+    }
+
+    public async Task<ApiRegistration> LoadAsync(string baseUrl, string? specUrl, CancellationToken ct = default)
+    {
+        UrlValidator.ValidateExternalUrl(baseUrl);
+        if (!string.IsNullOrEmpty(specUrl))
+        {
+            UrlValidator.ValidateExternalUrl(specUrl);
+        }
+
+        var targetUrl = specUrl ?? baseUrl;
+
+        // Check if this is a GraphQL endpoint
+        if (GraphQLSchemaParser.LooksLikeGraphQLEndpoint(targetUrl))
+        {
+            return await _graphqlParser.ParseFromEndpointAsync(targetUrl, ct);
+        }
+
+        // Discover spec URL if not provided
+        if (string.IsNullOrEmpty(specUrl))
+        {
+            specUrl = await _discovery.DiscoverAsync(baseUrl, ct)
+                ?? throw new InvalidOperationException(
+                    $"Could not discover OpenAPI spec at {baseUrl}. Please provide the spec URL manually.");
+        }
+
+        // Fetch and detect format
+        using var httpClient = _httpClientFactory.CreateClient();
+        var response = await httpClient.GetAsync(specUrl, ct);
+        response.EnsureSuccessStatusCode();
+        var content = await response.Content.ReadAsStringAsync(ct);
+
+        if (PostmanCollectionParser.IsPostmanCollection(content))
+        {
+            return _postmanParser.ParseFromJson(content, specUrl);
+        }
+
+        if (GraphQLSchemaParser.IsGraphQLSchema(content))
+        {
+            return _graphqlParser.ParseFromSdl(content, baseUrl);
+        }
+
+        return await _parser.ParseAsync(specUrl, ct);
+    }
+
+    public async Task<ApiRegistration> ParseContentAsync(string baseUrl, string content, CancellationToken ct = default)
+    {
+        UrlValidator.ValidateExternalUrl(baseUrl);
+
+        if (string.IsNullOrWhiteSpace(content))
+        {
+            throw new ArgumentException("Spec content cannot be empty");
+        }
+
+        baseUrl = baseUrl.TrimEnd('/');
+
+        if (PostmanCollectionParser.IsPostmanCollection(content))
+        {
+            var registration = _postmanParser.ParseFromJson(content);
+            registration.BaseUrl = baseUrl;
+            return registration;
+        }
+
+        if (GraphQLSchemaParser.IsGraphQLSchema(content))
+        {
+            return _graphqlParser.ParseFromSdl(content, baseUrl);
+        }
+
+        using var stream = new MemoryStream(Encoding.UTF8.GetBytes(content));
+        return await _parser.ParseAsync(stream, baseUrl, ct);
+    }
+}
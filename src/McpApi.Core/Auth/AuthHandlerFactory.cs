@@ -3,6 +3,8 @@ namespace McpApi.Core.Auth;
 using System.Collections.Concurrent;
 using McpApi.Core.Models;
 using McpApi.Core.Secrets;
+using McpApi.Core.Storage;
+using Microsoft.Extensions.Logging;
 
 /// <summary>
 /// Factory for creating auth handlers based on configuration type.
@@ -12,12 +14,20 @@ public class AuthHandlerFactory : IAuthHandlerFactory
 {
     private readonly ISecretResolver _secretResolver;
     private readonly IHttpClientFactory _httpClientFactory;
+    private readonly IApiRegistrationStore? _apiStore;
+    private readonly ILogger<AuthHandlerFactory>? _logger;
     private readonly ConcurrentDictionary<string, OAuth2AuthHandler> _oauth2Cache = new();
 
-    public AuthHandlerFactory(ISecretResolver secretResolver, IHttpClientFactory httpClientFactory)
+    public AuthHandlerFactory(
+        ISecretResolver secretResolver,
+        IHttpClientFactory httpClientFactory,
+        IApiRegistrationStore? apiStore = null,
+        ILogger<AuthHandlerFactory>? logger = null)
     {
         _secretResolver = secretResolver;
         _httpClientFactory = httpClientFactory;
+        _apiStore = apiStore;
+        _logger = logger;
     }
 
     public IAuthHandler Create(AuthConfiguration config, UserSecretContext? userContext = null)
@@ -28,11 +38,20 @@ public class AuthHandlerFactory : IAuthHandlerFactory
             ApiKeyAuthConfig apiKey => new ApiKeyAuthHandler(apiKey, _secretResolver, userContext),
             BearerTokenAuthConfig bearer => new BearerTokenAuthHandler(bearer, _secretResolver, userContext),
             BasicAuthConfig basic => new BasicAuthHandler(basic, _secretResolver, userContext),
-            OAuth2AuthConfig oauth2 => GetOrCreateOAuth2Handler(oauth2, userContext),
+            OAuth2AuthConfig oauth2 => GetOrCreateOAuth2Handler(oauth2, userContext, null),
             _ => throw new NotSupportedException($"Auth type {config.GetType().Name} is not supported")
         };
     }
 
+    public IAuthHandler Create(ApiRegistration api, UserSecretContext? userContext = null)
+    {
+        // Rotated refresh tokens can only be saved encrypted for the owning user
+        if (api.Auth is not OAuth2AuthConfig oauth2 || _apiStore == null || userContext == null)
+            return Create(api.Auth, userContext);
+
+        return GetOrCreateOAuth2Handler(oauth2, userContext, api);
+    }
+
     /// <summary>
     /// Invalidates cached OAuth2 handler when auth config changes.
     /// </summary>
@@ -41,16 +60,84 @@ public class AuthHandlerFactory : IAuthHandlerFactory
         _oauth2Cache.TryRemove(cacheKey, out _);
     }
 
-    private OAuth2AuthHandler GetOrCreateOAuth2Handler(OAuth2AuthConfig config, UserSecretContext? userContext)
+    private OAuth2AuthHandler GetOrCreateOAuth2Handler(
+        OAuth2AuthConfig config,
+        UserSecretContext? userContext,
+        ApiRegistration? api)
+    {
+        var cacheKey = GetOAuth2CacheKey(config, userContext);
+
+        return _oauth2Cache.GetOrAdd(cacheKey, _ =>
+        {
+            // The refresh token currently stored for this handler; moves forward with each rotation
+            var stored = config.RefreshToken;
+            Func<string, CancellationToken, Task>? onRotated = api == null
+                ? null
+                : async (refreshToken, ct) =>
+                    stored = await SaveRotatedRefreshTokenAsync(api, userContext!, stored, refreshToken, ct) ?? stored;
+
+            return new OAuth2AuthHandler(
+                config,
+                _secretResolver,
+                userContext,
+                _httpClientFactory.CreateClient(Constants.HttpClients.OAuth2),
+                onRotated);
+        });
+    }
+
+    /// <summary>
+    /// Encrypts a rotated refresh token and saves it to the auth it came from, so other processes and later
+    /// handlers don't start from a token the provider has already revoked. Returns the saved reference,
+    /// or null when it could not be saved.
+    /// </summary>
+    private async Task<SecretReference?> SaveRotatedRefreshTokenAsync(
+        ApiRegistration api,
+        UserSecretContext userContext,
+        SecretReference? previous,
+        string refreshToken,
+        CancellationToken ct)
+    {
+        try
+        {
+            var registration = await _apiStore!.GetAsync(api.UserId, api.Id, ct);
+            if (registration?.GetAuth(api.ActiveEnvironment) is not OAuth2AuthConfig current)
+                return null;
+
+            // The account was reconnected or disconnected meanwhile; that token wins
+            if (current.RefreshToken?.EncryptedValue != previous?.EncryptedValue)
+                return null;
+
+            var oldKey = GetOAuth2CacheKey(current, userContext);
+            current.RefreshToken = _secretResolver.Encrypt(refreshToken, userContext.UserId, userContext.EncryptionSalt);
+            registration.SetAuth(api.ActiveEnvironment, current);
+            await _apiStore.UpsertAsync(registration, ct);
+
+            // Later requests load the new token, so the handler that holds the access token moves with it
+            if (_oauth2Cache.TryRemove(oldKey, out var handler))
+                _oauth2Cache[GetOAuth2CacheKey(current, userContext)] = handler;
+
+            return current.RefreshToken;
+        }
+        catch (Exception ex) when (ex is not OperationCanceledException)
+        {
+            // The handler still holds the new token, so this process keeps working until it restarts
+            _logger?.LogWarning(ex, "Failed to save rotated OAuth2 refresh token for API {ApiId}", api.Id);
+            return null;
+        }
+    }
+
+    private static string GetOAuth2CacheKey(OAuth2AuthConfig config, UserSecretContext? userContext)
     {
         // Cache key based on token URL, client ID, and user context
         var secretId = config.ClientId.IsEncrypted
             ? config.ClientId.EncryptedValue![..8]  // Use partial encrypted value as key
             : config.ClientId.SecretName ?? "unknown";
         var userKey = userContext?.UserId ?? "global";
-        var cacheKey = $"{config.TokenUrl}:{secretId}:{userKey}";
 
-        return _oauth2Cache.GetOrAdd(cacheKey, _ =>
-            new OAuth2AuthHandler(config, _secretResolver, userContext, _httpClientFactory.CreateClient(Constants.HttpClients.OAuth2)));
+        // Reconnecting an account stores a new refresh token, which must not reuse the old handler
+        var refreshKey = config.RefreshToken?.IsEncrypted == true
+            ? config.RefreshToken.EncryptedValue![..8]
+            : "none";
+        return $"{config.TokenUrl}:{secretId}:{userKey}:{refreshKey}";
     }
 }
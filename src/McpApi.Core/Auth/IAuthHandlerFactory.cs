@@ -15,4 +15,13 @@ public interface IAuthHandlerFactory
     /// <param name="userContext">User context for decrypting user-specific secrets. Required if secrets are encrypted.</param>
     /// <returns>An auth handler that can apply authentication to requests.</returns>
     IAuthHandler Create(AuthConfiguration config, UserSecretContext? userContext = null);
+
+    /// <summary>
+    /// Creates an auth handler for the auth of an API or one of its environments. OAuth2 refresh tokens
+    /// that the provider rotates are saved back to that auth.
+    /// </summary>
+    /// <param name="api">The API, as a view of the environment whose auth to use.</param>
+    /// <param name="userContext">User context for decrypting user-specific secrets. Required if secrets are encrypted.</param>
+    /// <returns>An auth handler that can apply authentication to requests.</returns>
+    IAuthHandler Create(ApiRegistration api, UserSecretContext? userContext = null);
 }
@@ -13,12 +13,14 @@ public interface IMcpTokenService
     /// <param name="userId">The user's ID.</param>
     /// <param name="name">A friendly name for the token.</param>
     /// <param name="expiresAt">Optional expiration date.</param>
+    /// <param name="defaultEnvironment">Optional environment the token's calls use, for APIs that define it.</param>
     /// <param name="ct">Cancellation token.</param>
     /// <returns>The created token and its plaintext value (only shown once).</returns>
     Task<CreateTokenResult> CreateTokenAsync(
         string userId,
         string name,
         DateTime? expiresAt = null,
+        string? defaultEnvironment = null,
         CancellationToken ct = default);
 
     /// <summary>
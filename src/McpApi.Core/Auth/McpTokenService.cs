@@ -20,6 +20,7 @@ public class McpTokenService : IMcpTokenService
         string userId,
         string name,
         DateTime? expiresAt = null,
+        string? defaultEnvironment = null,
         CancellationToken ct = default)
     {
         // Generate a cryptographically secure token
@@ -36,6 +37,7 @@ public class McpTokenService : IMcpTokenService
             TokenHash = tokenHash,
             Name = name,
             ExpiresAt = expiresAt,
+            DefaultEnvironment = defaultEnvironment,
             CreatedAt = DateTime.UtcNow
         };
 
@@ -1,13 +1,15 @@
 namespace McpApi.Core.Auth;
 
+using System.Net;
 using System.Net.Http.Headers;
 using System.Net.Http.Json;
-using System.Text.Json.Serialization;
 using McpApi.Core.Models;
 using McpApi.Core.Secrets;
+using McpApi.Core.Validation;
 
 /// <summary>
-/// Auth handler for OAuth2 client credentials flow with automatic token refresh.
+/// Auth handler for OAuth2 client credentials and authorization code (refresh token) flows
+/// with automatic token refresh.
 /// </summary>
 public class OAuth2AuthHandler : IAuthHandler
 {
@@ -15,8 +17,10 @@ public class OAuth2AuthHandler : IAuthHandler
     private readonly ISecretResolver _secretResolver;
     private readonly UserSecretContext? _userContext;
     private readonly HttpClient _httpClient;
+    private readonly Func<string, CancellationToken, Task>? _onRefreshTokenRotated;
 
     private string? _accessToken;
+    private string? _rotatedRefreshToken;
     private DateTime _tokenExpiry = DateTime.MinValue;
     private readonly SemaphoreSlim _refreshLock = new(1, 1);
 
@@ -24,12 +28,14 @@ public class OAuth2AuthHandler : IAuthHandler
         OAuth2AuthConfig config,
         ISecretResolver secretResolver,
         UserSecretContext? userContext,
-        HttpClient httpClient)
+        HttpClient httpClient,
+        Func<string, CancellationToken, Task>? onRefreshTokenRotated = null)
     {
         _config = config;
         _secretResolver = secretResolver;
         _userContext = userContext;
         _httpClient = httpClient;
+        _onRefreshTokenRotated = onRefreshTokenRotated;
     }
 
     public async Task ApplyAuthAsync(HttpRequestMessage request, CancellationToken ct = default)
@@ -54,27 +60,65 @@ public class OAuth2AuthHandler : IAuthHandler
             var clientId = await ResolveSecretAsync(_config.ClientId, ct);
             var clientSecret = await ResolveSecretAsync(_config.ClientSecret, ct);
 
+            var form = new Dictionary<string, string>
+            {
+                ["client_id"] = clientId,
+                ["client_secret"] = clientSecret
+            };
+
+            string? refreshToken = null;
+            if (_config.Flow == Constants.OAuth2.AuthorizationCodeFlow)
+            {
+                if (_config.RefreshToken == null)
+                    throw new OAuth2NotConnectedException();
+
+                form["grant_type"] = "refresh_token";
+                refreshToken = _rotatedRefreshToken ?? await ResolveSecretAsync(_config.RefreshToken, ct);
+                form["refresh_token"] = refreshToken;
+            }
+            else
+            {
+                form["grant_type"] = "client_credentials";
+                form["scope"] = string.Join(" ", _config.Scopes);
+            }
+
+            // Token URLs also come from imported specs, which are not checked when they are parsed
+            UrlValidator.ValidateExternalUrl(_config.TokenUrl);
+
             var tokenRequest = new HttpRequestMessage(HttpMethod.Post, _config.TokenUrl)
             {
-                Content = new FormUrlEncodedContent(new Dictionary<string, string>
-                {
-                    ["grant_type"] = "client_credentials",
-                    ["client_id"] = clientId,
-                    ["client_secret"] = clientSecret,
-                    ["scope"] = string.Join(" ", _config.Scopes)
-                })
+                Content = new FormUrlEncodedContent(form)
             };
 
             var response = await _httpClient.SendAsync(tokenRequest, ct);
+
+            // A revoked or expired refresh token (invalid_grant) won't work on retry; the account has to be reconnected
+            if (refreshToken != null && response.StatusCode is HttpStatusCode.BadRequest or HttpStatusCode.Unauthorized)
+            {
+                throw new OAuth2NotConnectedException(
+                    "OAuth2 account needs to be reconnected: the provider rejected its refresh token. Reconnect it from the dashboard.");
+            }
+
             response.EnsureSuccessStatusCode();
 
-            var tokenResponse = await response.Content.ReadFromJsonAsync<TokenResponse>(ct);
+            var tokenResponse = await response.Content.ReadFromJsonAsync<OAuth2TokenResponse>(ct);
             if (tokenResponse == null)
                 throw new InvalidOperationException("Failed to parse token response");
 
             _accessToken = tokenResponse.AccessToken;
             _tokenExpiry = DateTime.UtcNow.AddSeconds(tokenResponse.ExpiresIn);
 
+            // Providers that rotate refresh tokens invalidate the old one; keep using the newest,
+            // and hand it on so it outlives this handler
+            if (refreshToken != null
+                && !string.IsNullOrEmpty(tokenResponse.RefreshToken)
+                && tokenResponse.RefreshToken != refreshToken)
+            {
+                _rotatedRefreshToken = tokenResponse.RefreshToken;
+                if (_onRefreshTokenRotated != null)
+                    await _onRefreshTokenRotated(tokenResponse.RefreshToken, ct);
+            }
+
             return true;
         }
         finally
@@ -95,16 +139,4 @@ public class OAuth2AuthHandler : IAuthHandler
 
         return _secretResolver.ResolveAsync(secret, "", "", ct);
     }
-
-    private sealed class TokenResponse
-    {
-        [JsonPropertyName("access_token")]
-        public required string AccessToken { get; set; }
-
-        [JsonPropertyName("expires_in")]
-        public int ExpiresIn { get; set; }
-
-        [JsonPropertyName("token_type")]
-        public string? TokenType { get; set; }
-    }
 }
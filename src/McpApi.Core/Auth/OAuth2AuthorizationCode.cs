@@ -0,0 +1,103 @@
+namespace McpApi.Core.Auth;
+
+using System.Net.Http.Json;
+using System.Security.Cryptography;
+using System.Text;
+using McpApi.Core.Models;
+using McpApi.Core.Validation;
+
+/// <summary>
+/// Helpers for the OAuth2 authorization code flow with PKCE (RFC 7636).
+/// </summary>
+public static class OAuth2AuthorizationCode
+{
+    /// <summary>
+    /// Generates a random code verifier (43 URL-safe characters).
+    /// </summary>
+    public static string GenerateCodeVerifier() => Base64UrlEncode(RandomNumberGenerator.GetBytes(32));
+
+    /// <summary>
+    /// Generates a random, unguessable state value for CSRF protection.
+    /// </summary>
+    public static string GenerateState() => Base64UrlEncode(RandomNumberGenerator.GetBytes(32));
+
+    /// <summary>
+    /// Derives the S256 code challenge for a code verifier.
+    /// </summary>
+    public static string CreateCodeChallenge(string codeVerifier) =>
+        Base64UrlEncode(SHA256.HashData(Encoding.ASCII.GetBytes(codeVerifier)));
+
+    /// <summary>
+    /// Builds the URL the user is redirected to for consent.
+    /// </summary>
+    public static string BuildAuthorizationUrl(
+        OAuth2AuthConfig config, string clientId, string redirectUri, string state, string codeChallenge)
+    {
+        if (string.IsNullOrEmpty(config.AuthorizationUrl))
+            throw new InvalidOperationException("Authorization URL is required for the authorization code flow.");
+
+        var query = new Dictionary<string, string>
+        {
+            ["response_type"] = "code",
+            ["client_id"] = clientId,
+            ["redirect_uri"] = redirectUri,
+            ["state"] = state,
+            ["code_challenge"] = codeChallenge,
+            ["code_challenge_method"] = "S256"
+        };
+
+        if (config.Scopes.Count > 0)
+        {
+            query["scope"] = string.Join(" ", config.Scopes);
+        }
+
+        var separator = config.AuthorizationUrl.Contains('?') ? "&" : "?";
+        var queryString = string.Join("&", query.Select(kv =>
+            $"{Uri.EscapeDataString(kv.Key)}={Uri.EscapeDataString(kv.Value)}"));
+
+        return $"{config.AuthorizationUrl}{separator}{queryString}";
+    }
+
+    /// <summary>
+    /// Exchanges an authorization code for tokens at the token endpoint.
+    /// </summary>
+    public static async Task<OAuth2TokenResponse> ExchangeCodeAsync(
+        HttpClient httpClient,
+        string tokenUrl,
+        string clientId,
+        string clientSecret,
+        string code,
+        string redirectUri,
+        string codeVerifier,
+        CancellationToken ct = default)
+    {
+        UrlValidator.ValidateExternalUrl(tokenUrl);
+
+        using var tokenRequest = new HttpRequestMessage(HttpMethod.Post, tokenUrl)
+        {
+            Content = new FormUrlEncodedContent(new Dictionary<string, string>
+            {
+                ["grant_type"] = "authorization_code",
+                ["code"] = code,
+                ["redirect_uri"] = redirectUri,
+                ["client_id"] = clientId,
+                ["client_secret"] = clientSecret,
+                ["code_verifier"] = codeVerifier
+            })
+        };
+
+        var response = await httpClient.SendAsync(tokenRequest, ct);
+        if (!response.IsSuccessStatusCode)
+        {
+            var body = await response.Content.ReadAsStringAsync(ct);
+            throw new InvalidOperationException(
+                $"Token endpoint returned {(int)response.StatusCode}: {body}");
+        }
+
+        return await response.Content.ReadFromJsonAsync<OAuth2TokenResponse>(ct)
+            ?? throw new InvalidOperationException("Failed to parse token response");
+    }
+
+    private static string Base64UrlEncode(byte[] bytes) =>
+        Convert.ToBase64String(bytes).TrimEnd('=').Replace('+', '-').Replace('/', '_');
+}
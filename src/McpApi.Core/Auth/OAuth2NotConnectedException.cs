@@ -0,0 +1,14 @@
+namespace McpApi.Core.Auth;
+
+/// <summary>
+/// Exception thrown when an API uses the OAuth2 authorization code flow but no account is connected,
+/// either because none was connected yet or because the provider no longer accepts its refresh token.
+/// </summary>
+public class OAuth2NotConnectedException : InvalidOperationException
+{
+    public OAuth2NotConnectedException()
+        : base("OAuth2 account is not connected. Complete the authorization flow from the dashboard.") { }
+
+    public OAuth2NotConnectedException(string message)
+        : base(message) { }
+}
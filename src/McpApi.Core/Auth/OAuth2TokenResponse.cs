@@ -0,0 +1,25 @@
+namespace McpApi.Core.Auth;
+
+using System.Text.Json.Serialization;
+
+/// <summary>
+/// Token endpoint response shared by all OAuth2 grant types.
+/// </summary>
+public sealed class OAuth2TokenResponse
+{
+    [JsonPropertyName("access_token")]
+    public required string AccessToken { get; set; }
+
+    [JsonPropertyName("expires_in")]
+    public int ExpiresIn { get; set; }
+
+    [JsonPropertyName("token_type")]
+    public string? TokenType { get; set; }
+
+    /// <summary>Returned by authorization code grants, and by refresh grants when the provider rotates it.</summary>
+    [JsonPropertyName("refresh_token")]
+    public string? RefreshToken { get; set; }
+
+    [JsonPropertyName("scope")]
+    public string? Scope { get; set; }
+}
@@ -0,0 +1,116 @@
+namespace McpApi.Core.Chat;
+
+using System.Text;
+using System.Text.Json;
+using System.Text.Json.Nodes;
+
+/// <summary>
+/// Chat model backed by the Anthropic Messages API.
+/// </summary>
+public class AnthropicChatModel : IChatModel
+{
+    private const string MessagesUrl = "https://api.anthropic.com/v1/messages";
+    private const string ApiVersion = "2023-06-01";
+
+    private readonly HttpClient _httpClient;
+    private readonly string _apiKey;
+    private readonly string _model;
+
+    public AnthropicChatModel(HttpClient httpClient, string apiKey, string model)
+    {
+        _httpClient = httpClient;
+        _apiKey = apiKey;
+        _model = model;
+    }
+
+    public async Task<ChatModelResponse> CompleteAsync(ChatModelRequest request, CancellationToken ct = default)
+    {
+        var body = new JsonObject
+        {
+            ["model"] = _model,
+            ["max_tokens"] = Constants.Playground.MaxResponseTokens,
+            ["system"] = request.SystemPrompt,
+            ["messages"] = new JsonArray(request.Messages.Select(ToMessageNode).ToArray<JsonNode?>()),
+            ["tools"] = new JsonArray(request.Tools.Select(t => (JsonNode?)new JsonObject
+            {
+                ["name"] = t.Name,
+                ["description"] = t.Description,
+                ["input_schema"] = JsonNode.Parse(t.InputSchema.GetRawText())
+            }).ToArray())
+        };
+
+        using var httpRequest = new HttpRequestMessage(HttpMethod.Post, MessagesUrl)
+        {
+            Content = new StringContent(body.ToJsonString(), Encoding.UTF8, "application/json")
+        };
+        httpRequest.Headers.Add("x-api-key", _apiKey);
+        httpRequest.Headers.Add("anthropic-version", ApiVersion);
+
+        using var response = await _httpClient.SendAsync(httpRequest, ct);
+        if (!response.IsSuccessStatusCode)
+        {
+            var error = await response.Content.ReadAsStringAsync(ct);
+            throw new HttpRequestException(
+                $"Anthropic API error: {(int)response.StatusCode} {error}", null, response.StatusCode);
+        }
+
+        using var document = await JsonDocument.ParseAsync(await response.Content.ReadAsStreamAsync(ct), cancellationToken: ct);
+        var text = new StringBuilder();
+        var toolCalls = new List<ChatToolCall>();
+
+        if (document.RootElement.TryGetProperty("content", out var content) && content.ValueKind == JsonValueKind.Array)
+        {
+            foreach (var block in content.EnumerateArray())
+            {
+                switch (block.GetProperty("type").GetString())
+                {
+                    case "text":
+                        text.Append(block.GetProperty("text").GetString());
+                        break;
+                    case "tool_use":
+                        toolCalls.Add(new ChatToolCall(
+                            block.GetProperty("id").GetString() ?? "",
+                            block.GetProperty("name").GetString() ?? "",
+                            block.GetProperty("input").Clone()));
+                        break;
+                }
+            }
+        }
+
+        return new ChatModelResponse(text.Length > 0 ? text.ToString() : null, toolCalls);
+    }
+
+    private static JsonNode ToMessageNode(ChatMessage message)
+    {
+        var blocks = new JsonArray();
+
+        if (!string.IsNullOrEmpty(message.Text))
+        {
+            blocks.Add(new JsonObject { ["type"] = "text", ["text"] = message.Text });
+        }
+
+        foreach (var call in message.ToolCalls ?? [])
+        {
+            blocks.Add(new JsonObject
+            {
+                ["type"] = "tool_use",
+                ["id"] = call.Id,
+                ["name"] = call.Name,
+                ["input"] = JsonNode.Parse(call.Input.GetRawText())
+            });
+        }
+
+        foreach (var result in message.ToolResults ?? [])
+        {
+            blocks.Add(new JsonObject
+            {
+                ["type"] = "tool_result",
+                ["tool_use_id"] = result.ToolCallId,
+                ["content"] = result.Content,
+                ["is_error"] = result.IsError
+            });
+        }
+
+        return new JsonObject { ["role"] = message.Role, ["content"] = blocks };
+    }
+}
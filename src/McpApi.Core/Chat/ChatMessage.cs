@@ -0,0 +1,35 @@
+namespace McpApi.Core.Chat;
+
+using System.Text.Json;
+
+/// <summary>
+/// A message in a playground conversation.
+/// Assistant messages may carry tool calls; the user message that follows carries their results.
+/// </summary>
+public record ChatMessage(
+    string Role,
+    string? Text,
+    IReadOnlyList<ChatToolCall>? ToolCalls = null,
+    IReadOnlyList<ChatToolResult>? ToolResults = null)
+{
+    /// <summary>Role of messages written by the user or carrying tool results.</summary>
+    public const string UserRole = "user";
+
+    /// <summary>Role of messages produced by the model.</summary>
+    public const string AssistantRole = "assistant";
+}
+
+/// <summary>
+/// A tool the model may call, described by a JSON Schema for its input.
+/// </summary>
+public record ChatTool(string Name, string Description, JsonElement InputSchema);
+
+/// <summary>
+/// A tool call requested by the model.
+/// </summary>
+public record ChatToolCall(string Id, string Name, JsonElement Input);
+
+/// <summary>
+/// The result of a tool call, returned to the model.
+/// </summary>
+public record ChatToolResult(string ToolCallId, string Content, bool IsError);
@@ -0,0 +1,29 @@
+namespace McpApi.Core.Chat;
+
+/// <summary>
+/// A chat model backend that can answer with text or request tool calls.
+/// Implementations are pluggable so the playground can run against a hosted LLM or a local stub.
+/// </summary>
+public interface IChatModel
+{
+    /// <summary>
+    /// Produces the next assistant turn for the conversation.
+    /// </summary>
+    /// <param name="request">System prompt, conversation so far and the tools the model may call.</param>
+    /// <param name="ct">Cancellation token.</param>
+    Task<ChatModelResponse> CompleteAsync(ChatModelRequest request, CancellationToken ct = default);
+}
+
+/// <summary>
+/// Input for a single chat model completion.
+/// </summary>
+public record ChatModelRequest(
+    string SystemPrompt,
+    IReadOnlyList<ChatMessage> Messages,
+    IReadOnlyList<ChatTool> Tools);
+
+/// <summary>
+/// An assistant turn: text, tool calls to execute, or both.
+/// The conversation is finished when no tool calls are requested.
+/// </summary>
+public record ChatModelResponse(string? Text, IReadOnlyList<ChatToolCall> ToolCalls);
@@ -0,0 +1,325 @@
+namespace McpApi.Core.Chat;
+
+using System.Text.Json;
+using System.Text.RegularExpressions;
+using McpApi.Core.Auth;
+using McpApi.Core.Http;
+using McpApi.Core.Models;
+using McpApi.Core.Secrets;
+using McpApi.Core.Services;
+using McpApi.Core.Utilities;
+
+/// <summary>
+/// A tool offered to the model in the playground, bound to the endpoint it calls.
+/// </summary>
+public record PlaygroundTool(ChatTool Definition, ApiRegistration Api, ApiEndpoint Endpoint);
+
+/// <summary>
+/// The user and tools a playground conversation runs with.
+/// </summary>
+public record PlaygroundContext(
+    string UserId,
+    string Tier,
+    UserSecretContext? SecretContext,
+    IReadOnlyList<PlaygroundTool> Tools);
+
+/// <summary>
+/// A tool call made during a playground conversation, with the input the model sent and the output it received.
+/// </summary>
+public record PlaygroundToolCall(
+    string Tool,
+    string? ApiName,
+    string? Method,
+    string? Path,
+    JsonElement Input,
+    string Output,
+    bool IsError);
+
+/// <summary>
+/// The model's final reply to a playground message and every tool call made to produce it.
+/// </summary>
+public record PlaygroundResult(string Message, IReadOnlyList<PlaygroundToolCall> ToolCalls);
+
+/// <summary>
+/// Runs chat conversations in which the model calls the user's enabled endpoints as tools.
+/// Calls are executed against the registered APIs with usage tracking and recorded in the call log.
+/// Calls to endpoints that require approval are parked in the approvals inbox, as they are for MCP clients.
+/// </summary>
+public partial class ToolPlayground
+{
+    private const string SystemPrompt =
+        """
+        You are helping a developer test the tools generated from the APIs they registered with MCP-API.
+        Each tool calls a real endpoint of one of their APIs. Use the tools to carry out the user's request.
+        When a call fails, explain what went wrong using the status code and response body.
+        Keep responses brief.
+        """;
+
+    private static readonly JsonSerializerOptions OutputJsonOptions = new() { WriteIndented = true };
+
+    private readonly IChatModel _model;
+    private readonly IApiCallLogService _callLog;
+    private readonly IUsageTrackingService _usageTracking;
+    private readonly IApprovalService _approvals;
+
+    public ToolPlayground(
+        IChatModel model,
+        IApiCallLogService callLog,
+        IUsageTrackingService usageTracking,
+        IApprovalService approvals)
+    {
+        _model = model;
+        _callLog = callLog;
+        _usageTracking = usageTracking;
+        _approvals = approvals;
+    }
+
+    /// <summary>
+    /// Builds one tool per endpoint, with names that satisfy chat model naming rules and are unique.
+    /// </summary>
+    public static IReadOnlyList<PlaygroundTool> BuildTools(
+        IEnumerable<(ApiRegistration Api, IReadOnlyList<ApiEndpoint> Endpoints)> apis)
+    {
+        var tools = new List<PlaygroundTool>();
+        var names = new HashSet<string>(StringComparer.Ordinal);
+
+        foreach (var (api, endpoints) in apis)
+        {
+            foreach (var endpoint in endpoints)
+            {
+                var name = ToValidToolName(endpoint.GetToolName(api.Id), Constants.Playground.MaxToolNameLength);
+                if (!names.Add(name))
+                {
+                    var suffix = "_" + IdGenerator.ComputeShortHash(endpoint.Id);
+                    name = ToValidToolName(name, Constants.Playground.MaxToolNameLength - suffix.Length) + suffix;
+                    names.Add(name);
+                }
+
+                var signature = $"{endpoint.Method.ToUpperInvariant()} {endpoint.Path} ({api.DisplayName})";
+                var summary = endpoint.Summary ?? endpoint.Description;
+                var description = string.IsNullOrWhiteSpace(summary) ? signature : $"{summary.Trim()}\n\n{signature}";
+
+                tools.Add(new PlaygroundTool(
+                    new ChatTool(name, description, ToolSchemaBuilder.BuildInputSchema(endpoint, api)),
+                    api,
+                    endpoint));
+            }
+        }
+
+        return tools;
+    }
+
+    /// <summary>
+    /// Sends the conversation to the model and executes the tool calls it requests until it replies with text.
+    /// </summary>
+    /// <param name="context">The user and tools to run with.</param>
+    /// <param name="messages">The conversation so far, ending with the user's new message.</param>
+    /// <param name="ct">Cancellation token.</param>
+    public async Task<PlaygroundResult> RunAsync(
+        PlaygroundContext context,
+        IReadOnlyList<ChatMessage> messages,
+        CancellationToken ct = default)
+    {
+        var conversation = new List<ChatMessage>(messages);
+        var definitions = context.Tools.Select(t => t.Definition).ToList();
+        var toolCalls = new List<PlaygroundToolCall>();
+
+        for (var iteration = 0; iteration < Constants.Playground.MaxIterations; iteration++)
+        {
+            var response = await _model.CompleteAsync(new ChatModelRequest(SystemPrompt, conversation, definitions), ct);
+            if (response.ToolCalls.Count == 0)
+            {
+                return new PlaygroundResult(response.Text ?? "", toolCalls);
+            }
+
+            conversation.Add(new ChatMessage(ChatMessage.AssistantRole, response.Text, response.ToolCalls));
+
+            var results = new List<ChatToolResult>();
+            foreach (var call in response.ToolCalls)
+            {
+                var tool = context.Tools.FirstOrDefault(t => t.Definition.Name == call.Name);
+                var (output, isError) = await ExecuteToolAsync(context, tool, call, ct);
+
+                toolCalls.Add(new PlaygroundToolCall(
+                    call.Name,
+                    tool?.Api.DisplayName,
+                    tool?.Endpoint.Method.ToUpperInvariant(),
+                    tool?.Endpoint.Path,
+                    call.Input,
+                    output,
+                    isError));
+
+                results.Add(new ChatToolResult(call.Id, Truncate(output, Constants.Playground.MaxToolOutputLength), isError));
+            }
+
+            conversation.Add(new ChatMessage(ChatMessage.UserRole, null, ToolResults: results));
+        }
+
+        return new PlaygroundResult(
+            $"Stopped after {Constants.Playground.MaxIterations} tool rounds without a final answer.",
+            toolCalls);
+    }
+
+    private async Task<(string Output, bool IsError)> ExecuteToolAsync(
+        PlaygroundContext context,
+        PlaygroundTool? tool,
+        ChatToolCall call,
+        CancellationToken ct)
+    {
+        if (tool == null)
+            return (Serialize(new { error = $"Tool '{call.Name}' not found or its endpoint is disabled" }), true);
+
+        var callContext = new ApiCallContext(context.UserId, Constants.CallLog.SourcePlayground);
+        IEnumerable<KeyValuePair<string, JsonElement>>? arguments = call.Input.ValueKind == JsonValueKind.Object
+            ? call.Input.EnumerateObject().Select(p => KeyValuePair.Create(p.Name, p.Value)).ToList()
+            : null;
+
+        ApprovalRequest? approved = null;
+        if (tool.Endpoint.RequiresApproval)
+        {
+            (approved, var result) = await CheckApprovalAsync(callContext, tool, call.Name, arguments, ct);
+            if (approved == null)
+                return result!.Value;
+
+            // Make the call that was approved, not whatever was passed alongside the approval ID
+            arguments = JsonSerializer.Deserialize<Dictionary<string, JsonElement>>(approved.Arguments);
+        }
+
+        try
+        {
+            await _usageTracking.CheckAndRecordApiCallAsync(context.UserId, context.Tier, ct);
+        }
+        catch (UsageLimitExceededException ex)
+        {
+            return (Serialize(new
+            {
+                error = "Usage limit exceeded",
+                message = $"You have reached your {ex.LimitType} limit ({ex.Limit}). Upgrade your plan to continue."
+            }), true);
+        }
+
+        // Only now is the approval used up, so a call refused above can be retried with it
+        if (approved != null && !await _approvals.TryStartExecutionAsync(approved, ct))
+            return AlreadyExecutedOutput(approved);
+
+        try
+        {
+            var response = await _callLog.ExecuteAndLogAsync(
+                callContext,
+                tool.Api,
+                tool.Endpoint,
+                ToolArguments.ToParameters(arguments),
+                context.SecretContext,
+                ct);
+
+            return (ResponseShaper.ToToolOutput(response, tool.Endpoint.ResponseShaping), !response.IsSuccess);
+        }
+        catch (ArgumentException ex)
+        {
+            // Missing or invalid arguments, reported so the model can correct the call
+            return (Serialize(new { error = ex.Message }), true);
+        }
+        catch (HttpRequestException ex)
+        {
+            return (Serialize(new { error = "Request to the API failed", details = ex.Message }), true);
+        }
+        catch (OAuth2NotConnectedException ex)
+        {
+            return (Serialize(new { error = ex.Message }), true);
+        }
+    }
+
+    // Parks a new call, or looks up the one named by _approvalId. The user decides in the approvals inbox
+    // rather than in the conversation, so this doesn't wait. Returns the approval once it may be executed,
+    // or the output to return instead.
+    private async Task<(ApprovalRequest? Approved, (string Output, bool IsError)? Result)> CheckApprovalAsync(
+        ApiCallContext context,
+        PlaygroundTool tool,
+        string toolName,
+        IEnumerable<KeyValuePair<string, JsonElement>>? arguments,
+        CancellationToken ct)
+    {
+        var approvalId = arguments?.FirstOrDefault(a => a.Key == ToolSchemaBuilder.ApprovalArgumentName).Value;
+
+        ApprovalRequest? approval;
+        if (approvalId is { ValueKind: JsonValueKind.String } id)
+        {
+            approval = await _approvals.GetAsync(context.UserId, id.GetString()!, ct);
+            if (approval == null || approval.ApiId != tool.Api.Id || approval.EndpointId != tool.Endpoint.Id)
+                return (null, (Serialize(new { error = $"Approval '{id.GetString()}' not found for this tool" }), true));
+        }
+        else
+        {
+            var requested = (arguments ?? [])
+                .Where(a => a.Key != ToolSchemaBuilder.ApprovalArgumentName)
+                .ToDictionary(a => a.Key, a => a.Value);
+            approval = await _approvals.RequestAsync(
+                context, tool.Api, tool.Endpoint, toolName, JsonSerializer.Serialize(requested), ct);
+        }
+
+        switch (approval.GetStatus(DateTime.UtcNow))
+        {
+            case Constants.Approvals.StatusPending:
+                // Not an error: the call is queued until the user decides
+                return (null, (Serialize(new
+                {
+                    status = Constants.Approvals.StatusPending,
+                    approvalId = approval.Id,
+                    expiresAt = approval.ExpiresAt,
+                    message = "This call needs approval in the dashboard's approvals inbox. " +
+                              $"Once it is approved, call the tool again with {ToolSchemaBuilder.ApprovalArgumentName} set to this ID."
+                }), false));
+
+            case Constants.Approvals.StatusApproved:
+                return (approval, null);
+
+            case Constants.Approvals.StatusRejected:
+                return (null, (Serialize(new
+                {
+                    status = Constants.Approvals.StatusRejected,
+                    approvalId = approval.Id,
+                    error = "The call was rejected and was not made",
+                    reason = approval.DecisionNote
+                }), true));
+
+            case Constants.Approvals.StatusExpired:
+                return (null, (Serialize(new
+                {
+                    status = Constants.Approvals.StatusExpired,
+                    approvalId = approval.Id,
+                    error = "The request expired before the call was made"
+                }), true));
+
+            default:
+                return (null, AlreadyExecutedOutput(approval));
+        }
+    }
+
+    private static (string Output, bool IsError) AlreadyExecutedOutput(ApprovalRequest approval)
+    {
+        return (Serialize(new
+        {
+            status = Constants.Approvals.StatusExecuted,
+            approvalId = approval.Id,
+            error = "The approved call was already made; make a new call to repeat it"
+        }), true);
+    }
+
+    private static string Serialize(object value)
+    {
+        return JsonSerializer.Serialize(value, OutputJsonOptions);
+    }
+
+    private static string ToValidToolName(string name, int maxLength)
+    {
+        return Truncate(InvalidToolNameChars().Replace(name, "_"), maxLength);
+    }
+
+    private static string Truncate(string value, int maxLength)
+    {
+        return value.Length <= maxLength ? value : value[..maxLength];
+    }
+
+    [GeneratedRegex(@"[^A-Za-z0-9_\-]")]
+    private static partial Regex InvalidToolNameChars();
+}
@@ -34,12 +34,21 @@ public static class Constants
         /// <summary>Container for usage tracking.</summary>
         public const string Usage = "usage";
 
+        /// <summary>Container for daily per-endpoint usage counts.</summary>
+        public const string UsageDaily = "usage-daily";
+
         /// <summary>Container for MCP API tokens.</summary>
         public const string Tokens = "tokens";
 
         /// <summary>Container for JWT refresh tokens.</summary>
         public const string RefreshTokens = "refresh-tokens";
 
+        /// <summary>Container for per-call request/response logs.</summary>
+        public const string CallLogs = "call-logs";
+
+        /// <summary>Container for endpoint calls waiting for, or decided by, a human approval.</summary>
+        public const string Approvals = "approvals";
+
         /// <summary>Max concurrent Cosmos operations for batch upserts.</summary>
         public const int BatchConcurrency = 10;
     }
@@ -53,6 +62,57 @@ public static class Constants
         public const string UserAgent = "McpApi/1.0";
     }
 
+    /// <summary>
+    /// OpenAPI parameter serialization styles.
+    /// </summary>
+    public static class ParameterStyles
+    {
+        /// <summary>Query and cookie default: id=3,4,5, or id=3&amp;id=4&amp;id=5 when exploded.</summary>
+        public const string Form = "form";
+
+        /// <summary>Query arrays joined by spaces: id=3%204%205.</summary>
+        public const string SpaceDelimited = "spaceDelimited";
+
+        /// <summary>Query arrays joined by pipes: id=3|4|5.</summary>
+        public const string PipeDelimited = "pipeDelimited";
+
+        /// <summary>Query objects as bracketed keys: id[role]=admin.</summary>
+        public const string DeepObject = "deepObject";
+
+        /// <summary>Path values prefixed with the name: ;id=3,4,5.</summary>
+        public const string Matrix = "matrix";
+
+        /// <summary>Path values prefixed with a dot: .3.4.5.</summary>
+        public const string Label = "label";
+
+        /// <summary>Path and header default: 3,4,5.</summary>
+        public const string Simple = "simple";
+    }
+
+    /// <summary>
+    /// Request body media types that can be encoded, in order of preference.
+    /// </summary>
+    public static class MediaTypes
+    {
+        /// <summary>JSON body.</summary>
+        public const string Json = "application/json";
+
+        /// <summary>URL-encoded form body.</summary>
+        public const string FormUrlEncoded = "application/x-www-form-urlencoded";
+
+        /// <summary>Multipart form body, with file parts.</summary>
+        public const string Multipart = "multipart/form-data";
+
+        /// <summary>XML body.</summary>
+        public const string Xml = "application/xml";
+
+        /// <summary>Plain text body.</summary>
+        public const string Text = "text/plain";
+
+        /// <summary>Content type of file parts that don't declare one.</summary>
+        public const string OctetStream = "application/octet-stream";
+    }
+
     /// <summary>
     /// OAuth2 authentication configuration.
     /// </summary>
@@ -60,6 +120,213 @@ public static class Constants
     {
         /// <summary>Seconds before expiry to refresh token (prevents edge-case failures).</summary>
         public const int TokenRefreshBufferSeconds = 30;
+
+        /// <summary>Flow name for machine-to-machine client credentials grants.</summary>
+        public const string ClientCredentialsFlow = "clientCredentials";
+
+        /// <summary>Flow name for user-delegated authorization code grants (with PKCE).</summary>
+        public const string AuthorizationCodeFlow = "authorizationCode";
+
+        /// <summary>Minutes a started authorization code flow may take before its state expires.</summary>
+        public const int PendingAuthorizationMinutes = 10;
+    }
+
+    /// <summary>
+    /// Spec refresh configuration.
+    /// </summary>
+    public static class SpecRefresh
+    {
+        /// <summary>Schedule value for APIs that are only refreshed manually.</summary>
+        public const string ScheduleOff = "off";
+
+        /// <summary>Schedule value for APIs re-synced once a day.</summary>
+        public const string ScheduleDaily = "daily";
+
+        /// <summary>Schedule value for APIs re-synced once a week.</summary>
+        public const string ScheduleWeekly = "weekly";
+
+        /// <summary>Minutes between checks for APIs whose scheduled re-sync is due.</summary>
+        public const int ScheduleCheckIntervalMinutes = 60;
+    }
+
+    /// <summary>
+    /// MCP server tool configuration.
+    /// </summary>
+    public static class McpTools
+    {
+        /// <summary>Maximum tool name length accepted by MCP clients.</summary>
+        public const int MaxNameLength = 128;
+
+        /// <summary>Seconds between checks for endpoint changes that alter a session's tool list.</summary>
+        public const int ListChangedPollSeconds = 30;
+    }
+
+    /// <summary>
+    /// Tool playground configuration.
+    /// </summary>
+    public static class Playground
+    {
+        /// <summary>Maximum tool name length accepted by chat model APIs.</summary>
+        public const int MaxToolNameLength = 64;
+
+        /// <summary>Maximum model round trips per playground message (stops runaway tool loops).</summary>
+        public const int MaxIterations = 8;
+
+        /// <summary>Maximum characters of a tool result passed back to the model.</summary>
+        public const int MaxToolOutputLength = 20_000;
+
+        /// <summary>Maximum tokens the model may generate per turn.</summary>
+        public const int MaxResponseTokens = 2048;
+
+        /// <summary>Anthropic model used when Playground:Model is not configured.</summary>
+        public const string DefaultModel = "claude-sonnet-4-20250514";
+    }
+
+    /// <summary>
+    /// API call log configuration.
+    /// </summary>
+    public static class CallLog
+    {
+        /// <summary>Days a call log entry is kept before Cosmos DB expires it.</summary>
+        public const int RetentionDays = 30;
+
+        /// <summary>Maximum characters of a request or response body kept in a log entry.</summary>
+        public const int MaxBodyLength = 8_000;
+
+        /// <summary>Placeholder written in place of secret header and query values.</summary>
+        public const string RedactedValue = "[REDACTED]";
+
+        /// <summary>Page size used when a call log query does not specify one.</summary>
+        public const int DefaultPageSize = 25;
+
+        /// <summary>Largest page size a call log query may request.</summary>
+        public const int MaxPageSize = 100;
+
+        /// <summary>Source for calls made by an MCP client through a published tool.</summary>
+        public const string SourceMcp = "mcp";
+
+        /// <summary>Source for calls made by the model in the tool playground.</summary>
+        public const string SourcePlayground = "playground";
+
+        /// <summary>Source for calls sent from an endpoint's try-it form.</summary>
+        public const string SourceTryIt = "try-it";
+    }
+
+    /// <summary>
+    /// Usage breakdown configuration.
+    /// </summary>
+    public static class UsageBreakdown
+    {
+        /// <summary>Days a daily usage record is kept before Cosmos DB expires it.</summary>
+        public const int RetentionDays = 366;
+
+        /// <summary>Days covered when a breakdown query does not specify a range.</summary>
+        public const int DefaultDays = 30;
+
+        /// <summary>Longest range a breakdown query may cover.</summary>
+        public const int MaxDays = 365;
+
+        /// <summary>Entries returned by a top-N breakdown when no count is given.</summary>
+        public const int DefaultTop = 10;
+
+        /// <summary>Largest top-N count a breakdown query may request.</summary>
+        public const int MaxTop = 50;
+
+        /// <summary>Breakdown by registered API.</summary>
+        public const string ByApi = "api";
+
+        /// <summary>Breakdown by endpoint.</summary>
+        public const string ByEndpoint = "endpoint";
+
+        /// <summary>Breakdown by MCP token.</summary>
+        public const string ByToken = "token";
+
+        /// <summary>Breakdown by call source (mcp, playground or try-it).</summary>
+        public const string BySource = "source";
+    }
+
+    /// <summary>
+    /// Response shaping configuration.
+    /// </summary>
+    public static class ResponseShaping
+    {
+        /// <summary>Maximum number of field paths in a shaping config.</summary>
+        public const int MaxFields = 50;
+
+        /// <summary>Smallest body size limit that can be configured, in bytes.</summary>
+        public const int MinBytes = 256;
+    }
+
+    /// <summary>
+    /// Handling of binary, CSV and XML response bodies.
+    /// </summary>
+    public static class ResponseBodies
+    {
+        /// <summary>Largest binary body returned to callers (2 MB); larger ones are described but left out.</summary>
+        public const int MaxBinaryBytes = 2 * 1024 * 1024;
+    }
+
+    /// <summary>
+    /// Pagination of list endpoints.
+    /// </summary>
+    public static class Pagination
+    {
+        /// <summary>Follows the Link header's rel="next" URL.</summary>
+        public const string StyleLink = "link";
+
+        /// <summary>Passes a cursor taken from the previous page's body.</summary>
+        public const string StyleCursor = "cursor";
+
+        /// <summary>Increments a page number query parameter.</summary>
+        public const string StylePage = "page";
+
+        /// <summary>Advances an offset query parameter by the number of items received.</summary>
+        public const string StyleOffset = "offset";
+
+        /// <summary>Turns off auto-detection for an endpoint.</summary>
+        public const string StyleNone = "none";
+
+        /// <summary>Most pages fetched by a single call.</summary>
+        public const int MaxPages = 10;
+
+        /// <summary>Most items merged by a single call.</summary>
+        public const int MaxItems = 1000;
+    }
+
+    /// <summary>
+    /// Timeouts, retries and circuit breaking for calls to registered APIs.
+    /// </summary>
+    public static class Resilience
+    {
+        /// <summary>Default request timeout in seconds.</summary>
+        public const int DefaultTimeoutSeconds = 30;
+
+        /// <summary>Longest request timeout that can be configured, in seconds.</summary>
+        public const int MaxTimeoutSeconds = 300;
+
+        /// <summary>Default number of retries after the first attempt.</summary>
+        public const int DefaultMaxRetries = 2;
+
+        /// <summary>Most retries that can be configured.</summary>
+        public const int MaxRetries = 5;
+
+        /// <summary>Default delay before the first retry, doubled for each further retry.</summary>
+        public const int DefaultBackoffMs = 500;
+
+        /// <summary>Longest delay between two attempts, in milliseconds.</summary>
+        public const int MaxBackoffMs = 30_000;
+
+        /// <summary>Longest Retry-After honored; a longer one ends retrying and returns the response.</summary>
+        public const int MaxRetryAfterSeconds = 60;
+
+        /// <summary>Default consecutive failed calls that open the circuit.</summary>
+        public const int DefaultCircuitBreakerThreshold = 5;
+
+        /// <summary>Default time the circuit stays open, in seconds.</summary>
+        public const int DefaultCircuitBreakerSeconds = 30;
+
+        /// <summary>Longest time the circuit can be configured to stay open, in seconds.</summary>
+        public const int MaxCircuitBreakerSeconds = 3600;
     }
 
     /// <summary>
@@ -70,4 +337,70 @@ public static class Constants
         /// <summary>Maximum depth for flattening nested schemas (prevents infinite recursion).</summary>
         public const int MaxFlattenDepth = 10;
     }
+
+    /// <summary>
+    /// Kinds of requests an API sends back to the caller.
+    /// </summary>
+    public static class WebhookKinds
+    {
+        /// <summary>Top-level OpenAPI 3.1 webhook, sent whenever its event happens.</summary>
+        public const string Webhook = "webhook";
+
+        /// <summary>Callback registered by calling one of the API's operations.</summary>
+        public const string Callback = "callback";
+    }
+
+    /// <summary>
+    /// Named environments (e.g., sandbox, production) with their own base URL and credentials.
+    /// </summary>
+    public static class Environments
+    {
+        /// <summary>Name of the registration's own base URL and auth.</summary>
+        public const string Default = "default";
+
+        /// <summary>Most environments per API, besides the default.</summary>
+        public const int MaxPerApi = 10;
+
+        /// <summary>Longest environment name.</summary>
+        public const int MaxNameLength = 32;
+    }
+
+    /// <summary>
+    /// Human approval of calls to endpoints that require it.
+    /// </summary>
+    public static class Approvals
+    {
+        /// <summary>Waiting for a decision in the dashboard.</summary>
+        public const string StatusPending = "pending";
+
+        /// <summary>Approved and not yet made.</summary>
+        public const string StatusApproved = "approved";
+
+        /// <summary>Rejected; the call is never made.</summary>
+        public const string StatusRejected = "rejected";
+
+        /// <summary>Approved and made.</summary>
+        public const string StatusExecuted = "executed";
+
+        /// <summary>Not decided, or not made once approved, in time; the call is never made.</summary>
+        public const string StatusExpired = "expired";
+
+        /// <summary>Seconds a tool call waits for a decision before returning a pending status.</summary>
+        public const int WaitSeconds = 25;
+
+        /// <summary>Seconds between checks for a decision while a tool call waits.</summary>
+        public const int PollSeconds = 2;
+
+        /// <summary>Hours a request can be decided before it expires.</summary>
+        public const int ExpiryHours = 24;
+
+        /// <summary>Minutes an approved call can be made before the approval expires.</summary>
+        public const int ExecutionWindowMinutes = 60;
+
+        /// <summary>Days a request is kept before Cosmos DB expires it.</summary>
+        public const int RetentionDays = 30;
+
+        /// <summary>Most requests returned by an approvals query.</summary>
+        public const int MaxPageSize = 100;
+    }
 }
@@ -14,9 +14,58 @@ public class ApiResponse
     /// <summary>Response headers.</summary>
     public required Dictionary<string, string[]> Headers { get; init; }
 
-    /// <summary>Response body as string.</summary>
+    /// <summary>Response body as string. Null for binary responses, which are kept in <see cref="BinaryBody"/>.</summary>
     public required string? Body { get; init; }
 
+    /// <summary>Body of a binary response (image, PDF, archive...), or null when it was larger than the binary size limit.</summary>
+    public byte[]? BinaryBody { get; init; }
+
+    /// <summary>Size in bytes of a binary response, or null for text responses.</summary>
+    public long? BinarySize { get; init; }
+
+    /// <summary>The request as sent, including auth. Secrets must be redacted before it is stored.</summary>
+    public ApiRequestInfo? Request { get; init; }
+
+    /// <summary>Number of pages merged into the body (1 unless the call asked for more pages).</summary>
+    public int PageCount { get; init; } = 1;
+
+    /// <summary>Whether further pages were left unfetched because a page or item limit was reached.</summary>
+    public bool HasMorePages { get; init; }
+
+    /// <summary>Failed attempts that were retried before this response, oldest first.</summary>
+    public IReadOnlyList<RetryAttempt> Retries { get; init; } = [];
+
     /// <summary>Whether the response indicates success (2xx).</summary>
     public bool IsSuccess => StatusCode >= 200 && StatusCode < 300;
+
+    /// <summary>Number of attempts made, including retries.</summary>
+    public int Attempts => Retries.Count + 1;
+
+    /// <summary>Media type from the Content-Type header, without parameters such as charset.</summary>
+    public string? ContentType => Headers
+        .FirstOrDefault(h => h.Key.Equals("Content-Type", StringComparison.OrdinalIgnoreCase))
+        .Value?.FirstOrDefault()?.Split(';')[0].Trim();
+}
+
+/// <summary>
+/// A failed attempt that was retried: its status code, or the error when there was no response.
+/// </summary>
+public record RetryAttempt(int? StatusCode, string? Error, long DelayMs);
+
+/// <summary>
+/// The HTTP request sent for an API call.
+/// </summary>
+public class ApiRequestInfo
+{
+    /// <summary>HTTP method.</summary>
+    public required string Method { get; init; }
+
+    /// <summary>Absolute request URL.</summary>
+    public required string Url { get; init; }
+
+    /// <summary>Request and content headers.</summary>
+    public required Dictionary<string, string[]> Headers { get; init; }
+
+    /// <summary>Request body as string.</summary>
+    public string? Body { get; init; }
 }
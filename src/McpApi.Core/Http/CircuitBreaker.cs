@@ -0,0 +1,62 @@
+namespace McpApi.Core.Http;
+
+using System.Collections.Concurrent;
+using McpApi.Core.Models;
+
+/// <summary>
+/// Counts consecutive failed calls per API and rejects calls while the circuit is open.
+/// Once the open period ends, one failed call is enough to open it again; a successful call closes it.
+/// State is kept in memory, so each server instance tracks its own circuits.
+/// </summary>
+public class CircuitBreaker
+{
+    private readonly ConcurrentDictionary<string, CircuitState> _circuits = new();
+
+    /// <summary>
+    /// Gets when the circuit closes again, or null when calls may go through.
+    /// </summary>
+    public DateTimeOffset? GetOpenUntil(string key, DateTimeOffset now)
+    {
+        if (!_circuits.TryGetValue(key, out var state))
+            return null;
+
+        lock (state)
+        {
+            return state.OpenUntil > now ? state.OpenUntil : null;
+        }
+    }
+
+    /// <summary>
+    /// Records a successful call, closing the circuit.
+    /// </summary>
+    public void RecordSuccess(string key)
+    {
+        _circuits.TryRemove(key, out _);
+    }
+
+    /// <summary>
+    /// Records a failed call, opening the circuit once the configured threshold is reached.
+    /// </summary>
+    public void RecordFailure(string key, ResilienceConfig resilience, DateTimeOffset now)
+    {
+        if (resilience.CircuitBreakerThreshold <= 0)
+            return;
+
+        var state = _circuits.GetOrAdd(key, _ => new CircuitState());
+        lock (state)
+        {
+            state.Failures++;
+            if (state.Failures >= resilience.CircuitBreakerThreshold)
+            {
+                state.OpenUntil = now.AddSeconds(resilience.CircuitBreakerSeconds);
+            }
+        }
+    }
+
+    private class CircuitState
+    {
+        public int Failures { get; set; }
+
+        public DateTimeOffset? OpenUntil { get; set; }
+    }
+}
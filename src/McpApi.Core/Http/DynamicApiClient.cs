@@ -3,14 +3,17 @@ namespace McpApi.Core.Http;
 using McpApi.Core.Auth;
 using McpApi.Core.Models;
 using McpApi.Core.Secrets;
+using McpApi.Core.Validation;
 
 /// <summary>
 /// HTTP client for executing dynamic API calls.
+/// Applies each API's resilience settings: a per-attempt timeout, retries with backoff, and a circuit breaker.
 /// </summary>
 public class DynamicApiClient : IApiClient
 {
     private readonly IHttpClientFactory _httpClientFactory;
     private readonly IAuthHandlerFactory _authHandlerFactory;
+    private readonly CircuitBreaker _circuitBreaker = new();
 
     public DynamicApiClient(IHttpClientFactory httpClientFactory, IAuthHandlerFactory authHandlerFactory)
     {
@@ -24,9 +27,115 @@ public class DynamicApiClient : IApiClient
         Dictionary<string, object?> parameters,
         UserSecretContext? userContext = null,
         CancellationToken ct = default)
+    {
+        var baseUrl = ResolveBaseUrl(api, parameters.GetValueOrDefault(ToolSchemaBuilder.ServerArgumentName)?.ToString());
+        var (requestParameters, limits) = Paginator.SplitArguments(parameters
+            .Where(p => p.Key != ToolSchemaBuilder.ServerArgumentName)
+            .ToDictionary(p => p.Key, p => p.Value));
+        var pagination = limits == null ? null : Paginator.Resolve(endpoint);
+
+        var response = await SendAsync(api, endpoint, baseUrl, requestParameters, null, userContext, ct);
+        if (pagination == null)
+            return response;
+
+        return await Paginator.FetchPagesAsync(
+            response,
+            pagination,
+            limits!,
+            (url, token) => SendAsync(api, endpoint, baseUrl, requestParameters, url, userContext, token),
+            ct);
+    }
+
+    // A call can name another of the API's servers, e.g. a sandbox
+    private static string ResolveBaseUrl(ApiRegistration api, string? server)
+    {
+        if (string.IsNullOrEmpty(server))
+            return api.BaseUrl;
+
+        var baseUrl = api.GetBaseUrl(server);
+        UrlValidator.ValidateExternalUrl(baseUrl);
+        return baseUrl;
+    }
+
+    private async Task<ApiResponse> SendAsync(
+        ApiRegistration api,
+        ApiEndpoint endpoint,
+        string baseUrl,
+        Dictionary<string, object?> parameters,
+        Uri? pageUrl,
+        UserSecretContext? userContext,
+        CancellationToken ct)
+    {
+        var resilience = api.Resilience;
+        // Environments have their own circuit, so a failing sandbox doesn't pause production
+        var circuitKey = api.ActiveEnvironment == null
+            ? $"{api.UserId}:{api.Id}"
+            : $"{api.UserId}:{api.Id}:{api.ActiveEnvironment}";
+
+        var openUntil = _circuitBreaker.GetOpenUntil(circuitKey, DateTimeOffset.UtcNow);
+        if (openUntil != null)
+        {
+            throw new HttpRequestException(
+                $"Calls to {api.DisplayName} are paused until {openUntil:u} after {resilience.CircuitBreakerThreshold} consecutive failures");
+        }
+
+        var retries = new List<RetryAttempt>();
+        while (true)
+        {
+            ApiResponse? response = null;
+            HttpRequestException? error = null;
+            try
+            {
+                response = await SendOnceAsync(api, endpoint, baseUrl, parameters, pageUrl, userContext, retries, ct);
+                if (!RetryPolicy.IsTransient(response.StatusCode))
+                {
+                    _circuitBreaker.RecordSuccess(circuitKey);
+                    return response;
+                }
+            }
+            catch (HttpRequestException ex)
+            {
+                error = ex;
+            }
+
+            var delay = retries.Count < resilience.MaxRetries &&
+                        RetryPolicy.CanRetry(endpoint.Method, response?.StatusCode, resilience)
+                ? RetryPolicy.GetDelay(resilience, retries.Count + 1, response?.Headers, DateTimeOffset.UtcNow)
+                : null;
+
+            if (delay == null)
+            {
+                _circuitBreaker.RecordFailure(circuitKey, resilience, DateTimeOffset.UtcNow);
+                if (error == null)
+                    return response!;
+                if (retries.Count == 0)
+                    throw error;
+                throw new HttpRequestException($"{error.Message} (after {retries.Count + 1} attempts)", error);
+            }
+
+            retries.Add(new RetryAttempt(response?.StatusCode, error?.Message, (long)delay.Value.TotalMilliseconds));
+            await Task.Delay(delay.Value, ct);
+        }
+    }
+
+    private async Task<ApiResponse> SendOnceAsync(
+        ApiRegistration api,
+        ApiEndpoint endpoint,
+        string baseUrl,
+        Dictionary<string, object?> parameters,
+        Uri? pageUrl,
+        UserSecretContext? userContext,
+        IReadOnlyList<RetryAttempt> retries,
+        CancellationToken ct)
     {
         // Build request
-        var request = RequestBuilder.Build(api.BaseUrl, endpoint, parameters);
+        var request = RequestBuilder.Build(baseUrl, endpoint, parameters);
+
+        // Later pages keep the first request's headers but go to the URL worked out from the previous page
+        if (pageUrl != null)
+        {
+            request.RequestUri = pageUrl;
+        }
 
         // Apply authentication
         var authHandler = CreateAuthHandler(api, userContext);
@@ -36,9 +145,31 @@ public class DynamicApiClient : IApiClient
         request.Headers.TryAddWithoutValidation("User-Agent", Constants.Http.UserAgent);
         request.Headers.TryAddWithoutValidation("Accept", "application/json");
 
+        // Capture the request before sending, for the call log
+        var requestInfo = new ApiRequestInfo
+        {
+            Method = request.Method.Method,
+            Url = request.RequestUri?.ToString() ?? "",
+            Headers = request.Headers
+                .Concat(request.Content?.Headers ?? Enumerable.Empty<KeyValuePair<string, IEnumerable<string>>>())
+                .ToDictionary(h => h.Key, h => h.Value.ToArray()),
+            Body = request.Content == null ? null : await request.Content.ReadAsStringAsync(ct)
+        };
+
         // Execute request using a fresh HttpClient from the factory
         using var httpClient = _httpClientFactory.CreateClient(Constants.HttpClients.DynamicApi);
-        var response = await httpClient.SendAsync(request, ct);
+        httpClient.Timeout = TimeSpan.FromSeconds(api.Resilience.TimeoutSeconds);
+
+        HttpResponseMessage response;
+        try
+        {
+            response = await httpClient.SendAsync(request, ct);
+        }
+        catch (TaskCanceledException ex) when (!ct.IsCancellationRequested)
+        {
+            // Reported as a request failure so it is retried and logged like one
+            throw new HttpRequestException($"Request timed out after {api.Resilience.TimeoutSeconds} seconds", ex);
+        }
 
         // Build response
         var headers = response.Headers
@@ -47,14 +178,31 @@ public class DynamicApiClient : IApiClient
                 h => h.Key,
                 h => h.Value.ToArray());
 
-        var body = await response.Content.ReadAsStringAsync(ct);
+        // Binary bodies are kept as bytes so decoding them as text doesn't mangle them
+        string? body = null;
+        byte[]? binaryBody = null;
+        long? binarySize = null;
+        if (ResponseBodyConverter.IsBinary(response.Content.Headers.ContentType?.MediaType))
+        {
+            var (data, size) = await ResponseBodyConverter.ReadBinaryAsync(response.Content, ct);
+            binaryBody = data;
+            binarySize = size;
+        }
+        else
+        {
+            body = await response.Content.ReadAsStringAsync(ct);
+        }
 
         return new ApiResponse
         {
             StatusCode = (int)response.StatusCode,
             ReasonPhrase = response.ReasonPhrase,
             Headers = headers,
-            Body = body
+            Body = body,
+            BinaryBody = binaryBody,
+            BinarySize = binarySize,
+            Request = requestInfo,
+            Retries = retries.ToList()
         };
     }
 
@@ -62,6 +210,6 @@ public class DynamicApiClient : IApiClient
     {
         // Create a fresh auth handler each time to ensure config changes are respected
         // Auth handlers rely on ISecretResolver's internal cache for performance
-        return _authHandlerFactory.Create(api.Auth, userContext);
+        return _authHandlerFactory.Create(api, userContext);
     }
 }
@@ -0,0 +1,392 @@
+namespace McpApi.Core.Http;
+
+using System.Globalization;
+using System.Text.Json;
+using System.Text.Json.Nodes;
+using System.Text.RegularExpressions;
+using System.Web;
+using McpApi.Core.Models;
+
+/// <summary>
+/// Fetches further pages of list endpoints and merges their items into the first page.
+/// Paging is opt-in per call through the "_maxPages" and "_maxItems" arguments,
+/// so a call without them returns a single page as before.
+/// </summary>
+public static partial class Paginator
+{
+    /// <summary>Argument that sets how many pages to fetch.</summary>
+    public const string MaxPagesArgumentName = "_maxPages";
+
+    /// <summary>Argument that sets how many items to fetch.</summary>
+    public const string MaxItemsArgumentName = "_maxItems";
+
+    private static readonly string[] CursorParameterNames =
+    [
+        "cursor", "after", "page_token", "pageToken", "next_token", "nextToken",
+        "starting_after", "continuation_token", "continuationToken"
+    ];
+
+    private static readonly string[] PageParameterNames = ["page", "page_number", "pageNumber"];
+
+    private static readonly string[] OffsetParameterNames = ["offset", "skip"];
+
+    private static readonly string[] CursorFieldPaths =
+    [
+        "next_cursor", "nextCursor", "next_page_token", "nextPageToken", "cursor",
+        "meta.next_cursor", "pagination.next_cursor", "response_metadata.next_cursor", "paging.cursors.after"
+    ];
+
+    private static readonly string[] ItemsFieldNames = ["data", "items", "results", "values", "records", "entries"];
+
+    private static readonly string[] Styles =
+    [
+        Constants.Pagination.StyleLink,
+        Constants.Pagination.StyleCursor,
+        Constants.Pagination.StylePage,
+        Constants.Pagination.StyleOffset,
+        Constants.Pagination.StyleNone
+    ];
+
+    /// <summary>
+    /// Gets the pagination an endpoint uses: its configured style, or one detected from its query parameters.
+    /// Returns null when the endpoint doesn't paginate.
+    /// </summary>
+    public static PaginationConfig? Resolve(ApiEndpoint endpoint)
+    {
+        if (endpoint.Pagination != null)
+            return endpoint.Pagination.Style == Constants.Pagination.StyleNone ? null : endpoint.Pagination;
+
+        return Detect(endpoint);
+    }
+
+    /// <summary>
+    /// Detects cursor, page or offset pagination from well-known query parameter names of a GET endpoint.
+    /// </summary>
+    public static PaginationConfig? Detect(ApiEndpoint endpoint)
+    {
+        if (!endpoint.Method.Equals("GET", StringComparison.OrdinalIgnoreCase))
+            return null;
+
+        var queryParameters = endpoint.Parameters.Where(p => p.In == "query").Select(p => p.Name).ToList();
+        string? Find(string[] names) =>
+            queryParameters.FirstOrDefault(p => names.Contains(p, StringComparer.OrdinalIgnoreCase));
+
+        if (Find(CursorParameterNames) is { } cursor)
+            return new PaginationConfig { Style = Constants.Pagination.StyleCursor, Parameter = cursor };
+
+        if (Find(PageParameterNames) is { } page)
+            return new PaginationConfig { Style = Constants.Pagination.StylePage, Parameter = page };
+
+        if (Find(OffsetParameterNames) is { } offset)
+            return new PaginationConfig { Style = Constants.Pagination.StyleOffset, Parameter = offset };
+
+        return null;
+    }
+
+    /// <summary>
+    /// Checks that a pagination config can be applied, throwing ArgumentException with the first problem found.
+    /// </summary>
+    public static void Validate(PaginationConfig pagination)
+    {
+        if (!Styles.Contains(pagination.Style))
+            throw new ArgumentException($"Unknown pagination style '{pagination.Style}'. Expected one of: {string.Join(", ", Styles)}");
+
+        var needsParameter = pagination.Style is Constants.Pagination.StyleCursor
+            or Constants.Pagination.StylePage
+            or Constants.Pagination.StyleOffset;
+        if (needsParameter && string.IsNullOrWhiteSpace(pagination.Parameter))
+            throw new ArgumentException($"The {pagination.Style} style needs a query parameter");
+
+        foreach (var path in new[] { pagination.CursorPath, pagination.ItemsPath })
+        {
+            if (path != null && path.Split('.').Any(string.IsNullOrWhiteSpace))
+                throw new ArgumentException($"Invalid body path '{path}'");
+        }
+    }
+
+    /// <summary>
+    /// Separates the page limit arguments from the request parameters.
+    /// Limits are null when the call didn't ask for more than one page.
+    /// </summary>
+    /// <exception cref="ArgumentException">Thrown when a limit is not a positive integer.</exception>
+    public static (Dictionary<string, object?> Parameters, PageLimits? Limits) SplitArguments(
+        Dictionary<string, object?> arguments)
+    {
+        var maxPages = ReadLimit(arguments, MaxPagesArgumentName);
+        var maxItems = ReadLimit(arguments, MaxItemsArgumentName);
+
+        var parameters = arguments
+            .Where(a => a.Key is not (MaxPagesArgumentName or MaxItemsArgumentName))
+            .ToDictionary(a => a.Key, a => a.Value);
+
+        if (maxPages == null && maxItems == null)
+            return (parameters, null);
+
+        var limits = new PageLimits(
+            Math.Min(maxPages ?? Constants.Pagination.MaxPages, Constants.Pagination.MaxPages),
+            Math.Min(maxItems ?? Constants.Pagination.MaxItems, Constants.Pagination.MaxItems));
+
+        return (parameters, limits);
+    }
+
+    /// <summary>
+    /// Fetches the pages after <paramref name="firstPage"/> until the limits are reached or there are no more,
+    /// and returns the first page with the items of all pages merged into its items array.
+    /// Stops early, keeping the items fetched so far, when a page fails or has no items array.
+    /// </summary>
+    public static async Task<ApiResponse> FetchPagesAsync(
+        ApiResponse firstPage,
+        PaginationConfig pagination,
+        PageLimits limits,
+        Func<Uri, CancellationToken, Task<ApiResponse>> fetchPage,
+        CancellationToken ct = default)
+    {
+        var body = TryParse(firstPage.Body);
+        var items = FindItems(body, pagination.ItemsPath);
+        if (!firstPage.IsSuccess || items == null || firstPage.Request == null)
+            return firstPage;
+
+        var pageCount = 1;
+        var retries = new List<RetryAttempt>(firstPage.Retries);
+        var lastPage = firstPage;
+        var lastBody = body;
+        var lastItemCount = items.Count;
+        var url = new Uri(firstPage.Request.Url);
+
+        Uri? next;
+        while ((next = GetNextUrl(pagination, url, lastPage.Headers, lastBody, lastItemCount)) != null &&
+               pageCount < limits.MaxPages &&
+               items.Count < limits.MaxItems)
+        {
+            var page = await fetchPage(next, ct);
+            retries.AddRange(page.Retries);
+            var pageBody = TryParse(page.Body);
+            var pageItems = FindItems(pageBody, pagination.ItemsPath);
+            if (!page.IsSuccess || pageItems == null)
+                break;
+
+            foreach (var item in pageItems)
+            {
+                items.Add(item?.DeepClone());
+            }
+
+            pageCount++;
+            lastPage = page;
+            lastBody = pageBody;
+            lastItemCount = pageItems.Count;
+            url = next;
+        }
+
+        var hasMore = next != null;
+        while (items.Count > limits.MaxItems)
+        {
+            items.RemoveAt(items.Count - 1);
+            hasMore = true;
+        }
+
+        return new ApiResponse
+        {
+            StatusCode = firstPage.StatusCode,
+            ReasonPhrase = firstPage.ReasonPhrase,
+            // The last page's headers carry the current Link and rate limit values
+            Headers = lastPage.Headers,
+            Body = body!.ToJsonString(),
+            Request = firstPage.Request,
+            Retries = retries,
+            PageCount = pageCount,
+            HasMorePages = hasMore
+        };
+    }
+
+    /// <summary>
+    /// Gets the URL of the page after the one fetched from <paramref name="url"/>, or null when it was the last.
+    /// </summary>
+    public static Uri? GetNextUrl(
+        PaginationConfig pagination,
+        Uri url,
+        Dictionary<string, string[]> headers,
+        JsonNode? body,
+        int itemCount)
+    {
+        switch (pagination.Style)
+        {
+            case Constants.Pagination.StyleLink:
+                return GetLinkNext(url, headers);
+
+            case Constants.Pagination.StyleCursor:
+                var cursor = FindCursor(body, pagination.CursorPath);
+                if (string.IsNullOrEmpty(cursor) || cursor == GetQueryValue(url, pagination.Parameter!))
+                    return null;
+                return WithQueryValue(url, pagination.Parameter!, cursor);
+
+            case Constants.Pagination.StylePage:
+                if (itemCount == 0)
+                    return null;
+                var page = int.TryParse(GetQueryValue(url, pagination.Parameter!), out var current) ? current : 1;
+                return WithQueryValue(url, pagination.Parameter!, (page + 1).ToString(CultureInfo.InvariantCulture));
+
+            case Constants.Pagination.StyleOffset:
+                if (itemCount == 0)
+                    return null;
+                var offset = long.TryParse(GetQueryValue(url, pagination.Parameter!), out var start) ? start : 0;
+                return WithQueryValue(url, pagination.Parameter!, (offset + itemCount).ToString(CultureInfo.InvariantCulture));
+
+            default:
+                return null;
+        }
+    }
+
+    /// <summary>
+    /// Finds the items array of a page: the node at <paramref name="itemsPath"/>, a top-level array,
+    /// a well-known property such as "data" or "items", or else the first array property.
+    /// </summary>
+    public static JsonArray? FindItems(JsonNode? body, string? itemsPath)
+    {
+        if (itemsPath != null)
+            return Select(body, itemsPath) as JsonArray;
+
+        if (body is JsonArray array)
+            return array;
+
+        if (body is not JsonObject obj)
+            return null;
+
+        foreach (var name in ItemsFieldNames)
+        {
+            if (obj[name] is JsonArray items)
+                return items;
+        }
+
+        return obj.Select(p => p.Value).OfType<JsonArray>().FirstOrDefault();
+    }
+
+    private static Uri? GetLinkNext(Uri url, Dictionary<string, string[]> headers)
+    {
+        var links = headers
+            .Where(h => h.Key.Equals("Link", StringComparison.OrdinalIgnoreCase))
+            .SelectMany(h => h.Value);
+
+        foreach (var link in links)
+        {
+            foreach (Match match in LinkRegex().Matches(link))
+            {
+                var rel = RelRegex().Match(match.Groups["params"].Value);
+                if (!rel.Success || !rel.Groups[1].Value.Split(' ').Contains("next", StringComparer.OrdinalIgnoreCase))
+                    continue;
+
+                if (!Uri.TryCreate(url, match.Groups["url"].Value.Trim(), out var next))
+                    return null;
+
+                // Credentials are attached to the next request, so never follow a link to another server
+                var sameServer = Uri.Compare(next, url, UriComponents.SchemeAndServer, UriFormat.Unescaped,
+                    StringComparison.OrdinalIgnoreCase) == 0;
+                return sameServer ? next : null;
+            }
+        }
+
+        return null;
+    }
+
+    private static string? FindCursor(JsonNode? body, string? cursorPath)
+    {
+        var paths = cursorPath != null ? new[] { cursorPath } : CursorFieldPaths;
+        foreach (var path in paths)
+        {
+            if (Select(body, path) is JsonValue value)
+                return value.TryGetValue<string>(out var text) ? text : value.ToJsonString();
+        }
+
+        return null;
+    }
+
+    private static JsonNode? Select(JsonNode? node, string path)
+    {
+        foreach (var name in path.Split('.'))
+        {
+            if (node is not JsonObject obj)
+                return null;
+            node = obj[name];
+        }
+
+        return node;
+    }
+
+    private static JsonNode? TryParse(string? body)
+    {
+        if (string.IsNullOrEmpty(body))
+            return null;
+
+        try
+        {
+            return JsonNode.Parse(body);
+        }
+        catch (JsonException)
+        {
+            return null;
+        }
+    }
+
+    private static string? GetQueryValue(Uri url, string name)
+    {
+        return HttpUtility.ParseQueryString(url.Query)[name];
+    }
+
+    private static Uri WithQueryValue(Uri url, string name, string value)
+    {
+        // Only the paging parameter is rewritten; the others keep their original encoding, e.g. pipe-delimited lists
+        var parameter = $"{Uri.EscapeDataString(name)}={Uri.EscapeDataString(value)}";
+        var segments = new List<string>();
+        var replaced = false;
+
+        foreach (var segment in url.Query.TrimStart('?').Split('&', StringSplitOptions.RemoveEmptyEntries))
+        {
+            if (HttpUtility.UrlDecode(segment.Split('=', 2)[0]) != name)
+            {
+                segments.Add(segment);
+            }
+            else if (!replaced)
+            {
+                segments.Add(parameter);
+                replaced = true;
+            }
+        }
+
+        if (!replaced)
+        {
+            segments.Add(parameter);
+        }
+
+        return new UriBuilder(url) { Query = string.Join('&', segments) }.Uri;
+    }
+
+    private static int? ReadLimit(Dictionary<string, object?> arguments, string name)
+    {
+        if (!arguments.TryGetValue(name, out var value) || value == null)
+            return null;
+
+        var limit = value switch
+        {
+            long l => l,
+            int i => i,
+            double d when d == Math.Floor(d) => (long)d,
+            string s when long.TryParse(s, out var parsed) => parsed,
+            _ => 0
+        };
+
+        if (limit < 1)
+            throw new ArgumentException($"{name} must be a positive integer");
+
+        return (int)Math.Min(limit, int.MaxValue);
+    }
+
+    [GeneratedRegex("<(?<url>[^>]*)>(?<params>[^,]*)")]
+    private static partial Regex LinkRegex();
+
+    [GeneratedRegex("""rel\s*=\s*"?([^";]*)"?""", RegexOptions.IgnoreCase)]
+    private static partial Regex RelRegex();
+}
+
+/// <summary>
+/// How many pages and items a single call may fetch.
+/// </summary>
+public record PageLimits(int MaxPages, int MaxItems);
@@ -0,0 +1,150 @@
+namespace McpApi.Core.Http;
+
+using System.Text.Json;
+using System.Text.Json.Nodes;
+using McpApi.Core.Models;
+using Styles = McpApi.Core.Constants.ParameterStyles;
+
+/// <summary>
+/// Serializes parameter values with OpenAPI style and explode rules, so arrays and objects reach the API in the shape it expects.
+/// </summary>
+public static class ParameterSerializer
+{
+    /// <summary>
+    /// Gets the parameter's style, or its location's default: form for query and cookie, simple for path and header.
+    /// </summary>
+    public static string GetStyle(ParameterDefinition parameter)
+    {
+        return parameter.Style ?? (parameter.In is "query" or "cookie" ? Styles.Form : Styles.Simple);
+    }
+
+    /// <summary>
+    /// Gets whether the parameter is exploded. Only the form style explodes by default.
+    /// </summary>
+    public static bool GetExplode(ParameterDefinition parameter)
+    {
+        return parameter.Explode ?? GetStyle(parameter) == Styles.Form;
+    }
+
+    /// <summary>
+    /// Serializes a path parameter (simple, label or matrix), percent-encoding values but not the style's delimiters.
+    /// </summary>
+    public static string SerializePath(ParameterDefinition parameter, object value)
+    {
+        return SerializeSegment(parameter, value, Uri.EscapeDataString);
+    }
+
+    /// <summary>
+    /// Serializes a header parameter (simple).
+    /// </summary>
+    public static string SerializeHeader(ParameterDefinition parameter, object value)
+    {
+        return SerializeSegment(parameter, value, v => v);
+    }
+
+    /// <summary>
+    /// Serializes a query parameter (form, spaceDelimited, pipeDelimited or deepObject) into unencoded name/value pairs.
+    /// Exploded arrays repeat the name.
+    /// </summary>
+    public static List<KeyValuePair<string, string>> SerializeQuery(ParameterDefinition parameter, object value)
+    {
+        return SerializePairs(parameter, value, v => v);
+    }
+
+    /// <summary>
+    /// Serializes a cookie parameter (form) into the "name=value" pairs of a Cookie header.
+    /// </summary>
+    public static IEnumerable<string> SerializeCookie(ParameterDefinition parameter, object value)
+    {
+        return SerializePairs(parameter, value, Uri.EscapeDataString).Select(p => $"{p.Key}={p.Value}");
+    }
+
+    private static string SerializeSegment(ParameterDefinition parameter, object value, Func<string, string> escape)
+    {
+        var (items, properties) = Split(value);
+        var explode = GetExplode(parameter);
+        var name = escape(parameter.Name);
+
+        // Objects list their properties as k=v when exploded, otherwise as k,v
+        var values = properties == null
+            ? items.Select(escape).ToList()
+            : explode
+                ? properties.Select(p => $"{escape(p.Key)}={escape(p.Value)}").ToList()
+                : properties.SelectMany(p => new[] { escape(p.Key), escape(p.Value) }).ToList();
+
+        return GetStyle(parameter) switch
+        {
+            // .3.4.5 or .3,4,5
+            Styles.Label => "." + string.Join(explode ? "." : ",", values),
+
+            // ;id=3;id=4 or ;id=3,4; exploded objects drop the name: ;role=admin;firstName=Alex
+            Styles.Matrix when explode && properties != null => string.Concat(values.Select(v => $";{v}")),
+            Styles.Matrix when explode => string.Concat(values.Select(v => $";{name}={v}")),
+            Styles.Matrix => $";{name}={string.Join(",", values)}",
+
+            _ => string.Join(",", values)
+        };
+    }
+
+    private static List<KeyValuePair<string, string>> SerializePairs(
+        ParameterDefinition parameter,
+        object value,
+        Func<string, string> escape)
+    {
+        var (items, properties) = Split(value);
+        var name = parameter.Name;
+        var explode = GetExplode(parameter);
+
+        switch (GetStyle(parameter))
+        {
+            case Styles.DeepObject when properties != null:
+                return properties.Select(p => Pair($"{name}[{p.Key}]", escape(p.Value))).ToList();
+
+            case Styles.SpaceDelimited when properties == null && !explode:
+                return [Pair(name, string.Join(" ", items.Select(escape)))];
+
+            case Styles.PipeDelimited when properties == null && !explode:
+                return [Pair(name, string.Join("|", items.Select(escape)))];
+        }
+
+        // Form: exploded arrays repeat the name and exploded objects use their own property names
+        if (explode)
+        {
+            return properties?.Select(p => Pair(p.Key, escape(p.Value))).ToList()
+                ?? items.Select(v => Pair(name, escape(v))).ToList();
+        }
+
+        var values = properties?.SelectMany(p => new[] { p.Key, p.Value }) ?? items;
+        return [Pair(name, string.Join(",", values.Select(escape)))];
+    }
+
+    // Scalars and arrays become items; objects become properties. Nested arrays and objects are kept as JSON.
+    private static (List<string> Items, List<KeyValuePair<string, string>>? Properties) Split(object value)
+    {
+        var node = value as JsonNode ?? JsonSerializer.SerializeToNode(value);
+
+        if (node is JsonObject obj)
+        {
+            var properties = obj
+                .Where(p => p.Value != null)
+                .Select(p => Pair(p.Key, Format(p.Value!)))
+                .ToList();
+            return (new List<string>(), properties);
+        }
+
+        var items = node is JsonArray array
+            ? array.Where(i => i != null).Select(i => Format(i!)).ToList()
+            : node == null ? new List<string>() : new List<string> { Format(node) };
+        return (items, null);
+    }
+
+    private static KeyValuePair<string, string> Pair(string key, string value)
+    {
+        return new KeyValuePair<string, string>(key, value);
+    }
+
+    private static string Format(JsonNode node)
+    {
+        return node.GetValueKind() == JsonValueKind.String ? node.GetValue<string>() : node.ToJsonString();
+    }
+}
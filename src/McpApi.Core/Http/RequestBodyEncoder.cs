@@ -0,0 +1,276 @@
+namespace McpApi.Core.Http;
+
+using System.Net.Http.Headers;
+using System.Text;
+using System.Text.Json;
+using System.Text.Json.Nodes;
+using System.Xml;
+using System.Xml.Linq;
+using McpApi.Core.Models;
+using MediaTypes = McpApi.Core.Constants.MediaTypes;
+
+/// <summary>
+/// Encodes request bodies in the media type an endpoint declares: JSON, URL-encoded or multipart forms, XML or plain text.
+/// </summary>
+public static class RequestBodyEncoder
+{
+    /// <summary>Property of a file part holding its base64-encoded content.</summary>
+    public const string FileDataProperty = "data";
+
+    /// <summary>Property of a file part holding its file name.</summary>
+    public const string FileNameProperty = "filename";
+
+    /// <summary>Property of a file part holding its media type.</summary>
+    public const string FileContentTypeProperty = "contentType";
+
+    private const string DefaultXmlRoot = "root";
+    private const string XmlArrayItem = "item";
+
+    private static readonly JsonSerializerOptions JsonOptions = new()
+    {
+        PropertyNamingPolicy = JsonNamingPolicy.CamelCase,
+        WriteIndented = false
+    };
+
+    private static readonly string[] PreferredMediaTypes =
+    [
+        MediaTypes.Json,
+        MediaTypes.FormUrlEncoded,
+        MediaTypes.Multipart,
+        MediaTypes.Xml,
+        MediaTypes.Text
+    ];
+
+    /// <summary>
+    /// Ranks a media type for endpoints that accept several; lower is preferred and unsupported types rank last.
+    /// </summary>
+    public static int GetPreference(string mediaType)
+    {
+        var kind = GetKind(mediaType);
+        return kind == null ? PreferredMediaTypes.Length : Array.IndexOf(PreferredMediaTypes, kind);
+    }
+
+    /// <summary>
+    /// Whether the media type is a multipart form, whose file properties are passed as base64.
+    /// </summary>
+    public static bool IsMultipart(string mediaType)
+    {
+        return GetKind(mediaType) == MediaTypes.Multipart;
+    }
+
+    /// <summary>
+    /// Whether a property of a multipart body schema is sent as a file part.
+    /// </summary>
+    public static bool IsFile(JsonSchema schema)
+    {
+        return schema.Type == "string" && schema.Format is ("binary" or "byte");
+    }
+
+    /// <summary>
+    /// Encodes a body value in the media type. Strings are sent as-is, except in multipart forms.
+    /// Media types that can't be encoded fall back to JSON.
+    /// </summary>
+    /// <exception cref="ArgumentException">Thrown when the value doesn't fit the media type.</exception>
+    public static HttpContent Encode(string mediaType, JsonSchema? schema, object value)
+    {
+        var kind = GetKind(mediaType);
+        var type = kind == null ? MediaTypes.Json : mediaType.Split(';')[0].Trim();
+
+        if (value is string text && kind != MediaTypes.Multipart)
+        {
+            return new StringContent(text, Encoding.UTF8, type);
+        }
+
+        if (kind is null or MediaTypes.Json)
+        {
+            return new StringContent(JsonSerializer.Serialize(value, JsonOptions), Encoding.UTF8, type);
+        }
+
+        var node = JsonSerializer.SerializeToNode(value, JsonOptions);
+        return kind switch
+        {
+            MediaTypes.FormUrlEncoded => new FormUrlEncodedContent(ToFormFields(node)),
+            MediaTypes.Multipart => ToMultipart(node, schema),
+            MediaTypes.Xml => new StringContent(ToXml(node).ToString(SaveOptions.DisableFormatting), Encoding.UTF8, type),
+            _ => new StringContent(node is JsonValue scalar ? FormatValue(scalar) : node?.ToJsonString() ?? "", Encoding.UTF8, type)
+        };
+    }
+
+    private static string? GetKind(string mediaType)
+    {
+        var type = mediaType.Split(';')[0].Trim().ToLowerInvariant();
+
+        if (type.EndsWith("/json") || type.EndsWith("+json"))
+            return MediaTypes.Json;
+        if (type is MediaTypes.FormUrlEncoded or MediaTypes.Multipart)
+            return type;
+        if (type.EndsWith("/xml") || type.EndsWith("+xml"))
+            return MediaTypes.Xml;
+        if (type.StartsWith("text/"))
+            return MediaTypes.Text;
+
+        return null;
+    }
+
+    private static List<KeyValuePair<string, string>> ToFormFields(JsonNode? node)
+    {
+        if (node is not JsonObject fields)
+        {
+            throw new ArgumentException("A form body must be an object of fields");
+        }
+
+        var result = new List<KeyValuePair<string, string>>();
+        foreach (var (name, value) in fields)
+        {
+            AddFormField(result, name, value);
+        }
+
+        return result;
+    }
+
+    private static void AddFormField(List<KeyValuePair<string, string>> fields, string key, JsonNode? node)
+    {
+        switch (node)
+        {
+            case null:
+                break;
+
+            // Nested objects use bracketed keys, as Stripe expects: metadata[order_id]=6735
+            case JsonObject obj:
+                foreach (var (name, value) in obj)
+                {
+                    AddFormField(fields, $"{key}[{name}]", value);
+                }
+                break;
+
+            // Arrays of values repeat the key (the OpenAPI form default); arrays of objects are indexed
+            case JsonArray array:
+                for (var i = 0; i < array.Count; i++)
+                {
+                    AddFormField(fields, array[i] is JsonObject or JsonArray ? $"{key}[{i}]" : key, array[i]);
+                }
+                break;
+
+            case JsonValue value:
+                fields.Add(new(key, FormatValue(value)));
+                break;
+        }
+    }
+
+    private static MultipartFormDataContent ToMultipart(JsonNode? node, JsonSchema? schema)
+    {
+        if (node is not JsonObject parts)
+        {
+            throw new ArgumentException("A multipart body must be an object of parts");
+        }
+
+        var content = new MultipartFormDataContent();
+        foreach (var (name, part) in parts)
+        {
+            if (part == null)
+                continue;
+
+            var partSchema = schema?.Properties?.GetValueOrDefault(name);
+            if ((partSchema != null && IsFile(partSchema)) || IsFileObject(part))
+            {
+                content.Add(ToFilePart(name, part), name, GetString(part, FileNameProperty) ?? name);
+            }
+            else if (part is JsonValue)
+            {
+                content.Add(new StringContent(FormatValue(part), Encoding.UTF8), name);
+            }
+            else
+            {
+                content.Add(new StringContent(part.ToJsonString(), Encoding.UTF8, MediaTypes.Json), name);
+            }
+        }
+
+        return content;
+    }
+
+    private static bool IsFileObject(JsonNode part)
+    {
+        return GetString(part, FileDataProperty) != null && GetString(part, FileNameProperty) != null;
+    }
+
+    private static ByteArrayContent ToFilePart(string name, JsonNode part)
+    {
+        // Either a bare base64 string or { "filename", "contentType", "data" }
+        var data = part is JsonObject ? GetString(part, FileDataProperty) : GetString(part);
+        if (data == null)
+        {
+            throw new ArgumentException($"File part '{name}' needs base64 content in \"{FileDataProperty}\"");
+        }
+
+        byte[] bytes;
+        try
+        {
+            bytes = Convert.FromBase64String(data);
+        }
+        catch (FormatException)
+        {
+            throw new ArgumentException($"File part '{name}' is not valid base64");
+        }
+
+        var file = new ByteArrayContent(bytes);
+        file.Headers.ContentType = MediaTypeHeaderValue.TryParse(GetString(part, FileContentTypeProperty), out var contentType)
+            ? contentType
+            : new MediaTypeHeaderValue(MediaTypes.OctetStream);
+        return file;
+    }
+
+    // A single top-level object names the root element ({"pet": {...}} becomes <pet>...</pet>); otherwise it's <root>
+    private static XElement ToXml(JsonNode? node)
+    {
+        if (node is JsonObject { Count: 1 } obj && obj.First().Value is JsonObject root)
+        {
+            return ToXmlElement(obj.First().Key, root);
+        }
+
+        return ToXmlElement(DefaultXmlRoot, node);
+    }
+
+    private static XElement ToXmlElement(string name, JsonNode? node)
+    {
+        var element = new XElement(XmlConvert.EncodeLocalName(name));
+
+        switch (node)
+        {
+            case JsonObject obj:
+                foreach (var (childName, child) in obj)
+                {
+                    // Array properties become repeated elements: {"tag": [1, 2]} is <tag>1</tag><tag>2</tag>
+                    if (child is JsonArray items)
+                    {
+                        element.Add(items.Select(item => ToXmlElement(childName, item)));
+                    }
+                    else
+                    {
+                        element.Add(ToXmlElement(childName, child));
+                    }
+                }
+                break;
+
+            case JsonArray array:
+                element.Add(array.Select(item => ToXmlElement(XmlArrayItem, item)));
+                break;
+
+            case JsonValue value:
+                element.Value = FormatValue(value);
+                break;
+        }
+
+        return element;
+    }
+
+    private static string FormatValue(JsonNode node)
+    {
+        return node.GetValueKind() == JsonValueKind.String ? node.GetValue<string>() : node.ToJsonString();
+    }
+
+    private static string? GetString(JsonNode node, string? property = null)
+    {
+        var value = property == null ? node : (node as JsonObject)?[property];
+        return value is JsonValue && value.GetValueKind() == JsonValueKind.String ? value.GetValue<string>() : null;
+    }
+}
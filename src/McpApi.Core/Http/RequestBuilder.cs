@@ -1,7 +1,5 @@
 namespace McpApi.Core.Http;
 
-using System.Text;
-using System.Text.Json;
 using System.Text.RegularExpressions;
 using System.Web;
 using McpApi.Core.Models;
@@ -11,16 +9,10 @@ using McpApi.Core.Models;
 /// </summary>
 public static partial class RequestBuilder
 {
-    private static readonly JsonSerializerOptions JsonOptions = new()
-    {
-        PropertyNamingPolicy = JsonNamingPolicy.CamelCase,
-        WriteIndented = false
-    };
-
     /// <summary>
     /// Builds an HttpRequestMessage from endpoint definition and parameters.
     /// </summary>
-    /// <exception cref="ArgumentException">Thrown when required parameters are missing.</exception>
+    /// <exception cref="ArgumentException">Thrown when required parameters are missing or the body can't be encoded.</exception>
     public static HttpRequestMessage Build(
         string baseUrl,
         ApiEndpoint endpoint,
@@ -38,8 +30,9 @@ public static partial class RequestBuilder
 
         var request = new HttpRequestMessage(new HttpMethod(endpoint.Method), uri);
 
-        // Add header parameters
+        // Add header and cookie parameters
         AddHeaderParameters(request, parameters, endpoint.Parameters);
+        AddCookieParameters(request, parameters, endpoint.Parameters);
 
         // Add request body for POST/PUT/PATCH
         if (endpoint.RequestBody != null && HasBodyMethod(endpoint.Method))
@@ -66,32 +59,32 @@ public static partial class RequestBuilder
         {
             if (parameters.TryGetValue(param.Name, out var value) && value != null)
             {
-                result = result.Replace($"{{{param.Name}}}", Uri.EscapeDataString(value.ToString()!));
+                result = result.Replace($"{{{param.Name}}}", ParameterSerializer.SerializePath(param, value));
             }
         }
 
         return result;
     }
 
-    private static Dictionary<string, string> BuildQueryParameters(
+    private static List<KeyValuePair<string, string>> BuildQueryParameters(
         Dictionary<string, object?> parameters,
         List<ParameterDefinition> parameterDefs)
     {
-        var queryParams = new Dictionary<string, string>();
+        var queryParams = new List<KeyValuePair<string, string>>();
         var queryDefs = parameterDefs.Where(p => p.In == "query");
 
         foreach (var param in queryDefs)
         {
             if (parameters.TryGetValue(param.Name, out var value) && value != null)
             {
-                queryParams[param.Name] = value.ToString()!;
+                queryParams.AddRange(ParameterSerializer.SerializeQuery(param, value));
             }
         }
 
         return queryParams;
     }
 
-    private static Uri BuildUri(string baseUrl, string path, Dictionary<string, string> queryParams)
+    private static Uri BuildUri(string baseUrl, string path, List<KeyValuePair<string, string>> queryParams)
     {
         var uriBuilder = new UriBuilder(baseUrl.TrimEnd('/') + path);
 
@@ -100,7 +93,8 @@ public static partial class RequestBuilder
             var query = HttpUtility.ParseQueryString(string.Empty);
             foreach (var (key, value) in queryParams)
             {
-                query[key] = value;
+                // Exploded arrays repeat the key
+                query.Add(key, value);
             }
             uriBuilder.Query = query.ToString();
         }
@@ -119,26 +113,46 @@ public static partial class RequestBuilder
         {
             if (parameters.TryGetValue(param.Name, out var value) && value != null)
             {
-                request.Headers.TryAddWithoutValidation(param.Name, value.ToString());
+                request.Headers.TryAddWithoutValidation(param.Name, ParameterSerializer.SerializeHeader(param, value));
             }
         }
     }
 
+    private static void AddCookieParameters(
+        HttpRequestMessage request,
+        Dictionary<string, object?> parameters,
+        List<ParameterDefinition> parameterDefs)
+    {
+        var cookies = parameterDefs
+            .Where(p => p.In == "cookie")
+            .Where(p => parameters.TryGetValue(p.Name, out var value) && value != null)
+            .SelectMany(p => ParameterSerializer.SerializeCookie(p, parameters[p.Name]!))
+            .ToList();
+
+        if (cookies.Count > 0)
+        {
+            request.Headers.TryAddWithoutValidation("Cookie", string.Join("; ", cookies));
+        }
+    }
+
     private static HttpContent? BuildRequestBody(
         Dictionary<string, object?> parameters,
         ApiEndpoint endpoint)
     {
+        // Encode in the declared media type, or JSON when the spec doesn't say
+        var body = ToolSchemaBuilder.GetBodyContent(endpoint);
+        var mediaType = body?.ContentType ?? Constants.MediaTypes.Json;
+
         // Check for explicit "body" parameter
         if (parameters.TryGetValue("body", out var bodyValue) && bodyValue != null)
         {
-            var json = bodyValue is string s ? s : JsonSerializer.Serialize(bodyValue, JsonOptions);
-            return new StringContent(json, Encoding.UTF8, "application/json");
+            return RequestBodyEncoder.Encode(mediaType, body?.Schema, bodyValue);
         }
 
-        // Build body from non-path/query/header parameters
+        // Build body from non-path/query/header/cookie parameters
         var bodyParams = new Dictionary<string, object?>();
         var definedParams = endpoint.Parameters
-            .Where(p => p.In is "path" or "query" or "header")
+            .Where(p => p.In is "path" or "query" or "header" or "cookie")
             .Select(p => p.Name)
             .ToHashSet();
 
@@ -152,8 +166,7 @@ public static partial class RequestBuilder
 
         if (bodyParams.Count > 0)
         {
-            var json = JsonSerializer.Serialize(bodyParams, JsonOptions);
-            return new StringContent(json, Encoding.UTF8, "application/json");
+            return RequestBodyEncoder.Encode(mediaType, body?.Schema, bodyParams);
         }
 
         return null;
@@ -0,0 +1,236 @@
+namespace McpApi.Core.Http;
+
+using System.Text;
+using System.Text.Json.Nodes;
+using System.Xml;
+using System.Xml.Linq;
+
+/// <summary>
+/// Reads binary response bodies without decoding them as text, and converts CSV and XML bodies to JSON
+/// so they can be shaped and read by models like JSON responses.
+/// </summary>
+public static class ResponseBodyConverter
+{
+    private const string XmlAttributePrefix = "@";
+    private const string XmlTextProperty = "#text";
+
+    private static readonly string[] BinaryTypePrefixes = ["application/", "image/", "audio/", "video/", "font/", "model/"];
+
+    private static readonly string[] TextApplicationTypes =
+    [
+        "application/javascript",
+        "application/ecmascript",
+        "application/x-www-form-urlencoded",
+        "application/graphql",
+        "application/yaml",
+        "application/x-yaml",
+        "application/csv"
+    ];
+
+    /// <summary>
+    /// Whether a media type is binary (images, audio, PDFs, archives...) rather than text, JSON or XML.
+    /// Bodies without a media type are treated as text.
+    /// </summary>
+    public static bool IsBinary(string? mediaType)
+    {
+        if (string.IsNullOrEmpty(mediaType))
+            return false;
+
+        var type = mediaType.Split(';')[0].Trim().ToLowerInvariant();
+        if (type.StartsWith("text/") || type.Contains("json") || type.Contains("xml") || TextApplicationTypes.Contains(type))
+            return false;
+
+        return BinaryTypePrefixes.Any(prefix => type.StartsWith(prefix));
+    }
+
+    /// <summary>
+    /// Reads a binary body, stopping once it exceeds <see cref="Constants.ResponseBodies.MaxBinaryBytes"/>.
+    /// Data is null when the body was too large; Size is then the declared length or the bytes read before stopping.
+    /// </summary>
+    public static async Task<(byte[]? Data, long Size)> ReadBinaryAsync(HttpContent content, CancellationToken ct = default)
+    {
+        const int limit = Constants.ResponseBodies.MaxBinaryBytes;
+
+        if (content.Headers.ContentLength is > limit)
+            return (null, content.Headers.ContentLength.Value);
+
+        await using var stream = await content.ReadAsStreamAsync(ct);
+        using var buffer = new MemoryStream();
+        var chunk = new byte[81920];
+        int read;
+        while ((read = await stream.ReadAsync(chunk, ct)) > 0)
+        {
+            buffer.Write(chunk, 0, read);
+            if (buffer.Length > limit)
+                return (null, buffer.Length);
+        }
+
+        return (buffer.ToArray(), buffer.Length);
+    }
+
+    /// <summary>
+    /// Converts a CSV body to an array of row objects keyed by the header row, or an XML body to a JSON object.
+    /// Returns null for other media types and for bodies that can't be parsed.
+    /// </summary>
+    public static JsonNode? ToJson(string body, string? mediaType)
+    {
+        var type = mediaType?.Split(';')[0].Trim().ToLowerInvariant();
+
+        if (type is "text/csv" or "application/csv")
+            return CsvToJson(body);
+
+        if (type != null && (type.EndsWith("/xml") || type.EndsWith("+xml")))
+            return XmlToJson(body);
+
+        return null;
+    }
+
+    private static JsonArray CsvToJson(string body)
+    {
+        var records = ParseCsv(body);
+        var rows = new JsonArray();
+        if (records.Count == 0)
+            return rows;
+
+        // Blank and repeated header names get a positional name so no column is lost
+        var header = records[0];
+        var names = new List<string>();
+        for (var i = 0; i < header.Count; i++)
+        {
+            var name = header[i].Trim();
+            names.Add(name.Length == 0 || names.Contains(name) ? $"column{i + 1}" : name);
+        }
+
+        foreach (var record in records.Skip(1))
+        {
+            var row = new JsonObject();
+            for (var i = 0; i < record.Count; i++)
+            {
+                row[i < names.Count ? names[i] : $"column{i + 1}"] = record[i];
+            }
+
+            rows.Add(row);
+        }
+
+        return rows;
+    }
+
+    // RFC 4180: quoted fields may contain commas, line breaks and doubled quotes
+    private static List<List<string>> ParseCsv(string text)
+    {
+        var records = new List<List<string>>();
+        var record = new List<string>();
+        var field = new StringBuilder();
+        var quoted = false;
+
+        for (var i = 0; i < text.Length; i++)
+        {
+            var c = text[i];
+            if (quoted)
+            {
+                if (c == '"' && i + 1 < text.Length && text[i + 1] == '"')
+                {
+                    field.Append('"');
+                    i++;
+                }
+                else if (c == '"')
+                {
+                    quoted = false;
+                }
+                else
+                {
+                    field.Append(c);
+                }
+
+                continue;
+            }
+
+            switch (c)
+            {
+                case '"' when field.Length == 0:
+                    quoted = true;
+                    break;
+                case ',':
+                    record.Add(field.ToString());
+                    field.Clear();
+                    break;
+                case '\r':
+                    break;
+                case '\n':
+                    record.Add(field.ToString());
+                    field.Clear();
+                    AddRecord(records, record);
+                    record = [];
+                    break;
+                default:
+                    field.Append(c);
+                    break;
+            }
+        }
+
+        if (field.Length > 0 || record.Count > 0)
+        {
+            record.Add(field.ToString());
+            AddRecord(records, record);
+        }
+
+        return records;
+    }
+
+    private static void AddRecord(List<List<string>> records, List<string> record)
+    {
+        // Blank lines are skipped
+        if (record.Count > 1 || record[0].Length > 0)
+            records.Add(record);
+    }
+
+    private static JsonObject? XmlToJson(string body)
+    {
+        // DTDs are refused, so entities can't expand or reach external resources
+        var settings = new XmlReaderSettings { DtdProcessing = DtdProcessing.Prohibit, XmlResolver = null };
+
+        XDocument document;
+        try
+        {
+            using var reader = XmlReader.Create(new StringReader(body), settings);
+            document = XDocument.Load(reader);
+        }
+        catch (XmlException)
+        {
+            return null;
+        }
+
+        if (document.Root == null)
+            return null;
+
+        return new JsonObject { [document.Root.Name.LocalName] = ElementToJson(document.Root) };
+    }
+
+    // Text-only elements become strings; others become objects with "@attribute" properties,
+    // one property per child element name (an array when repeated) and "#text" for mixed content
+    private static JsonNode? ElementToJson(XElement element)
+    {
+        if (!element.HasAttributes && !element.HasElements)
+            return element.IsEmpty ? null : JsonValue.Create(element.Value);
+
+        var obj = new JsonObject();
+        foreach (var attribute in element.Attributes().Where(a => !a.IsNamespaceDeclaration))
+        {
+            obj[XmlAttributePrefix + attribute.Name.LocalName] = attribute.Value;
+        }
+
+        foreach (var group in element.Elements().GroupBy(e => e.Name.LocalName))
+        {
+            var children = group.Select(ElementToJson).ToArray();
+            obj[group.Key] = children.Length == 1 ? children[0] : new JsonArray(children);
+        }
+
+        var text = string.Concat(element.Nodes().OfType<XText>().Select(t => t.Value)).Trim();
+        if (text.Length > 0)
+        {
+            obj[XmlTextProperty] = text;
+        }
+
+        return obj;
+    }
+}
@@ -0,0 +1,323 @@
+namespace McpApi.Core.Http;
+
+using System.Text;
+using System.Text.Json;
+using System.Text.Json.Nodes;
+using McpApi.Core.Models;
+
+/// <summary>
+/// Turns API responses into tool output, applying an endpoint's <see cref="ResponseShapingConfig"/>.
+/// Shaping runs on the parsed body before it is serialized: fields are selected first,
+/// then arrays are shortened, then the result is cut to the byte limit.
+/// </summary>
+public static class ResponseShaper
+{
+    private static readonly JsonSerializerOptions OutputJsonOptions = new() { WriteIndented = true };
+
+    /// <summary>
+    /// Serializes a response as the JSON returned to models: status code, success flag, body and headers,
+    /// plus any retried attempts and the page count when several pages were merged.
+    /// JSON bodies are embedded as JSON, CSV and XML bodies converted to JSON, and other text bodies kept as a string.
+    /// Binary bodies are described by their media type and size; the caller returns their content separately.
+    /// </summary>
+    public static string ToToolOutput(ApiResponse response, ResponseShapingConfig? shaping = null)
+    {
+        var output = new JsonObject
+        {
+            ["statusCode"] = response.StatusCode,
+            ["success"] = response.IsSuccess,
+            ["body"] = ShapeBody(response.Body, response.ContentType, shaping),
+            ["headers"] = JsonSerializer.SerializeToNode(ShapeHeaders(response.Headers, shaping?.Headers))
+        };
+
+        if (response.BinarySize is long size)
+        {
+            var binary = new JsonObject
+            {
+                ["contentType"] = response.ContentType,
+                ["bytes"] = size
+            };
+
+            if (response.BinaryBody == null)
+            {
+                binary["omitted"] = $"Larger than the {Constants.ResponseBodies.MaxBinaryBytes} byte limit for binary content";
+            }
+
+            output["binary"] = binary;
+        }
+
+        if (response.Retries.Count > 0)
+        {
+            output["attempts"] = response.Attempts;
+            output["retries"] = new JsonArray(response.Retries
+                .Select(r => (JsonNode)new JsonObject
+                {
+                    ["statusCode"] = r.StatusCode,
+                    ["error"] = r.Error,
+                    ["delayMs"] = r.DelayMs
+                })
+                .ToArray());
+        }
+
+        if (response.PageCount > 1 || response.HasMorePages)
+        {
+            output["pagination"] = new JsonObject
+            {
+                ["pages"] = response.PageCount,
+                ["hasMorePages"] = response.HasMorePages
+            };
+        }
+
+        return output.ToJsonString(OutputJsonOptions);
+    }
+
+    /// <summary>
+    /// Checks that a shaping config can be applied, throwing ArgumentException with the first problem found.
+    /// </summary>
+    public static void Validate(ResponseShapingConfig shaping)
+    {
+        if (shaping.Fields?.Count > Constants.ResponseShaping.MaxFields)
+            throw new ArgumentException($"At most {Constants.ResponseShaping.MaxFields} fields can be selected");
+
+        if (shaping.Fields != null)
+        {
+            foreach (var field in shaping.Fields)
+            {
+                ParsePath(field);
+            }
+        }
+
+        if (shaping.MaxArrayLength is < 1)
+            throw new ArgumentException("Max array length must be at least 1");
+
+        if (shaping.MaxBytes < Constants.ResponseShaping.MinBytes)
+            throw new ArgumentException($"Max size must be at least {Constants.ResponseShaping.MinBytes} bytes");
+
+        if (shaping.Headers?.Any(string.IsNullOrWhiteSpace) == true)
+            throw new ArgumentException("Header names cannot be empty");
+    }
+
+    private static JsonNode? ShapeBody(string? body, string? contentType, ResponseShapingConfig? shaping)
+    {
+        if (string.IsNullOrEmpty(body))
+            return null;
+
+        // CSV and XML are converted first, so they are shaped like JSON
+        var node = ResponseBodyConverter.ToJson(body, contentType);
+        if (node == null)
+        {
+            try
+            {
+                node = JsonNode.Parse(body);
+            }
+            catch (JsonException)
+            {
+                return JsonValue.Create(TruncateBytes(body, shaping?.MaxBytes));
+            }
+        }
+
+        if (shaping == null)
+            return node;
+
+        if (shaping.Fields is { Count: > 0 })
+        {
+            TryProject(node, shaping.Fields.Select(ParsePath).ToList(), out node);
+        }
+
+        if (shaping.MaxArrayLength is int maxArrayLength)
+        {
+            LimitArrays(node, maxArrayLength);
+        }
+
+        if (shaping.MaxBytes is int maxBytes)
+        {
+            var text = node?.ToJsonString() ?? "null";
+            if (Encoding.UTF8.GetByteCount(text) > maxBytes)
+                return JsonValue.Create(TruncateBytes(text, maxBytes));
+        }
+
+        return node;
+    }
+
+    private static Dictionary<string, string[]> ShapeHeaders(Dictionary<string, string[]> headers, List<string>? allowed)
+    {
+        if (allowed == null)
+            return headers;
+
+        var allowedSet = new HashSet<string>(allowed, StringComparer.OrdinalIgnoreCase);
+        return headers
+            .Where(h => allowedSet.Contains(h.Key))
+            .ToDictionary(h => h.Key, h => h.Value);
+    }
+
+    /// <summary>
+    /// Copies the parts of a node selected by the paths, keeping their position in the document.
+    /// Returns false when nothing matched; result is then an empty container (or null for scalars).
+    /// </summary>
+    private static bool TryProject(JsonNode? node, IReadOnlyList<PathSegment[]> paths, out JsonNode? result)
+    {
+        if (paths.Any(p => p.Length == 0))
+        {
+            result = node?.DeepClone();
+            return true;
+        }
+
+        switch (node)
+        {
+            case JsonObject obj:
+            {
+                var projected = new JsonObject();
+                foreach (var (name, value) in obj)
+                {
+                    var tails = paths.Where(p => p[0].Matches(name)).Select(p => p[1..]).ToList();
+                    if (tails.Count > 0 && TryProject(value, tails, out var child))
+                        projected[name] = child;
+                }
+
+                result = projected;
+                return projected.Count > 0;
+            }
+            case JsonArray array:
+            {
+                var projected = new JsonArray();
+                for (var i = 0; i < array.Count; i++)
+                {
+                    var index = i;
+                    var tails = paths.Where(p => p[0].Matches(index)).Select(p => p[1..]).ToList();
+                    if (tails.Count > 0 && TryProject(array[i], tails, out var child))
+                        projected.Add(child);
+                }
+
+                result = projected;
+                return projected.Count > 0;
+            }
+            default:
+                result = null;
+                return false;
+        }
+    }
+
+    private static void LimitArrays(JsonNode? node, int maxLength)
+    {
+        switch (node)
+        {
+            case JsonObject obj:
+                foreach (var (_, value) in obj)
+                {
+                    LimitArrays(value, maxLength);
+                }
+                break;
+            case JsonArray array:
+                var removed = array.Count - maxLength;
+                if (removed > 0)
+                {
+                    while (array.Count > maxLength)
+                    {
+                        array.RemoveAt(array.Count - 1);
+                    }
+                }
+
+                foreach (var item in array)
+                {
+                    LimitArrays(item, maxLength);
+                }
+
+                if (removed > 0)
+                    array.Add(JsonValue.Create($"[... {removed} more items]"));
+                break;
+        }
+    }
+
+    private static string TruncateBytes(string text, int? maxBytes)
+    {
+        if (maxBytes is not int limit)
+            return text;
+
+        var bytes = Encoding.UTF8.GetBytes(text);
+        if (bytes.Length <= limit)
+            return text;
+
+        // Cutting mid-character leaves a replacement character at the end
+        var cut = Encoding.UTF8.GetString(bytes, 0, limit).TrimEnd('\uFFFD');
+        return $"{cut}... [truncated {bytes.Length - limit} bytes]";
+    }
+
+    /// <summary>
+    /// Parses a JSONPath expression into segments. The leading "$" is optional.
+    /// </summary>
+    private static PathSegment[] ParsePath(string path)
+    {
+        var text = path.Trim();
+        if (text.StartsWith('$'))
+            text = text[1..];
+
+        var segments = new List<PathSegment>();
+        var i = 0;
+        while (i < text.Length)
+        {
+            if (text[i] == '[')
+            {
+                var end = text.IndexOf(']', i);
+                if (end < 0)
+                    throw new ArgumentException($"Invalid field path '{path}': missing ']'");
+
+                var inner = text[(i + 1)..end].Trim();
+                if (inner == "*")
+                    segments.Add(PathSegment.Wildcard);
+                else if (inner.Length >= 2 && (inner[0] is '\'' or '"') && inner[^1] == inner[0])
+                    segments.Add(PathSegment.Property(inner[1..^1]));
+                else if (int.TryParse(inner, out var index) && index >= 0)
+                    segments.Add(PathSegment.Element(index));
+                else
+                    throw new ArgumentException($"Invalid field path '{path}': unsupported selector '[{inner}]'");
+
+                i = end + 1;
+                continue;
+            }
+
+            // Property access: ".name", ".*" or a bare name at the start of the path
+            if (text[i] == '.')
+                i++;
+            else if (i > 0)
+                throw new ArgumentException($"Invalid field path '{path}': unexpected '{text[i]}'");
+
+            if (i < text.Length && text[i] == '*')
+            {
+                segments.Add(PathSegment.Wildcard);
+                i++;
+                continue;
+            }
+
+            var start = i;
+            while (i < text.Length && text[i] != '.' && text[i] != '[')
+            {
+                i++;
+            }
+
+            if (i == start)
+                throw new ArgumentException($"Invalid field path '{path}': expected a property name");
+
+            segments.Add(PathSegment.Property(text[start..i]));
+        }
+
+        return segments.ToArray();
+    }
+
+    /// <summary>
+    /// One step of a field path: a property name, an array index, or a wildcard (both null).
+    /// </summary>
+    private record PathSegment(string? Name, int? Index)
+    {
+        public static readonly PathSegment Wildcard = new(null, null);
+
+        public static PathSegment Property(string name) => new(name, null);
+
+        public static PathSegment Element(int index) => new(null, index);
+
+        private bool IsWildcard => Name == null && Index == null;
+
+        public bool Matches(string propertyName) => IsWildcard || Name == propertyName;
+
+        public bool Matches(int index) => IsWildcard || Index == index;
+    }
+}
@@ -0,0 +1,99 @@
+namespace McpApi.Core.Http;
+
+using System.Globalization;
+using McpApi.Core.Models;
+
+/// <summary>
+/// Decides whether and when a failed call to a registered API is retried.
+/// </summary>
+public static class RetryPolicy
+{
+    private static readonly HashSet<string> IdempotentMethods = new(StringComparer.OrdinalIgnoreCase)
+    {
+        "GET",
+        "HEAD",
+        "OPTIONS",
+        "PUT",
+        "DELETE"
+    };
+
+    /// <summary>
+    /// Whether a status code signals a temporary failure: 408, 429, 500, 502, 503 or 504.
+    /// </summary>
+    public static bool IsTransient(int statusCode)
+    {
+        return statusCode is 408 or 429 or 500 or 502 or 503 or 504;
+    }
+
+    /// <summary>
+    /// Whether a failed attempt may be repeated for the method.
+    /// A null status code means the attempt failed without a response (timeout or network error).
+    /// </summary>
+    public static bool CanRetry(string method, int? statusCode, ResilienceConfig resilience)
+    {
+        // A 429 means the request was rejected before it was processed
+        return statusCode == 429 || !resilience.RetryIdempotentOnly || IdempotentMethods.Contains(method);
+    }
+
+    /// <summary>
+    /// Gets the delay before a retry (1 for the first): the response's Retry-After if present,
+    /// otherwise exponential backoff. Returns null when Retry-After asks for a longer wait than is honored.
+    /// </summary>
+    public static TimeSpan? GetDelay(
+        ResilienceConfig resilience,
+        int retry,
+        Dictionary<string, string[]>? responseHeaders,
+        DateTimeOffset now)
+    {
+        var retryAfter = GetRetryAfter(responseHeaders, now);
+        if (retryAfter != null)
+        {
+            return retryAfter > TimeSpan.FromSeconds(Constants.Resilience.MaxRetryAfterSeconds) ? null : retryAfter;
+        }
+
+        var backoff = resilience.BackoffMs * Math.Pow(2, retry - 1);
+        return TimeSpan.FromMilliseconds(Math.Min(backoff, Constants.Resilience.MaxBackoffMs));
+    }
+
+    /// <summary>
+    /// Checks that resilience settings are within the supported ranges, throwing ArgumentException with the first problem found.
+    /// </summary>
+    public static void Validate(ResilienceConfig resilience)
+    {
+        if (resilience.TimeoutSeconds is < 1 or > Constants.Resilience.MaxTimeoutSeconds)
+            throw new ArgumentException($"Timeout must be between 1 and {Constants.Resilience.MaxTimeoutSeconds} seconds");
+
+        if (resilience.MaxRetries is < 0 or > Constants.Resilience.MaxRetries)
+            throw new ArgumentException($"Retries must be between 0 and {Constants.Resilience.MaxRetries}");
+
+        if (resilience.BackoffMs is < 0 or > Constants.Resilience.MaxBackoffMs)
+            throw new ArgumentException($"Backoff must be between 0 and {Constants.Resilience.MaxBackoffMs} ms");
+
+        if (resilience.CircuitBreakerThreshold < 0)
+            throw new ArgumentException("Circuit breaker threshold cannot be negative");
+
+        if (resilience.CircuitBreakerSeconds is < 1 or > Constants.Resilience.MaxCircuitBreakerSeconds)
+            throw new ArgumentException($"Circuit breaker duration must be between 1 and {Constants.Resilience.MaxCircuitBreakerSeconds} seconds");
+    }
+
+    private static TimeSpan? GetRetryAfter(Dictionary<string, string[]>? headers, DateTimeOffset now)
+    {
+        var value = headers?
+            .FirstOrDefault(h => h.Key.Equals("Retry-After", StringComparison.OrdinalIgnoreCase))
+            .Value?
+            .FirstOrDefault()?
+            .Trim();
+
+        if (string.IsNullOrEmpty(value))
+            return null;
+
+        // Either a number of seconds or an HTTP date
+        if (int.TryParse(value, NumberStyles.None, CultureInfo.InvariantCulture, out var seconds))
+            return TimeSpan.FromSeconds(seconds);
+
+        if (DateTimeOffset.TryParseExact(value, "r", CultureInfo.InvariantCulture, DateTimeStyles.AssumeUniversal, out var date))
+            return date > now ? date - now : TimeSpan.Zero;
+
+        return null;
+    }
+}
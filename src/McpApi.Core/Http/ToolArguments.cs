@@ -0,0 +1,42 @@
+namespace McpApi.Core.Http;
+
+using System.Text.Json;
+
+/// <summary>
+/// Converts JSON tool arguments into the parameter values <see cref="RequestBuilder"/> expects.
+/// </summary>
+public static class ToolArguments
+{
+    /// <summary>
+    /// Converts each JSON argument to a CLR value (string, long, double, bool, list, dictionary or null).
+    /// </summary>
+    public static Dictionary<string, object?> ToParameters(IEnumerable<KeyValuePair<string, JsonElement>>? arguments)
+    {
+        var parameters = new Dictionary<string, object?>();
+        if (arguments == null)
+            return parameters;
+
+        foreach (var (key, value) in arguments)
+        {
+            parameters[key] = ConvertJsonElement(value);
+        }
+
+        return parameters;
+    }
+
+    private static object? ConvertJsonElement(JsonElement element)
+    {
+        return element.ValueKind switch
+        {
+            JsonValueKind.String => element.GetString(),
+            JsonValueKind.Number => element.TryGetInt64(out var l) ? l : element.GetDouble(),
+            JsonValueKind.True => true,
+            JsonValueKind.False => false,
+            JsonValueKind.Null => null,
+            JsonValueKind.Array => element.EnumerateArray().Select(ConvertJsonElement).ToList(),
+            JsonValueKind.Object => element.EnumerateObject()
+                .ToDictionary(p => p.Name, p => ConvertJsonElement(p.Value)),
+            _ => element.GetRawText()
+        };
+    }
+}
@@ -0,0 +1,190 @@
+namespace McpApi.Core.Http;
+
+using System.Text.Json;
+using System.Text.Json.Nodes;
+using McpApi.Core.Models;
+
+/// <summary>
+/// Builds the JSON Schema for an endpoint's MCP tool input.
+/// Arguments map one-to-one onto what <see cref="RequestBuilder"/> expects.
+/// </summary>
+public static class ToolSchemaBuilder
+{
+    /// <summary>Argument name that carries the request body.</summary>
+    public const string BodyArgumentName = "body";
+
+    /// <summary>Argument name that sends a call to another of the API's servers.</summary>
+    public const string ServerArgumentName = "_server";
+
+    /// <summary>Argument name that waits again for the decision on an earlier call that requires approval.</summary>
+    public const string ApprovalArgumentName = "_approvalId";
+
+    /// <summary>
+    /// Builds an object schema with one property per parameter, plus a "body" property for the request body,
+    /// page limit properties for endpoints that paginate, a server choice for APIs with several servers
+    /// and an approval ID for endpoints that require approval.
+    /// </summary>
+    public static JsonElement BuildInputSchema(ApiEndpoint endpoint, ApiRegistration? api = null)
+    {
+        var properties = new JsonObject();
+        var required = new JsonArray();
+
+        foreach (var parameter in endpoint.Parameters.Where(p => !p.ExcludeFromTool))
+        {
+            if (properties.ContainsKey(parameter.Name))
+                continue;
+
+            var schema = ToSchemaNode(parameter.Schema);
+            if (!string.IsNullOrEmpty(parameter.Description))
+            {
+                schema["description"] = parameter.Description;
+            }
+
+            properties[parameter.Name] = schema;
+            if (parameter.Required)
+            {
+                required.Add(parameter.Name);
+            }
+        }
+
+        var body = GetBodyContent(endpoint);
+        if (body != null && !properties.ContainsKey(BodyArgumentName))
+        {
+            var schema = ToSchemaNode(body.Value.Schema);
+            if (RequestBodyEncoder.IsMultipart(body.Value.ContentType))
+            {
+                DescribeFileParts(schema, body.Value.Schema);
+            }
+
+            if (!schema.ContainsKey("description") && !string.IsNullOrEmpty(endpoint.RequestBody!.Description))
+            {
+                schema["description"] = endpoint.RequestBody.Description;
+            }
+
+            properties[BodyArgumentName] = schema;
+            if (endpoint.RequestBody!.Required)
+            {
+                required.Add(BodyArgumentName);
+            }
+        }
+
+        if (Paginator.Resolve(endpoint) != null)
+        {
+            AddPageLimit(properties, Paginator.MaxPagesArgumentName, Constants.Pagination.MaxPages,
+                "Fetch up to this many pages and merge their items (default 1)");
+            AddPageLimit(properties, Paginator.MaxItemsArgumentName, Constants.Pagination.MaxItems,
+                "Fetch pages until this many items are collected");
+        }
+
+        if (api?.Servers.Count > 1 && !properties.ContainsKey(ServerArgumentName))
+        {
+            properties[ServerArgumentName] = BuildServerProperty(api);
+        }
+
+        if (endpoint.RequiresApproval && !properties.ContainsKey(ApprovalArgumentName))
+        {
+            properties[ApprovalArgumentName] = new JsonObject
+            {
+                ["type"] = "string",
+                ["description"] = "ID returned by an earlier call that is pending approval; waits for its decision " +
+                                  "and makes that call with its original arguments once approved"
+            };
+        }
+
+        var inputSchema = new JsonObject
+        {
+            ["type"] = "object",
+            ["properties"] = properties
+        };
+
+        if (required.Count > 0)
+        {
+            inputSchema["required"] = required;
+        }
+
+        return JsonSerializer.SerializeToElement(inputSchema);
+    }
+
+    /// <summary>
+    /// Gets the content type and schema used for the "body" argument, or null when the endpoint takes no body.
+    /// </summary>
+    public static (string ContentType, JsonSchema Schema)? GetBodyContent(ApiEndpoint endpoint)
+    {
+        // RequestBuilder only sends bodies for these methods
+        if (endpoint.RequestBody is not { Content.Count: > 0 } body ||
+            endpoint.Method.ToUpperInvariant() is not ("POST" or "PUT" or "PATCH"))
+        {
+            return null;
+        }
+
+        // Prefer JSON, then the other media types RequestBuilder can encode
+        var content = body.Content
+            .OrderBy(c => RequestBodyEncoder.GetPreference(c.Key))
+            .First();
+
+        return (content.Key, content.Value);
+    }
+
+    private static void AddPageLimit(JsonObject properties, string name, int maximum, string description)
+    {
+        if (properties.ContainsKey(name))
+            return;
+
+        properties[name] = new JsonObject
+        {
+            ["type"] = "integer",
+            ["minimum"] = 1,
+            ["maximum"] = maximum,
+            ["description"] = description
+        };
+    }
+
+    private static JsonObject BuildServerProperty(ApiRegistration api)
+    {
+        var servers = api.Servers.Select(s => s.Description == null ? $"{s.Name}: {s.Url}" : $"{s.Name}: {s.Url} ({s.Description})");
+
+        return new JsonObject
+        {
+            ["type"] = "string",
+            ["enum"] = new JsonArray(api.Servers.Select(s => (JsonNode)JsonValue.Create(s.Name)).ToArray()),
+            ["description"] = $"Server to call instead of the default ({api.SelectedServer ?? api.BaseUrl}). " +
+                              string.Join("; ", servers)
+        };
+    }
+
+    // File parts are passed as base64, optionally with a file name and media type
+    private static void DescribeFileParts(JsonObject schema, JsonSchema bodySchema)
+    {
+        if (bodySchema.Properties == null || schema["properties"] is not JsonObject properties)
+            return;
+
+        foreach (var (name, property) in bodySchema.Properties.Where(p => RequestBodyEncoder.IsFile(p.Value)))
+        {
+            properties[name] = new JsonObject
+            {
+                ["type"] = "object",
+                ["description"] = property.Description ?? "File to upload",
+                ["properties"] = new JsonObject
+                {
+                    [RequestBodyEncoder.FileDataProperty] = new JsonObject
+                    {
+                        ["type"] = "string",
+                        ["description"] = "Base64-encoded file content"
+                    },
+                    [RequestBodyEncoder.FileNameProperty] = new JsonObject { ["type"] = "string" },
+                    [RequestBodyEncoder.FileContentTypeProperty] = new JsonObject
+                    {
+                        ["type"] = "string",
+                        ["description"] = $"Media type of the file (default {Constants.MediaTypes.OctetStream})"
+                    }
+                },
+                ["required"] = new JsonArray(RequestBodyEncoder.FileDataProperty)
+            };
+        }
+    }
+
+    private static JsonObject ToSchemaNode(JsonSchema schema)
+    {
+        return JsonSerializer.SerializeToNode(schema)!.AsObject();
+    }
+}
@@ -0,0 +1,128 @@
+namespace McpApi.Core.Models;
+
+using System.Text.Json.Serialization;
+
+/// <summary>
+/// A single call to a registered API, with the request and response as sent and received.
+/// Stored in Cosmos DB with userId as partition key; secrets are redacted and bodies truncated.
+/// </summary>
+public class ApiCallLog
+{
+    /// <summary>
+    /// Unique identifier for the log entry.
+    /// </summary>
+    [JsonPropertyName("id")]
+    public required string Id { get; set; }
+
+    /// <summary>
+    /// Owner user ID (partition key for multi-tenancy).
+    /// </summary>
+    [JsonPropertyName("userId")]
+    public required string UserId { get; set; }
+
+    /// <summary>
+    /// When the call was made.
+    /// </summary>
+    public DateTime Timestamp { get; set; } = DateTime.UtcNow;
+
+    /// <summary>
+    /// What made the call: mcp, playground or try-it (see <see cref="Constants.CallLog"/>).
+    /// </summary>
+    public required string Source { get; set; }
+
+    /// <summary>
+    /// ID of the MCP token that authenticated the call, for calls made by MCP clients.
+    /// </summary>
+    public string? TokenId { get; set; }
+
+    /// <summary>
+    /// The API that was called.
+    /// </summary>
+    public required string ApiId { get; set; }
+
+    /// <summary>
+    /// Display name of the API at the time of the call.
+    /// </summary>
+    public string ApiName { get; set; } = "";
+
+    /// <summary>
+    /// Named environment the call went to; null for the API's default environment.
+    /// </summary>
+    public string? Environment { get; set; }
+
+    /// <summary>
+    /// The endpoint that was called.
+    /// </summary>
+    public required string EndpointId { get; set; }
+
+    /// <summary>
+    /// Operation ID of the endpoint.
+    /// </summary>
+    public required string OperationId { get; set; }
+
+    /// <summary>
+    /// HTTP method of the endpoint.
+    /// </summary>
+    public required string Method { get; set; }
+
+    /// <summary>
+    /// Path template of the endpoint.
+    /// </summary>
+    public required string Path { get; set; }
+
+    /// <summary>
+    /// Response status code. Null if no response was received.
+    /// </summary>
+    public int? StatusCode { get; set; }
+
+    /// <summary>
+    /// Whether the call returned a 2xx response.
+    /// </summary>
+    public bool IsSuccess { get; set; }
+
+    /// <summary>
+    /// Time from building the request to reading the response, in milliseconds.
+    /// </summary>
+    public long DurationMs { get; set; }
+
+    /// <summary>
+    /// Why the call failed before a response was received (invalid arguments, network error).
+    /// </summary>
+    public string? Error { get; set; }
+
+    /// <summary>
+    /// The tool arguments the call was made with, as JSON.
+    /// </summary>
+    public string? Arguments { get; set; }
+
+    /// <summary>
+    /// The request URL, with secret query parameters redacted.
+    /// </summary>
+    public string? RequestUrl { get; set; }
+
+    /// <summary>
+    /// The request headers, with secret headers redacted.
+    /// </summary>
+    public Dictionary<string, string[]>? RequestHeaders { get; set; }
+
+    /// <summary>
+    /// The request body, truncated.
+    /// </summary>
+    public string? RequestBody { get; set; }
+
+    /// <summary>
+    /// The response headers, with secret headers redacted.
+    /// </summary>
+    public Dictionary<string, string[]>? ResponseHeaders { get; set; }
+
+    /// <summary>
+    /// The response body, truncated.
+    /// </summary>
+    public string? ResponseBody { get; set; }
+
+    /// <summary>
+    /// Seconds until Cosmos DB expires the entry.
+    /// </summary>
+    [JsonPropertyName("ttl")]
+    public int Ttl { get; set; } = Constants.CallLog.RetentionDays * 24 * 60 * 60;
+}
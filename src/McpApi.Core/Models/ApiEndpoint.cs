@@ -56,6 +56,15 @@ public class ApiEndpoint
     /// <summary>MCP tool name override (auto-generated if null).</summary>
     public string? ToolNameOverride { get; set; }
 
+    /// <summary>How the response is trimmed before being returned as tool output (unshaped if null).</summary>
+    public ResponseShapingConfig? ResponseShaping { get; set; }
+
+    /// <summary>How the endpoint pages its results (auto-detected from its parameters if null).</summary>
+    public PaginationConfig? Pagination { get; set; }
+
+    /// <summary>Whether MCP tool calls wait for a human to approve them in the dashboard before they are made.</summary>
+    public bool RequiresApproval { get; set; }
+
     /// <summary>
     /// Generates the MCP tool name for this endpoint.
     /// </summary>
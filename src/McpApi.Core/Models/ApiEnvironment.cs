@@ -0,0 +1,40 @@
+namespace McpApi.Core.Models;
+
+using System.Text.RegularExpressions;
+
+/// <summary>
+/// A named environment of an API, such as a sandbox, with its own base URL and credentials.
+/// The registration's own base URL and auth are the "default" environment.
+/// </summary>
+public partial class ApiEnvironment
+{
+    /// <summary>Short name used to pick the environment (e.g., "sandbox", "staging").</summary>
+    public required string Name { get; set; }
+
+    /// <summary>Base URL for API calls in this environment.</summary>
+    public required string BaseUrl { get; set; }
+
+    /// <summary>Authentication configuration for this environment.</summary>
+    public AuthConfiguration Auth { get; set; } = new NoAuthConfig();
+
+    /// <summary>
+    /// Checks that a name can be used for a new environment: lowercase letters, digits and dashes, and not "default".
+    /// </summary>
+    /// <exception cref="ArgumentException">Thrown when the name is not allowed.</exception>
+    public static string ValidateName(string name)
+    {
+        var trimmed = name.Trim();
+
+        if (trimmed.Equals(Constants.Environments.Default, StringComparison.OrdinalIgnoreCase))
+            throw new ArgumentException($"'{Constants.Environments.Default}' is the name of the API's own base URL and auth");
+
+        if (trimmed.Length > Constants.Environments.MaxNameLength || !NamePattern().IsMatch(trimmed))
+            throw new ArgumentException(
+                $"Environment names are up to {Constants.Environments.MaxNameLength} lowercase letters, digits and dashes");
+
+        return trimmed;
+    }
+
+    [GeneratedRegex("^[a-z0-9][a-z0-9-]*$")]
+    private static partial Regex NamePattern();
+}
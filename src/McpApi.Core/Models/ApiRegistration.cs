@@ -19,9 +19,18 @@ public class ApiRegistration
     /// <summary>Display name for the dashboard.</summary>
     public required string DisplayName { get; set; }
 
-    /// <summary>Base URL for API calls (e.g., "https://api.github.com").</summary>
+    /// <summary>Base URL for API calls (e.g., "https://api.github.com"): the selected server's URL, or a custom one.</summary>
     public required string BaseUrl { get; set; }
 
+    /// <summary>Servers declared by the spec.</summary>
+    public List<ServerDefinition> Servers { get; set; } = [];
+
+    /// <summary>Name of the server <see cref="BaseUrl"/> points at; null when a custom base URL was given.</summary>
+    public string? SelectedServer { get; set; }
+
+    /// <summary>User values for server variables, applied to any server that declares them.</summary>
+    public Dictionary<string, string> ServerVariables { get; set; } = new();
+
     /// <summary>Original OpenAPI spec URL (for refresh).</summary>
     public string? SpecUrl { get; set; }
 
@@ -37,15 +46,33 @@ public class ApiRegistration
     /// <summary>Authentication configuration.</summary>
     public required AuthConfiguration Auth { get; set; }
 
+    /// <summary>Named environments with their own base URL and auth, besides the default one above.</summary>
+    public List<ApiEnvironment> Environments { get; set; } = [];
+
+    /// <summary>Environment calls use unless the MCP token selects another; null for the default.</summary>
+    public string? ActiveEnvironment { get; set; }
+
     /// <summary>All endpoints discovered from the spec.</summary>
     public List<ApiEndpoint> Endpoints { get; set; } = [];
 
+    /// <summary>Webhooks and callbacks the API sends back, listed for information.</summary>
+    public List<WebhookDefinition> Webhooks { get; set; } = [];
+
     /// <summary>Whether this API is active and tools should be exposed.</summary>
     public bool IsEnabled { get; set; } = true;
 
     /// <summary>When the spec was last parsed/refreshed.</summary>
     public DateTime LastRefreshed { get; set; }
 
+    /// <summary>Automatic re-sync schedule for the spec: off, daily, or weekly.</summary>
+    public string RefreshSchedule { get; set; } = Constants.SpecRefresh.ScheduleOff;
+
+    /// <summary>Changes a refresh found that wait for review; null when none. Cleared when a refresh is applied.</summary>
+    public PendingSpecChanges? PendingChanges { get; set; }
+
+    /// <summary>Timeout, retry and circuit breaker settings for calls to this API.</summary>
+    public ResilienceConfig Resilience { get; set; } = new();
+
     /// <summary>When this registration was created.</summary>
     public DateTime CreatedAt { get; set; }
 
@@ -56,4 +83,208 @@ public class ApiRegistration
     /// <summary>Gets count of enabled endpoints.</summary>
     [JsonIgnore]
     public int EnabledEndpointCount => Endpoints.Count(e => e.IsEnabled);
+
+    /// <summary>
+    /// Gets a declared server by name, ignoring case.
+    /// </summary>
+    /// <exception cref="ArgumentException">Thrown when the spec declares no server with that name.</exception>
+    public ServerDefinition GetServer(string name)
+    {
+        return Servers.FirstOrDefault(s => string.Equals(s.Name, name, StringComparison.OrdinalIgnoreCase))
+            ?? throw new ArgumentException(Servers.Count == 0
+                ? $"{DisplayName} does not declare any servers"
+                : $"Unknown server '{name}'. Available: {string.Join(", ", Servers.Select(s => s.Name))}");
+    }
+
+    /// <summary>
+    /// Gets the base URL for a call: the named server's URL with the saved variable values, or <see cref="BaseUrl"/>.
+    /// </summary>
+    /// <exception cref="ArgumentException">Thrown when the server is unknown or a saved value doesn't fit it.</exception>
+    public string GetBaseUrl(string? serverName = null)
+    {
+        return string.IsNullOrEmpty(serverName) ? BaseUrl : GetServer(serverName).ResolveUrl(ServerVariables);
+    }
+
+    /// <summary>
+    /// Points <see cref="BaseUrl"/> at a declared server, with the given variable values.
+    /// </summary>
+    /// <exception cref="ArgumentException">Thrown when the server is unknown or a value is not allowed.</exception>
+    public void SelectServer(string name, Dictionary<string, string> variables)
+    {
+        var server = GetServer(name);
+        BaseUrl = server.ResolveUrl(variables);
+        SelectedServer = server.Name;
+        ServerVariables = variables;
+    }
+
+    /// <summary>
+    /// Gets a named environment, ignoring case. Returns null for the default environment.
+    /// </summary>
+    /// <exception cref="ArgumentException">Thrown when the API has no environment with that name.</exception>
+    public ApiEnvironment? GetEnvironment(string? name)
+    {
+        if (IsDefaultEnvironment(name))
+            return null;
+
+        return FindEnvironment(name!)
+            ?? throw new ArgumentException(
+                $"Unknown environment '{name}'. Available: {string.Join(", ", GetEnvironmentNames())}");
+    }
+
+    /// <summary>
+    /// Gets the names of all environments, starting with the default one.
+    /// </summary>
+    public IEnumerable<string> GetEnvironmentNames()
+    {
+        return Environments.Select(e => e.Name).Prepend(Constants.Environments.Default);
+    }
+
+    /// <summary>
+    /// Gets the auth configuration of an environment; null or "default" gets <see cref="Auth"/>.
+    /// </summary>
+    /// <exception cref="ArgumentException">Thrown when the environment is unknown.</exception>
+    public AuthConfiguration GetAuth(string? environment)
+    {
+        return GetEnvironment(environment)?.Auth ?? Auth;
+    }
+
+    /// <summary>
+    /// Replaces the auth configuration of an environment; null or "default" replaces <see cref="Auth"/>.
+    /// </summary>
+    /// <exception cref="ArgumentException">Thrown when the environment is unknown.</exception>
+    public void SetAuth(string? environment, AuthConfiguration auth)
+    {
+        var target = GetEnvironment(environment);
+        if (target == null)
+            Auth = auth;
+        else
+            target.Auth = auth;
+    }
+
+    /// <summary>
+    /// Adds an environment, or changes the base URL of an existing one.
+    /// </summary>
+    /// <exception cref="ArgumentException">Thrown when the name is not allowed or the API has too many environments.</exception>
+    public ApiEnvironment SetEnvironment(string name, string baseUrl)
+    {
+        var existing = FindEnvironment(name);
+        if (existing != null)
+        {
+            existing.BaseUrl = baseUrl;
+            return existing;
+        }
+
+        if (Environments.Count >= Constants.Environments.MaxPerApi)
+            throw new ArgumentException($"An API can have at most {Constants.Environments.MaxPerApi} environments besides the default");
+
+        var environment = new ApiEnvironment { Name = ApiEnvironment.ValidateName(name), BaseUrl = baseUrl };
+        Environments.Add(environment);
+        return environment;
+    }
+
+    /// <summary>
+    /// Removes an environment; calls go back to the default environment if it was active.
+    /// </summary>
+    /// <exception cref="ArgumentException">Thrown when the environment is unknown or is the default.</exception>
+    public void RemoveEnvironment(string name)
+    {
+        var environment = GetEnvironment(name)
+            ?? throw new ArgumentException("The default environment can't be removed");
+
+        Environments.Remove(environment);
+        if (string.Equals(ActiveEnvironment, environment.Name, StringComparison.OrdinalIgnoreCase))
+            ActiveEnvironment = null;
+    }
+
+    /// <summary>
+    /// Makes calls use an environment by default; null or "default" selects the registration's own base URL and auth.
+    /// </summary>
+    /// <exception cref="ArgumentException">Thrown when the environment is unknown.</exception>
+    public void SelectEnvironment(string? name)
+    {
+        ActiveEnvironment = GetEnvironment(name)?.Name;
+    }
+
+    /// <summary>
+    /// Gets the registration as seen by a call: a copy whose <see cref="BaseUrl"/> and <see cref="Auth"/> are the environment's.
+    /// The preferred environment, usually the MCP token's, applies when the API defines it; otherwise the active one does.
+    /// </summary>
+    public ApiRegistration ForEnvironment(string? preferred = null)
+    {
+        var name = preferred != null && (IsDefaultEnvironment(preferred) || FindEnvironment(preferred) != null)
+            ? preferred
+            : ActiveEnvironment;
+
+        // An active environment that has since been removed falls back to the default
+        var environment = IsDefaultEnvironment(name) ? null : FindEnvironment(name!);
+        if (environment == null && ActiveEnvironment == null)
+            return this;
+
+        var view = (ApiRegistration)MemberwiseClone();
+        view.ActiveEnvironment = environment?.Name;
+        if (environment != null)
+        {
+            view.BaseUrl = environment.BaseUrl;
+            view.Auth = environment.Auth;
+        }
+
+        return view;
+    }
+
+    private ApiEnvironment? FindEnvironment(string name)
+    {
+        return Environments.FirstOrDefault(e => string.Equals(e.Name, name.Trim(), StringComparison.OrdinalIgnoreCase));
+    }
+
+    private static bool IsDefaultEnvironment(string? name)
+    {
+        return string.IsNullOrWhiteSpace(name)
+            || name.Trim().Equals(Constants.Environments.Default, StringComparison.OrdinalIgnoreCase);
+    }
+
+    /// <summary>
+    /// Carries user-owned settings over from the stored registration after the spec was re-parsed.
+    /// </summary>
+    public void PreserveSettingsFrom(ApiRegistration existing)
+    {
+        Id = existing.Id;
+        UserId = existing.UserId;
+        DisplayName = existing.DisplayName;
+        Description = existing.Description ?? Description;
+        IsEnabled = existing.IsEnabled;
+        Auth = existing.Auth;
+        RefreshSchedule = existing.RefreshSchedule;
+        Resilience = existing.Resilience;
+        Environments = existing.Environments;
+        ActiveEnvironment = existing.ActiveEnvironment;
+        PreserveServerFrom(existing);
+        CreatedAt = existing.CreatedAt;
+        ETag = existing.ETag;
+    }
+
+    // Keeps the chosen server while the spec still declares it, and a custom base URL as is
+    private void PreserveServerFrom(ApiRegistration existing)
+    {
+        if (existing.SelectedServer == null)
+        {
+            // Registrations saved before servers were tracked have none and follow the spec
+            if (existing.Servers.Count > 0)
+            {
+                BaseUrl = existing.BaseUrl;
+                SelectedServer = null;
+            }
+
+            ServerVariables = existing.ServerVariables;
+            return;
+        }
+
+        try
+        {
+            SelectServer(existing.SelectedServer, existing.ServerVariables);
+        }
+        catch (ArgumentException)
+        {
+            // The server is gone or its variables changed; the spec's default applies
+        }
+    }
 }
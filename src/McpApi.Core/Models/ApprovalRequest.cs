@@ -0,0 +1,131 @@
+namespace McpApi.Core.Models;
+
+using System.Text.Json.Serialization;
+
+/// <summary>
+/// A call to an endpoint that requires approval, parked until a human approves or rejects it.
+/// Stored in Cosmos DB with userId as partition key.
+/// </summary>
+public class ApprovalRequest
+{
+    /// <summary>
+    /// Unique identifier, passed back by the MCP client to wait for the decision again.
+    /// </summary>
+    [JsonPropertyName("id")]
+    public required string Id { get; set; }
+
+    /// <summary>
+    /// Owner user ID (partition key for multi-tenancy).
+    /// </summary>
+    [JsonPropertyName("userId")]
+    public required string UserId { get; set; }
+
+    /// <summary>
+    /// ID of the MCP token that made the call.
+    /// </summary>
+    public string? TokenId { get; set; }
+
+    /// <summary>
+    /// Environment the token selects; the API's active environment applies when null.
+    /// </summary>
+    public string? Environment { get; set; }
+
+    /// <summary>
+    /// The API to call.
+    /// </summary>
+    public required string ApiId { get; set; }
+
+    /// <summary>
+    /// Display name of the API when the call was requested.
+    /// </summary>
+    public string ApiName { get; set; } = "";
+
+    /// <summary>
+    /// The endpoint to call.
+    /// </summary>
+    public required string EndpointId { get; set; }
+
+    /// <summary>
+    /// Operation ID of the endpoint.
+    /// </summary>
+    public required string OperationId { get; set; }
+
+    /// <summary>
+    /// HTTP method of the endpoint.
+    /// </summary>
+    public required string Method { get; set; }
+
+    /// <summary>
+    /// Path template of the endpoint.
+    /// </summary>
+    public required string Path { get; set; }
+
+    /// <summary>
+    /// Name of the MCP tool that was called.
+    /// </summary>
+    public required string ToolName { get; set; }
+
+    /// <summary>
+    /// The tool arguments the call is made with once approved, as a JSON object.
+    /// </summary>
+    public required string Arguments { get; set; }
+
+    /// <summary>
+    /// Pending, approved, rejected or executed (see <see cref="Constants.Approvals"/>).
+    /// Use <see cref="GetStatus"/> to also see expiry.
+    /// </summary>
+    public string Status { get; set; } = Constants.Approvals.StatusPending;
+
+    /// <summary>
+    /// When the call was requested.
+    /// </summary>
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+
+    /// <summary>
+    /// When a pending request stops accepting a decision.
+    /// </summary>
+    public DateTime ExpiresAt { get; set; } = DateTime.UtcNow.AddHours(Constants.Approvals.ExpiryHours);
+
+    /// <summary>
+    /// When the request was approved or rejected.
+    /// </summary>
+    public DateTime? DecidedAt { get; set; }
+
+    /// <summary>
+    /// Optional note from the person who decided, such as the reason for a rejection.
+    /// </summary>
+    public string? DecisionNote { get; set; }
+
+    /// <summary>
+    /// When the approved call was made.
+    /// </summary>
+    public DateTime? ExecutedAt { get; set; }
+
+    /// <summary>
+    /// Cosmos DB ETag for optimistic concurrency, so a request is decided and executed once.
+    /// </summary>
+    [JsonPropertyName("_etag")]
+    public string? ETag { get; set; }
+
+    /// <summary>
+    /// Seconds until Cosmos DB expires the request.
+    /// </summary>
+    [JsonPropertyName("ttl")]
+    public int Ttl { get; set; } = Constants.Approvals.RetentionDays * 24 * 60 * 60;
+
+    /// <summary>
+    /// Gets the status, reporting pending requests past their expiry, and approved ones not made
+    /// within the execution window, as expired.
+    /// </summary>
+    public string GetStatus(DateTime now)
+    {
+        var expired = Status switch
+        {
+            Constants.Approvals.StatusPending => now >= ExpiresAt,
+            Constants.Approvals.StatusApproved => now >= DecidedAt?.AddMinutes(Constants.Approvals.ExecutionWindowMinutes),
+            _ => false
+        };
+
+        return expired ? Constants.Approvals.StatusExpired : Status;
+    }
+}
@@ -0,0 +1,123 @@
+namespace McpApi.Core.Models;
+
+using System.Text.Json.Serialization;
+
+/// <summary>
+/// Daily call counts for one endpoint, source and token combination.
+/// Stored in Cosmos DB with userId as partition key; feeds the usage breakdown charts.
+/// </summary>
+public class DailyUsageRecord
+{
+    /// <summary>
+    /// Unique ID built from the user, date and breakdown keys (see <see cref="CreateId"/>).
+    /// </summary>
+    [JsonPropertyName("id")]
+    public required string Id { get; set; }
+
+    /// <summary>
+    /// Owner user ID (partition key for multi-tenancy).
+    /// </summary>
+    [JsonPropertyName("userId")]
+    public required string UserId { get; set; }
+
+    /// <summary>
+    /// UTC date in format "YYYY-MM-DD" (e.g., "2024-01-31").
+    /// </summary>
+    public required string Date { get; set; }
+
+    /// <summary>
+    /// The API that was called.
+    /// </summary>
+    public required string ApiId { get; set; }
+
+    /// <summary>
+    /// Display name of the API at the time of the most recent call.
+    /// </summary>
+    public string ApiName { get; set; } = "";
+
+    /// <summary>
+    /// The endpoint that was called.
+    /// </summary>
+    public required string EndpointId { get; set; }
+
+    /// <summary>
+    /// Operation ID of the endpoint.
+    /// </summary>
+    public string OperationId { get; set; } = "";
+
+    /// <summary>
+    /// HTTP method of the endpoint.
+    /// </summary>
+    public string Method { get; set; } = "";
+
+    /// <summary>
+    /// Path template of the endpoint.
+    /// </summary>
+    public string Path { get; set; } = "";
+
+    /// <summary>
+    /// What made the calls: mcp, playground or try-it (see <see cref="Constants.CallLog"/>).
+    /// </summary>
+    public required string Source { get; set; }
+
+    /// <summary>
+    /// ID of the MCP token that made the calls, for calls made by MCP clients.
+    /// </summary>
+    public string? TokenId { get; set; }
+
+    /// <summary>
+    /// Number of calls made.
+    /// </summary>
+    public int CallCount { get; set; }
+
+    /// <summary>
+    /// Number of calls that failed or returned a non-success status code.
+    /// </summary>
+    public int ErrorCount { get; set; }
+
+    /// <summary>
+    /// Sum of the call durations in milliseconds, for averaging latency.
+    /// </summary>
+    public long TotalDurationMs { get; set; }
+
+    /// <summary>
+    /// Seconds until Cosmos DB expires the record.
+    /// </summary>
+    [JsonPropertyName("ttl")]
+    public int Ttl { get; set; } = Constants.UsageBreakdown.RetentionDays * 24 * 60 * 60;
+
+    /// <summary>
+    /// Creates a record holding a single call, to be added to the day's totals.
+    /// </summary>
+    public static DailyUsageRecord FromCall(ApiCallLog call)
+    {
+        var date = call.Timestamp.ToUniversalTime().ToString("yyyy-MM-dd");
+        return new DailyUsageRecord
+        {
+            Id = CreateId(call.UserId, date, call.ApiId, call.EndpointId, call.Source, call.TokenId),
+            UserId = call.UserId,
+            Date = date,
+            ApiId = call.ApiId,
+            ApiName = call.ApiName,
+            EndpointId = call.EndpointId,
+            OperationId = call.OperationId,
+            Method = call.Method,
+            Path = call.Path,
+            Source = call.Source,
+            TokenId = call.TokenId,
+            CallCount = 1,
+            ErrorCount = call.IsSuccess ? 0 : 1,
+            TotalDurationMs = call.DurationMs
+        };
+    }
+
+    /// <summary>
+    /// Creates the ID for a daily usage record.
+    /// Characters Cosmos DB does not allow in IDs are replaced.
+    /// </summary>
+    public static string CreateId(string userId, string date, string apiId, string endpointId, string source, string? tokenId)
+    {
+        var id = $"{userId}:{date}:{apiId}:{endpointId}:{source}:{tokenId ?? "-"}";
+        return string.Concat(id.Select(c => c is '/' or '\\' or '?' or '#' ? '_' : c));
+    }
+}
@@ -0,0 +1,50 @@
+namespace McpApi.Core.Models;
+
+/// <summary>
+/// Differences between the stored endpoints of an API and a freshly parsed spec.
+/// </summary>
+public class EndpointChangeSet
+{
+    /// <summary>Endpoints in the new spec that are not stored yet.</summary>
+    public List<ApiEndpoint> Added { get; init; } = [];
+
+    /// <summary>Stored endpoints that are no longer in the spec.</summary>
+    public List<ApiEndpoint> Removed { get; init; } = [];
+
+    /// <summary>Endpoints present in both whose definition changed.</summary>
+    public List<EndpointChange> Changed { get; init; } = [];
+
+    /// <summary>Number of endpoints present in both with no changes.</summary>
+    public int UnchangedCount { get; init; }
+
+    /// <summary>Whether applying the spec would change any endpoint.</summary>
+    public bool HasChanges => Added.Count > 0 || Removed.Count > 0 || Changed.Count > 0;
+
+    /// <summary>Whether existing MCP tool callers could break (removed endpoints or incompatible changes).</summary>
+    public bool HasBreakingChanges => Removed.Count > 0 || Changed.Any(c => c.IsBreaking);
+}
+
+/// <summary>
+/// A single endpoint whose definition differs between the stored and refreshed spec.
+/// </summary>
+public class EndpointChange
+{
+    /// <summary>The endpoint as currently stored.</summary>
+    public required ApiEndpoint Previous { get; init; }
+
+    /// <summary>The endpoint as defined by the refreshed spec.</summary>
+    public required ApiEndpoint Current { get; init; }
+
+    /// <summary>Individual differences, e.g. an added parameter.</summary>
+    public List<EndpointFieldChange> Changes { get; init; } = [];
+
+    /// <summary>Whether any difference is incompatible with existing callers.</summary>
+    public bool IsBreaking => Changes.Any(c => c.IsBreaking);
+}
+
+/// <summary>
+/// Describes one difference within an endpoint definition.
+/// </summary>
+/// <param name="Description">Human-readable description (e.g., "Parameter 'limit' added").</param>
+/// <param name="IsBreaking">Whether the difference is incompatible with existing callers.</param>
+public record EndpointFieldChange(string Description, bool IsBreaking);
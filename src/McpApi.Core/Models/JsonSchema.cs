@@ -1,5 +1,6 @@
 namespace McpApi.Core.Models;
 
+using System.Text.Json;
 using System.Text.Json.Serialization;
 
 /// <summary>
@@ -7,9 +8,18 @@ using System.Text.Json.Serialization;
 /// </summary>
 public class JsonSchema
 {
-    /// <summary>JSON Schema type (string, number, integer, boolean, array, object).</summary>
+    /// <summary>
+    /// JSON Schema type (string, number, integer, boolean, array, object).
+    /// Null for unions whose branches have different types.
+    /// </summary>
     [JsonPropertyName("type")]
-    public required string Type { get; set; }
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    public string? Type { get; set; }
+
+    /// <summary>Component name of a referenced schema, so union branches can be told apart.</summary>
+    [JsonPropertyName("title")]
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    public string? Title { get; set; }
 
     /// <summary>Format hint (e.g., "date-time", "email", "uri").</summary>
     [JsonPropertyName("format")]
@@ -75,4 +85,84 @@ public class JsonSchema
     [JsonPropertyName("example")]
     [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
     public object? Example { get; set; }
+
+    /// <summary>Whether null is allowed as well as the type. Only set when true.</summary>
+    [JsonPropertyName("nullable")]
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    public bool? Nullable { get; set; }
+
+    /// <summary>Schemas of which exactly one must match.</summary>
+    [JsonPropertyName("oneOf")]
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    public List<JsonSchema>? OneOf { get; set; }
+
+    /// <summary>Schemas of which at least one must match.</summary>
+    [JsonPropertyName("anyOf")]
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    public List<JsonSchema>? AnyOf { get; set; }
+
+    /// <summary>Schema that must not match.</summary>
+    [JsonPropertyName("not")]
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    public JsonSchema? Not { get; set; }
+
+    /// <summary>Schema for properties not listed in <see cref="Properties"/>, or <see cref="False"/> when none are allowed.</summary>
+    [JsonPropertyName("additionalProperties")]
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    [JsonConverter(typeof(BooleanSchemaConverter))]
+    public JsonSchema? AdditionalProperties { get; set; }
+
+    /// <summary>Property that tells the branches of a oneOf or anyOf apart.</summary>
+    [JsonPropertyName("discriminator")]
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    public SchemaDiscriminator? Discriminator { get; set; }
+
+    /// <summary>Whether this is the boolean schema <c>false</c>, which matches nothing.</summary>
+    [JsonIgnore]
+    public bool IsFalse { get; init; }
+
+    /// <summary>Creates the boolean schema <c>false</c>, as in <c>"additionalProperties": false</c>.</summary>
+    public static JsonSchema False => new() { IsFalse = true };
+}
+
+/// <summary>
+/// Names the property whose value selects a union branch, and the branch (by title) for each value.
+/// </summary>
+public class SchemaDiscriminator
+{
+    /// <summary>Name of the discriminating property.</summary>
+    [JsonPropertyName("propertyName")]
+    public required string PropertyName { get; set; }
+
+    /// <summary>Branch title for each property value.</summary>
+    [JsonPropertyName("mapping")]
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    public Dictionary<string, string>? Mapping { get; set; }
+}
+
+/// <summary>
+/// Reads and writes a schema that may be the boolean <c>false</c>. The boolean <c>true</c> allows anything and is read as null.
+/// </summary>
+public class BooleanSchemaConverter : JsonConverter<JsonSchema>
+{
+    public override JsonSchema? Read(ref Utf8JsonReader reader, Type typeToConvert, JsonSerializerOptions options)
+    {
+        return reader.TokenType switch
+        {
+            JsonTokenType.False => JsonSchema.False,
+            JsonTokenType.True => null,
+            _ => JsonSerializer.Deserialize<JsonSchema>(ref reader, options)
+        };
+    }
+
+    public override void Write(Utf8JsonWriter writer, JsonSchema value, JsonSerializerOptions options)
+    {
+        if (value.IsFalse)
+        {
+            writer.WriteBooleanValue(false);
+            return;
+        }
+
+        JsonSerializer.Serialize(writer, value, options);
+    }
 }
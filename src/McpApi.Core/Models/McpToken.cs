@@ -30,6 +30,12 @@ public class McpToken
     /// </summary>
     public required string Name { get; set; }
 
+    /// <summary>
+    /// Environment calls made with this token use, for APIs that define it (e.g., "sandbox").
+    /// Null means each API's active environment.
+    /// </summary>
+    public string? DefaultEnvironment { get; set; }
+
     /// <summary>
     /// Optional expiration date. Null means the token never expires.
     /// </summary>
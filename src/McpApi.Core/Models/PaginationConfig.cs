@@ -0,0 +1,29 @@
+namespace McpApi.Core.Models;
+
+/// <summary>
+/// Describes how a list endpoint pages its results, so multiple pages can be fetched and merged in one call.
+/// </summary>
+public class PaginationConfig
+{
+    /// <summary>
+    /// Pagination style: "link", "cursor", "page", "offset", or "none" to turn off auto-detection.
+    /// </summary>
+    public required string Style { get; set; }
+
+    /// <summary>
+    /// Query parameter that carries the cursor, page number or offset. Not used by the "link" style.
+    /// </summary>
+    public string? Parameter { get; set; }
+
+    /// <summary>
+    /// Dot-separated path of the next cursor in the response body (e.g., "meta.next_cursor").
+    /// Only used by the "cursor" style; common field names are tried when null.
+    /// </summary>
+    public string? CursorPath { get; set; }
+
+    /// <summary>
+    /// Dot-separated path of the items array in the response body (e.g., "data").
+    /// When null, a top-level array or the first array property of the body is used.
+    /// </summary>
+    public string? ItemsPath { get; set; }
+}
@@ -26,6 +26,15 @@ public class ParameterDefinition
     /// <summary>Default value if not provided.</summary>
     public object? Default { get; set; }
 
+    /// <summary>
+    /// Serialization style: form, spaceDelimited, pipeDelimited, deepObject, matrix, label or simple.
+    /// When null, the location's default is used (simple for path and header, form for query and cookie).
+    /// </summary>
+    public string? Style { get; set; }
+
+    /// <summary>Whether array items and object properties become separate values. When null, only the form style explodes.</summary>
+    public bool? Explode { get; set; }
+
     /// <summary>Whether to exclude from MCP tool schema.</summary>
     public bool ExcludeFromTool { get; set; }
 }
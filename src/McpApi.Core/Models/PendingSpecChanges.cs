@@ -0,0 +1,58 @@
+namespace McpApi.Core.Models;
+
+using System.Security.Cryptography;
+using System.Text;
+
+/// <summary>
+/// Summary of the changes a manual or scheduled refresh found in an API's spec. Nothing is applied until the user
+/// reviews the refresh in the dashboard; applying it compares the spec again and checks the signature still matches.
+/// </summary>
+public class PendingSpecChanges
+{
+    /// <summary>When these changes were first found.</summary>
+    public DateTime DetectedAt { get; set; }
+
+    /// <summary>When the spec was last compared; the next scheduled check counts from here.</summary>
+    public DateTime CheckedAt { get; set; }
+
+    /// <summary>API version declared by the changed spec.</summary>
+    public string? ApiVersion { get; set; }
+
+    /// <summary>Number of endpoints in the spec that are not stored yet.</summary>
+    public int AddedCount { get; set; }
+
+    /// <summary>Number of stored endpoints that are no longer in the spec.</summary>
+    public int RemovedCount { get; set; }
+
+    /// <summary>Number of endpoints whose definition changed.</summary>
+    public int ChangedCount { get; set; }
+
+    /// <summary>Whether existing MCP tool callers could break.</summary>
+    public bool HasBreakingChanges { get; set; }
+
+    /// <summary>Hash of the affected endpoints and their differences, so the same changes are only reported once.</summary>
+    public string Signature { get; set; } = "";
+
+    /// <summary>
+    /// Summarizes a change set found at the given time.
+    /// </summary>
+    public static PendingSpecChanges From(EndpointChangeSet changes, string? apiVersion, DateTime now)
+    {
+        var keys = changes.Added.Select(e => $"+{e.Id}")
+            .Concat(changes.Removed.Select(e => $"-{e.Id}"))
+            .Concat(changes.Changed.Select(c => $"~{c.Current.Id}:{string.Join(",", c.Changes.Select(f => f.Description))}"))
+            .Order(StringComparer.Ordinal);
+
+        return new PendingSpecChanges
+        {
+            DetectedAt = now,
+            CheckedAt = now,
+            ApiVersion = apiVersion,
+            AddedCount = changes.Added.Count,
+            RemovedCount = changes.Removed.Count,
+            ChangedCount = changes.Changed.Count,
+            HasBreakingChanges = changes.HasBreakingChanges,
+            Signature = Convert.ToHexString(SHA256.HashData(Encoding.UTF8.GetBytes(string.Join("|", keys))))
+        };
+    }
+}
@@ -0,0 +1,28 @@
+namespace McpApi.Core.Models;
+
+/// <summary>
+/// Timeout, retry and circuit breaker settings for outbound calls to a registered API.
+/// </summary>
+public class ResilienceConfig
+{
+    /// <summary>Time allowed for each attempt, in seconds.</summary>
+    public int TimeoutSeconds { get; set; } = Constants.Resilience.DefaultTimeoutSeconds;
+
+    /// <summary>Retries after a timeout, network error, 429 or 5xx response. Zero turns retrying off.</summary>
+    public int MaxRetries { get; set; } = Constants.Resilience.DefaultMaxRetries;
+
+    /// <summary>Delay before the first retry in milliseconds, doubled for each further retry.</summary>
+    public int BackoffMs { get; set; } = Constants.Resilience.DefaultBackoffMs;
+
+    /// <summary>
+    /// Only retry methods that are safe to repeat (GET, HEAD, OPTIONS, PUT, DELETE).
+    /// 429 responses are retried for every method, since the request was not processed.
+    /// </summary>
+    public bool RetryIdempotentOnly { get; set; } = true;
+
+    /// <summary>Consecutive failed calls that open the circuit. Zero turns the circuit breaker off.</summary>
+    public int CircuitBreakerThreshold { get; set; } = Constants.Resilience.DefaultCircuitBreakerThreshold;
+
+    /// <summary>How long an open circuit rejects calls before letting one through, in seconds.</summary>
+    public int CircuitBreakerSeconds { get; set; } = Constants.Resilience.DefaultCircuitBreakerSeconds;
+}
@@ -0,0 +1,31 @@
+namespace McpApi.Core.Models;
+
+/// <summary>
+/// Controls how an endpoint's response is trimmed before it is returned as tool output,
+/// to keep large API responses from filling a model's context window.
+/// </summary>
+public class ResponseShapingConfig
+{
+    /// <summary>
+    /// JSONPath expressions of the body fields to keep (e.g., "$.items[*].name").
+    /// Supports dot and bracket property access, array indexes and the [*] and .* wildcards.
+    /// Null or empty keeps the whole body.
+    /// </summary>
+    public List<string>? Fields { get; set; }
+
+    /// <summary>
+    /// Maximum number of items kept in each array of the body. Null keeps all items.
+    /// </summary>
+    public int? MaxArrayLength { get; set; }
+
+    /// <summary>
+    /// Maximum size of the serialized body in UTF-8 bytes. Null means no limit.
+    /// </summary>
+    public int? MaxBytes { get; set; }
+
+    /// <summary>
+    /// Names of the response headers to keep (case-insensitive).
+    /// Null keeps all headers; an empty list drops them all.
+    /// </summary>
+    public List<string>? Headers { get; set; }
+}
@@ -0,0 +1,61 @@
+namespace McpApi.Core.Models;
+
+/// <summary>
+/// A server declared by the spec, such as production, a sandbox or a region.
+/// </summary>
+public class ServerDefinition
+{
+    /// <summary>Short name used to pick the server (e.g., "sandbox"), taken from its description.</summary>
+    public required string Name { get; set; }
+
+    /// <summary>URL template, possibly with {variables} (e.g., "https://{region}.api.example.com").</summary>
+    public required string Url { get; set; }
+
+    /// <summary>Description from the spec.</summary>
+    public string? Description { get; set; }
+
+    /// <summary>Variables in the URL template, by name.</summary>
+    public Dictionary<string, ServerVariable> Variables { get; set; } = new();
+
+    /// <summary>
+    /// Fills in the URL template with the given variable values, using defaults for the others.
+    /// </summary>
+    /// <exception cref="ArgumentException">Thrown when a given value is not one of the variable's allowed values.</exception>
+    public string ResolveUrl(IReadOnlyDictionary<string, string>? values = null)
+    {
+        var url = Url;
+        foreach (var (name, variable) in Variables)
+        {
+            var value = variable.Default;
+            if (values?.GetValueOrDefault(name) is { Length: > 0 } given)
+            {
+                if (variable.Enum?.Count > 0 && !variable.Enum.Contains(given))
+                {
+                    throw new ArgumentException(
+                        $"'{given}' is not allowed for server variable '{name}' (allowed: {string.Join(", ", variable.Enum)})");
+                }
+
+                value = given;
+            }
+
+            url = url.Replace($"{{{name}}}", value);
+        }
+
+        return url.TrimEnd('/');
+    }
+}
+
+/// <summary>
+/// A variable in a server URL template.
+/// </summary>
+public class ServerVariable
+{
+    /// <summary>Value used when none is given.</summary>
+    public required string Default { get; set; }
+
+    /// <summary>Allowed values; any value is allowed when null.</summary>
+    public List<string>? Enum { get; set; }
+
+    /// <summary>Description from the spec.</summary>
+    public string? Description { get; set; }
+}
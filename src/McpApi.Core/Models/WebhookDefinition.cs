@@ -0,0 +1,32 @@
+namespace McpApi.Core.Models;
+
+/// <summary>
+/// A request the API sends back to the caller: an OpenAPI 3.1 webhook or an operation's callback.
+/// Informational only; no tools are generated for them.
+/// </summary>
+public class WebhookDefinition
+{
+    /// <summary>Webhook or callback (see <see cref="Constants.WebhookKinds"/>).</summary>
+    public required string Kind { get; set; }
+
+    /// <summary>Webhook or callback name from the spec.</summary>
+    public required string Name { get; set; }
+
+    /// <summary>HTTP method of the request the API sends.</summary>
+    public required string Method { get; set; }
+
+    /// <summary>Runtime expression for the callback URL (e.g., "{$request.body#/callbackUrl}"); null for webhooks.</summary>
+    public string? Url { get; set; }
+
+    /// <summary>Operation that registers the callback; null for webhooks.</summary>
+    public string? SourceOperationId { get; set; }
+
+    /// <summary>Operation ID of the webhook or callback request, when the spec names one.</summary>
+    public string? OperationId { get; set; }
+
+    /// <summary>Short summary.</summary>
+    public string? Summary { get; set; }
+
+    /// <summary>Detailed description.</summary>
+    public string? Description { get; set; }
+}
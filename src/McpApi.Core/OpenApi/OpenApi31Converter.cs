@@ -0,0 +1,370 @@
+namespace McpApi.Core.OpenApi;
+
+using System.Globalization;
+using System.Text.Json;
+using System.Text.Json.Nodes;
+using System.Text.RegularExpressions;
+using McpApi.Core.Models;
+using SharpYaml;
+using SharpYaml.Serialization;
+
+/// <summary>
+/// Rewrites OpenAPI 3.1 documents as 3.0 so the OpenAPI reader, which only understands 2.0 and 3.0, can parse them.
+/// JSON Schema keywords new in 3.1 become their 3.0 equivalents, and webhooks, which 3.0 can't hold, are read out first.
+/// </summary>
+public static partial class OpenApi31Converter
+{
+    private const string TargetVersion = "3.0.3";
+
+    private static readonly string[] HttpMethods = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+
+    // Keywords whose value is a schema, a list of schemas or a map of schemas
+    private static readonly string[] SchemaKeywords = ["items", "additionalProperties", "not", "contains", "propertyNames", "if", "then", "else"];
+    private static readonly string[] SchemaListKeywords = ["allOf", "anyOf", "oneOf", "prefixItems"];
+    private static readonly string[] SchemaMapKeywords = ["properties", "patternProperties", "dependentSchemas", "$defs"];
+
+    /// <summary>
+    /// Converts the document to 3.0 JSON and reads its webhooks. Returns null when it isn't an OpenAPI 3.1 document.
+    /// </summary>
+    public static (string Document, List<WebhookDefinition> Webhooks)? TryConvert(string text)
+    {
+        // Cheap check first, so 2.0 and 3.0 documents aren't parsed twice
+        if (!VersionPattern().IsMatch(text))
+            return null;
+
+        if (Load(text) is not JsonObject document ||
+            document["openapi"] is not JsonValue version ||
+            version.GetValueKind() != JsonValueKind.String ||
+            !version.GetValue<string>().StartsWith("3.1"))
+        {
+            return null;
+        }
+
+        var webhooks = ReadWebhooks(document["webhooks"] as JsonObject);
+
+        document["openapi"] = TargetVersion;
+        document.Remove("webhooks");
+        document.Remove("jsonSchemaDialect");
+        (document["components"] as JsonObject)?.Remove("pathItems");
+
+        // Paths are optional in 3.1, e.g. for webhook-only APIs
+        document["paths"] ??= new JsonObject();
+
+        ConvertNode(document);
+
+        return (document.ToJsonString(), webhooks);
+    }
+
+    [GeneratedRegex(@"[""']?openapi[""']?\s*:\s*[""']?3\.1")]
+    private static partial Regex VersionPattern();
+
+    private static JsonNode? Load(string text)
+    {
+        try
+        {
+            if (text.TrimStart().StartsWith('{'))
+                return JsonNode.Parse(text);
+
+            var yaml = new YamlStream();
+            yaml.Load(new StringReader(text));
+            if (yaml.Documents.Count == 0)
+                return null;
+
+            var root = yaml.Documents[0].RootNode;
+            return ToJson(root, CollectAnchors(root), new HashSet<YamlNode>(ReferenceEqualityComparer.Instance));
+        }
+        catch (Exception ex) when (ex is JsonException or YamlException)
+        {
+            return null;
+        }
+    }
+
+    // Anchored nodes by name, for aliases the YAML loader left unresolved
+    private static Dictionary<string, YamlNode> CollectAnchors(YamlNode root)
+    {
+        var anchors = new Dictionary<string, YamlNode>(StringComparer.Ordinal);
+        var visited = new HashSet<YamlNode>(ReferenceEqualityComparer.Instance);
+        var pending = new Stack<YamlNode>();
+        pending.Push(root);
+
+        while (pending.TryPop(out var node))
+        {
+            if (!visited.Add(node))
+                continue;
+
+            IEnumerable<YamlNode> children;
+            if (node is YamlMappingNode mapping)
+                children = mapping.Children.SelectMany(c => new[] { c.Key, c.Value });
+            else if (node is YamlSequenceNode sequence)
+                children = sequence.Children;
+            else if (node is YamlScalarNode)
+                children = [];
+            else
+                continue; // An alias, whose Anchor names the node it refers to
+
+            if (!string.IsNullOrEmpty(node.Anchor))
+                anchors[node.Anchor] = node;
+
+            foreach (var child in children)
+            {
+                pending.Push(child);
+            }
+        }
+
+        return anchors;
+    }
+
+    private static JsonNode? ToJson(YamlNode node, Dictionary<string, YamlNode> anchors, HashSet<YamlNode> ancestors)
+    {
+        // Aliases to a node that contains them would never end
+        if (!ancestors.Add(node))
+            throw new OpenApiParseException($"Failed to parse OpenAPI spec: YAML alias '*{node.Anchor}' refers to a node containing it");
+
+        try
+        {
+            switch (node)
+            {
+                case YamlMappingNode mapping:
+                    var obj = new JsonObject();
+                    var merges = new List<JsonNode?>();
+                    foreach (var (key, value) in mapping.Children)
+                    {
+                        if (key is not YamlScalarNode { Value: { } name } keyScalar)
+                            throw new OpenApiParseException("Failed to parse OpenAPI spec: YAML mapping keys must be strings");
+
+                        // Merge keys (<<: *base) copy in the keys of other mappings
+                        if (name == "<<" && keyScalar.Style == ScalarStyle.Plain)
+                            merges.Add(ToJson(value, anchors, ancestors));
+                        else
+                            obj[name] = ToJson(value, anchors, ancestors);
+                    }
+
+                    foreach (var source in merges.SelectMany(m => m is JsonArray list ? list.AsEnumerable() : new[] { m }))
+                    {
+                        if (source is not JsonObject sourceObject)
+                            throw new OpenApiParseException("Failed to parse OpenAPI spec: YAML merge keys must refer to mappings");
+
+                        // Keys of the mapping itself win over merged ones
+                        foreach (var (name, value) in sourceObject)
+                        {
+                            if (!obj.ContainsKey(name))
+                                obj[name] = value?.DeepClone();
+                        }
+                    }
+                    return obj;
+
+                case YamlSequenceNode sequence:
+                    return new JsonArray(sequence.Children.Select(c => ToJson(c, anchors, ancestors)).ToArray());
+
+                case YamlScalarNode { Style: ScalarStyle.Plain } scalar:
+                    return ToPlainValue(scalar.Value);
+
+                case YamlScalarNode scalar:
+                    return JsonValue.Create(scalar.Value);
+
+                default:
+                    return node.Anchor is { } alias && anchors.TryGetValue(alias, out var anchored)
+                        ? ToJson(anchored, anchors, ancestors)
+                        : throw new OpenApiParseException($"Failed to parse OpenAPI spec: YAML alias '*{node.Anchor}' has no anchor");
+            }
+        }
+        finally
+        {
+            ancestors.Remove(node);
+        }
+    }
+
+    // Unquoted YAML scalars may be null, booleans or numbers
+    private static JsonNode? ToPlainValue(string value)
+    {
+        if (value is "" or "~" or "null")
+            return null;
+        if (value is "true" or "false")
+            return JsonValue.Create(value == "true");
+        if (long.TryParse(value, NumberStyles.Integer, CultureInfo.InvariantCulture, out var integer))
+            return JsonValue.Create(integer);
+        if (double.TryParse(value, NumberStyles.Float, CultureInfo.InvariantCulture, out var number))
+            return JsonValue.Create(number);
+
+        return JsonValue.Create(value);
+    }
+
+    private static List<WebhookDefinition> ReadWebhooks(JsonObject? webhooks)
+    {
+        var result = new List<WebhookDefinition>();
+        foreach (var (name, pathItem) in webhooks ?? new JsonObject())
+        {
+            if (pathItem is not JsonObject operations)
+                continue;
+
+            foreach (var method in HttpMethods)
+            {
+                if (operations[method] is not JsonObject operation)
+                    continue;
+
+                result.Add(new WebhookDefinition
+                {
+                    Kind = Constants.WebhookKinds.Webhook,
+                    Name = name,
+                    Method = method.ToUpperInvariant(),
+                    OperationId = GetString(operation, "operationId"),
+                    Summary = GetString(operation, "summary") ?? GetString(operations, "summary"),
+                    Description = GetString(operation, "description") ?? GetString(operations, "description")
+                });
+            }
+        }
+
+        return result;
+    }
+
+    // Walks the document to every schema; examples are skipped since they hold arbitrary data
+    private static void ConvertNode(JsonNode? node)
+    {
+        switch (node)
+        {
+            case JsonObject obj:
+                foreach (var (key, value) in obj)
+                {
+                    if (key == "schema")
+                        ConvertSchema(value);
+                    else if (key == "schemas" && value is JsonObject schemas)
+                        ConvertSchemaMap(schemas);
+                    else if (key is not ("example" or "examples"))
+                        ConvertNode(value);
+                }
+                break;
+
+            case JsonArray array:
+                foreach (var item in array)
+                {
+                    ConvertNode(item);
+                }
+                break;
+        }
+    }
+
+    private static void ConvertSchemaMap(JsonObject schemas)
+    {
+        foreach (var (_, schema) in schemas)
+        {
+            ConvertSchema(schema);
+        }
+    }
+
+    private static void ConvertSchema(JsonNode? node)
+    {
+        if (node is not JsonObject schema)
+            return;
+
+        // type: ["string", "null"] is a nullable string; several other types become an anyOf
+        if (schema["type"] is JsonArray typeList)
+        {
+            var types = typeList.Select(t => t?.ToString()).OfType<string>().ToList();
+            var nonNull = types.Where(t => t != "null").ToList();
+            schema.Remove("type");
+
+            if (nonNull.Count == 1)
+            {
+                schema["type"] = nonNull[0];
+            }
+            else if (nonNull.Count > 1)
+            {
+                var branches = new JsonArray(nonNull.Select(t => (JsonNode)new JsonObject { ["type"] = t }).ToArray());
+                AddUnion(schema, branches);
+            }
+
+            if (nonNull.Count < types.Count)
+            {
+                schema["nullable"] = true;
+            }
+        }
+
+        // A { "type": "null" } branch makes the union nullable instead
+        foreach (var keyword in new[] { "anyOf", "oneOf" })
+        {
+            if (schema[keyword] is not JsonArray union)
+                continue;
+
+            var nullBranches = union.Where(b => b is JsonObject { Count: 1 } branch && branch["type"]?.ToString() == "null").ToList();
+            foreach (var branch in nullBranches)
+            {
+                union.Remove(branch);
+                schema["nullable"] = true;
+            }
+        }
+
+        if (schema.TryGetPropertyValue("const", out var constant))
+        {
+            schema.Remove("const");
+            schema["enum"] ??= new JsonArray(constant);
+        }
+
+        // Only schemas' examples are lists; parameter and media type examples are maps the walk skips
+        if (schema.TryGetPropertyValue("examples", out var examples) && examples is JsonArray exampleList)
+        {
+            schema.Remove("examples");
+            if (exampleList.Count > 0)
+                schema["example"] ??= exampleList[0]?.DeepClone();
+        }
+
+        // Numeric exclusive bounds become the bound plus a boolean flag
+        foreach (var (exclusive, bound) in new[] { ("exclusiveMinimum", "minimum"), ("exclusiveMaximum", "maximum") })
+        {
+            if (schema[exclusive] is JsonValue value && value.GetValueKind() == JsonValueKind.Number)
+            {
+                schema[bound] = value.DeepClone();
+                schema[exclusive] = true;
+            }
+        }
+
+        // File content is described by contentEncoding/contentMediaType instead of a format
+        if (!schema.ContainsKey("format"))
+        {
+            if (GetString(schema, "contentEncoding") == "base64")
+                schema["format"] = "byte";
+            else if (schema.ContainsKey("contentMediaType"))
+                schema["format"] = "binary";
+        }
+
+        foreach (var keyword in SchemaKeywords)
+        {
+            ConvertSchema(schema[keyword]);
+        }
+
+        foreach (var keyword in SchemaListKeywords)
+        {
+            foreach (var item in schema[keyword] as JsonArray ?? new JsonArray())
+            {
+                ConvertSchema(item);
+            }
+        }
+
+        foreach (var keyword in SchemaMapKeywords)
+        {
+            if (schema[keyword] is JsonObject map)
+                ConvertSchemaMap(map);
+        }
+    }
+
+    // Adds type branches as the anyOf, or alongside an existing anyOf through allOf
+    private static void AddUnion(JsonObject schema, JsonArray branches)
+    {
+        if (!schema.ContainsKey("anyOf"))
+        {
+            schema["anyOf"] = branches;
+            return;
+        }
+
+        if (schema["allOf"] is not JsonArray allOf)
+        {
+            schema["allOf"] = allOf = new JsonArray();
+        }
+
+        allOf.Add(new JsonObject { ["anyOf"] = branches });
+    }
+
+    private static string? GetString(JsonObject obj, string property)
+    {
+        return obj[property] is JsonValue value && value.GetValueKind() == JsonValueKind.String ? value.GetValue<string>() : null;
+    }
+}
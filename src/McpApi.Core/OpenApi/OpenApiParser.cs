@@ -36,9 +36,10 @@ public class OpenApiParser : IOpenApiParser
         var registration = await ParseStreamAsync(specStream, ct);
 
         // Override base URL if provided
-        if (!string.IsNullOrEmpty(baseUrl))
+        if (!string.IsNullOrEmpty(baseUrl) && baseUrl.TrimEnd('/') != registration.BaseUrl)
         {
             registration.BaseUrl = baseUrl.TrimEnd('/');
+            registration.SelectedServer = null;
         }
 
         return registration;
@@ -46,28 +47,37 @@ public class OpenApiParser : IOpenApiParser
 
     private async Task<ApiRegistration> ParseStreamAsync(Stream stream, CancellationToken ct)
     {
-        var reader = new OpenApiStreamReader();
-        var result = await reader.ReadAsync(stream, ct);
+        using var streamReader = new StreamReader(stream, leaveOpen: true);
+        var text = await streamReader.ReadToEndAsync(ct);
+
+        // The reader only understands 2.0 and 3.0, so 3.1 documents are rewritten as 3.0 first
+        var converted = OpenApi31Converter.TryConvert(text);
+
+        var reader = new OpenApiStringReader();
+        var document = reader.Read(converted?.Document ?? text, out var diagnostic);
 
         // Only fail on critical errors that prevent parsing (missing required fields, etc.)
         // Ignore validation warnings like duplicate path signatures which don't prevent parsing
-        var criticalErrors = result.OpenApiDiagnostic.Errors
+        var criticalErrors = diagnostic.Errors
             .Where(e => !IsIgnorableValidationError(e.Message))
             .ToList();
 
-        if (criticalErrors.Count > 0 && result.OpenApiDocument?.Paths == null)
+        if (criticalErrors.Count > 0 && document?.Paths == null)
         {
             var errors = string.Join(", ", criticalErrors.Select(e => e.Message));
             throw new OpenApiParseException($"Failed to parse OpenAPI spec: {errors}");
         }
 
-        if (result.OpenApiDocument == null)
+        if (document == null)
         {
             throw new OpenApiParseException("Failed to parse OpenAPI spec: Document is null");
         }
 
-        var specVersion = GetSpecVersionString(result.OpenApiDiagnostic.SpecificationVersion);
-        return ConvertDocument(result.OpenApiDocument, specVersion);
+        var specVersion = converted != null ? "3.1" : GetSpecVersionString(diagnostic.SpecificationVersion);
+        var registration = ConvertDocument(document, specVersion);
+        registration.Webhooks.InsertRange(0, converted?.Webhooks ?? []);
+
+        return registration;
     }
 
     private static string GetSpecVersionString(Microsoft.OpenApi.OpenApiSpecVersion version) => version switch
@@ -86,7 +96,8 @@ public class OpenApiParser : IOpenApiParser
 
     private ApiRegistration ConvertDocument(OpenApiDocument doc, string specVersion)
     {
-        var baseUrl = ExtractBaseUrl(doc);
+        var servers = ExtractServers(doc);
+        var baseUrl = servers[0].ResolveUrl();
         var apiId = IdGenerator.GenerateApiId(doc.Info.Title, baseUrl);
 
         var registration = new ApiRegistration
@@ -94,6 +105,8 @@ public class OpenApiParser : IOpenApiParser
             Id = apiId,
             DisplayName = doc.Info.Title,
             BaseUrl = baseUrl,
+            Servers = servers,
+            SelectedServer = servers[0].Name,
             OpenApiVersion = specVersion,
             ApiVersion = doc.Info.Version,
             Description = doc.Info.Description,
@@ -114,29 +127,82 @@ public class OpenApiParser : IOpenApiParser
                     pathItem.Parameters);
 
                 registration.Endpoints.Add(endpoint);
+                registration.Webhooks.AddRange(ConvertCallbacks(endpoint.OperationId, operation));
             }
         }
 
         return registration;
     }
 
-    private static string ExtractBaseUrl(OpenApiDocument doc)
+    private static IEnumerable<WebhookDefinition> ConvertCallbacks(string sourceOperationId, OpenApiOperation operation)
     {
-        var server = doc.Servers?.FirstOrDefault();
-        if (server == null)
+        foreach (var (name, callback) in operation.Callbacks ?? new Dictionary<string, OpenApiCallback>())
         {
-            throw new OpenApiParseException("No server URL found in OpenAPI spec");
+            foreach (var (expression, pathItem) in callback.PathItems)
+            {
+                foreach (var (method, callbackOperation) in pathItem.Operations)
+                {
+                    yield return new WebhookDefinition
+                    {
+                        Kind = Constants.WebhookKinds.Callback,
+                        Name = name,
+                        Method = method.ToString().ToUpperInvariant(),
+                        Url = expression.Expression,
+                        SourceOperationId = sourceOperationId,
+                        OperationId = callbackOperation.OperationId,
+                        Summary = callbackOperation.Summary ?? pathItem.Summary,
+                        Description = callbackOperation.Description ?? pathItem.Description
+                    };
+                }
+            }
         }
+    }
 
-        var url = server.Url;
+    private static List<ServerDefinition> ExtractServers(OpenApiDocument doc)
+    {
+        if (doc.Servers == null || doc.Servers.Count == 0)
+        {
+            throw new OpenApiParseException("No server URL found in OpenAPI spec");
+        }
 
-        // Handle server variables (e.g., {scheme}://{host})
-        foreach (var (name, variable) in server.Variables ?? new Dictionary<string, OpenApiServerVariable>())
+        var servers = new List<ServerDefinition>();
+        foreach (var server in doc.Servers)
         {
-            url = url.Replace($"{{{name}}}", variable.Default);
+            // Named after the description ("Sandbox server (test data)" is "sandbox"), or by position
+            var name = ServerNameFromDescription(server.Description);
+            if (name.Length == 0 || servers.Any(s => s.Name == name))
+            {
+                name = $"server-{servers.Count + 1}";
+            }
+
+            servers.Add(new ServerDefinition
+            {
+                Name = name,
+                Url = server.Url,
+                Description = server.Description,
+                Variables = (server.Variables ?? new Dictionary<string, OpenApiServerVariable>())
+                    .ToDictionary(v => v.Key, v => new ServerVariable
+                    {
+                        Default = v.Value.Default,
+                        Enum = v.Value.Enum?.Count > 0 ? v.Value.Enum.ToList() : null,
+                        Description = v.Value.Description
+                    })
+            });
         }
 
-        return url.TrimEnd('/');
+        return servers;
+    }
+
+    private static string ServerNameFromDescription(string? description)
+    {
+        if (string.IsNullOrWhiteSpace(description))
+            return "";
+
+        var words = IdGenerator.ToSlug(description.Split('(', ',', '.', ':')[0])
+            .Split('-')
+            .Where(w => w is not ("server" or "environment" or "api"));
+
+        return string.Join("-", words.Take(3));
     }
 
     private static AuthConfiguration ExtractAuthConfig(
@@ -74,7 +74,24 @@ public class OperationConverter
             Description = param.Description,
             Schema = _schemaFlattener.Flatten(param.Schema),
             Example = param.Example?.ToString(),
-            Default = param.Schema?.Default?.ToString()
+            Default = param.Schema?.Default?.ToString(),
+            Style = ConvertStyle(param.Style),
+            Explode = param.Explode
+        };
+    }
+
+    private static string? ConvertStyle(ParameterStyle? style)
+    {
+        return style switch
+        {
+            ParameterStyle.Form => Constants.ParameterStyles.Form,
+            ParameterStyle.SpaceDelimited => Constants.ParameterStyles.SpaceDelimited,
+            ParameterStyle.PipeDelimited => Constants.ParameterStyles.PipeDelimited,
+            ParameterStyle.DeepObject => Constants.ParameterStyles.DeepObject,
+            ParameterStyle.Matrix => Constants.ParameterStyles.Matrix,
+            ParameterStyle.Label => Constants.ParameterStyles.Label,
+            ParameterStyle.Simple => Constants.ParameterStyles.Simple,
+            _ => null
         };
     }
 
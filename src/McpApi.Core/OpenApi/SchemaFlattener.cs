@@ -6,6 +6,7 @@ using Microsoft.OpenApi.Models;
 /// <summary>
 /// Flattens OpenAPI schemas into simplified JsonSchema representation.
 /// Handles $ref resolution with circular reference protection.
+/// allOf members are merged; oneOf and anyOf are kept as unions, with discriminator values pinned on each branch.
 /// Thread-safe: each Flatten call uses its own visited refs tracking.
 /// </summary>
 public class SchemaFlattener
@@ -45,7 +46,8 @@ public class SchemaFlattener
 
         var result = new JsonSchema
         {
-            Type = MapType(schema.Type ?? "object"),
+            Type = schema.Type == null ? null : MapType(schema.Type),
+            Title = schema.Title ?? schema.Reference?.Id,
             Format = schema.Format,
             Description = schema.Description,
             Minimum = (double?)schema.Minimum,
@@ -54,7 +56,8 @@ public class SchemaFlattener
             MaxLength = schema.MaxLength,
             Pattern = schema.Pattern,
             Default = schema.Default?.ToString(),
-            Example = schema.Example?.ToString()
+            Example = schema.Example?.ToString(),
+            Nullable = schema.Nullable ? true : null
         };
 
         // Handle enum
@@ -67,7 +70,7 @@ public class SchemaFlattener
         }
 
         // Handle array items
-        if (schema.Type == "array" && schema.Items != null)
+        if (schema.Items != null)
         {
             result.Items = FlattenInternal(schema.Items, depth + 1, visitedRefs);
         }
@@ -88,6 +91,45 @@ public class SchemaFlattener
             result.Required = schema.Required.ToList();
         }
 
+        // Handle additional properties: a schema for map values, or false when no others are allowed
+        if (schema.AdditionalProperties != null)
+        {
+            result.AdditionalProperties = FlattenInternal(schema.AdditionalProperties, depth + 1, visitedRefs);
+        }
+        else if (!schema.AdditionalPropertiesAllowed)
+        {
+            result.AdditionalProperties = JsonSchema.False;
+        }
+
+        if (schema.Not != null)
+        {
+            result.Not = FlattenInternal(schema.Not, depth + 1, visitedRefs);
+        }
+
+        // Handle allOf by merging every member into this schema
+        foreach (var member in schema.AllOf ?? [])
+        {
+            Merge(result, FlattenInternal(member, depth + 1, visitedRefs));
+        }
+
+        // Handle unions
+        if (schema.OneOf?.Count > 0)
+        {
+            result.OneOf = schema.OneOf.Select(s => FlattenInternal(s, depth + 1, visitedRefs)).ToList();
+        }
+
+        if (schema.AnyOf?.Count > 0)
+        {
+            result.AnyOf = schema.AnyOf.Select(s => FlattenInternal(s, depth + 1, visitedRefs)).ToList();
+        }
+
+        if (!string.IsNullOrEmpty(schema.Discriminator?.PropertyName))
+        {
+            result.Discriminator = ConvertDiscriminator(schema.Discriminator, result.OneOf ?? result.AnyOf);
+        }
+
+        result.Type ??= InferType(result);
+
         // Clear visited ref after processing (allows same ref in different branches)
         if (schema.Reference != null)
         {
@@ -97,6 +139,93 @@ public class SchemaFlattener
         return result;
     }
 
+    private static void Merge(JsonSchema target, JsonSchema member)
+    {
+        // The schema's own keywords win over its members'
+        target.Type ??= member.Type;
+        target.Format ??= member.Format;
+        target.Description ??= member.Description;
+        target.Enum ??= member.Enum;
+        target.Items ??= member.Items;
+        target.Minimum ??= member.Minimum;
+        target.Maximum ??= member.Maximum;
+        target.MinLength ??= member.MinLength;
+        target.MaxLength ??= member.MaxLength;
+        target.Pattern ??= member.Pattern;
+        target.Nullable ??= member.Nullable;
+        target.AdditionalProperties ??= member.AdditionalProperties;
+
+        if (member.Properties != null)
+        {
+            target.Properties ??= new Dictionary<string, JsonSchema>();
+            foreach (var (name, property) in member.Properties)
+            {
+                target.Properties.TryAdd(name, property);
+            }
+        }
+
+        if (member.Required != null)
+        {
+            target.Required = (target.Required ?? []).Union(member.Required).ToList();
+        }
+
+        // A member's union carries over along with its discriminator; a discriminator alone
+        // belongs to a base schema the branches extend, so it doesn't apply here
+        if (target.OneOf == null && target.AnyOf == null && (member.OneOf != null || member.AnyOf != null))
+        {
+            target.OneOf = member.OneOf;
+            target.AnyOf = member.AnyOf;
+            target.Discriminator = member.Discriminator;
+        }
+    }
+
+    private static SchemaDiscriminator ConvertDiscriminator(OpenApiDiscriminator discriminator, List<JsonSchema>? branches)
+    {
+        // Mapping values are refs such as "#/components/schemas/Cat"; without a mapping, each branch's name is its value
+        var mapping = discriminator.Mapping?.Count > 0
+            ? discriminator.Mapping.ToDictionary(m => m.Key, m => m.Value.Split('/')[^1])
+            : branches?
+                .Where(b => b.Title != null)
+                .DistinctBy(b => b.Title)
+                .ToDictionary(b => b.Title!, b => b.Title!);
+
+        // Pin the property on each branch, so a tool call can only pick a valid value
+        foreach (var branch in branches ?? [])
+        {
+            var values = mapping?.Where(m => m.Value == branch.Title).Select(m => m.Key).ToList();
+            if (values?.Count > 0 && branch.Properties?.TryGetValue(discriminator.PropertyName, out var property) == true)
+            {
+                property.Enum = values;
+            }
+        }
+
+        return new SchemaDiscriminator
+        {
+            PropertyName = discriminator.PropertyName,
+            Mapping = mapping?.Count > 0 ? mapping : null
+        };
+    }
+
+    // Untyped schemas are objects unless their shape or union says otherwise
+    private static string? InferType(JsonSchema schema)
+    {
+        if (schema.Properties != null || schema.AdditionalProperties != null)
+            return "object";
+
+        if (schema.Items != null)
+            return "array";
+
+        var branches = schema.OneOf ?? schema.AnyOf;
+        if (branches != null)
+        {
+            // Branches of different types leave the type open
+            var types = branches.Select(b => b.Type).Distinct().ToList();
+            return types.Count == 1 ? types[0] : null;
+        }
+
+        return "object";
+    }
+
     private static string MapType(string openApiType)
     {
         return openApiType.ToLowerInvariant() switch
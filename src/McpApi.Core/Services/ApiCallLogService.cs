@@ -0,0 +1,190 @@
+namespace McpApi.Core.Services;
+
+using System.Diagnostics;
+using System.Text.Json;
+using McpApi.Core.Http;
+using McpApi.Core.Models;
+using McpApi.Core.Secrets;
+using McpApi.Core.Storage;
+using Microsoft.Extensions.Logging;
+
+/// <summary>
+/// Implementation of call logging that redacts secrets and truncates bodies before storing.
+/// Each call is also added to the daily usage breakdown.
+/// </summary>
+public class ApiCallLogService : IApiCallLogService
+{
+    private static readonly HashSet<string> SecretHeaders = new(StringComparer.OrdinalIgnoreCase)
+    {
+        "Authorization",
+        "Proxy-Authorization",
+        "Cookie",
+        "Set-Cookie",
+        "X-Api-Key",
+        "X-Auth-Token"
+    };
+
+    private static readonly HashSet<string> SecretQueryParameters = new(StringComparer.OrdinalIgnoreCase)
+    {
+        "access_token",
+        "api_key",
+        "apikey"
+    };
+
+    private readonly IApiClient _apiClient;
+    private readonly IApiCallLogStore _store;
+    private readonly IUsageTrackingService _usageTracking;
+    private readonly ILogger<ApiCallLogService> _logger;
+
+    public ApiCallLogService(
+        IApiClient apiClient,
+        IApiCallLogStore store,
+        IUsageTrackingService usageTracking,
+        ILogger<ApiCallLogService> logger)
+    {
+        _apiClient = apiClient;
+        _store = store;
+        _usageTracking = usageTracking;
+        _logger = logger;
+    }
+
+    public async Task<ApiResponse> ExecuteAndLogAsync(
+        ApiCallContext context,
+        ApiRegistration api,
+        ApiEndpoint endpoint,
+        Dictionary<string, object?> parameters,
+        UserSecretContext? userContext = null,
+        CancellationToken ct = default)
+    {
+        // The client and the log both see the environment's base URL and auth
+        api = api.ForEnvironment(context.Environment);
+
+        var stopwatch = Stopwatch.StartNew();
+        ApiResponse? response = null;
+        Exception? error = null;
+
+        try
+        {
+            response = await _apiClient.ExecuteAsync(api, endpoint, parameters, userContext, ct);
+            return response;
+        }
+        catch (Exception ex) when (ex is not OperationCanceledException)
+        {
+            error = ex;
+            throw;
+        }
+        finally
+        {
+            if (response != null || error != null)
+            {
+                var log = CreateLog(context, api, endpoint, parameters, response, error, stopwatch.ElapsedMilliseconds);
+                try
+                {
+                    await _store.AddAsync(log, CancellationToken.None);
+                }
+                catch (Exception ex)
+                {
+                    _logger.LogWarning(ex, "Failed to write call log for endpoint {EndpointId} of API {ApiId}", endpoint.Id, api.Id);
+                }
+
+                try
+                {
+                    await _usageTracking.RecordEndpointCallAsync(log, CancellationToken.None);
+                }
+                catch (Exception ex)
+                {
+                    _logger.LogWarning(ex, "Failed to record usage breakdown for endpoint {EndpointId} of API {ApiId}", endpoint.Id, api.Id);
+                }
+            }
+        }
+    }
+
+    /// <summary>
+    /// Builds the log entry for a call, redacting secret headers and query parameters and truncating bodies.
+    /// </summary>
+    public static ApiCallLog CreateLog(
+        ApiCallContext context,
+        ApiRegistration api,
+        ApiEndpoint endpoint,
+        Dictionary<string, object?> parameters,
+        ApiResponse? response,
+        Exception? error,
+        long durationMs)
+    {
+        var secretHeaders = new HashSet<string>(SecretHeaders, StringComparer.OrdinalIgnoreCase);
+        var secretQueryParameters = new HashSet<string>(SecretQueryParameters, StringComparer.OrdinalIgnoreCase);
+
+        // The API key name is configurable, so it can't be caught by the well-known lists alone
+        if (api.Auth is ApiKeyAuthConfig apiKey)
+        {
+            if (apiKey.In.Equals("query", StringComparison.OrdinalIgnoreCase))
+                secretQueryParameters.Add(apiKey.ParameterName);
+            else
+                secretHeaders.Add(apiKey.ParameterName);
+        }
+
+        var arguments = parameters.ToDictionary(
+            p => p.Key,
+            p => secretHeaders.Contains(p.Key) || secretQueryParameters.Contains(p.Key) ? Constants.CallLog.RedactedValue : p.Value);
+
+        return new ApiCallLog
+        {
+            Id = Guid.NewGuid().ToString(),
+            UserId = context.UserId,
+            Source = context.Source,
+            TokenId = context.TokenId,
+            ApiId = api.Id,
+            ApiName = api.DisplayName,
+            Environment = api.ActiveEnvironment,
+            EndpointId = endpoint.Id,
+            OperationId = endpoint.OperationId,
+            Method = endpoint.Method.ToUpperInvariant(),
+            Path = endpoint.Path,
+            StatusCode = response?.StatusCode,
+            IsSuccess = response?.IsSuccess ?? false,
+            DurationMs = durationMs,
+            Error = error?.Message,
+            Arguments = Truncate(JsonSerializer.Serialize(arguments)),
+            RequestUrl = response?.Request == null ? null : RedactQuery(response.Request.Url, secretQueryParameters),
+            RequestHeaders = response?.Request == null ? null : RedactHeaders(response.Request.Headers, secretHeaders),
+            RequestBody = Truncate(response?.Request?.Body),
+            ResponseHeaders = response == null ? null : RedactHeaders(response.Headers, secretHeaders),
+            ResponseBody = response?.BinarySize is long size
+                ? $"[{response.ContentType} body, {size} bytes]"
+                : Truncate(response?.Body)
+        };
+    }
+
+    private static Dictionary<string, string[]> RedactHeaders(Dictionary<string, string[]> headers, HashSet<string> secretHeaders)
+    {
+        return headers.ToDictionary(
+            h => h.Key,
+            h => secretHeaders.Contains(h.Key) ? [Constants.CallLog.RedactedValue] : h.Value);
+    }
+
+    private static string RedactQuery(string url, HashSet<string> secretParameters)
+    {
+        var queryStart = url.IndexOf('?');
+        if (queryStart < 0)
+            return url;
+
+        var pairs = url[(queryStart + 1)..].Split('&').Select(pair =>
+        {
+            var separator = pair.IndexOf('=');
+            var name = Uri.UnescapeDataString(separator < 0 ? pair : pair[..separator]);
+            return separator >= 0 && secretParameters.Contains(name)
+                ? $"{pair[..separator]}={Constants.CallLog.RedactedValue}"
+                : pair;
+        });
+
+        return $"{url[..queryStart]}?{string.Join("&", pairs)}";
+    }
+
+    private static string? Truncate(string? value)
+    {
+        if (value == null || value.Length <= Constants.CallLog.MaxBodyLength)
+            return value;
+
+        return $"{value[..Constants.CallLog.MaxBodyLength]}... [truncated {value.Length - Constants.CallLog.MaxBodyLength} characters]";
+    }
+}
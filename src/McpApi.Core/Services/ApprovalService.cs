@@ -0,0 +1,112 @@
+namespace McpApi.Core.Services;
+
+using McpApi.Core.Models;
+using McpApi.Core.Storage;
+
+/// <summary>
+/// Implementation of approvals that polls the store while a tool call waits for a decision.
+/// Decisions and executions use optimistic concurrency so racing callers can't both win.
+/// </summary>
+public class ApprovalService : IApprovalService
+{
+    private readonly IApprovalStore _store;
+
+    public ApprovalService(IApprovalStore store)
+    {
+        _store = store;
+    }
+
+    /// <summary>Time between checks for a decision while waiting.</summary>
+    public TimeSpan PollInterval { get; init; } = TimeSpan.FromSeconds(Constants.Approvals.PollSeconds);
+
+    public async Task<ApprovalRequest> RequestAsync(
+        ApiCallContext context,
+        ApiRegistration api,
+        ApiEndpoint endpoint,
+        string toolName,
+        string arguments,
+        CancellationToken ct = default)
+    {
+        var approval = new ApprovalRequest
+        {
+            Id = Guid.NewGuid().ToString(),
+            UserId = context.UserId,
+            TokenId = context.TokenId,
+            Environment = context.Environment,
+            ApiId = api.Id,
+            ApiName = api.DisplayName,
+            EndpointId = endpoint.Id,
+            OperationId = endpoint.OperationId,
+            Method = endpoint.Method.ToUpperInvariant(),
+            Path = endpoint.Path,
+            ToolName = toolName,
+            Arguments = arguments
+        };
+
+        await _store.AddAsync(approval, ct);
+        return approval;
+    }
+
+    public Task<ApprovalRequest?> GetAsync(string userId, string id, CancellationToken ct = default)
+    {
+        return _store.GetAsync(userId, id, ct);
+    }
+
+    public async Task<ApprovalRequest> WaitForDecisionAsync(
+        ApprovalRequest approval,
+        TimeSpan timeout,
+        CancellationToken ct = default)
+    {
+        var deadline = DateTime.UtcNow + timeout;
+
+        while (approval.GetStatus(DateTime.UtcNow) == Constants.Approvals.StatusPending)
+        {
+            var remaining = deadline - DateTime.UtcNow;
+            if (remaining <= TimeSpan.Zero)
+                break;
+
+            await Task.Delay(remaining < PollInterval ? remaining : PollInterval, ct);
+
+            // Keep the last state seen if the request has since expired from the store
+            approval = await _store.GetAsync(approval.UserId, approval.Id, ct) ?? approval;
+        }
+
+        return approval;
+    }
+
+    public async Task<ApprovalRequest?> DecideAsync(
+        string userId,
+        string id,
+        bool approve,
+        string? note = null,
+        CancellationToken ct = default)
+    {
+        var approval = await _store.GetAsync(userId, id, ct);
+        if (approval == null)
+            return null;
+
+        var status = approval.GetStatus(DateTime.UtcNow);
+        if (status != Constants.Approvals.StatusPending)
+            throw new InvalidOperationException($"The request is already {status}");
+
+        approval.Status = approve ? Constants.Approvals.StatusApproved : Constants.Approvals.StatusRejected;
+        approval.DecidedAt = DateTime.UtcNow;
+        approval.DecisionNote = string.IsNullOrWhiteSpace(note) ? null : note.Trim();
+
+        if (!await _store.TryUpdateAsync(approval, ct))
+            throw new InvalidOperationException("The request was decided by someone else");
+
+        return approval;
+    }
+
+    public async Task<bool> TryStartExecutionAsync(ApprovalRequest approval, CancellationToken ct = default)
+    {
+        // Approvals not used within the execution window have expired
+        if (approval.GetStatus(DateTime.UtcNow) != Constants.Approvals.StatusApproved)
+            return false;
+
+        approval.Status = Constants.Approvals.StatusExecuted;
+        approval.ExecutedAt = DateTime.UtcNow;
+        return await _store.TryUpdateAsync(approval, ct);
+    }
+}
@@ -0,0 +1,35 @@
+namespace McpApi.Core.Services;
+
+using McpApi.Core.Http;
+using McpApi.Core.Models;
+using McpApi.Core.Secrets;
+
+/// <summary>
+/// Executes calls to registered APIs and records each one in the call log and the daily usage breakdown.
+/// </summary>
+public interface IApiCallLogService
+{
+    /// <summary>
+    /// Executes an API call and records it, including calls that throw before a response is received.
+    /// Failing to write the log or usage breakdown never fails the call.
+    /// </summary>
+    /// <param name="context">Who made the call and through which surface.</param>
+    /// <param name="api">The API registration containing base URL and auth config, per environment.</param>
+    /// <param name="endpoint">The endpoint to call.</param>
+    /// <param name="parameters">Request parameters.</param>
+    /// <param name="userContext">User context for decrypting secrets. Required if secrets are encrypted.</param>
+    /// <param name="ct">Cancellation token.</param>
+    Task<ApiResponse> ExecuteAndLogAsync(
+        ApiCallContext context,
+        ApiRegistration api,
+        ApiEndpoint endpoint,
+        Dictionary<string, object?> parameters,
+        UserSecretContext? userContext = null,
+        CancellationToken ct = default);
+}
+
+/// <summary>
+/// Who made an API call: the user, the surface it came from and the MCP token, if any.
+/// Environment is the one the token selects; the API's active environment applies when it is null or not defined.
+/// </summary>
+public record ApiCallContext(string UserId, string Source, string? TokenId = null, string? Environment = null);
@@ -0,0 +1,51 @@
+namespace McpApi.Core.Services;
+
+using McpApi.Core.Models;
+
+/// <summary>
+/// Parks calls to endpoints that require approval until a human approves or rejects them.
+/// </summary>
+public interface IApprovalService
+{
+    /// <summary>
+    /// Records a pending request for a call to an endpoint.
+    /// </summary>
+    /// <param name="context">Who made the call.</param>
+    /// <param name="api">The API the endpoint belongs to.</param>
+    /// <param name="endpoint">The endpoint to call once approved.</param>
+    /// <param name="toolName">Name of the MCP tool that was called.</param>
+    /// <param name="arguments">The tool arguments, as a JSON object.</param>
+    /// <param name="ct">Cancellation token.</param>
+    Task<ApprovalRequest> RequestAsync(
+        ApiCallContext context,
+        ApiRegistration api,
+        ApiEndpoint endpoint,
+        string toolName,
+        string arguments,
+        CancellationToken ct = default);
+
+    /// <summary>Gets a request by ID. Returns null if not found.</summary>
+    Task<ApprovalRequest?> GetAsync(string userId, string id, CancellationToken ct = default);
+
+    /// <summary>
+    /// Waits until the request is decided or expires, or the timeout passes, and returns its latest state.
+    /// </summary>
+    Task<ApprovalRequest> WaitForDecisionAsync(ApprovalRequest approval, TimeSpan timeout, CancellationToken ct = default);
+
+    /// <summary>
+    /// Approves or rejects a pending request. Returns null if not found.
+    /// </summary>
+    /// <exception cref="InvalidOperationException">Thrown when the request was already decided or has expired.</exception>
+    Task<ApprovalRequest?> DecideAsync(
+        string userId,
+        string id,
+        bool approve,
+        string? note = null,
+        CancellationToken ct = default);
+
+    /// <summary>
+    /// Marks an approved request as executed. Returns false when it is not approved, was approved longer ago
+    /// than the execution window or was executed already, so each approval makes the call at most once.
+    /// </summary>
+    Task<bool> TryStartExecutionAsync(ApprovalRequest approval, CancellationToken ct = default);
+}
@@ -68,8 +68,64 @@ public interface IUsageTrackingService
     /// <param name="months">Number of months to retrieve.</param>
     /// <param name="ct">Cancellation token.</param>
     Task<IReadOnlyList<UsageRecord>> GetUsageHistoryAsync(string userId, int months = 12, CancellationToken ct = default);
+
+    /// <summary>
+    /// Adds an executed call to the user's daily per-endpoint usage breakdown.
+    /// </summary>
+    /// <param name="call">The logged call.</param>
+    /// <param name="ct">Cancellation token.</param>
+    Task RecordEndpointCallAsync(ApiCallLog call, CancellationToken ct = default);
+
+    /// <summary>
+    /// Gets call counts per day for the last N days, including days without calls.
+    /// </summary>
+    /// <param name="userId">The user's ID.</param>
+    /// <param name="query">Range and filters.</param>
+    /// <param name="ct">Cancellation token.</param>
+    Task<IReadOnlyList<DailyUsagePoint>> GetDailyUsageAsync(string userId, UsageBreakdownQuery query, CancellationToken ct = default);
+
+    /// <summary>
+    /// Gets the most-called APIs, endpoints, tokens or sources over the last N days.
+    /// </summary>
+    /// <param name="userId">The user's ID.</param>
+    /// <param name="dimension">What to group by (see <see cref="Constants.UsageBreakdown"/>).</param>
+    /// <param name="query">Range and filters.</param>
+    /// <param name="top">Maximum number of entries to return, busiest first.</param>
+    /// <param name="ct">Cancellation token.</param>
+    Task<IReadOnlyList<UsageBreakdownItem>> GetUsageBreakdownAsync(
+        string userId,
+        string dimension,
+        UsageBreakdownQuery query,
+        int top = Constants.UsageBreakdown.DefaultTop,
+        CancellationToken ct = default);
 }
 
+/// <summary>
+/// Range and filters for usage breakdown queries. Null filters match everything.
+/// </summary>
+public record UsageBreakdownQuery(
+    int Days = Constants.UsageBreakdown.DefaultDays,
+    string? ApiId = null,
+    string? TokenId = null,
+    string? Source = null);
+
+/// <summary>
+/// Call counts for a single day ("YYYY-MM-DD").
+/// </summary>
+public record DailyUsagePoint(string Date, int CallCount, int ErrorCount);
+
+/// <summary>
+/// Call counts for one API, endpoint, token or source.
+/// Key is null for calls without a token in a token breakdown.
+/// </summary>
+public record UsageBreakdownItem(
+    string? Key,
+    string Label,
+    string? Detail,
+    int CallCount,
+    int ErrorCount,
+    long AverageDurationMs);
+
 /// <summary>
 /// Summary of a user's current usage and limits.
 /// </summary>
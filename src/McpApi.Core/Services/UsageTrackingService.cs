@@ -119,4 +119,101 @@ public class UsageTrackingService : IUsageTrackingService
 
         return await _usageStore.GetRangeAsync(userId, startYearMonth, endYearMonth, ct);
     }
+
+    public Task RecordEndpointCallAsync(ApiCallLog call, CancellationToken ct = default)
+    {
+        return _usageStore.AddDailyUsageAsync(DailyUsageRecord.FromCall(call), ct);
+    }
+
+    public async Task<IReadOnlyList<DailyUsagePoint>> GetDailyUsageAsync(
+        string userId,
+        UsageBreakdownQuery query,
+        CancellationToken ct = default)
+    {
+        var (startDate, endDate) = GetDateRange(query.Days);
+        var records = await GetDailyRecordsAsync(userId, query, ct);
+
+        var countsByDate = records
+            .GroupBy(r => r.Date)
+            .ToDictionary(g => g.Key, g => (Calls: g.Sum(r => r.CallCount), Errors: g.Sum(r => r.ErrorCount)));
+
+        // Include days without calls so charts have a continuous axis
+        var points = new List<DailyUsagePoint>();
+        for (var date = startDate; date <= endDate; date = date.AddDays(1))
+        {
+            var key = date.ToString("yyyy-MM-dd");
+            countsByDate.TryGetValue(key, out var counts);
+            points.Add(new DailyUsagePoint(key, counts.Calls, counts.Errors));
+        }
+
+        return points;
+    }
+
+    public async Task<IReadOnlyList<UsageBreakdownItem>> GetUsageBreakdownAsync(
+        string userId,
+        string dimension,
+        UsageBreakdownQuery query,
+        int top = Constants.UsageBreakdown.DefaultTop,
+        CancellationToken ct = default)
+    {
+        Func<DailyUsageRecord, string?> keySelector = dimension switch
+        {
+            Constants.UsageBreakdown.ByApi => r => r.ApiId,
+            Constants.UsageBreakdown.ByEndpoint => r => $"{r.ApiId}:{r.EndpointId}",
+            Constants.UsageBreakdown.ByToken => r => r.TokenId,
+            Constants.UsageBreakdown.BySource => r => r.Source,
+            _ => throw new ArgumentException($"Unknown usage breakdown dimension '{dimension}'", nameof(dimension))
+        };
+
+        var records = await GetDailyRecordsAsync(userId, query, ct);
+
+        return records
+            .GroupBy(keySelector)
+            .Select(g =>
+            {
+                // Names can change over time, so label with the most recent values
+                var latest = g.MaxBy(r => r.Date)!;
+                (string Label, string? Detail) text = dimension switch
+                {
+                    Constants.UsageBreakdown.ByApi => (latest.ApiName, null),
+                    Constants.UsageBreakdown.ByEndpoint => ($"{latest.Method} {latest.Path}", $"{latest.ApiName} · {latest.OperationId}"),
+                    Constants.UsageBreakdown.ByToken => (g.Key ?? "No token", null),
+                    _ => (latest.Source, null)
+                };
+
+                var calls = g.Sum(r => r.CallCount);
+                return new UsageBreakdownItem(
+                    Key: g.Key,
+                    Label: text.Label,
+                    Detail: text.Detail,
+                    CallCount: calls,
+                    ErrorCount: g.Sum(r => r.ErrorCount),
+                    AverageDurationMs: calls == 0 ? 0 : g.Sum(r => r.TotalDurationMs) / calls);
+            })
+            .OrderByDescending(i => i.CallCount)
+            .Take(top)
+            .ToList();
+    }
+
+    private async Task<List<DailyUsageRecord>> GetDailyRecordsAsync(string userId, UsageBreakdownQuery query, CancellationToken ct)
+    {
+        var (startDate, endDate) = GetDateRange(query.Days);
+        var records = await _usageStore.GetDailyRangeAsync(
+            userId,
+            startDate.ToString("yyyy-MM-dd"),
+            endDate.ToString("yyyy-MM-dd"),
+            ct);
+
+        return records
+            .Where(r => query.ApiId == null || r.ApiId == query.ApiId)
+            .Where(r => query.TokenId == null || r.TokenId == query.TokenId)
+            .Where(r => query.Source == null || r.Source == query.Source)
+            .ToList();
+    }
+
+    private static (DateOnly Start, DateOnly End) GetDateRange(int days)
+    {
+        var endDate = DateOnly.FromDateTime(DateTime.UtcNow);
+        return (endDate.AddDays(-(Math.Max(days, 1) - 1)), endDate);
+    }
 }
@@ -0,0 +1,139 @@
+namespace McpApi.Core.Storage;
+
+using System.Net;
+using System.Text;
+using McpApi.Core.Models;
+using Microsoft.Azure.Cosmos;
+
+/// <summary>
+/// Cosmos DB implementation of IApiCallLogStore.
+/// Uses userId as partition key; entries expire through their ttl property.
+/// </summary>
+public class CosmosApiCallLogStore : IApiCallLogStore
+{
+    private readonly Container _container;
+
+    public CosmosApiCallLogStore(CosmosClient cosmosClient, string databaseName)
+    {
+        var database = cosmosClient.GetDatabase(databaseName);
+        _container = database.GetContainer(Constants.Cosmos.CallLogs);
+    }
+
+    public async Task AddAsync(ApiCallLog log, CancellationToken ct = default)
+    {
+        await _container.CreateItemAsync(log, new PartitionKey(log.UserId), cancellationToken: ct);
+    }
+
+    public async Task<ApiCallLog?> GetAsync(string userId, string id, CancellationToken ct = default)
+    {
+        try
+        {
+            var response = await _container.ReadItemAsync<ApiCallLog>(
+                id,
+                new PartitionKey(userId),
+                cancellationToken: ct);
+            return response.Resource;
+        }
+        catch (CosmosException ex) when (ex.StatusCode == HttpStatusCode.NotFound)
+        {
+            return null;
+        }
+    }
+
+    public async Task<ApiCallLogPage> QueryAsync(string userId, ApiCallLogQuery query, CancellationToken ct = default)
+    {
+        var sql = new StringBuilder("SELECT * FROM c WHERE c.userId = @userId");
+        var parameters = new Dictionary<string, object> { ["@userId"] = userId };
+
+        if (!string.IsNullOrEmpty(query.ApiId))
+        {
+            sql.Append(" AND c.apiId = @apiId");
+            parameters["@apiId"] = query.ApiId;
+        }
+
+        if (!string.IsNullOrEmpty(query.Source))
+        {
+            sql.Append(" AND c.source = @source");
+            parameters["@source"] = query.Source;
+        }
+
+        if (!string.IsNullOrEmpty(query.TokenId))
+        {
+            sql.Append(" AND c.tokenId = @tokenId");
+            parameters["@tokenId"] = query.TokenId;
+        }
+
+        if (query.IsSuccess.HasValue)
+        {
+            sql.Append(" AND c.isSuccess = @isSuccess");
+            parameters["@isSuccess"] = query.IsSuccess.Value;
+        }
+
+        if (!string.IsNullOrWhiteSpace(query.Search))
+        {
+            sql.Append(" AND (CONTAINS(c.operationId, @search, true) OR CONTAINS(c.path, @search, true) OR CONTAINS(c.apiName, @search, true))");
+            parameters["@search"] = query.Search.Trim();
+        }
+
+        if (query.From.HasValue)
+        {
+            sql.Append(" AND c.timestamp >= @from");
+            parameters["@from"] = query.From.Value.ToUniversalTime();
+        }
+
+        if (query.To.HasValue)
+        {
+            sql.Append(" AND c.timestamp <= @to");
+            parameters["@to"] = query.To.Value.ToUniversalTime();
+        }
+
+        sql.Append(" ORDER BY c.timestamp DESC");
+
+        var definition = new QueryDefinition(sql.ToString());
+        foreach (var (name, value) in parameters)
+        {
+            definition = definition.WithParameter(name, value);
+        }
+
+        using var iterator = _container.GetItemQueryIterator<ApiCallLog>(
+            definition,
+            string.IsNullOrEmpty(query.ContinuationToken) ? null : query.ContinuationToken,
+            new QueryRequestOptions
+            {
+                PartitionKey = new PartitionKey(userId),
+                MaxItemCount = Math.Clamp(query.PageSize, 1, Constants.CallLog.MaxPageSize)
+            });
+
+        if (!iterator.HasMoreResults)
+        {
+            return new ApiCallLogPage([], null);
+        }
+
+        var response = await iterator.ReadNextAsync(ct);
+        return new ApiCallLogPage(response.ToList(), response.ContinuationToken);
+    }
+
+    public async Task DeleteAllForUserAsync(string userId, CancellationToken ct = default)
+    {
+        var query = new QueryDefinition("SELECT VALUE c.id FROM c WHERE c.userId = @userId")
+            .WithParameter("@userId", userId);
+
+        using var iterator = _container.GetItemQueryIterator<string>(
+            query,
+            requestOptions: new QueryRequestOptions
+            {
+                PartitionKey = new PartitionKey(userId),
+                MaxItemCount = Constants.CallLog.MaxPageSize
+            });
+
+        // Delete a page at a time so large logs don't fan out into thousands of parallel requests
+        while (iterator.HasMoreResults)
+        {
+            var response = await iterator.ReadNextAsync(ct);
+            await Task.WhenAll(response.Select(id => _container.DeleteItemAsync<ApiCallLog>(
+                id,
+                new PartitionKey(userId),
+                cancellationToken: ct)));
+        }
+    }
+}
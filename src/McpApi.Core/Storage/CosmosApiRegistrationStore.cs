@@ -2,6 +2,7 @@ namespace McpApi.Core.Storage;
 
 using System.Net;
 using McpApi.Core.Models;
+using McpApi.Core.Utilities;
 using Microsoft.Azure.Cosmos;
 
 /// <summary>
@@ -57,6 +58,15 @@ public class CosmosApiRegistrationStore : IApiRegistrationStore, IAsyncDisposabl
         return await ExecuteApiQueryAsync(query, userId, ct);
     }
 
+    public async Task<IReadOnlyList<ApiRegistration>> GetScheduledForRefreshAsync(CancellationToken ct = default)
+    {
+        var query = new QueryDefinition(
+                "SELECT * FROM c WHERE c.refreshSchedule IN (@daily, @weekly) AND IS_STRING(c.specUrl)")
+            .WithParameter("@daily", Constants.SpecRefresh.ScheduleDaily)
+            .WithParameter("@weekly", Constants.SpecRefresh.ScheduleWeekly);
+        return await ExecuteApiQueryAsync(query, null, ct);
+    }
+
     public async Task<ApiRegistration> UpsertAsync(ApiRegistration registration, CancellationToken ct = default)
     {
         // Clear endpoints from the registration - they're stored separately
@@ -203,6 +213,40 @@ public class CosmosApiRegistrationStore : IApiRegistrationStore, IAsyncDisposabl
         }
     }
 
+    public async Task DeleteEndpointsAsync(string userId, string apiId, IEnumerable<string> endpointIds, CancellationToken ct = default)
+    {
+        // Delete in parallel with the same throttling as saves, so a large refresh doesn't flood Cosmos DB
+        var semaphore = new SemaphoreSlim(Constants.Cosmos.BatchConcurrency);
+        var tasks = new List<Task>();
+
+        foreach (var endpointId in endpointIds)
+        {
+            await semaphore.WaitAsync(ct);
+
+            var capturedId = endpointId;
+            tasks.Add(Task.Run(async () =>
+            {
+                try
+                {
+                    await _endpointContainer.DeleteItemAsync<ApiEndpoint>(
+                        capturedId,
+                        new PartitionKey(userId),
+                        cancellationToken: ct);
+                }
+                catch (CosmosException ex) when (ex.StatusCode == HttpStatusCode.NotFound)
+                {
+                    // Already deleted
+                }
+                finally
+                {
+                    semaphore.Release();
+                }
+            }, ct));
+        }
+
+        await Task.WhenAll(tasks);
+    }
+
     public async Task<ApiEndpoint> UpdateEndpointAsync(ApiEndpoint endpoint, CancellationToken ct = default)
     {
         var response = await _endpointContainer.UpsertItemAsync(
@@ -262,15 +306,41 @@ public class CosmosApiRegistrationStore : IApiRegistrationStore, IAsyncDisposabl
         return 0;
     }
 
+    public async Task<string> GetVersionAsync(string userId, CancellationToken ct = default)
+    {
+        // Only the ETags are read, which is far cheaper than loading the documents
+        var query = new QueryDefinition("SELECT VALUE c._etag FROM c WHERE c.userId = @userId")
+            .WithParameter("@userId", userId);
+
+        var etags = new List<string>();
+        foreach (var container in new[] { _apiContainer, _endpointContainer })
+        {
+            using var iterator = container.GetItemQueryIterator<string>(
+                query,
+                requestOptions: new QueryRequestOptions { PartitionKey = new PartitionKey(userId) });
+
+            while (iterator.HasMoreResults)
+            {
+                var response = await iterator.ReadNextAsync(ct);
+                etags.AddRange(response);
+            }
+        }
+
+        return IdGenerator.ComputeShortHash(string.Join("|", etags.Order(StringComparer.Ordinal)));
+    }
+
     private async Task<IReadOnlyList<ApiRegistration>> ExecuteApiQueryAsync(
         QueryDefinition query,
-        string userId,
+        string? userId,
         CancellationToken ct)
     {
+        // A null userId runs the query across all partitions
         var results = new List<ApiRegistration>();
         using var iterator = _apiContainer.GetItemQueryIterator<ApiRegistration>(
             query,
-            requestOptions: new QueryRequestOptions { PartitionKey = new PartitionKey(userId) });
+            requestOptions: userId != null
+                ? new QueryRequestOptions { PartitionKey = new PartitionKey(userId) }
+                : new QueryRequestOptions());
 
         while (iterator.HasMoreResults)
         {
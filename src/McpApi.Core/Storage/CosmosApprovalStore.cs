@@ -0,0 +1,116 @@
+namespace McpApi.Core.Storage;
+
+using System.Net;
+using McpApi.Core.Models;
+using Microsoft.Azure.Cosmos;
+
+/// <summary>
+/// Cosmos DB implementation of IApprovalStore.
+/// Uses userId as partition key; requests expire through their ttl property.
+/// </summary>
+public class CosmosApprovalStore : IApprovalStore
+{
+    private readonly Container _container;
+
+    public CosmosApprovalStore(CosmosClient cosmosClient, string databaseName)
+    {
+        var database = cosmosClient.GetDatabase(databaseName);
+        _container = database.GetContainer(Constants.Cosmos.Approvals);
+    }
+
+    public async Task AddAsync(ApprovalRequest approval, CancellationToken ct = default)
+    {
+        var response = await _container.CreateItemAsync(approval, new PartitionKey(approval.UserId), cancellationToken: ct);
+        approval.ETag = response.ETag;
+    }
+
+    public async Task<ApprovalRequest?> GetAsync(string userId, string id, CancellationToken ct = default)
+    {
+        try
+        {
+            var response = await _container.ReadItemAsync<ApprovalRequest>(
+                id,
+                new PartitionKey(userId),
+                cancellationToken: ct);
+            return response.Resource;
+        }
+        catch (CosmosException ex) when (ex.StatusCode == HttpStatusCode.NotFound)
+        {
+            return null;
+        }
+    }
+
+    public async Task<bool> TryUpdateAsync(ApprovalRequest approval, CancellationToken ct = default)
+    {
+        try
+        {
+            var response = await _container.ReplaceItemAsync(
+                approval,
+                approval.Id,
+                new PartitionKey(approval.UserId),
+                new ItemRequestOptions { IfMatchEtag = approval.ETag },
+                ct);
+
+            approval.ETag = response.ETag;
+            return true;
+        }
+        catch (CosmosException ex) when (ex.StatusCode is HttpStatusCode.PreconditionFailed or HttpStatusCode.NotFound)
+        {
+            return false;
+        }
+    }
+
+    public async Task<IReadOnlyList<ApprovalRequest>> QueryAsync(
+        string userId,
+        string? status = null,
+        int limit = Constants.Approvals.MaxPageSize,
+        CancellationToken ct = default)
+    {
+        var query = status == null
+            ? new QueryDefinition("SELECT * FROM c WHERE c.userId = @userId ORDER BY c.createdAt DESC")
+            : new QueryDefinition("SELECT * FROM c WHERE c.userId = @userId AND c.status = @status ORDER BY c.createdAt DESC")
+                .WithParameter("@status", status);
+        query = query.WithParameter("@userId", userId);
+
+        var max = Math.Clamp(limit, 1, Constants.Approvals.MaxPageSize);
+        using var iterator = _container.GetItemQueryIterator<ApprovalRequest>(
+            query,
+            requestOptions: new QueryRequestOptions
+            {
+                PartitionKey = new PartitionKey(userId),
+                MaxItemCount = max
+            });
+
+        var results = new List<ApprovalRequest>();
+        while (iterator.HasMoreResults && results.Count < max)
+        {
+            var response = await iterator.ReadNextAsync(ct);
+            results.AddRange(response);
+        }
+
+        return results.Take(max).ToList();
+    }
+
+    public async Task DeleteAllForUserAsync(string userId, CancellationToken ct = default)
+    {
+        var query = new QueryDefinition("SELECT VALUE c.id FROM c WHERE c.userId = @userId")
+            .WithParameter("@userId", userId);
+
+        using var iterator = _container.GetItemQueryIterator<string>(
+            query,
+            requestOptions: new QueryRequestOptions
+            {
+                PartitionKey = new PartitionKey(userId),
+                MaxItemCount = Constants.Approvals.MaxPageSize
+            });
+
+        while (iterator.HasMoreResults)
+        {
+            var response = await iterator.ReadNextAsync(ct);
+            await Task.WhenAll(response.Select(id => _container.DeleteItemAsync<ApprovalRequest>(
+                id,
+                new PartitionKey(userId),
+                cancellationToken: ct)));
+        }
+    }
+}
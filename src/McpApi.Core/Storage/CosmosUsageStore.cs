@@ -7,15 +7,18 @@ using Microsoft.Azure.Cosmos;
 /// <summary>
 /// Cosmos DB implementation of IUsageStore.
 /// Uses userId as partition key for multi-tenant isolation.
+/// Monthly records and daily breakdown records live in separate containers.
 /// </summary>
 public class CosmosUsageStore : IUsageStore
 {
     private readonly Container _container;
+    private readonly Container _dailyContainer;
 
     public CosmosUsageStore(CosmosClient cosmosClient, string databaseName)
     {
         var database = cosmosClient.GetDatabase(databaseName);
         _container = database.GetContainer(Constants.Cosmos.Usage);
+        _dailyContainer = database.GetContainer(Constants.Cosmos.UsageDaily);
     }
 
     public async Task<UsageRecord?> GetAsync(string userId, string yearMonth, CancellationToken ct = default)
@@ -107,6 +110,49 @@ public class CosmosUsageStore : IUsageStore
         return response.Resource;
     }
 
+    public async Task AddDailyUsageAsync(DailyUsageRecord usage, CancellationToken ct = default)
+    {
+        // Patch increments are atomic, so concurrent calls for the same day don't lose counts
+        if (await TryIncrementDailyUsageAsync(usage, ct))
+            return;
+
+        try
+        {
+            await _dailyContainer.CreateItemAsync(usage, new PartitionKey(usage.UserId), cancellationToken: ct);
+        }
+        catch (CosmosException ex) when (ex.StatusCode == HttpStatusCode.Conflict)
+        {
+            // Another call created the record first
+            await TryIncrementDailyUsageAsync(usage, ct);
+        }
+    }
+
+    public async Task<IReadOnlyList<DailyUsageRecord>> GetDailyRangeAsync(
+        string userId,
+        string startDate,
+        string endDate,
+        CancellationToken ct = default)
+    {
+        var query = new QueryDefinition(
+            "SELECT * FROM c WHERE c.userId = @userId AND c.date >= @start AND c.date <= @end ORDER BY c.date")
+            .WithParameter("@userId", userId)
+            .WithParameter("@start", startDate)
+            .WithParameter("@end", endDate);
+
+        var results = new List<DailyUsageRecord>();
+        using var iterator = _dailyContainer.GetItemQueryIterator<DailyUsageRecord>(
+            query,
+            requestOptions: new QueryRequestOptions { PartitionKey = new PartitionKey(userId) });
+
+        while (iterator.HasMoreResults)
+        {
+            var response = await iterator.ReadNextAsync(ct);
+            results.AddRange(response);
+        }
+
+        return results;
+    }
+
     public async Task DeleteAllForUserAsync(string userId, CancellationToken ct = default)
     {
         // Query all usage records for the user
@@ -131,5 +177,44 @@ public class CosmosUsageStore : IUsageStore
         }
 
         await Task.WhenAll(deleteTasks);
+
+        var dailyQuery = new QueryDefinition("SELECT VALUE c.id FROM c WHERE c.userId = @userId")
+            .WithParameter("@userId", userId);
+
+        using var dailyIterator = _dailyContainer.GetItemQueryIterator<string>(
+            dailyQuery,
+            requestOptions: new QueryRequestOptions { PartitionKey = new PartitionKey(userId) });
+
+        // A year of daily records can be large, so delete a page at a time
+        while (dailyIterator.HasMoreResults)
+        {
+            var response = await dailyIterator.ReadNextAsync(ct);
+            await Task.WhenAll(response.Select(id => _dailyContainer.DeleteItemAsync<DailyUsageRecord>(
+                id,
+                new PartitionKey(userId),
+                cancellationToken: ct)));
+        }
+    }
+
+    private async Task<bool> TryIncrementDailyUsageAsync(DailyUsageRecord usage, CancellationToken ct)
+    {
+        try
+        {
+            await _dailyContainer.PatchItemAsync<DailyUsageRecord>(
+                usage.Id,
+                new PartitionKey(usage.UserId),
+                [
+                    PatchOperation.Increment("/callCount", usage.CallCount),
+                    PatchOperation.Increment("/errorCount", usage.ErrorCount),
+                    PatchOperation.Increment("/totalDurationMs", usage.TotalDurationMs),
+                    PatchOperation.Set("/apiName", usage.ApiName)
+                ],
+                cancellationToken: ct);
+            return true;
+        }
+        catch (CosmosException ex) when (ex.StatusCode == HttpStatusCode.NotFound)
+        {
+            return false;
+        }
     }
 }
@@ -0,0 +1,40 @@
+namespace McpApi.Core.Storage;
+
+using McpApi.Core.Models;
+
+/// <summary>
+/// Repository interface for per-call API logs.
+/// </summary>
+public interface IApiCallLogStore
+{
+    /// <summary>Adds a log entry.</summary>
+    Task AddAsync(ApiCallLog log, CancellationToken ct = default);
+
+    /// <summary>Gets a log entry by ID for a specific user. Returns null if not found or expired.</summary>
+    Task<ApiCallLog?> GetAsync(string userId, string id, CancellationToken ct = default);
+
+    /// <summary>Gets a page of a user's log entries matching the filters, newest first.</summary>
+    Task<ApiCallLogPage> QueryAsync(string userId, ApiCallLogQuery query, CancellationToken ct = default);
+
+    /// <summary>Deletes all log entries for a user (GDPR account deletion).</summary>
+    Task DeleteAllForUserAsync(string userId, CancellationToken ct = default);
+}
+
+/// <summary>
+/// Filters and paging for a call log query. Null filters match everything.
+/// </summary>
+public record ApiCallLogQuery(
+    string? ApiId = null,
+    string? Source = null,
+    string? TokenId = null,
+    bool? IsSuccess = null,
+    string? Search = null,
+    DateTime? From = null,
+    DateTime? To = null,
+    int PageSize = Constants.CallLog.DefaultPageSize,
+    string? ContinuationToken = null);
+
+/// <summary>
+/// A page of call log entries. ContinuationToken is null on the last page.
+/// </summary>
+public record ApiCallLogPage(IReadOnlyList<ApiCallLog> Items, string? ContinuationToken);
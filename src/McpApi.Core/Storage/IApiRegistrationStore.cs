@@ -41,6 +41,9 @@ public interface IApiRegistrationStore
     /// </summary>
     Task SaveEndpointsAsync(string userId, string apiId, IEnumerable<ApiEndpoint> endpoints, CancellationToken ct = default);
 
+    /// <summary>Deletes specific endpoints of an API (e.g., those removed from the spec on refresh).</summary>
+    Task DeleteEndpointsAsync(string userId, string apiId, IEnumerable<string> endpointIds, CancellationToken ct = default);
+
     /// <summary>Updates a single endpoint.</summary>
     Task<ApiEndpoint> UpdateEndpointAsync(ApiEndpoint endpoint, CancellationToken ct = default);
 
@@ -53,6 +56,12 @@ public interface IApiRegistrationStore
     /// <summary>Searches enabled endpoints across all enabled APIs for a specific user.</summary>
     Task<IReadOnlyList<EndpointSearchResult>> SearchEndpointsAsync(string userId, string query, int limit = 20, CancellationToken ct = default);
 
+    /// <summary>Gets a version of a user's APIs and endpoints that changes whenever any of them is saved or deleted.</summary>
+    Task<string> GetVersionAsync(string userId, CancellationToken ct = default);
+
+    /// <summary>Gets API registrations of all users that have an automatic re-sync schedule (cross-partition).</summary>
+    Task<IReadOnlyList<ApiRegistration>> GetScheduledForRefreshAsync(CancellationToken ct = default);
+
     /// <summary>Gets count of API registrations for a user (for tier limits).</summary>
     Task<int> GetApiCountAsync(string userId, CancellationToken ct = default);
 
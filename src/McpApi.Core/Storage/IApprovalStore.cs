@@ -0,0 +1,30 @@
+namespace McpApi.Core.Storage;
+
+using McpApi.Core.Models;
+
+/// <summary>
+/// Repository interface for endpoint calls waiting for approval.
+/// </summary>
+public interface IApprovalStore
+{
+    /// <summary>Adds a request.</summary>
+    Task AddAsync(ApprovalRequest approval, CancellationToken ct = default);
+
+    /// <summary>Gets a request by ID for a specific user. Returns null if not found or expired.</summary>
+    Task<ApprovalRequest?> GetAsync(string userId, string id, CancellationToken ct = default);
+
+    /// <summary>
+    /// Saves a request read earlier. Returns false, without saving, when it changed since it was read.
+    /// </summary>
+    Task<bool> TryUpdateAsync(ApprovalRequest approval, CancellationToken ct = default);
+
+    /// <summary>Gets a user's requests, newest first, optionally only those with a stored status.</summary>
+    Task<IReadOnlyList<ApprovalRequest>> QueryAsync(
+        string userId,
+        string? status = null,
+        int limit = Constants.Approvals.MaxPageSize,
+        CancellationToken ct = default);
+
+    /// <summary>Deletes all requests for a user (GDPR account deletion).</summary>
+    Task DeleteAllForUserAsync(string userId, CancellationToken ct = default);
+}
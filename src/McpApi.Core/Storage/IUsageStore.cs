@@ -41,7 +41,22 @@ public interface IUsageStore
     Task<UsageRecord> UpsertAsync(UsageRecord record, CancellationToken ct = default);
 
     /// <summary>
-    /// Deletes all usage records for a user (GDPR account deletion).
+    /// Adds a call's counts to the matching daily usage record.
+    /// Creates the record if it doesn't exist.
+    /// </summary>
+    Task AddDailyUsageAsync(DailyUsageRecord usage, CancellationToken ct = default);
+
+    /// <summary>
+    /// Gets a user's daily usage records between two dates (inclusive, "YYYY-MM-DD").
+    /// </summary>
+    Task<IReadOnlyList<DailyUsageRecord>> GetDailyRangeAsync(
+        string userId,
+        string startDate,
+        string endDate,
+        CancellationToken ct = default);
+
+    /// <summary>
+    /// Deletes all usage records for a user, including daily records (GDPR account deletion).
     /// </summary>
     Task DeleteAllForUserAsync(string userId, CancellationToken ct = default);
 }
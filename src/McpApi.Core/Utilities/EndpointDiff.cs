@@ -0,0 +1,222 @@
+namespace McpApi.Core.Utilities;
+
+using System.Text.Json;
+using System.Text.Json.Nodes;
+using McpApi.Core.Http;
+using McpApi.Core.Models;
+
+/// <summary>
+/// Compares stored endpoints with a re-parsed spec so refreshes can be reviewed before they are applied.
+/// Endpoints are matched by ID, which parsers derive deterministically from the operation.
+/// </summary>
+public static class EndpointDiff
+{
+    /// <summary>
+    /// Computes the added, removed, and changed endpoints between the stored and refreshed definitions.
+    /// </summary>
+    public static EndpointChangeSet Compare(IEnumerable<ApiEndpoint> existing, IEnumerable<ApiEndpoint> refreshed)
+    {
+        var existingById = existing.DistinctBy(e => e.Id).ToDictionary(e => e.Id);
+        var refreshedList = refreshed.DistinctBy(e => e.Id).ToList();
+        var refreshedIds = refreshedList.Select(e => e.Id).ToHashSet();
+
+        var added = new List<ApiEndpoint>();
+        var changed = new List<EndpointChange>();
+        var unchangedCount = 0;
+
+        foreach (var endpoint in refreshedList)
+        {
+            if (!existingById.TryGetValue(endpoint.Id, out var previous))
+            {
+                added.Add(endpoint);
+                continue;
+            }
+
+            var changes = CompareEndpoint(previous, endpoint);
+            if (changes.Count > 0)
+            {
+                changed.Add(new EndpointChange { Previous = previous, Current = endpoint, Changes = changes });
+            }
+            else
+            {
+                unchangedCount++;
+            }
+        }
+
+        return new EndpointChangeSet
+        {
+            Added = added,
+            Removed = existingById.Values.Where(e => !refreshedIds.Contains(e.Id)).ToList(),
+            Changed = changed,
+            UnchangedCount = unchangedCount
+        };
+    }
+
+    /// <summary>
+    /// Copies user settings (enabled state, tool name override, response shaping, pagination and approval) from stored endpoints onto their refreshed versions.
+    /// </summary>
+    public static void PreserveSettings(IEnumerable<ApiEndpoint> existing, IEnumerable<ApiEndpoint> refreshed)
+    {
+        var existingById = existing.DistinctBy(e => e.Id).ToDictionary(e => e.Id);
+
+        foreach (var endpoint in refreshed)
+        {
+            if (existingById.TryGetValue(endpoint.Id, out var previous))
+            {
+                endpoint.IsEnabled = previous.IsEnabled;
+                endpoint.ToolNameOverride = previous.ToolNameOverride;
+                endpoint.ResponseShaping = previous.ResponseShaping;
+                endpoint.Pagination = previous.Pagination;
+                endpoint.RequiresApproval = previous.RequiresApproval;
+            }
+        }
+    }
+
+    private static List<EndpointFieldChange> CompareEndpoint(ApiEndpoint previous, ApiEndpoint current)
+    {
+        var changes = new List<EndpointFieldChange>();
+
+        if (!string.Equals(previous.Method, current.Method, StringComparison.OrdinalIgnoreCase) ||
+            previous.Path != current.Path)
+        {
+            changes.Add(new($"Moved from {previous.Method} {previous.Path} to {current.Method} {current.Path}", true));
+        }
+
+        if (previous.Summary != current.Summary)
+        {
+            changes.Add(new("Summary changed", false));
+        }
+
+        if (previous.Description != current.Description)
+        {
+            changes.Add(new("Description changed", false));
+        }
+
+        CompareParameters(previous.Parameters, current.Parameters, changes);
+        CompareRequestBody(previous.RequestBody, current.RequestBody, changes);
+
+        return changes;
+    }
+
+    private static void CompareParameters(
+        List<ParameterDefinition> previous,
+        List<ParameterDefinition> current,
+        List<EndpointFieldChange> changes)
+    {
+        static string Key(ParameterDefinition p) => $"{p.In}:{p.Name}".ToLowerInvariant();
+
+        var previousByKey = previous.DistinctBy(Key).ToDictionary(Key);
+        var currentByKey = current.DistinctBy(Key).ToDictionary(Key);
+
+        foreach (var (key, parameter) in previousByKey)
+        {
+            if (!currentByKey.ContainsKey(key))
+            {
+                changes.Add(new($"Parameter '{parameter.Name}' ({parameter.In}) removed", true));
+            }
+        }
+
+        foreach (var (key, parameter) in currentByKey)
+        {
+            if (!previousByKey.TryGetValue(key, out var old))
+            {
+                changes.Add(parameter.Required
+                    ? new($"Required parameter '{parameter.Name}' ({parameter.In}) added", true)
+                    : new($"Optional parameter '{parameter.Name}' ({parameter.In}) added", false));
+                continue;
+            }
+
+            if (old.Required != parameter.Required)
+            {
+                changes.Add(parameter.Required
+                    ? new($"Parameter '{parameter.Name}' is now required", true)
+                    : new($"Parameter '{parameter.Name}' is now optional", false));
+            }
+
+            if (SchemaSignature(old.Schema) != SchemaSignature(parameter.Schema))
+            {
+                changes.Add(new($"Parameter '{parameter.Name}' schema changed", true));
+            }
+
+            // Compared with defaults applied, so spelling out a location's default style is not a change
+            if (ParameterSerializer.GetStyle(old) != ParameterSerializer.GetStyle(parameter) ||
+                ParameterSerializer.GetExplode(old) != ParameterSerializer.GetExplode(parameter))
+            {
+                changes.Add(new($"Parameter '{parameter.Name}' serialization changed", true));
+            }
+        }
+    }
+
+    private static void CompareRequestBody(
+        RequestBodyDefinition? previous,
+        RequestBodyDefinition? current,
+        List<EndpointFieldChange> changes)
+    {
+        if (previous == null && current == null)
+            return;
+
+        if (previous == null)
+        {
+            changes.Add(new("Request body added", current!.Required));
+            return;
+        }
+
+        if (current == null)
+        {
+            changes.Add(new("Request body removed", true));
+            return;
+        }
+
+        if (previous.Required != current.Required)
+        {
+            changes.Add(current.Required
+                ? new("Request body is now required", true)
+                : new("Request body is now optional", false));
+        }
+
+        foreach (var (contentType, schema) in current.Content)
+        {
+            if (!previous.Content.TryGetValue(contentType, out var oldSchema))
+            {
+                changes.Add(new($"Request body content type '{contentType}' added", false));
+            }
+            else if (SchemaSignature(oldSchema) != SchemaSignature(schema))
+            {
+                changes.Add(new($"Request body schema changed ({contentType})", true));
+            }
+        }
+
+        foreach (var contentType in previous.Content.Keys.Where(k => !current.Content.ContainsKey(k)))
+        {
+            changes.Add(new($"Request body content type '{contentType}' removed", true));
+        }
+    }
+
+    /// <summary>
+    /// Serializes a schema without descriptions, so documentation-only edits are not reported as schema changes.
+    /// </summary>
+    private static string SchemaSignature(JsonSchema schema)
+    {
+        var node = JsonSerializer.SerializeToNode(schema);
+        RemoveDescriptions(node);
+        return node?.ToJsonString() ?? "";
+    }
+
+    private static void RemoveDescriptions(JsonNode? node)
+    {
+        switch (node)
+        {
+            case JsonObject obj:
+                // Only string values are descriptions; an object here is a property named "description"
+                if (obj["description"] is JsonValue)
+                    obj.Remove("description");
+                foreach (var (_, child) in obj)
+                    RemoveDescriptions(child);
+                break;
+            case JsonArray array:
+                foreach (var child in array)
+                    RemoveDescriptions(child);
+                break;
+        }
+    }
+}
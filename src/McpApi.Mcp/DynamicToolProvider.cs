@@ -2,31 +2,29 @@ namespace McpApi.Mcp;
 
 using System.ComponentModel;
 using System.Text.Json;
-using McpApi.Core.Http;
+using McpApi.Core;
 using McpApi.Core.Models;
 using McpApi.Core.Services;
 using McpApi.Core.Storage;
 using ModelContextProtocol.Server;
 
 /// <summary>
-/// Provides MCP tools dynamically from registered API specifications.
-/// All operations are scoped to the authenticated user with usage tracking.
+/// Provides MCP tools for discovering registered APIs and checking usage.
+/// Endpoints are called through their own tools (see <see cref="EndpointToolProvider"/>).
+/// All operations are scoped to the authenticated user.
 /// </summary>
 public class DynamicToolProvider
 {
     private readonly IApiRegistrationStore _store;
-    private readonly IApiClient _apiClient;
     private readonly IMcpCurrentUser _currentUser;
     private readonly IUsageTrackingService _usageTracking;
 
     public DynamicToolProvider(
         IApiRegistrationStore store,
-        IApiClient apiClient,
         IMcpCurrentUser currentUser,
         IUsageTrackingService usageTracking)
     {
         _store = store;
-        _apiClient = apiClient;
         _currentUser = currentUser;
         _usageTracking = usageTracking;
     }
@@ -43,77 +41,11 @@ public class DynamicToolProvider
             a.Id,
             a.DisplayName,
             EndpointCount = a.EnabledEndpointCount,
-            a.BaseUrl
+            a.ForEnvironment(_currentUser.DefaultEnvironment).BaseUrl
         });
         return JsonSerializer.Serialize(result, new JsonSerializerOptions { WriteIndented = true });
     }
 
-    [McpServerTool, Description("Execute a dynamic API call")]
-    public async Task<string> CallApi(
-        [Description("API ID (e.g., 'github')")] string apiId,
-        [Description("Endpoint operation ID")] string operationId,
-        [Description("Parameters as JSON object")] string? parametersJson = null,
-        CancellationToken ct = default)
-    {
-        // Check usage limits before making the call
-        try
-        {
-            await _usageTracking.CheckAndRecordApiCallAsync(UserId, UserTier, ct);
-        }
-        catch (UsageLimitExceededException ex)
-        {
-            return JsonSerializer.Serialize(new
-            {
-                error = "Usage limit exceeded",
-                limitType = ex.LimitType,
-                currentUsage = ex.CurrentUsage,
-                limit = ex.Limit,
-                message = $"You have reached your {ex.LimitType} limit ({ex.Limit}). Upgrade your plan to continue."
-            });
-        }
-
-        var api = await _store.GetAsync(UserId, apiId, ct);
-        if (api == null)
-            return JsonSerializer.Serialize(new { error = $"API '{apiId}' not found" });
-
-        // Load endpoints separately (they're stored in a different container)
-        var endpoints = await _store.GetEndpointsAsync(UserId, apiId, ct);
-        var endpoint = endpoints.FirstOrDefault(e =>
-            e.OperationId.Equals(operationId, StringComparison.OrdinalIgnoreCase) ||
-            e.Id.Equals(operationId, StringComparison.OrdinalIgnoreCase));
-
-        if (endpoint == null)
-            return JsonSerializer.Serialize(new { error = $"Endpoint '{operationId}' not found in API '{apiId}'" });
-
-        if (!endpoint.IsEnabled)
-            return JsonSerializer.Serialize(new { error = $"Endpoint '{operationId}' is disabled" });
-
-        var parameters = string.IsNullOrEmpty(parametersJson)
-            ? new Dictionary<string, object?>()
-            : JsonSerializer.Deserialize<Dictionary<string, object?>>(parametersJson) ?? new();
-
-        // Convert JsonElement values to proper types
-        var convertedParams = new Dictionary<string, object?>();
-        foreach (var (key, value) in parameters)
-        {
-            convertedParams[key] = value switch
-            {
-                JsonElement je => ConvertJsonElement(je),
-                _ => value
-            };
-        }
-
-        var response = await _apiClient.ExecuteAsync(api, endpoint, convertedParams, _currentUser.SecretContext, ct);
-
-        return JsonSerializer.Serialize(new
-        {
-            statusCode = response.StatusCode,
-            success = response.IsSuccess,
-            body = TryParseJson(response.Body),
-            headers = response.Headers
-        }, new JsonSerializerOptions { WriteIndented = true });
-    }
-
     [McpServerTool, Description("Get details about a specific API and its endpoints")]
     public async Task<string> GetApiDetails(
         [Description("API ID (e.g., 'github')")] string apiId,
@@ -126,13 +58,20 @@ public class DynamicToolProvider
         // Load endpoints separately (they're stored in a different container)
         var endpoints = await _store.GetEndpointsAsync(UserId, apiId, ct);
 
+        // Calls go to the environment this token selects, or the API's active one
+        var environment = api.ForEnvironment(_currentUser.DefaultEnvironment);
+
         var result = new
         {
             api.Id,
             api.DisplayName,
             api.Description,
-            api.BaseUrl,
-            AuthType = api.Auth.GetType().Name.Replace("Config", ""),
+            environment.BaseUrl,
+            Environment = environment.ActiveEnvironment ?? Constants.Environments.Default,
+            Environments = api.GetEnvironmentNames(),
+            // Endpoint tools take a "_server" argument to call one of these instead of the base URL
+            Servers = api.Servers.Select(s => new { s.Name, s.Url, s.Description }),
+            AuthType = environment.Auth.GetType().Name.Replace("Config", ""),
             api.IsEnabled,
             Endpoints = endpoints
                 .Where(e => e.IsEnabled)
@@ -192,35 +131,4 @@ public class DynamicToolProvider
             }
         }, new JsonSerializerOptions { WriteIndented = true });
     }
-
-    private static object? ConvertJsonElement(JsonElement element)
-    {
-        return element.ValueKind switch
-        {
-            JsonValueKind.String => element.GetString(),
-            JsonValueKind.Number => element.TryGetInt64(out var l) ? l : element.GetDouble(),
-            JsonValueKind.True => true,
-            JsonValueKind.False => false,
-            JsonValueKind.Null => null,
-            JsonValueKind.Array => element.EnumerateArray().Select(ConvertJsonElement).ToList(),
-            JsonValueKind.Object => element.EnumerateObject()
-                .ToDictionary(p => p.Name, p => ConvertJsonElement(p.Value)),
-            _ => element.GetRawText()
-        };
-    }
-
-    private static object? TryParseJson(string? body)
-    {
-        if (string.IsNullOrEmpty(body))
-            return null;
-
-        try
-        {
-            return JsonSerializer.Deserialize<JsonElement>(body);
-        }
-        catch
-        {
-            return body;
-        }
-    }
 }
@@ -0,0 +1,187 @@
+namespace McpApi.Mcp;
+
+using System.Collections.Concurrent;
+using System.Text;
+using System.Text.RegularExpressions;
+using McpApi.Core;
+using McpApi.Core.Http;
+using McpApi.Core.Models;
+using McpApi.Core.Storage;
+using McpApi.Core.Utilities;
+using ModelContextProtocol.Protocol;
+
+/// <summary>
+/// An MCP tool published for a single API endpoint.
+/// </summary>
+public record EndpointTool(Tool Tool, ApiRegistration Api, ApiEndpoint Endpoint);
+
+/// <summary>
+/// Builds the per-endpoint MCP tools for a user from their enabled APIs and endpoints.
+/// The last build per user is kept for finding tools by name; it is rebuilt whenever tools are listed
+/// or the list-changed poll finds the user's APIs changed, and expires after one poll interval otherwise.
+/// </summary>
+public partial class EndpointToolCatalog
+{
+    private readonly IApiRegistrationStore _store;
+    private readonly ConcurrentDictionary<string, CachedTools> _cache = new();
+
+    public EndpointToolCatalog(IApiRegistrationStore store)
+    {
+        _store = store;
+    }
+
+    /// <summary>
+    /// Gets one tool per enabled endpoint of each enabled API, with unique names.
+    /// </summary>
+    public async Task<IReadOnlyList<EndpointTool>> GetToolsAsync(string userId, CancellationToken ct = default)
+    {
+        var tools = await BuildToolsAsync(userId, ct);
+
+        var now = DateTime.UtcNow;
+        foreach (var (key, entry) in _cache)
+        {
+            if (entry.IsExpired(now))
+                _cache.TryRemove(key, out _);
+        }
+
+        _cache[userId] = new CachedTools(tools, now);
+        return tools;
+    }
+
+    /// <summary>
+    /// Gets a version of the user's APIs and endpoints that changes whenever any of them is saved or deleted,
+    /// which is much cheaper to read than the tools.
+    /// </summary>
+    public Task<string> GetVersionAsync(string userId, CancellationToken ct = default)
+    {
+        return _store.GetVersionAsync(userId, ct);
+    }
+
+    /// <summary>
+    /// Finds a tool by name. The name is looked up in the user's last built tools, which are only rebuilt
+    /// when they have expired or don't have the name; the tool's API and endpoint are read again, so the
+    /// call uses their current settings and credentials. Returns null if the tool is unknown or disabled.
+    /// </summary>
+    public async Task<EndpointTool?> FindToolAsync(string userId, string? name, CancellationToken ct = default)
+    {
+        if (string.IsNullOrEmpty(name))
+            return null;
+
+        var tool = _cache.TryGetValue(userId, out var cached) && !cached.IsExpired(DateTime.UtcNow)
+            ? cached.Tools.FirstOrDefault(t => t.Tool.Name == name)
+            : null;
+
+        // An endpoint enabled or renamed since the last build; a fresh build is current already
+        if (tool == null)
+            return (await GetToolsAsync(userId, ct)).FirstOrDefault(t => t.Tool.Name == name);
+
+        var api = await _store.GetAsync(userId, tool.Api.Id, ct);
+        var endpoint = await _store.GetEndpointAsync(userId, tool.Api.Id, tool.Endpoint.Id, ct);
+        if (api is not { IsEnabled: true } || endpoint is not { IsEnabled: true })
+            return null;
+
+        return tool with { Api = api, Endpoint = endpoint };
+    }
+
+    private async Task<IReadOnlyList<EndpointTool>> BuildToolsAsync(string userId, CancellationToken ct)
+    {
+        var apis = await _store.GetEnabledAsync(userId, ct);
+        var tools = new List<EndpointTool>();
+        var names = new HashSet<string>(StringComparer.Ordinal);
+
+        foreach (var api in apis.OrderBy(a => a.Id, StringComparer.Ordinal))
+        {
+            var endpoints = await _store.GetEnabledEndpointsAsync(userId, api.Id, ct);
+
+            foreach (var endpoint in endpoints.OrderBy(e => e.Id, StringComparer.Ordinal))
+            {
+                var baseName = ToValidToolName(endpoint.GetToolName(api.Id));
+                var name = baseName;
+
+                // Overrides or duplicate operation IDs can collide, and so can a suffixed name with another
+                // tool's name; keep every tool reachable
+                for (var attempt = 0; !names.Add(name); attempt++)
+                {
+                    var suffix = "-" + IdGenerator.ComputeShortHash(attempt == 0 ? endpoint.Id : $"{endpoint.Id}:{attempt}");
+                    name = Truncate(baseName, Constants.McpTools.MaxNameLength - suffix.Length) + suffix;
+                }
+
+                var tool = new Tool
+                {
+                    Name = name,
+                    Description = BuildDescription(api, endpoint),
+                    InputSchema = ToolSchemaBuilder.BuildInputSchema(endpoint, api)
+                };
+
+                tools.Add(new EndpointTool(tool, api, endpoint));
+            }
+        }
+
+        return tools;
+    }
+
+    /// <summary>
+    /// Computes a hash of the published tool definitions, used to detect tool list changes.
+    /// </summary>
+    public static string GetSignature(IEnumerable<EndpointTool> tools)
+    {
+        var builder = new StringBuilder();
+        foreach (var tool in tools)
+        {
+            builder.Append(tool.Tool.Name).Append('\n')
+                .Append(tool.Tool.Description).Append('\n')
+                .Append(tool.Tool.InputSchema.GetRawText()).Append('\n');
+        }
+
+        return IdGenerator.ComputeShortHash(builder.ToString());
+    }
+
+    private static string BuildDescription(ApiRegistration api, ApiEndpoint endpoint)
+    {
+        var builder = new StringBuilder();
+        var summary = endpoint.Summary ?? endpoint.Description;
+        if (!string.IsNullOrWhiteSpace(summary))
+        {
+            builder.AppendLine(summary.Trim());
+        }
+
+        if (!string.IsNullOrWhiteSpace(endpoint.Description) && endpoint.Description != summary)
+        {
+            builder.AppendLine().AppendLine(endpoint.Description.Trim());
+        }
+
+        if (builder.Length > 0)
+        {
+            builder.AppendLine();
+        }
+
+        builder.Append($"{endpoint.Method.ToUpperInvariant()} {endpoint.Path} ({api.DisplayName})");
+
+        if (endpoint.RequiresApproval)
+        {
+            builder.AppendLine().AppendLine()
+                .Append("Calls need a human's approval. If it isn't given in time the call returns a pending status ")
+                .Append($"with an approval ID; call again with {ToolSchemaBuilder.ApprovalArgumentName} to keep waiting.");
+        }
+
+        return builder.ToString();
+    }
+
+    private static string ToValidToolName(string name)
+    {
+        return Truncate(InvalidToolNameChars().Replace(name, "-"), Constants.McpTools.MaxNameLength);
+    }
+
+    private static string Truncate(string value, int maxLength)
+    {
+        return value.Length <= maxLength ? value : value[..maxLength];
+    }
+
+    [GeneratedRegex(@"[^A-Za-z0-9_.\-]")]
+    private static partial Regex InvalidToolNameChars();
+
+    private sealed record CachedTools(IReadOnlyList<EndpointTool> Tools, DateTime BuiltAt)
+    {
+        public bool IsExpired(DateTime now) => now - BuiltAt >= TimeSpan.FromSeconds(Constants.McpTools.ListChangedPollSeconds);
+    }
+}
@@ -0,0 +1,270 @@
+namespace McpApi.Mcp;
+
+using System.Text.Json;
+using McpApi.Core;
+using McpApi.Core.Auth;
+using McpApi.Core.Http;
+using McpApi.Core.Models;
+using McpApi.Core.Services;
+using ModelContextProtocol.Protocol;
+using ModelContextProtocol.Server;
+
+/// <summary>
+/// Handles tools/list and tools/call for the per-endpoint tools of the authenticated user.
+/// Calls are executed against the endpoint with usage tracking, recorded in the call log and shaped per endpoint.
+/// Calls to endpoints that require approval wait for a decision in the dashboard first.
+/// </summary>
+public class EndpointToolProvider
+{
+    private readonly EndpointToolCatalog _catalog;
+    private readonly IApiCallLogService _callLog;
+    private readonly IApprovalService _approvals;
+    private readonly IMcpCurrentUser _currentUser;
+    private readonly IUsageTrackingService _usageTracking;
+    private readonly ToolListChangedNotifier _notifier;
+
+    public EndpointToolProvider(
+        EndpointToolCatalog catalog,
+        IApiCallLogService callLog,
+        IApprovalService approvals,
+        IMcpCurrentUser currentUser,
+        IUsageTrackingService usageTracking,
+        ToolListChangedNotifier notifier)
+    {
+        _catalog = catalog;
+        _callLog = callLog;
+        _approvals = approvals;
+        _currentUser = currentUser;
+        _usageTracking = usageTracking;
+        _notifier = notifier;
+    }
+
+    /// <summary>How long a call waits for a decision before it is reported as pending.</summary>
+    public TimeSpan ApprovalWait { get; init; } = TimeSpan.FromSeconds(Constants.Approvals.WaitSeconds);
+
+    private string UserId => _currentUser.UserId;
+    private string UserTier => _currentUser.Tier;
+
+    public async ValueTask<ListToolsResult> ListToolsAsync(
+        RequestContext<ListToolsRequestParams> request,
+        CancellationToken ct)
+    {
+        var tools = await _catalog.GetToolsAsync(UserId, ct);
+
+        // Watch this session so it hears about endpoints being toggled later
+        _notifier.Track(request.Server, UserId, EndpointToolCatalog.GetSignature(tools));
+
+        return new ListToolsResult { Tools = tools.Select(t => t.Tool).ToList() };
+    }
+
+    public ValueTask<CallToolResult> CallToolAsync(
+        RequestContext<CallToolRequestParams> request,
+        CancellationToken ct)
+    {
+        return CallToolAsync(request.Params?.Name, request.Params?.Arguments, ct);
+    }
+
+    /// <summary>
+    /// Calls the endpoint behind a tool with the arguments the client sent.
+    /// </summary>
+    public async ValueTask<CallToolResult> CallToolAsync(
+        string? name,
+        IEnumerable<KeyValuePair<string, JsonElement>>? arguments,
+        CancellationToken ct = default)
+    {
+        var tool = await _catalog.FindToolAsync(UserId, name, ct);
+
+        if (tool == null)
+            return ErrorResult(new { error = $"Tool '{name}' not found or its endpoint is disabled" });
+
+        var context = new ApiCallContext(
+            UserId, Constants.CallLog.SourceMcp, _currentUser.TokenId, _currentUser.DefaultEnvironment);
+
+        ApprovalRequest? approved = null;
+        if (tool.Endpoint.RequiresApproval)
+        {
+            (approved, var result) = await WaitForApprovalAsync(tool, context, arguments, ct);
+            if (approved == null)
+                return result!;
+
+            // Make the call that was approved, not whatever was passed alongside the approval ID
+            arguments = JsonSerializer.Deserialize<Dictionary<string, JsonElement>>(approved.Arguments);
+            context = context with { Environment = approved.Environment };
+        }
+
+        // Check usage limits before making the call
+        try
+        {
+            await _usageTracking.CheckAndRecordApiCallAsync(UserId, UserTier, ct);
+        }
+        catch (UsageLimitExceededException ex)
+        {
+            return ErrorResult(new
+            {
+                error = "Usage limit exceeded",
+                limitType = ex.LimitType,
+                currentUsage = ex.CurrentUsage,
+                limit = ex.Limit,
+                message = $"You have reached your {ex.LimitType} limit ({ex.Limit}). Upgrade your plan to continue."
+            });
+        }
+
+        // Only now is the approval used up, so a call refused above can be retried with it
+        if (approved != null && !await _approvals.TryStartExecutionAsync(approved, ct))
+            return AlreadyExecutedResult(approved);
+
+        var parameters = ToolArguments.ToParameters(arguments);
+
+        ApiResponse response;
+        try
+        {
+            response = await _callLog.ExecuteAndLogAsync(context, tool.Api, tool.Endpoint, parameters, _currentUser.SecretContext, ct);
+        }
+        catch (ArgumentException ex)
+        {
+            // Missing or invalid arguments, reported so the model can correct the call
+            return ErrorResult(new { error = ex.Message });
+        }
+        catch (HttpRequestException ex)
+        {
+            // Timeouts, network errors and open circuits, after any retries
+            return ErrorResult(new { error = "Request to the API failed", details = ex.Message });
+        }
+        catch (OAuth2NotConnectedException ex)
+        {
+            // Nothing the model can fix; the user has to connect the account in the dashboard
+            return ErrorResult(new { error = ex.Message });
+        }
+
+        var content = new List<ContentBlock>
+        {
+            new TextContentBlock { Text = ResponseShaper.ToToolOutput(response, tool.Endpoint.ResponseShaping) }
+        };
+
+        if (response.BinaryBody != null)
+        {
+            content.Add(ToBinaryContent(response, response.BinaryBody));
+        }
+
+        return new CallToolResult
+        {
+            Content = content,
+            IsError = !response.IsSuccess
+        };
+    }
+
+    // Parks a new call, or picks up the one named by _approvalId, and waits a while for its decision.
+    // Returns the approval once it is approved, or the result to return instead.
+    private async Task<(ApprovalRequest? Approved, CallToolResult? Result)> WaitForApprovalAsync(
+        EndpointTool tool,
+        ApiCallContext context,
+        IEnumerable<KeyValuePair<string, JsonElement>>? arguments,
+        CancellationToken ct)
+    {
+        var approvalId = arguments?.FirstOrDefault(a => a.Key == ToolSchemaBuilder.ApprovalArgumentName).Value;
+
+        ApprovalRequest? approval;
+        if (approvalId is { ValueKind: JsonValueKind.String } id)
+        {
+            approval = await _approvals.GetAsync(UserId, id.GetString()!, ct);
+            if (approval == null || approval.ApiId != tool.Api.Id || approval.EndpointId != tool.Endpoint.Id)
+                return (null, ErrorResult(new { error = $"Approval '{id.GetString()}' not found for this tool" }));
+        }
+        else
+        {
+            var requested = (arguments ?? [])
+                .Where(a => a.Key != ToolSchemaBuilder.ApprovalArgumentName)
+                .ToDictionary(a => a.Key, a => a.Value);
+            approval = await _approvals.RequestAsync(
+                context, tool.Api, tool.Endpoint, tool.Tool.Name, JsonSerializer.Serialize(requested), ct);
+        }
+
+        approval = await _approvals.WaitForDecisionAsync(approval, ApprovalWait, ct);
+
+        switch (approval.GetStatus(DateTime.UtcNow))
+        {
+            case Constants.Approvals.StatusPending:
+                var pending = new
+                {
+                    status = Constants.Approvals.StatusPending,
+                    approvalId = approval.Id,
+                    expiresAt = approval.ExpiresAt,
+                    message = "This call is waiting for approval in the dashboard. " +
+                              $"Call the tool again with {ToolSchemaBuilder.ApprovalArgumentName} set to this ID to wait for the decision."
+                };
+
+                // Not an error: the call is queued and the model should check back
+                return (null, new CallToolResult
+                {
+                    Content = [new TextContentBlock { Text = JsonSerializer.Serialize(pending) }],
+                    IsError = false
+                });
+
+            case Constants.Approvals.StatusApproved:
+                return (approval, null);
+
+            case Constants.Approvals.StatusRejected:
+                return (null, ErrorResult(new
+                {
+                    status = Constants.Approvals.StatusRejected,
+                    approvalId = approval.Id,
+                    error = "The call was rejected and was not made",
+                    reason = approval.DecisionNote
+                }));
+
+            case Constants.Approvals.StatusExpired:
+                return (null, ErrorResult(new
+                {
+                    status = Constants.Approvals.StatusExpired,
+                    approvalId = approval.Id,
+                    error = "The request expired before the call was made"
+                }));
+
+            default:
+                return (null, AlreadyExecutedResult(approval));
+        }
+    }
+
+    // Executed, or approved but taken by a concurrent call
+    private static CallToolResult AlreadyExecutedResult(ApprovalRequest approval)
+    {
+        return ErrorResult(new
+        {
+            status = Constants.Approvals.StatusExecuted,
+            approvalId = approval.Id,
+            error = "The approved call was already made; make a new call to repeat it"
+        });
+    }
+
+    // Images and audio are returned as such; other binary bodies (PDFs, archives...) as an embedded resource
+    private static ContentBlock ToBinaryContent(ApiResponse response, byte[] body)
+    {
+        var data = Convert.ToBase64String(body);
+        var mimeType = response.ContentType ?? Constants.MediaTypes.OctetStream;
+
+        if (mimeType.StartsWith("image/", StringComparison.OrdinalIgnoreCase))
+            return new ImageContentBlock { Data = data, MimeType = mimeType };
+
+        if (mimeType.StartsWith("audio/", StringComparison.OrdinalIgnoreCase))
+            return new AudioContentBlock { Data = data, MimeType = mimeType };
+
+        return new EmbeddedResourceBlock
+        {
+            Resource = new BlobResourceContents
+            {
+                Uri = response.Request?.Url ?? "",
+                MimeType = mimeType,
+                Blob = data
+            }
+        };
+    }
+
+    private static CallToolResult ErrorResult(object error)
+    {
+        return new CallToolResult
+        {
+            Content = [new TextContentBlock { Text = JsonSerializer.Serialize(error) }],
+            IsError = true
+        };
+    }
+}
@@ -1,5 +1,6 @@
 namespace McpApi.Mcp;
 
+using System.Security.Claims;
 using McpApi.Core.Auth;
 using McpApi.Core.Models;
 using McpApi.Core.Secrets;
@@ -7,7 +8,8 @@ using McpApi.Core.Storage;
 
 /// <summary>
 /// Service for accessing the current MCP user context.
-/// Supports token-based authentication via MCPAPI_TOKEN environment variable.
+/// Supports token-based authentication via MCPAPI_TOKEN environment variable (stdio)
+/// or the Authorization header of each request (HTTP).
 /// </summary>
 public interface IMcpCurrentUser
 {
@@ -27,6 +29,18 @@ public interface IMcpCurrentUser
     /// May be null if encryption is not configured.
     /// </summary>
     UserSecretContext? SecretContext { get; }
+
+    /// <summary>
+    /// Gets the ID of the MCP token the user authenticated with.
+    /// Null when not authenticated with a token.
+    /// </summary>
+    string? TokenId { get; }
+
+    /// <summary>
+    /// Gets the environment the token selects for APIs that define it.
+    /// Null when each API's active environment applies.
+    /// </summary>
+    string? DefaultEnvironment { get; }
 }
 
 /// <summary>
@@ -38,6 +52,8 @@ public class TokenMcpCurrentUser : IMcpCurrentUser
     private readonly string _userId;
     private readonly string _tier;
     private readonly UserSecretContext? _secretContext;
+    private readonly string _tokenId;
+    private readonly string? _defaultEnvironment;
 
     public TokenMcpCurrentUser(
         IMcpTokenService tokenService,
@@ -60,6 +76,8 @@ public class TokenMcpCurrentUser : IMcpCurrentUser
         }
 
         _userId = validatedToken.UserId;
+        _tokenId = validatedToken.Id;
+        _defaultEnvironment = validatedToken.DefaultEnvironment;
 
         // Load user details to get tier and encryption salt
         var user = userStore.GetByIdAsync(_userId).GetAwaiter().GetResult();
@@ -81,6 +99,43 @@ public class TokenMcpCurrentUser : IMcpCurrentUser
     public string UserId => _userId;
     public string Tier => _tier;
     public UserSecretContext? SecretContext => _secretContext;
+    public string? TokenId => _tokenId;
+    public string? DefaultEnvironment => _defaultEnvironment;
+}
+
+/// <summary>
+/// HTTP transport implementation that reads the user from the claims of the current request.
+/// Claims are set by <see cref="McpTokenAuthenticationHandler"/>.
+/// </summary>
+public class HttpContextMcpCurrentUser : IMcpCurrentUser
+{
+    private readonly IHttpContextAccessor _httpContextAccessor;
+
+    public HttpContextMcpCurrentUser(IHttpContextAccessor httpContextAccessor)
+    {
+        _httpContextAccessor = httpContextAccessor;
+    }
+
+    private ClaimsPrincipal User => _httpContextAccessor.HttpContext?.User
+        ?? throw new InvalidOperationException("No HTTP request is associated with the current MCP call.");
+
+    public string UserId => User.FindFirst(ClaimTypes.NameIdentifier)?.Value
+        ?? throw new InvalidOperationException("The MCP request is not authenticated.");
+
+    public string Tier => User.FindFirst(McpTokenAuthenticationHandler.TierClaim)?.Value ?? "free";
+
+    public UserSecretContext? SecretContext
+    {
+        get
+        {
+            var salt = User.FindFirst(McpTokenAuthenticationHandler.EncryptionSaltClaim)?.Value;
+            return string.IsNullOrEmpty(salt) ? null : new UserSecretContext(UserId, salt);
+        }
+    }
+
+    public string? TokenId => User.FindFirst(McpTokenAuthenticationHandler.TokenIdClaim)?.Value;
+
+    public string? DefaultEnvironment => User.FindFirst(McpTokenAuthenticationHandler.EnvironmentClaim)?.Value;
 }
 
 /// <summary>
@@ -113,4 +168,6 @@ public class EnvironmentMcpCurrentUser : IMcpCurrentUser
     public string UserId => _userId;
     public string Tier => _tier;
     public UserSecretContext? SecretContext => _secretContext;
+    public string? TokenId => null;
+    public string? DefaultEnvironment => null;
 }
@@ -0,0 +1,79 @@
+namespace McpApi.Mcp;
+
+using System.Security.Claims;
+using System.Text.Encodings.Web;
+using McpApi.Core.Auth;
+using McpApi.Core.Storage;
+using Microsoft.AspNetCore.Authentication;
+using Microsoft.Extensions.Options;
+
+/// <summary>
+/// Authenticates HTTP transport requests with an MCP token sent as "Authorization: Bearer mcp_...".
+/// The token ID and default environment and the user's tier and encryption salt are carried as claims for <see cref="HttpContextMcpCurrentUser"/>.
+/// </summary>
+public class McpTokenAuthenticationHandler : AuthenticationHandler<AuthenticationSchemeOptions>
+{
+    public const string SchemeName = "McpToken";
+    public const string TierClaim = "tier";
+    public const string EncryptionSaltClaim = "encryption_salt";
+    public const string TokenIdClaim = "token_id";
+    public const string EnvironmentClaim = "environment";
+
+    private readonly IMcpTokenService _tokenService;
+    private readonly IUserStore _userStore;
+
+    public McpTokenAuthenticationHandler(
+        IOptionsMonitor<AuthenticationSchemeOptions> options,
+        ILoggerFactory logger,
+        UrlEncoder encoder,
+        IMcpTokenService tokenService,
+        IUserStore userStore)
+        : base(options, logger, encoder)
+    {
+        _tokenService = tokenService;
+        _userStore = userStore;
+    }
+
+    protected override async Task<AuthenticateResult> HandleAuthenticateAsync()
+    {
+        var header = Request.Headers.Authorization.ToString();
+        if (!header.StartsWith("Bearer ", StringComparison.OrdinalIgnoreCase))
+            return AuthenticateResult.NoResult();
+
+        var token = header["Bearer ".Length..].Trim();
+        var validatedToken = await _tokenService.ValidateTokenAsync(token, Context.RequestAborted);
+        if (validatedToken == null)
+            return AuthenticateResult.Fail("Invalid or expired MCP token");
+
+        var user = await _userStore.GetByIdAsync(validatedToken.UserId, Context.RequestAborted);
+        if (user == null)
+            return AuthenticateResult.Fail("User account not found for token");
+
+        var claims = new List<Claim>
+        {
+            new(ClaimTypes.NameIdentifier, user.Id),
+            new(TierClaim, user.Tier),
+            new(TokenIdClaim, validatedToken.Id)
+        };
+
+        if (!string.IsNullOrEmpty(user.EncryptionKeySalt))
+        {
+            claims.Add(new Claim(EncryptionSaltClaim, user.EncryptionKeySalt));
+        }
+
+        if (!string.IsNullOrEmpty(validatedToken.DefaultEnvironment))
+        {
+            claims.Add(new Claim(EnvironmentClaim, validatedToken.DefaultEnvironment));
+        }
+
+        var principal = new ClaimsPrincipal(new ClaimsIdentity(claims, SchemeName));
+        return AuthenticateResult.Success(new AuthenticationTicket(principal, SchemeName));
+    }
+
+    protected override Task HandleChallengeAsync(AuthenticationProperties properties)
+    {
+        Response.StatusCode = StatusCodes.Status401Unauthorized;
+        Response.Headers.WWWAuthenticate = "Bearer";
+        return Task.CompletedTask;
+    }
+}
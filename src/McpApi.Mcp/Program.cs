@@ -4,12 +4,20 @@ using McpApi.Core.Secrets;
 using McpApi.Core.Services;
 using McpApi.Core.Storage;
 using McpApi.Mcp;
+using Microsoft.AspNetCore.Authentication;
 using Microsoft.Azure.Cosmos;
 using Microsoft.Extensions.DependencyInjection;
 using Microsoft.Extensions.Hosting;
 using ModelContextProtocol.Server;
 
-var builder = Host.CreateApplicationBuilder(args);
+// MCPAPI_TRANSPORT=http hosts streamable HTTP and legacy SSE for remote clients;
+// otherwise a local stdio server runs for the user of MCPAPI_TOKEN
+var useHttpTransport = string.Equals(
+    Environment.GetEnvironmentVariable("MCPAPI_TRANSPORT"), "http", StringComparison.OrdinalIgnoreCase);
+
+IHostApplicationBuilder builder = useHttpTransport
+    ? WebApplication.CreateBuilder(args)
+    : Host.CreateApplicationBuilder(args);
 
 // Configure Cosmos DB
 var cosmosConnectionString = builder.Configuration["Cosmos:ConnectionString"]
@@ -51,7 +59,9 @@ builder.Services.AddSingleton<IAuthHandlerFactory>(sp =>
 {
     var secretResolver = sp.GetRequiredService<ISecretResolver>();
     var httpClientFactory = sp.GetRequiredService<IHttpClientFactory>();
-    return new AuthHandlerFactory(secretResolver, httpClientFactory);
+    var apiStore = sp.GetRequiredService<IApiRegistrationStore>();
+    var logger = sp.GetRequiredService<ILogger<AuthHandlerFactory>>();
+    return new AuthHandlerFactory(secretResolver, httpClientFactory, apiStore, logger);
 });
 builder.Services.AddSingleton<IApiClient, DynamicApiClient>();
 
@@ -82,6 +92,24 @@ builder.Services.AddSingleton<IUsageTrackingService>(sp =>
     return new UsageTrackingService(usageStore, apiStore);
 });
 
+// Configure call log
+builder.Services.AddSingleton<IApiCallLogStore>(sp =>
+{
+    var cosmosClient = sp.GetRequiredService<CosmosClient>();
+    return new CosmosApiCallLogStore(cosmosClient, databaseName);
+});
+
+builder.Services.AddSingleton<IApiCallLogService, ApiCallLogService>();
+
+// Configure approvals for endpoints that require them
+builder.Services.AddSingleton<IApprovalStore>(sp =>
+{
+    var cosmosClient = sp.GetRequiredService<CosmosClient>();
+    return new CosmosApprovalStore(cosmosClient, databaseName);
+});
+
+builder.Services.AddSingleton<IApprovalService, ApprovalService>();
+
 // Configure user store for token validation
 builder.Services.AddSingleton<IUserStore>(sp =>
 {
@@ -102,31 +130,50 @@ builder.Services.AddSingleton<IMcpTokenService>(sp =>
     return new McpTokenService(tokenStore);
 });
 
-// User context for multi-tenancy with token-based authentication
-// Uses MCPAPI_TOKEN if set, otherwise falls back to MCPAPI_USER_ID for development
-builder.Services.AddSingleton<IMcpCurrentUser>(sp =>
+if (useHttpTransport)
 {
-    var token = Environment.GetEnvironmentVariable("MCPAPI_TOKEN");
-    if (!string.IsNullOrEmpty(token))
-    {
-        // Production: Use token-based authentication
-        var tokenService = sp.GetRequiredService<IMcpTokenService>();
-        var userStore = sp.GetRequiredService<IUserStore>();
-        return new TokenMcpCurrentUser(tokenService, userStore);
-    }
-    else
+    // Each request is authenticated by the MCP token in its Authorization header
+    builder.Services.AddHttpContextAccessor();
+    builder.Services.AddScoped<IMcpCurrentUser, HttpContextMcpCurrentUser>();
+    builder.Services
+        .AddAuthentication(McpTokenAuthenticationHandler.SchemeName)
+        .AddScheme<AuthenticationSchemeOptions, McpTokenAuthenticationHandler>(McpTokenAuthenticationHandler.SchemeName, null);
+    builder.Services.AddAuthorization();
+}
+else
+{
+    // User context for multi-tenancy with token-based authentication
+    // Uses MCPAPI_TOKEN if set, otherwise falls back to MCPAPI_USER_ID for development
+    builder.Services.AddSingleton<IMcpCurrentUser>(sp =>
     {
-        // Development fallback: Use environment variables
-        #pragma warning disable CS0618 // Obsolete warning suppressed for development mode
-        return new EnvironmentMcpCurrentUser();
-        #pragma warning restore CS0618
-    }
-});
+        var token = Environment.GetEnvironmentVariable("MCPAPI_TOKEN");
+        if (!string.IsNullOrEmpty(token))
+        {
+            // Production: Use token-based authentication
+            var tokenService = sp.GetRequiredService<IMcpTokenService>();
+            var userStore = sp.GetRequiredService<IUserStore>();
+            return new TokenMcpCurrentUser(tokenService, userStore);
+        }
+        else
+        {
+            // Development fallback: Use environment variables
+            #pragma warning disable CS0618 // Obsolete warning suppressed for development mode
+            return new EnvironmentMcpCurrentUser();
+            #pragma warning restore CS0618
+        }
+    });
+}
 
 builder.Services.AddScoped<DynamicToolProvider>();
 
+// One tool per enabled endpoint, with list_changed notifications when endpoints are toggled
+builder.Services.AddSingleton<EndpointToolCatalog>();
+builder.Services.AddSingleton<ToolListChangedNotifier>();
+builder.Services.AddHostedService(sp => sp.GetRequiredService<ToolListChangedNotifier>());
+builder.Services.AddScoped<EndpointToolProvider>();
+
 // Configure MCP Server
-builder.Services
+var mcpServer = builder.Services
     .AddMcpServer(options =>
     {
         options.ServerInfo = new()
@@ -134,8 +181,32 @@ builder.Services
             Name = "McpApi",
             Version = "1.0.0"
         };
+        options.Capabilities = new()
+        {
+            Tools = new() { ListChanged = true }
+        };
     })
-    .WithStdioServerTransport()
+    .WithListToolsHandler((request, ct) =>
+        request.Services!.GetRequiredService<EndpointToolProvider>().ListToolsAsync(request, ct))
+    .WithCallToolHandler((request, ct) =>
+        request.Services!.GetRequiredService<EndpointToolProvider>().CallToolAsync(request, ct))
     .WithTools<DynamicToolProvider>();
 
-await builder.Build().RunAsync();
+if (!useHttpTransport)
+{
+    mcpServer.WithStdioServerTransport();
+    await ((HostApplicationBuilder)builder).Build().RunAsync();
+    return;
+}
+
+mcpServer.WithHttpTransport();
+
+var app = ((WebApplicationBuilder)builder).Build();
+
+app.UseAuthentication();
+app.UseAuthorization();
+
+// Streamable HTTP at /mcp, legacy SSE at /mcp/sse
+app.MapMcp("/mcp").RequireAuthorization();
+
+await app.RunAsync();
@@ -0,0 +1,102 @@
+namespace McpApi.Mcp;
+
+using System.Collections.Concurrent;
+using System.Runtime.CompilerServices;
+using McpApi.Core;
+using Microsoft.Extensions.Hosting;
+using Microsoft.Extensions.Logging;
+using ModelContextProtocol.Protocol;
+using ModelContextProtocol.Server;
+
+/// <summary>
+/// Sends notifications/tools/list_changed to sessions whose tool list no longer matches what they last listed.
+/// Endpoints are toggled from the web app, so changes are detected by polling the store. A user's tools are only
+/// rebuilt when the version of their APIs and endpoints changed, or one of their sessions listed tools, since the
+/// last check. Sessions are held weakly, so ended sessions drop out once they are collected.
+/// </summary>
+public class ToolListChangedNotifier : BackgroundService
+{
+    private readonly ConditionalWeakTable<McpServer, TrackedSession> _sessions = new();
+    private readonly ConcurrentDictionary<string, string> _checkedVersions = new();
+    private readonly EndpointToolCatalog _catalog;
+    private readonly ILogger<ToolListChangedNotifier> _logger;
+
+    public ToolListChangedNotifier(EndpointToolCatalog catalog, ILogger<ToolListChangedNotifier> logger)
+    {
+        _catalog = catalog;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Records the tool list signature a session was last given.
+    /// </summary>
+    public void Track(McpServer server, string userId, string signature)
+    {
+        _sessions.AddOrUpdate(server, new TrackedSession(userId, signature));
+
+        // The list may have been built before a change the last check already saw
+        _checkedVersions.TryRemove(userId, out _);
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        using var timer = new PeriodicTimer(TimeSpan.FromSeconds(Constants.McpTools.ListChangedPollSeconds));
+
+        while (await timer.WaitForNextTickAsync(stoppingToken))
+        {
+            try
+            {
+                await NotifyChangedSessionsAsync(stoppingToken);
+            }
+            catch (Exception ex) when (ex is not OperationCanceledException)
+            {
+                _logger.LogError(ex, "Tool list change check failed");
+            }
+        }
+    }
+
+    private async Task NotifyChangedSessionsAsync(CancellationToken ct)
+    {
+        var sessions = _sessions.ToArray();
+        foreach (var userId in _checkedVersions.Keys.Except(sessions.Select(s => s.Value.UserId)))
+        {
+            _checkedVersions.TryRemove(userId, out _);
+        }
+
+        // Sessions of the same user share one lookup
+        foreach (var userSessions in sessions.GroupBy(s => s.Value.UserId))
+        {
+            // Read before the tools, so a change made while they are built is seen by the next check
+            var version = await _catalog.GetVersionAsync(userSessions.Key, ct);
+            if (_checkedVersions.TryGetValue(userSessions.Key, out var checkedVersion) && checkedVersion == version)
+                continue;
+
+            var tools = await _catalog.GetToolsAsync(userSessions.Key, ct);
+            var signature = EndpointToolCatalog.GetSignature(tools);
+
+            foreach (var (server, session) in userSessions)
+            {
+                if (session.Signature == signature)
+                    continue;
+
+                try
+                {
+                    await server.SendNotificationAsync(NotificationMethods.ToolListChangedNotification, cancellationToken: ct);
+
+                    // Avoid notifying again before the client re-lists
+                    _sessions.AddOrUpdate(server, session with { Signature = signature });
+                }
+                catch (Exception ex) when (ex is not OperationCanceledException)
+                {
+                    // The session has ended; stop watching it
+                    _logger.LogDebug(ex, "Dropping MCP session of user {UserId} from tool list tracking", session.UserId);
+                    _sessions.Remove(server);
+                }
+            }
+
+            _checkedVersions[userSessions.Key] = version;
+        }
+    }
+
+    private sealed record TrackedSession(string UserId, string Signature);
+}
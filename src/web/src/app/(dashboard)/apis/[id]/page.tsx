@@ -3,14 +3,36 @@
 import { useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { useApi, useApiEndpoints, useToggleApi, useToggleEndpoint, useDeleteApi, useRefreshApi } from '@/hooks/use-apis';
+import {
+  useApi,
+  useApiEndpoints,
+  useToggleApi,
+  useToggleEndpoint,
+  useDeleteApi,
+  useRefreshApi,
+  useUpdateApi,
+} from '@/hooks/use-apis';
 import { EndpointTable } from '@/components/dashboard/endpoint-table';
+import { AuthSettingsCard } from '@/components/dashboard/auth-settings-card';
+import { RefreshDiffCard } from '@/components/dashboard/refresh-diff-card';
+import { ResilienceSettingsCard } from '@/components/dashboard/resilience-settings-card';
+import { ServerSettingsCard } from '@/components/dashboard/server-settings-card';
+import { EnvironmentSettingsCard } from '@/components/dashboard/environment-settings-card';
+import { WebhooksCard } from '@/components/dashboard/webhooks-card';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -23,6 +45,7 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 import {
+  AlertCircle,
   ArrowLeft,
   ExternalLink,
   RefreshCw,
@@ -30,6 +53,7 @@ import {
   Search,
   Loader2,
 } from 'lucide-react';
+import type { ApiRefreshDiff, RefreshSchedule } from '@/lib/api';
 
 export default function ApiDetailPage() {
   const params = useParams();
@@ -42,10 +66,13 @@ export default function ApiDetailPage() {
   const toggleEndpoint = useToggleEndpoint();
   const deleteApi = useDeleteApi();
   const refreshApi = useRefreshApi();
+  const updateApi = useUpdateApi();
 
   const [search, setSearch] = useState('');
   const [isDeleting, setIsDeleting] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [refreshDiff, setRefreshDiff] = useState<ApiRefreshDiff | null>(null);
+  const [refreshError, setRefreshError] = useState<string | null>(null);
 
   const filteredEndpoints = endpoints?.filter(
     (endpoint) =>
@@ -58,6 +85,10 @@ export default function ApiDetailPage() {
     toggleApi.mutate({ id, enabled });
   };
 
+  const handleScheduleChange = (refreshSchedule: RefreshSchedule) => {
+    updateApi.mutate({ id, data: { refreshSchedule } });
+  };
+
   const handleToggleEndpoint = (endpointId: string, enabled: boolean) => {
     toggleEndpoint.mutate({ apiId: id, endpointId, enabled });
   };
@@ -74,8 +105,12 @@ export default function ApiDetailPage() {
 
   const handleRefresh = async () => {
     setIsRefreshing(true);
+    setRefreshError(null);
     try {
-      await refreshApi.mutateAsync(id);
+      setRefreshDiff(await refreshApi.mutateAsync(id));
+    } catch (err) {
+      const axiosError = err as { response?: { data?: { error?: string } } };
+      setRefreshError(axiosError.response?.data?.error || 'Failed to refresh the spec');
     } finally {
       setIsRefreshing(false);
     }
@@ -105,6 +140,9 @@ export default function ApiDetailPage() {
     );
   }
 
+  // Undefined while calls use the default environment
+  const activeEnvironment = api.environments?.find((e) => e.name === api.activeEnvironment);
+
   return (
     <div className="space-y-6">
       <div className="flex items-center gap-4">
@@ -138,9 +176,9 @@ export default function ApiDetailPage() {
             <div>
               <p className="text-sm font-medium text-muted-foreground">Base URL</p>
               <div className="flex items-center gap-2">
-                <p className="font-mono text-sm">{api.baseUrl}</p>
+                <p className="font-mono text-sm">{activeEnvironment?.baseUrl ?? api.baseUrl}</p>
                 <a
-                  href={api.baseUrl}
+                  href={activeEnvironment?.baseUrl ?? api.baseUrl}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="text-muted-foreground hover:text-foreground"
@@ -151,7 +189,7 @@ export default function ApiDetailPage() {
             </div>
             <div>
               <p className="text-sm font-medium text-muted-foreground">Authentication</p>
-              <Badge variant="outline">{api.authType}</Badge>
+              <Badge variant="outline">{activeEnvironment?.auth.authType ?? api.authType}</Badge>
             </div>
             <div>
               <p className="text-sm font-medium text-muted-foreground">Endpoints</p>
@@ -161,10 +199,36 @@ export default function ApiDetailPage() {
               <p className="text-sm font-medium text-muted-foreground">Registered</p>
               <p>{new Date(api.createdAt).toLocaleDateString()}</p>
             </div>
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">Last Refreshed</p>
+              <p>{new Date(api.lastRefreshed).toLocaleString()}</p>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">Automatic Refresh</p>
+              <Select
+                value={api.refreshSchedule}
+                onValueChange={(value) => handleScheduleChange(value as RefreshSchedule)}
+                disabled={!api.specUrl || updateApi.isPending}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="off">Off</SelectItem>
+                  <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                {api.specUrl
+                  ? 'Changes are held here for you to review, and you are emailed when new ones are found.'
+                  : 'Only available for APIs registered from a spec URL.'}
+              </p>
+            </div>
           </div>
 
           <div className="flex gap-2 pt-4 border-t">
-            <Button variant="outline" onClick={handleRefresh} disabled={isRefreshing}>
+            <Button variant="outline" onClick={handleRefresh} disabled={isRefreshing || !!refreshDiff?.changeSetId}>
               {isRefreshing ? (
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
               ) : (
@@ -206,6 +270,67 @@ export default function ApiDetailPage() {
         </CardContent>
       </Card>
 
+      {api.pendingChanges && !refreshDiff && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+            <span>
+              A refresh on {new Date(api.pendingChanges.detectedAt).toLocaleString()} found changes to the
+              spec: {api.pendingChanges.addedCount} added, {api.pendingChanges.removedCount} removed,{' '}
+              {api.pendingChanges.changedCount} changed
+              {api.pendingChanges.hasBreakingChanges && ', including breaking changes'}. Nothing has been applied yet.
+            </span>
+            <Button size="sm" variant="outline" onClick={handleRefresh} disabled={isRefreshing}>
+              {isRefreshing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Review Changes
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {refreshError && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{refreshError}</AlertDescription>
+        </Alert>
+      )}
+
+      {refreshDiff && (
+        <RefreshDiffCard
+          key={refreshDiff.changeSetId ?? 'up-to-date'}
+          apiId={id}
+          diff={refreshDiff}
+          onClose={() => setRefreshDiff(null)}
+        />
+      )}
+
+      <EnvironmentSettingsCard
+        key={api.activeEnvironment ?? 'default'}
+        apiId={id}
+        baseUrl={api.baseUrl}
+        environments={api.environments ?? []}
+        activeEnvironment={api.activeEnvironment}
+      />
+
+      <AuthSettingsCard
+        key={`auth-${activeEnvironment?.name ?? 'default'}`}
+        apiId={id}
+        auth={activeEnvironment?.auth ?? api.auth}
+        environment={activeEnvironment?.name}
+      />
+
+      {api.servers?.length > 0 && (
+        <ServerSettingsCard
+          apiId={id}
+          baseUrl={api.baseUrl}
+          servers={api.servers}
+          selectedServer={api.selectedServer}
+          serverVariables={api.serverVariables}
+        />
+      )}
+
+      <ResilienceSettingsCard apiId={id} resilience={api.resilience} />
+
       <Card>
         <CardHeader>
           <CardTitle>Endpoints</CardTitle>
@@ -236,10 +361,13 @@ export default function ApiDetailPage() {
                 isEnabled: e.isEnabled,
               })) || []}
               onToggle={handleToggleEndpoint}
+              apiId={id}
             />
           )}
         </CardContent>
       </Card>
+
+      {api.webhooks?.length > 0 && <WebhooksCard webhooks={api.webhooks} />}
     </div>
   );
 }
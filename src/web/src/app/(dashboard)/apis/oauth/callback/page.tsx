@@ -0,0 +1,125 @@
+'use client';
+
+import { Suspense, useEffect, useRef, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { useCompleteOAuth } from '@/hooks/use-apis';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, CheckCircle2, Loader2, XCircle } from 'lucide-react';
+
+function OAuthCallbackContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const completeOAuth = useCompleteOAuth();
+  const [status, setStatus] = useState<'processing' | 'success' | 'error'>('processing');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // Authorization codes are single-use, so never exchange twice (e.g. on a strict-mode re-run)
+  const startedRef = useRef(false);
+
+  const { mutateAsync } = completeOAuth;
+
+  useEffect(() => {
+    if (startedRef.current) return;
+    startedRef.current = true;
+
+    const errorParam = searchParams.get('error');
+    const code = searchParams.get('code');
+    const state = searchParams.get('state');
+
+    const fail = (message: string) => {
+      queueMicrotask(() => {
+        setStatus('error');
+        setErrorMessage(message);
+      });
+    };
+
+    if (errorParam) {
+      fail(searchParams.get('error_description') || errorParam);
+      return;
+    }
+
+    if (!code || !state) {
+      fail('No authorization code received from the provider');
+      return;
+    }
+
+    // Remove the code from the address bar and history
+    window.history.replaceState(null, '', window.location.pathname);
+
+    mutateAsync({ code, state })
+      .then((api) => {
+        setStatus('success');
+        router.push(`/apis/${api.id}`);
+      })
+      .catch((err) => {
+        const axiosError = err as { response?: { data?: { error?: string; details?: string } } };
+        const data = axiosError.response?.data;
+        setStatus('error');
+        setErrorMessage(
+          data?.error
+            ? data.details ? `${data.error}: ${data.details}` : data.error
+            : 'Failed to complete authorization'
+        );
+      });
+  }, [searchParams, mutateAsync, router]);
+
+  return (
+    <Card>
+      <CardHeader className="space-y-1">
+        <CardTitle className="text-2xl text-center">
+          {status === 'processing' && 'Connecting account...'}
+          {status === 'success' && 'Account connected'}
+          {status === 'error' && 'Authorization Failed'}
+        </CardTitle>
+        <CardDescription className="text-center">
+          {status === 'processing' && 'Please wait while we store your authorization.'}
+          {status === 'success' && 'Your API can now act on your behalf.'}
+          {status === 'error' && 'We could not connect your account.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col items-center py-8">
+        {status === 'processing' && (
+          <Loader2 className="h-12 w-12 animate-spin text-primary" />
+        )}
+        {status === 'success' && (
+          <>
+            <CheckCircle2 className="h-12 w-12 text-green-600 mb-4" />
+            <p className="text-sm text-muted-foreground">Redirecting to your API...</p>
+          </>
+        )}
+        {status === 'error' && (
+          <>
+            <XCircle className="h-12 w-12 text-destructive mb-4" />
+            {errorMessage && (
+              <Alert variant="destructive" className="mb-4">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{errorMessage}</AlertDescription>
+              </Alert>
+            )}
+            <Button asChild>
+              <Link href="/apis">Back to APIs</Link>
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function OAuthCallbackPage() {
+  return (
+    <div className="max-w-sm mx-auto py-12">
+      <Suspense fallback={
+        <Card>
+          <CardContent className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </CardContent>
+        </Card>
+      }>
+        <OAuthCallbackContent />
+      </Suspense>
+    </div>
+  );
+}
@@ -1,103 +1,237 @@
 'use client';
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { useRegisterApi } from '@/hooks/use-apis';
+import { usePreviewApi, useRegisterApi } from '@/hooks/use-apis';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { EndpointTable } from '@/components/dashboard/endpoint-table';
+import { EndpointSelector } from '@/components/dashboard/endpoint-selector';
 import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from '@/components/ui/select';
-import { AlertCircle, ArrowLeft, Loader2 } from 'lucide-react';
+  AuthConfigFields,
+  authFormValuesFrom,
+  toUpdateAuthRequest,
+  validateAuthForm,
+  type AuthFormValues,
+} from '@/components/forms/auth-config-fields';
+import { SpecUploadField } from '@/components/forms/spec-upload-field';
+import { AlertCircle, ArrowLeft, ArrowRight, Check, FileUp, Link2, Loader2 } from 'lucide-react';
 import Link from 'next/link';
+import { cn } from '@/lib/utils';
+import type { ApiPreview } from '@/lib/api';
 
-const registerSchema = z.object({
-  name: z.string().min(1, 'Name is required'),
-  specUrl: z.string().url('Please enter a valid URL'),
+const sourceSchema = z.object({
+  displayName: z.string().optional(),
+  baseUrl: z.string().url('Please enter a valid URL'),
+  specUrl: z.string().url('Please enter a valid URL').optional().or(z.literal('')),
   description: z.string().optional(),
-  authType: z.enum(['none', 'apiKey', 'bearer', 'basic', 'oauth2']),
-  apiKey: z.string().optional(),
-  apiKeyHeader: z.string().optional(),
-  bearerToken: z.string().optional(),
-  basicUsername: z.string().optional(),
-  basicPassword: z.string().optional(),
 });
 
-type RegisterFormData = z.infer<typeof registerSchema>;
-
-interface RegisterApiPayload {
-  name: string;
-  specUrl: string;
-  description?: string;
-  authType: string;
-  apiKey?: string;
-  apiKeyHeader?: string;
-  bearerToken?: string;
-  basicUsername?: string;
-  basicPassword?: string;
+type SourceFormData = z.infer<typeof sourceSchema>;
+
+// Uploaded or pasted specs keep their content so the same spec is registered after preview
+type SpecSource = SourceFormData & { content?: string };
+
+const steps = [
+  { id: 'source', label: 'Source' },
+  { id: 'preview', label: 'Preview' },
+  { id: 'auth', label: 'Authentication' },
+  { id: 'endpoints', label: 'Endpoints' },
+  { id: 'confirm', label: 'Confirm' },
+] as const;
+
+type Step = (typeof steps)[number]['id'];
+
+const authTypeLabels: Record<string, string> = {
+  none: 'No Authentication',
+  apiKey: 'API Key',
+  bearer: 'Bearer Token',
+  basic: 'Basic Auth',
+  oauth2: 'OAuth 2.0',
+};
+
+function getErrorMessage(err: unknown, fallback: string) {
+  const axiosError = err as { response?: { data?: { error?: string; details?: string } } };
+  const data = axiosError.response?.data;
+  if (!data?.error) return fallback;
+  return data.details ? `${data.error}: ${data.details}` : data.error;
+}
+
+function StepIndicator({ current }: { current: Step }) {
+  const currentIndex = steps.findIndex((s) => s.id === current);
+
+  return (
+    <ol className="flex items-center gap-2 text-sm">
+      {steps.map((step, index) => (
+        <li key={step.id} className="flex items-center gap-2">
+          <span
+            className={cn(
+              'flex h-6 w-6 items-center justify-center rounded-full border text-xs',
+              index < currentIndex && 'bg-primary text-primary-foreground border-primary',
+              index === currentIndex && 'border-primary text-primary',
+              index > currentIndex && 'text-muted-foreground'
+            )}
+          >
+            {index < currentIndex ? <Check className="h-3 w-3" /> : index + 1}
+          </span>
+          <span
+            className={cn(
+              'hidden sm:inline',
+              index === currentIndex ? 'font-medium' : 'text-muted-foreground'
+            )}
+          >
+            {step.label}
+          </span>
+          {index < steps.length - 1 && <span className="text-muted-foreground">/</span>}
+        </li>
+      ))}
+    </ol>
+  );
 }
 
 export default function RegisterApiPage() {
   const router = useRouter();
+  const previewApi = usePreviewApi();
   const registerApi = useRegisterApi();
+
+  const [step, setStep] = useState<Step>('source');
   const [error, setError] = useState<string | null>(null);
+  const [sourceMode, setSourceMode] = useState<'url' | 'file'>('url');
+  const [specContent, setSpecContent] = useState('');
+  const [specFileName, setSpecFileName] = useState<string | null>(null);
+  const [source, setSource] = useState<SpecSource | null>(null);
+  const [preview, setPreview] = useState<ApiPreview | null>(null);
+  const [authValues, setAuthValues] = useState<AuthFormValues>(authFormValuesFrom());
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [filter, setFilter] = useState('');
+  const [authWarning, setAuthWarning] = useState<{ apiId: string; message: string } | null>(null);
 
   const {
     register,
     handleSubmit,
-    watch,
     setValue,
-    formState: { errors, isSubmitting },
-  } = useForm<RegisterFormData>({
-    resolver: zodResolver(registerSchema),
-    defaultValues: {
-      authType: 'none',
-    },
+    formState: { errors },
+  } = useForm<SourceFormData>({
+    resolver: zodResolver(sourceSchema),
   });
 
-  const authType = watch('authType');
+  const filteredEndpoints = useMemo(() => {
+    if (!preview) return [];
+    const query = filter.trim().toLowerCase();
+    return preview.endpoints
+      .filter(
+        (e) =>
+          !query ||
+          e.path.toLowerCase().includes(query) ||
+          e.method.toLowerCase().includes(query) ||
+          e.summary?.toLowerCase().includes(query) ||
+          e.tags.some((tag) => tag.toLowerCase().includes(query))
+      );
+  }, [preview, filter]);
+
+  const endpointLimit = preview?.maxEndpointsPerApi ?? null;
+  const excessCount = endpointLimit === null ? 0 : selectedIds.size - endpointLimit;
+  const overLimit = excessCount > 0;
+
+  const goTo = (next: Step) => {
+    setError(null);
+    setStep(next);
+  };
 
-  const onSubmit = async (data: RegisterFormData) => {
+  const onSourceSubmit = async (data: SourceFormData) => {
     setError(null);
+
+    const next: SpecSource = sourceMode === 'file'
+      ? { ...data, specUrl: undefined, content: specContent }
+      : data;
+
+    if (sourceMode === 'file' && !specContent.trim()) {
+      setError('Upload or paste a specification');
+      return;
+    }
+
     try {
-      const payload: RegisterApiPayload = {
-        name: data.name,
-        specUrl: data.specUrl,
-        description: data.description,
-        authType: data.authType,
-      };
-
-      if (data.authType === 'apiKey') {
-        payload.apiKey = data.apiKey;
-        payload.apiKeyHeader = data.apiKeyHeader || 'X-API-Key';
-      } else if (data.authType === 'bearer') {
-        payload.bearerToken = data.bearerToken;
-      } else if (data.authType === 'basic') {
-        payload.basicUsername = data.basicUsername;
-        payload.basicPassword = data.basicPassword;
+      const result = await previewApi.mutateAsync(
+        next.content !== undefined
+          ? { baseUrl: next.baseUrl, content: next.content }
+          : { baseUrl: next.baseUrl, specUrl: next.specUrl || undefined }
+      );
+      setSource(next);
+      setPreview(result);
+      setAuthValues(authFormValuesFrom(result.auth));
+      setSelectedIds(new Set(result.endpoints.map((e) => e.id)));
+      setFilter('');
+      setStep('preview');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load API specification'));
+    }
+  };
+
+  const onAuthNext = () => {
+    const validationError = validateAuthForm(authValues);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    goTo('endpoints');
+  };
+
+  const onEndpointsNext = () => {
+    if (selectedIds.size === 0) {
+      setError('Select at least one endpoint');
+      return;
+    }
+    if (overLimit) {
+      setError(`Your plan allows ${endpointLimit} endpoints per API. Deselect ${excessCount} to continue.`);
+      return;
+    }
+    goTo('confirm');
+  };
+
+  const setFilteredSelected = (selected: boolean) => {
+    const next = new Set(selectedIds);
+    filteredEndpoints.forEach((e) => (selected ? next.add(e.id) : next.delete(e.id)));
+    setSelectedIds(next);
+  };
+
+  const onConfirm = async () => {
+    if (!source || !preview) return;
+    setError(null);
+    try {
+      const result = await registerApi.mutateAsync({
+        request: {
+          baseUrl: source.baseUrl,
+          ...(source.content !== undefined
+            ? { content: source.content }
+            : { specUrl: source.specUrl || undefined }),
+          displayName: source.displayName?.trim() || undefined,
+          description: source.description?.trim() || undefined,
+          selectedEndpointIds: Array.from(selectedIds),
+        },
+        auth: toUpdateAuthRequest(authValues),
+      });
+
+      if (result.authError) {
+        setAuthWarning({ apiId: result.api.id, message: result.authError });
+        return;
       }
 
-      await registerApi.mutateAsync(payload);
-      router.push('/apis');
+      router.push(`/apis/${result.api.id}`);
     } catch (err) {
-      const axiosError = err as { response?: { data?: { error?: string } } };
-      setError(axiosError.response?.data?.error || 'Failed to register API');
+      setError(getErrorMessage(err, 'Failed to register API'));
     }
   };
 
   return (
-    <div className="max-w-2xl mx-auto space-y-6">
+    <div className="max-w-3xl mx-auto space-y-6">
       <div className="flex items-center gap-4">
         <Button variant="ghost" size="icon" asChild>
           <Link href="/apis">
@@ -112,156 +246,353 @@ export default function RegisterApiPage() {
         </div>
       </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>API Details</CardTitle>
-          <CardDescription>
-            Provide the OpenAPI specification URL and authentication details
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
-            {error && (
-              <Alert variant="destructive">
-                <AlertCircle className="h-4 w-4" />
-                <AlertDescription>{error}</AlertDescription>
-              </Alert>
-            )}
-
-            <div className="space-y-2">
-              <Label htmlFor="name">API Name</Label>
-              <Input
-                id="name"
-                placeholder="My API"
-                {...register('name')}
-              />
-              {errors.name && (
-                <p className="text-sm text-destructive">{errors.name.message}</p>
-              )}
-            </div>
+      <StepIndicator current={step} />
 
-            <div className="space-y-2">
-              <Label htmlFor="specUrl">OpenAPI Specification URL</Label>
-              <Input
-                id="specUrl"
-                placeholder="https://api.example.com/openapi.json"
-                {...register('specUrl')}
-              />
-              {errors.specUrl && (
-                <p className="text-sm text-destructive">{errors.specUrl.message}</p>
-              )}
-              <p className="text-xs text-muted-foreground">
-                Supports OpenAPI 3.x, Swagger 2.0, and Postman Collections
-              </p>
-            </div>
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
 
-            <div className="space-y-2">
-              <Label htmlFor="description">Description (optional)</Label>
-              <Textarea
-                id="description"
-                placeholder="A brief description of what this API does"
-                {...register('description')}
-              />
-            </div>
+      {step === 'source' && (
+        <Card>
+          <CardHeader>
+            <CardTitle>API Source</CardTitle>
+            <CardDescription>
+              {sourceMode === 'url'
+                ? 'Point to the API and its specification. If no spec URL is given, common locations are tried.'
+                : 'Upload or paste a specification that is not reachable on a public URL.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit(onSourceSubmit)} className="space-y-6">
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={sourceMode === 'url' ? 'default' : 'outline'}
+                  onClick={() => setSourceMode('url')}
+                >
+                  <Link2 className="mr-2 h-4 w-4" />
+                  From URL
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={sourceMode === 'file' ? 'default' : 'outline'}
+                  onClick={() => {
+                    // A hidden, invalid spec URL would otherwise block submission
+                    setValue('specUrl', '');
+                    setSourceMode('file');
+                  }}
+                >
+                  <FileUp className="mr-2 h-4 w-4" />
+                  Upload or Paste
+                </Button>
+              </div>
 
-            <div className="space-y-2">
-              <Label>Authentication Type</Label>
-              <Select
-                value={authType}
-                onValueChange={(value) => setValue('authType', value as RegisterFormData['authType'])}
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder="Select authentication type" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="none">No Authentication</SelectItem>
-                  <SelectItem value="apiKey">API Key</SelectItem>
-                  <SelectItem value="bearer">Bearer Token</SelectItem>
-                  <SelectItem value="basic">Basic Auth</SelectItem>
-                  <SelectItem value="oauth2">OAuth 2.0</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
+              <div className="space-y-2">
+                <Label htmlFor="baseUrl">Base URL</Label>
+                <Input
+                  id="baseUrl"
+                  placeholder="https://api.example.com"
+                  {...register('baseUrl')}
+                />
+                {errors.baseUrl && (
+                  <p className="text-sm text-destructive">{errors.baseUrl.message}</p>
+                )}
+                {sourceMode === 'file' && (
+                  <p className="text-xs text-muted-foreground">
+                    Required for uploaded specs. Tool calls are sent to this URL.
+                  </p>
+                )}
+              </div>
 
-            {authType === 'apiKey' && (
-              <div className="space-y-4 p-4 rounded-lg border bg-muted/50">
+              {sourceMode === 'url' ? (
                 <div className="space-y-2">
-                  <Label htmlFor="apiKey">API Key</Label>
+                  <Label htmlFor="specUrl">Specification URL (optional)</Label>
                   <Input
-                    id="apiKey"
-                    type="password"
-                    placeholder="Your API key"
-                    {...register('apiKey')}
+                    id="specUrl"
+                    placeholder="https://api.example.com/openapi.json"
+                    {...register('specUrl')}
                   />
+                  {errors.specUrl && (
+                    <p className="text-sm text-destructive">{errors.specUrl.message}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    Supports OpenAPI 3.x, Swagger 2.0, Postman Collections, and GraphQL
+                  </p>
                 </div>
+              ) : (
                 <div className="space-y-2">
-                  <Label htmlFor="apiKeyHeader">Header Name</Label>
-                  <Input
-                    id="apiKeyHeader"
-                    placeholder="X-API-Key"
-                    {...register('apiKeyHeader')}
+                  <Label>Specification</Label>
+                  <SpecUploadField
+                    content={specContent}
+                    fileName={specFileName}
+                    onChange={(content, fileName) => {
+                      setSpecContent(content);
+                      setSpecFileName(fileName);
+                    }}
+                    onError={setError}
                   />
                 </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="displayName">API Name (optional)</Label>
+                <Input
+                  id="displayName"
+                  placeholder="Defaults to the title in the specification"
+                  {...register('displayName')}
+                />
               </div>
-            )}
 
-            {authType === 'bearer' && (
-              <div className="space-y-4 p-4 rounded-lg border bg-muted/50">
-                <div className="space-y-2">
-                  <Label htmlFor="bearerToken">Bearer Token</Label>
-                  <Input
-                    id="bearerToken"
-                    type="password"
-                    placeholder="Your bearer token"
-                    {...register('bearerToken')}
-                  />
-                </div>
+              <div className="space-y-2">
+                <Label htmlFor="description">Description (optional)</Label>
+                <Textarea
+                  id="description"
+                  placeholder="A brief description of what this API does"
+                  {...register('description')}
+                />
               </div>
-            )}
 
-            {authType === 'basic' && (
-              <div className="space-y-4 p-4 rounded-lg border bg-muted/50">
-                <div className="space-y-2">
-                  <Label htmlFor="basicUsername">Username</Label>
-                  <Input
-                    id="basicUsername"
-                    placeholder="Username"
-                    {...register('basicUsername')}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="basicPassword">Password</Label>
-                  <Input
-                    id="basicPassword"
-                    type="password"
-                    placeholder="Password"
-                    {...register('basicPassword')}
-                  />
-                </div>
+              <div className="flex gap-4">
+                <Button type="submit" disabled={previewApi.isPending}>
+                  {previewApi.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Load Specification
+                  {!previewApi.isPending && <ArrowRight className="ml-2 h-4 w-4" />}
+                </Button>
+                <Button type="button" variant="outline" asChild>
+                  <Link href="/apis">Cancel</Link>
+                </Button>
               </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === 'preview' && preview && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{source?.displayName?.trim() || preview.displayName}</CardTitle>
+            <CardDescription>
+              {source?.description?.trim() || preview.description || 'No description provided'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {preview.alreadyRegistered && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  This API is already registered.{' '}
+                  <Link href={`/apis/${preview.id}`} className="underline">
+                    View it
+                  </Link>{' '}
+                  or refresh it from its page instead.
+                </AlertDescription>
+              </Alert>
             )}
 
-            {authType === 'oauth2' && (
+            <div className="grid gap-4 md:grid-cols-2">
+              <div>
+                <p className="text-sm text-muted-foreground">Base URL</p>
+                <p className="font-mono text-sm break-all">{preview.baseUrl}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Format</p>
+                <p className="text-sm">
+                  {preview.openApiVersion}
+                  {preview.apiVersion && ` (v${preview.apiVersion})`}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Detected Authentication</p>
+                <Badge variant="secondary">
+                  {authTypeLabels[preview.auth.authType] || preview.auth.authType}
+                </Badge>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Endpoints</p>
+                <p className="text-sm">{preview.endpoints.length}</p>
+              </div>
+            </div>
+
+            {endpointLimit !== null && preview.endpoints.length > endpointLimit && (
               <Alert>
                 <AlertCircle className="h-4 w-4" />
                 <AlertDescription>
-                  OAuth 2.0 configuration requires additional setup. Please contact support.
+                  This API has {preview.endpoints.length} endpoints, but your plan keeps up to{' '}
+                  {endpointLimit} per API. You will choose which ones to keep in the Endpoints step.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="max-h-96 overflow-y-auto">
+              <EndpointTable endpoints={preview.endpoints} />
+            </div>
+
+            <div className="flex gap-4">
+              <Button variant="outline" onClick={() => goTo('source')}>
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back
+              </Button>
+              <Button onClick={() => goTo('auth')} disabled={preview.alreadyRegistered}>
+                Next
+                <ArrowRight className="ml-2 h-4 w-4" />
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === 'auth' && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Authentication</CardTitle>
+            <CardDescription>
+              Credentials are encrypted before they are stored and are never shown again
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <AuthConfigFields values={authValues} onChange={setAuthValues} />
+
+            <div className="flex gap-4">
+              <Button variant="outline" onClick={() => goTo('preview')}>
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back
+              </Button>
+              <Button onClick={onAuthNext}>
+                Next
+                <ArrowRight className="ml-2 h-4 w-4" />
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === 'endpoints' && preview && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Endpoints</CardTitle>
+            <CardDescription>
+              Choose which endpoints to keep as MCP tools ({selectedIds.size} of{' '}
+              {preview.endpoints.length} selected
+              {endpointLimit !== null && `, limit ${endpointLimit}`}). Endpoints you leave out
+              are not saved.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <Input
+                placeholder="Filter by method, path, summary or tag"
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+              />
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => setFilteredSelected(true)}>
+                  Select all
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setFilteredSelected(false)}>
+                  Clear
+                </Button>
+              </div>
+            </div>
+
+            {overLimit && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  {selectedIds.size} endpoints selected, but your plan allows {endpointLimit} per
+                  API. Deselect {excessCount} to continue.
                 </AlertDescription>
               </Alert>
             )}
 
+            <div className="max-h-[32rem] overflow-y-auto">
+              <EndpointSelector
+                endpoints={filteredEndpoints}
+                selectedIds={selectedIds}
+                onChange={setSelectedIds}
+              />
+            </div>
+
             <div className="flex gap-4">
-              <Button type="submit" disabled={isSubmitting}>
-                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                Register API
+              <Button variant="outline" onClick={() => goTo('auth')}>
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back
               </Button>
-              <Button type="button" variant="outline" asChild>
-                <Link href="/apis">Cancel</Link>
+              <Button onClick={onEndpointsNext} disabled={overLimit}>
+                Next
+                <ArrowRight className="ml-2 h-4 w-4" />
               </Button>
             </div>
-          </form>
-        </CardContent>
-      </Card>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === 'confirm' && preview && source && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Confirm</CardTitle>
+            <CardDescription>Review the registration before saving it</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {authWarning && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  The API was registered, but its credentials could not be saved: {authWarning.message}.{' '}
+                  <Link href={`/apis/${authWarning.apiId}`} className="underline">
+                    Open the API
+                  </Link>{' '}
+                  to configure authentication.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div>
+                <p className="text-sm text-muted-foreground">Name</p>
+                <p className="text-sm">{source.displayName?.trim() || preview.displayName}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Base URL</p>
+                <p className="font-mono text-sm break-all">{preview.baseUrl}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Authentication</p>
+                <Badge variant="secondary">{authTypeLabels[authValues.authType]}</Badge>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Endpoints Kept</p>
+                <p className="text-sm">
+                  {selectedIds.size} of {preview.endpoints.length}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex gap-4">
+              {authWarning ? (
+                <Button asChild>
+                  <Link href={`/apis/${authWarning.apiId}`}>Go to API</Link>
+                </Button>
+              ) : (
+                <>
+                  <Button variant="outline" onClick={() => goTo('endpoints')}>
+                    <ArrowLeft className="mr-2 h-4 w-4" />
+                    Back
+                  </Button>
+                  <Button onClick={onConfirm} disabled={registerApi.isPending}>
+                    {registerApi.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Register API
+                  </Button>
+                </>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
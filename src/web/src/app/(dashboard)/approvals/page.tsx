@@ -0,0 +1,75 @@
+'use client';
+
+import { useState } from 'react';
+import { useApprovals } from '@/hooks/use-approvals';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ApprovalCard } from '@/components/dashboard/approval-card';
+import { ShieldCheck } from 'lucide-react';
+import type { ApprovalFilter } from '@/lib/api';
+
+const filters: { value: ApprovalFilter; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'executed', label: 'Executed' },
+  { value: 'approved', label: 'Approved, not yet made' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: 'expired', label: 'Expired' },
+  { value: 'all', label: 'All' },
+];
+
+export default function ApprovalsPage() {
+  const [status, setStatus] = useState<ApprovalFilter>('pending');
+  const { data: approvals, isLoading } = useApprovals(status);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Approvals</h1>
+          <p className="text-muted-foreground">
+            Tool calls from MCP clients and the playground to endpoints that require approval wait here until you approve or reject them
+          </p>
+        </div>
+
+        <Select value={status} onValueChange={(v) => setStatus(v as ApprovalFilter)}>
+          <SelectTrigger className="w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {filters.map((filter) => (
+              <SelectItem key={filter.value} value={filter.value}>
+                {filter.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <Skeleton key={i} className="h-40" />
+          ))}
+        </div>
+      ) : !approvals?.length ? (
+        <div className="text-center py-12 text-muted-foreground">
+          <ShieldCheck className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>{status === 'pending' ? 'No calls are waiting for approval' : 'No requests match this filter'}</p>
+          <p className="text-sm">Turn on &quot;Require approval&quot; for an endpoint in its API&apos;s endpoint list.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {approvals.map((approval) => (
+            <ApprovalCard key={approval.id} approval={approval} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
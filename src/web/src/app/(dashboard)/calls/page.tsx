@@ -0,0 +1,256 @@
+'use client';
+
+import { useState } from 'react';
+import { useCallLogs } from '@/hooks/use-usage';
+import { useApis } from '@/hooks/use-apis';
+import { useTokens } from '@/hooks/use-tokens';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { CallLogDrawer, sourceLabels } from '@/components/dashboard/call-log-drawer';
+import { cn } from '@/lib/utils';
+import { History, Loader2, Search } from 'lucide-react';
+import type { CallLogFilters, CallLogSource } from '@/lib/api';
+
+const ALL = 'all';
+
+const timeRanges: { value: string; label: string; hours?: number }[] = [
+  { value: ALL, label: 'Last 30 days' },
+  { value: '1h', label: 'Last hour', hours: 1 },
+  { value: '24h', label: 'Last 24 hours', hours: 24 },
+  { value: '7d', label: 'Last 7 days', hours: 24 * 7 },
+];
+
+export default function CallLogPage() {
+  const { data: apis } = useApis();
+  const { data: tokens } = useTokens();
+  const [filters, setFilters] = useState<CallLogFilters>({});
+  const [timeRange, setTimeRange] = useState(ALL);
+  const [searchInput, setSearchInput] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useCallLogs(filters);
+
+  const calls = data?.pages.flatMap((page) => page.items) ?? [];
+
+  const setFilter = <K extends keyof CallLogFilters>(key: K, value: CallLogFilters[K] | typeof ALL) => {
+    setFilters({ ...filters, [key]: value === ALL ? undefined : value });
+  };
+
+  const handleTimeRange = (value: string) => {
+    setTimeRange(value);
+    const hours = timeRanges.find((range) => range.value === value)?.hours;
+    // Computed once here so the query key stays stable between renders
+    setFilters({
+      ...filters,
+      from: hours ? new Date(Date.now() - hours * 60 * 60 * 1000).toISOString() : undefined,
+    });
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters({ ...filters, search: searchInput.trim() || undefined });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Call Log</h1>
+        <p className="text-muted-foreground">
+          Every API call made through MCP clients, the playground and try-it, kept for 30 days
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Recent Calls
+          </CardTitle>
+          <CardDescription>Select a call to see its request and response</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            <form onSubmit={handleSearch} className="flex min-w-[240px] flex-1 gap-2">
+              <Input
+                placeholder="Search operation, path or API"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+              />
+              <Button type="submit" variant="outline" size="icon">
+                <Search className="h-4 w-4" />
+              </Button>
+            </form>
+
+            <Select value={filters.apiId ?? ALL} onValueChange={(v) => setFilter('apiId', v)}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All APIs</SelectItem>
+                {apis?.map((api) => (
+                  <SelectItem key={api.id} value={api.id}>
+                    {api.displayName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={filters.source ?? ALL}
+              onValueChange={(v) => setFilter('source', v as CallLogSource)}
+            >
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All sources</SelectItem>
+                {Object.entries(sourceLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={filters.tokenId ?? ALL} onValueChange={(v) => setFilter('tokenId', v)}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All tokens</SelectItem>
+                {tokens?.map((token) => (
+                  <SelectItem key={token.id} value={token.id}>
+                    {token.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={filters.status ?? ALL}
+              onValueChange={(v) => setFilter('status', v as CallLogFilters['status'])}
+            >
+              <SelectTrigger className="w-[130px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Any status</SelectItem>
+                <SelectItem value="success">Success</SelectItem>
+                <SelectItem value="error">Error</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <Select value={timeRange} onValueChange={handleTimeRange}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {timeRanges.map((range) => (
+                  <SelectItem key={range.value} value={range.value}>
+                    {range.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isLoading ? (
+            <div className="space-y-2">
+              {[...Array(5)].map((_, i) => (
+                <Skeleton key={i} className="h-10" />
+              ))}
+            </div>
+          ) : calls.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <History className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No calls match these filters</p>
+            </div>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Endpoint</TableHead>
+                    <TableHead>API</TableHead>
+                    <TableHead>Source</TableHead>
+                    <TableHead className="text-right">Status</TableHead>
+                    <TableHead className="text-right">Latency</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {calls.map((call) => (
+                    <TableRow
+                      key={call.id}
+                      className="cursor-pointer"
+                      onClick={() => setSelectedId(call.id)}
+                    >
+                      <TableCell className="whitespace-nowrap text-muted-foreground">
+                        {new Date(call.timestamp).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-mono text-xs">
+                          <span className="font-semibold">{call.method}</span> {call.path}
+                        </div>
+                        <div className="text-xs text-muted-foreground">{call.operationId}</div>
+                      </TableCell>
+                      <TableCell>{call.apiName}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">{sourceLabels[call.source] ?? call.source}</Badge>
+                        {call.tokenName && (
+                          <div className="mt-1 text-xs text-muted-foreground">{call.tokenName}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Badge
+                          variant="outline"
+                          className={cn(
+                            'font-mono',
+                            call.isSuccess
+                              ? 'bg-green-500/10 text-green-600 border-green-500/20'
+                              : 'bg-red-500/10 text-red-600 border-red-500/20'
+                          )}
+                        >
+                          {call.statusCode ?? 'Failed'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-xs">{call.durationMs} ms</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {hasNextPage && (
+                <div className="flex justify-center">
+                  <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                    {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Load more
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <CallLogDrawer callId={selectedId} onClose={() => setSelectedId(null)} />
+    </div>
+  );
+}
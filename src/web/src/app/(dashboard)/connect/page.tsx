@@ -0,0 +1,117 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useCreateToken } from '@/hooks/use-tokens';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ClientConnection } from '@/components/dashboard/client-connection';
+import { AlertCircle, AlertTriangle, Loader2, Plus } from 'lucide-react';
+
+export default function ConnectPage() {
+  const createToken = useCreateToken();
+  const [token, setToken] = useState('');
+  const [tokenName, setTokenName] = useState('');
+  const [created, setCreated] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    if (!tokenName.trim()) return;
+    setError(null);
+    try {
+      const result = await createToken.mutateAsync({ name: tokenName });
+      setToken(result.plaintextToken);
+      setTokenName('');
+      setCreated(true);
+    } catch {
+      setError('Failed to create token');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Connect a Client</h1>
+        <p className="text-muted-foreground">
+          Generate configuration for your MCP client to use your registered APIs
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>1. Token</CardTitle>
+          <CardDescription>
+            Paste an existing token or create a new one for this client. Tokens can be revoked on the{' '}
+            <Link href="/tokens" className="underline underline-offset-4">
+              Tokens
+            </Link>{' '}
+            page.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="token">MCP Token</Label>
+            <Input
+              id="token"
+              placeholder="mcp_..."
+              className="font-mono"
+              value={token}
+              onChange={(e) => {
+                setToken(e.target.value);
+                setCreated(false);
+              }}
+            />
+          </div>
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="tokenName">Or create a new token</Label>
+              <Input
+                id="tokenName"
+                placeholder="e.g., Claude Desktop"
+                value={tokenName}
+                onChange={(e) => setTokenName(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleCreate} disabled={!tokenName.trim() || createToken.isPending}>
+              {createToken.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Plus className="mr-2 h-4 w-4" />
+              )}
+              Create
+            </Button>
+          </div>
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          {created && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                Token created and added to the configuration below. Copy it now - you won&apos;t see it again.
+              </AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>2. Client Configuration</CardTitle>
+          <CardDescription>
+            Choose your client, copy the configuration, then test the connection
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ClientConnection token={token} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import Link from 'next/link';
+import { usePlaygroundChat, usePlaygroundTools } from '@/hooks/use-playground';
+import { ChatError, ChatWidget, type ChatHistoryMessage, type ChatReply } from '@/components/demo/chat-widget';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, FlaskConical, Wrench } from 'lucide-react';
+
+const EXAMPLE_PROMPTS = [
+  'Which tools can you use?',
+  'Call a read-only endpoint and summarize the result',
+];
+
+export default function PlaygroundPage() {
+  const { data, isLoading } = usePlaygroundTools();
+  const chat = usePlaygroundChat();
+
+  const tools = data?.tools ?? [];
+
+  const handleSend = async (message: string, history: ChatHistoryMessage[]): Promise<ChatReply> => {
+    try {
+      const result = await chat.mutateAsync({ message, history });
+      return {
+        message: result.message,
+        actions: result.toolCalls.map((call) => ({
+          tool: call.tool,
+          label: call.tool,
+          detail: call.method ? `${call.method} ${call.path}` : undefined,
+          input: call.input,
+          output: call.output,
+          isError: call.isError,
+        })),
+      };
+    } catch (err) {
+      const axiosError = err as { response?: { data?: { error?: string; details?: string } } };
+      const data = axiosError.response?.data;
+      throw new ChatError(
+        data?.error
+          ? data.details ? `${data.error}: ${data.details}` : data.error
+          : 'Sorry, something went wrong. Please try again.'
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Playground</h1>
+        <p className="text-muted-foreground">
+          Chat with an AI model that uses your enabled endpoints as tools, before wiring up an MCP client
+        </p>
+      </div>
+
+      {data && !data.enabled && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            The playground is not configured on this server. Set an Anthropic API key to enable it.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {data && data.enabled && tools.length === 0 && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            You have no enabled endpoints yet.{' '}
+            <Link href="/apis" className="underline underline-offset-4">
+              Register an API
+            </Link>{' '}
+            or enable some endpoints to give the model tools.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="lg:col-span-2">
+          <ChatWidget
+            className="max-w-none shadow-none"
+            messagesClassName="h-[28rem]"
+            title={
+              <>
+                <FlaskConical className="h-5 w-5" />
+                Tool Playground
+              </>
+            }
+            description="Tool calls run against your real APIs with your stored credentials and count toward your monthly API calls."
+            examplePrompts={EXAMPLE_PROMPTS}
+            placeholder="Ask the model to use your APIs..."
+            maxLength={2000}
+            onSend={handleSend}
+          />
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Wrench className="h-5 w-5" />
+              Tools
+            </CardTitle>
+            <CardDescription>
+              {isLoading ? 'Loading tools...' : `${tools.length} tool${tools.length === 1 ? '' : 's'} available`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-2">
+                <Skeleton className="h-12" />
+                <Skeleton className="h-12" />
+                <Skeleton className="h-12" />
+              </div>
+            ) : (
+              <div className="max-h-[28rem] space-y-3 overflow-y-auto">
+                {tools.map((tool) => (
+                  <div key={tool.name} className="space-y-1 rounded-md border p-2">
+                    <p className="font-mono text-xs break-all">{tool.name}</p>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className="font-mono text-xs">
+                        {tool.method}
+                      </Badge>
+                      <span className="truncate font-mono text-xs text-muted-foreground">{tool.path}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">{tool.apiName}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -36,6 +36,7 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
+import { ClientConnection } from '@/components/dashboard/client-connection';
 import { Key, Plus, Copy, Check, Ban, Trash2, Loader2 } from 'lucide-react';
 
 export default function TokensPage() {
@@ -46,6 +47,8 @@ export default function TokensPage() {
 
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [newTokenName, setNewTokenName] = useState('');
+  const [newTokenEnvironment, setNewTokenEnvironment] = useState('');
+  const [createError, setCreateError] = useState<string | null>(null);
   const [newToken, setNewToken] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
@@ -53,9 +56,21 @@ export default function TokensPage() {
   const handleCreate = async () => {
     if (!newTokenName.trim()) return;
     setIsCreating(true);
+    setCreateError(null);
     try {
-      const result = await createToken.mutateAsync({ name: newTokenName });
+      const result = await createToken.mutateAsync({
+        name: newTokenName,
+        defaultEnvironment: newTokenEnvironment.trim() || undefined,
+      });
       setNewToken(result.plaintextToken);
+    } catch (err) {
+      const axiosError = err as { response?: { data?: { error?: string; details?: string } } };
+      const data = axiosError.response?.data;
+      setCreateError(
+        data?.error
+          ? data.details ? `${data.error}: ${data.details}` : data.error
+          : 'Failed to create token'
+      );
     } finally {
       setIsCreating(false);
     }
@@ -72,6 +87,8 @@ export default function TokensPage() {
   const handleCloseCreate = () => {
     setIsCreateOpen(false);
     setNewTokenName('');
+    setNewTokenEnvironment('');
+    setCreateError(null);
     setNewToken(null);
     setCopied(false);
   };
@@ -100,7 +117,7 @@ export default function TokensPage() {
               Create Token
             </Button>
           </DialogTrigger>
-          <DialogContent>
+          <DialogContent className={newToken ? 'sm:max-w-2xl' : undefined}>
             <DialogHeader>
               <DialogTitle>Create MCP Token</DialogTitle>
               <DialogDescription>
@@ -126,6 +143,10 @@ export default function TokensPage() {
                     </Button>
                   </div>
                 </div>
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Connect a client</p>
+                  <ClientConnection token={newToken} />
+                </div>
                 <DialogFooter>
                   <Button onClick={handleCloseCreate}>Done</Button>
                 </DialogFooter>
@@ -141,6 +162,20 @@ export default function TokensPage() {
                     onChange={(e) => setNewTokenName(e.target.value)}
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="tokenEnvironment">Default Environment (optional)</Label>
+                  <Input
+                    id="tokenEnvironment"
+                    placeholder="e.g., sandbox"
+                    value={newTokenEnvironment}
+                    onChange={(e) => setNewTokenEnvironment(e.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Calls use this environment on APIs that define it, and each API&apos;s selected
+                    environment otherwise.
+                  </p>
+                </div>
+                {createError && <p className="text-sm text-destructive">{createError}</p>}
                 <DialogFooter>
                   <Button variant="outline" onClick={handleCloseCreate}>
                     Cancel
@@ -189,6 +224,11 @@ export default function TokensPage() {
                         <div className="flex items-center gap-2">
                           <Key className="h-4 w-4 text-muted-foreground" />
                           {token.name}
+                          {token.defaultEnvironment && (
+                            <Badge variant="outline" className="text-xs">
+                              {token.defaultEnvironment}
+                            </Badge>
+                          )}
                         </div>
                       </TableCell>
                       <TableCell>
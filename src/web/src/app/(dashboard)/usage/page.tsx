@@ -1,11 +1,19 @@
 'use client';
 
-import { useUsage, useUsageHistory } from '@/hooks/use-usage';
+import { useState } from 'react';
+import { useDailyUsage, useUsage, useUsageBreakdown, useUsageHistory } from '@/hooks/use-usage';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Table,
   TableBody,
@@ -14,8 +22,11 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import { Activity, TrendingUp, Calendar, Zap } from 'lucide-react';
+import { DailyUsageChart, UsageBreakdownChart } from '@/components/dashboard/usage-charts';
+import { sourceLabels } from '@/components/dashboard/call-log-drawer';
+import { Activity, TrendingUp, Calendar, Zap, BarChart3 } from 'lucide-react';
 import Link from 'next/link';
+import type { UsageBreakdownItem, UsageDimension } from '@/lib/api';
 
 const tierFeatures: Record<string, string[]> = {
   Free: ['1,000 API calls/month', 'Up to 3 APIs', 'Community support'],
@@ -23,9 +34,42 @@ const tierFeatures: Record<string, string[]> = {
   Enterprise: ['Unlimited API calls', 'Unlimited APIs', 'Dedicated support', 'SLA guarantee', 'SSO'],
 };
 
+const ranges = [7, 30, 90, 365];
+
+const breakdowns: { by: UsageDimension; title: string; description: string }[] = [
+  { by: 'api', title: 'Top APIs', description: 'Calls per registered API' },
+  { by: 'endpoint', title: 'Top Endpoints', description: 'The operations your agents call most' },
+  { by: 'token', title: 'Top Tokens', description: 'Calls per MCP token, i.e. per connected client' },
+  { by: 'source', title: 'By Source', description: 'MCP clients versus the playground and try-it' },
+];
+
+function breakdownLabel(by: UsageDimension, item: UsageBreakdownItem) {
+  if (by === 'source') return sourceLabels[item.label] ?? item.label;
+  if (by === 'token' && !item.key) return 'No token (web app)';
+  return item.label;
+}
+
+function BreakdownCard({ by, title, description, days }: (typeof breakdowns)[number] & { days: number }) {
+  const { data, isLoading } = useUsageBreakdown(by, { days });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <UsageBreakdownChart data={data} isLoading={isLoading} formatLabel={(item) => breakdownLabel(by, item)} />
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function UsagePage() {
   const { data: usage, isLoading: usageLoading } = useUsage();
   const { data: history, isLoading: historyLoading } = useUsageHistory();
+  const [days, setDays] = useState(30);
+  const { data: daily, isLoading: dailyLoading } = useDailyUsage({ days });
 
   const callsThisMonth = usage?.apiCallsUsed || 0;
   const callsLimit = usage?.apiCallsLimit || 1000;
@@ -116,6 +160,39 @@ export default function UsagePage() {
         </Card>
       </div>
 
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <BarChart3 className="h-5 w-5" />
+              Calls per Day
+            </CardTitle>
+            <CardDescription>Endpoint calls made through MCP clients, the playground and try-it</CardDescription>
+          </div>
+          <Select value={String(days)} onValueChange={(v) => setDays(Number(v))}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ranges.map((range) => (
+                <SelectItem key={range} value={String(range)}>
+                  Last {range} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <DailyUsageChart data={daily} isLoading={dailyLoading} />
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        {breakdowns.map((breakdown) => (
+          <BreakdownCard key={breakdown.by} {...breakdown} days={days} />
+        ))}
+      </div>
+
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
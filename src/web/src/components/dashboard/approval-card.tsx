@@ -0,0 +1,227 @@
+'use client';
+
+import { useState } from 'react';
+import { useDecideApproval } from '@/hooks/use-approvals';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { methodColors } from '@/components/dashboard/endpoint-table';
+import { cn } from '@/lib/utils';
+import { AlertCircle, Check, Loader2, X } from 'lucide-react';
+import type { Approval, ApprovalStatus } from '@/lib/api';
+
+const statusStyles: Record<ApprovalStatus, string> = {
+  pending: 'bg-yellow-500/10 text-yellow-600 border-yellow-500/20',
+  approved: 'bg-blue-500/10 text-blue-600 border-blue-500/20',
+  executed: 'bg-green-500/10 text-green-600 border-green-500/20',
+  rejected: 'bg-red-500/10 text-red-600 border-red-500/20',
+  expired: 'bg-gray-500/10 text-gray-600 border-gray-500/20',
+};
+
+type ChangeKind = 'added' | 'removed' | 'changed' | 'same';
+
+interface ArgumentRow {
+  path: string;
+  previous?: string;
+  current?: string;
+  change: ChangeKind;
+}
+
+const changeStyles: Record<ChangeKind, string> = {
+  added: 'bg-green-500/10',
+  removed: 'bg-red-500/10',
+  changed: 'bg-yellow-500/10',
+  same: '',
+};
+
+function parseArguments(json?: string): Record<string, unknown> | null {
+  if (!json) return null;
+  try {
+    const value = JSON.parse(json);
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+// Nested objects become dotted paths so a change deep in a body shows on its own row; arrays stay whole
+function flatten(value: Record<string, unknown>, prefix = '', into: Record<string, string> = {}) {
+  for (const [key, item] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (item && typeof item === 'object' && !Array.isArray(item) && Object.keys(item).length > 0) {
+      flatten(item as Record<string, unknown>, path, into);
+    } else {
+      into[path] = JSON.stringify(item);
+    }
+  }
+  return into;
+}
+
+function diffArguments(current: Record<string, unknown>, previous: Record<string, unknown> | null): ArgumentRow[] {
+  const now = flatten(current);
+  const before = previous ? flatten(previous) : {};
+  const paths = Array.from(new Set([...Object.keys(now), ...Object.keys(before)])).sort();
+
+  return paths.map((path) => {
+    const row = { path, previous: before[path], current: now[path] };
+    if (!previous) return { ...row, change: 'same' as const };
+    if (row.previous === undefined) return { ...row, change: 'added' as const };
+    if (row.current === undefined) return { ...row, change: 'removed' as const };
+    return { ...row, change: row.previous === row.current ? ('same' as const) : ('changed' as const) };
+  });
+}
+
+function ArgumentsDiff({ approval }: { approval: Approval }) {
+  const current = parseArguments(approval.arguments) ?? {};
+  const previous = parseArguments(approval.previousArguments);
+  const rows = diffArguments(current, previous);
+
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground">Called without arguments</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        {previous
+          ? 'Compared with the last approved call to this endpoint'
+          : 'No earlier approved call to this endpoint to compare with'}
+      </p>
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[30%]">Argument</TableHead>
+              {previous && <TableHead>Last approved</TableHead>}
+              <TableHead>This call</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.path} className={changeStyles[row.change]}>
+                <TableCell className="font-mono text-xs align-top">{row.path}</TableCell>
+                {previous && (
+                  <TableCell className="font-mono text-xs whitespace-pre-wrap break-all align-top text-muted-foreground">
+                    {row.previous ?? '-'}
+                  </TableCell>
+                )}
+                <TableCell className="font-mono text-xs whitespace-pre-wrap break-all align-top">
+                  {row.current ?? '-'}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
+
+export function ApprovalCard({ approval }: { approval: Approval }) {
+  const decide = useDecideApproval();
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDecide = async (approve: boolean) => {
+    setError(null);
+    try {
+      await decide.mutateAsync({ id: approval.id, approve, note: note.trim() || undefined });
+    } catch (err) {
+      const axiosError = err as { response?: { data?: { error?: string; details?: string } } };
+      const data = axiosError.response?.data;
+      setError(
+        data?.error
+          ? data.details ? `${data.error}: ${data.details}` : data.error
+          : 'Failed to record the decision'
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <div className="space-y-1">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Badge
+                variant="outline"
+                className={cn('font-mono text-xs', methodColors[approval.method] || 'bg-gray-500/10 text-gray-600')}
+              >
+                {approval.method}
+              </Badge>
+              <span className="font-mono text-sm">{approval.path}</span>
+            </CardTitle>
+            <CardDescription>
+              {approval.apiName} &middot; <span className="font-mono">{approval.toolName}</span>
+              {approval.tokenName && <> &middot; token {approval.tokenName}</>}
+              {approval.environment && <> &middot; {approval.environment}</>}
+            </CardDescription>
+          </div>
+          <div className="text-right space-y-1">
+            <Badge variant="outline" className={statusStyles[approval.status]}>
+              {approval.status}
+            </Badge>
+            <p className="text-xs text-muted-foreground">{new Date(approval.createdAt).toLocaleString()}</p>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ArgumentsDiff approval={approval} />
+
+        {approval.decisionNote && (
+          <p className="text-sm">
+            <span className="text-muted-foreground">Note: </span>
+            {approval.decisionNote}
+          </p>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {approval.status === 'pending' && (
+          <div className="flex flex-col gap-2 md:flex-row md:items-center">
+            <Input
+              placeholder="Note for the agent (optional)"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+            <div className="flex gap-2">
+              <Button onClick={() => handleDecide(true)} disabled={decide.isPending}>
+                {decide.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Check className="mr-2 h-4 w-4" />
+                )}
+                Approve
+              </Button>
+              <Button variant="outline" onClick={() => handleDecide(false)} disabled={decide.isPending}>
+                <X className="mr-2 h-4 w-4" />
+                Reject
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {approval.status === 'pending' && (
+          <p className="text-xs text-muted-foreground">
+            Expires {new Date(approval.expiresAt).toLocaleString()}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
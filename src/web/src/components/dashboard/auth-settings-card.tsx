@@ -0,0 +1,158 @@
+'use client';
+
+import { useState } from 'react';
+import { useStartOAuth, useUpdateApiAuth } from '@/hooks/use-apis';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  AuthConfigFields,
+  authFormValuesFrom,
+  getOAuthRedirectUri,
+  toUpdateAuthRequest,
+  validateAuthForm,
+  type AuthFormValues,
+} from '@/components/forms/auth-config-fields';
+import { AlertCircle, CheckCircle2, Link2, Loader2 } from 'lucide-react';
+import type { AuthConfig } from '@/lib/api';
+
+interface AuthSettingsCardProps {
+  apiId: string;
+  auth: AuthConfig;
+  // Named environment whose credentials are edited; the default environment when absent
+  environment?: string;
+}
+
+export function AuthSettingsCard({ apiId, auth, environment }: AuthSettingsCardProps) {
+  const updateAuth = useUpdateApiAuth();
+  const startOAuth = useStartOAuth();
+  const [values, setValues] = useState<AuthFormValues>(() => authFormValuesFrom(auth));
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  // Stored secrets only carry over while the auth type stays the same
+  const hasStoredSecret = auth.hasSecret && values.authType === auth.authType;
+
+  const handleChange = (next: AuthFormValues) => {
+    setValues(next);
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    setSaved(false);
+
+    const validationError = validateAuthForm(values, hasStoredSecret);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      await updateAuth.mutateAsync({ id: apiId, data: { ...toUpdateAuthRequest(values), environment } });
+      // Never keep secrets in memory once they are stored
+      setValues({
+        ...values,
+        apiKeyValue: '',
+        bearerToken: '',
+        username: '',
+        password: '',
+        clientId: '',
+        clientSecret: '',
+      });
+      setSaved(true);
+    } catch (err) {
+      const axiosError = err as { response?: { data?: { error?: string } } };
+      setError(axiosError.response?.data?.error || 'Failed to update authentication');
+    }
+  };
+
+  // The saved configuration (not the form) decides whether an account can be connected
+  const canConnect =
+    auth.authType === 'oauth2' && auth.flow === 'authorizationCode' && auth.hasSecret;
+
+  const handleConnect = async () => {
+    setError(null);
+    try {
+      const { authorizationUrl } = await startOAuth.mutateAsync({
+        id: apiId,
+        redirectUri: getOAuthRedirectUri(),
+        environment,
+      });
+      window.location.href = authorizationUrl;
+    } catch (err) {
+      const axiosError = err as { response?: { data?: { error?: string } } };
+      setError(axiosError.response?.data?.error || 'Failed to start OAuth authorization');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          Authentication
+          {environment && <span className="font-normal text-muted-foreground"> ({environment})</span>}
+        </CardTitle>
+        <CardDescription>
+          Credentials are encrypted before they are stored and are never shown again
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {saved && (
+          <Alert>
+            <CheckCircle2 className="h-4 w-4" />
+            <AlertDescription>Authentication updated</AlertDescription>
+          </Alert>
+        )}
+
+        <AuthConfigFields
+          values={values}
+          onChange={handleChange}
+          hasStoredSecret={hasStoredSecret}
+        />
+
+        {canConnect && (
+          <div className="flex items-center justify-between gap-4 p-4 rounded-lg border">
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Connected account</p>
+              {auth.hasRefreshToken ? (
+                <Badge variant="secondary">Connected</Badge>
+              ) : (
+                <Badge variant="outline">Not connected</Badge>
+              )}
+            </div>
+            <Button variant="outline" onClick={handleConnect} disabled={startOAuth.isPending}>
+              {startOAuth.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Link2 className="mr-2 h-4 w-4" />
+              )}
+              {auth.hasRefreshToken ? 'Reconnect' : 'Connect Account'}
+            </Button>
+          </div>
+        )}
+
+        <div className="flex gap-2 pt-4 border-t">
+          <Button onClick={handleSave} disabled={updateAuth.isPending}>
+            {updateAuth.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Authentication
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => handleChange(authFormValuesFrom(auth))}
+            disabled={updateAuth.isPending}
+          >
+            Reset
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import { useCallLog } from '@/hooks/use-usage';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+
+interface CallLogDrawerProps {
+  callId: string | null;
+  onClose: () => void;
+}
+
+export const sourceLabels: Record<string, string> = {
+  mcp: 'MCP',
+  playground: 'Playground',
+  'try-it': 'Try it',
+};
+
+function formatBody(body?: string): string {
+  if (!body) return '';
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium">{title}</h3>
+      {children}
+    </div>
+  );
+}
+
+function Headers({ headers }: { headers?: Record<string, string[]> }) {
+  const entries = Object.entries(headers ?? {});
+  if (entries.length === 0) return <p className="text-xs text-muted-foreground">No headers</p>;
+
+  return (
+    <div className="rounded-md border px-3 py-2 font-mono text-xs space-y-1">
+      {entries.map(([name, values]) => (
+        <div key={name} className="break-all">
+          <span className="text-muted-foreground">{name}:</span> {values.join(', ')}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function Body({ body }: { body?: string }) {
+  return (
+    <pre className="max-h-80 overflow-auto rounded-lg bg-muted p-3 text-xs font-mono whitespace-pre-wrap break-all">
+      {formatBody(body) || '(empty body)'}
+    </pre>
+  );
+}
+
+// Side panel with the full request and response of a single logged call
+export function CallLogDrawer({ callId, onClose }: CallLogDrawerProps) {
+  const { data: detail, isLoading } = useCallLog(callId);
+  const call = detail?.summary;
+
+  return (
+    <Dialog open={!!callId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="top-0 right-0 left-auto h-full max-w-full translate-x-0 translate-y-0 overflow-y-auto rounded-none sm:max-w-2xl content-start">
+        <DialogHeader>
+          <DialogTitle className="font-mono text-base break-all">
+            {call ? `${call.method} ${call.path}` : 'Call details'}
+          </DialogTitle>
+          <DialogDescription>
+            {call ? `${call.apiName} · ${call.operationId}` : 'Loading...'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !detail || !call ? (
+          <div className="space-y-3">
+            <Skeleton className="h-6 w-48" />
+            <Skeleton className="h-32" />
+            <Skeleton className="h-32" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge
+                variant="outline"
+                className={cn(
+                  'font-mono',
+                  call.isSuccess
+                    ? 'bg-green-500/10 text-green-600 border-green-500/20'
+                    : 'bg-red-500/10 text-red-600 border-red-500/20'
+                )}
+              >
+                {call.statusCode ?? 'Failed'}
+              </Badge>
+              <span className="text-muted-foreground">{call.durationMs} ms</span>
+              <Badge variant="secondary">{sourceLabels[call.source] ?? call.source}</Badge>
+              {call.tokenId && (
+                <Badge variant="outline">Token: {call.tokenName ?? call.tokenId}</Badge>
+              )}
+              {call.environment && <Badge variant="outline">Environment: {call.environment}</Badge>}
+              <span className="text-muted-foreground">{new Date(call.timestamp).toLocaleString()}</span>
+            </div>
+
+            {call.error && (
+              <Section title="Error">
+                <p className="rounded-md border border-red-500/20 bg-red-500/10 p-3 text-sm text-red-600">
+                  {call.error}
+                </p>
+              </Section>
+            )}
+
+            <Section title="Arguments">
+              <Body body={detail.arguments} />
+            </Section>
+
+            {detail.requestUrl && (
+              <Section title="Request">
+                <p className="font-mono text-xs break-all">{detail.requestUrl}</p>
+                <Headers headers={detail.requestHeaders} />
+                {detail.requestBody && <Body body={detail.requestBody} />}
+              </Section>
+            )}
+
+            {detail.responseHeaders && (
+              <Section title="Response">
+                <Headers headers={detail.responseHeaders} />
+                <Body body={detail.responseBody} />
+              </Section>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              Secrets are redacted and bodies are truncated before calls are logged.
+            </p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
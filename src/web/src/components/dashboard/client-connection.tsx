@@ -0,0 +1,198 @@
+'use client';
+
+import { useState } from 'react';
+import { useTestToken } from '@/hooks/use-tokens';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Check, CheckCircle2, Copy, Loader2, PlugZap } from 'lucide-react';
+import type { TokenTestResult } from '@/lib/api';
+
+const MCP_URL = process.env.NEXT_PUBLIC_MCP_URL || 'http://localhost:5000/mcp';
+const SERVER_NAME = 'mcp-api';
+const TOKEN_PLACEHOLDER = '<your-mcp-token>';
+
+interface McpClient {
+  id: string;
+  name: string;
+  location: string;
+  snippet: (token: string) => string;
+}
+
+const toJson = (value: unknown) => JSON.stringify(value, null, 2);
+
+const clients: McpClient[] = [
+  {
+    id: 'claude-desktop',
+    name: 'Claude Desktop',
+    location: 'Add to claude_desktop_config.json (Settings → Developer → Edit Config). Requires Node.js.',
+    snippet: (token) =>
+      toJson({
+        mcpServers: {
+          [SERVER_NAME]: {
+            command: 'npx',
+            args: ['-y', 'mcp-remote', MCP_URL, '--header', 'Authorization:${AUTH_HEADER}'],
+            env: { AUTH_HEADER: `Bearer ${token}` },
+          },
+        },
+      }),
+  },
+  {
+    id: 'claude-code',
+    name: 'Claude Code',
+    location: 'Run in your terminal.',
+    snippet: (token) =>
+      `claude mcp add --transport http ${SERVER_NAME} ${MCP_URL} --header "Authorization: Bearer ${token}"`,
+  },
+  {
+    id: 'vscode',
+    name: 'VS Code',
+    location: 'Save as .vscode/mcp.json in your workspace.',
+    snippet: (token) =>
+      toJson({
+        servers: {
+          [SERVER_NAME]: {
+            type: 'http',
+            url: MCP_URL,
+            headers: { Authorization: `Bearer ${token}` },
+          },
+        },
+      }),
+  },
+  {
+    id: 'cursor',
+    name: 'Cursor',
+    location: 'Add to ~/.cursor/mcp.json.',
+    snippet: (token) =>
+      toJson({
+        mcpServers: {
+          [SERVER_NAME]: {
+            url: MCP_URL,
+            headers: { Authorization: `Bearer ${token}` },
+          },
+        },
+      }),
+  },
+  {
+    id: 'stdio',
+    name: 'Self-hosted (stdio)',
+    location: 'Runs the MCP server locally from a clone of the repository. Use in any client config that takes a command.',
+    snippet: (token) =>
+      toJson({
+        mcpServers: {
+          [SERVER_NAME]: {
+            command: 'dotnet',
+            args: ['run', '--project', '/path/to/mcp-api/src/McpApi.Mcp'],
+            env: {
+              MCPAPI_TOKEN: token,
+              MCPAPI_COSMOS_CONNECTION_STRING: '<your-cosmos-connection-string>',
+              MCPAPI_MASTER_KEY: '<your-encryption-master-key>',
+            },
+          },
+        },
+      }),
+  },
+];
+
+interface ClientConnectionProps {
+  token: string;
+}
+
+interface TestOutcome {
+  token: string;
+  result?: TokenTestResult;
+  error?: string;
+}
+
+export function ClientConnection({ token }: ClientConnectionProps) {
+  const testToken = useTestToken();
+  const [clientId, setClientId] = useState(clients[0].id);
+  const [copied, setCopied] = useState(false);
+  const [outcome, setOutcome] = useState<TestOutcome | null>(null);
+
+  const client = clients.find((c) => c.id === clientId) ?? clients[0];
+  const trimmedToken = token.trim();
+  const snippet = client.snippet(trimmedToken || TOKEN_PLACEHOLDER);
+  // Only show the outcome for the token that was actually tested
+  const testResult = outcome?.token === trimmedToken ? outcome.result : undefined;
+  const testError = outcome?.token === trimmedToken ? outcome.error : undefined;
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(snippet);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleTest = async () => {
+    setOutcome(null);
+    try {
+      const result = await testToken.mutateAsync(trimmedToken);
+      setOutcome({ token: trimmedToken, result });
+    } catch (err) {
+      const axiosError = err as { response?: { data?: { error?: string } } };
+      setOutcome({
+        token: trimmedToken,
+        error: axiosError.response?.data?.error || 'Connection test failed',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {clients.map((c) => (
+          <Button
+            key={c.id}
+            size="sm"
+            variant={c.id === client.id ? 'default' : 'outline'}
+            onClick={() => {
+              setClientId(c.id);
+              setCopied(false);
+            }}
+          >
+            {c.name}
+          </Button>
+        ))}
+      </div>
+
+      <p className="text-sm text-muted-foreground">{client.location}</p>
+
+      <div className="relative">
+        <pre className="rounded-lg bg-muted p-4 pr-12 text-xs font-mono overflow-x-auto whitespace-pre-wrap break-all">
+          {snippet}
+        </pre>
+        <Button size="icon" variant="outline" className="absolute top-2 right-2" onClick={handleCopy}>
+          {copied ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-4">
+        <Button variant="outline" onClick={handleTest} disabled={!trimmedToken || testToken.isPending}>
+          {testToken.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <PlugZap className="mr-2 h-4 w-4" />
+          )}
+          Test Connection
+        </Button>
+        <span className="text-xs text-muted-foreground">Server URL: {MCP_URL}</span>
+      </div>
+
+      {testResult && (
+        <Alert>
+          <CheckCircle2 className="h-4 w-4 text-green-600" />
+          <AlertDescription>
+            Token &quot;{testResult.tokenName}&quot; is valid. {testResult.endpointCount} enabled endpoint
+            {testResult.endpointCount === 1 ? '' : 's'} from {testResult.apiCount} API
+            {testResult.apiCount === 1 ? '' : 's'} will be available as tools.
+          </AlertDescription>
+        </Alert>
+      )}
+      {testError && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{testError}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
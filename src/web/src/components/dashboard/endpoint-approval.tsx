@@ -0,0 +1,81 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useEndpointDetail, useUpdateApprovalPolicy } from '@/hooks/use-apis';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Loader2 } from 'lucide-react';
+
+interface EndpointApprovalProps {
+  apiId: string;
+  endpointId: string;
+}
+
+export function EndpointApproval({ apiId, endpointId }: EndpointApprovalProps) {
+  const { data: detail, isLoading } = useEndpointDetail(apiId, endpointId);
+  const updateApproval = useUpdateApprovalPolicy();
+  const [error, setError] = useState<string | null>(null);
+
+  if (isLoading || !detail) {
+    return (
+      <div className="space-y-2 p-4">
+        <Skeleton className="h-10" />
+      </div>
+    );
+  }
+
+  const handleChange = async (requiresApproval: boolean) => {
+    setError(null);
+    try {
+      await updateApproval.mutateAsync({ apiId, endpointId, requiresApproval });
+    } catch (err) {
+      const axiosError = err as { response?: { data?: { error?: string; details?: string } } };
+      const data = axiosError.response?.data;
+      setError(
+        data?.error
+          ? data.details ? `${data.error}: ${data.details}` : data.error
+          : 'Failed to save approval setting'
+      );
+    }
+  };
+
+  const id = `${endpointId}-requires-approval`;
+
+  return (
+    <div className="space-y-4 p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <Label htmlFor={id} className="text-sm font-medium">
+            Require approval
+          </Label>
+          <p className="text-xs text-muted-foreground">
+            MCP tool calls wait until someone approves them in{' '}
+            <Link href="/approvals" className="underline">
+              Approvals
+            </Link>
+            . Calls from this form and the playground are made right away.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {updateApproval.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+          <Switch
+            id={id}
+            checked={detail.endpoint.requiresApproval}
+            onCheckedChange={handleChange}
+            disabled={updateApproval.isPending}
+          />
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
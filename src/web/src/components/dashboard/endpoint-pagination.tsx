@@ -0,0 +1,207 @@
+'use client';
+
+import { useState } from 'react';
+import { useEndpointDetail, useUpdatePagination } from '@/hooks/use-apis';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertCircle, Check, Loader2, Save } from 'lucide-react';
+import type { Pagination, PaginationStyle } from '@/lib/api';
+
+interface EndpointPaginationProps {
+  apiId: string;
+  endpointId: string;
+}
+
+type StyleOption = PaginationStyle | 'auto';
+
+const styleLabels: Record<StyleOption, string> = {
+  auto: 'Auto-detect',
+  link: 'Link header',
+  cursor: 'Cursor',
+  page: 'Page number',
+  offset: 'Offset',
+  none: 'Off',
+};
+
+function describe(pagination: Pagination | null): string {
+  if (!pagination) return 'No pagination detected';
+  if (pagination.style === 'link') return 'Follows the Link header';
+  return `${styleLabels[pagination.style]} in the "${pagination.parameter}" query parameter`;
+}
+
+export function EndpointPagination({ apiId, endpointId }: EndpointPaginationProps) {
+  const { data: detail, isLoading } = useEndpointDetail(apiId, endpointId);
+
+  if (isLoading || !detail) {
+    return (
+      <div className="space-y-2 p-4">
+        <Skeleton className="h-10" />
+      </div>
+    );
+  }
+
+  return (
+    <PaginationEditor
+      apiId={apiId}
+      endpointId={endpointId}
+      initial={detail.pagination}
+      detected={detail.detectedPagination}
+    />
+  );
+}
+
+interface PaginationEditorProps extends EndpointPaginationProps {
+  initial: Pagination | null;
+  detected: Pagination | null;
+}
+
+function PaginationEditor({ apiId, endpointId, initial, detected }: PaginationEditorProps) {
+  const updatePagination = useUpdatePagination();
+  const [style, setStyle] = useState<StyleOption>(initial?.style ?? 'auto');
+  const [parameter, setParameter] = useState(initial?.parameter ?? '');
+  const [cursorPath, setCursorPath] = useState(initial?.cursorPath ?? '');
+  const [itemsPath, setItemsPath] = useState(initial?.itemsPath ?? '');
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const id = (name: string) => `${endpointId}-pagination-${name}`;
+  const changed = <T,>(set: (value: T) => void) => (value: T) => {
+    set(value);
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    const pagination: Pagination | null =
+      style === 'auto'
+        ? null
+        : {
+            style,
+            parameter: parameter || null,
+            cursorPath: cursorPath || null,
+            itemsPath: itemsPath || null,
+          };
+
+    try {
+      await updatePagination.mutateAsync({ apiId, endpointId, pagination });
+      setSaved(true);
+    } catch (err) {
+      const axiosError = err as { response?: { data?: { error?: string; details?: string } } };
+      const data = axiosError.response?.data;
+      setError(
+        data?.error
+          ? data.details ? `${data.error}: ${data.details}` : data.error
+          : 'Failed to save pagination'
+      );
+    }
+  };
+
+  const usesParameter = style === 'cursor' || style === 'page' || style === 'offset';
+
+  return (
+    <div className="space-y-4 p-4">
+      <div>
+        <h4 className="text-sm font-medium">Pagination</h4>
+        <p className="text-xs text-muted-foreground">
+          Lets tools fetch several pages in one call with the <code>_maxPages</code> and{' '}
+          <code>_maxItems</code> arguments.
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor={id('style')}>Style</Label>
+          <Select value={style} onValueChange={(v) => changed(setStyle)(v as StyleOption)}>
+            <SelectTrigger id={id('style')}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(styleLabels) as StyleOption[]).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {styleLabels[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {style === 'auto' && <p className="text-xs text-muted-foreground">{describe(detected)}</p>}
+        </div>
+
+        {usesParameter && (
+          <div className="space-y-2">
+            <Label htmlFor={id('parameter')}>Query parameter</Label>
+            <Input
+              id={id('parameter')}
+              placeholder={style === 'cursor' ? 'cursor' : style}
+              value={parameter}
+              onChange={(e) => changed(setParameter)(e.target.value)}
+            />
+          </div>
+        )}
+
+        {style === 'cursor' && (
+          <div className="space-y-2">
+            <Label htmlFor={id('cursor-path')}>Next cursor field</Label>
+            <Input
+              id={id('cursor-path')}
+              className="font-mono"
+              placeholder="meta.next_cursor"
+              value={cursorPath}
+              onChange={(e) => changed(setCursorPath)(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Leave empty to look for common field names.</p>
+          </div>
+        )}
+
+        {style !== 'auto' && style !== 'none' && (
+          <div className="space-y-2">
+            <Label htmlFor={id('items-path')}>Items field</Label>
+            <Input
+              id={id('items-path')}
+              className="font-mono"
+              placeholder="data"
+              value={itemsPath}
+              onChange={(e) => changed(setItemsPath)(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Leave empty to use the body&apos;s first array.
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button onClick={handleSave} disabled={updatePagination.isPending}>
+          {updatePagination.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Save className="mr-2 h-4 w-4" />
+          )}
+          Save
+        </Button>
+        {saved && (
+          <span className="flex items-center text-sm text-green-600">
+            <Check className="mr-1 h-4 w-4" />
+            Saved
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,338 @@
+'use client';
+
+import { useState } from 'react';
+import { useEndpointDetail, useExecuteEndpoint } from '@/hooks/use-apis';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ResponseBodyPreview } from '@/components/dashboard/response-body-preview';
+import { SchemaView } from '@/components/dashboard/schema-view';
+import { cn } from '@/lib/utils';
+import { AlertCircle, Loader2, Play } from 'lucide-react';
+import type { EndpointExecution, EndpointParameter, JsonSchema } from '@/lib/api';
+
+interface EndpointPlaygroundProps {
+  apiId: string;
+  endpointId: string;
+  // Called with each successful execution, e.g. to preview response shaping on it
+  onResult?: (result: EndpointExecution) => void;
+}
+
+type FieldValue = string | boolean;
+
+// Placeholder value for a schema, used to prefill the request body editor
+function sampleValue(schema: JsonSchema, depth = 0): unknown {
+  if (schema.example !== undefined && schema.example !== null) return schema.example;
+  if (schema.default !== undefined && schema.default !== null) return schema.default;
+  if (schema.enum?.length) return schema.enum[0];
+
+  // Unions are prefilled from their first branch
+  const branch = schema.oneOf?.[0] ?? schema.anyOf?.[0];
+  if (branch && depth <= 3) return sampleValue(branch, depth + 1);
+
+  switch (schema.type) {
+    case 'object':
+      if (depth > 3 || !schema.properties) return {};
+      return Object.fromEntries(
+        Object.entries(schema.properties).map(([name, prop]) => [name, sampleValue(prop, depth + 1)])
+      );
+    case 'array':
+      return schema.items && depth <= 3 ? [sampleValue(schema.items, depth + 1)] : [];
+    case 'integer':
+    case 'number':
+      return 0;
+    case 'boolean':
+      return false;
+    default:
+      return '';
+  }
+}
+
+function initialValue(param: EndpointParameter): FieldValue {
+  const value = param.schema.default ?? '';
+  if (param.schema.type === 'boolean') return value === true;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function convertScalar(value: string, schema?: JsonSchema): unknown {
+  if (schema?.type === 'integer' || schema?.type === 'number') {
+    const number = Number(value);
+    if (Number.isNaN(number)) throw new Error(`'${value}' is not a number`);
+    return number;
+  }
+  if (schema?.type === 'boolean') return value === 'true';
+  return value;
+}
+
+// Converts a form field to the argument value the server expects; undefined leaves it out
+function toArgument(param: EndpointParameter, value: FieldValue | undefined): unknown {
+  if (param.schema.type === 'boolean') return value === true ? true : undefined;
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+
+  try {
+    switch (param.schema.type) {
+      case 'array':
+        return value.split(',').map((item) => convertScalar(item.trim(), param.schema.items));
+      case 'object':
+        return JSON.parse(value);
+      default:
+        return convertScalar(value, param.schema);
+    }
+  } catch (err) {
+    throw new Error(`${param.name}: ${err instanceof Error ? err.message : 'invalid value'}`);
+  }
+}
+
+export function EndpointPlayground({ apiId, endpointId, onResult }: EndpointPlaygroundProps) {
+  const { data: detail, isLoading } = useEndpointDetail(apiId, endpointId);
+  const executeEndpoint = useExecuteEndpoint();
+  const [values, setValues] = useState<Record<string, FieldValue>>({});
+  const [body, setBody] = useState<string | null>(null);
+  const [maxPages, setMaxPages] = useState('');
+  const [result, setResult] = useState<EndpointExecution | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (isLoading || !detail) {
+    return (
+      <div className="space-y-2 p-4">
+        <Skeleton className="h-10" />
+        <Skeleton className="h-10" />
+      </div>
+    );
+  }
+
+  const bodyText =
+    body ?? (detail.requestBody ? JSON.stringify(sampleValue(detail.requestBody.schema), null, 2) : '');
+  const pagination = detail.pagination ?? detail.detectedPagination;
+  const paginates = !!pagination && pagination.style !== 'none';
+  const valueOf = (param: EndpointParameter) => values[param.name] ?? initialValue(param);
+  const setValue = (name: string, value: FieldValue) => setValues({ ...values, [name]: value });
+
+  const handleSend = async () => {
+    setError(null);
+    setResult(null);
+
+    const args: Record<string, unknown> = {};
+    try {
+      for (const param of detail.parameters) {
+        const value = toArgument(param, valueOf(param));
+        if (value !== undefined) args[param.name] = value;
+      }
+      if (detail.requestBody && bodyText.trim()) {
+        args.body = JSON.parse(bodyText);
+      }
+      if (paginates && maxPages.trim()) {
+        args._maxPages = Number(maxPages);
+      }
+    } catch (err) {
+      setError(err instanceof SyntaxError ? 'Request body is not valid JSON' : (err as Error).message);
+      return;
+    }
+
+    try {
+      const execution = await executeEndpoint.mutateAsync({ apiId, endpointId, args });
+      setResult(execution);
+      onResult?.(execution);
+    } catch (err) {
+      const axiosError = err as { response?: { data?: { error?: string; details?: string } } };
+      const data = axiosError.response?.data;
+      setError(
+        data?.error
+          ? data.details ? `${data.error}: ${data.details}` : data.error
+          : 'Request failed'
+      );
+    }
+  };
+
+  const renderField = (param: EndpointParameter) => {
+    const id = `${endpointId}-${param.in}-${param.name}`;
+    const value = valueOf(param);
+
+    if (param.schema.type === 'boolean') {
+      return (
+        <Switch id={id} checked={value === true} onCheckedChange={(checked) => setValue(param.name, checked)} />
+      );
+    }
+
+    if (param.schema.enum?.length) {
+      return (
+        <Select value={String(value)} onValueChange={(v) => setValue(param.name, v)}>
+          <SelectTrigger id={id}>
+            <SelectValue placeholder="Select a value" />
+          </SelectTrigger>
+          <SelectContent>
+            {param.schema.enum.map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    return (
+      <Input
+        id={id}
+        type={param.schema.type === 'integer' || param.schema.type === 'number' ? 'number' : 'text'}
+        placeholder={
+          param.schema.type === 'array'
+            ? 'Comma-separated values'
+            : param.schema.type === 'object'
+              ? 'JSON object'
+              : param.schema.format
+        }
+        value={String(value)}
+        onChange={(e) => setValue(param.name, e.target.value)}
+      />
+    );
+  };
+
+  return (
+    <div className="space-y-4 p-4">
+      {detail.parameters.length === 0 && !detail.requestBody && (
+        <p className="text-sm text-muted-foreground">This endpoint takes no parameters.</p>
+      )}
+
+      {detail.parameters.length > 0 && (
+        <div className="grid gap-4 md:grid-cols-2">
+          {detail.parameters.map((param) => (
+            <div key={`${param.in}-${param.name}`} className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Label htmlFor={`${endpointId}-${param.in}-${param.name}`} className="font-mono">
+                  {param.name}
+                  {param.required && <span className="text-destructive">*</span>}
+                </Label>
+                <Badge variant="outline" className="text-xs">
+                  {param.in}
+                </Badge>
+              </div>
+              {renderField(param)}
+              {param.description && (
+                <p className="text-xs text-muted-foreground">{param.description}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {detail.requestBody && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`${endpointId}-body`}>
+              Request Body
+              {detail.requestBody.required && <span className="text-destructive">*</span>}
+            </Label>
+            <Badge variant="outline" className="text-xs">
+              {detail.requestBody.contentType}
+            </Badge>
+          </div>
+          <Textarea
+            id={`${endpointId}-body`}
+            className="font-mono text-xs min-h-[160px]"
+            value={bodyText}
+            onChange={(e) => setBody(e.target.value)}
+          />
+          {detail.requestBody.description && (
+            <p className="text-xs text-muted-foreground">{detail.requestBody.description}</p>
+          )}
+          <SchemaView schema={detail.requestBody.schema} />
+        </div>
+      )}
+
+      <div className="flex items-center gap-4">
+        {paginates && (
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`${endpointId}-max-pages`} className="whitespace-nowrap">
+              Pages
+            </Label>
+            <Input
+              id={`${endpointId}-max-pages`}
+              type="number"
+              min={1}
+              max={10}
+              placeholder="1"
+              className="w-20"
+              value={maxPages}
+              onChange={(e) => setMaxPages(e.target.value)}
+            />
+          </div>
+        )}
+        <Button onClick={handleSend} disabled={executeEndpoint.isPending}>
+          {executeEndpoint.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Play className="mr-2 h-4 w-4" />
+          )}
+          Send Request
+        </Button>
+        <span className="text-xs text-muted-foreground">
+          Uses your stored credentials and counts toward your monthly API calls
+        </span>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {result && (
+        <div className="space-y-3">
+          <div className="flex items-center gap-3">
+            <Badge
+              variant="outline"
+              className={cn(
+                'font-mono',
+                result.isSuccess
+                  ? 'bg-green-500/10 text-green-600 border-green-500/20'
+                  : 'bg-red-500/10 text-red-600 border-red-500/20'
+              )}
+            >
+              {result.statusCode} {result.reasonPhrase}
+            </Badge>
+            <span className="text-sm text-muted-foreground">{result.durationMs} ms</span>
+            {result.attempts > 1 && (
+              <span className="text-sm text-muted-foreground">{result.attempts} attempts</span>
+            )}
+            {(result.pageCount > 1 || result.hasMorePages) && (
+              <span className="text-sm text-muted-foreground">
+                {result.pageCount} {result.pageCount === 1 ? 'page' : 'pages'} merged
+                {result.hasMorePages && ', more available'}
+              </span>
+            )}
+          </div>
+
+          <details className="rounded-md border">
+            <summary className="cursor-pointer px-3 py-2 text-sm font-medium">
+              Headers ({Object.keys(result.headers).length})
+            </summary>
+            <div className="border-t px-3 py-2 font-mono text-xs space-y-1">
+              {Object.entries(result.headers).map(([name, headerValues]) => (
+                <div key={name} className="break-all">
+                  <span className="text-muted-foreground">{name}:</span> {headerValues.join(', ')}
+                </div>
+              ))}
+            </div>
+          </details>
+
+          <ResponseBodyPreview result={result} />
+        </div>
+      )}
+    </div>
+  );
+}
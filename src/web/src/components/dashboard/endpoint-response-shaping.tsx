@@ -0,0 +1,286 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  useEndpointDetail,
+  usePreviewResponseShaping,
+  useUpdateResponseShaping,
+} from '@/hooks/use-apis';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Check, Eye, Loader2, Save } from 'lucide-react';
+import type { EndpointExecution, ResponseShaping, ResponseShapingPreview } from '@/lib/api';
+
+interface EndpointResponseShapingProps {
+  apiId: string;
+  endpointId: string;
+  // Last try-it result, previewed instead of a pasted sample when present
+  sample?: EndpointExecution | null;
+}
+
+interface ShapingForm {
+  fields: string;
+  maxArrayLength: string;
+  maxBytes: string;
+  keepAllHeaders: boolean;
+  headers: string;
+}
+
+function toForm(shaping: ResponseShaping | null): ShapingForm {
+  return {
+    fields: shaping?.fields?.join('\n') ?? '',
+    maxArrayLength: shaping?.maxArrayLength?.toString() ?? '',
+    maxBytes: shaping?.maxBytes?.toString() ?? '',
+    keepAllHeaders: shaping?.headers == null,
+    headers: shaping?.headers?.join('\n') ?? '',
+  };
+}
+
+function toLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+function toLimit(text: string): number | null {
+  return text.trim() === '' ? null : Number(text);
+}
+
+function toShaping(form: ShapingForm): ResponseShaping | null {
+  const shaping: ResponseShaping = {
+    fields: toLines(form.fields),
+    maxArrayLength: toLimit(form.maxArrayLength),
+    maxBytes: toLimit(form.maxBytes),
+    headers: form.keepAllHeaders ? null : toLines(form.headers),
+  };
+
+  const isEmpty =
+    shaping.fields?.length === 0 &&
+    shaping.maxArrayLength === null &&
+    shaping.maxBytes === null &&
+    shaping.headers === null;
+  return isEmpty ? null : shaping;
+}
+
+function errorMessage(err: unknown, fallback: string): string {
+  const axiosError = err as { response?: { data?: { error?: string; details?: string } } };
+  const data = axiosError.response?.data;
+  if (!data?.error) return fallback;
+  return data.details ? `${data.error}: ${data.details}` : data.error;
+}
+
+export function EndpointResponseShaping({ apiId, endpointId, sample }: EndpointResponseShapingProps) {
+  const { data: detail, isLoading } = useEndpointDetail(apiId, endpointId);
+
+  if (isLoading || !detail) {
+    return (
+      <div className="space-y-2 p-4">
+        <Skeleton className="h-10" />
+      </div>
+    );
+  }
+
+  return (
+    <ShapingEditor
+      apiId={apiId}
+      endpointId={endpointId}
+      sample={sample}
+      initial={detail.responseShaping}
+    />
+  );
+}
+
+interface ShapingEditorProps extends EndpointResponseShapingProps {
+  initial: ResponseShaping | null;
+}
+
+function ShapingEditor({ apiId, endpointId, sample, initial }: ShapingEditorProps) {
+  const updateShaping = useUpdateResponseShaping();
+  const previewShaping = usePreviewResponseShaping();
+  const [form, setForm] = useState<ShapingForm>(() => toForm(initial));
+  const [sampleBody, setSampleBody] = useState('');
+  const [preview, setPreview] = useState<ResponseShapingPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const id = (name: string) => `${endpointId}-shaping-${name}`;
+  const update = (changes: Partial<ShapingForm>) => {
+    setForm({ ...form, ...changes });
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    try {
+      await updateShaping.mutateAsync({ apiId, endpointId, shaping: toShaping(form) });
+      setSaved(true);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to save response shaping'));
+    }
+  };
+
+  const handlePreview = async () => {
+    setError(null);
+    setPreview(null);
+    try {
+      setPreview(
+        await previewShaping.mutateAsync({
+          apiId,
+          endpointId,
+          data: {
+            shaping: toShaping(form),
+            statusCode: sample?.statusCode ?? 200,
+            headers: sample?.headers,
+            body: sample ? sample.body : sampleBody,
+          },
+        })
+      );
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to preview response shaping'));
+    }
+  };
+
+  return (
+    <div className="space-y-4 p-4">
+      <div>
+        <h4 className="text-sm font-medium">Response Shaping</h4>
+        <p className="text-xs text-muted-foreground">
+          Trim what this tool returns to AI assistants. Leave everything empty to return the full response.
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor={id('fields')}>Fields</Label>
+          <Textarea
+            id={id('fields')}
+            className="font-mono text-xs min-h-[100px]"
+            placeholder={'$.items[*].name\n$.total_count'}
+            value={form.fields}
+            onChange={(e) => update({ fields: e.target.value })}
+          />
+          <p className="text-xs text-muted-foreground">
+            One JSONPath per line. Only these parts of the body are kept.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor={id('headers')}>Headers</Label>
+            <div className="flex items-center gap-2">
+              <Label htmlFor={id('keep-headers')} className="text-xs font-normal text-muted-foreground">
+                Keep all
+              </Label>
+              <Switch
+                id={id('keep-headers')}
+                checked={form.keepAllHeaders}
+                onCheckedChange={(checked) => update({ keepAllHeaders: checked })}
+              />
+            </div>
+          </div>
+          <Textarea
+            id={id('headers')}
+            className="font-mono text-xs min-h-[100px]"
+            placeholder={'Link\nX-RateLimit-Remaining'}
+            disabled={form.keepAllHeaders}
+            value={form.headers}
+            onChange={(e) => update({ headers: e.target.value })}
+          />
+          <p className="text-xs text-muted-foreground">
+            One header name per line. Leave empty to drop all headers.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor={id('max-array')}>Max array length</Label>
+          <Input
+            id={id('max-array')}
+            type="number"
+            min={1}
+            placeholder="No limit"
+            value={form.maxArrayLength}
+            onChange={(e) => update({ maxArrayLength: e.target.value })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor={id('max-bytes')}>Max body size (bytes)</Label>
+          <Input
+            id={id('max-bytes')}
+            type="number"
+            min={256}
+            placeholder="No limit"
+            value={form.maxBytes}
+            onChange={(e) => update({ maxBytes: e.target.value })}
+          />
+        </div>
+      </div>
+
+      {!sample && (
+        <div className="space-y-2">
+          <Label htmlFor={id('sample')}>Sample response body</Label>
+          <Textarea
+            id={id('sample')}
+            className="font-mono text-xs min-h-[100px]"
+            placeholder="Paste a response body, or send a request above to preview with it"
+            value={sampleBody}
+            onChange={(e) => setSampleBody(e.target.value)}
+          />
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Button onClick={handleSave} disabled={updateShaping.isPending}>
+          {updateShaping.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Save className="mr-2 h-4 w-4" />
+          )}
+          Save
+        </Button>
+        <Button variant="outline" onClick={handlePreview} disabled={previewShaping.isPending}>
+          {previewShaping.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Eye className="mr-2 h-4 w-4" />
+          )}
+          Preview
+        </Button>
+        {saved && (
+          <span className="flex items-center text-sm text-green-600">
+            <Check className="mr-1 h-4 w-4" />
+            Saved
+          </span>
+        )}
+        {sample && (
+          <span className="text-xs text-muted-foreground">Previews the last response from Send Request</span>
+        )}
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {preview && (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            Tool output: {preview.shapedBytes.toLocaleString()} bytes (was{' '}
+            {preview.originalBytes.toLocaleString()})
+          </p>
+          <pre className="max-h-96 overflow-auto rounded-lg bg-muted p-4 text-xs font-mono">
+            {preview.shaped}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Switch } from '@/components/ui/switch';
+import { EndpointTable } from '@/components/dashboard/endpoint-table';
+import type { ApiEndpoint } from '@/lib/api';
+
+const untaggedGroup = 'Other';
+
+interface EndpointSelectorProps {
+  endpoints: ApiEndpoint[];
+  selectedIds: Set<string>;
+  onChange: (selectedIds: Set<string>) => void;
+}
+
+// Groups endpoints by their first tag so whole areas of an API can be kept or dropped at once
+export function EndpointSelector({ endpoints, selectedIds, onChange }: EndpointSelectorProps) {
+  const groups = useMemo(() => {
+    const byTag = new Map<string, ApiEndpoint[]>();
+    endpoints.forEach((endpoint) => {
+      const tag = endpoint.tags[0] || untaggedGroup;
+      byTag.set(tag, [...(byTag.get(tag) ?? []), endpoint]);
+    });
+    return Array.from(byTag.entries()).sort(([a], [b]) =>
+      a === untaggedGroup ? 1 : b === untaggedGroup ? -1 : a.localeCompare(b)
+    );
+  }, [endpoints]);
+
+  const setSelected = (ids: string[], selected: boolean) => {
+    const next = new Set(selectedIds);
+    ids.forEach((id) => (selected ? next.add(id) : next.delete(id)));
+    onChange(next);
+  };
+
+  if (endpoints.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No endpoints found
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {groups.map(([tag, groupEndpoints]) => {
+        const selectedCount = groupEndpoints.filter((e) => selectedIds.has(e.id)).length;
+
+        return (
+          <div key={tag} className="space-y-2">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="text-sm font-medium">{tag}</p>
+                <p className="text-xs text-muted-foreground">
+                  {selectedCount} of {groupEndpoints.length} selected
+                </p>
+              </div>
+              <Switch
+                checked={selectedCount === groupEndpoints.length}
+                onCheckedChange={(checked) =>
+                  setSelected(groupEndpoints.map((e) => e.id), checked)
+                }
+              />
+            </div>
+            <EndpointTable
+              endpoints={groupEndpoints.map((e) => ({ ...e, isEnabled: selectedIds.has(e.id) }))}
+              onToggle={(endpointId, selected) => setSelected([endpointId], selected)}
+              toggleLabel="Keep"
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 'use client';
 
+import { Fragment, useState } from 'react';
 import {
   Table,
   TableBody,
@@ -9,8 +10,16 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import { EndpointApproval } from '@/components/dashboard/endpoint-approval';
+import { EndpointPagination } from '@/components/dashboard/endpoint-pagination';
+import { EndpointPlayground } from '@/components/dashboard/endpoint-playground';
+import { EndpointResponseShaping } from '@/components/dashboard/endpoint-response-shaping';
 import { cn } from '@/lib/utils';
+import { ChevronUp, Play, ShieldCheck } from 'lucide-react';
+import type { EndpointExecution } from '@/lib/api';
 
 interface Endpoint {
   id: string;
@@ -18,14 +27,19 @@ interface Endpoint {
   path: string;
   summary?: string;
   isEnabled: boolean;
+  requiresApproval?: boolean;
 }
 
 interface EndpointTableProps {
   endpoints: Endpoint[];
-  onToggle: (endpointId: string, enabled: boolean) => void;
+  // Omit to render a read-only table
+  onToggle?: (endpointId: string, enabled: boolean) => void;
+  toggleLabel?: string;
+  // Set for registered APIs to offer a "Try it" panel on each row
+  apiId?: string;
 }
 
-const methodColors: Record<string, string> = {
+export const methodColors: Record<string, string> = {
   GET: 'bg-blue-500/10 text-blue-600 border-blue-500/20',
   POST: 'bg-green-500/10 text-green-600 border-green-500/20',
   PUT: 'bg-yellow-500/10 text-yellow-600 border-yellow-500/20',
@@ -33,7 +47,26 @@ const methodColors: Record<string, string> = {
   DELETE: 'bg-red-500/10 text-red-600 border-red-500/20',
 };
 
-export function EndpointTable({ endpoints, onToggle }: EndpointTableProps) {
+// Try-it panel plus the endpoint's tool settings; response shaping previews against the last try-it result
+function EndpointPanel({ apiId, endpointId }: { apiId: string; endpointId: string }) {
+  const [lastResult, setLastResult] = useState<EndpointExecution | null>(null);
+
+  return (
+    <>
+      <EndpointPlayground apiId={apiId} endpointId={endpointId} onResult={setLastResult} />
+      <Separator />
+      <EndpointResponseShaping apiId={apiId} endpointId={endpointId} sample={lastResult} />
+      <Separator />
+      <EndpointPagination apiId={apiId} endpointId={endpointId} />
+      <Separator />
+      <EndpointApproval apiId={apiId} endpointId={endpointId} />
+    </>
+  );
+}
+
+export function EndpointTable({ endpoints, onToggle, toggleLabel = 'Enabled', apiId }: EndpointTableProps) {
+  const [openId, setOpenId] = useState<string | null>(null);
+
   if (endpoints.length === 0) {
     return (
       <div className="text-center py-8 text-muted-foreground">
@@ -50,34 +83,65 @@ export function EndpointTable({ endpoints, onToggle }: EndpointTableProps) {
             <TableHead className="w-[100px]">Method</TableHead>
             <TableHead>Path</TableHead>
             <TableHead className="hidden md:table-cell">Description</TableHead>
-            <TableHead className="w-[100px] text-right">Enabled</TableHead>
+            {apiId && <TableHead className="w-[100px] text-right">Try it</TableHead>}
+            {onToggle && <TableHead className="w-[100px] text-right">{toggleLabel}</TableHead>}
           </TableRow>
         </TableHeader>
         <TableBody>
           {endpoints.map((endpoint) => (
-            <TableRow key={endpoint.id}>
-              <TableCell>
-                <Badge
-                  variant="outline"
-                  className={cn(
-                    'font-mono text-xs',
-                    methodColors[endpoint.method] || 'bg-gray-500/10 text-gray-600'
+            <Fragment key={endpoint.id}>
+              <TableRow>
+                <TableCell>
+                  <Badge
+                    variant="outline"
+                    className={cn(
+                      'font-mono text-xs',
+                      methodColors[endpoint.method] || 'bg-gray-500/10 text-gray-600'
+                    )}
+                  >
+                    {endpoint.method}
+                  </Badge>
+                </TableCell>
+                <TableCell className="font-mono text-sm">
+                  {endpoint.path}
+                  {endpoint.requiresApproval && (
+                    <Badge variant="secondary" className="ml-2 font-sans text-xs">
+                      <ShieldCheck className="mr-1 h-3 w-3" />
+                      Approval
+                    </Badge>
                   )}
-                >
-                  {endpoint.method}
-                </Badge>
-              </TableCell>
-              <TableCell className="font-mono text-sm">{endpoint.path}</TableCell>
-              <TableCell className="hidden md:table-cell text-muted-foreground">
-                {endpoint.summary || '-'}
-              </TableCell>
-              <TableCell className="text-right">
-                <Switch
-                  checked={endpoint.isEnabled}
-                  onCheckedChange={(checked) => onToggle(endpoint.id, checked)}
-                />
-              </TableCell>
-            </TableRow>
+                </TableCell>
+                <TableCell className="hidden md:table-cell text-muted-foreground">
+                  {endpoint.summary || '-'}
+                </TableCell>
+                {apiId && (
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setOpenId(openId === endpoint.id ? null : endpoint.id)}
+                    >
+                      {openId === endpoint.id ? <ChevronUp className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                    </Button>
+                  </TableCell>
+                )}
+                {onToggle && (
+                  <TableCell className="text-right">
+                    <Switch
+                      checked={endpoint.isEnabled}
+                      onCheckedChange={(checked) => onToggle(endpoint.id, checked)}
+                    />
+                  </TableCell>
+                )}
+              </TableRow>
+              {apiId && openId === endpoint.id && (
+                <TableRow className="hover:bg-transparent">
+                  <TableCell colSpan={onToggle ? 5 : 4} className="bg-muted/30 p-0 whitespace-normal">
+                    <EndpointPanel apiId={apiId} endpointId={endpoint.id} />
+                  </TableCell>
+                </TableRow>
+              )}
+            </Fragment>
           ))}
         </TableBody>
       </Table>
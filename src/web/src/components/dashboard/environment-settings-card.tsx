@@ -0,0 +1,195 @@
+'use client';
+
+import { useState } from 'react';
+import { useDeleteEnvironment, useSetEnvironment, useUpdateApi } from '@/hooks/use-apis';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertCircle, Loader2, Plus, Trash2 } from 'lucide-react';
+import type { ApiEnvironment } from '@/lib/api';
+
+const DEFAULT_ENVIRONMENT = 'default';
+
+interface EnvironmentSettingsCardProps {
+  apiId: string;
+  baseUrl: string;
+  environments: ApiEnvironment[];
+  activeEnvironment: string | null;
+}
+
+function errorMessage(err: unknown, fallback: string): string {
+  const axiosError = err as { response?: { data?: { error?: string; details?: string } } };
+  const data = axiosError.response?.data;
+  return data?.error ? (data.details ? `${data.error}: ${data.details}` : data.error) : fallback;
+}
+
+export function EnvironmentSettingsCard({
+  apiId,
+  baseUrl,
+  environments,
+  activeEnvironment,
+}: EnvironmentSettingsCardProps) {
+  const updateApi = useUpdateApi();
+  const setEnvironment = useSetEnvironment();
+  const deleteEnvironment = useDeleteEnvironment();
+  const active = environments.find((e) => e.name === activeEnvironment);
+  const [activeBaseUrl, setActiveBaseUrl] = useState(active?.baseUrl ?? '');
+  const [newName, setNewName] = useState('');
+  const [newBaseUrl, setNewBaseUrl] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSwitch = async (name: string) => {
+    setError(null);
+    try {
+      await updateApi.mutateAsync({ id: apiId, data: { environment: name } });
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to switch environment'));
+    }
+  };
+
+  const handleSaveBaseUrl = async () => {
+    if (!active) return;
+    setError(null);
+    try {
+      await setEnvironment.mutateAsync({ id: apiId, name: active.name, baseUrl: activeBaseUrl.trim() });
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to update environment'));
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!active) return;
+    setError(null);
+    try {
+      await deleteEnvironment.mutateAsync({ id: apiId, name: active.name });
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to remove environment'));
+    }
+  };
+
+  const handleAdd = async () => {
+    setError(null);
+    try {
+      await setEnvironment.mutateAsync({ id: apiId, name: newName.trim(), baseUrl: newBaseUrl.trim() });
+      setNewName('');
+      setNewBaseUrl('');
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to add environment'));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Environment</CardTitle>
+        <CardDescription>
+          Each environment has its own base URL and credentials. Calls use the selected one unless the
+          MCP token selects another.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="active-environment">Environment</Label>
+          <div className="flex items-center gap-2">
+            <Select
+              value={activeEnvironment ?? DEFAULT_ENVIRONMENT}
+              onValueChange={handleSwitch}
+              disabled={updateApi.isPending}
+            >
+              <SelectTrigger id="active-environment" className="w-full md:w-96">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_ENVIRONMENT}>
+                  {DEFAULT_ENVIRONMENT}
+                  <span className="text-muted-foreground"> - {baseUrl}</span>
+                </SelectItem>
+                {environments.map((e) => (
+                  <SelectItem key={e.name} value={e.name}>
+                    {e.name}
+                    <span className="text-muted-foreground"> - {e.baseUrl}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {updateApi.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+          </div>
+          {!active && (
+            <p className="text-xs text-muted-foreground">
+              The default environment is the API&apos;s own base URL and authentication.
+            </p>
+          )}
+        </div>
+
+        {active && (
+          <div className="space-y-2">
+            <Label htmlFor="environment-base-url">Base URL</Label>
+            <div className="flex flex-col gap-2 md:flex-row">
+              <Input
+                id="environment-base-url"
+                className="font-mono"
+                value={activeBaseUrl}
+                onChange={(e) => setActiveBaseUrl(e.target.value)}
+              />
+              <Button
+                variant="outline"
+                onClick={handleSaveBaseUrl}
+                disabled={!activeBaseUrl.trim() || activeBaseUrl.trim() === active.baseUrl || setEnvironment.isPending}
+              >
+                Save
+              </Button>
+              <Button variant="outline" onClick={handleRemove} disabled={deleteEnvironment.isPending}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                Remove
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2 pt-4 border-t">
+          <p className="text-sm font-medium">Add Environment</p>
+          <div className="grid gap-2 md:grid-cols-[12rem_1fr_auto]">
+            <Input placeholder="sandbox" value={newName} onChange={(e) => setNewName(e.target.value)} />
+            <Input
+              placeholder="https://sandbox.api.example.com"
+              className="font-mono"
+              value={newBaseUrl}
+              onChange={(e) => setNewBaseUrl(e.target.value)}
+            />
+            <Button
+              variant="outline"
+              onClick={handleAdd}
+              disabled={!newName.trim() || !newBaseUrl.trim() || setEnvironment.isPending}
+            >
+              {setEnvironment.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Plus className="mr-2 h-4 w-4" />
+              )}
+              Add
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            New environments start without authentication; select one to set its credentials below.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,196 @@
+'use client';
+
+import { useState } from 'react';
+import { useApplyRefresh } from '@/hooks/use-apis';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { methodColors } from '@/components/dashboard/endpoint-table';
+import { cn } from '@/lib/utils';
+import { AlertCircle, AlertTriangle, Check, Loader2, X } from 'lucide-react';
+import type { ApiEndpoint, ApiRefreshDiff } from '@/lib/api';
+
+interface RefreshDiffCardProps {
+  apiId: string;
+  diff: ApiRefreshDiff;
+  onClose: () => void;
+}
+
+function EndpointLabel({ endpoint }: { endpoint: Pick<ApiEndpoint, 'method' | 'path' | 'summary'> }) {
+  return (
+    <div className="flex items-center gap-3 min-w-0">
+      <Badge
+        variant="outline"
+        className={cn(
+          'font-mono text-xs shrink-0',
+          methodColors[endpoint.method] || 'bg-gray-500/10 text-gray-600'
+        )}
+      >
+        {endpoint.method}
+      </Badge>
+      <span className="font-mono text-sm truncate">{endpoint.path}</span>
+      {endpoint.summary && (
+        <span className="hidden md:inline text-sm text-muted-foreground truncate">
+          {endpoint.summary}
+        </span>
+      )}
+    </div>
+  );
+}
+
+export function RefreshDiffCard({ apiId, diff, onClose }: RefreshDiffCardProps) {
+  const applyRefresh = useApplyRefresh();
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  const versionChanged = diff.apiVersion !== diff.previousApiVersion;
+
+  const toggleAdded = (endpointId: string, include: boolean) => {
+    const next = new Set(excludedIds);
+    if (include) {
+      next.delete(endpointId);
+    } else {
+      next.add(endpointId);
+    }
+    setExcludedIds(next);
+  };
+
+  const handleAccept = async () => {
+    if (!diff.changeSetId) return;
+    setError(null);
+    try {
+      await applyRefresh.mutateAsync({
+        id: apiId,
+        data: { changeSetId: diff.changeSetId, excludedEndpointIds: Array.from(excludedIds) },
+      });
+      onClose();
+    } catch (err) {
+      const axiosError = err as { response?: { data?: { error?: string; details?: string } } };
+      const data = axiosError.response?.data;
+      setError(
+        data?.error
+          ? data.details ? `${data.error} ${data.details}` : data.error
+          : 'Failed to apply changes'
+      );
+    }
+  };
+
+  const handleReject = () => {
+    // The changes stay listed on the API page while the spec still differs, so they can be reviewed again
+    onClose();
+  };
+
+  if (!diff.changeSetId) {
+    return (
+      <Alert>
+        <Check className="h-4 w-4" />
+        <AlertDescription className="flex items-center justify-between gap-4">
+          <span>
+            The spec has no endpoint changes
+            {versionChanged && diff.apiVersion && ` (now version ${diff.apiVersion})`}.
+          </span>
+          <Button variant="ghost" size="icon" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Spec Changes</CardTitle>
+        <CardDescription>
+          {diff.added.length} added, {diff.removed.length} removed, {diff.changed.length} changed,{' '}
+          {diff.unchangedCount} unchanged
+          {versionChanged && diff.apiVersion && (
+            <> &middot; version {diff.previousApiVersion || 'unknown'} &rarr; {diff.apiVersion}</>
+          )}
+          . Enabled states and tool names are kept for existing endpoints.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {diff.hasBreakingChanges && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              Some changes may break MCP clients that already use these tools.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {diff.added.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Added</p>
+            <div className="rounded-md border divide-y">
+              {diff.added.map((endpoint) => (
+                <div key={endpoint.id} className="flex items-center justify-between gap-4 p-3">
+                  <EndpointLabel endpoint={endpoint} />
+                  <Switch
+                    checked={!excludedIds.has(endpoint.id)}
+                    onCheckedChange={(checked) => toggleAdded(endpoint.id, checked)}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {diff.removed.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Removed</p>
+            <div className="rounded-md border divide-y">
+              {diff.removed.map((endpoint) => (
+                <div key={endpoint.id} className="p-3 opacity-70 line-through">
+                  <EndpointLabel endpoint={endpoint} />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {diff.changed.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Changed</p>
+            <div className="rounded-md border divide-y">
+              {diff.changed.map((change) => (
+                <div key={change.endpoint.id} className="p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-4">
+                    <EndpointLabel endpoint={change.endpoint} />
+                    {change.isBreaking && <Badge variant="destructive">Breaking</Badge>}
+                  </div>
+                  <ul className="ml-4 list-disc text-sm text-muted-foreground">
+                    {change.changes.map((c) => (
+                      <li key={c.description} className={cn(c.isBreaking && 'text-destructive')}>
+                        {c.description}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-2 pt-4 border-t">
+          <Button onClick={handleAccept} disabled={applyRefresh.isPending}>
+            {applyRefresh.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Apply Changes
+          </Button>
+          <Button variant="outline" onClick={handleReject} disabled={applyRefresh.isPending}>
+            Reject
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
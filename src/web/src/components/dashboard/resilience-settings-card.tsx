@@ -0,0 +1,148 @@
+'use client';
+
+import { useState } from 'react';
+import { useUpdateApi } from '@/hooks/use-apis';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, CheckCircle2, Loader2 } from 'lucide-react';
+import type { Resilience } from '@/lib/api';
+
+interface ResilienceSettingsCardProps {
+  apiId: string;
+  resilience: Resilience;
+}
+
+type NumberField = Exclude<keyof Resilience, 'retryIdempotentOnly'>;
+
+const numberFields: { key: NumberField; label: string; hint: string }[] = [
+  { key: 'timeoutSeconds', label: 'Timeout (seconds)', hint: 'Time allowed for each attempt' },
+  { key: 'maxRetries', label: 'Retries', hint: 'After a timeout, network error, 429 or 5xx; 0 turns retrying off' },
+  { key: 'backoffMs', label: 'Backoff (ms)', hint: 'Wait before the first retry, doubled for each further one' },
+  {
+    key: 'circuitBreakerThreshold',
+    label: 'Circuit breaker threshold',
+    hint: 'Consecutive failed calls that pause calls to this API; 0 turns it off',
+  },
+  { key: 'circuitBreakerSeconds', label: 'Pause (seconds)', hint: 'How long calls stay paused' },
+];
+
+export function ResilienceSettingsCard({ apiId, resilience }: ResilienceSettingsCardProps) {
+  const updateApi = useUpdateApi();
+  const [values, setValues] = useState<Record<NumberField, string>>(() => ({
+    timeoutSeconds: String(resilience.timeoutSeconds),
+    maxRetries: String(resilience.maxRetries),
+    backoffMs: String(resilience.backoffMs),
+    circuitBreakerThreshold: String(resilience.circuitBreakerThreshold),
+    circuitBreakerSeconds: String(resilience.circuitBreakerSeconds),
+  }));
+  const [retryIdempotentOnly, setRetryIdempotentOnly] = useState(resilience.retryIdempotentOnly);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const handleChange = (key: NumberField, value: string) => {
+    setValues({ ...values, [key]: value });
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    setSaved(false);
+
+    const invalid = numberFields.find(({ key }) => !/^\d+$/.test(values[key].trim()));
+    if (invalid) {
+      setError(`${invalid.label} must be a whole number`);
+      return;
+    }
+
+    try {
+      await updateApi.mutateAsync({
+        id: apiId,
+        data: {
+          resilience: {
+            timeoutSeconds: Number(values.timeoutSeconds),
+            maxRetries: Number(values.maxRetries),
+            backoffMs: Number(values.backoffMs),
+            retryIdempotentOnly,
+            circuitBreakerThreshold: Number(values.circuitBreakerThreshold),
+            circuitBreakerSeconds: Number(values.circuitBreakerSeconds),
+          },
+        },
+      });
+      setSaved(true);
+    } catch (err) {
+      const axiosError = err as { response?: { data?: { error?: string; details?: string } } };
+      const data = axiosError.response?.data;
+      setError(
+        data?.error
+          ? data.details ? `${data.error}: ${data.details}` : data.error
+          : 'Failed to update resilience settings'
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Timeouts &amp; Retries</CardTitle>
+        <CardDescription>
+          How calls to this API are retried when they fail. Retry-After headers are honored.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {saved && (
+          <Alert>
+            <CheckCircle2 className="h-4 w-4" />
+            <AlertDescription>Resilience settings updated</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-2">
+          {numberFields.map(({ key, label, hint }) => (
+            <div key={key} className="space-y-2">
+              <Label htmlFor={`resilience-${key}`}>{label}</Label>
+              <Input
+                id={`resilience-${key}`}
+                type="number"
+                min={0}
+                value={values[key]}
+                onChange={(e) => handleChange(key, e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">{hint}</p>
+            </div>
+          ))}
+          <div className="flex items-center justify-between gap-4 rounded-lg border p-4">
+            <div className="space-y-1">
+              <Label htmlFor="resilience-idempotent">Only retry safe methods</Label>
+              <p className="text-xs text-muted-foreground">
+                POST and PATCH are not retried, except after a 429
+              </p>
+            </div>
+            <Switch
+              id="resilience-idempotent"
+              checked={retryIdempotentOnly}
+              onCheckedChange={(checked) => {
+                setRetryIdempotentOnly(checked);
+                setSaved(false);
+              }}
+            />
+          </div>
+        </div>
+
+        <Button onClick={handleSave} disabled={updateApi.isPending}>
+          {updateApi.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,187 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Download } from 'lucide-react';
+import type { EndpointExecution } from '@/lib/api';
+
+const CSV_PREVIEW_ROWS = 50;
+
+interface ResponseBodyPreviewProps {
+  result: EndpointExecution;
+}
+
+function formatBody(body?: string): string {
+  if (!body) return '';
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} bytes`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Splits CSV text into rows; quoted fields may contain commas, line breaks and doubled quotes
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"' && field === '') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(field);
+      field = '';
+    } else if (c === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else if (c !== '\r') {
+      field += c;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.length > 1 || r[0] !== '');
+}
+
+// Uses the Content-Disposition file name when there is one
+function downloadName(result: EndpointExecution): string {
+  const disposition = Object.entries(result.headers).find(
+    ([name]) => name.toLowerCase() === 'content-disposition'
+  )?.[1][0];
+  const match = disposition?.match(/filename="?([^";]+)"?/i);
+  if (match) return match[1];
+
+  const subtype = result.contentType?.split('/')[1]?.split('+')[0];
+  return `response.${subtype && /^[a-z0-9-]+$/i.test(subtype) ? subtype : 'bin'}`;
+}
+
+function download(result: EndpointExecution) {
+  const type = result.contentType ?? 'application/octet-stream';
+  const blob = result.binaryBody
+    ? new Blob([Uint8Array.from(atob(result.binaryBody), (c) => c.charCodeAt(0))], { type })
+    : new Blob([result.body ?? ''], { type });
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = downloadName(result);
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function ResponseBodyPreview({ result }: ResponseBodyPreviewProps) {
+  const isBinary = result.binarySize !== undefined && result.binarySize !== null;
+  const isCsv = result.contentType === 'text/csv' || result.contentType === 'application/csv';
+  const isJson = !result.contentType || result.contentType.includes('json');
+  const canDownload = isBinary ? !!result.binaryBody : !isJson && !!result.body;
+
+  const renderBody = () => {
+    if (isBinary) {
+      if (!result.binaryBody) {
+        return (
+          <p className="text-sm text-muted-foreground">
+            {result.contentType} body of {formatSize(result.binarySize!)} is over the size limit and was not returned.
+          </p>
+        );
+      }
+
+      if (result.contentType?.startsWith('image/')) {
+        return (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={`data:${result.contentType};base64,${result.binaryBody}`}
+            alt="Response body"
+            className="max-h-96 rounded-lg border"
+          />
+        );
+      }
+
+      return (
+        <p className="text-sm text-muted-foreground">
+          {result.contentType} body, {formatSize(result.binarySize!)}
+        </p>
+      );
+    }
+
+    if (isCsv && result.body) {
+      const [header = [], ...rows] = parseCsv(result.body);
+      return (
+        <div className="max-h-96 overflow-auto rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {header.map((name, i) => (
+                  <TableHead key={i}>{name}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.slice(0, CSV_PREVIEW_ROWS).map((row, i) => (
+                <TableRow key={i}>
+                  {row.map((value, j) => (
+                    <TableCell key={j} className="font-mono text-xs">
+                      {value}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {rows.length > CSV_PREVIEW_ROWS && (
+            <p className="px-3 py-2 text-xs text-muted-foreground">
+              Showing {CSV_PREVIEW_ROWS} of {rows.length} rows
+            </p>
+          )}
+        </div>
+      );
+    }
+
+    return (
+      <pre className="max-h-96 overflow-auto rounded-lg bg-muted p-4 text-xs font-mono">
+        {formatBody(result.body) || '(empty body)'}
+      </pre>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      {renderBody()}
+      {canDownload && (
+        <Button variant="outline" size="sm" onClick={() => download(result)}>
+          <Download className="mr-2 h-4 w-4" />
+          Download
+        </Button>
+      )}
+    </div>
+  );
+}
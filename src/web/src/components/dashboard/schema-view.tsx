@@ -0,0 +1,154 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import type { JsonSchema } from '@/lib/api';
+
+const MAX_DEPTH = 6;
+
+interface SchemaViewProps {
+  schema: JsonSchema;
+}
+
+// Short type name such as "Pet", "string (date-time)", "Tag[]" or "integer | null"
+function typeLabel(schema: JsonSchema): string {
+  let label: string;
+  if (schema.type === 'array' && schema.items) {
+    label = `${typeLabel(schema.items)}[]`;
+  } else if (schema.title) {
+    label = schema.title;
+  } else if (schema.type) {
+    label = schema.format ? `${schema.type} (${schema.format})` : schema.type;
+  } else {
+    label = schema.oneOf || schema.anyOf ? 'union' : 'any';
+  }
+  return schema.nullable ? `${label} | null` : label;
+}
+
+function hasDetail(schema: JsonSchema): boolean {
+  if (schema.type === 'array') return !!schema.items && hasDetail(schema.items);
+  return !!(schema.properties || schema.oneOf || schema.anyOf || schema.not || schema.additionalProperties);
+}
+
+// Discriminator values that select a branch
+function discriminatorValues(parent: JsonSchema, branch: JsonSchema): string[] {
+  const mapping = parent.discriminator?.mapping;
+  if (!mapping || !branch.title) return [];
+  return Object.entries(mapping)
+    .filter(([, title]) => title === branch.title)
+    .map(([value]) => value);
+}
+
+function SchemaNode({ schema, depth }: { schema: JsonSchema; depth: number }) {
+  if (depth > MAX_DEPTH) {
+    return <p className="text-xs text-muted-foreground">…</p>;
+  }
+
+  if (schema.type === 'array' && schema.items) {
+    return <SchemaNode schema={schema.items} depth={depth} />;
+  }
+
+  const branches = schema.oneOf ?? schema.anyOf;
+  const required = new Set(schema.required ?? []);
+
+  return (
+    <div className="space-y-2">
+      {schema.properties && (
+        <ul className="space-y-1">
+          {Object.entries(schema.properties).map(([name, property]) => (
+            <li key={name} className="space-y-1">
+              <div className="flex flex-wrap items-baseline gap-2 text-xs">
+                <span className="font-mono">
+                  {name}
+                  {required.has(name) && <span className="text-destructive">*</span>}
+                </span>
+                <span className="font-mono text-muted-foreground">{typeLabel(property)}</span>
+                {property.enum?.length ? (
+                  <span className="font-mono text-muted-foreground">{property.enum.join(' | ')}</span>
+                ) : null}
+                {property.description && (
+                  <span className="text-muted-foreground">{property.description}</span>
+                )}
+              </div>
+              {hasDetail(property) && (
+                <div className="ml-2 border-l pl-3">
+                  <SchemaNode schema={property} depth={depth + 1} />
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {schema.additionalProperties === false && (
+        <p className="text-xs text-muted-foreground">No other properties allowed</p>
+      )}
+      {schema.additionalProperties && (
+        <div className="space-y-1">
+          <div className="flex items-baseline gap-2 text-xs">
+            <span className="font-mono">[key: string]</span>
+            <span className="font-mono text-muted-foreground">{typeLabel(schema.additionalProperties)}</span>
+          </div>
+          {hasDetail(schema.additionalProperties) && (
+            <div className="ml-2 border-l pl-3">
+              <SchemaNode schema={schema.additionalProperties} depth={depth + 1} />
+            </div>
+          )}
+        </div>
+      )}
+
+      {branches && (
+        <div className="space-y-2">
+          <p className="text-xs font-medium">
+            {schema.oneOf ? 'One of' : 'Any of'}
+            {schema.discriminator && (
+              <span className="font-normal text-muted-foreground">
+                {' '}
+                (selected by <span className="font-mono">{schema.discriminator.propertyName}</span>)
+              </span>
+            )}
+          </p>
+          {branches.map((branch, i) => {
+            const values = discriminatorValues(schema, branch);
+            return (
+              <div key={i} className="space-y-2 rounded-md border p-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-mono text-xs">{typeLabel(branch)}</span>
+                  {values.map((value) => (
+                    <Badge key={value} variant="outline" className="font-mono text-xs">
+                      {schema.discriminator!.propertyName} = {value}
+                    </Badge>
+                  ))}
+                </div>
+                {hasDetail(branch) && <SchemaNode schema={branch} depth={depth + 1} />}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {schema.not && (
+        <p className="text-xs text-muted-foreground">
+          Must not be <span className="font-mono">{typeLabel(schema.not)}</span>
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Read-only outline of a schema's properties, unions and constraints
+export function SchemaView({ schema }: SchemaViewProps) {
+  return (
+    <details className="rounded-md border">
+      <summary className="cursor-pointer px-3 py-2 text-sm font-medium">
+        Schema <span className="font-mono text-xs text-muted-foreground">{typeLabel(schema)}</span>
+      </summary>
+      <div className="border-t px-3 py-2">
+        {hasDetail(schema) ? (
+          <SchemaNode schema={schema} depth={0} />
+        ) : (
+          <p className="text-xs text-muted-foreground">No further structure</p>
+        )}
+      </div>
+    </details>
+  );
+}
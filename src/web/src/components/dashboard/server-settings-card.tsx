@@ -0,0 +1,187 @@
+'use client';
+
+import { useState } from 'react';
+import { useUpdateApi } from '@/hooks/use-apis';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertCircle, CheckCircle2, Loader2 } from 'lucide-react';
+import type { Server } from '@/lib/api';
+
+interface ServerSettingsCardProps {
+  apiId: string;
+  baseUrl: string;
+  servers: Server[];
+  selectedServer: string | null;
+  serverVariables: Record<string, string>;
+}
+
+// Mirrors the server: blank values fall back to the variable's default
+function resolveUrl(server: Server, values: Record<string, string>): string {
+  return Object.entries(server.variables)
+    .reduce((url, [name, variable]) => url.replaceAll(`{${name}}`, values[name]?.trim() || variable.default), server.url)
+    .replace(/\/+$/, '');
+}
+
+export function ServerSettingsCard({
+  apiId,
+  baseUrl,
+  servers,
+  selectedServer,
+  serverVariables,
+}: ServerSettingsCardProps) {
+  const updateApi = useUpdateApi();
+  const [serverName, setServerName] = useState(selectedServer ?? '');
+  const [values, setValues] = useState<Record<string, string>>(serverVariables);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const server = servers.find((s) => s.name === serverName);
+
+  const handleChange = (name: string, value: string) => {
+    setValues({ ...values, [name]: value });
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    if (!server) return;
+    setError(null);
+    setSaved(false);
+
+    try {
+      await updateApi.mutateAsync({
+        id: apiId,
+        data: {
+          server: server.name,
+          serverVariables: Object.fromEntries(
+            Object.entries(values)
+              .map(([name, value]) => [name, value.trim()])
+              .filter(([, value]) => value !== '')
+          ),
+        },
+      });
+      setSaved(true);
+    } catch (err) {
+      const axiosError = err as { response?: { data?: { error?: string; details?: string } } };
+      const data = axiosError.response?.data;
+      setError(
+        data?.error
+          ? data.details ? `${data.error}: ${data.details}` : data.error
+          : 'Failed to update server'
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Server</CardTitle>
+        <CardDescription>
+          Which of the servers in the spec calls go to. Tools can also target another server per call.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {saved && (
+          <Alert>
+            <CheckCircle2 className="h-4 w-4" />
+            <AlertDescription>Server updated</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="server-name">Server</Label>
+          <Select
+            value={serverName}
+            onValueChange={(value) => {
+              setServerName(value);
+              setSaved(false);
+            }}
+          >
+            <SelectTrigger id="server-name" className="w-full md:w-96">
+              <SelectValue placeholder="Custom base URL" />
+            </SelectTrigger>
+            <SelectContent>
+              {servers.map((s) => (
+                <SelectItem key={s.name} value={s.name}>
+                  {s.name}
+                  {s.description && <span className="text-muted-foreground"> - {s.description}</span>}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {!server && (
+            <p className="text-xs text-muted-foreground">
+              Calls go to the custom base URL <span className="font-mono">{baseUrl}</span>
+            </p>
+          )}
+        </div>
+
+        {server && Object.keys(server.variables).length > 0 && (
+          <div className="grid gap-4 md:grid-cols-2">
+            {Object.entries(server.variables).map(([name, variable]) => (
+              <div key={name} className="space-y-2">
+                <Label htmlFor={`server-variable-${name}`} className="font-mono">
+                  {name}
+                </Label>
+                {variable.enum?.length ? (
+                  <Select
+                    value={values[name] || variable.default}
+                    onValueChange={(value) => handleChange(name, value)}
+                  >
+                    <SelectTrigger id={`server-variable-${name}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {variable.enum.map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {option}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    id={`server-variable-${name}`}
+                    placeholder={variable.default}
+                    value={values[name] ?? ''}
+                    onChange={(e) => handleChange(name, e.target.value)}
+                  />
+                )}
+                {variable.description && (
+                  <p className="text-xs text-muted-foreground">{variable.description}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {server && (
+          <p className="text-sm">
+            <span className="text-muted-foreground">Calls go to </span>
+            <span className="font-mono">{resolveUrl(server, values)}</span>
+          </p>
+        )}
+
+        <Button onClick={handleSave} disabled={!server || updateApi.isPending}>
+          {updateApi.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
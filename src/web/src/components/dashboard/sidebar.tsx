@@ -10,7 +10,11 @@ import {
   LayoutDashboard,
   Plug,
   Key,
+  Cable,
+  FlaskConical,
   BarChart3,
+  History,
+  ShieldCheck,
   LogOut,
   User,
 } from 'lucide-react';
@@ -19,7 +23,11 @@ const navigation = [
   { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
   { name: 'APIs', href: '/apis', icon: Plug },
   { name: 'Tokens', href: '/tokens', icon: Key },
+  { name: 'Connect', href: '/connect', icon: Cable },
+  { name: 'Playground', href: '/playground', icon: FlaskConical },
   { name: 'Usage', href: '/usage', icon: BarChart3 },
+  { name: 'Call Log', href: '/calls', icon: History },
+  { name: 'Approvals', href: '/approvals', icon: ShieldCheck },
 ];
 
 export function Sidebar() {
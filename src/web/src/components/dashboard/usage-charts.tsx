@@ -0,0 +1,125 @@
+'use client';
+
+import { Skeleton } from '@/components/ui/skeleton';
+import type { DailyUsage, UsageBreakdownItem } from '@/lib/api';
+
+interface DailyUsageChartProps {
+  data?: DailyUsage[];
+  isLoading: boolean;
+}
+
+function formatDay(date: string) {
+  // Dates are UTC calendar days, so format them without shifting to local time
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+export function DailyUsageChart({ data, isLoading }: DailyUsageChartProps) {
+  if (isLoading || !data) {
+    return <Skeleton className="h-48" />;
+  }
+
+  const max = Math.max(...data.map((d) => d.callCount), 1);
+  const total = data.reduce((sum, d) => sum + d.callCount, 0);
+
+  if (total === 0) {
+    return (
+      <div className="flex h-48 items-center justify-center text-muted-foreground">
+        No calls in this period
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex h-48 items-end gap-px">
+        {data.map((day) => {
+          const successCount = day.callCount - day.errorCount;
+          return (
+            <div
+              key={day.date}
+              className="group relative flex h-full flex-1 flex-col justify-end"
+              title={`${formatDay(day.date)}: ${day.callCount.toLocaleString()} calls, ${day.errorCount.toLocaleString()} errors`}
+            >
+              <div
+                className="w-full bg-red-500/70"
+                style={{ height: `${(day.errorCount / max) * 100}%` }}
+              />
+              <div
+                className="w-full rounded-t-sm bg-primary/80 group-hover:bg-primary"
+                style={{ height: `${(successCount / max) * 100}%` }}
+              />
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{formatDay(data[0].date)}</span>
+        <span className="flex items-center gap-3">
+          <span className="flex items-center gap-1">
+            <span className="h-2 w-2 rounded-sm bg-primary/80" /> Success
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-2 w-2 rounded-sm bg-red-500/70" /> Error
+          </span>
+        </span>
+        <span>{formatDay(data[data.length - 1].date)}</span>
+      </div>
+    </div>
+  );
+}
+
+interface UsageBreakdownChartProps {
+  data?: UsageBreakdownItem[];
+  isLoading: boolean;
+  formatLabel?: (item: UsageBreakdownItem) => string;
+}
+
+export function UsageBreakdownChart({ data, isLoading, formatLabel }: UsageBreakdownChartProps) {
+  if (isLoading || !data) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-8" />
+        <Skeleton className="h-8" />
+        <Skeleton className="h-8" />
+      </div>
+    );
+  }
+
+  if (data.length === 0) {
+    return <div className="py-8 text-center text-muted-foreground">No calls in this period</div>;
+  }
+
+  const max = Math.max(...data.map((item) => item.callCount), 1);
+
+  return (
+    <div className="space-y-3">
+      {data.map((item) => (
+        <div key={item.key ?? '-'} className="space-y-1">
+          <div className="flex items-baseline justify-between gap-4 text-sm">
+            <div className="min-w-0">
+              <div className="truncate font-medium" title={item.label}>
+                {formatLabel ? formatLabel(item) : item.label}
+              </div>
+              {item.detail && (
+                <div className="truncate text-xs text-muted-foreground">{item.detail}</div>
+              )}
+            </div>
+            <div className="shrink-0 text-right text-xs text-muted-foreground">
+              <span className="font-medium text-foreground">{item.callCount.toLocaleString()}</span> calls
+              {item.errorCount > 0 && <span className="text-red-600"> · {item.errorCount} errors</span>}
+              {' · '}
+              {item.averageDurationMs} ms avg
+            </div>
+          </div>
+          <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+            <div className="h-full rounded-full bg-primary" style={{ width: `${(item.callCount / max) * 100}%` }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { methodColors } from '@/components/dashboard/endpoint-table';
+import { cn } from '@/lib/utils';
+import type { Webhook } from '@/lib/api';
+
+interface WebhooksCardProps {
+  webhooks: Webhook[];
+}
+
+export function WebhooksCard({ webhooks }: WebhooksCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Webhooks &amp; Callbacks</CardTitle>
+        <CardDescription>
+          Requests this API sends back to you. They are listed for reference and are not exposed as tools.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[100px]">Method</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead className="w-[100px]">Kind</TableHead>
+                <TableHead className="hidden md:table-cell">Description</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {webhooks.map((webhook, i) => (
+                <TableRow key={`${webhook.kind}-${webhook.name}-${webhook.method}-${i}`}>
+                  <TableCell>
+                    <Badge
+                      variant="outline"
+                      className={cn(
+                        'font-mono text-xs',
+                        methodColors[webhook.method] || 'bg-gray-500/10 text-gray-600'
+                      )}
+                    >
+                      {webhook.method}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <p className="font-mono text-sm">{webhook.name}</p>
+                    {webhook.kind === 'callback' && (
+                      <p className="text-xs text-muted-foreground">
+                        Sent to <span className="font-mono">{webhook.url}</span>
+                        {webhook.sourceOperationId && (
+                          <>
+                            {' '}after <span className="font-mono">{webhook.sourceOperationId}</span>
+                          </>
+                        )}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="secondary" className="text-xs">
+                      {webhook.kind}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="hidden md:table-cell text-muted-foreground">
+                    {webhook.summary || webhook.description || '-'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,23 +1,54 @@
 'use client';
 
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, type ReactNode } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+
+export interface ChatAction {
+  tool: string;
+  // Shown instead of the prettified tool name when set
+  label?: string;
+  detail?: string;
+  input?: unknown;
+  output?: string;
+  url?: string;
+  isError?: boolean;
+}
+
+export interface ChatReply {
+  message: string;
+  actions?: ChatAction[];
+}
+
+export interface ChatHistoryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Thrown by onSend to show its message instead of the generic error
+export class ChatError extends Error {}
 
 interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
-  actions?: DemoAction[];
+  actions?: ChatAction[];
+  isError?: boolean;
 }
 
-interface DemoAction {
-  tool: string;
-  input: Record<string, unknown>;
-  output: string;
-  url?: string;
+interface ChatWidgetProps {
+  title?: ReactNode;
+  description?: string;
+  examplePrompts?: string[];
+  placeholder?: string;
+  maxLength?: number;
+  className?: string;
+  messagesClassName?: string;
+  // Sends a message with the earlier conversation; defaults to the public GitHub demo
+  onSend?: (message: string, history: ChatHistoryMessage[]) => Promise<ChatReply>;
 }
 
 const EXAMPLE_PROMPTS = [
@@ -26,7 +57,44 @@ const EXAMPLE_PROMPTS = [
   "Search for issues about 'demo'",
 ];
 
-export function ChatWidget() {
+async function sendDemoMessage(message: string): Promise<ChatReply> {
+  const response = await fetch(
+    `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5001/api'}/demo/chat`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ message }),
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error('Failed to send message');
+  }
+
+  return response.json();
+}
+
+function formatJson(value: unknown): string {
+  if (typeof value !== 'string') return JSON.stringify(value ?? {}, null, 2);
+  try {
+    return JSON.stringify(JSON.parse(value), null, 2);
+  } catch {
+    return value;
+  }
+}
+
+export function ChatWidget({
+  title,
+  description = 'Try asking the AI to interact with GitHub. It can create issues, list issues, add comments, and more.',
+  examplePrompts = EXAMPLE_PROMPTS,
+  placeholder = 'Ask me to create an issue, list issues, etc...',
+  maxLength = 500,
+  className,
+  messagesClassName = 'h-80',
+  onSend = sendDemoMessage,
+}: ChatWidgetProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -50,27 +118,17 @@ export function ChatWidget() {
       content: messageText.trim(),
     };
 
+    // Failed turns are left out so the model only sees the real conversation
+    const history: ChatHistoryMessage[] = messages
+      .filter((m) => !m.isError)
+      .map((m) => ({ role: m.role, content: m.content }));
+
     setMessages((prev) => [...prev, userMessage]);
     setInput('');
     setIsLoading(true);
 
     try {
-      const response = await fetch(
-        `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5001/api'}/demo/chat`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ message: messageText.trim() }),
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error('Failed to send message');
-      }
-
-      const data = await response.json();
+      const data = await onSend(messageText.trim(), history);
 
       const assistantMessage: Message = {
         id: (Date.now() + 1).toString(),
@@ -85,7 +143,9 @@ export function ChatWidget() {
       const errorMessage: Message = {
         id: (Date.now() + 1).toString(),
         role: 'assistant',
-        content: 'Sorry, something went wrong. Please try again.',
+        content:
+          error instanceof ChatError ? error.message : 'Sorry, something went wrong. Please try again.',
+        isError: true,
       };
       setMessages((prev) => [...prev, errorMessage]);
     } finally {
@@ -108,33 +168,35 @@ export function ChatWidget() {
   };
 
   return (
-    <Card className="w-full max-w-2xl mx-auto shadow-xl">
+    <Card className={cn('w-full max-w-2xl mx-auto shadow-xl', className)}>
       <CardHeader className="border-b">
         <CardTitle className="flex items-center gap-2">
-          <svg
-            className="w-5 h-5"
-            fill="currentColor"
-            viewBox="0 0 24 24"
-          >
-            <path d="M12 0c-6.626 0-12 5.373-12 12 0 5.302 3.438 9.8 8.207 11.387.599.111.793-.261.793-.577v-2.234c-3.338.726-4.033-1.416-4.033-1.416-.546-1.387-1.333-1.756-1.333-1.756-1.089-.745.083-.729.083-.729 1.205.084 1.839 1.237 1.839 1.237 1.07 1.834 2.807 1.304 3.492.997.107-.775.418-1.305.762-1.604-2.665-.305-5.467-1.334-5.467-5.931 0-1.311.469-2.381 1.236-3.221-.124-.303-.535-1.524.117-3.176 0 0 1.008-.322 3.301 1.23.957-.266 1.983-.399 3.003-.404 1.02.005 2.047.138 3.006.404 2.291-1.552 3.297-1.23 3.297-1.23.653 1.653.242 2.874.118 3.176.77.84 1.235 1.911 1.235 3.221 0 4.609-2.807 5.624-5.479 5.921.43.372.823 1.102.823 2.222v3.293c0 .319.192.694.801.576 4.765-1.589 8.199-6.086 8.199-11.386 0-6.627-5.373-12-12-12z" />
-          </svg>
-          GitHub Demo
+          {title ?? (
+            <>
+              <svg
+                className="w-5 h-5"
+                fill="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path d="M12 0c-6.626 0-12 5.373-12 12 0 5.302 3.438 9.8 8.207 11.387.599.111.793-.261.793-.577v-2.234c-3.338.726-4.033-1.416-4.033-1.416-.546-1.387-1.333-1.756-1.333-1.756-1.089-.745.083-.729.083-.729 1.205.084 1.839 1.237 1.839 1.237 1.07 1.834 2.807 1.304 3.492.997.107-.775.418-1.305.762-1.604-2.665-.305-5.467-1.334-5.467-5.931 0-1.311.469-2.381 1.236-3.221-.124-.303-.535-1.524.117-3.176 0 0 1.008-.322 3.301 1.23.957-.266 1.983-.399 3.003-.404 1.02.005 2.047.138 3.006.404 2.291-1.552 3.297-1.23 3.297-1.23.653 1.653.242 2.874.118 3.176.77.84 1.235 1.911 1.235 3.221 0 4.609-2.807 5.624-5.479 5.921.43.372.823 1.102.823 2.222v3.293c0 .319.192.694.801.576 4.765-1.589 8.199-6.086 8.199-11.386 0-6.627-5.373-12-12-12z" />
+              </svg>
+              GitHub Demo
+            </>
+          )}
         </CardTitle>
-        <p className="text-sm text-muted-foreground">
-          Try asking the AI to interact with GitHub. It can create issues, list issues, add comments, and more.
-        </p>
+        <p className="text-sm text-muted-foreground">{description}</p>
       </CardHeader>
 
       <CardContent className="p-4">
         {/* Messages area */}
-        <div className="h-80 overflow-y-auto space-y-4 mb-4">
+        <div className={cn('overflow-y-auto space-y-4 mb-4', messagesClassName)}>
           {messages.length === 0 ? (
             <div className="text-center py-8">
               <p className="text-muted-foreground mb-4">
                 Try one of these examples:
               </p>
               <div className="flex flex-wrap justify-center gap-2">
-                {EXAMPLE_PROMPTS.map((example, index) => (
+                {examplePrompts.map((example, index) => (
                   <Button
                     key={index}
                     variant="outline"
@@ -171,9 +233,12 @@ export function ChatWidget() {
                           className="bg-background/50 rounded p-2 text-xs"
                         >
                           <div className="flex items-center gap-2 mb-1">
-                            <Badge variant="secondary" className="text-xs">
-                              {formatToolName(action.tool)}
+                            <Badge variant={action.isError ? 'destructive' : 'secondary'} className="text-xs">
+                              {action.label ?? formatToolName(action.tool)}
                             </Badge>
+                            {action.detail && (
+                              <span className="font-mono text-muted-foreground truncate">{action.detail}</span>
+                            )}
                             {action.url && (
                               <a
                                 href={action.url}
@@ -198,6 +263,27 @@ export function ChatWidget() {
                               </a>
                             )}
                           </div>
+                          {(action.input !== undefined || action.output) && (
+                            <details className="mt-1">
+                              <summary className="cursor-pointer text-muted-foreground">Input &amp; output</summary>
+                              <div className="mt-2 space-y-2">
+                                <div>
+                                  <p className="font-medium mb-1">Input</p>
+                                  <pre className="max-h-40 overflow-auto rounded bg-background p-2 font-mono whitespace-pre-wrap break-all">
+                                    {formatJson(action.input)}
+                                  </pre>
+                                </div>
+                                {action.output && (
+                                  <div>
+                                    <p className="font-medium mb-1">Output</p>
+                                    <pre className="max-h-60 overflow-auto rounded bg-background p-2 font-mono whitespace-pre-wrap break-all">
+                                      {formatJson(action.output)}
+                                    </pre>
+                                  </div>
+                                )}
+                              </div>
+                            </details>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -229,9 +315,9 @@ export function ChatWidget() {
             ref={inputRef}
             value={input}
             onChange={(e) => setInput(e.target.value)}
-            placeholder="Ask me to create an issue, list issues, etc..."
+            placeholder={placeholder}
             disabled={isLoading}
-            maxLength={500}
+            maxLength={maxLength}
             className="flex-1"
           />
           <Button type="submit" disabled={isLoading || !input.trim()}>
@@ -0,0 +1,363 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { KeyRound } from 'lucide-react';
+import type { AuthConfig, UpdateAuthRequest } from '@/lib/api';
+
+export type AuthType = 'none' | 'apiKey' | 'bearer' | 'basic' | 'oauth2';
+
+export interface AuthFormValues {
+  authType: AuthType;
+  in: string;
+  parameterName: string;
+  apiKeyValue: string;
+  bearerToken: string;
+  prefix: string;
+  username: string;
+  password: string;
+  flow: string;
+  tokenUrl: string;
+  authorizationUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string;
+}
+
+export const defaultAuthFormValues: AuthFormValues = {
+  authType: 'none',
+  in: 'header',
+  parameterName: 'X-API-Key',
+  apiKeyValue: '',
+  bearerToken: '',
+  prefix: 'Bearer',
+  username: '',
+  password: '',
+  flow: 'clientCredentials',
+  tokenUrl: '',
+  authorizationUrl: '',
+  clientId: '',
+  clientSecret: '',
+  scopes: '',
+};
+
+const authTypes: AuthType[] = ['none', 'apiKey', 'bearer', 'basic', 'oauth2'];
+
+// Pre-fills the form from an existing or spec-suggested auth configuration (never includes secrets)
+export function authFormValuesFrom(auth?: AuthConfig): AuthFormValues {
+  if (!auth) return defaultAuthFormValues;
+
+  const authType = authTypes.includes(auth.authType as AuthType)
+    ? (auth.authType as AuthType)
+    : 'none';
+
+  return {
+    ...defaultAuthFormValues,
+    authType,
+    in: auth.in || defaultAuthFormValues.in,
+    parameterName: auth.parameterName || defaultAuthFormValues.parameterName,
+    prefix: auth.prefix || defaultAuthFormValues.prefix,
+    flow: auth.flow || defaultAuthFormValues.flow,
+    tokenUrl: auth.tokenUrl || '',
+    authorizationUrl: auth.authorizationUrl || '',
+    scopes: auth.scopes?.join(' ') || '',
+  };
+}
+
+// Where the provider sends the user back after consent; must be registered with the provider
+export function getOAuthRedirectUri() {
+  if (typeof window === 'undefined') return '';
+  return `${window.location.origin}/apis/oauth/callback`;
+}
+
+function parseScopes(scopes: string) {
+  return scopes.split(/[\s,]+/).filter(Boolean);
+}
+
+// Mirrors the server-side required fields so the user sees errors before submitting.
+// Blank secrets are allowed when hasStoredSecret is set, since the server keeps the stored ones.
+export function validateAuthForm(values: AuthFormValues, hasStoredSecret = false): string | null {
+  switch (values.authType) {
+    case 'apiKey':
+      if (!values.parameterName.trim()) return 'Parameter name is required';
+      if (!values.apiKeyValue && !hasStoredSecret) return 'API key is required';
+      return null;
+    case 'bearer':
+      if (!values.bearerToken && !hasStoredSecret) return 'Bearer token is required';
+      return null;
+    case 'basic':
+      if (!hasStoredSecret && !values.username) return 'Username is required';
+      if (!hasStoredSecret && !values.password) return 'Password is required';
+      return null;
+    case 'oauth2':
+      if (!values.tokenUrl.trim()) return 'Token URL is required';
+      if (values.flow === 'authorizationCode' && !values.authorizationUrl.trim()) {
+        return 'Authorization URL is required';
+      }
+      if (!hasStoredSecret && !values.clientId) return 'Client ID is required';
+      if (!hasStoredSecret && !values.clientSecret) return 'Client secret is required';
+      return null;
+    default:
+      return null;
+  }
+}
+
+// Blank secret fields are sent as undefined so the server keeps what is already stored
+export function toUpdateAuthRequest(values: AuthFormValues): UpdateAuthRequest {
+  switch (values.authType) {
+    case 'apiKey':
+      return {
+        authType: 'apiKey',
+        in: values.in,
+        parameterName: values.parameterName.trim(),
+        apiKeyValue: values.apiKeyValue || undefined,
+      };
+    case 'bearer':
+      return {
+        authType: 'bearer',
+        bearerToken: values.bearerToken || undefined,
+        prefix: values.prefix.trim() || 'Bearer',
+      };
+    case 'basic':
+      return {
+        authType: 'basic',
+        username: values.username || undefined,
+        password: values.password || undefined,
+      };
+    case 'oauth2':
+      return {
+        authType: 'oauth2',
+        flow: values.flow,
+        tokenUrl: values.tokenUrl.trim(),
+        authorizationUrl: values.authorizationUrl.trim() || undefined,
+        clientId: values.clientId || undefined,
+        clientSecret: values.clientSecret || undefined,
+        scopes: parseScopes(values.scopes),
+      };
+    default:
+      return { authType: values.authType };
+  }
+}
+
+interface AuthConfigFieldsProps {
+  values: AuthFormValues;
+  onChange: (values: AuthFormValues) => void;
+  // Secrets are already stored for the selected type, so secret inputs may be left blank
+  hasStoredSecret?: boolean;
+}
+
+export function AuthConfigFields({ values, onChange, hasStoredSecret = false }: AuthConfigFieldsProps) {
+  const update = (patch: Partial<AuthFormValues>) => onChange({ ...values, ...patch });
+  const secretPlaceholder = (placeholder: string) =>
+    hasStoredSecret ? '•••••••• (leave blank to keep current)' : placeholder;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Authentication Type</Label>
+        <Select
+          value={values.authType}
+          onValueChange={(value) => update({ authType: value as AuthType })}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Select authentication type" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">No Authentication</SelectItem>
+            <SelectItem value="apiKey">API Key</SelectItem>
+            <SelectItem value="bearer">Bearer Token</SelectItem>
+            <SelectItem value="basic">Basic Auth</SelectItem>
+            <SelectItem value="oauth2">OAuth 2.0</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {hasStoredSecret && values.authType !== 'none' && (
+        <Badge variant="secondary" className="gap-1">
+          <KeyRound className="h-3 w-3" />
+          Secret is set
+        </Badge>
+      )}
+
+      {values.authType === 'apiKey' && (
+        <div className="space-y-4 p-4 rounded-lg border bg-muted/50">
+          <div className="space-y-2">
+            <Label htmlFor="apiKeyValue">API Key</Label>
+            <Input
+              id="apiKeyValue"
+              type="password"
+              autoComplete="off"
+              placeholder={secretPlaceholder('Your API key')}
+              value={values.apiKeyValue}
+              onChange={(e) => update({ apiKeyValue: e.target.value })}
+            />
+          </div>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Send In</Label>
+              <Select value={values.in} onValueChange={(value) => update({ in: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="header">Header</SelectItem>
+                  <SelectItem value="query">Query parameter</SelectItem>
+                  <SelectItem value="cookie">Cookie</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="parameterName">
+                {values.in === 'header' ? 'Header Name' : values.in === 'query' ? 'Parameter Name' : 'Cookie Name'}
+              </Label>
+              <Input
+                id="parameterName"
+                placeholder={values.in === 'header' ? 'X-API-Key' : 'api_key'}
+                value={values.parameterName}
+                onChange={(e) => update({ parameterName: e.target.value })}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {values.authType === 'bearer' && (
+        <div className="space-y-4 p-4 rounded-lg border bg-muted/50">
+          <div className="space-y-2">
+            <Label htmlFor="bearerToken">Bearer Token</Label>
+            <Input
+              id="bearerToken"
+              type="password"
+              autoComplete="off"
+              placeholder={secretPlaceholder('Your bearer token')}
+              value={values.bearerToken}
+              onChange={(e) => update({ bearerToken: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="prefix">Header Prefix</Label>
+            <Input
+              id="prefix"
+              placeholder="Bearer"
+              value={values.prefix}
+              onChange={(e) => update({ prefix: e.target.value })}
+            />
+            <p className="text-xs text-muted-foreground">
+              Sent as <code>Authorization: {values.prefix || 'Bearer'} &lt;token&gt;</code>
+            </p>
+          </div>
+        </div>
+      )}
+
+      {values.authType === 'basic' && (
+        <div className="space-y-4 p-4 rounded-lg border bg-muted/50">
+          <div className="space-y-2">
+            <Label htmlFor="username">Username</Label>
+            <Input
+              id="username"
+              autoComplete="off"
+              placeholder={secretPlaceholder('Username')}
+              value={values.username}
+              onChange={(e) => update({ username: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="password">Password</Label>
+            <Input
+              id="password"
+              type="password"
+              autoComplete="off"
+              placeholder={secretPlaceholder('Password')}
+              value={values.password}
+              onChange={(e) => update({ password: e.target.value })}
+            />
+          </div>
+        </div>
+      )}
+
+      {values.authType === 'oauth2' && (
+        <div className="space-y-4 p-4 rounded-lg border bg-muted/50">
+          <div className="space-y-2">
+            <Label>Flow</Label>
+            <Select value={values.flow} onValueChange={(value) => update({ flow: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="clientCredentials">Client credentials (machine-to-machine)</SelectItem>
+                <SelectItem value="authorizationCode">Authorization code (act as a user)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {values.flow === 'authorizationCode' && (
+            <div className="space-y-2">
+              <Label htmlFor="authorizationUrl">Authorization URL</Label>
+              <Input
+                id="authorizationUrl"
+                placeholder="https://auth.example.com/oauth/authorize"
+                value={values.authorizationUrl}
+                onChange={(e) => update({ authorizationUrl: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">
+                Register <code>{getOAuthRedirectUri()}</code> as a redirect URI with the provider.
+                After saving, connect your account to authorize access.
+              </p>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="tokenUrl">Token URL</Label>
+            <Input
+              id="tokenUrl"
+              placeholder="https://auth.example.com/oauth/token"
+              value={values.tokenUrl}
+              onChange={(e) => update({ tokenUrl: e.target.value })}
+            />
+          </div>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="clientId">Client ID</Label>
+              <Input
+                id="clientId"
+                autoComplete="off"
+                placeholder={secretPlaceholder('Client ID')}
+                value={values.clientId}
+                onChange={(e) => update({ clientId: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="clientSecret">Client Secret</Label>
+              <Input
+                id="clientSecret"
+                type="password"
+                autoComplete="off"
+                placeholder={secretPlaceholder('Client secret')}
+                value={values.clientSecret}
+                onChange={(e) => update({ clientSecret: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="scopes">Scopes (optional)</Label>
+            <Input
+              id="scopes"
+              placeholder="read write"
+              value={values.scopes}
+              onChange={(e) => update({ scopes: e.target.value })}
+            />
+            <p className="text-xs text-muted-foreground">
+              Separate scopes with spaces or commas
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import { FileText, Upload, X } from 'lucide-react';
+
+const acceptedExtensions = '.json,.yaml,.yml,.graphql,.gql,.txt';
+
+// Keep in sync with MaxSpecContentBytes in ApisController
+const maxSpecBytes = 10 * 1024 * 1024;
+
+interface SpecUploadFieldProps {
+  content: string;
+  fileName: string | null;
+  onChange: (content: string, fileName: string | null) => void;
+  onError: (message: string) => void;
+}
+
+export function SpecUploadField({ content, fileName, onChange, onError }: SpecUploadFieldProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const loadFile = async (file: File) => {
+    if (file.size > maxSpecBytes) {
+      onError('Spec files must be 10 MB or smaller');
+      return;
+    }
+    onChange(await file.text(), file.name);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) loadFile(file);
+  };
+
+  if (fileName) {
+    return (
+      <div className="flex items-center justify-between gap-4 p-4 rounded-lg border bg-muted/50">
+        <div className="flex items-center gap-3 min-w-0">
+          <FileText className="h-5 w-5 shrink-0 text-muted-foreground" />
+          <div className="min-w-0">
+            <p className="text-sm font-medium truncate">{fileName}</p>
+            <p className="text-xs text-muted-foreground">
+              {(new Blob([content]).size / 1024).toFixed(1)} KB
+            </p>
+          </div>
+        </div>
+        <Button type="button" variant="ghost" size="icon" onClick={() => onChange('', null)}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={() => inputRef.current?.click()}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ' ') inputRef.current?.click();
+        }}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={cn(
+          'flex flex-col items-center justify-center gap-2 p-6 rounded-lg border border-dashed cursor-pointer text-center transition-colors',
+          isDragging ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+        )}
+      >
+        <Upload className="h-6 w-6 text-muted-foreground" />
+        <p className="text-sm">
+          Drop a spec file here, or <span className="text-primary underline">browse</span>
+        </p>
+        <p className="text-xs text-muted-foreground">
+          OpenAPI / Swagger (JSON or YAML), Postman Collection v2.1, or GraphQL SDL
+        </p>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={acceptedExtensions}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) loadFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      <Textarea
+        placeholder="...or paste the spec here"
+        className="font-mono text-xs h-40"
+        value={content}
+        onChange={(e) => onChange(e.target.value, null)}
+      />
+    </div>
+  );
+}
@@ -1,7 +1,17 @@
 'use client';
 
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import { apisApi } from '@/lib/api';
+import {
+  apisApi,
+  type ApplyRefreshRequest,
+  type RegisterApiContentRequest,
+  type Pagination,
+  type RegisterApiRequest,
+  type ResponseShaping,
+  type ResponseShapingPreviewRequest,
+  type UpdateApiRequest,
+  type UpdateAuthRequest,
+} from '@/lib/api';
 
 export function useApis() {
   return useQuery({
@@ -24,25 +34,50 @@ export function useApi(id: string) {
   });
 }
 
-export interface RegisterApiRequest {
-  name: string;
-  specUrl: string;
-  description?: string;
-  authType: string;
-  apiKey?: string;
-  apiKeyHeader?: string;
-  bearerToken?: string;
-  basicUsername?: string;
-  basicPassword?: string;
+export function usePreviewApi() {
+  return useMutation({
+    // Uploaded or pasted specs carry their content; otherwise the spec is fetched from its URL
+    mutationFn: async (data: { baseUrl: string; specUrl?: string } | { baseUrl: string; content: string }) => {
+      const response = 'content' in data
+        ? await apisApi.previewContent(data)
+        : await apisApi.preview(data);
+      return response.data;
+    },
+  });
 }
 
 export function useRegisterApi() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (data: RegisterApiRequest) => {
-      const response = await apisApi.register(data);
-      return response.data;
+    // Registers the API, then stores credentials through the auth endpoint so they are encrypted server-side
+    mutationFn: async ({
+      request,
+      auth,
+    }: {
+      request: RegisterApiRequest | RegisterApiContentRequest;
+      auth?: UpdateAuthRequest;
+    }) => {
+      const response = 'content' in request
+        ? await apisApi.registerContent(request)
+        : await apisApi.register(request);
+      const registered = response.data;
+
+      if (!auth || auth.authType === 'none') {
+        return { api: registered, authError: null };
+      }
+
+      try {
+        const authResponse = await apisApi.updateAuth(registered.id, auth);
+        return { api: authResponse.data, authError: null };
+      } catch (err) {
+        // The API itself was registered; report the credential failure without losing that
+        const axiosError = err as { response?: { data?: { error?: string } } };
+        return {
+          api: registered,
+          authError: axiosError.response?.data?.error || 'Failed to save credentials',
+        };
+      }
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['apis'] });
@@ -59,7 +94,7 @@ export function useUpdateApi() {
       data,
     }: {
       id: string;
-      data: { displayName?: string; isEnabled?: boolean };
+      data: UpdateApiRequest;
     }) => {
       const response = await apisApi.update(id, data);
       return response.data;
@@ -108,12 +143,104 @@ export function useRefreshApi() {
       return response.data;
     },
     onSuccess: (_, id) => {
+      // Either the refresh was applied or its pending changes were recorded on the API
+      queryClient.invalidateQueries({ queryKey: ['apis'] });
+      queryClient.invalidateQueries({ queryKey: ['apis', id] });
+    },
+  });
+}
+
+export function useApplyRefresh() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: ApplyRefreshRequest }) => {
+      const response = await apisApi.applyRefresh(id, data);
+      return response.data;
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['apis'] });
+      queryClient.invalidateQueries({ queryKey: ['apis', id] });
+    },
+  });
+}
+
+export function useUpdateApiAuth() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: UpdateAuthRequest }) => {
+      const response = await apisApi.updateAuth(id, data);
+      return response.data;
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['apis'] });
+      queryClient.invalidateQueries({ queryKey: ['apis', id] });
+    },
+  });
+}
+
+export function useSetEnvironment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, name, baseUrl }: { id: string; name: string; baseUrl: string }) => {
+      const response = await apisApi.setEnvironment(id, name, baseUrl);
+      return response.data;
+    },
+    onSuccess: (_, { id }) => {
       queryClient.invalidateQueries({ queryKey: ['apis'] });
       queryClient.invalidateQueries({ queryKey: ['apis', id] });
     },
   });
 }
 
+export function useDeleteEnvironment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, name }: { id: string; name: string }) => {
+      await apisApi.deleteEnvironment(id, name);
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['apis'] });
+      queryClient.invalidateQueries({ queryKey: ['apis', id] });
+    },
+  });
+}
+
+export function useStartOAuth() {
+  return useMutation({
+    mutationFn: async ({
+      id,
+      redirectUri,
+      environment,
+    }: {
+      id: string;
+      redirectUri: string;
+      environment?: string;
+    }) => {
+      const response = await apisApi.startOAuth(id, redirectUri, environment);
+      return response.data;
+    },
+  });
+}
+
+export function useCompleteOAuth() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: { code: string; state: string }) => {
+      const response = await apisApi.completeOAuth(data);
+      return response.data;
+    },
+    onSuccess: (api) => {
+      queryClient.invalidateQueries({ queryKey: ['apis'] });
+      queryClient.invalidateQueries({ queryKey: ['apis', api.id] });
+    },
+  });
+}
+
 export function useApiEndpoints(apiId: string) {
   return useQuery({
     queryKey: ['apis', apiId, 'endpoints'],
@@ -125,6 +252,125 @@ export function useApiEndpoints(apiId: string) {
   });
 }
 
+export function useEndpointDetail(apiId: string, endpointId: string) {
+  return useQuery({
+    queryKey: ['apis', apiId, 'endpoints', endpointId],
+    queryFn: async () => {
+      const response = await apisApi.getEndpoint(apiId, endpointId);
+      return response.data;
+    },
+    enabled: !!apiId && !!endpointId,
+  });
+}
+
+export function useExecuteEndpoint() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      apiId,
+      endpointId,
+      args,
+    }: {
+      apiId: string;
+      endpointId: string;
+      args: Record<string, unknown>;
+    }) => {
+      const response = await apisApi.executeEndpoint(apiId, endpointId, args);
+      return response.data;
+    },
+    onSuccess: () => {
+      // Playground calls count against the monthly quota
+      queryClient.invalidateQueries({ queryKey: ['usage'] });
+    },
+  });
+}
+
+export function useUpdateResponseShaping() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      apiId,
+      endpointId,
+      shaping,
+    }: {
+      apiId: string;
+      endpointId: string;
+      shaping: ResponseShaping | null;
+    }) => {
+      const response = await apisApi.updateResponseShaping(apiId, endpointId, shaping);
+      return response.data;
+    },
+    onSuccess: (data, { apiId, endpointId }) => {
+      queryClient.setQueryData(['apis', apiId, 'endpoints', endpointId], data);
+    },
+  });
+}
+
+export function useUpdatePagination() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      apiId,
+      endpointId,
+      pagination,
+    }: {
+      apiId: string;
+      endpointId: string;
+      pagination: Pagination | null;
+    }) => {
+      const response = await apisApi.updatePagination(apiId, endpointId, pagination);
+      return response.data;
+    },
+    onSuccess: (data, { apiId, endpointId }) => {
+      queryClient.setQueryData(['apis', apiId, 'endpoints', endpointId], data);
+    },
+  });
+}
+
+export function useUpdateApprovalPolicy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      apiId,
+      endpointId,
+      requiresApproval,
+    }: {
+      apiId: string;
+      endpointId: string;
+      requiresApproval: boolean;
+    }) => {
+      const response = await apisApi.updateApprovalPolicy(apiId, endpointId, requiresApproval);
+      return response.data;
+    },
+    onSuccess: (data, { apiId, endpointId }) => {
+      queryClient.setQueryData(['apis', apiId, 'endpoints', endpointId], data);
+      // The endpoint list shows which endpoints require approval
+      queryClient.invalidateQueries({ queryKey: ['apis', apiId], exact: true });
+    },
+  });
+}
+
+export function usePreviewResponseShaping() {
+  return useMutation({
+    mutationFn: async ({
+      apiId,
+      endpointId,
+      data,
+    }: {
+      apiId: string;
+      endpointId: string;
+      data: ResponseShapingPreviewRequest;
+    }) => {
+      const response = await apisApi.previewResponseShaping(apiId, endpointId, data);
+      return response.data;
+    },
+  });
+}
+
 export function useToggleEndpoint() {
   const queryClient = useQueryClient();
 
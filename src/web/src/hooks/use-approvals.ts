@@ -0,0 +1,32 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { approvalsApi, type ApprovalFilter } from '@/lib/api';
+
+// Pending calls are waiting on someone, so keep the inbox fresh
+const REFRESH_INTERVAL_MS = 5000;
+
+export function useApprovals(status: ApprovalFilter) {
+  return useQuery({
+    queryKey: ['approvals', status],
+    queryFn: async () => {
+      const response = await approvalsApi.getAll(status);
+      return response.data;
+    },
+    refetchInterval: REFRESH_INTERVAL_MS,
+  });
+}
+
+export function useDecideApproval() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, approve, note }: { id: string; approve: boolean; note?: string }) => {
+      const response = approve ? await approvalsApi.approve(id, note) : await approvalsApi.reject(id, note);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['approvals'] });
+    },
+  });
+}
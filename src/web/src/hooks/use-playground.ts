@@ -0,0 +1,29 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { playgroundApi, PlaygroundMessage } from '@/lib/api';
+
+export function usePlaygroundTools() {
+  return useQuery({
+    queryKey: ['playground', 'tools'],
+    queryFn: async () => {
+      const response = await playgroundApi.getTools();
+      return response.data;
+    },
+  });
+}
+
+export function usePlaygroundChat() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ message, history }: { message: string; history: PlaygroundMessage[] }) => {
+      const response = await playgroundApi.chat(message, history);
+      return response.data;
+    },
+    onSuccess: () => {
+      // Tool calls count toward monthly usage
+      queryClient.invalidateQueries({ queryKey: ['usage'] });
+    },
+  });
+}
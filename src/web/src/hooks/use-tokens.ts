@@ -17,8 +17,16 @@ export function useCreateToken() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ name, expiresAt }: { name: string; expiresAt?: string }) => {
-      const response = await tokensApi.create(name, expiresAt);
+    mutationFn: async ({
+      name,
+      expiresAt,
+      defaultEnvironment,
+    }: {
+      name: string;
+      expiresAt?: string;
+      defaultEnvironment?: string;
+    }) => {
+      const response = await tokensApi.create(name, expiresAt, defaultEnvironment);
       return response.data;
     },
     onSuccess: () => {
@@ -27,6 +35,21 @@ export function useCreateToken() {
   });
 }
 
+export function useTestToken() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (token: string) => {
+      const response = await tokensApi.test(token);
+      return response.data;
+    },
+    onSuccess: () => {
+      // Testing counts as a use, so the token's last used date changes
+      queryClient.invalidateQueries({ queryKey: ['tokens'] });
+    },
+  });
+}
+
 export function useRevokeToken() {
   const queryClient = useQueryClient();
 
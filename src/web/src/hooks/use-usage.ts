@@ -1,7 +1,12 @@
 'use client';
 
-import { useQuery } from '@tanstack/react-query';
-import { usageApi } from '@/lib/api';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import {
+  usageApi,
+  type CallLogFilters,
+  type UsageBreakdownFilters,
+  type UsageDimension,
+} from '@/lib/api';
 
 export function useUsageSummary() {
   return useQuery({
@@ -25,3 +30,46 @@ export function useUsageHistory(months?: number) {
     },
   });
 }
+
+export function useDailyUsage(filters: UsageBreakdownFilters) {
+  return useQuery({
+    queryKey: ['usage', 'daily', filters],
+    queryFn: async () => {
+      const response = await usageApi.getDaily(filters);
+      return response.data;
+    },
+  });
+}
+
+export function useUsageBreakdown(by: UsageDimension, filters: UsageBreakdownFilters, top?: number) {
+  return useQuery({
+    queryKey: ['usage', 'breakdown', by, filters, top],
+    queryFn: async () => {
+      const response = await usageApi.getBreakdown(by, filters, top);
+      return response.data;
+    },
+  });
+}
+
+export function useCallLogs(filters: CallLogFilters) {
+  return useInfiniteQuery({
+    queryKey: ['usage', 'calls', filters],
+    queryFn: async ({ pageParam }) => {
+      const response = await usageApi.getCalls(filters, pageParam);
+      return response.data;
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.continuationToken ?? undefined,
+  });
+}
+
+export function useCallLog(id: string | null) {
+  return useQuery({
+    queryKey: ['usage', 'calls', 'detail', id],
+    queryFn: async () => {
+      const response = await usageApi.getCall(id!);
+      return response.data;
+    },
+    enabled: !!id,
+  });
+}
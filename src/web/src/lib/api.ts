@@ -121,40 +121,84 @@ export const apisApi = {
 
   get: (id: string) => api.get<ApiDetail>(`/apis/${id}`),
 
-  register: (data: {
-    name: string;
-    specUrl: string;
-    description?: string;
-    authType: string;
-    apiKey?: string;
-    apiKeyHeader?: string;
-    bearerToken?: string;
-    basicUsername?: string;
-    basicPassword?: string;
-  }) => api.post<ApiRegistration>('/apis', data),
+  // Parse a spec without saving it, for the registration wizard preview
+  preview: (data: { baseUrl: string; specUrl?: string }) =>
+    api.post<ApiPreview>('/apis/preview', data),
+
+  // Same as preview, for a spec that was uploaded or pasted instead of fetched from a URL
+  previewContent: (data: { baseUrl: string; content: string }) =>
+    api.post<ApiPreview>('/apis/preview/content', data),
+
+  register: (data: RegisterApiRequest) => api.post<ApiRegistration>('/apis', data),
 
-  update: (id: string, data: { displayName?: string; isEnabled?: boolean }) =>
-    api.put<ApiRegistration>(`/apis/${id}`, data),
+  registerContent: (data: RegisterApiContentRequest) =>
+    api.post<ApiRegistration>('/apis/content', data),
+
+  update: (id: string, data: UpdateApiRequest) => api.put<ApiRegistration>(`/apis/${id}`, data),
 
   delete: (id: string) => api.delete(`/apis/${id}`),
 
   toggle: (id: string, enabled: boolean) =>
     api.put<ApiRegistration>(`/apis/${id}/toggle`, { enabled }),
 
-  refresh: (id: string) => api.post<ApiDetail>(`/apis/${id}/refresh`),
+  // Re-parses the spec and returns the pending changes; nothing is saved until they are applied
+  refresh: (id: string) => api.post<ApiRefreshDiff>(`/apis/${id}/refresh`),
+
+  applyRefresh: (id: string, data: ApplyRefreshRequest) =>
+    api.post<ApiDetail>(`/apis/${id}/refresh/apply`, data),
+
+
+  updateAuth: (id: string, data: UpdateAuthRequest) =>
+    api.put<ApiRegistration>(`/apis/${id}/auth`, data),
+
+  // Adds an environment or changes its base URL
+  setEnvironment: (id: string, name: string, baseUrl: string) =>
+    api.put<ApiRegistration>(`/apis/${id}/environments/${encodeURIComponent(name)}`, { baseUrl }),
+
+  deleteEnvironment: (id: string, name: string) =>
+    api.delete(`/apis/${id}/environments/${encodeURIComponent(name)}`),
+
+  // Starts the OAuth 2.0 authorization code flow; the browser is sent to the returned URL
+  startOAuth: (id: string, redirectUri: string, environment?: string) =>
+    api.post<{ authorizationUrl: string }>(`/apis/${id}/oauth/authorize`, { redirectUri, environment }),
+
+  completeOAuth: (data: { code: string; state: string }) =>
+    api.post<ApiRegistration>('/apis/oauth/callback', data),
 
   getEndpoints: (id: string) => api.get<ApiEndpoint[]>(`/apis/${id}/endpoints`),
 
   toggleEndpoint: (apiId: string, endpointId: string, enabled: boolean) =>
     api.put<ApiEndpoint>(`/apis/${apiId}/endpoints/${endpointId}/toggle`, { enabled }),
+
+  getEndpoint: (apiId: string, endpointId: string) =>
+    api.get<ApiEndpointDetail>(`/apis/${apiId}/endpoints/${endpointId}`),
+
+  executeEndpoint: (apiId: string, endpointId: string, args: Record<string, unknown>) =>
+    api.post<EndpointExecution>(`/apis/${apiId}/endpoints/${endpointId}/execute`, { arguments: args }),
+
+  // Pass null to remove shaping so tools return the full response
+  updateResponseShaping: (apiId: string, endpointId: string, shaping: ResponseShaping | null) =>
+    api.put<ApiEndpointDetail>(`/apis/${apiId}/endpoints/${endpointId}/shaping`, { shaping }),
+
+  // Pass null to go back to detecting pagination from the endpoint's parameters
+  updatePagination: (apiId: string, endpointId: string, pagination: Pagination | null) =>
+    api.put<ApiEndpointDetail>(`/apis/${apiId}/endpoints/${endpointId}/pagination`, { pagination }),
+
+  updateApprovalPolicy: (apiId: string, endpointId: string, requiresApproval: boolean) =>
+    api.put<ApiEndpointDetail>(`/apis/${apiId}/endpoints/${endpointId}/approval`, { requiresApproval }),
+
+  previewResponseShaping: (apiId: string, endpointId: string, data: ResponseShapingPreviewRequest) =>
+    api.post<ResponseShapingPreview>(`/apis/${apiId}/endpoints/${endpointId}/shaping/preview`, data),
 };
 
 // Tokens API
 export const tokensApi = {
   getAll: () => api.get<McpToken[]>('/tokens'),
 
-  create: (name: string, expiresAt?: string) =>
-    api.post<{ token: McpToken; plaintextToken: string }>('/tokens', { name, expiresAt }),
+  create: (name: string, expiresAt?: string, defaultEnvironment?: string) =>
+    api.post<{ token: McpToken; plaintextToken: string }>('/tokens', { name, expiresAt, defaultEnvironment }),
+
+  test: (token: string) => api.post<TokenTestResult>('/tokens/test', { token }),
 
   revoke: (id: string) => api.put(`/tokens/${id}/revoke`),
 
@@ -167,6 +211,34 @@ export const usageApi = {
 
   getHistory: (months?: number) =>
     api.get<UsageRecord[]>(`/usage/history${months ? `?months=${months}` : ''}`),
+
+  getDaily: (filters: UsageBreakdownFilters) =>
+    api.get<DailyUsage[]>('/usage/daily', { params: filters }),
+
+  getBreakdown: (by: UsageDimension, filters: UsageBreakdownFilters, top?: number) =>
+    api.get<UsageBreakdownItem[]>('/usage/breakdown', { params: { ...filters, by, top } }),
+
+  getCalls: (filters: CallLogFilters, continuationToken?: string) =>
+    api.get<CallLogPage>('/usage/calls', { params: { ...filters, continuationToken } }),
+
+  getCall: (id: string) => api.get<CallLogDetail>(`/usage/calls/${id}`),
+};
+
+// Approvals API
+export const approvalsApi = {
+  getAll: (status: ApprovalFilter) => api.get<Approval[]>('/approvals', { params: { status } }),
+
+  approve: (id: string, note?: string) => api.post<Approval>(`/approvals/${id}/approve`, { note }),
+
+  reject: (id: string, note?: string) => api.post<Approval>(`/approvals/${id}/reject`, { note }),
+};
+
+// Playground API
+export const playgroundApi = {
+  getTools: () => api.get<PlaygroundTools>('/playground/tools'),
+
+  chat: (message: string, history: PlaygroundMessage[]) =>
+    api.post<PlaygroundChatResponse>('/playground/chat', { message, history }),
 };
 
 // Types
@@ -181,6 +253,9 @@ export interface User {
   createdAt: string;
 }
 
+// How often the spec is re-synced automatically
+export type RefreshSchedule = 'off' | 'daily' | 'weekly';
+
 export interface ApiRegistration {
   id: string;
   displayName: string;
@@ -193,6 +268,7 @@ export interface ApiRegistration {
   isEnabled: boolean;
   createdAt: string;
   lastRefreshed: string;
+  refreshSchedule: RefreshSchedule;
   endpointCount: number;
   enabledEndpointCount: number;
 }
@@ -207,22 +283,289 @@ export interface ApiEndpoint {
   description?: string;
   tags: string[];
   isEnabled: boolean;
+  requiresApproval: boolean;
+}
+
+export interface JsonSchema {
+  // Absent on unions whose branches have different types
+  type?: string;
+  title?: string;
+  format?: string;
+  description?: string;
+  enum?: string[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  minimum?: number;
+  maximum?: number;
+  default?: unknown;
+  example?: unknown;
+  nullable?: boolean;
+  oneOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  not?: JsonSchema;
+  // false when no properties beyond the listed ones are allowed
+  additionalProperties?: JsonSchema | false;
+  discriminator?: SchemaDiscriminator;
+}
+
+export interface SchemaDiscriminator {
+  propertyName: string;
+  // Discriminator value to the title of the branch it selects
+  mapping?: Record<string, string>;
+}
+
+export interface EndpointParameter {
+  name: string;
+  in: string;
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+export interface ApiEndpointDetail {
+  endpoint: ApiEndpoint;
+  parameters: EndpointParameter[];
+  requestBody: {
+    required: boolean;
+    description?: string;
+    contentType: string;
+    schema: JsonSchema;
+  } | null;
+  responseShaping: ResponseShaping | null;
+  // Configured pagination; null when it is auto-detected
+  pagination: Pagination | null;
+  detectedPagination: Pagination | null;
+}
+
+export type PaginationStyle = 'link' | 'cursor' | 'page' | 'offset' | 'none';
+
+export interface Pagination {
+  style: PaginationStyle;
+  // Query parameter carrying the cursor, page number or offset
+  parameter?: string | null;
+  cursorPath?: string | null;
+  itemsPath?: string | null;
+}
+
+export interface ResponseShaping {
+  // JSONPath expressions of body fields to keep; null or empty keeps the whole body
+  fields: string[] | null;
+  maxArrayLength: number | null;
+  maxBytes: number | null;
+  // Null keeps all headers; an empty list drops them all
+  headers: string[] | null;
+}
+
+export interface ResponseShapingPreviewRequest {
+  shaping: ResponseShaping | null;
+  statusCode: number;
+  headers?: Record<string, string[]>;
+  body?: string;
+}
+
+export interface ResponseShapingPreview {
+  original: string;
+  shaped: string;
+  originalBytes: number;
+  shapedBytes: number;
+}
+
+export interface EndpointExecution {
+  statusCode: number;
+  reasonPhrase?: string;
+  isSuccess: boolean;
+  headers: Record<string, string[]>;
+  body?: string;
+  durationMs: number;
+  attempts: number;
+  pageCount: number;
+  hasMorePages: boolean;
+  contentType?: string;
+  // Base64 body of a binary response; missing when it was over the size limit
+  binaryBody?: string;
+  binarySize?: number;
+}
+
+export interface AuthConfig {
+  authType: string;
+  name?: string;
+  in?: string;
+  parameterName?: string;
+  prefix?: string;
+  // Secrets are never returned, only whether they have been stored
+  hasSecret: boolean;
+  flow?: string;
+  tokenUrl?: string;
+  authorizationUrl?: string;
+  scopes?: string[];
+  hasRefreshToken: boolean;
 }
 
 export interface ApiDetail extends Omit<ApiRegistration, 'endpointCount' | 'enabledEndpointCount'> {
-  auth: {
-    authType: string;
-    name?: string;
-    in?: string;
-    parameterName?: string;
-    prefix?: string;
-  };
+  auth: AuthConfig;
+  resilience: Resilience;
   endpoints: ApiEndpoint[];
+  webhooks: Webhook[];
+  servers: Server[];
+  // Null when a custom base URL is used
+  selectedServer: string | null;
+  serverVariables: Record<string, string>;
+  environments: ApiEnvironment[];
+  // Null when calls use the default environment
+  activeEnvironment: string | null;
+  // Null unless a refresh found changes that wait for review
+  pendingChanges: PendingSpecChanges | null;
+}
+
+// Summary of spec changes a refresh found; nothing is applied until they are reviewed
+export interface PendingSpecChanges {
+  detectedAt: string;
+  apiVersion?: string;
+  addedCount: number;
+  removedCount: number;
+  changedCount: number;
+  hasBreakingChanges: boolean;
+}
+
+// A named environment, e.g. sandbox, with its own base URL and credentials.
+// The API's own base URL and auth are the "default" environment.
+export interface ApiEnvironment {
+  name: string;
+  baseUrl: string;
+  auth: AuthConfig;
+}
+
+// A server declared by the spec, e.g. production, sandbox or a region
+export interface Server {
+  name: string;
+  // URL template with {variables}
+  url: string;
+  description?: string;
+  variables: Record<string, ServerVariable>;
+}
+
+export interface ServerVariable {
+  default: string;
+  // Allowed values; absent when any value is allowed
+  enum?: string[];
+  description?: string;
+}
+
+// A request the API sends back: a 3.1 webhook, or a callback registered by one of its operations
+export interface Webhook {
+  kind: 'webhook' | 'callback';
+  name: string;
+  method: string;
+  // Runtime expression a callback is sent to, e.g. {$request.body#/callbackUrl}
+  url?: string;
+  sourceOperationId?: string;
+  operationId?: string;
+  summary?: string;
+  description?: string;
+}
+
+// Timeout, retry and circuit breaker settings for calls to an API
+export interface Resilience {
+  timeoutSeconds: number;
+  maxRetries: number;
+  backoffMs: number;
+  retryIdempotentOnly: boolean;
+  // 0 turns the circuit breaker off
+  circuitBreakerThreshold: number;
+  circuitBreakerSeconds: number;
+}
+
+export interface UpdateApiRequest {
+  displayName?: string;
+  isEnabled?: boolean;
+  refreshSchedule?: RefreshSchedule;
+  resilience?: Resilience;
+  server?: string;
+  serverVariables?: Record<string, string>;
+  // "default" for the API's own base URL and auth
+  environment?: string;
+}
+
+export interface ApiPreview {
+  id: string;
+  displayName: string;
+  baseUrl: string;
+  specUrl?: string;
+  openApiVersion: string;
+  apiVersion?: string;
+  description?: string;
+  auth: AuthConfig;
+  alreadyRegistered: boolean;
+  // Null when the user's tier has no endpoint limit
+  maxEndpointsPerApi: number | null;
+  endpoints: ApiEndpoint[];
+}
+
+export interface EndpointChange {
+  endpoint: ApiEndpoint;
+  previousMethod: string;
+  previousPath: string;
+  isBreaking: boolean;
+  changes: { description: string; isBreaking: boolean }[];
+}
+
+export interface ApiRefreshDiff {
+  // Null when nothing changed and the refresh was applied immediately
+  changeSetId: string | null;
+  previousApiVersion?: string;
+  apiVersion?: string;
+  added: ApiEndpoint[];
+  removed: ApiEndpoint[];
+  changed: EndpointChange[];
+  unchangedCount: number;
+  hasBreakingChanges: boolean;
+}
+
+export interface ApplyRefreshRequest {
+  changeSetId: string;
+  // Added endpoints to leave out
+  excludedEndpointIds?: string[];
+}
+
+export interface RegisterApiRequest {
+  baseUrl: string;
+  specUrl?: string;
+  displayName?: string;
+  description?: string;
+  // Endpoints to keep; the rest are not saved
+  selectedEndpointIds?: string[];
+}
+
+export interface RegisterApiContentRequest extends Omit<RegisterApiRequest, 'specUrl'> {
+  content: string;
+}
+
+export interface UpdateAuthRequest {
+  authType: string;
+  name?: string;
+  in?: string;
+  parameterName?: string;
+  apiKeyValue?: string;
+  bearerToken?: string;
+  prefix?: string;
+  username?: string;
+  password?: string;
+  flow?: string;
+  tokenUrl?: string;
+  authorizationUrl?: string;
+  clientId?: string;
+  clientSecret?: string;
+  scopes?: string[];
+  // The default environment when absent
+  environment?: string;
 }
 
 export interface McpToken {
   id: string;
   name: string;
+  // Environment the token's calls use for APIs that define it
+  defaultEnvironment?: string;
   createdAt: string;
   lastUsedAt?: string;
   expiresAt?: string;
@@ -230,6 +573,13 @@ export interface McpToken {
   isActive: boolean;
 }
 
+export interface TokenTestResult {
+  tokenId: string;
+  tokenName: string;
+  apiCount: number;
+  endpointCount: number;
+}
+
 export interface UsageSummary {
   apiCallsUsed: number;
   apiCallsLimit: number;
@@ -247,3 +597,134 @@ export interface UsageRecord {
   firstCallAt?: string;
   lastCallAt?: string;
 }
+
+export type UsageDimension = 'api' | 'endpoint' | 'token' | 'source';
+
+export interface UsageBreakdownFilters {
+  days?: number;
+  apiId?: string;
+  tokenId?: string;
+  source?: CallLogSource;
+}
+
+export interface DailyUsage {
+  date: string;
+  callCount: number;
+  errorCount: number;
+}
+
+export interface UsageBreakdownItem {
+  key?: string;
+  label: string;
+  detail?: string;
+  callCount: number;
+  errorCount: number;
+  averageDurationMs: number;
+}
+
+export type CallLogSource = 'mcp' | 'playground' | 'try-it';
+
+export interface CallLogFilters {
+  apiId?: string;
+  source?: CallLogSource;
+  tokenId?: string;
+  status?: 'success' | 'error';
+  search?: string;
+  from?: string;
+  to?: string;
+  pageSize?: number;
+}
+
+export interface CallLogEntry {
+  id: string;
+  timestamp: string;
+  source: CallLogSource;
+  tokenId?: string;
+  tokenName?: string;
+  apiId: string;
+  apiName: string;
+  environment?: string;
+  operationId: string;
+  method: string;
+  path: string;
+  statusCode?: number;
+  isSuccess: boolean;
+  durationMs: number;
+  error?: string;
+}
+
+export interface CallLogDetail {
+  summary: CallLogEntry;
+  arguments?: string;
+  requestUrl?: string;
+  requestHeaders?: Record<string, string[]>;
+  requestBody?: string;
+  responseHeaders?: Record<string, string[]>;
+  responseBody?: string;
+}
+
+export interface CallLogPage {
+  items: CallLogEntry[];
+  continuationToken?: string;
+}
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'executed' | 'expired';
+
+export type ApprovalFilter = ApprovalStatus | 'all';
+
+export interface Approval {
+  id: string;
+  status: ApprovalStatus;
+  tokenId?: string;
+  tokenName?: string;
+  environment?: string;
+  apiId: string;
+  apiName: string;
+  endpointId: string;
+  operationId: string;
+  method: string;
+  path: string;
+  toolName: string;
+  // JSON object of the tool arguments
+  arguments: string;
+  // Arguments of the last approved call to the same endpoint
+  previousArguments?: string;
+  createdAt: string;
+  expiresAt: string;
+  decidedAt?: string;
+  decisionNote?: string;
+  executedAt?: string;
+}
+
+export interface PlaygroundTool {
+  name: string;
+  description: string;
+  apiName: string;
+  method: string;
+  path: string;
+}
+
+export interface PlaygroundTools {
+  enabled: boolean;
+  tools: PlaygroundTool[];
+}
+
+export interface PlaygroundMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface PlaygroundToolCall {
+  tool: string;
+  apiName?: string;
+  method?: string;
+  path?: string;
+  input: unknown;
+  output: string;
+  isError: boolean;
+}
+
+export interface PlaygroundChatResponse {
+  message: string;
+  toolCalls: PlaygroundToolCall[];
+}
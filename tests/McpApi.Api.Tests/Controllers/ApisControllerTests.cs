@@ -0,0 +1,323 @@
+namespace McpApi.Api.Tests.Controllers;
+
+using McpApi.Api.Controllers;
+using McpApi.Api.DTOs;
+using McpApi.Api.Services;
+using McpApi.Core.Http;
+using McpApi.Core.Models;
+using McpApi.Core.Secrets;
+using McpApi.Core.Services;
+using McpApi.Core.Storage;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.Extensions.Caching.Memory;
+using Microsoft.Extensions.Logging.Abstractions;
+
+public class ApisControllerTests
+{
+    private const string UserId = "user-1";
+    private const string BaseUrl = "https://api.example.com";
+
+    #region Register Selection Tests
+
+    [Fact]
+    public async Task Register_WithoutSelection_SavesAllEndpoints()
+    {
+        // Arrange
+        var store = new MockApiRegistrationStore();
+        var controller = CreateController(store, endpointCount: 5);
+
+        // Act
+        var result = await controller.Register(CreateRequest(selectedEndpointIds: null), CancellationToken.None);
+
+        // Assert
+        Assert.IsType<CreatedAtActionResult>(result);
+        Assert.Equal(5, store.SavedEndpoints.Count);
+    }
+
+    [Fact]
+    public async Task Register_WithSelection_SavesOnlySelectedEndpoints()
+    {
+        // Arrange
+        var store = new MockApiRegistrationStore();
+        var controller = CreateController(store, endpointCount: 5);
+
+        // Act
+        var result = await controller.Register(CreateRequest(["ep-1", "EP-3"]), CancellationToken.None);
+
+        // Assert
+        Assert.IsType<CreatedAtActionResult>(result);
+        Assert.Equal(new[] { "ep-1", "ep-3" }, store.SavedEndpoints.Select(e => e.Id));
+    }
+
+    [Fact]
+    public async Task Register_WithSelectionWithinTierLimit_RegistersLargerSpec()
+    {
+        // Arrange
+        var store = new MockApiRegistrationStore();
+        var maxEndpoints = TierLimits.Free.MaxEndpointsPerApi;
+        var controller = CreateController(store, endpointCount: maxEndpoints + 10);
+        var selected = Enumerable.Range(1, maxEndpoints).Select(i => $"ep-{i}").ToList();
+
+        // Act
+        var result = await controller.Register(CreateRequest(selected), CancellationToken.None);
+
+        // Assert
+        Assert.IsType<CreatedAtActionResult>(result);
+        Assert.Equal(maxEndpoints, store.SavedEndpoints.Count);
+    }
+
+    [Fact]
+    public async Task Register_WithSelectionOverTierLimit_ReturnsBadRequest()
+    {
+        // Arrange
+        var store = new MockApiRegistrationStore();
+        var maxEndpoints = TierLimits.Free.MaxEndpointsPerApi;
+        var controller = CreateController(store, endpointCount: maxEndpoints + 10);
+        var selected = Enumerable.Range(1, maxEndpoints + 1).Select(i => $"ep-{i}").ToList();
+
+        // Act
+        var result = await controller.Register(CreateRequest(selected), CancellationToken.None);
+
+        // Assert
+        var error = GetError(result);
+        Assert.Contains($"{maxEndpoints + 1} endpoints selected", error.Error);
+        Assert.Empty(store.Registrations);
+        Assert.Empty(store.SavedEndpoints);
+    }
+
+    [Fact]
+    public async Task Register_WithSomeUnknownSelectedIds_IgnoresUnknownIds()
+    {
+        // Arrange
+        var store = new MockApiRegistrationStore();
+        var controller = CreateController(store, endpointCount: 3);
+
+        // Act
+        var result = await controller.Register(CreateRequest(["ep-2", "not-in-spec"]), CancellationToken.None);
+
+        // Assert
+        Assert.IsType<CreatedAtActionResult>(result);
+        Assert.Equal("ep-2", Assert.Single(store.SavedEndpoints).Id);
+    }
+
+    [Fact]
+    public async Task Register_WithOnlyUnknownSelectedIds_ReturnsBadRequest()
+    {
+        // Arrange
+        var store = new MockApiRegistrationStore();
+        var controller = CreateController(store, endpointCount: 3);
+
+        // Act
+        var result = await controller.Register(CreateRequest(["not-in-spec"]), CancellationToken.None);
+
+        // Assert
+        Assert.Equal("Select at least one endpoint to register", GetError(result).Error);
+        Assert.Empty(store.Registrations);
+    }
+
+    [Fact]
+    public async Task Register_WithEmptySelection_ReturnsBadRequest()
+    {
+        // Arrange
+        var store = new MockApiRegistrationStore();
+        var controller = CreateController(store, endpointCount: 3);
+
+        // Act
+        var result = await controller.Register(CreateRequest([]), CancellationToken.None);
+
+        // Assert
+        Assert.Equal("Select at least one endpoint to register", GetError(result).Error);
+        Assert.Empty(store.Registrations);
+    }
+
+    #endregion
+
+    #region Helper Methods
+
+    private static ApisController CreateController(MockApiRegistrationStore store, int endpointCount)
+    {
+        return new ApisController(
+            store,
+            new MockSpecLoader(endpointCount),
+            new MockHttpClientFactory(),
+            new MockCurrentUserService(),
+            new MockUsageTrackingService(),
+            new MockSecretResolver(),
+            new MockApiCallLogService(),
+            new MemoryCache(new MemoryCacheOptions()),
+            NullLogger<ApisController>.Instance);
+    }
+
+    private static RegisterApiRequest CreateRequest(List<string>? selectedEndpointIds)
+    {
+        return new RegisterApiRequest(BaseUrl, $"{BaseUrl}/openapi.json", SelectedEndpointIds: selectedEndpointIds);
+    }
+
+    private static ErrorResponse GetError(IActionResult result)
+    {
+        var badRequest = Assert.IsType<BadRequestObjectResult>(result);
+        return Assert.IsType<ErrorResponse>(badRequest.Value);
+    }
+
+    #endregion
+
+    #region Mock Implementations
+
+    private class MockSpecLoader : ISpecLoader
+    {
+        private readonly int _endpointCount;
+
+        public MockSpecLoader(int endpointCount)
+        {
+            _endpointCount = endpointCount;
+        }
+
+        public Task<ApiRegistration> LoadAsync(string baseUrl, string? specUrl, CancellationToken ct = default)
+        {
+            return Task.FromResult(new ApiRegistration
+            {
+                Id = "pet-store",
+                DisplayName = "Pet Store",
+                BaseUrl = baseUrl,
+                SpecUrl = specUrl,
+                OpenApiVersion = "3.0",
+                Auth = new NoAuthConfig(),
+                Endpoints = Enumerable.Range(1, _endpointCount)
+                    .Select(i => new ApiEndpoint
+                    {
+                        Id = $"ep-{i}",
+                        OperationId = $"ep-{i}",
+                        Method = "GET",
+                        Path = $"/pets/{i}"
+                    })
+                    .ToList()
+            });
+        }
+
+        public Task<ApiRegistration> ParseContentAsync(string baseUrl, string content, CancellationToken ct = default)
+            => throw new NotImplementedException();
+    }
+
+    private class MockApiRegistrationStore : IApiRegistrationStore
+    {
+        public List<ApiRegistration> Registrations { get; } = [];
+
+        public List<ApiEndpoint> SavedEndpoints { get; } = [];
+
+        public Task<ApiRegistration?> GetAsync(string userId, string id, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<ApiRegistration>> GetAllAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<ApiRegistration>> GetEnabledAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<ApiRegistration> UpsertAsync(ApiRegistration registration, CancellationToken ct = default)
+        {
+            Registrations.Add(registration);
+            return Task.FromResult(registration);
+        }
+
+        public Task DeleteAsync(string userId, string id, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<bool> ExistsAsync(string userId, string id, CancellationToken ct = default)
+            => Task.FromResult(Registrations.Any(r => r.UserId == userId && r.Id == id));
+
+        public Task<IReadOnlyList<ApiEndpoint>> GetEndpointsAsync(string userId, string apiId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<ApiEndpoint>> GetEnabledEndpointsAsync(string userId, string apiId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<ApiEndpoint?> GetEndpointAsync(string userId, string apiId, string endpointId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task SaveEndpointsAsync(string userId, string apiId, IEnumerable<ApiEndpoint> endpoints, CancellationToken ct = default)
+        {
+            SavedEndpoints.AddRange(endpoints);
+            return Task.CompletedTask;
+        }
+
+        public Task DeleteEndpointsAsync(string userId, string apiId, IEnumerable<string> endpointIds, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<ApiEndpoint> UpdateEndpointAsync(ApiEndpoint endpoint, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<int> GetEndpointCountAsync(string userId, string apiId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<int> GetEnabledEndpointCountAsync(string userId, string apiId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<EndpointSearchResult>> SearchEndpointsAsync(string userId, string query, int limit = 20, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<string> GetVersionAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<ApiRegistration>> GetScheduledForRefreshAsync(CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<int> GetApiCountAsync(string userId, CancellationToken ct = default)
+            => Task.FromResult(Registrations.Count(r => r.UserId == userId));
+
+        public Task DeleteAllForUserAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+    }
+
+    private class MockCurrentUserService : ICurrentUserService
+    {
+        public string? UserId => ApisControllerTests.UserId;
+
+        public bool IsAuthenticated => true;
+
+        public Task<User?> GetCurrentUserAsync(CancellationToken cancellationToken = default)
+            => Task.FromResult<User?>(new User { Id = ApisControllerTests.UserId, Email = "ada@example.com", Tier = "free" });
+    }
+
+    private class MockUsageTrackingService : IUsageTrackingService
+    {
+        public Task<bool> CanMakeApiCallAsync(string userId, string userTier, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<UsageRecord> RecordApiCallAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<UsageRecord> CheckAndRecordApiCallAsync(string userId, string userTier, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public bool CanRegisterApi(string userTier, int currentApiCount)
+            => currentApiCount < TierLimits.GetLimits(userTier).MaxApis;
+    }
+
+    private class MockHttpClientFactory : IHttpClientFactory
+    {
+        public HttpClient CreateClient(string name) => throw new NotImplementedException();
+    }
+
+    private class MockSecretResolver : ISecretResolver
+    {
+        public Task<string> ResolveAsync(SecretReference reference, string userId, string userSalt, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public SecretReference Encrypt(string plaintext, string userId, string userSalt)
+            => throw new NotImplementedException();
+    }
+
+    private class MockApiCallLogService : IApiCallLogService
+    {
+        public Task<ApiResponse> ExecuteAndLogAsync(
+            ApiCallContext context,
+            ApiRegistration api,
+            ApiEndpoint endpoint,
+            Dictionary<string, object?> parameters,
+            UserSecretContext? userContext = null,
+            CancellationToken ct = default)
+            => throw new NotImplementedException();
+    }
+
+    #endregion
+}
@@ -0,0 +1,365 @@
+namespace McpApi.Api.Tests.Services;
+
+using McpApi.Api.Services;
+using McpApi.Core;
+using McpApi.Core.Models;
+using McpApi.Core.Notifications;
+using McpApi.Core.Storage;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Logging.Abstractions;
+
+public class ScheduledSpecRefreshServiceTests
+{
+    private static readonly DateTime Now = new(2025, 6, 15, 12, 0, 0, DateTimeKind.Utc);
+
+    #region IsDue Tests
+
+    [Theory]
+    [InlineData(Constants.SpecRefresh.ScheduleDaily, 24 * 60, true)]
+    [InlineData(Constants.SpecRefresh.ScheduleDaily, 24 * 60 - 1, false)]
+    [InlineData(Constants.SpecRefresh.ScheduleWeekly, 7 * 24 * 60, true)]
+    [InlineData(Constants.SpecRefresh.ScheduleWeekly, 7 * 24 * 60 - 1, false)]
+    [InlineData(Constants.SpecRefresh.ScheduleWeekly, 24 * 60, false)]
+    public void IsDue_AtScheduleBoundary_ComparesWithLastRefresh(string schedule, int minutesSinceRefresh, bool expected)
+    {
+        // Arrange
+        var api = CreateApi(schedule);
+        api.LastRefreshed = Now.AddMinutes(-minutesSinceRefresh);
+
+        // Act
+        var isDue = ScheduledSpecRefreshService.IsDue(api, Now);
+
+        // Assert
+        Assert.Equal(expected, isDue);
+    }
+
+    [Fact]
+    public void IsDue_WithPendingChangesCheckedSinceRefresh_CountsFromLastCheck()
+    {
+        // Arrange
+        var api = CreateApi(Constants.SpecRefresh.ScheduleDaily);
+        api.LastRefreshed = Now.AddDays(-3);
+        api.PendingChanges = new PendingSpecChanges { DetectedAt = Now.AddDays(-2), CheckedAt = Now.AddHours(-23) };
+
+        // Act
+        var isDue = ScheduledSpecRefreshService.IsDue(api, Now);
+
+        // Assert
+        Assert.False(isDue);
+    }
+
+    [Fact]
+    public void IsDue_WithPendingChangesCheckedBeforeRefresh_CountsFromLastRefresh()
+    {
+        // Arrange
+        var api = CreateApi(Constants.SpecRefresh.ScheduleDaily);
+        api.LastRefreshed = Now.AddHours(-2);
+        api.PendingChanges = new PendingSpecChanges { DetectedAt = Now.AddDays(-2), CheckedAt = Now.AddDays(-2) };
+
+        // Act
+        var isDue = ScheduledSpecRefreshService.IsDue(api, Now);
+
+        // Assert
+        Assert.False(isDue);
+    }
+
+    #endregion
+
+    #region Refresh Tests
+
+    [Fact]
+    public async Task RefreshDueApisAsync_WithNewChanges_HoldsThemAndSendsEmail()
+    {
+        // Arrange
+        var api = CreateApi(Constants.SpecRefresh.ScheduleDaily);
+        var store = new MockApiRegistrationStore(api, CreateEndpoint("list-pets"));
+        var emailService = new MockEmailService();
+        var service = CreateService(store, new MockSpecLoader("list-pets", "create-pet"), emailService);
+
+        // Act
+        await service.RefreshDueApisAsync(CancellationToken.None);
+
+        // Assert
+        Assert.NotNull(api.PendingChanges);
+        Assert.Equal(1, api.PendingChanges.AddedCount);
+        Assert.Equal("list-pets", Assert.Single(store.Endpoints).Id);
+        var email = Assert.Single(emailService.SentEmails);
+        Assert.Equal("ada@example.com", email.To);
+        Assert.Contains("GET /create-pet: new endpoint", email.PlainTextContent);
+    }
+
+    [Fact]
+    public async Task RefreshDueApisAsync_WithSameChangesAgain_DoesNotSendSecondEmail()
+    {
+        // Arrange
+        var api = CreateApi(Constants.SpecRefresh.ScheduleDaily);
+        var store = new MockApiRegistrationStore(api, CreateEndpoint("list-pets"));
+        var emailService = new MockEmailService();
+        var service = CreateService(store, new MockSpecLoader("list-pets", "create-pet"), emailService);
+
+        await service.RefreshDueApisAsync(CancellationToken.None);
+        var firstPending = api.PendingChanges!;
+        firstPending.CheckedAt = DateTime.UtcNow.AddDays(-2);
+
+        // Act
+        await service.RefreshDueApisAsync(CancellationToken.None);
+
+        // Assert
+        Assert.Single(emailService.SentEmails);
+        Assert.Equal(firstPending.Signature, api.PendingChanges!.Signature);
+        Assert.Equal(firstPending.DetectedAt, api.PendingChanges.DetectedAt);
+        Assert.True(api.PendingChanges.CheckedAt > firstPending.CheckedAt);
+    }
+
+    [Fact]
+    public async Task RefreshDueApisAsync_WithDifferentChanges_SendsAnotherEmail()
+    {
+        // Arrange
+        var api = CreateApi(Constants.SpecRefresh.ScheduleDaily);
+        var store = new MockApiRegistrationStore(api, CreateEndpoint("list-pets"));
+        var emailService = new MockEmailService();
+        var specLoader = new MockSpecLoader("list-pets", "create-pet");
+        var service = CreateService(store, specLoader, emailService);
+
+        await service.RefreshDueApisAsync(CancellationToken.None);
+        api.PendingChanges!.CheckedAt = DateTime.UtcNow.AddDays(-2);
+        specLoader.EndpointIds = ["list-pets", "create-pet", "delete-pet"];
+
+        // Act
+        await service.RefreshDueApisAsync(CancellationToken.None);
+
+        // Assert
+        Assert.Equal(2, emailService.SentEmails.Count);
+        Assert.Equal(2, api.PendingChanges!.AddedCount);
+    }
+
+    [Fact]
+    public async Task RefreshDueApisAsync_WithoutEmailService_StillHoldsChanges()
+    {
+        // Arrange
+        var api = CreateApi(Constants.SpecRefresh.ScheduleDaily);
+        var store = new MockApiRegistrationStore(api, CreateEndpoint("list-pets"));
+        var service = CreateService(store, new MockSpecLoader("list-pets", "create-pet"), emailService: null);
+
+        // Act
+        await service.RefreshDueApisAsync(CancellationToken.None);
+
+        // Assert
+        Assert.NotNull(api.PendingChanges);
+        Assert.Equal(1, api.PendingChanges.AddedCount);
+        Assert.Equal("list-pets", Assert.Single(store.Endpoints).Id);
+    }
+
+    [Fact]
+    public async Task RefreshDueApisAsync_WhenNotDue_DoesNotLoadSpec()
+    {
+        // Arrange
+        var api = CreateApi(Constants.SpecRefresh.ScheduleWeekly);
+        api.LastRefreshed = DateTime.UtcNow.AddDays(-3);
+        var store = new MockApiRegistrationStore(api, CreateEndpoint("list-pets"));
+        var specLoader = new MockSpecLoader("list-pets", "create-pet");
+        var service = CreateService(store, specLoader, new MockEmailService());
+
+        // Act
+        await service.RefreshDueApisAsync(CancellationToken.None);
+
+        // Assert
+        Assert.Equal(0, specLoader.LoadCount);
+        Assert.Null(api.PendingChanges);
+    }
+
+    #endregion
+
+    #region Helper Methods
+
+    private static ApiRegistration CreateApi(string schedule)
+    {
+        return new ApiRegistration
+        {
+            Id = "pet-store",
+            UserId = "user-1",
+            DisplayName = "Pet Store",
+            BaseUrl = "https://api.example.com",
+            SpecUrl = "https://api.example.com/openapi.json",
+            OpenApiVersion = "3.0",
+            Auth = new NoAuthConfig(),
+            RefreshSchedule = schedule,
+            LastRefreshed = DateTime.UtcNow.AddDays(-8)
+        };
+    }
+
+    private static ApiEndpoint CreateEndpoint(string id)
+    {
+        return new ApiEndpoint
+        {
+            Id = id,
+            ApiId = "pet-store",
+            OperationId = id,
+            Method = "GET",
+            Path = $"/{id}"
+        };
+    }
+
+    private static ScheduledSpecRefreshService CreateService(
+        MockApiRegistrationStore store,
+        MockSpecLoader specLoader,
+        MockEmailService? emailService)
+    {
+        var services = new ServiceCollection()
+            .AddSingleton<ISpecLoader>(specLoader)
+            .BuildServiceProvider();
+
+        return new ScheduledSpecRefreshService(
+            services.GetRequiredService<IServiceScopeFactory>(),
+            store,
+            new MockUserStore(),
+            new ConfigurationBuilder().Build(),
+            NullLogger<ScheduledSpecRefreshService>.Instance,
+            emailService);
+    }
+
+    #endregion
+
+    #region Mock Implementations
+
+    private class MockSpecLoader : ISpecLoader
+    {
+        public MockSpecLoader(params string[] endpointIds)
+        {
+            EndpointIds = endpointIds;
+        }
+
+        public string[] EndpointIds { get; set; }
+
+        public int LoadCount { get; private set; }
+
+        public Task<ApiRegistration> LoadAsync(string baseUrl, string? specUrl, CancellationToken ct = default)
+        {
+            LoadCount++;
+
+            var registration = CreateApi(Constants.SpecRefresh.ScheduleOff);
+            registration.Endpoints = EndpointIds.Select(CreateEndpoint).ToList();
+            registration.LastRefreshed = DateTime.UtcNow;
+            return Task.FromResult(registration);
+        }
+
+        public Task<ApiRegistration> ParseContentAsync(string baseUrl, string content, CancellationToken ct = default)
+            => throw new NotImplementedException();
+    }
+
+    private class MockApiRegistrationStore : IApiRegistrationStore
+    {
+        private readonly ApiRegistration _api;
+
+        public MockApiRegistrationStore(ApiRegistration api, params ApiEndpoint[] endpoints)
+        {
+            _api = api;
+            Endpoints = endpoints.ToList();
+        }
+
+        public List<ApiEndpoint> Endpoints { get; private set; }
+
+        public Task<ApiRegistration?> GetAsync(string userId, string id, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<ApiRegistration>> GetAllAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<ApiRegistration>> GetEnabledAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<ApiRegistration> UpsertAsync(ApiRegistration registration, CancellationToken ct = default)
+            => Task.FromResult(registration);
+
+        public Task DeleteAsync(string userId, string id, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<bool> ExistsAsync(string userId, string id, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<ApiEndpoint>> GetEndpointsAsync(string userId, string apiId, CancellationToken ct = default)
+            => Task.FromResult<IReadOnlyList<ApiEndpoint>>(Endpoints.ToList());
+
+        public Task<IReadOnlyList<ApiEndpoint>> GetEnabledEndpointsAsync(string userId, string apiId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<ApiEndpoint?> GetEndpointAsync(string userId, string apiId, string endpointId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task SaveEndpointsAsync(string userId, string apiId, IEnumerable<ApiEndpoint> endpoints, CancellationToken ct = default)
+        {
+            Endpoints = endpoints.ToList();
+            return Task.CompletedTask;
+        }
+
+        public Task DeleteEndpointsAsync(string userId, string apiId, IEnumerable<string> endpointIds, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<ApiEndpoint> UpdateEndpointAsync(ApiEndpoint endpoint, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<int> GetEndpointCountAsync(string userId, string apiId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<int> GetEnabledEndpointCountAsync(string userId, string apiId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<EndpointSearchResult>> SearchEndpointsAsync(string userId, string query, int limit = 20, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<string> GetVersionAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<ApiRegistration>> GetScheduledForRefreshAsync(CancellationToken ct = default)
+            => Task.FromResult<IReadOnlyList<ApiRegistration>>([_api]);
+
+        public Task<int> GetApiCountAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task DeleteAllForUserAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+    }
+
+    private class MockUserStore : IUserStore
+    {
+        public Task<User?> GetByIdAsync(string id, CancellationToken cancellationToken = default)
+            => Task.FromResult<User?>(new User { Id = id, Email = "ada@example.com" });
+
+        public Task<User?> GetByEmailAsync(string email, CancellationToken cancellationToken = default)
+            => throw new NotImplementedException();
+
+        public Task<User?> GetByOAuthProviderAsync(string provider, string providerId, CancellationToken cancellationToken = default)
+            => throw new NotImplementedException();
+
+        public Task<User?> GetByEmailVerificationTokenAsync(string token, CancellationToken cancellationToken = default)
+            => throw new NotImplementedException();
+
+        public Task<User> UpsertAsync(User user, CancellationToken cancellationToken = default)
+            => throw new NotImplementedException();
+
+        public Task DeleteAsync(string id, CancellationToken cancellationToken = default)
+            => throw new NotImplementedException();
+
+        public Task<bool> EmailExistsAsync(string email, CancellationToken cancellationToken = default)
+            => throw new NotImplementedException();
+    }
+
+    private class MockEmailService : IEmailService
+    {
+        public List<(string To, string Subject, string PlainTextContent)> SentEmails { get; } = [];
+
+        public Task SendEmailAsync(
+            string to,
+            string subject,
+            string plainTextContent,
+            string htmlContent,
+            CancellationToken cancellationToken = default)
+        {
+            SentEmails.Add((to, subject, plainTextContent));
+            return Task.CompletedTask;
+        }
+    }
+
+    #endregion
+}
@@ -0,0 +1,300 @@
+namespace McpApi.Api.Tests.Services;
+
+using System.Net;
+using System.Text;
+using McpApi.Api.Services;
+using McpApi.Core.GraphQL;
+using McpApi.Core.OpenApi;
+using McpApi.Core.Postman;
+
+public class SpecLoaderTests
+{
+    private const string BaseUrl = "https://api.example.com";
+
+    private const string OpenApiJson = """
+        {
+          "openapi": "3.0.3",
+          "info": { "title": "Pet Store", "version": "1.0.0" },
+          "servers": [ { "url": "https://api.example.com" } ],
+          "paths": {
+            "/pets": {
+              "get": { "operationId": "listPets", "responses": { "200": { "description": "OK" } } }
+            }
+          }
+        }
+        """;
+
+    private const string OpenApiYaml = """
+        openapi: 3.0.3
+        info:
+          title: Pet Store
+          version: 1.0.0
+        servers:
+          - url: https://api.example.com
+        paths:
+          /pets:
+            get:
+              operationId: listPets
+              responses:
+                '200':
+                  description: OK
+        """;
+
+    private const string PostmanCollection = """
+        {
+          "info": {
+            "name": "Pet Store",
+            "schema": "https://schema.getpostman.com/json/collection/v2.1.0/collection.json"
+          },
+          "item": [
+            {
+              "name": "List Pets",
+              "request": {
+                "method": "GET",
+                "url": {
+                  "raw": "https://api.example.com/pets",
+                  "protocol": "https",
+                  "host": ["api", "example", "com"],
+                  "path": ["pets"]
+                }
+              }
+            }
+          ]
+        }
+        """;
+
+    private const string GraphQLSdl = """
+        type Query {
+          pets: [Pet]
+        }
+
+        type Pet {
+          id: ID!
+          name: String
+        }
+        """;
+
+    #region ParseContentAsync Tests
+
+    [Fact]
+    public async Task ParseContentAsync_WithOpenApiJson_ParsesAsOpenApi()
+    {
+        // Arrange
+        var loader = CreateLoader();
+
+        // Act
+        var registration = await loader.ParseContentAsync(BaseUrl, OpenApiJson);
+
+        // Assert
+        Assert.Equal("3.0", registration.OpenApiVersion);
+        Assert.Equal("listPets", Assert.Single(registration.Endpoints).OperationId);
+    }
+
+    [Fact]
+    public async Task ParseContentAsync_WithOpenApiYaml_ParsesAsOpenApi()
+    {
+        // Arrange
+        var loader = CreateLoader();
+
+        // Act
+        var registration = await loader.ParseContentAsync(BaseUrl, OpenApiYaml);
+
+        // Assert
+        Assert.Equal("3.0", registration.OpenApiVersion);
+        Assert.Equal("listPets", Assert.Single(registration.Endpoints).OperationId);
+    }
+
+    [Fact]
+    public async Task ParseContentAsync_WithPostmanCollection_UsesGivenBaseUrl()
+    {
+        // Arrange
+        var loader = CreateLoader();
+
+        // Act
+        var registration = await loader.ParseContentAsync("https://staging.example.com/", PostmanCollection);
+
+        // Assert
+        Assert.Equal("postman-2.1", registration.OpenApiVersion);
+        Assert.Equal("https://staging.example.com", registration.BaseUrl);
+        Assert.Single(registration.Endpoints);
+    }
+
+    [Fact]
+    public async Task ParseContentAsync_WithGraphQLSdl_ParsesAsGraphQL()
+    {
+        // Arrange
+        var loader = CreateLoader();
+
+        // Act
+        var registration = await loader.ParseContentAsync(BaseUrl, GraphQLSdl);
+
+        // Assert
+        Assert.Equal("graphql-sdl", registration.OpenApiVersion);
+        Assert.Equal("query-pets", Assert.Single(registration.Endpoints).Id);
+    }
+
+    [Fact]
+    public async Task ParseContentAsync_WithUnrecognizableContent_ThrowsOpenApiParseException()
+    {
+        // Arrange
+        var loader = CreateLoader();
+
+        // Act & Assert
+        await Assert.ThrowsAsync<OpenApiParseException>(
+            () => loader.ParseContentAsync(BaseUrl, "This is not an API description."));
+    }
+
+    [Fact]
+    public async Task ParseContentAsync_WithEmptyContent_ThrowsArgumentException()
+    {
+        // Arrange
+        var loader = CreateLoader();
+
+        // Act & Assert
+        await Assert.ThrowsAsync<ArgumentException>(() => loader.ParseContentAsync(BaseUrl, "  "));
+    }
+
+    [Fact]
+    public async Task ParseContentAsync_WithInternalBaseUrl_ThrowsArgumentException()
+    {
+        // Arrange
+        var loader = CreateLoader();
+
+        // Act & Assert
+        await Assert.ThrowsAsync<ArgumentException>(() => loader.ParseContentAsync("http://localhost", OpenApiJson));
+    }
+
+    #endregion
+
+    #region LoadAsync Tests
+
+    [Fact]
+    public async Task LoadAsync_WithOpenApiYamlSpecUrl_ParsesAsOpenApi()
+    {
+        // Arrange
+        var loader = CreateLoader(new Dictionary<string, string> { [$"{BaseUrl}/openapi.yaml"] = OpenApiYaml });
+
+        // Act
+        var registration = await loader.LoadAsync(BaseUrl, $"{BaseUrl}/openapi.yaml");
+
+        // Assert
+        Assert.Equal("3.0", registration.OpenApiVersion);
+        Assert.Equal($"{BaseUrl}/openapi.yaml", registration.SpecUrl);
+    }
+
+    [Fact]
+    public async Task LoadAsync_WithPostmanSpecUrl_ParsesAsPostman()
+    {
+        // Arrange
+        var loader = CreateLoader(new Dictionary<string, string> { [$"{BaseUrl}/collection.json"] = PostmanCollection });
+
+        // Act
+        var registration = await loader.LoadAsync(BaseUrl, $"{BaseUrl}/collection.json");
+
+        // Assert
+        Assert.Equal("postman-2.1", registration.OpenApiVersion);
+        Assert.Equal($"{BaseUrl}/collection.json", registration.SpecUrl);
+    }
+
+    [Fact]
+    public async Task LoadAsync_WithGraphQLSdlSpecUrl_ParsesAsGraphQL()
+    {
+        // Arrange
+        var loader = CreateLoader(new Dictionary<string, string> { [$"{BaseUrl}/schema.sdl"] = GraphQLSdl });
+
+        // Act
+        var registration = await loader.LoadAsync(BaseUrl, $"{BaseUrl}/schema.sdl");
+
+        // Assert
+        Assert.Equal("graphql-sdl", registration.OpenApiVersion);
+        Assert.Equal(BaseUrl, registration.BaseUrl);
+    }
+
+    [Fact]
+    public async Task LoadAsync_WithMissingSpec_ThrowsHttpRequestException()
+    {
+        // Arrange
+        var loader = CreateLoader();
+
+        // Act & Assert
+        await Assert.ThrowsAsync<HttpRequestException>(() => loader.LoadAsync(BaseUrl, $"{BaseUrl}/openapi.json"));
+    }
+
+    [Fact]
+    public async Task LoadAsync_WithInternalSpecUrl_ThrowsArgumentException()
+    {
+        // Arrange
+        var handler = new MockSpecHandler(new Dictionary<string, string>());
+        var loader = CreateLoader(handler);
+
+        // Act & Assert
+        await Assert.ThrowsAsync<ArgumentException>(
+            () => loader.LoadAsync(BaseUrl, "http://169.254.169.254/openapi.json"));
+        Assert.Equal(0, handler.RequestCount);
+    }
+
+    #endregion
+
+    #region Helper Methods
+
+    private static SpecLoader CreateLoader(Dictionary<string, string>? specs = null)
+    {
+        return CreateLoader(new MockSpecHandler(specs ?? new Dictionary<string, string>()));
+    }
+
+    private static SpecLoader CreateLoader(MockSpecHandler handler)
+    {
+        return new SpecLoader(
+            new OpenApiParser(new HttpClient(handler)),
+            new OpenApiDiscovery(new HttpClient(handler)),
+            new PostmanCollectionParser(new HttpClient(handler)),
+            new GraphQLSchemaParser(new HttpClient(handler)),
+            new MockHttpClientFactory(handler));
+    }
+
+    #endregion
+
+    #region Mock Implementations
+
+    private class MockSpecHandler : HttpMessageHandler
+    {
+        private readonly Dictionary<string, string> _specs;
+
+        public MockSpecHandler(Dictionary<string, string> specs)
+        {
+            _specs = specs;
+        }
+
+        public int RequestCount { get; private set; }
+
+        protected override Task<HttpResponseMessage> SendAsync(HttpRequestMessage request, CancellationToken cancellationToken)
+        {
+            RequestCount++;
+
+            if (!_specs.TryGetValue(request.RequestUri!.ToString(), out var spec))
+            {
+                return Task.FromResult(new HttpResponseMessage(HttpStatusCode.NotFound));
+            }
+
+            return Task.FromResult(new HttpResponseMessage(HttpStatusCode.OK)
+            {
+                Content = new StringContent(spec, Encoding.UTF8, "text/plain")
+            });
+        }
+    }
+
+    private class MockHttpClientFactory : IHttpClientFactory
+    {
+        private readonly HttpMessageHandler _handler;
+
+        public MockHttpClientFactory(HttpMessageHandler handler)
+        {
+            _handler = handler;
+        }
+
+        // SpecLoader disposes the clients it creates, so the shared handler is left open
+        public HttpClient CreateClient(string name) => new(_handler, disposeHandler: false);
+    }
+
+    #endregion
+}
@@ -3,6 +3,7 @@ namespace McpApi.Core.Tests.Auth;
 using McpApi.Core.Auth;
 using McpApi.Core.Models;
 using McpApi.Core.Secrets;
+using McpApi.Core.Storage;
 using System.Text;
 using Xunit;
 
@@ -240,6 +241,204 @@ public class AuthHandlerTests
 
     #endregion
 
+    #region OAuth2AuthHandler Tests
+
+    [Fact]
+    public async Task OAuth2AuthHandler_WithClientCredentialsFlow_UsesClientCredentialsGrant()
+    {
+        // Arrange
+        _secretResolver.SetSecret("client-id", "my-client");
+        _secretResolver.SetSecret("client-secret", "my-secret");
+        var config = new OAuth2AuthConfig
+        {
+            Flow = "clientCredentials",
+            TokenUrl = "https://auth.example.com/token",
+            ClientId = SecretReference.FromKeyVault("client-id"),
+            ClientSecret = SecretReference.FromKeyVault("client-secret"),
+            Scopes = ["read", "write"]
+        };
+        var tokenHandler = new MockTokenEndpointHandler("{\"access_token\":\"access-123\",\"expires_in\":3600}");
+        var handler = new OAuth2AuthHandler(config, _secretResolver, null, new HttpClient(tokenHandler));
+        var request = new HttpRequestMessage(HttpMethod.Get, "https://api.example.com/users");
+
+        // Act
+        await handler.ApplyAuthAsync(request);
+
+        // Assert
+        Assert.Equal("Bearer", request.Headers.Authorization!.Scheme);
+        Assert.Equal("access-123", request.Headers.Authorization.Parameter);
+        var form = tokenHandler.RequestForms.Single();
+        Assert.Equal("client_credentials", form["grant_type"]);
+        Assert.Equal("read write", form["scope"]);
+    }
+
+    [Fact]
+    public async Task OAuth2AuthHandler_WithAuthorizationCodeFlow_UsesRefreshTokenGrant()
+    {
+        // Arrange
+        _secretResolver.SetSecret("client-id", "my-client");
+        _secretResolver.SetSecret("client-secret", "my-secret");
+        _secretResolver.SetSecret("refresh-token", "refresh-abc");
+        var config = new OAuth2AuthConfig
+        {
+            Flow = "authorizationCode",
+            TokenUrl = "https://auth.example.com/token",
+            AuthorizationUrl = "https://auth.example.com/authorize",
+            ClientId = SecretReference.FromKeyVault("client-id"),
+            ClientSecret = SecretReference.FromKeyVault("client-secret"),
+            RefreshToken = SecretReference.FromKeyVault("refresh-token")
+        };
+        var tokenHandler = new MockTokenEndpointHandler("{\"access_token\":\"user-token\",\"expires_in\":3600}");
+        var handler = new OAuth2AuthHandler(config, _secretResolver, null, new HttpClient(tokenHandler));
+        var request = new HttpRequestMessage(HttpMethod.Get, "https://api.example.com/me");
+
+        // Act
+        await handler.ApplyAuthAsync(request);
+
+        // Assert
+        Assert.Equal("user-token", request.Headers.Authorization!.Parameter);
+        var form = tokenHandler.RequestForms.Single();
+        Assert.Equal("refresh_token", form["grant_type"]);
+        Assert.Equal("refresh-abc", form["refresh_token"]);
+        Assert.Equal("my-client", form["client_id"]);
+    }
+
+    [Fact]
+    public async Task OAuth2AuthHandler_WithRotatedRefreshToken_UsesNewTokenOnNextRefresh()
+    {
+        // Arrange
+        _secretResolver.SetSecret("client-id", "my-client");
+        _secretResolver.SetSecret("client-secret", "my-secret");
+        _secretResolver.SetSecret("refresh-token", "refresh-old");
+        var config = new OAuth2AuthConfig
+        {
+            Flow = "authorizationCode",
+            TokenUrl = "https://auth.example.com/token",
+            ClientId = SecretReference.FromKeyVault("client-id"),
+            ClientSecret = SecretReference.FromKeyVault("client-secret"),
+            RefreshToken = SecretReference.FromKeyVault("refresh-token")
+        };
+        // expires_in of 0 forces a refresh on every call
+        var tokenHandler = new MockTokenEndpointHandler(
+            "{\"access_token\":\"user-token\",\"expires_in\":0,\"refresh_token\":\"refresh-new\"}");
+        var handler = new OAuth2AuthHandler(config, _secretResolver, null, new HttpClient(tokenHandler));
+
+        // Act
+        await handler.ApplyAuthAsync(new HttpRequestMessage(HttpMethod.Get, "https://api.example.com/me"));
+        await handler.ApplyAuthAsync(new HttpRequestMessage(HttpMethod.Get, "https://api.example.com/me"));
+
+        // Assert
+        Assert.Equal(2, tokenHandler.RequestForms.Count);
+        Assert.Equal("refresh-old", tokenHandler.RequestForms[0]["refresh_token"]);
+        Assert.Equal("refresh-new", tokenHandler.RequestForms[1]["refresh_token"]);
+    }
+
+    [Fact]
+    public async Task OAuth2AuthHandler_WithRotatedRefreshToken_ReportsNewTokenOnce()
+    {
+        // Arrange
+        _secretResolver.SetSecret("client-id", "my-client");
+        _secretResolver.SetSecret("client-secret", "my-secret");
+        _secretResolver.SetSecret("refresh-token", "refresh-old");
+        var config = new OAuth2AuthConfig
+        {
+            Flow = "authorizationCode",
+            TokenUrl = "https://auth.example.com/token",
+            ClientId = SecretReference.FromKeyVault("client-id"),
+            ClientSecret = SecretReference.FromKeyVault("client-secret"),
+            RefreshToken = SecretReference.FromKeyVault("refresh-token")
+        };
+        var tokenHandler = new MockTokenEndpointHandler(
+            "{\"access_token\":\"user-token\",\"expires_in\":0,\"refresh_token\":\"refresh-new\"}");
+        var rotated = new List<string>();
+        var handler = new OAuth2AuthHandler(config, _secretResolver, null, new HttpClient(tokenHandler),
+            (token, _) =>
+            {
+                rotated.Add(token);
+                return Task.CompletedTask;
+            });
+
+        // Act - the second refresh gets the same token back, which is not a rotation
+        await handler.ApplyAuthAsync(new HttpRequestMessage(HttpMethod.Get, "https://api.example.com/me"));
+        await handler.ApplyAuthAsync(new HttpRequestMessage(HttpMethod.Get, "https://api.example.com/me"));
+
+        // Assert
+        Assert.Equal("refresh-new", Assert.Single(rotated));
+    }
+
+    [Fact]
+    public async Task OAuth2AuthHandler_WithAuthorizationCodeFlowAndNoRefreshToken_ThrowsOAuth2NotConnectedException()
+    {
+        // Arrange
+        _secretResolver.SetSecret("client-id", "my-client");
+        _secretResolver.SetSecret("client-secret", "my-secret");
+        var config = new OAuth2AuthConfig
+        {
+            Flow = "authorizationCode",
+            TokenUrl = "https://auth.example.com/token",
+            ClientId = SecretReference.FromKeyVault("client-id"),
+            ClientSecret = SecretReference.FromKeyVault("client-secret")
+        };
+        var tokenHandler = new MockTokenEndpointHandler("{}");
+        var handler = new OAuth2AuthHandler(config, _secretResolver, null, new HttpClient(tokenHandler));
+        var request = new HttpRequestMessage(HttpMethod.Get, "https://api.example.com/me");
+
+        // Act & Assert
+        await Assert.ThrowsAsync<OAuth2NotConnectedException>(() => handler.ApplyAuthAsync(request));
+        Assert.Empty(tokenHandler.RequestForms);
+    }
+
+    [Fact]
+    public async Task OAuth2AuthHandler_WithInternalTokenUrl_ThrowsWithoutSendingSecrets()
+    {
+        // Arrange
+        _secretResolver.SetSecret("client-id", "my-client");
+        _secretResolver.SetSecret("client-secret", "my-secret");
+        var config = new OAuth2AuthConfig
+        {
+            Flow = "clientCredentials",
+            TokenUrl = "http://169.254.169.254/token",
+            ClientId = SecretReference.FromKeyVault("client-id"),
+            ClientSecret = SecretReference.FromKeyVault("client-secret")
+        };
+        var tokenHandler = new MockTokenEndpointHandler("{\"access_token\":\"token\",\"expires_in\":3600}");
+        var handler = new OAuth2AuthHandler(config, _secretResolver, null, new HttpClient(tokenHandler));
+        var request = new HttpRequestMessage(HttpMethod.Get, "https://api.example.com/me");
+
+        // Act & Assert
+        await Assert.ThrowsAsync<ArgumentException>(() => handler.ApplyAuthAsync(request));
+        Assert.Empty(tokenHandler.RequestForms);
+    }
+
+    [Fact]
+    public async Task OAuth2AuthHandler_WithRejectedRefreshToken_ThrowsOAuth2NotConnectedException()
+    {
+        // Arrange
+        _secretResolver.SetSecret("client-id", "my-client");
+        _secretResolver.SetSecret("client-secret", "my-secret");
+        _secretResolver.SetSecret("refresh-token", "refresh-revoked");
+        var config = new OAuth2AuthConfig
+        {
+            Flow = "authorizationCode",
+            TokenUrl = "https://auth.example.com/token",
+            ClientId = SecretReference.FromKeyVault("client-id"),
+            ClientSecret = SecretReference.FromKeyVault("client-secret"),
+            RefreshToken = SecretReference.FromKeyVault("refresh-token")
+        };
+        var tokenHandler = new MockTokenEndpointHandler(
+            "{\"error\":\"invalid_grant\"}", System.Net.HttpStatusCode.BadRequest);
+        var handler = new OAuth2AuthHandler(config, _secretResolver, null, new HttpClient(tokenHandler));
+        var request = new HttpRequestMessage(HttpMethod.Get, "https://api.example.com/me");
+
+        // Act
+        var ex = await Assert.ThrowsAsync<OAuth2NotConnectedException>(() => handler.ApplyAuthAsync(request));
+
+        // Assert
+        Assert.Contains("reconnected", ex.Message);
+    }
+
+    #endregion
+
     #region AuthHandlerFactory Tests
 
     [Fact]
@@ -332,6 +531,59 @@ public class AuthHandlerTests
         Assert.Same(handler1, handler2);
     }
 
+    [Fact]
+    public async Task AuthHandlerFactory_WithRotatedRefreshToken_SavesEncryptedTokenToEnvironment()
+    {
+        // Arrange
+        _secretResolver.SetSecret("client-id", "my-client");
+        _secretResolver.SetSecret("client-secret", "my-secret");
+        _secretResolver.SetSecret("refresh-token", "refresh-old");
+        var registration = new ApiRegistration
+        {
+            Id = "crm",
+            UserId = "user-1",
+            DisplayName = "CRM",
+            BaseUrl = "https://crm.example.com",
+            OpenApiVersion = "3.0.0",
+            Auth = new NoAuthConfig(),
+            Environments =
+            [
+                new ApiEnvironment
+                {
+                    Name = "staging",
+                    BaseUrl = "https://staging.crm.example.com",
+                    Auth = new OAuth2AuthConfig
+                    {
+                        Flow = "authorizationCode",
+                        TokenUrl = "https://auth.example.com/token",
+                        ClientId = SecretReference.FromKeyVault("client-id"),
+                        ClientSecret = SecretReference.FromKeyVault("client-secret"),
+                        RefreshToken = SecretReference.FromKeyVault("refresh-token")
+                    }
+                }
+            ]
+        };
+        var store = new MockApiRegistrationStore(registration);
+        var tokenHandler = new MockTokenEndpointHandler(
+            "{\"access_token\":\"user-token\",\"expires_in\":3600,\"refresh_token\":\"refresh-new\"}");
+        var factory = new AuthHandlerFactory(_secretResolver, new MockHttpClientFactory(tokenHandler), store);
+        var userContext = new UserSecretContext("user-1", "salt");
+
+        // Act
+        var handler1 = factory.Create(registration.ForEnvironment("staging"), userContext);
+        await handler1.ApplyAuthAsync(new HttpRequestMessage(HttpMethod.Get, "https://staging.crm.example.com/me"));
+        var handler2 = factory.Create(registration.ForEnvironment("staging"), userContext);
+
+        // Assert - the saved token is encrypted, and the handler holding the access token is reused
+        var saved = (OAuth2AuthConfig)registration.GetAuth("staging");
+        Assert.Equal(1, store.UpsertCount);
+        Assert.True(saved.RefreshToken!.IsEncrypted);
+        Assert.Equal("refresh-new", await _secretResolver.ResolveAsync(saved.RefreshToken, "user-1", "salt"));
+        Assert.IsType<NoAuthConfig>(registration.Auth);
+        Assert.Same(handler1, handler2);
+        Assert.Single(tokenHandler.RequestForms);
+    }
+
     #endregion
 
     #region Mock Implementations
@@ -348,19 +600,121 @@ public class AuthHandlerTests
             if (reference.IsKeyVaultReference && _secrets.TryGetValue(reference.SecretName!, out var value))
                 return Task.FromResult(value);
 
+            if (reference.IsEncrypted)
+                return Task.FromResult(reference.EncryptedValue!["encrypted:".Length..]);
+
             throw new KeyNotFoundException($"Secret not found");
         }
 
         public SecretReference Encrypt(string plaintext, string userId, string userSalt)
         {
-            // Not needed for these tests
-            throw new NotImplementedException();
+            return SecretReference.FromEncrypted($"encrypted:{plaintext}", "iv", "tag");
         }
     }
 
     private class MockHttpClientFactory : IHttpClientFactory
     {
-        public HttpClient CreateClient(string name) => new();
+        private readonly HttpMessageHandler? _handler;
+
+        public MockHttpClientFactory(HttpMessageHandler? handler = null) => _handler = handler;
+
+        public HttpClient CreateClient(string name) => _handler == null ? new() : new(_handler);
+    }
+
+    private class MockApiRegistrationStore : IApiRegistrationStore
+    {
+        private readonly ApiRegistration _registration;
+
+        public MockApiRegistrationStore(ApiRegistration registration) => _registration = registration;
+
+        public int UpsertCount { get; private set; }
+
+        public Task<ApiRegistration?> GetAsync(string userId, string id, CancellationToken ct = default)
+            => Task.FromResult(userId == _registration.UserId && id == _registration.Id ? _registration : null);
+
+        public Task<IReadOnlyList<ApiRegistration>> GetAllAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<ApiRegistration>> GetEnabledAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<ApiRegistration> UpsertAsync(ApiRegistration registration, CancellationToken ct = default)
+        {
+            UpsertCount++;
+            return Task.FromResult(registration);
+        }
+
+        public Task DeleteAsync(string userId, string id, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<bool> ExistsAsync(string userId, string id, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<ApiEndpoint>> GetEndpointsAsync(string userId, string apiId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<ApiEndpoint>> GetEnabledEndpointsAsync(string userId, string apiId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<ApiEndpoint?> GetEndpointAsync(string userId, string apiId, string endpointId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task SaveEndpointsAsync(string userId, string apiId, IEnumerable<ApiEndpoint> endpoints, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task DeleteEndpointsAsync(string userId, string apiId, IEnumerable<string> endpointIds, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<ApiEndpoint> UpdateEndpointAsync(ApiEndpoint endpoint, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<int> GetEndpointCountAsync(string userId, string apiId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<int> GetEnabledEndpointCountAsync(string userId, string apiId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<EndpointSearchResult>> SearchEndpointsAsync(string userId, string query, int limit = 20, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<string> GetVersionAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<ApiRegistration>> GetScheduledForRefreshAsync(CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<int> GetApiCountAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task DeleteAllForUserAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+    }
+
+    private class MockTokenEndpointHandler : HttpMessageHandler
+    {
+        private readonly string _responseJson;
+        private readonly System.Net.HttpStatusCode _statusCode;
+
+        public MockTokenEndpointHandler(string responseJson, System.Net.HttpStatusCode statusCode = System.Net.HttpStatusCode.OK)
+        {
+            _responseJson = responseJson;
+            _statusCode = statusCode;
+        }
+
+        public List<Dictionary<string, string>> RequestForms { get; } = [];
+
+        protected override async Task<HttpResponseMessage> SendAsync(HttpRequestMessage request, CancellationToken cancellationToken)
+        {
+            var body = await request.Content!.ReadAsStringAsync(cancellationToken);
+            RequestForms.Add(body.Split('&')
+                .Select(pair => pair.Split('=', 2))
+                .ToDictionary(kv => Uri.UnescapeDataString(kv[0]), kv => Uri.UnescapeDataString(kv[1].Replace('+', ' '))));
+
+            return new HttpResponseMessage(_statusCode)
+            {
+                Content = new StringContent(_responseJson, Encoding.UTF8, "application/json")
+            };
+        }
     }
 
     #endregion
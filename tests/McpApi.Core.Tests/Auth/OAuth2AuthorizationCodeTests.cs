@@ -0,0 +1,134 @@
+namespace McpApi.Core.Tests.Auth;
+
+using McpApi.Core.Auth;
+using McpApi.Core.Models;
+using Xunit;
+
+/// <summary>
+/// Tests for the OAuth2 authorization code (PKCE) helpers.
+/// </summary>
+public class OAuth2AuthorizationCodeTests
+{
+    #region PKCE Tests
+
+    [Fact]
+    public void GenerateCodeVerifier_ReturnsUrlSafeValueOfValidLength()
+    {
+        // Act
+        var verifier = OAuth2AuthorizationCode.GenerateCodeVerifier();
+
+        // Assert - RFC 7636 requires 43-128 unreserved characters
+        Assert.InRange(verifier.Length, 43, 128);
+        Assert.Matches("^[A-Za-z0-9\\-._~]+$", verifier);
+    }
+
+    [Fact]
+    public void GenerateCodeVerifier_ReturnsDifferentValuesEachTime()
+    {
+        // Act
+        var first = OAuth2AuthorizationCode.GenerateCodeVerifier();
+        var second = OAuth2AuthorizationCode.GenerateCodeVerifier();
+
+        // Assert
+        Assert.NotEqual(first, second);
+    }
+
+    [Fact]
+    public void CreateCodeChallenge_ReturnsBase64UrlSha256OfVerifier()
+    {
+        // Arrange
+        const string verifier = "test-code-verifier-0123456789abcdefghijklmnopqrstuvwxyz";
+
+        // Act
+        var challenge = OAuth2AuthorizationCode.CreateCodeChallenge(verifier);
+
+        // Assert
+        Assert.Equal("YGsAnuG93ER8kUQs5-r9NwVOaO6rdz5uFtPrMsPiZSU", challenge);
+    }
+
+    #endregion
+
+    #region Authorization URL Tests
+
+    [Fact]
+    public void BuildAuthorizationUrl_IncludesPkceAndStateParameters()
+    {
+        // Arrange
+        var config = CreateConfig("https://auth.example.com/authorize", "read", "write");
+
+        // Act
+        var url = OAuth2AuthorizationCode.BuildAuthorizationUrl(
+            config, "my-client", "https://app.example.com/apis/oauth/callback", "state-123", "challenge-abc");
+
+        // Assert
+        Assert.StartsWith("https://auth.example.com/authorize?", url);
+        Assert.Contains("response_type=code", url);
+        Assert.Contains("client_id=my-client", url);
+        Assert.Contains("redirect_uri=https%3A%2F%2Fapp.example.com%2Fapis%2Foauth%2Fcallback", url);
+        Assert.Contains("state=state-123", url);
+        Assert.Contains("code_challenge=challenge-abc", url);
+        Assert.Contains("code_challenge_method=S256", url);
+        Assert.Contains("scope=read%20write", url);
+    }
+
+    [Fact]
+    public void BuildAuthorizationUrl_WithExistingQuery_AppendsParameters()
+    {
+        // Arrange
+        var config = CreateConfig("https://accounts.example.com/auth?access_type=offline");
+
+        // Act
+        var url = OAuth2AuthorizationCode.BuildAuthorizationUrl(
+            config, "my-client", "https://app.example.com/callback", "state", "challenge");
+
+        // Assert
+        Assert.StartsWith("https://accounts.example.com/auth?access_type=offline&response_type=code", url);
+        Assert.DoesNotContain("scope=", url);
+    }
+
+    [Fact]
+    public void BuildAuthorizationUrl_WithoutAuthorizationUrl_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var config = CreateConfig(null);
+
+        // Act & Assert
+        Assert.Throws<InvalidOperationException>(() => OAuth2AuthorizationCode.BuildAuthorizationUrl(
+            config, "my-client", "https://app.example.com/callback", "state", "challenge"));
+    }
+
+    #endregion
+
+    #region ExchangeCodeAsync Tests
+
+    [Fact]
+    public async Task ExchangeCodeAsync_WithInternalTokenUrl_ThrowsArgumentException()
+    {
+        // Arrange
+        using var httpClient = new HttpClient();
+
+        // Act & Assert
+        await Assert.ThrowsAsync<ArgumentException>(() => OAuth2AuthorizationCode.ExchangeCodeAsync(
+            httpClient, "http://localhost:8080/token", "my-client", "my-secret",
+            "code", "https://app.example.com/callback", "verifier"));
+    }
+
+    #endregion
+
+    #region Helper Methods
+
+    private static OAuth2AuthConfig CreateConfig(string? authorizationUrl, params string[] scopes)
+    {
+        return new OAuth2AuthConfig
+        {
+            Flow = "authorizationCode",
+            TokenUrl = "https://auth.example.com/token",
+            AuthorizationUrl = authorizationUrl,
+            ClientId = SecretReference.FromKeyVault("client-id"),
+            ClientSecret = SecretReference.FromKeyVault("client-secret"),
+            Scopes = scopes.ToList()
+        };
+    }
+
+    #endregion
+}
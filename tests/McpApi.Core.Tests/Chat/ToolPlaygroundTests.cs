@@ -0,0 +1,494 @@
+namespace McpApi.Core.Tests.Chat;
+
+using McpApi.Core.Auth;
+using McpApi.Core.Chat;
+using McpApi.Core.Http;
+using McpApi.Core.Models;
+using McpApi.Core.Secrets;
+using McpApi.Core.Services;
+using McpApi.Core.Storage;
+using System.Text.Json;
+using Xunit;
+
+public class ToolPlaygroundTests
+{
+    #region BuildTools Tests
+
+    [Fact]
+    public void BuildTools_WithDottedToolNames_ReplacesInvalidCharacters()
+    {
+        // Arrange
+        var api = CreateApi();
+        var endpoint = CreateEndpoint("list-users", "GET", "/users");
+
+        // Act
+        var tools = BuildTools(api, endpoint);
+
+        // Assert
+        var tool = Assert.Single(tools);
+        Assert.Equal("petstore_users_list-users", tool.Definition.Name);
+        Assert.Equal("object", tool.Definition.InputSchema.GetProperty("type").GetString());
+        Assert.Contains("GET /users (Petstore)", tool.Definition.Description);
+    }
+
+    [Fact]
+    public void BuildTools_WithCollidingNames_KeepsNamesUnique()
+    {
+        // Arrange
+        var api = CreateApi();
+        var first = CreateEndpoint("list-users", "GET", "/users");
+        var second = CreateEndpoint("list-users", "GET", "/v2/users");
+        second.Id = "other-endpoint";
+
+        // Act
+        var tools = BuildTools(api, first, second);
+
+        // Assert
+        Assert.Equal(2, tools.Select(t => t.Definition.Name).Distinct().Count());
+        Assert.All(tools, t => Assert.True(t.Definition.Name.Length <= Constants.Playground.MaxToolNameLength));
+    }
+
+    #endregion
+
+    #region RunAsync Tests
+
+    [Fact]
+    public async Task RunAsync_WithToolCall_ExecutesEndpointAndReturnsFinalReply()
+    {
+        // Arrange
+        var model = new MockChatModel(
+            new ChatModelResponse(null, [new ChatToolCall("call-1", "petstore_users_get-user", ParseJson("""{"userId":"42"}"""))]),
+            new ChatModelResponse("User 42 is Ada.", []));
+        var callLog = new MockApiCallLogService("""{"name":"Ada"}""");
+        var playground = new ToolPlayground(model, callLog, new MockUsageTrackingService(), CreateApprovals());
+        var tools = BuildTools(CreateApi(), CreateEndpoint("get-user", "GET", "/users/{userId}"));
+
+        // Act
+        var result = await playground.RunAsync(CreateContext(tools), [new ChatMessage(ChatMessage.UserRole, "Who is user 42?")]);
+
+        // Assert
+        Assert.Equal("User 42 is Ada.", result.Message);
+        var call = Assert.Single(result.ToolCalls);
+        Assert.Equal("petstore_users_get-user", call.Tool);
+        Assert.Equal("GET", call.Method);
+        Assert.Equal("/users/{userId}", call.Path);
+        Assert.False(call.IsError);
+        Assert.Contains("Ada", call.Output);
+        Assert.Equal("42", callLog.Calls.Single()["userId"]);
+        Assert.Equal(Constants.CallLog.SourcePlayground, callLog.Contexts.Single().Source);
+
+        var followUp = model.Requests[1].Messages;
+        Assert.Equal(3, followUp.Count);
+        Assert.Equal("call-1", followUp[2].ToolResults!.Single().ToolCallId);
+    }
+
+    [Fact]
+    public async Task RunAsync_WithUnknownTool_ReportsErrorToModel()
+    {
+        // Arrange
+        var model = new MockChatModel(
+            new ChatModelResponse(null, [new ChatToolCall("call-1", "missing_tool", ParseJson("{}"))]),
+            new ChatModelResponse("That tool does not exist.", []));
+        var callLog = new MockApiCallLogService("{}");
+        var playground = new ToolPlayground(model, callLog, new MockUsageTrackingService(), CreateApprovals());
+
+        // Act
+        var result = await playground.RunAsync(CreateContext([]), [new ChatMessage(ChatMessage.UserRole, "Call it")]);
+
+        // Assert
+        var call = Assert.Single(result.ToolCalls);
+        Assert.True(call.IsError);
+        Assert.Null(call.ApiName);
+        Assert.Empty(callLog.Calls);
+        Assert.True(model.Requests[1].Messages[2].ToolResults!.Single().IsError);
+    }
+
+    [Fact]
+    public async Task RunAsync_WhenUsageLimitExceeded_DoesNotCallApi()
+    {
+        // Arrange
+        var model = new MockChatModel(
+            new ChatModelResponse(null, [new ChatToolCall("call-1", "petstore_users_get-user", ParseJson("""{"userId":"42"}"""))]),
+            new ChatModelResponse("You are out of calls.", []));
+        var callLog = new MockApiCallLogService("{}");
+        var playground = new ToolPlayground(model, callLog, new MockUsageTrackingService { LimitExceeded = true }, CreateApprovals());
+        var tools = BuildTools(CreateApi(), CreateEndpoint("get-user", "GET", "/users/{userId}"));
+
+        // Act
+        var result = await playground.RunAsync(CreateContext(tools), [new ChatMessage(ChatMessage.UserRole, "Who is user 42?")]);
+
+        // Assert
+        Assert.True(Assert.Single(result.ToolCalls).IsError);
+        Assert.Contains("Usage limit exceeded", result.ToolCalls[0].Output);
+        Assert.Empty(callLog.Calls);
+    }
+
+    [Fact]
+    public async Task RunAsync_WhenOAuth2AccountNotConnected_ReportsErrorToModel()
+    {
+        // Arrange
+        var model = new MockChatModel(
+            new ChatModelResponse(null, [new ChatToolCall("call-1", "petstore_users_get-user", ParseJson("""{"userId":"42"}"""))]),
+            new ChatModelResponse("Connect your account first.", []));
+        var callLog = new MockApiCallLogService("{}") { Error = new OAuth2NotConnectedException() };
+        var playground = new ToolPlayground(model, callLog, new MockUsageTrackingService(), CreateApprovals());
+        var tools = BuildTools(CreateApi(), CreateEndpoint("get-user", "GET", "/users/{userId}"));
+
+        // Act
+        var result = await playground.RunAsync(CreateContext(tools), [new ChatMessage(ChatMessage.UserRole, "Who is user 42?")]);
+
+        // Assert
+        Assert.Equal("Connect your account first.", result.Message);
+        Assert.True(Assert.Single(result.ToolCalls).IsError);
+        Assert.Contains("not connected", result.ToolCalls[0].Output);
+    }
+
+    [Fact]
+    public async Task RunAsync_WhenModelKeepsCallingTools_StopsAfterMaxIterations()
+    {
+        // Arrange
+        var responses = Enumerable.Range(0, Constants.Playground.MaxIterations + 1)
+            .Select(i => new ChatModelResponse(null, [new ChatToolCall($"call-{i}", "petstore_users_list-users", ParseJson("{}"))]))
+            .ToArray();
+        var model = new MockChatModel(responses);
+        var callLog = new MockApiCallLogService("[]");
+        var playground = new ToolPlayground(model, callLog, new MockUsageTrackingService(), CreateApprovals());
+        var tools = BuildTools(CreateApi(), CreateEndpoint("list-users", "GET", "/users"));
+
+        // Act
+        var result = await playground.RunAsync(CreateContext(tools), [new ChatMessage(ChatMessage.UserRole, "List users forever")]);
+
+        // Assert
+        Assert.Equal(Constants.Playground.MaxIterations, model.Requests.Count);
+        Assert.Equal(Constants.Playground.MaxIterations, result.ToolCalls.Count);
+        Assert.Contains("without a final answer", result.Message);
+    }
+
+    #endregion
+
+    #region Approval Tests
+
+    [Fact]
+    public async Task RunAsync_WithEndpointRequiringApproval_ParksCallWithoutCallingApi()
+    {
+        // Arrange
+        var model = new MockChatModel(
+            new ChatModelResponse(null, [new ChatToolCall("call-1", "petstore_users_delete-user", ParseJson("""{"userId":"42"}"""))]),
+            new ChatModelResponse("Approve the call in the dashboard.", []));
+        var callLog = new MockApiCallLogService("{}");
+        var store = new MockApprovalStore();
+        var playground = new ToolPlayground(model, callLog, new MockUsageTrackingService(), CreateApprovals(store));
+        var tools = BuildTools(CreateApi(), CreateApprovalEndpoint());
+
+        // Act
+        var result = await playground.RunAsync(CreateContext(tools), [new ChatMessage(ChatMessage.UserRole, "Delete user 42")]);
+
+        // Assert
+        var call = Assert.Single(result.ToolCalls);
+        Assert.False(call.IsError);
+        Assert.Contains(Constants.Approvals.StatusPending, call.Output);
+        Assert.Empty(callLog.Calls);
+        var approval = Assert.Single(store.Items.Values);
+        Assert.Equal(Constants.Approvals.StatusPending, approval.Status);
+        Assert.Equal("""{"userId":"42"}""", approval.Arguments);
+        Assert.Contains(approval.Id, call.Output);
+    }
+
+    [Fact]
+    public async Task RunAsync_WithApprovedApprovalId_MakesApprovedCallOnce()
+    {
+        // Arrange
+        var store = new MockApprovalStore();
+        var approvals = CreateApprovals(store);
+        var approval = await RequestApprovalAsync(approvals, """{"userId":"42"}""");
+        await approvals.DecideAsync("user-1", approval.Id, approve: true);
+        var input = ParseJson($$"""{"userId":"99","_approvalId":"{{approval.Id}}"}""");
+        var model = new MockChatModel(
+            new ChatModelResponse(null, [new ChatToolCall("call-1", "petstore_users_delete-user", input)]),
+            new ChatModelResponse(null, [new ChatToolCall("call-2", "petstore_users_delete-user", input)]),
+            new ChatModelResponse("Deleted user 42.", []));
+        var callLog = new MockApiCallLogService("{}");
+        var playground = new ToolPlayground(model, callLog, new MockUsageTrackingService(), approvals);
+        var tools = BuildTools(CreateApi(), CreateApprovalEndpoint());
+
+        // Act
+        var result = await playground.RunAsync(CreateContext(tools), [new ChatMessage(ChatMessage.UserRole, "Delete user 42")]);
+
+        // Assert
+        Assert.Equal("42", callLog.Calls.Single()["userId"]);
+        Assert.False(result.ToolCalls[0].IsError);
+        Assert.True(result.ToolCalls[1].IsError);
+        Assert.Contains("already made", result.ToolCalls[1].Output);
+        Assert.Equal(Constants.Approvals.StatusExecuted, store.Items[approval.Id].Status);
+    }
+
+    [Fact]
+    public async Task RunAsync_WithApprovalWhenUsageLimitExceeded_KeepsApprovalUnused()
+    {
+        // Arrange
+        var store = new MockApprovalStore();
+        var approvals = CreateApprovals(store);
+        var approval = await RequestApprovalAsync(approvals, """{"userId":"42"}""");
+        await approvals.DecideAsync("user-1", approval.Id, approve: true);
+        var model = new MockChatModel(
+            new ChatModelResponse(null, [new ChatToolCall("call-1", "petstore_users_delete-user", ParseJson($$"""{"_approvalId":"{{approval.Id}}"}"""))]),
+            new ChatModelResponse("You are out of calls.", []));
+        var callLog = new MockApiCallLogService("{}");
+        var playground = new ToolPlayground(model, callLog, new MockUsageTrackingService { LimitExceeded = true }, approvals);
+        var tools = BuildTools(CreateApi(), CreateApprovalEndpoint());
+
+        // Act
+        var result = await playground.RunAsync(CreateContext(tools), [new ChatMessage(ChatMessage.UserRole, "Delete user 42")]);
+
+        // Assert
+        Assert.Contains("Usage limit exceeded", Assert.Single(result.ToolCalls).Output);
+        Assert.Empty(callLog.Calls);
+        Assert.Equal(Constants.Approvals.StatusApproved, store.Items[approval.Id].Status);
+    }
+
+    [Fact]
+    public async Task RunAsync_WithRejectedApprovalId_ReportsRejection()
+    {
+        // Arrange
+        var approvals = CreateApprovals(new MockApprovalStore());
+        var approval = await RequestApprovalAsync(approvals, """{"userId":"42"}""");
+        await approvals.DecideAsync("user-1", approval.Id, approve: false, note: "Not that user");
+        var model = new MockChatModel(
+            new ChatModelResponse(null, [new ChatToolCall("call-1", "petstore_users_delete-user", ParseJson($$"""{"_approvalId":"{{approval.Id}}"}"""))]),
+            new ChatModelResponse("The call was rejected.", []));
+        var callLog = new MockApiCallLogService("{}");
+        var playground = new ToolPlayground(model, callLog, new MockUsageTrackingService(), approvals);
+        var tools = BuildTools(CreateApi(), CreateApprovalEndpoint());
+
+        // Act
+        var result = await playground.RunAsync(CreateContext(tools), [new ChatMessage(ChatMessage.UserRole, "Delete user 42")]);
+
+        // Assert
+        var call = Assert.Single(result.ToolCalls);
+        Assert.True(call.IsError);
+        Assert.Contains("Not that user", call.Output);
+        Assert.Empty(callLog.Calls);
+    }
+
+    #endregion
+
+    #region Helper Methods
+
+    private static ApiRegistration CreateApi()
+    {
+        return new ApiRegistration
+        {
+            Id = "petstore",
+            DisplayName = "Petstore",
+            BaseUrl = "https://petstore.example.com",
+            OpenApiVersion = "3.0.0",
+            Auth = new NoAuthConfig()
+        };
+    }
+
+    private static ApiEndpoint CreateEndpoint(string operationId, string method, string path)
+    {
+        var endpoint = new ApiEndpoint
+        {
+            Id = operationId,
+            OperationId = operationId,
+            Method = method,
+            Path = path,
+            Tags = ["users"]
+        };
+
+        if (path.Contains("{userId}"))
+        {
+            endpoint.Parameters.Add(new ParameterDefinition
+            {
+                Name = "userId",
+                In = "path",
+                Required = true,
+                Schema = new JsonSchema { Type = "string" }
+            });
+        }
+
+        return endpoint;
+    }
+
+    private static ApiEndpoint CreateApprovalEndpoint()
+    {
+        var endpoint = CreateEndpoint("delete-user", "DELETE", "/users/{userId}");
+        endpoint.RequiresApproval = true;
+        return endpoint;
+    }
+
+    private static ApprovalService CreateApprovals(IApprovalStore? store = null)
+    {
+        return new ApprovalService(store ?? new MockApprovalStore()) { PollInterval = TimeSpan.FromMilliseconds(1) };
+    }
+
+    private static Task<ApprovalRequest> RequestApprovalAsync(ApprovalService approvals, string arguments)
+    {
+        var context = new ApiCallContext("user-1", Constants.CallLog.SourcePlayground);
+        return approvals.RequestAsync(context, CreateApi(), CreateApprovalEndpoint(), "petstore_users_delete-user", arguments);
+    }
+
+    private static IReadOnlyList<PlaygroundTool> BuildTools(ApiRegistration api, params ApiEndpoint[] endpoints)
+    {
+        return ToolPlayground.BuildTools(new[] { (api, (IReadOnlyList<ApiEndpoint>)endpoints) });
+    }
+
+    private static PlaygroundContext CreateContext(IReadOnlyList<PlaygroundTool> tools)
+    {
+        return new PlaygroundContext("user-1", "free", null, tools);
+    }
+
+    private static JsonElement ParseJson(string json)
+    {
+        return JsonSerializer.Deserialize<JsonElement>(json);
+    }
+
+    #endregion
+
+    #region Mock Implementations
+
+    /// <summary>
+    /// Stub model that replays scripted responses and records each request it receives.
+    /// </summary>
+    private class MockChatModel : IChatModel
+    {
+        private readonly Queue<ChatModelResponse> _responses;
+
+        public MockChatModel(params ChatModelResponse[] responses) => _responses = new Queue<ChatModelResponse>(responses);
+
+        public List<ChatModelRequest> Requests { get; } = [];
+
+        public Task<ChatModelResponse> CompleteAsync(ChatModelRequest request, CancellationToken ct = default)
+        {
+            // Copy the messages since the playground keeps appending to the same conversation
+            Requests.Add(request with { Messages = request.Messages.ToList() });
+            return Task.FromResult(_responses.Dequeue());
+        }
+    }
+
+    private class MockApiCallLogService : IApiCallLogService
+    {
+        private readonly string _body;
+
+        public MockApiCallLogService(string body) => _body = body;
+
+        public List<Dictionary<string, object?>> Calls { get; } = [];
+        public List<ApiCallContext> Contexts { get; } = [];
+        public Exception? Error { get; init; }
+
+        public Task<ApiResponse> ExecuteAndLogAsync(
+            ApiCallContext context,
+            ApiRegistration api,
+            ApiEndpoint endpoint,
+            Dictionary<string, object?> parameters,
+            UserSecretContext? userContext = null,
+            CancellationToken ct = default)
+        {
+            if (Error != null)
+                throw Error;
+
+            Calls.Add(parameters);
+            Contexts.Add(context);
+            return Task.FromResult(new ApiResponse
+            {
+                StatusCode = 200,
+                ReasonPhrase = "OK",
+                Headers = new Dictionary<string, string[]>(),
+                Body = _body
+            });
+        }
+    }
+
+    private class MockUsageTrackingService : IUsageTrackingService
+    {
+        public bool LimitExceeded { get; init; }
+
+        public Task<UsageRecord> CheckAndRecordApiCallAsync(string userId, string userTier, CancellationToken ct = default)
+        {
+            if (LimitExceeded)
+                throw new UsageLimitExceededException("api_calls", 100, 100);
+
+            return Task.FromResult(new UsageRecord { Id = "usage", UserId = userId, YearMonth = "2026-10" });
+        }
+
+        public Task<bool> CanMakeApiCallAsync(string userId, string userTier, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<UsageRecord> RecordApiCallAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public bool CanRegisterApi(string userTier, int currentApiCount)
+            => throw new NotImplementedException();
+
+        public Task<int> GetRemainingApiCallsAsync(string userId, string userTier, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<UsageSummary> GetUsageSummaryAsync(string userId, string userTier, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<UsageRecord>> GetUsageHistoryAsync(string userId, int months = 12, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task RecordEndpointCallAsync(ApiCallLog call, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<DailyUsagePoint>> GetDailyUsageAsync(string userId, UsageBreakdownQuery query, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<UsageBreakdownItem>> GetUsageBreakdownAsync(
+            string userId,
+            string dimension,
+            UsageBreakdownQuery query,
+            int top = Constants.UsageBreakdown.DefaultTop,
+            CancellationToken ct = default)
+            => throw new NotImplementedException();
+    }
+
+    // Hands out copies and checks ETags on update, like Cosmos DB
+    private class MockApprovalStore : IApprovalStore
+    {
+        public Dictionary<string, ApprovalRequest> Items { get; } = new();
+
+        public Task AddAsync(ApprovalRequest approval, CancellationToken ct = default)
+        {
+            approval.ETag = Guid.NewGuid().ToString();
+            Items[approval.Id] = Copy(approval);
+            return Task.CompletedTask;
+        }
+
+        public Task<ApprovalRequest?> GetAsync(string userId, string id, CancellationToken ct = default)
+        {
+            return Task.FromResult(Items.TryGetValue(id, out var approval) && approval.UserId == userId
+                ? Copy(approval)
+                : null);
+        }
+
+        public Task<bool> TryUpdateAsync(ApprovalRequest approval, CancellationToken ct = default)
+        {
+            if (!Items.TryGetValue(approval.Id, out var stored) || stored.ETag != approval.ETag)
+                return Task.FromResult(false);
+
+            approval.ETag = Guid.NewGuid().ToString();
+            Items[approval.Id] = Copy(approval);
+            return Task.FromResult(true);
+        }
+
+        public Task<IReadOnlyList<ApprovalRequest>> QueryAsync(
+            string userId,
+            string? status = null,
+            int limit = Constants.Approvals.MaxPageSize,
+            CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task DeleteAllForUserAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        private static ApprovalRequest Copy(ApprovalRequest approval)
+        {
+            return JsonSerializer.Deserialize<ApprovalRequest>(JsonSerializer.Serialize(approval))!;
+        }
+    }
+
+    #endregion
+}
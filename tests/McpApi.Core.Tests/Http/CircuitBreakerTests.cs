@@ -0,0 +1,92 @@
+namespace McpApi.Core.Tests.Http;
+
+using McpApi.Core.Http;
+using McpApi.Core.Models;
+using Xunit;
+
+public class CircuitBreakerTests
+{
+    private const string Key = "user-1:github";
+    private static readonly DateTimeOffset Now = new(2025, 6, 1, 12, 0, 0, TimeSpan.Zero);
+
+    [Fact]
+    public void RecordFailure_BelowThreshold_KeepsCircuitClosed()
+    {
+        // Arrange
+        var breaker = new CircuitBreaker();
+        var resilience = new ResilienceConfig { CircuitBreakerThreshold = 3 };
+
+        // Act
+        breaker.RecordFailure(Key, resilience, Now);
+        breaker.RecordFailure(Key, resilience, Now);
+
+        // Assert
+        Assert.Null(breaker.GetOpenUntil(Key, Now));
+    }
+
+    [Fact]
+    public void RecordFailure_AtThreshold_OpensCircuitForDuration()
+    {
+        // Arrange
+        var breaker = new CircuitBreaker();
+        var resilience = new ResilienceConfig { CircuitBreakerThreshold = 2, CircuitBreakerSeconds = 30 };
+
+        // Act
+        breaker.RecordFailure(Key, resilience, Now);
+        breaker.RecordFailure(Key, resilience, Now);
+
+        // Assert
+        Assert.Equal(Now.AddSeconds(30), breaker.GetOpenUntil(Key, Now));
+        Assert.Null(breaker.GetOpenUntil(Key, Now.AddSeconds(31)));
+        Assert.Null(breaker.GetOpenUntil("user-1:stripe", Now));
+    }
+
+    [Fact]
+    public void RecordFailure_AfterOpenPeriod_ReopensOnFirstFailure()
+    {
+        // Arrange
+        var breaker = new CircuitBreaker();
+        var resilience = new ResilienceConfig { CircuitBreakerThreshold = 2, CircuitBreakerSeconds = 30 };
+        breaker.RecordFailure(Key, resilience, Now);
+        breaker.RecordFailure(Key, resilience, Now);
+        var later = Now.AddSeconds(60);
+
+        // Act
+        breaker.RecordFailure(Key, resilience, later);
+
+        // Assert
+        Assert.Equal(later.AddSeconds(30), breaker.GetOpenUntil(Key, later));
+    }
+
+    [Fact]
+    public void RecordSuccess_ClosesCircuit()
+    {
+        // Arrange
+        var breaker = new CircuitBreaker();
+        var resilience = new ResilienceConfig { CircuitBreakerThreshold = 1 };
+        breaker.RecordFailure(Key, resilience, Now);
+
+        // Act
+        breaker.RecordSuccess(Key);
+
+        // Assert
+        Assert.Null(breaker.GetOpenUntil(Key, Now));
+    }
+
+    [Fact]
+    public void RecordFailure_ThresholdZero_NeverOpens()
+    {
+        // Arrange
+        var breaker = new CircuitBreaker();
+        var resilience = new ResilienceConfig { CircuitBreakerThreshold = 0 };
+
+        // Act
+        for (var i = 0; i < 10; i++)
+        {
+            breaker.RecordFailure(Key, resilience, Now);
+        }
+
+        // Assert
+        Assert.Null(breaker.GetOpenUntil(Key, Now));
+    }
+}
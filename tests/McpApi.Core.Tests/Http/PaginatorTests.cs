@@ -0,0 +1,380 @@
+namespace McpApi.Core.Tests.Http;
+
+using McpApi.Core.Http;
+using McpApi.Core.Models;
+using System.Text.Json;
+using System.Text.Json.Nodes;
+using System.Web;
+using Xunit;
+
+public class PaginatorTests
+{
+    #region Detection Tests
+
+    [Theory]
+    [InlineData("cursor", "cursor")]
+    [InlineData("page", "page")]
+    [InlineData("offset", "offset")]
+    [InlineData("pageToken", "cursor")]
+    public void Detect_KnownQueryParameter_ReturnsStyle(string parameter, string expectedStyle)
+    {
+        // Arrange
+        var endpoint = CreateEndpoint("GET", CreateParam(parameter), CreateParam("limit"));
+
+        // Act
+        var pagination = Paginator.Detect(endpoint);
+
+        // Assert
+        Assert.NotNull(pagination);
+        Assert.Equal(expectedStyle, pagination.Style);
+        Assert.Equal(parameter, pagination.Parameter);
+    }
+
+    [Fact]
+    public void Detect_NonGetEndpoint_ReturnsNull()
+    {
+        // Arrange
+        var endpoint = CreateEndpoint("POST", CreateParam("page"));
+
+        // Act
+        var pagination = Paginator.Detect(endpoint);
+
+        // Assert
+        Assert.Null(pagination);
+    }
+
+    [Fact]
+    public void Resolve_StyleNone_TurnsOffDetection()
+    {
+        // Arrange
+        var endpoint = CreateEndpoint("GET", CreateParam("page"));
+        endpoint.Pagination = new PaginationConfig { Style = Constants.Pagination.StyleNone };
+
+        // Act
+        var pagination = Paginator.Resolve(endpoint);
+
+        // Assert
+        Assert.Null(pagination);
+    }
+
+    #endregion
+
+    #region Argument Tests
+
+    [Fact]
+    public void SplitArguments_WithoutLimits_ReturnsNullLimits()
+    {
+        // Arrange
+        var arguments = new Dictionary<string, object?> { ["q"] = "test" };
+
+        // Act
+        var (parameters, limits) = Paginator.SplitArguments(arguments);
+
+        // Assert
+        Assert.Null(limits);
+        Assert.Equal("test", parameters["q"]);
+    }
+
+    [Fact]
+    public void SplitArguments_WithLimits_RemovesAndClampsThem()
+    {
+        // Arrange
+        var arguments = new Dictionary<string, object?>
+        {
+            ["q"] = "test",
+            [Paginator.MaxPagesArgumentName] = 500L
+        };
+
+        // Act
+        var (parameters, limits) = Paginator.SplitArguments(arguments);
+
+        // Assert
+        Assert.NotNull(limits);
+        Assert.Equal(Constants.Pagination.MaxPages, limits.MaxPages);
+        Assert.Equal(Constants.Pagination.MaxItems, limits.MaxItems);
+        Assert.False(parameters.ContainsKey(Paginator.MaxPagesArgumentName));
+        Assert.True(arguments.ContainsKey(Paginator.MaxPagesArgumentName));
+    }
+
+    [Fact]
+    public void SplitArguments_InvalidLimit_Throws()
+    {
+        // Arrange
+        var arguments = new Dictionary<string, object?> { [Paginator.MaxItemsArgumentName] = 0L };
+
+        // Act & Assert
+        Assert.Throws<ArgumentException>(() => Paginator.SplitArguments(arguments));
+    }
+
+    #endregion
+
+    #region Next Page Tests
+
+    [Fact]
+    public void GetNextUrl_LinkStyle_FollowsRelNext()
+    {
+        // Arrange
+        var pagination = new PaginationConfig { Style = Constants.Pagination.StyleLink };
+        var headers = new Dictionary<string, string[]>
+        {
+            ["Link"] = ["<https://api.example.com/users?page=3>; rel=\"next\", <https://api.example.com/users?page=9>; rel=\"last\""]
+        };
+
+        // Act
+        var next = Paginator.GetNextUrl(pagination, new Uri("https://api.example.com/users?page=2"), headers, null, 10);
+
+        // Assert
+        Assert.Equal("https://api.example.com/users?page=3", next?.ToString());
+    }
+
+    [Fact]
+    public void GetNextUrl_LinkToOtherServer_ReturnsNull()
+    {
+        // Arrange
+        var pagination = new PaginationConfig { Style = Constants.Pagination.StyleLink };
+        var headers = new Dictionary<string, string[]>
+        {
+            ["Link"] = ["<https://evil.example.net/users?page=3>; rel=\"next\""]
+        };
+
+        // Act
+        var next = Paginator.GetNextUrl(pagination, new Uri("https://api.example.com/users"), headers, null, 10);
+
+        // Assert
+        Assert.Null(next);
+    }
+
+    [Fact]
+    public void GetNextUrl_CursorStyle_UsesCursorFromBody()
+    {
+        // Arrange
+        var pagination = new PaginationConfig { Style = Constants.Pagination.StyleCursor, Parameter = "cursor" };
+        var body = JsonNode.Parse("""{ "data": [1, 2], "meta": { "next_cursor": "abc" } }""");
+
+        // Act
+        var next = Paginator.GetNextUrl(pagination, new Uri("https://api.example.com/users?limit=2"), new Dictionary<string, string[]>(), body, 2);
+
+        // Assert
+        Assert.NotNull(next);
+        var query = HttpUtility.ParseQueryString(next.Query);
+        Assert.Equal("abc", query["cursor"]);
+        Assert.Equal("2", query["limit"]);
+    }
+
+    [Fact]
+    public void GetNextUrl_CursorStyleWithoutCursor_ReturnsNull()
+    {
+        // Arrange
+        var pagination = new PaginationConfig { Style = Constants.Pagination.StyleCursor, Parameter = "cursor" };
+        var body = JsonNode.Parse("""{ "data": [1, 2], "next_cursor": null }""");
+
+        // Act
+        var next = Paginator.GetNextUrl(pagination, new Uri("https://api.example.com/users"), new Dictionary<string, string[]>(), body, 2);
+
+        // Assert
+        Assert.Null(next);
+    }
+
+    [Fact]
+    public void GetNextUrl_OffsetStyle_AdvancesByItemCount()
+    {
+        // Arrange
+        var pagination = new PaginationConfig { Style = Constants.Pagination.StyleOffset, Parameter = "offset" };
+
+        // Act
+        var next = Paginator.GetNextUrl(pagination, new Uri("https://api.example.com/users?offset=20"), new Dictionary<string, string[]>(), null, 10);
+
+        // Assert
+        Assert.NotNull(next);
+        Assert.Equal("30", HttpUtility.ParseQueryString(next.Query)["offset"]);
+    }
+
+    [Fact]
+    public void GetNextUrl_PageStyle_KeepsOtherParametersAsSent()
+    {
+        // Arrange
+        var pagination = new PaginationConfig { Style = Constants.Pagination.StylePage, Parameter = "page" };
+        var url = new Uri("https://api.example.com/users?status=active|pending&fields=id,name&page=2&q=a%20b");
+
+        // Act
+        var next = Paginator.GetNextUrl(pagination, url, new Dictionary<string, string[]>(), null, 10);
+
+        // Assert
+        Assert.NotNull(next);
+        Assert.Equal(url.Query.Replace("page=2", "page=3"), next.Query);
+    }
+
+    [Fact]
+    public void GetNextUrl_PageStyleWithoutPageParameter_AppendsIt()
+    {
+        // Arrange
+        var pagination = new PaginationConfig { Style = Constants.Pagination.StylePage, Parameter = "page" };
+        var url = new Uri("https://api.example.com/users?status=active|pending");
+
+        // Act
+        var next = Paginator.GetNextUrl(pagination, url, new Dictionary<string, string[]>(), null, 10);
+
+        // Assert
+        Assert.NotNull(next);
+        Assert.Equal(url.Query + "&page=2", next.Query);
+    }
+
+    [Fact]
+    public void GetNextUrl_PageStyleWithEmptyPage_ReturnsNull()
+    {
+        // Arrange
+        var pagination = new PaginationConfig { Style = Constants.Pagination.StylePage, Parameter = "page" };
+
+        // Act
+        var next = Paginator.GetNextUrl(pagination, new Uri("https://api.example.com/users?page=4"), new Dictionary<string, string[]>(), null, 0);
+
+        // Assert
+        Assert.Null(next);
+    }
+
+    #endregion
+
+    #region Fetch Tests
+
+    [Fact]
+    public async Task FetchPagesAsync_PageStyle_MergesItemsUntilEmptyPage()
+    {
+        // Arrange
+        var pagination = new PaginationConfig { Style = Constants.Pagination.StylePage, Parameter = "page" };
+        var pages = new Dictionary<string, string>
+        {
+            ["2"] = """{ "items": [3, 4] }""",
+            ["3"] = """{ "items": [] }"""
+        };
+        var requested = new List<Uri>();
+
+        // Act
+        var response = await Paginator.FetchPagesAsync(
+            CreatePage("""{ "total": 4, "items": [1, 2] }""", "https://api.example.com/users"),
+            pagination,
+            new PageLimits(10, 100),
+            (url, _) =>
+            {
+                requested.Add(url);
+                var page = HttpUtility.ParseQueryString(url.Query)["page"]!;
+                return Task.FromResult(CreatePage(pages[page], url.ToString()));
+            });
+
+        // Assert
+        Assert.Equal(2, requested.Count);
+        Assert.Equal(3, response.PageCount);
+        Assert.False(response.HasMorePages);
+        var body = JsonSerializer.Deserialize<JsonElement>(response.Body!);
+        Assert.Equal(4, body.GetProperty("total").GetInt32());
+        Assert.Equal(new[] { 1, 2, 3, 4 }, body.GetProperty("items").EnumerateArray().Select(i => i.GetInt32()));
+    }
+
+    [Fact]
+    public async Task FetchPagesAsync_ItemLimitReached_TrimsAndReportsMorePages()
+    {
+        // Arrange
+        var pagination = new PaginationConfig { Style = Constants.Pagination.StyleOffset, Parameter = "offset" };
+
+        // Act
+        var response = await Paginator.FetchPagesAsync(
+            CreatePage("[1, 2, 3]", "https://api.example.com/users"),
+            pagination,
+            new PageLimits(10, 5),
+            (url, _) => Task.FromResult(CreatePage("[4, 5, 6]", url.ToString())));
+
+        // Assert
+        Assert.Equal(2, response.PageCount);
+        Assert.True(response.HasMorePages);
+        var items = JsonSerializer.Deserialize<int[]>(response.Body!);
+        Assert.Equal(new[] { 1, 2, 3, 4, 5 }, items);
+    }
+
+    [Fact]
+    public async Task FetchPagesAsync_LaterPageFails_KeepsItemsFetchedSoFar()
+    {
+        // Arrange
+        var pagination = new PaginationConfig { Style = Constants.Pagination.StylePage, Parameter = "page" };
+
+        // Act
+        var response = await Paginator.FetchPagesAsync(
+            CreatePage("""{ "data": [1, 2] }""", "https://api.example.com/users"),
+            pagination,
+            new PageLimits(10, 100),
+            (url, _) => Task.FromResult(CreatePage("""{ "message": "rate limited" }""", url.ToString(), 429)));
+
+        // Assert
+        Assert.Equal(200, response.StatusCode);
+        Assert.Equal(1, response.PageCount);
+        Assert.True(response.HasMorePages);
+        Assert.Contains("[1,2]", response.Body);
+    }
+
+    [Fact]
+    public async Task FetchPagesAsync_BodyWithoutItems_ReturnsFirstPage()
+    {
+        // Arrange
+        var pagination = new PaginationConfig { Style = Constants.Pagination.StylePage, Parameter = "page" };
+        var firstPage = CreatePage("""{ "id": 1 }""", "https://api.example.com/users/1");
+        var fetched = false;
+
+        // Act
+        var response = await Paginator.FetchPagesAsync(
+            firstPage,
+            pagination,
+            new PageLimits(10, 100),
+            (url, _) =>
+            {
+                fetched = true;
+                return Task.FromResult(CreatePage("{}", url.ToString()));
+            });
+
+        // Assert
+        Assert.Same(firstPage, response);
+        Assert.False(fetched);
+    }
+
+    #endregion
+
+    #region Helper Methods
+
+    private static ApiEndpoint CreateEndpoint(string method, params ParameterDefinition[] parameters)
+    {
+        return new ApiEndpoint
+        {
+            Id = "users-list",
+            OperationId = "users/list",
+            Method = method,
+            Path = "/users",
+            Parameters = parameters.ToList()
+        };
+    }
+
+    private static ParameterDefinition CreateParam(string name)
+    {
+        return new ParameterDefinition
+        {
+            Name = name,
+            In = "query",
+            Schema = new JsonSchema { Type = "string" }
+        };
+    }
+
+    private static ApiResponse CreatePage(string body, string url, int statusCode = 200)
+    {
+        return new ApiResponse
+        {
+            StatusCode = statusCode,
+            ReasonPhrase = null,
+            Headers = new Dictionary<string, string[]>(),
+            Body = body,
+            Request = new ApiRequestInfo
+            {
+                Method = "GET",
+                Url = url,
+                Headers = new Dictionary<string, string[]>()
+            }
+        };
+    }
+
+    #endregion
+}
@@ -0,0 +1,206 @@
+namespace McpApi.Core.Tests.Http;
+
+using McpApi.Core.Http;
+using McpApi.Core.Models;
+using Xunit;
+
+public class ParameterSerializerTests
+{
+    #region Default Tests
+
+    [Theory]
+    [InlineData("query", "form", true)]
+    [InlineData("cookie", "form", true)]
+    [InlineData("path", "simple", false)]
+    [InlineData("header", "simple", false)]
+    public void GetStyle_WithoutStyle_UsesLocationDefault(string location, string expectedStyle, bool expectedExplode)
+    {
+        // Arrange
+        var parameter = CreateParam("id", location);
+
+        // Act & Assert
+        Assert.Equal(expectedStyle, ParameterSerializer.GetStyle(parameter));
+        Assert.Equal(expectedExplode, ParameterSerializer.GetExplode(parameter));
+    }
+
+    #endregion
+
+    #region Path Tests
+
+    [Theory]
+    [InlineData("simple", false, "3,4,5")]
+    [InlineData("simple", true, "3,4,5")]
+    [InlineData("label", false, ".3,4,5")]
+    [InlineData("label", true, ".3.4.5")]
+    [InlineData("matrix", false, ";id=3,4,5")]
+    [InlineData("matrix", true, ";id=3;id=4;id=5")]
+    public void SerializePath_Array_FollowsStyle(string style, bool explode, string expected)
+    {
+        // Arrange
+        var parameter = CreateParam("id", "path", style, explode);
+
+        // Act
+        var result = ParameterSerializer.SerializePath(parameter, new List<object?> { 3L, 4L, 5L });
+
+        // Assert
+        Assert.Equal(expected, result);
+    }
+
+    [Theory]
+    [InlineData("simple", false, "role,admin,firstName,Alex")]
+    [InlineData("simple", true, "role=admin,firstName=Alex")]
+    [InlineData("label", true, ".role=admin.firstName=Alex")]
+    [InlineData("matrix", false, ";id=role,admin,firstName,Alex")]
+    [InlineData("matrix", true, ";role=admin;firstName=Alex")]
+    public void SerializePath_Object_FollowsStyle(string style, bool explode, string expected)
+    {
+        // Arrange
+        var parameter = CreateParam("id", "path", style, explode);
+
+        // Act
+        var result = ParameterSerializer.SerializePath(parameter, CreateObject());
+
+        // Assert
+        Assert.Equal(expected, result);
+    }
+
+    [Fact]
+    public void SerializePath_EncodesValuesButNotDelimiters()
+    {
+        // Arrange
+        var parameter = CreateParam("id", "path");
+
+        // Act
+        var result = ParameterSerializer.SerializePath(parameter, new List<object?> { "a/b", "c d" });
+
+        // Assert
+        Assert.Equal("a%2Fb,c%20d", result);
+    }
+
+    #endregion
+
+    #region Query Tests
+
+    [Fact]
+    public void SerializeQuery_ExplodedFormArray_RepeatsName()
+    {
+        // Arrange
+        var parameter = CreateParam("id", "query");
+
+        // Act
+        var pairs = ParameterSerializer.SerializeQuery(parameter, new List<object?> { 3L, 4L });
+
+        // Assert
+        Assert.Equal(new[] { "id=3", "id=4" }, pairs.Select(p => $"{p.Key}={p.Value}"));
+    }
+
+    [Theory]
+    [InlineData("form", "3,4,5")]
+    [InlineData("spaceDelimited", "3 4 5")]
+    [InlineData("pipeDelimited", "3|4|5")]
+    public void SerializeQuery_UnexplodedArray_JoinsValues(string style, string expected)
+    {
+        // Arrange
+        var parameter = CreateParam("id", "query", style, explode: false);
+
+        // Act
+        var pairs = ParameterSerializer.SerializeQuery(parameter, new List<object?> { 3L, 4L, 5L });
+
+        // Assert
+        var pair = Assert.Single(pairs);
+        Assert.Equal("id", pair.Key);
+        Assert.Equal(expected, pair.Value);
+    }
+
+    [Fact]
+    public void SerializeQuery_ExplodedFormObject_UsesPropertyNames()
+    {
+        // Arrange
+        var parameter = CreateParam("id", "query");
+
+        // Act
+        var pairs = ParameterSerializer.SerializeQuery(parameter, CreateObject());
+
+        // Assert
+        Assert.Equal(new[] { "role=admin", "firstName=Alex" }, pairs.Select(p => $"{p.Key}={p.Value}"));
+    }
+
+    [Fact]
+    public void SerializeQuery_DeepObject_UsesBracketedNames()
+    {
+        // Arrange
+        var parameter = CreateParam("id", "query", "deepObject", explode: true);
+
+        // Act
+        var pairs = ParameterSerializer.SerializeQuery(parameter, CreateObject());
+
+        // Assert
+        Assert.Equal(new[] { "id[role]=admin", "id[firstName]=Alex" }, pairs.Select(p => $"{p.Key}={p.Value}"));
+    }
+
+    [Fact]
+    public void SerializeQuery_Boolean_UsesJsonLiteral()
+    {
+        // Arrange
+        var parameter = CreateParam("archived", "query");
+
+        // Act
+        var pairs = ParameterSerializer.SerializeQuery(parameter, true);
+
+        // Assert
+        Assert.Equal("true", Assert.Single(pairs).Value);
+    }
+
+    #endregion
+
+    #region Header and Cookie Tests
+
+    [Fact]
+    public void SerializeHeader_ExplodedObject_JoinsPairs()
+    {
+        // Arrange
+        var parameter = CreateParam("X-Filter", "header", explode: true);
+
+        // Act
+        var result = ParameterSerializer.SerializeHeader(parameter, CreateObject());
+
+        // Assert
+        Assert.Equal("role=admin,firstName=Alex", result);
+    }
+
+    [Fact]
+    public void SerializeCookie_UnexplodedArray_EncodesValues()
+    {
+        // Arrange
+        var parameter = CreateParam("ids", "cookie", explode: false);
+
+        // Act
+        var cookies = ParameterSerializer.SerializeCookie(parameter, new List<object?> { "a b", "c" });
+
+        // Assert
+        Assert.Equal("ids=a%20b,c", Assert.Single(cookies));
+    }
+
+    #endregion
+
+    #region Helper Methods
+
+    private static ParameterDefinition CreateParam(string name, string location, string? style = null, bool? explode = null)
+    {
+        return new ParameterDefinition
+        {
+            Name = name,
+            In = location,
+            Style = style,
+            Explode = explode,
+            Schema = new JsonSchema { Type = "string" }
+        };
+    }
+
+    private static Dictionary<string, object?> CreateObject()
+    {
+        return new Dictionary<string, object?> { ["role"] = "admin", ["firstName"] = "Alex" };
+    }
+
+    #endregion
+}
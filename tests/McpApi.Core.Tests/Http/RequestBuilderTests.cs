@@ -3,6 +3,7 @@ namespace McpApi.Core.Tests.Http;
 using McpApi.Core.Http;
 using McpApi.Core.Models;
 using System.Text.Json;
+using System.Web;
 using Xunit;
 
 public class RequestBuilderTests
@@ -102,6 +103,46 @@ public class RequestBuilderTests
         Assert.DoesNotContain("filter", request.RequestUri!.Query);
     }
 
+    [Fact]
+    public void Build_WithArrayQueryParameter_RepeatsKey()
+    {
+        // Arrange
+        var endpoint = CreateEndpoint("GET", "/users",
+            CreateParam("id", "query"));
+
+        var parameters = new Dictionary<string, object?>
+        {
+            ["id"] = new List<object?> { 3L, 4L }
+        };
+
+        // Act
+        var request = RequestBuilder.Build(BaseUrl, endpoint, parameters);
+
+        // Assert
+        Assert.Equal("?id=3&id=4", request.RequestUri!.Query);
+    }
+
+    [Fact]
+    public void Build_WithDeepObjectQueryParameter_UsesBracketedKeys()
+    {
+        // Arrange
+        var filter = CreateParam("filter", "query");
+        filter.Style = "deepObject";
+        var endpoint = CreateEndpoint("GET", "/users", filter);
+
+        var parameters = new Dictionary<string, object?>
+        {
+            ["filter"] = new Dictionary<string, object?> { ["role"] = "admin" }
+        };
+
+        // Act
+        var request = RequestBuilder.Build(BaseUrl, endpoint, parameters);
+
+        // Assert
+        var query = HttpUtility.ParseQueryString(request.RequestUri!.Query);
+        Assert.Equal("admin", query["filter[role]"]);
+    }
+
     #endregion
 
     #region Header Parameter Tests
@@ -132,6 +173,52 @@ public class RequestBuilderTests
 
     #endregion
 
+    #region Cookie Parameter Tests
+
+    [Fact]
+    public void Build_WithCookieParameters_AddsCookieHeader()
+    {
+        // Arrange
+        var endpoint = CreateEndpoint("GET", "/users",
+            CreateParam("session", "cookie"),
+            CreateParam("theme", "cookie"));
+
+        var parameters = new Dictionary<string, object?>
+        {
+            ["session"] = "abc",
+            ["theme"] = "dark"
+        };
+
+        // Act
+        var request = RequestBuilder.Build(BaseUrl, endpoint, parameters);
+
+        // Assert
+        Assert.True(request.Headers.TryGetValues("Cookie", out var cookie));
+        Assert.Equal("session=abc; theme=dark", cookie.Single());
+    }
+
+    [Fact]
+    public void Build_WithCookieParameter_DoesNotAddToBody()
+    {
+        // Arrange
+        var endpoint = CreateEndpoint("POST", "/users",
+            CreateParam("session", "cookie"));
+        endpoint.RequestBody = new RequestBodyDefinition { Required = false };
+
+        var parameters = new Dictionary<string, object?>
+        {
+            ["session"] = "abc"
+        };
+
+        // Act
+        var request = RequestBuilder.Build(BaseUrl, endpoint, parameters);
+
+        // Assert
+        Assert.Null(request.Content);
+    }
+
+    #endregion
+
     #region Request Body Tests
 
     [Fact]
@@ -222,6 +309,167 @@ public class RequestBuilderTests
 
     #endregion
 
+    #region Body Encoding Tests
+
+    [Fact]
+    public async Task Build_WithVendorJsonBody_UsesDeclaredContentType()
+    {
+        // Arrange
+        var endpoint = CreateEndpoint("POST", "/users");
+        endpoint.RequestBody = CreateBody("application/vnd.api+json");
+
+        var parameters = new Dictionary<string, object?> { ["body"] = new { name = "John" } };
+
+        // Act
+        var request = RequestBuilder.Build(BaseUrl, endpoint, parameters);
+
+        // Assert
+        Assert.Equal("application/vnd.api+json", request.Content!.Headers.ContentType?.MediaType);
+        Assert.Equal("{\"name\":\"John\"}", await request.Content.ReadAsStringAsync());
+    }
+
+    [Fact]
+    public async Task Build_WithFormBody_EncodesNestedFieldsAndArrays()
+    {
+        // Arrange
+        var endpoint = CreateEndpoint("POST", "/charges");
+        endpoint.RequestBody = CreateBody("application/x-www-form-urlencoded");
+
+        var parameters = new Dictionary<string, object?>
+        {
+            ["amount"] = 2000L,
+            ["capture"] = false,
+            ["metadata"] = new Dictionary<string, object?> { ["order_id"] = "6735" },
+            ["StatusCallbackEvent"] = new List<object?> { "initiated", "ringing" }
+        };
+
+        // Act
+        var request = RequestBuilder.Build(BaseUrl, endpoint, parameters);
+
+        // Assert
+        Assert.Equal("application/x-www-form-urlencoded", request.Content!.Headers.ContentType?.MediaType);
+        var content = await request.Content.ReadAsStringAsync();
+        Assert.Equal(
+            "amount=2000&capture=false&metadata%5Border_id%5D=6735&StatusCallbackEvent=initiated&StatusCallbackEvent=ringing",
+            content);
+    }
+
+    [Fact]
+    public void Build_WithFormBodyThatIsNotAnObject_Throws()
+    {
+        // Arrange
+        var endpoint = CreateEndpoint("POST", "/charges");
+        endpoint.RequestBody = CreateBody("application/x-www-form-urlencoded");
+
+        var parameters = new Dictionary<string, object?> { ["body"] = new List<object?> { 1L, 2L } };
+
+        // Act & Assert
+        Assert.Throws<ArgumentException>(() => RequestBuilder.Build(BaseUrl, endpoint, parameters));
+    }
+
+    [Fact]
+    public async Task Build_WithMultipartBody_DecodesBase64FileParts()
+    {
+        // Arrange
+        var endpoint = CreateEndpoint("POST", "/files");
+        endpoint.RequestBody = CreateBody("multipart/form-data", new JsonSchema
+        {
+            Type = "object",
+            Properties = new() { ["file"] = new JsonSchema { Type = "string", Format = "binary" } }
+        });
+
+        var parameters = new Dictionary<string, object?>
+        {
+            ["body"] = new Dictionary<string, object?>
+            {
+                ["purpose"] = "assistants",
+                ["file"] = new Dictionary<string, object?>
+                {
+                    ["filename"] = "notes.txt",
+                    ["contentType"] = "text/plain",
+                    ["data"] = Convert.ToBase64String("hello"u8.ToArray())
+                }
+            }
+        };
+
+        // Act
+        var request = RequestBuilder.Build(BaseUrl, endpoint, parameters);
+
+        // Assert
+        var content = Assert.IsType<MultipartFormDataContent>(request.Content);
+        var parts = content.ToList();
+        Assert.Equal(2, parts.Count);
+        Assert.Equal("assistants", await parts[0].ReadAsStringAsync());
+        var file = parts[1];
+        Assert.Equal("notes.txt", file.Headers.ContentDisposition?.FileName);
+        Assert.Equal("text/plain", file.Headers.ContentType?.MediaType);
+        Assert.Equal("hello", await file.ReadAsStringAsync());
+    }
+
+    [Fact]
+    public void Build_WithInvalidBase64FilePart_Throws()
+    {
+        // Arrange
+        var endpoint = CreateEndpoint("POST", "/files");
+        endpoint.RequestBody = CreateBody("multipart/form-data", new JsonSchema
+        {
+            Type = "object",
+            Properties = new() { ["file"] = new JsonSchema { Type = "string", Format = "binary" } }
+        });
+
+        var parameters = new Dictionary<string, object?> { ["file"] = "not base64!" };
+
+        // Act & Assert
+        var ex = Assert.Throws<ArgumentException>(() => RequestBuilder.Build(BaseUrl, endpoint, parameters));
+        Assert.Contains("file", ex.Message);
+    }
+
+    [Fact]
+    public async Task Build_WithXmlBody_UsesSingleTopLevelPropertyAsRoot()
+    {
+        // Arrange
+        var endpoint = CreateEndpoint("POST", "/pets");
+        endpoint.RequestBody = CreateBody("application/xml");
+
+        var parameters = new Dictionary<string, object?>
+        {
+            ["body"] = new Dictionary<string, object?>
+            {
+                ["pet"] = new Dictionary<string, object?>
+                {
+                    ["name"] = "Rex",
+                    ["tag"] = new List<object?> { "dog", "good" }
+                }
+            }
+        };
+
+        // Act
+        var request = RequestBuilder.Build(BaseUrl, endpoint, parameters);
+
+        // Assert
+        Assert.Equal("application/xml", request.Content!.Headers.ContentType?.MediaType);
+        Assert.Equal("<pet><name>Rex</name><tag>dog</tag><tag>good</tag></pet>", await request.Content.ReadAsStringAsync());
+    }
+
+    [Fact]
+    public async Task Build_WithTextBody_SendsValueAsText()
+    {
+        // Arrange
+        var endpoint = CreateEndpoint("POST", "/messages");
+        endpoint.RequestBody = CreateBody("text/plain");
+
+        var parameters = new Dictionary<string, object?> { ["body"] = 42L };
+
+        // Act
+        var request = RequestBuilder.Build(BaseUrl, endpoint, parameters);
+
+        // Assert
+        Assert.Equal("text/plain", request.Content!.Headers.ContentType?.MediaType);
+        Assert.Equal("42", await request.Content.ReadAsStringAsync());
+    }
+
+    #endregion
+
     #region Required Parameter Validation Tests
 
     [Fact]
@@ -378,5 +626,14 @@ public class RequestBuilderTests
         };
     }
 
+    private static RequestBodyDefinition CreateBody(string contentType, JsonSchema? schema = null)
+    {
+        return new RequestBodyDefinition
+        {
+            Required = true,
+            Content = new() { [contentType] = schema ?? new JsonSchema { Type = "object" } }
+        };
+    }
+
     #endregion
 }
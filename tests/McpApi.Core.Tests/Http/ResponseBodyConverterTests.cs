@@ -0,0 +1,129 @@
+namespace McpApi.Core.Tests.Http;
+
+using McpApi.Core.Http;
+using System.Text.Json.Nodes;
+using Xunit;
+
+public class ResponseBodyConverterTests
+{
+    #region Media Type Tests
+
+    [Theory]
+    [InlineData("image/png", true)]
+    [InlineData("application/pdf", true)]
+    [InlineData("application/octet-stream", true)]
+    [InlineData("application/json", false)]
+    [InlineData("application/problem+json", false)]
+    [InlineData("application/xml", false)]
+    [InlineData("image/svg+xml", false)]
+    [InlineData("text/csv; charset=utf-8", false)]
+    [InlineData(null, false)]
+    public void IsBinary_ClassifiesMediaType(string? mediaType, bool expected)
+    {
+        // Act & Assert
+        Assert.Equal(expected, ResponseBodyConverter.IsBinary(mediaType));
+    }
+
+    #endregion
+
+    #region Binary Tests
+
+    [Fact]
+    public async Task ReadBinaryAsync_WithinLimit_ReturnsBytes()
+    {
+        // Arrange
+        var content = new ByteArrayContent([1, 2, 3]);
+
+        // Act
+        var (data, size) = await ResponseBodyConverter.ReadBinaryAsync(content);
+
+        // Assert
+        Assert.Equal(new byte[] { 1, 2, 3 }, data);
+        Assert.Equal(3, size);
+    }
+
+    [Fact]
+    public async Task ReadBinaryAsync_OverLimit_ReturnsSizeOnly()
+    {
+        // Arrange
+        var content = new ByteArrayContent(new byte[Constants.ResponseBodies.MaxBinaryBytes + 1]);
+
+        // Act
+        var (data, size) = await ResponseBodyConverter.ReadBinaryAsync(content);
+
+        // Assert
+        Assert.Null(data);
+        Assert.Equal(Constants.ResponseBodies.MaxBinaryBytes + 1, size);
+    }
+
+    #endregion
+
+    #region CSV Tests
+
+    [Fact]
+    public void ToJson_Csv_ReturnsRowsKeyedByHeader()
+    {
+        // Arrange
+        const string csv = "id,name,notes\r\n1,alpha,\"says \"\"hi\"\", twice\"\r\n2,beta,\"two\nlines\"\r\n";
+
+        // Act
+        var rows = Assert.IsType<JsonArray>(ResponseBodyConverter.ToJson(csv, "text/csv"));
+
+        // Assert
+        Assert.Equal(2, rows.Count);
+        Assert.Equal("1", rows[0]!["id"]!.GetValue<string>());
+        Assert.Equal("says \"hi\", twice", rows[0]!["notes"]!.GetValue<string>());
+        Assert.Equal("two\nlines", rows[1]!["notes"]!.GetValue<string>());
+    }
+
+    [Fact]
+    public void ToJson_CsvWithBlankHeader_UsesColumnPosition()
+    {
+        // Act
+        var rows = Assert.IsType<JsonArray>(ResponseBodyConverter.ToJson("id,\n1,x", "text/csv"));
+
+        // Assert
+        Assert.Equal("x", rows[0]!["column2"]!.GetValue<string>());
+    }
+
+    #endregion
+
+    #region XML Tests
+
+    [Fact]
+    public void ToJson_Xml_ConvertsElementsAndAttributes()
+    {
+        // Arrange
+        const string xml = """<pets count="2"><pet id="1">Rex</pet><pet id="2">Tom</pet><owner>Ada</owner></pets>""";
+
+        // Act
+        var json = Assert.IsType<JsonObject>(ResponseBodyConverter.ToJson(xml, "application/xml"));
+
+        // Assert
+        var pets = json["pets"]!;
+        Assert.Equal("2", pets["@count"]!.GetValue<string>());
+        Assert.Equal("Ada", pets["owner"]!.GetValue<string>());
+        var list = Assert.IsType<JsonArray>(pets["pet"]);
+        Assert.Equal("Tom", list[1]!["#text"]!.GetValue<string>());
+        Assert.Equal("2", list[1]!["@id"]!.GetValue<string>());
+    }
+
+    [Fact]
+    public void ToJson_XmlWithDtd_ReturnsNull()
+    {
+        // Arrange
+        const string xml = """<!DOCTYPE foo [<!ENTITY xxe SYSTEM "file:///etc/passwd">]><foo>&xxe;</foo>""";
+
+        // Act & Assert
+        Assert.Null(ResponseBodyConverter.ToJson(xml, "text/xml"));
+    }
+
+    [Fact]
+    public void ToJson_OtherMediaType_ReturnsNull()
+    {
+        // Act & Assert
+        Assert.Null(ResponseBodyConverter.ToJson("{}", "application/json"));
+    }
+
+    #endregion
+}
@@ -0,0 +1,332 @@
+namespace McpApi.Core.Tests.Http;
+
+using McpApi.Core.Http;
+using McpApi.Core.Models;
+using System.Text.Json;
+using Xunit;
+
+public class ResponseShaperTests
+{
+    private const string RepoListBody = """
+        {
+          "total_count": 3,
+          "items": [
+            { "id": 1, "name": "alpha", "owner": { "login": "ada", "id": 10 } },
+            { "id": 2, "name": "beta", "owner": { "login": "grace", "id": 11 } },
+            { "id": 3, "name": "gamma", "owner": { "login": "linus", "id": 12 } }
+          ]
+        }
+        """;
+
+    #region Output Format Tests
+
+    [Fact]
+    public void ToToolOutput_WithoutShaping_IncludesFullBodyAndHeaders()
+    {
+        // Arrange
+        var response = CreateResponse(RepoListBody);
+
+        // Act
+        var output = Parse(ResponseShaper.ToToolOutput(response));
+
+        // Assert
+        Assert.Equal(200, output.GetProperty("statusCode").GetInt32());
+        Assert.True(output.GetProperty("success").GetBoolean());
+        Assert.Equal(3, output.GetProperty("body").GetProperty("items").GetArrayLength());
+        Assert.Equal(2, output.GetProperty("headers").EnumerateObject().Count());
+    }
+
+    [Fact]
+    public void ToToolOutput_NonJsonBody_EmbedsString()
+    {
+        // Arrange
+        var response = CreateResponse("plain text");
+
+        // Act
+        var output = Parse(ResponseShaper.ToToolOutput(response));
+
+        // Assert
+        Assert.Equal("plain text", output.GetProperty("body").GetString());
+    }
+
+    [Fact]
+    public void ToToolOutput_WithRetries_IncludesAttempts()
+    {
+        // Arrange
+        var response = new ApiResponse
+        {
+            StatusCode = 200,
+            ReasonPhrase = "OK",
+            Headers = new Dictionary<string, string[]>(),
+            Body = "{}",
+            Retries = [new RetryAttempt(503, null, 500), new RetryAttempt(null, "Request timed out after 30 seconds", 1000)]
+        };
+
+        // Act
+        var output = Parse(ResponseShaper.ToToolOutput(response));
+
+        // Assert
+        Assert.Equal(3, output.GetProperty("attempts").GetInt32());
+        var retries = output.GetProperty("retries");
+        Assert.Equal(503, retries[0].GetProperty("statusCode").GetInt32());
+        Assert.Equal("Request timed out after 30 seconds", retries[1].GetProperty("error").GetString());
+    }
+
+    [Fact]
+    public void ToToolOutput_WithoutRetries_OmitsAttempts()
+    {
+        // Act
+        var output = Parse(ResponseShaper.ToToolOutput(CreateResponse("{}")));
+
+        // Assert
+        Assert.False(output.TryGetProperty("attempts", out _));
+    }
+
+    [Fact]
+    public void ToToolOutput_CsvBodyWithFields_ShapesConvertedRows()
+    {
+        // Arrange
+        var response = CreateResponse("id,name\n1,alpha\n2,beta\n", "text/csv; charset=utf-8");
+        var shaping = new ResponseShapingConfig { Fields = ["[*].name"] };
+
+        // Act
+        var output = Parse(ResponseShaper.ToToolOutput(response, shaping));
+
+        // Assert
+        var rows = output.GetProperty("body");
+        Assert.Equal(2, rows.GetArrayLength());
+        Assert.Equal("beta", rows[1].GetProperty("name").GetString());
+        Assert.False(rows[1].TryGetProperty("id", out _));
+    }
+
+    [Fact]
+    public void ToToolOutput_BinaryBody_DescribesContent()
+    {
+        // Arrange
+        var response = new ApiResponse
+        {
+            StatusCode = 200,
+            ReasonPhrase = "OK",
+            Headers = new Dictionary<string, string[]> { ["Content-Type"] = ["image/png"] },
+            Body = null,
+            BinaryBody = [0x89, 0x50, 0x4E, 0x47],
+            BinarySize = 4
+        };
+
+        // Act
+        var output = Parse(ResponseShaper.ToToolOutput(response));
+
+        // Assert
+        var binary = output.GetProperty("binary");
+        Assert.Equal("image/png", binary.GetProperty("contentType").GetString());
+        Assert.Equal(4, binary.GetProperty("bytes").GetInt64());
+        Assert.False(binary.TryGetProperty("omitted", out _));
+        Assert.Equal(JsonValueKind.Null, output.GetProperty("body").ValueKind);
+    }
+
+    [Fact]
+    public void ToToolOutput_BinaryBodyOverLimit_ReportsOmitted()
+    {
+        // Arrange
+        var response = new ApiResponse
+        {
+            StatusCode = 200,
+            ReasonPhrase = "OK",
+            Headers = new Dictionary<string, string[]> { ["Content-Type"] = ["application/pdf"] },
+            Body = null,
+            BinarySize = 10_000_000
+        };
+
+        // Act
+        var output = Parse(ResponseShaper.ToToolOutput(response));
+
+        // Assert
+        Assert.True(output.GetProperty("binary").TryGetProperty("omitted", out _));
+    }
+
+    #endregion
+
+    #region Field Selection Tests
+
+    [Fact]
+    public void ToToolOutput_WithFields_KeepsOnlySelectedFields()
+    {
+        // Arrange
+        var shaping = new ResponseShapingConfig { Fields = ["$.total_count", "$.items[*].name", "$.items[*].owner.login"] };
+
+        // Act
+        var body = Parse(ResponseShaper.ToToolOutput(CreateResponse(RepoListBody), shaping)).GetProperty("body");
+
+        // Assert
+        Assert.Equal(3, body.GetProperty("total_count").GetInt32());
+        var first = body.GetProperty("items")[0];
+        Assert.Equal("alpha", first.GetProperty("name").GetString());
+        Assert.Equal("ada", first.GetProperty("owner").GetProperty("login").GetString());
+        Assert.False(first.TryGetProperty("id", out _));
+        Assert.False(first.GetProperty("owner").TryGetProperty("id", out _));
+    }
+
+    [Fact]
+    public void ToToolOutput_WithIndexAndBracketNotation_SelectsElement()
+    {
+        // Arrange
+        var shaping = new ResponseShapingConfig { Fields = ["items[1]['name']"] };
+
+        // Act
+        var body = Parse(ResponseShaper.ToToolOutput(CreateResponse(RepoListBody), shaping)).GetProperty("body");
+
+        // Assert
+        var item = Assert.Single(body.GetProperty("items").EnumerateArray());
+        Assert.Equal("beta", item.GetProperty("name").GetString());
+    }
+
+    [Fact]
+    public void ToToolOutput_WithWildcardProperty_SelectsAllChildren()
+    {
+        // Arrange
+        var shaping = new ResponseShapingConfig { Fields = ["$.items[0].owner.*"] };
+
+        // Act
+        var body = Parse(ResponseShaper.ToToolOutput(CreateResponse(RepoListBody), shaping)).GetProperty("body");
+
+        // Assert
+        var owner = body.GetProperty("items")[0].GetProperty("owner");
+        Assert.Equal("ada", owner.GetProperty("login").GetString());
+        Assert.Equal(10, owner.GetProperty("id").GetInt32());
+    }
+
+    #endregion
+
+    #region Limit Tests
+
+    [Fact]
+    public void ToToolOutput_WithMaxArrayLength_TrimsArraysWithMarker()
+    {
+        // Arrange
+        var shaping = new ResponseShapingConfig { MaxArrayLength = 1 };
+
+        // Act
+        var body = Parse(ResponseShaper.ToToolOutput(CreateResponse(RepoListBody), shaping)).GetProperty("body");
+
+        // Assert
+        var items = body.GetProperty("items");
+        Assert.Equal(2, items.GetArrayLength());
+        Assert.Equal("alpha", items[0].GetProperty("name").GetString());
+        Assert.Equal("[... 2 more items]", items[1].GetString());
+    }
+
+    [Fact]
+    public void ToToolOutput_WithMaxBytes_TruncatesBodyWithMarker()
+    {
+        // Arrange
+        var shaping = new ResponseShapingConfig { MaxBytes = 256 };
+        var body = JsonSerializer.Serialize(new { text = new string('x', 1000) });
+
+        // Act
+        var shaped = Parse(ResponseShaper.ToToolOutput(CreateResponse(body), shaping)).GetProperty("body").GetString();
+
+        // Assert
+        Assert.NotNull(shaped);
+        Assert.StartsWith("{\"text\":\"xxx", shaped);
+        Assert.EndsWith($"... [truncated {body.Length - 256} bytes]", shaped);
+    }
+
+    [Fact]
+    public void ToToolOutput_WithHeaderAllowList_KeepsOnlyListedHeaders()
+    {
+        // Arrange
+        var shaping = new ResponseShapingConfig { Headers = ["x-ratelimit-remaining"] };
+
+        // Act
+        var headers = Parse(ResponseShaper.ToToolOutput(CreateResponse(RepoListBody), shaping)).GetProperty("headers");
+
+        // Assert
+        var header = Assert.Single(headers.EnumerateObject());
+        Assert.Equal("X-RateLimit-Remaining", header.Name);
+    }
+
+    [Fact]
+    public void ToToolOutput_WithEmptyHeaderList_DropsAllHeaders()
+    {
+        // Arrange
+        var shaping = new ResponseShapingConfig { Headers = [] };
+
+        // Act
+        var headers = Parse(ResponseShaper.ToToolOutput(CreateResponse(RepoListBody), shaping)).GetProperty("headers");
+
+        // Assert
+        Assert.Empty(headers.EnumerateObject());
+    }
+
+    #endregion
+
+    #region Validation Tests
+
+    [Theory]
+    [InlineData("$.items[")]
+    [InlineData("$.items[?(@.id > 1)]")]
+    [InlineData("$..name")]
+    public void Validate_InvalidField_Throws(string field)
+    {
+        // Arrange
+        var shaping = new ResponseShapingConfig { Fields = [field] };
+
+        // Act & Assert
+        Assert.Throws<ArgumentException>(() => ResponseShaper.Validate(shaping));
+    }
+
+    [Fact]
+    public void Validate_MaxBytesTooSmall_Throws()
+    {
+        // Arrange
+        var shaping = new ResponseShapingConfig { MaxBytes = 10 };
+
+        // Act & Assert
+        Assert.Throws<ArgumentException>(() => ResponseShaper.Validate(shaping));
+    }
+
+    [Fact]
+    public void Validate_ValidConfig_DoesNotThrow()
+    {
+        // Arrange
+        var shaping = new ResponseShapingConfig
+        {
+            Fields = ["$.items[*].name", "total_count", "$['items'][0]"],
+            MaxArrayLength = 5,
+            MaxBytes = 4096,
+            Headers = ["Link"]
+        };
+
+        // Act
+        var exception = Record.Exception(() => ResponseShaper.Validate(shaping));
+
+        // Assert
+        Assert.Null(exception);
+    }
+
+    #endregion
+
+    #region Helper Methods
+
+    private static ApiResponse CreateResponse(string body, string contentType = "application/json")
+    {
+        return new ApiResponse
+        {
+            StatusCode = 200,
+            ReasonPhrase = "OK",
+            Headers = new Dictionary<string, string[]>
+            {
+                ["Content-Type"] = [contentType],
+                ["X-RateLimit-Remaining"] = ["4999"]
+            },
+            Body = body
+        };
+    }
+
+    private static JsonElement Parse(string json)
+    {
+        return JsonSerializer.Deserialize<JsonElement>(json);
+    }
+
+    #endregion
+}
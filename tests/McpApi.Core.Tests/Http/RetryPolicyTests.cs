@@ -0,0 +1,167 @@
+namespace McpApi.Core.Tests.Http;
+
+using McpApi.Core.Http;
+using McpApi.Core.Models;
+using Xunit;
+
+public class RetryPolicyTests
+{
+    private static readonly DateTimeOffset Now = new(2025, 6, 1, 12, 0, 0, TimeSpan.Zero);
+
+    #region Retry Decision Tests
+
+    [Theory]
+    [InlineData(429, true)]
+    [InlineData(503, true)]
+    [InlineData(504, true)]
+    [InlineData(501, false)]
+    [InlineData(404, false)]
+    [InlineData(200, false)]
+    public void IsTransient_ReturnsExpected(int statusCode, bool expected)
+    {
+        // Act
+        var result = RetryPolicy.IsTransient(statusCode);
+
+        // Assert
+        Assert.Equal(expected, result);
+    }
+
+    [Theory]
+    [InlineData("GET", 503, true)]
+    [InlineData("PUT", null, true)]
+    [InlineData("POST", 503, false)]
+    [InlineData("POST", null, false)]
+    [InlineData("POST", 429, true)]
+    public void CanRetry_IdempotentOnly_RetriesSafeMethodsAnd429(string method, int? statusCode, bool expected)
+    {
+        // Arrange
+        var resilience = new ResilienceConfig { RetryIdempotentOnly = true };
+
+        // Act
+        var result = RetryPolicy.CanRetry(method, statusCode, resilience);
+
+        // Assert
+        Assert.Equal(expected, result);
+    }
+
+    [Fact]
+    public void CanRetry_AllMethods_RetriesPost()
+    {
+        // Arrange
+        var resilience = new ResilienceConfig { RetryIdempotentOnly = false };
+
+        // Act
+        var result = RetryPolicy.CanRetry("POST", 503, resilience);
+
+        // Assert
+        Assert.True(result);
+    }
+
+    #endregion
+
+    #region Delay Tests
+
+    [Theory]
+    [InlineData(1, 500)]
+    [InlineData(2, 1000)]
+    [InlineData(3, 2000)]
+    public void GetDelay_WithoutRetryAfter_BacksOffExponentially(int retry, int expectedMs)
+    {
+        // Arrange
+        var resilience = new ResilienceConfig { BackoffMs = 500 };
+
+        // Act
+        var delay = RetryPolicy.GetDelay(resilience, retry, null, Now);
+
+        // Assert
+        Assert.Equal(TimeSpan.FromMilliseconds(expectedMs), delay);
+    }
+
+    [Fact]
+    public void GetDelay_LargeBackoff_IsCapped()
+    {
+        // Arrange
+        var resilience = new ResilienceConfig { BackoffMs = 20_000 };
+
+        // Act
+        var delay = RetryPolicy.GetDelay(resilience, 5, null, Now);
+
+        // Assert
+        Assert.Equal(TimeSpan.FromMilliseconds(Constants.Resilience.MaxBackoffMs), delay);
+    }
+
+    [Fact]
+    public void GetDelay_RetryAfterSeconds_UsesHeader()
+    {
+        // Arrange
+        var headers = new Dictionary<string, string[]> { ["retry-after"] = ["3"] };
+
+        // Act
+        var delay = RetryPolicy.GetDelay(new ResilienceConfig(), 1, headers, Now);
+
+        // Assert
+        Assert.Equal(TimeSpan.FromSeconds(3), delay);
+    }
+
+    [Fact]
+    public void GetDelay_RetryAfterDate_UsesTimeUntilDate()
+    {
+        // Arrange
+        var headers = new Dictionary<string, string[]> { ["Retry-After"] = [Now.AddSeconds(10).ToString("r")] };
+
+        // Act
+        var delay = RetryPolicy.GetDelay(new ResilienceConfig(), 1, headers, Now);
+
+        // Assert
+        Assert.Equal(TimeSpan.FromSeconds(10), delay);
+    }
+
+    [Fact]
+    public void GetDelay_RetryAfterTooLong_ReturnsNull()
+    {
+        // Arrange
+        var headers = new Dictionary<string, string[]> { ["Retry-After"] = ["3600"] };
+
+        // Act
+        var delay = RetryPolicy.GetDelay(new ResilienceConfig(), 1, headers, Now);
+
+        // Assert
+        Assert.Null(delay);
+    }
+
+    #endregion
+
+    #region Validation Tests
+
+    [Fact]
+    public void Validate_Defaults_DoesNotThrow()
+    {
+        // Act
+        var exception = Record.Exception(() => RetryPolicy.Validate(new ResilienceConfig()));
+
+        // Assert
+        Assert.Null(exception);
+    }
+
+    [Fact]
+    public void Validate_TooManyRetries_Throws()
+    {
+        // Arrange
+        var resilience = new ResilienceConfig { MaxRetries = Constants.Resilience.MaxRetries + 1 };
+
+        // Act & Assert
+        Assert.Throws<ArgumentException>(() => RetryPolicy.Validate(resilience));
+    }
+
+    [Fact]
+    public void Validate_ZeroTimeout_Throws()
+    {
+        // Arrange
+        var resilience = new ResilienceConfig { TimeoutSeconds = 0 };
+
+        // Act & Assert
+        Assert.Throws<ArgumentException>(() => RetryPolicy.Validate(resilience));
+    }
+
+    #endregion
+}
@@ -0,0 +1,64 @@
+namespace McpApi.Core.Tests.Http;
+
+using McpApi.Core.Http;
+using System.Text.Json;
+using Xunit;
+
+public class ToolArgumentsTests
+{
+    #region Conversion Tests
+
+    [Fact]
+    public void ToParameters_WithPrimitives_ConvertsToClrValues()
+    {
+        // Arrange
+        var arguments = Parse("""{"name":"octocat","page":2,"ratio":0.5,"draft":true,"since":null}""");
+
+        // Act
+        var parameters = ToolArguments.ToParameters(arguments);
+
+        // Assert
+        Assert.Equal("octocat", parameters["name"]);
+        Assert.Equal(2L, parameters["page"]);
+        Assert.Equal(0.5, parameters["ratio"]);
+        Assert.Equal(true, parameters["draft"]);
+        Assert.Null(parameters["since"]);
+    }
+
+    [Fact]
+    public void ToParameters_WithNestedBody_ConvertsObjectsAndArrays()
+    {
+        // Arrange
+        var arguments = Parse("""{"body":{"title":"Bug","labels":["bug","ui"]}}""");
+
+        // Act
+        var parameters = ToolArguments.ToParameters(arguments);
+
+        // Assert
+        var body = Assert.IsType<Dictionary<string, object?>>(parameters["body"]);
+        Assert.Equal("Bug", body["title"]);
+        var labels = Assert.IsType<List<object?>>(body["labels"]);
+        Assert.Equal(new object?[] { "bug", "ui" }, labels);
+    }
+
+    [Fact]
+    public void ToParameters_WithNull_ReturnsEmpty()
+    {
+        // Act
+        var parameters = ToolArguments.ToParameters(null);
+
+        // Assert
+        Assert.Empty(parameters);
+    }
+
+    #endregion
+
+    #region Helper Methods
+
+    private static Dictionary<string, JsonElement> Parse(string json)
+    {
+        return JsonSerializer.Deserialize<Dictionary<string, JsonElement>>(json)!;
+    }
+
+    #endregion
+}
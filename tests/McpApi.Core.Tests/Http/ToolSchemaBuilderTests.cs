@@ -0,0 +1,324 @@
+namespace McpApi.Core.Tests.Http;
+
+using McpApi.Core.Http;
+using McpApi.Core.Models;
+using System.Text.Json;
+using Xunit;
+
+public class ToolSchemaBuilderTests
+{
+    #region Parameter Tests
+
+    [Fact]
+    public void BuildInputSchema_WithParameters_AddsPropertiesAndRequired()
+    {
+        // Arrange
+        var endpoint = CreateEndpoint("GET", "/users/{userId}",
+            CreateParam("userId", "path", required: true),
+            CreateParam("page", "query", type: "integer"));
+
+        // Act
+        var schema = ToolSchemaBuilder.BuildInputSchema(endpoint);
+
+        // Assert
+        Assert.Equal("object", schema.GetProperty("type").GetString());
+        var properties = schema.GetProperty("properties");
+        Assert.Equal("string", properties.GetProperty("userId").GetProperty("type").GetString());
+        Assert.Equal("integer", properties.GetProperty("page").GetProperty("type").GetString());
+        Assert.Equal(new[] { "userId" }, schema.GetProperty("required").EnumerateArray().Select(e => e.GetString()));
+    }
+
+    [Fact]
+    public void BuildInputSchema_WithParameterDescription_UsesItForProperty()
+    {
+        // Arrange
+        var param = CreateParam("page", "query");
+        param.Description = "Page number to return";
+        var endpoint = CreateEndpoint("GET", "/users", param);
+
+        // Act
+        var schema = ToolSchemaBuilder.BuildInputSchema(endpoint);
+
+        // Assert
+        Assert.Equal("Page number to return",
+            schema.GetProperty("properties").GetProperty("page").GetProperty("description").GetString());
+    }
+
+    [Fact]
+    public void BuildInputSchema_WithExcludedParameter_OmitsIt()
+    {
+        // Arrange
+        var excluded = CreateParam("X-Request-Id", "header");
+        excluded.ExcludeFromTool = true;
+        var endpoint = CreateEndpoint("GET", "/users", excluded);
+
+        // Act
+        var schema = ToolSchemaBuilder.BuildInputSchema(endpoint);
+
+        // Assert
+        Assert.False(schema.GetProperty("properties").TryGetProperty("X-Request-Id", out _));
+        Assert.False(schema.TryGetProperty("required", out _));
+    }
+
+    #endregion
+
+    #region Request Body Tests
+
+    [Fact]
+    public void BuildInputSchema_WithJsonRequestBody_AddsBodyProperty()
+    {
+        // Arrange
+        var endpoint = CreateEndpoint("POST", "/users");
+        endpoint.RequestBody = new RequestBodyDefinition
+        {
+            Required = true,
+            Content = new()
+            {
+                ["application/json"] = new JsonSchema
+                {
+                    Type = "object",
+                    Properties = new() { ["name"] = new JsonSchema { Type = "string" } },
+                    Required = ["name"]
+                }
+            }
+        };
+
+        // Act
+        var schema = ToolSchemaBuilder.BuildInputSchema(endpoint);
+
+        // Assert
+        var body = schema.GetProperty("properties").GetProperty(ToolSchemaBuilder.BodyArgumentName);
+        Assert.Equal("object", body.GetProperty("type").GetString());
+        Assert.Equal("string", body.GetProperty("properties").GetProperty("name").GetProperty("type").GetString());
+        Assert.Contains(schema.GetProperty("required").EnumerateArray(), e => e.GetString() == "body");
+    }
+
+    [Fact]
+    public void BuildInputSchema_WithRequestBodyOnGet_OmitsBody()
+    {
+        // Arrange - RequestBuilder never sends a body for GET
+        var endpoint = CreateEndpoint("GET", "/users");
+        endpoint.RequestBody = new RequestBodyDefinition
+        {
+            Content = new() { ["application/json"] = new JsonSchema { Type = "object" } }
+        };
+
+        // Act
+        var schema = ToolSchemaBuilder.BuildInputSchema(endpoint);
+
+        // Assert
+        Assert.False(schema.GetProperty("properties").TryGetProperty("body", out _));
+    }
+
+    [Fact]
+    public void GetBodyContent_WithSeveralMediaTypes_PrefersEncodableOne()
+    {
+        // Arrange
+        var endpoint = CreateEndpoint("POST", "/charges");
+        endpoint.RequestBody = new RequestBodyDefinition
+        {
+            Content = new()
+            {
+                ["application/octet-stream"] = new JsonSchema { Type = "string" },
+                ["application/x-www-form-urlencoded"] = new JsonSchema { Type = "object" }
+            }
+        };
+
+        // Act
+        var body = ToolSchemaBuilder.GetBodyContent(endpoint);
+
+        // Assert
+        Assert.Equal("application/x-www-form-urlencoded", body?.ContentType);
+    }
+
+    [Fact]
+    public void BuildInputSchema_WithMultipartBody_DescribesFileParts()
+    {
+        // Arrange
+        var endpoint = CreateEndpoint("POST", "/files");
+        endpoint.RequestBody = new RequestBodyDefinition
+        {
+            Content = new()
+            {
+                ["multipart/form-data"] = new JsonSchema
+                {
+                    Type = "object",
+                    Properties = new()
+                    {
+                        ["file"] = new JsonSchema { Type = "string", Format = "binary" },
+                        ["purpose"] = new JsonSchema { Type = "string" }
+                    }
+                }
+            }
+        };
+
+        // Act
+        var schema = ToolSchemaBuilder.BuildInputSchema(endpoint);
+
+        // Assert
+        var properties = schema.GetProperty("properties").GetProperty("body").GetProperty("properties");
+        var file = properties.GetProperty("file");
+        Assert.Equal("object", file.GetProperty("type").GetString());
+        Assert.True(file.GetProperty("properties").TryGetProperty(RequestBodyEncoder.FileDataProperty, out _));
+        Assert.Equal("string", properties.GetProperty("purpose").GetProperty("type").GetString());
+    }
+
+    [Fact]
+    public void BuildInputSchema_WithoutParameters_ReturnsEmptyObjectSchema()
+    {
+        // Arrange
+        var endpoint = CreateEndpoint("GET", "/health");
+
+        // Act
+        var schema = ToolSchemaBuilder.BuildInputSchema(endpoint);
+
+        // Assert
+        Assert.Equal(JsonValueKind.Object, schema.GetProperty("properties").ValueKind);
+        Assert.Empty(schema.GetProperty("properties").EnumerateObject());
+    }
+
+    #endregion
+
+    #region Pagination Tests
+
+    [Fact]
+    public void BuildInputSchema_PaginatedEndpoint_AddsPageLimits()
+    {
+        // Arrange
+        var endpoint = CreateEndpoint("GET", "/users", CreateParam("page", "query", type: "integer"));
+
+        // Act
+        var schema = ToolSchemaBuilder.BuildInputSchema(endpoint);
+
+        // Assert
+        var properties = schema.GetProperty("properties");
+        Assert.Equal("integer", properties.GetProperty(Paginator.MaxPagesArgumentName).GetProperty("type").GetString());
+        Assert.Equal("integer", properties.GetProperty(Paginator.MaxItemsArgumentName).GetProperty("type").GetString());
+        Assert.False(schema.TryGetProperty("required", out _));
+    }
+
+    [Fact]
+    public void BuildInputSchema_UnpaginatedEndpoint_OmitsPageLimits()
+    {
+        // Arrange
+        var endpoint = CreateEndpoint("GET", "/users/{userId}", CreateParam("userId", "path", required: true));
+
+        // Act
+        var schema = ToolSchemaBuilder.BuildInputSchema(endpoint);
+
+        // Assert
+        Assert.False(schema.GetProperty("properties").TryGetProperty(Paginator.MaxPagesArgumentName, out _));
+    }
+
+    #endregion
+
+    #region Server Tests
+
+    [Fact]
+    public void BuildInputSchema_ApiWithSeveralServers_AddsServerChoice()
+    {
+        // Arrange
+        var endpoint = CreateEndpoint("GET", "/users");
+        var api = CreateApi("https://api.example.com", "https://sandbox.example.com");
+
+        // Act
+        var schema = ToolSchemaBuilder.BuildInputSchema(endpoint, api);
+
+        // Assert
+        var server = schema.GetProperty("properties").GetProperty(ToolSchemaBuilder.ServerArgumentName);
+        Assert.Equal(
+            new[] { "server-1", "server-2" },
+            server.GetProperty("enum").EnumerateArray().Select(e => e.GetString()));
+        Assert.Contains("https://sandbox.example.com", server.GetProperty("description").GetString());
+    }
+
+    [Fact]
+    public void BuildInputSchema_ApiWithOneServer_OmitsServerChoice()
+    {
+        // Arrange
+        var endpoint = CreateEndpoint("GET", "/users");
+        var api = CreateApi("https://api.example.com");
+
+        // Act
+        var schema = ToolSchemaBuilder.BuildInputSchema(endpoint, api);
+
+        // Assert
+        Assert.False(schema.GetProperty("properties").TryGetProperty(ToolSchemaBuilder.ServerArgumentName, out _));
+    }
+
+    #endregion
+
+    #region Approval Tests
+
+    [Fact]
+    public void BuildInputSchema_EndpointRequiringApproval_AddsOptionalApprovalId()
+    {
+        // Arrange
+        var endpoint = CreateEndpoint("DELETE", "/users/{userId}", CreateParam("userId", "path", required: true));
+        endpoint.RequiresApproval = true;
+
+        // Act
+        var schema = ToolSchemaBuilder.BuildInputSchema(endpoint);
+
+        // Assert
+        var approvalId = schema.GetProperty("properties").GetProperty(ToolSchemaBuilder.ApprovalArgumentName);
+        Assert.Equal("string", approvalId.GetProperty("type").GetString());
+        Assert.Equal(new[] { "userId" }, schema.GetProperty("required").EnumerateArray().Select(e => e.GetString()));
+    }
+
+    [Fact]
+    public void BuildInputSchema_EndpointWithoutApproval_OmitsApprovalId()
+    {
+        // Arrange
+        var endpoint = CreateEndpoint("DELETE", "/users/{userId}", CreateParam("userId", "path", required: true));
+
+        // Act
+        var schema = ToolSchemaBuilder.BuildInputSchema(endpoint);
+
+        // Assert
+        Assert.False(schema.GetProperty("properties").TryGetProperty(ToolSchemaBuilder.ApprovalArgumentName, out _));
+    }
+
+    #endregion
+
+    #region Helper Methods
+
+    private static ApiRegistration CreateApi(params string[] serverUrls)
+    {
+        return new ApiRegistration
+        {
+            Id = "test-api",
+            DisplayName = "Test API",
+            BaseUrl = serverUrls[0],
+            OpenApiVersion = "3.0",
+            Auth = new NoAuthConfig(),
+            Servers = serverUrls.Select((url, i) => new ServerDefinition { Name = $"server-{i + 1}", Url = url }).ToList(),
+            SelectedServer = "server-1"
+        };
+    }
+
+    private static ApiEndpoint CreateEndpoint(string method, string path, params ParameterDefinition[] parameters)
+    {
+        return new ApiEndpoint
+        {
+            Id = "test-endpoint",
+            OperationId = "testOperation",
+            Method = method,
+            Path = path,
+            Parameters = parameters.ToList()
+        };
+    }
+
+    private static ParameterDefinition CreateParam(string name, string location, bool required = false, string type = "string")
+    {
+        return new ParameterDefinition
+        {
+            Name = name,
+            In = location,
+            Required = required,
+            Schema = new JsonSchema { Type = type }
+        };
+    }
+
+    #endregion
+}
@@ -0,0 +1,192 @@
+namespace McpApi.Core.Tests.Models;
+
+using McpApi.Core.Models;
+using Xunit;
+
+public class ApiRegistrationTests
+{
+    #region Environment Tests
+
+    [Fact]
+    public void SetEnvironment_NewName_AddsEnvironmentWithoutAuth()
+    {
+        // Arrange
+        var api = CreateApi();
+
+        // Act
+        var environment = api.SetEnvironment("sandbox", "https://sandbox.example.com");
+
+        // Assert
+        Assert.Same(environment, Assert.Single(api.Environments));
+        Assert.IsType<NoAuthConfig>(environment.Auth);
+    }
+
+    [Fact]
+    public void SetEnvironment_ExistingName_UpdatesBaseUrlIgnoringCase()
+    {
+        // Arrange
+        var api = CreateApi();
+        api.SetEnvironment("sandbox", "https://sandbox.example.com");
+
+        // Act
+        api.SetEnvironment("Sandbox", "https://sandbox-v2.example.com");
+
+        // Assert
+        Assert.Equal("https://sandbox-v2.example.com", Assert.Single(api.Environments).BaseUrl);
+    }
+
+    [Theory]
+    [InlineData("default")]
+    [InlineData("Has Spaces")]
+    [InlineData("-leading-dash")]
+    public void SetEnvironment_InvalidName_Throws(string name)
+    {
+        // Arrange
+        var api = CreateApi();
+
+        // Act & Assert
+        Assert.Throws<ArgumentException>(() => api.SetEnvironment(name, "https://sandbox.example.com"));
+        Assert.Empty(api.Environments);
+    }
+
+    [Fact]
+    public void SetEnvironment_TooMany_Throws()
+    {
+        // Arrange
+        var api = CreateApi();
+        for (var i = 0; i < Constants.Environments.MaxPerApi; i++)
+        {
+            api.SetEnvironment($"env-{i}", "https://example.com");
+        }
+
+        // Act & Assert
+        Assert.Throws<ArgumentException>(() => api.SetEnvironment("one-more", "https://example.com"));
+    }
+
+    [Fact]
+    public void SetAuth_NamedEnvironment_LeavesDefaultAuth()
+    {
+        // Arrange
+        var api = CreateApi();
+        api.SetEnvironment("sandbox", "https://sandbox.example.com");
+        var auth = new BearerTokenAuthConfig { Secret = SecretReference.FromKeyVault("sandbox-token") };
+
+        // Act
+        api.SetAuth("sandbox", auth);
+
+        // Assert
+        Assert.Same(auth, api.GetAuth("sandbox"));
+        Assert.IsType<NoAuthConfig>(api.GetAuth(null));
+        Assert.IsType<NoAuthConfig>(api.GetAuth(Constants.Environments.Default));
+    }
+
+    [Fact]
+    public void GetAuth_UnknownEnvironment_ThrowsListingAvailable()
+    {
+        // Arrange
+        var api = CreateApi();
+        api.SetEnvironment("sandbox", "https://sandbox.example.com");
+
+        // Act
+        var ex = Assert.Throws<ArgumentException>(() => api.GetAuth("staging"));
+
+        // Assert
+        Assert.Contains("default, sandbox", ex.Message);
+    }
+
+    [Fact]
+    public void RemoveEnvironment_Active_FallsBackToDefault()
+    {
+        // Arrange
+        var api = CreateApi();
+        api.SetEnvironment("sandbox", "https://sandbox.example.com");
+        api.SelectEnvironment("sandbox");
+
+        // Act
+        api.RemoveEnvironment("sandbox");
+
+        // Assert
+        Assert.Empty(api.Environments);
+        Assert.Null(api.ActiveEnvironment);
+    }
+
+    [Fact]
+    public void ForEnvironment_Default_ReturnsSameRegistration()
+    {
+        // Arrange
+        var api = CreateApi();
+
+        // Act
+        var view = api.ForEnvironment();
+
+        // Assert
+        Assert.Same(api, view);
+    }
+
+    [Fact]
+    public void ForEnvironment_Preferred_ReturnsCopyWithEnvironmentSettings()
+    {
+        // Arrange
+        var api = CreateApi();
+        api.SetEnvironment("sandbox", "https://sandbox.example.com");
+
+        // Act
+        var view = api.ForEnvironment("sandbox");
+
+        // Assert
+        Assert.Equal("https://sandbox.example.com", view.BaseUrl);
+        Assert.Equal("sandbox", view.ActiveEnvironment);
+        Assert.Equal("https://api.example.com", api.BaseUrl);
+        Assert.Null(api.ActiveEnvironment);
+    }
+
+    [Fact]
+    public void ForEnvironment_RemovedActiveEnvironment_UsesDefault()
+    {
+        // Arrange
+        var api = CreateApi();
+        api.ActiveEnvironment = "sandbox";
+
+        // Act
+        var view = api.ForEnvironment();
+
+        // Assert
+        Assert.Equal("https://api.example.com", view.BaseUrl);
+        Assert.Null(view.ActiveEnvironment);
+    }
+
+    [Fact]
+    public void PreserveSettingsFrom_KeepsEnvironments()
+    {
+        // Arrange
+        var existing = CreateApi();
+        existing.SetEnvironment("sandbox", "https://sandbox.example.com");
+        existing.SelectEnvironment("sandbox");
+        var refreshed = CreateApi();
+
+        // Act
+        refreshed.PreserveSettingsFrom(existing);
+
+        // Assert
+        Assert.Equal("sandbox", Assert.Single(refreshed.Environments).Name);
+        Assert.Equal("sandbox", refreshed.ActiveEnvironment);
+    }
+
+    #endregion
+
+    #region Helper Methods
+
+    private static ApiRegistration CreateApi()
+    {
+        return new ApiRegistration
+        {
+            Id = "example",
+            DisplayName = "Example",
+            BaseUrl = "https://api.example.com",
+            OpenApiVersion = "3.0.0",
+            Auth = new NoAuthConfig()
+        };
+    }
+
+    #endregion
+}
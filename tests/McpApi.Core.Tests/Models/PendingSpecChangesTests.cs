@@ -0,0 +1,81 @@
+namespace McpApi.Core.Tests.Models;
+
+using McpApi.Core.Models;
+using McpApi.Core.Utilities;
+using Xunit;
+
+public class PendingSpecChangesTests
+{
+    #region From Tests
+
+    [Fact]
+    public void From_CountsChangesAndBreaking()
+    {
+        // Arrange
+        var existing = new[] { CreateEndpoint("users-list", "/users"), CreateEndpoint("users-delete", "/users/{id}") };
+        var refreshed = new[] { CreateEndpoint("users-list", "/users"), CreateEndpoint("users-create", "/users/new") };
+        var now = DateTime.UtcNow;
+
+        // Act
+        var pending = PendingSpecChanges.From(EndpointDiff.Compare(existing, refreshed), "2.0", now);
+
+        // Assert
+        Assert.Equal(1, pending.AddedCount);
+        Assert.Equal(1, pending.RemovedCount);
+        Assert.Equal(0, pending.ChangedCount);
+        Assert.True(pending.HasBreakingChanges);
+        Assert.Equal("2.0", pending.ApiVersion);
+        Assert.Equal(now, pending.DetectedAt);
+        Assert.Equal(now, pending.CheckedAt);
+    }
+
+    [Fact]
+    public void From_SameChangesInAnotherOrder_HasSameSignature()
+    {
+        // Arrange
+        var existing = new[] { CreateEndpoint("users-list", "/users") };
+        var first = new[] { CreateEndpoint("users-list", "/users"), CreateEndpoint("a", "/a"), CreateEndpoint("b", "/b") };
+        var second = new[] { CreateEndpoint("b", "/b"), CreateEndpoint("users-list", "/users"), CreateEndpoint("a", "/a") };
+
+        // Act
+        var firstPending = PendingSpecChanges.From(EndpointDiff.Compare(existing, first), null, DateTime.UtcNow);
+        var secondPending = PendingSpecChanges.From(EndpointDiff.Compare(existing, second), null, DateTime.UtcNow);
+
+        // Assert
+        Assert.Equal(firstPending.Signature, secondPending.Signature);
+    }
+
+    [Fact]
+    public void From_DifferentChanges_HasDifferentSignature()
+    {
+        // Arrange
+        var existing = new[] { CreateEndpoint("users-list", "/users") };
+        var first = new[] { CreateEndpoint("users-list", "/users"), CreateEndpoint("a", "/a") };
+        var second = new[] { CreateEndpoint("users-list", "/users"), CreateEndpoint("b", "/b") };
+
+        // Act
+        var firstPending = PendingSpecChanges.From(EndpointDiff.Compare(existing, first), null, DateTime.UtcNow);
+        var secondPending = PendingSpecChanges.From(EndpointDiff.Compare(existing, second), null, DateTime.UtcNow);
+
+        // Assert
+        Assert.NotEqual(firstPending.Signature, secondPending.Signature);
+        Assert.False(firstPending.HasBreakingChanges);
+    }
+
+    #endregion
+
+    #region Helper Methods
+
+    private static ApiEndpoint CreateEndpoint(string id, string path)
+    {
+        return new ApiEndpoint
+        {
+            Id = id,
+            OperationId = id,
+            Method = "GET",
+            Path = path
+        };
+    }
+
+    #endregion
+}
@@ -0,0 +1,361 @@
+namespace McpApi.Core.Tests.OpenApi;
+
+using System.Text;
+using McpApi.Core.Models;
+using McpApi.Core.OpenApi;
+
+public class OpenApiParserTests
+{
+    private const string BaseUrl = "https://api.example.com";
+
+    private const string OpenApi31Spec = """
+        openapi: 3.1.0
+        info:
+          title: Pet Store
+          version: 1.0.0
+        servers:
+          - url: https://api.example.com
+        paths:
+          /pets:
+            post:
+              operationId: createPet
+              requestBody:
+                content:
+                  application/json:
+                    schema:
+                      $ref: '#/components/schemas/Pet'
+              responses:
+                '201':
+                  description: Created
+        webhooks:
+          newPet:
+            post:
+              operationId: newPetWebhook
+              summary: A pet was added
+              requestBody:
+                content:
+                  application/json:
+                    schema:
+                      $ref: '#/components/schemas/Pet'
+              responses:
+                '200':
+                  description: Received
+        components:
+          schemas:
+            Pet:
+              type: object
+              properties:
+                name:
+                  type: [string, 'null']
+                kind:
+                  const: pet
+                id:
+                  type: [integer, string]
+                age:
+                  type: integer
+                  exclusiveMinimum: 0
+                  examples: [3]
+                owner:
+                  anyOf:
+                    - $ref: '#/components/schemas/Owner'
+                    - type: 'null'
+            Owner:
+              type: object
+              properties:
+                email:
+                  type: string
+        """;
+
+    #region OpenAPI 3.1 Tests
+
+    [Fact]
+    public async Task Parse31_RecordsVersion()
+    {
+        // Act
+        var registration = await ParseAsync(OpenApi31Spec);
+
+        // Assert
+        Assert.Equal("3.1", registration.OpenApiVersion);
+        Assert.Single(registration.Endpoints);
+    }
+
+    [Fact]
+    public async Task Parse31_ConvertsTypeArraysToNullableAndUnions()
+    {
+        // Act
+        var pet = GetBodySchema(await ParseAsync(OpenApi31Spec));
+
+        // Assert
+        var name = pet.Properties!["name"];
+        Assert.Equal("string", name.Type);
+        Assert.True(name.Nullable);
+
+        var id = pet.Properties["id"];
+        Assert.Null(id.Type);
+        Assert.Equal(new[] { "integer", "string" }, id.AnyOf!.Select(b => b.Type));
+    }
+
+    [Fact]
+    public async Task Parse31_ConvertsConstExamplesAndExclusiveBounds()
+    {
+        // Act
+        var pet = GetBodySchema(await ParseAsync(OpenApi31Spec));
+
+        // Assert
+        Assert.Single(pet.Properties!["kind"].Enum!);
+        Assert.NotNull(pet.Properties["age"].Example);
+        Assert.Equal(0d, pet.Properties["age"].Minimum);
+    }
+
+    [Fact]
+    public async Task Parse31_NullBranchMakesUnionNullable()
+    {
+        // Act
+        var owner = GetBodySchema(await ParseAsync(OpenApi31Spec)).Properties!["owner"];
+
+        // Assert
+        Assert.True(owner.Nullable);
+        var branch = Assert.Single(owner.AnyOf!);
+        Assert.Equal("Owner", branch.Title);
+    }
+
+    [Fact]
+    public async Task Parse31_ReadsWebhooks()
+    {
+        // Act
+        var registration = await ParseAsync(OpenApi31Spec);
+
+        // Assert
+        var webhook = Assert.Single(registration.Webhooks);
+        Assert.Equal(Constants.WebhookKinds.Webhook, webhook.Kind);
+        Assert.Equal("newPet", webhook.Name);
+        Assert.Equal("POST", webhook.Method);
+        Assert.Equal("newPetWebhook", webhook.OperationId);
+        Assert.Equal("A pet was added", webhook.Summary);
+    }
+
+    [Fact]
+    public async Task Parse31_WithoutPaths_ParsesWebhooksOnly()
+    {
+        // Arrange
+        const string spec = """
+            {
+              "openapi": "3.1.0",
+              "info": { "title": "Events", "version": "1.0.0" },
+              "servers": [{ "url": "https://api.example.com" }],
+              "webhooks": {
+                "orderShipped": { "post": { "responses": { "200": { "description": "Received" } } } }
+              }
+            }
+            """;
+
+        // Act
+        var registration = await ParseAsync(spec);
+
+        // Assert
+        Assert.Equal("3.1", registration.OpenApiVersion);
+        Assert.Empty(registration.Endpoints);
+        Assert.Equal("orderShipped", Assert.Single(registration.Webhooks).Name);
+    }
+
+    [Fact]
+    public async Task Parse31_ResolvesYamlAliasesAndMergeKeys()
+    {
+        // Arrange
+        const string spec = """
+            openapi: 3.1.0
+            info:
+              title: Pet Store
+              version: 1.0.0
+            servers:
+              - url: https://api.example.com
+            paths:
+              /pets:
+                get:
+                  operationId: listPets
+                  parameters:
+                    - &pageParam
+                      name: page
+                      in: query
+                      schema:
+                        type: integer
+                  responses:
+                    '200':
+                      description: OK
+              /owners:
+                get:
+                  operationId: listOwners
+                  parameters:
+                    - *pageParam
+                    - <<: *pageParam
+                      name: size
+                  responses:
+                    '200':
+                      description: OK
+            """;
+
+        // Act
+        var registration = await ParseAsync(spec);
+
+        // Assert
+        var owners = registration.Endpoints.Single(e => e.OperationId == "listOwners");
+        Assert.Equal(new[] { "page", "size" }, owners.Parameters.Select(p => p.Name));
+        Assert.All(owners.Parameters, p => Assert.Equal("integer", p.Schema.Type));
+    }
+
+    #endregion
+
+    #region Server Tests
+
+    private const string MultiServerSpec = """
+        openapi: 3.0.3
+        info:
+          title: Payments
+          version: 1.0.0
+        servers:
+          - url: https://{region}.api.example.com/{version}
+            description: Production server
+            variables:
+              region:
+                default: us
+                enum: [us, eu]
+              version:
+                default: v1
+          - url: https://sandbox.example.com/v1
+            description: Sandbox server (uses test data)
+        paths: {}
+        """;
+
+    [Fact]
+    public async Task Parse_KeepsAllServersWithVariables()
+    {
+        // Act
+        var registration = await ParseAsync(MultiServerSpec, baseUrl: "");
+
+        // Assert
+        Assert.Equal(new[] { "production", "sandbox" }, registration.Servers.Select(s => s.Name));
+        Assert.Equal("production", registration.SelectedServer);
+        Assert.Equal("https://us.api.example.com/v1", registration.BaseUrl);
+        Assert.Equal(new[] { "us", "eu" }, registration.Servers[0].Variables["region"].Enum);
+    }
+
+    [Fact]
+    public async Task Parse_WithOtherBaseUrl_SelectsNoServer()
+    {
+        // Act
+        var registration = await ParseAsync(MultiServerSpec, baseUrl: "https://proxy.example.com");
+
+        // Assert
+        Assert.Null(registration.SelectedServer);
+        Assert.Equal("https://proxy.example.com", registration.BaseUrl);
+        Assert.Equal(2, registration.Servers.Count);
+    }
+
+    [Fact]
+    public async Task SelectServer_FillsVariables()
+    {
+        // Arrange
+        var registration = await ParseAsync(MultiServerSpec, baseUrl: "");
+
+        // Act
+        registration.SelectServer("Production", new Dictionary<string, string> { ["region"] = "eu" });
+
+        // Assert
+        Assert.Equal("https://eu.api.example.com/v1", registration.BaseUrl);
+        Assert.Equal("https://sandbox.example.com/v1", registration.GetBaseUrl("sandbox"));
+    }
+
+    [Fact]
+    public async Task SelectServer_WithValueOutsideEnum_Throws()
+    {
+        // Arrange
+        var registration = await ParseAsync(MultiServerSpec, baseUrl: "");
+
+        // Act & Assert
+        Assert.Throws<ArgumentException>(
+            () => registration.SelectServer("production", new Dictionary<string, string> { ["region"] = "ap" }));
+        Assert.Throws<ArgumentException>(() => registration.GetBaseUrl("staging"));
+    }
+
+    [Fact]
+    public async Task PreserveSettingsFrom_KeepsSelectedServer()
+    {
+        // Arrange
+        var existing = await ParseAsync(MultiServerSpec, baseUrl: "");
+        existing.SelectServer("sandbox", new Dictionary<string, string>());
+        var refreshed = await ParseAsync(MultiServerSpec, baseUrl: "");
+
+        // Act
+        refreshed.PreserveSettingsFrom(existing);
+
+        // Assert
+        Assert.Equal("sandbox", refreshed.SelectedServer);
+        Assert.Equal("https://sandbox.example.com/v1", refreshed.BaseUrl);
+    }
+
+    #endregion
+
+    #region Callback Tests
+
+    [Fact]
+    public async Task Parse30_ReadsCallbacks()
+    {
+        // Arrange
+        const string spec = """
+            openapi: 3.0.3
+            info:
+              title: Subscriptions
+              version: 1.0.0
+            servers:
+              - url: https://api.example.com
+            paths:
+              /subscriptions:
+                post:
+                  operationId: subscribe
+                  responses:
+                    '201':
+                      description: Subscribed
+                  callbacks:
+                    onEvent:
+                      '{$request.body#/callbackUrl}':
+                        post:
+                          summary: Event notification
+                          responses:
+                            '200':
+                              description: Received
+            """;
+
+        // Act
+        var registration = await ParseAsync(spec);
+
+        // Assert
+        Assert.Equal("3.0", registration.OpenApiVersion);
+        var callback = Assert.Single(registration.Webhooks);
+        Assert.Equal(Constants.WebhookKinds.Callback, callback.Kind);
+        Assert.Equal("onEvent", callback.Name);
+        Assert.Equal("POST", callback.Method);
+        Assert.Equal("{$request.body#/callbackUrl}", callback.Url);
+        Assert.Equal("subscribe", callback.SourceOperationId);
+        Assert.Equal("Event notification", callback.Summary);
+    }
+
+    #endregion
+
+    #region Helper Methods
+
+    private static async Task<ApiRegistration> ParseAsync(string spec, string baseUrl = BaseUrl)
+    {
+        using var httpClient = new HttpClient();
+        var parser = new OpenApiParser(httpClient);
+        using var stream = new MemoryStream(Encoding.UTF8.GetBytes(spec));
+
+        return await parser.ParseAsync(stream, baseUrl);
+    }
+
+    private static JsonSchema GetBodySchema(ApiRegistration registration)
+    {
+        return registration.Endpoints.Single().RequestBody!.Content["application/json"];
+    }
+
+    #endregion
+}
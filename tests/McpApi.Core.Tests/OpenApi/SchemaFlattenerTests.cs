@@ -0,0 +1,268 @@
+namespace McpApi.Core.Tests.OpenApi;
+
+using System.Text.Json;
+using McpApi.Core.Models;
+using McpApi.Core.OpenApi;
+using Microsoft.OpenApi.Models;
+
+public class SchemaFlattenerTests
+{
+    private readonly SchemaFlattener _flattener = new();
+
+    #region AllOf Tests
+
+    [Fact]
+    public void Flatten_AllOf_MergesPropertiesAndRequired()
+    {
+        // Arrange
+        var schema = new OpenApiSchema
+        {
+            AllOf =
+            [
+                Component("Pet", Properties(("name", "string")), required: ["name"]),
+                new OpenApiSchema
+                {
+                    Type = "object",
+                    Properties = Properties(("huntingSkill", "string")),
+                    Required = new HashSet<string> { "huntingSkill" }
+                }
+            ]
+        };
+
+        // Act
+        var result = _flattener.Flatten(schema);
+
+        // Assert
+        Assert.Equal("object", result.Type);
+        Assert.Equal(new[] { "name", "huntingSkill" }, result.Properties!.Keys);
+        Assert.Equal(new[] { "name", "huntingSkill" }, result.Required);
+    }
+
+    [Fact]
+    public void Flatten_AllOf_KeepsOwnPropertiesOverMembers()
+    {
+        // Arrange
+        var schema = new OpenApiSchema
+        {
+            Properties = Properties(("id", "integer")),
+            AllOf = [new OpenApiSchema { Type = "object", Properties = Properties(("id", "string")) }]
+        };
+
+        // Act
+        var result = _flattener.Flatten(schema);
+
+        // Assert
+        Assert.Equal("integer", result.Properties!["id"].Type);
+    }
+
+    #endregion
+
+    #region Union Tests
+
+    [Fact]
+    public void Flatten_OneOf_KeepsBranchesTitledByComponent()
+    {
+        // Arrange
+        var schema = new OpenApiSchema
+        {
+            OneOf =
+            [
+                Component("Cat", Properties(("meows", "boolean"))),
+                Component("Dog", Properties(("barks", "boolean")))
+            ]
+        };
+
+        // Act
+        var result = _flattener.Flatten(schema);
+
+        // Assert
+        Assert.Equal("object", result.Type);
+        Assert.Equal(new[] { "Cat", "Dog" }, result.OneOf!.Select(b => b.Title));
+        Assert.True(result.OneOf![0].Properties!.ContainsKey("meows"));
+    }
+
+    [Fact]
+    public void Flatten_AnyOfWithDifferentTypes_LeavesTypeOpen()
+    {
+        // Arrange
+        var schema = new OpenApiSchema
+        {
+            AnyOf = [new OpenApiSchema { Type = "string" }, new OpenApiSchema { Type = "integer" }]
+        };
+
+        // Act
+        var result = _flattener.Flatten(schema);
+
+        // Assert
+        Assert.Null(result.Type);
+        Assert.Equal(new[] { "string", "integer" }, result.AnyOf!.Select(b => b.Type));
+    }
+
+    [Fact]
+    public void Flatten_DiscriminatorWithMapping_PinsValueOnEachBranch()
+    {
+        // Arrange
+        var schema = new OpenApiSchema
+        {
+            OneOf =
+            [
+                Component("Cat", Properties(("petType", "string"))),
+                Component("Dog", Properties(("petType", "string")))
+            ],
+            Discriminator = new OpenApiDiscriminator
+            {
+                PropertyName = "petType",
+                Mapping = new Dictionary<string, string>
+                {
+                    ["cat"] = "#/components/schemas/Cat",
+                    ["dog"] = "#/components/schemas/Dog"
+                }
+            }
+        };
+
+        // Act
+        var result = _flattener.Flatten(schema);
+
+        // Assert
+        Assert.Equal("petType", result.Discriminator!.PropertyName);
+        Assert.Equal("Cat", result.Discriminator.Mapping!["cat"]);
+        Assert.Equal(new[] { "cat" }, result.OneOf![0].Properties!["petType"].Enum);
+        Assert.Equal(new[] { "dog" }, result.OneOf![1].Properties!["petType"].Enum);
+    }
+
+    [Fact]
+    public void Flatten_DiscriminatorWithoutMapping_UsesComponentNames()
+    {
+        // Arrange
+        var schema = new OpenApiSchema
+        {
+            OneOf =
+            [
+                Component("Cat", Properties(("petType", "string"))),
+                Component("Dog", Properties(("petType", "string")))
+            ],
+            Discriminator = new OpenApiDiscriminator { PropertyName = "petType" }
+        };
+
+        // Act
+        var result = _flattener.Flatten(schema);
+
+        // Assert
+        Assert.Equal(new[] { "Cat", "Dog" }, result.Discriminator!.Mapping!.Keys);
+        Assert.Equal(new[] { "Dog" }, result.OneOf![1].Properties!["petType"].Enum);
+    }
+
+    [Fact]
+    public void Flatten_AllOfWithBaseDiscriminator_DropsDiscriminator()
+    {
+        // Arrange
+        var pet = Component("Pet", Properties(("petType", "string")));
+        pet.Discriminator = new OpenApiDiscriminator { PropertyName = "petType" };
+        var schema = new OpenApiSchema { AllOf = [pet, new OpenApiSchema { Properties = Properties(("meows", "boolean")) }] };
+
+        // Act
+        var result = _flattener.Flatten(schema);
+
+        // Assert
+        Assert.Null(result.Discriminator);
+        Assert.Equal(new[] { "petType", "meows" }, result.Properties!.Keys);
+    }
+
+    #endregion
+
+    #region Keyword Tests
+
+    [Fact]
+    public void Flatten_AdditionalPropertiesFalse_SerializesAsFalse()
+    {
+        // Arrange
+        var schema = new OpenApiSchema
+        {
+            Type = "object",
+            Properties = Properties(("name", "string")),
+            AdditionalPropertiesAllowed = false
+        };
+
+        // Act
+        var result = _flattener.Flatten(schema);
+        var json = JsonSerializer.Serialize(result);
+
+        // Assert
+        Assert.True(result.AdditionalProperties!.IsFalse);
+        Assert.Contains("\"additionalProperties\":false", json);
+    }
+
+    [Fact]
+    public void Flatten_AdditionalPropertiesSchema_IsAMap()
+    {
+        // Arrange
+        var schema = new OpenApiSchema { AdditionalProperties = new OpenApiSchema { Type = "integer" } };
+
+        // Act
+        var result = _flattener.Flatten(schema);
+
+        // Assert
+        Assert.Equal("object", result.Type);
+        Assert.Equal("integer", result.AdditionalProperties!.Type);
+    }
+
+    [Fact]
+    public void Flatten_NullableAndNot_AreKept()
+    {
+        // Arrange
+        var schema = new OpenApiSchema
+        {
+            Type = "string",
+            Nullable = true,
+            Not = new OpenApiSchema { Type = "integer" }
+        };
+
+        // Act
+        var result = _flattener.Flatten(schema);
+
+        // Assert
+        Assert.True(result.Nullable);
+        Assert.Equal("integer", result.Not!.Type);
+    }
+
+    [Fact]
+    public void Serialize_RoundTripsUnionAndAdditionalProperties()
+    {
+        // Arrange
+        var schema = new JsonSchema
+        {
+            OneOf = [new JsonSchema { Type = "string" }, new JsonSchema { Type = "integer" }],
+            AdditionalProperties = JsonSchema.False
+        };
+
+        // Act
+        var result = JsonSerializer.Deserialize<JsonSchema>(JsonSerializer.Serialize(schema))!;
+
+        // Assert
+        Assert.Null(result.Type);
+        Assert.Equal(2, result.OneOf!.Count);
+        Assert.True(result.AdditionalProperties!.IsFalse);
+    }
+
+    #endregion
+
+    #region Helper Methods
+
+    private static OpenApiSchema Component(string id, Dictionary<string, OpenApiSchema> properties, string[]? required = null)
+    {
+        return new OpenApiSchema
+        {
+            Type = "object",
+            Properties = properties,
+            Required = new HashSet<string>(required ?? []),
+            Reference = new OpenApiReference { Id = id, Type = ReferenceType.Schema }
+        };
+    }
+
+    private static Dictionary<string, OpenApiSchema> Properties(params (string Name, string Type)[] properties)
+    {
+        return properties.ToDictionary(p => p.Name, p => new OpenApiSchema { Type = p.Type });
+    }
+
+    #endregion
+}
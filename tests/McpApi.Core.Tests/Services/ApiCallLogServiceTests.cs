@@ -0,0 +1,454 @@
+namespace McpApi.Core.Tests.Services;
+
+using McpApi.Core.Http;
+using McpApi.Core.Models;
+using McpApi.Core.Secrets;
+using McpApi.Core.Services;
+using McpApi.Core.Storage;
+using Microsoft.Extensions.Logging.Abstractions;
+using Xunit;
+
+public class ApiCallLogServiceTests
+{
+    #region Logging Tests
+
+    [Fact]
+    public async Task ExecuteAndLogAsync_SuccessfulCall_RecordsLogEntry()
+    {
+        // Arrange
+        var store = new MockApiCallLogStore();
+        var service = CreateService(new MockApiClient(CreateResponse(200, """{"id":1}""")), store);
+        var context = new ApiCallContext("user-1", Constants.CallLog.SourceMcp, "token-1");
+
+        // Act
+        var response = await service.ExecuteAndLogAsync(context, CreateApi(new NoAuthConfig()), CreateEndpoint(), CreateParameters());
+
+        // Assert
+        Assert.Equal(200, response.StatusCode);
+        var log = Assert.Single(store.Logs);
+        Assert.Equal("user-1", log.UserId);
+        Assert.Equal(Constants.CallLog.SourceMcp, log.Source);
+        Assert.Equal("token-1", log.TokenId);
+        Assert.Equal("petstore", log.ApiId);
+        Assert.Equal("get-pet", log.OperationId);
+        Assert.Equal("GET", log.Method);
+        Assert.Equal(200, log.StatusCode);
+        Assert.True(log.IsSuccess);
+        Assert.Equal("""{"id":1}""", log.ResponseBody);
+        Assert.Null(log.Error);
+    }
+
+    [Fact]
+    public async Task ExecuteAndLogAsync_RecordsUsageBreakdown()
+    {
+        // Arrange
+        var usageTracking = new MockUsageTrackingService();
+        var service = CreateService(new MockApiClient(CreateResponse(500, "error")), new MockApiCallLogStore(), usageTracking);
+        var context = new ApiCallContext("user-1", Constants.CallLog.SourceMcp, "token-1");
+
+        // Act
+        await service.ExecuteAndLogAsync(context, CreateApi(new NoAuthConfig()), CreateEndpoint(), CreateParameters());
+
+        // Assert
+        var call = Assert.Single(usageTracking.Calls);
+        Assert.Equal("get-pet", call.EndpointId);
+        Assert.Equal("token-1", call.TokenId);
+        Assert.False(call.IsSuccess);
+    }
+
+    [Fact]
+    public async Task ExecuteAndLogAsync_ClientThrows_RecordsErrorAndRethrows()
+    {
+        // Arrange
+        var store = new MockApiCallLogStore();
+        var service = CreateService(new MockApiClient(new HttpRequestException("Connection refused")), store);
+        var context = new ApiCallContext("user-1", Constants.CallLog.SourceTryIt);
+
+        // Act & Assert
+        await Assert.ThrowsAsync<HttpRequestException>(() =>
+            service.ExecuteAndLogAsync(context, CreateApi(new NoAuthConfig()), CreateEndpoint(), CreateParameters()));
+
+        var log = Assert.Single(store.Logs);
+        Assert.False(log.IsSuccess);
+        Assert.Null(log.StatusCode);
+        Assert.Equal("Connection refused", log.Error);
+    }
+
+    [Fact]
+    public async Task ExecuteAndLogAsync_StoreFails_StillReturnsResponse()
+    {
+        // Arrange
+        var store = new MockApiCallLogStore { Fail = true };
+        var usageTracking = new MockUsageTrackingService { Fail = true };
+        var service = CreateService(new MockApiClient(CreateResponse(200, "ok")), store, usageTracking);
+        var context = new ApiCallContext("user-1", Constants.CallLog.SourcePlayground);
+
+        // Act
+        var response = await service.ExecuteAndLogAsync(context, CreateApi(new NoAuthConfig()), CreateEndpoint(), CreateParameters());
+
+        // Assert
+        Assert.Equal("ok", response.Body);
+    }
+
+    #endregion
+
+    #region Environment Tests
+
+    [Fact]
+    public async Task ExecuteAndLogAsync_ActiveEnvironment_CallsEnvironmentBaseUrlAndAuth()
+    {
+        // Arrange
+        var client = new MockApiClient(CreateResponse(200, "ok"));
+        var store = new MockApiCallLogStore();
+        var service = CreateService(client, store);
+        var api = CreateApiWithSandbox();
+        api.ActiveEnvironment = "sandbox";
+        var context = new ApiCallContext("user-1", Constants.CallLog.SourceTryIt);
+
+        // Act
+        await service.ExecuteAndLogAsync(context, api, CreateEndpoint(), CreateParameters());
+
+        // Assert
+        Assert.Equal("https://sandbox.petstore.example.com", client.LastApi!.BaseUrl);
+        Assert.IsType<BearerTokenAuthConfig>(client.LastApi.Auth);
+        Assert.Equal("sandbox", Assert.Single(store.Logs).Environment);
+        Assert.Equal("https://petstore.example.com", api.BaseUrl);
+    }
+
+    [Fact]
+    public async Task ExecuteAndLogAsync_TokenSelectsDefault_OverridesActiveEnvironment()
+    {
+        // Arrange
+        var client = new MockApiClient(CreateResponse(200, "ok"));
+        var store = new MockApiCallLogStore();
+        var service = CreateService(client, store);
+        var api = CreateApiWithSandbox();
+        api.ActiveEnvironment = "sandbox";
+        var context = new ApiCallContext("user-1", Constants.CallLog.SourceMcp, "token-1", Constants.Environments.Default);
+
+        // Act
+        await service.ExecuteAndLogAsync(context, api, CreateEndpoint(), CreateParameters());
+
+        // Assert
+        Assert.Equal("https://petstore.example.com", client.LastApi!.BaseUrl);
+        Assert.IsType<NoAuthConfig>(client.LastApi.Auth);
+        Assert.Null(Assert.Single(store.Logs).Environment);
+    }
+
+    [Fact]
+    public async Task ExecuteAndLogAsync_TokenEnvironmentNotDefined_UsesActiveEnvironment()
+    {
+        // Arrange
+        var client = new MockApiClient(CreateResponse(200, "ok"));
+        var service = CreateService(client, new MockApiCallLogStore());
+        var api = CreateApiWithSandbox();
+        api.ActiveEnvironment = "sandbox";
+        var context = new ApiCallContext("user-1", Constants.CallLog.SourceMcp, "token-1", "staging");
+
+        // Act
+        await service.ExecuteAndLogAsync(context, api, CreateEndpoint(), CreateParameters());
+
+        // Assert
+        Assert.Equal("https://sandbox.petstore.example.com", client.LastApi!.BaseUrl);
+    }
+
+    #endregion
+
+    #region Redaction Tests
+
+    [Fact]
+    public void CreateLog_RedactsSecretHeaders()
+    {
+        // Arrange
+        var response = CreateResponse(200, "{}", new ApiRequestInfo
+        {
+            Method = "GET",
+            Url = "https://petstore.example.com/pets/1",
+            Headers = new Dictionary<string, string[]>
+            {
+                ["Authorization"] = ["Bearer secret-token"],
+                ["Accept"] = ["application/json"]
+            }
+        });
+
+        // Act
+        var log = CreateLog(CreateApi(new NoAuthConfig()), response);
+
+        // Assert
+        Assert.Equal(new[] { Constants.CallLog.RedactedValue }, log.RequestHeaders!["Authorization"]);
+        Assert.Equal(new[] { "application/json" }, log.RequestHeaders["Accept"]);
+    }
+
+    [Fact]
+    public void CreateLog_RedactsApiKeyQueryParameter()
+    {
+        // Arrange
+        var api = CreateApi(new ApiKeyAuthConfig
+        {
+            In = "query",
+            ParameterName = "key",
+            Secret = SecretReference.FromKeyVault("api-key-secret")
+        });
+        var response = CreateResponse(200, "{}", new ApiRequestInfo
+        {
+            Method = "GET",
+            Url = "https://petstore.example.com/pets/1?key=secret-value&limit=10",
+            Headers = new Dictionary<string, string[]>()
+        });
+
+        // Act
+        var log = CreateLog(api, response);
+
+        // Assert
+        Assert.DoesNotContain("secret-value", log.RequestUrl);
+        Assert.Contains($"key={Constants.CallLog.RedactedValue}", log.RequestUrl);
+        Assert.Contains("limit=10", log.RequestUrl);
+    }
+
+    [Fact]
+    public void CreateLog_RedactsApiKeyHeader()
+    {
+        // Arrange
+        var api = CreateApi(new ApiKeyAuthConfig
+        {
+            In = "header",
+            ParameterName = "X-Custom-Key",
+            Secret = SecretReference.FromKeyVault("api-key-secret")
+        });
+        var response = CreateResponse(200, "{}", new ApiRequestInfo
+        {
+            Method = "GET",
+            Url = "https://petstore.example.com/pets/1",
+            Headers = new Dictionary<string, string[]> { ["X-Custom-Key"] = ["secret-value"] }
+        });
+
+        // Act
+        var log = CreateLog(api, response);
+
+        // Assert
+        Assert.Equal(new[] { Constants.CallLog.RedactedValue }, log.RequestHeaders!["X-Custom-Key"]);
+    }
+
+    [Fact]
+    public void CreateLog_TruncatesLargeBodies()
+    {
+        // Arrange
+        var body = new string('x', Constants.CallLog.MaxBodyLength + 500);
+        var response = CreateResponse(200, body);
+
+        // Act
+        var log = CreateLog(CreateApi(new NoAuthConfig()), response);
+
+        // Assert
+        Assert.StartsWith(new string('x', Constants.CallLog.MaxBodyLength), log.ResponseBody);
+        Assert.EndsWith("[truncated 500 characters]", log.ResponseBody);
+    }
+
+    [Fact]
+    public void CreateLog_BinaryBody_RecordsTypeAndSize()
+    {
+        // Arrange
+        var response = new ApiResponse
+        {
+            StatusCode = 200,
+            ReasonPhrase = "OK",
+            Headers = new Dictionary<string, string[]> { ["Content-Type"] = ["application/pdf"] },
+            Body = null,
+            BinaryBody = [0x25, 0x50, 0x44, 0x46],
+            BinarySize = 4
+        };
+
+        // Act
+        var log = CreateLog(CreateApi(new NoAuthConfig()), response);
+
+        // Assert
+        Assert.Equal("[application/pdf body, 4 bytes]", log.ResponseBody);
+    }
+
+    #endregion
+
+    #region Helper Methods
+
+    private static ApiCallLogService CreateService(
+        IApiClient apiClient,
+        IApiCallLogStore store,
+        IUsageTrackingService? usageTracking = null)
+    {
+        return new ApiCallLogService(
+            apiClient,
+            store,
+            usageTracking ?? new MockUsageTrackingService(),
+            NullLogger<ApiCallLogService>.Instance);
+    }
+
+    private static ApiCallLog CreateLog(ApiRegistration api, ApiResponse response)
+    {
+        var context = new ApiCallContext("user-1", Constants.CallLog.SourceMcp);
+        return ApiCallLogService.CreateLog(context, api, CreateEndpoint(), CreateParameters(), response, null, 12);
+    }
+
+    private static ApiRegistration CreateApi(AuthConfiguration auth)
+    {
+        return new ApiRegistration
+        {
+            Id = "petstore",
+            DisplayName = "Petstore",
+            BaseUrl = "https://petstore.example.com",
+            OpenApiVersion = "3.0.0",
+            Auth = auth
+        };
+    }
+
+    private static ApiRegistration CreateApiWithSandbox()
+    {
+        var api = CreateApi(new NoAuthConfig());
+        api.Environments.Add(new ApiEnvironment
+        {
+            Name = "sandbox",
+            BaseUrl = "https://sandbox.petstore.example.com",
+            Auth = new BearerTokenAuthConfig { Secret = SecretReference.FromKeyVault("sandbox-token") }
+        });
+        return api;
+    }
+
+    private static ApiEndpoint CreateEndpoint()
+    {
+        return new ApiEndpoint
+        {
+            Id = "get-pet",
+            OperationId = "get-pet",
+            Method = "get",
+            Path = "/pets/{petId}"
+        };
+    }
+
+    private static Dictionary<string, object?> CreateParameters()
+    {
+        return new Dictionary<string, object?> { ["petId"] = "1" };
+    }
+
+    private static ApiResponse CreateResponse(int statusCode, string body, ApiRequestInfo? request = null)
+    {
+        return new ApiResponse
+        {
+            StatusCode = statusCode,
+            ReasonPhrase = "OK",
+            Headers = new Dictionary<string, string[]>(),
+            Body = body,
+            Request = request
+        };
+    }
+
+    #endregion
+
+    #region Mock Implementations
+
+    private class MockApiClient : IApiClient
+    {
+        private readonly ApiResponse? _response;
+        private readonly Exception? _exception;
+
+        public MockApiClient(ApiResponse response) => _response = response;
+
+        public MockApiClient(Exception exception) => _exception = exception;
+
+        public ApiRegistration? LastApi { get; private set; }
+
+        public Task<ApiResponse> ExecuteAsync(
+            ApiRegistration api,
+            ApiEndpoint endpoint,
+            Dictionary<string, object?> parameters,
+            UserSecretContext? userContext = null,
+            CancellationToken ct = default)
+        {
+            LastApi = api;
+
+            if (_exception != null)
+                throw _exception;
+
+            return Task.FromResult(_response!);
+        }
+    }
+
+    private class MockApiCallLogStore : IApiCallLogStore
+    {
+        public bool Fail { get; init; }
+
+        public List<ApiCallLog> Logs { get; } = [];
+
+        public Task AddAsync(ApiCallLog log, CancellationToken ct = default)
+        {
+            if (Fail)
+                throw new InvalidOperationException("Store unavailable");
+
+            Logs.Add(log);
+            return Task.CompletedTask;
+        }
+
+        public Task<ApiCallLog?> GetAsync(string userId, string id, CancellationToken ct = default)
+        {
+            return Task.FromResult(Logs.FirstOrDefault(l => l.UserId == userId && l.Id == id));
+        }
+
+        public Task<ApiCallLogPage> QueryAsync(string userId, ApiCallLogQuery query, CancellationToken ct = default)
+        {
+            return Task.FromResult(new ApiCallLogPage(Logs.Where(l => l.UserId == userId).ToList(), null));
+        }
+
+        public Task DeleteAllForUserAsync(string userId, CancellationToken ct = default)
+        {
+            Logs.RemoveAll(l => l.UserId == userId);
+            return Task.CompletedTask;
+        }
+    }
+
+    private class MockUsageTrackingService : IUsageTrackingService
+    {
+        public bool Fail { get; init; }
+
+        public List<ApiCallLog> Calls { get; } = [];
+
+        public Task RecordEndpointCallAsync(ApiCallLog call, CancellationToken ct = default)
+        {
+            if (Fail)
+                throw new InvalidOperationException("Store unavailable");
+
+            Calls.Add(call);
+            return Task.CompletedTask;
+        }
+
+        public Task<bool> CanMakeApiCallAsync(string userId, string userTier, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<UsageRecord> RecordApiCallAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<UsageRecord> CheckAndRecordApiCallAsync(string userId, string userTier, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public bool CanRegisterApi(string userTier, int currentApiCount)
+            => throw new NotImplementedException();
+
+        public Task<int> GetRemainingApiCallsAsync(string userId, string userTier, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<UsageSummary> GetUsageSummaryAsync(string userId, string userTier, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<UsageRecord>> GetUsageHistoryAsync(string userId, int months = 12, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<DailyUsagePoint>> GetDailyUsageAsync(string userId, UsageBreakdownQuery query, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<UsageBreakdownItem>> GetUsageBreakdownAsync(
+            string userId,
+            string dimension,
+            UsageBreakdownQuery query,
+            int top = Constants.UsageBreakdown.DefaultTop,
+            CancellationToken ct = default)
+            => throw new NotImplementedException();
+    }
+
+    #endregion
+}
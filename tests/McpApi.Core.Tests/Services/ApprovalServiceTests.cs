@@ -0,0 +1,290 @@
+namespace McpApi.Core.Tests.Services;
+
+using System.Text.Json;
+using McpApi.Core.Models;
+using McpApi.Core.Services;
+using McpApi.Core.Storage;
+using Xunit;
+
+public class ApprovalServiceTests
+{
+    #region Request Tests
+
+    [Fact]
+    public async Task RequestAsync_StoresPendingRequestWithArguments()
+    {
+        // Arrange
+        var store = new MockApprovalStore();
+        var service = CreateService(store);
+
+        // Act
+        var approval = await RequestAsync(service);
+
+        // Assert
+        var stored = Assert.Single(store.Items.Values);
+        Assert.Equal(approval.Id, stored.Id);
+        Assert.Equal(Constants.Approvals.StatusPending, stored.Status);
+        Assert.Equal("DELETE", stored.Method);
+        Assert.Equal("token-1", stored.TokenId);
+        Assert.Equal("""{"petId":7}""", stored.Arguments);
+    }
+
+    #endregion
+
+    #region Wait Tests
+
+    [Fact]
+    public async Task WaitForDecisionAsync_DecidedWhileWaiting_ReturnsDecision()
+    {
+        // Arrange
+        var store = new MockApprovalStore();
+        var service = CreateService(store);
+        var approval = await RequestAsync(service);
+        await service.DecideAsync("user-1", approval.Id, approve: true);
+
+        // Act
+        var result = await service.WaitForDecisionAsync(approval, TimeSpan.FromSeconds(5));
+
+        // Assert
+        Assert.Equal(Constants.Approvals.StatusApproved, result.Status);
+    }
+
+    [Fact]
+    public async Task WaitForDecisionAsync_NoDecision_ReturnsPendingAfterTimeout()
+    {
+        // Arrange
+        var service = CreateService(new MockApprovalStore());
+        var approval = await RequestAsync(service);
+
+        // Act
+        var result = await service.WaitForDecisionAsync(approval, TimeSpan.FromMilliseconds(20));
+
+        // Assert
+        Assert.Equal(Constants.Approvals.StatusPending, result.GetStatus(DateTime.UtcNow));
+    }
+
+    #endregion
+
+    #region Decision Tests
+
+    [Fact]
+    public async Task DecideAsync_Reject_RecordsNote()
+    {
+        // Arrange
+        var store = new MockApprovalStore();
+        var service = CreateService(store);
+        var approval = await RequestAsync(service);
+
+        // Act
+        var result = await service.DecideAsync("user-1", approval.Id, approve: false, note: "  Wrong pet  ");
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.Equal(Constants.Approvals.StatusRejected, store.Items[approval.Id].Status);
+        Assert.Equal("Wrong pet", store.Items[approval.Id].DecisionNote);
+        Assert.NotNull(store.Items[approval.Id].DecidedAt);
+    }
+
+    [Fact]
+    public async Task DecideAsync_AlreadyDecided_Throws()
+    {
+        // Arrange
+        var service = CreateService(new MockApprovalStore());
+        var approval = await RequestAsync(service);
+        await service.DecideAsync("user-1", approval.Id, approve: false);
+
+        // Act & Assert
+        await Assert.ThrowsAsync<InvalidOperationException>(() => service.DecideAsync("user-1", approval.Id, approve: true));
+    }
+
+    [Fact]
+    public async Task DecideAsync_Expired_Throws()
+    {
+        // Arrange
+        var store = new MockApprovalStore();
+        var service = CreateService(store);
+        var approval = await RequestAsync(service);
+        store.Items[approval.Id].ExpiresAt = DateTime.UtcNow.AddMinutes(-1);
+
+        // Act
+        var ex = await Assert.ThrowsAsync<InvalidOperationException>(
+            () => service.DecideAsync("user-1", approval.Id, approve: true));
+
+        // Assert
+        Assert.Contains(Constants.Approvals.StatusExpired, ex.Message);
+    }
+
+    [Fact]
+    public async Task DecideAsync_OtherUser_ReturnsNull()
+    {
+        // Arrange
+        var service = CreateService(new MockApprovalStore());
+        var approval = await RequestAsync(service);
+
+        // Act
+        var result = await service.DecideAsync("user-2", approval.Id, approve: true);
+
+        // Assert
+        Assert.Null(result);
+    }
+
+    #endregion
+
+    #region Execution Tests
+
+    [Fact]
+    public async Task TryStartExecutionAsync_Approved_MarksExecutedOnce()
+    {
+        // Arrange
+        var store = new MockApprovalStore();
+        var service = CreateService(store);
+        var approval = await RequestAsync(service);
+        await service.DecideAsync("user-1", approval.Id, approve: true);
+        var first = (await service.GetAsync("user-1", approval.Id))!;
+        var second = (await service.GetAsync("user-1", approval.Id))!;
+
+        // Act
+        var firstStarted = await service.TryStartExecutionAsync(first);
+        var secondStarted = await service.TryStartExecutionAsync(second);
+
+        // Assert
+        Assert.True(firstStarted);
+        Assert.False(secondStarted);
+        Assert.Equal(Constants.Approvals.StatusExecuted, store.Items[approval.Id].Status);
+        Assert.NotNull(store.Items[approval.Id].ExecutedAt);
+    }
+
+    [Fact]
+    public async Task TryStartExecutionAsync_Rejected_ReturnsFalse()
+    {
+        // Arrange
+        var service = CreateService(new MockApprovalStore());
+        var approval = await RequestAsync(service);
+        var rejected = (await service.DecideAsync("user-1", approval.Id, approve: false))!;
+
+        // Act
+        var started = await service.TryStartExecutionAsync(rejected);
+
+        // Assert
+        Assert.False(started);
+    }
+
+    [Fact]
+    public async Task TryStartExecutionAsync_ApprovedLongerAgoThanWindow_ReturnsFalse()
+    {
+        // Arrange
+        var store = new MockApprovalStore();
+        var service = CreateService(store);
+        var approval = await RequestAsync(service);
+        await service.DecideAsync("user-1", approval.Id, approve: true);
+        store.Items[approval.Id].DecidedAt = DateTime.UtcNow.AddMinutes(-Constants.Approvals.ExecutionWindowMinutes - 1);
+        var approved = (await service.GetAsync("user-1", approval.Id))!;
+
+        // Act
+        var started = await service.TryStartExecutionAsync(approved);
+
+        // Assert
+        Assert.False(started);
+        Assert.Equal(Constants.Approvals.StatusExpired, approved.GetStatus(DateTime.UtcNow));
+        Assert.Equal(Constants.Approvals.StatusApproved, store.Items[approval.Id].Status);
+        Assert.Null(store.Items[approval.Id].ExecutedAt);
+    }
+
+    #endregion
+
+    #region Helper Methods
+
+    private static ApprovalService CreateService(IApprovalStore store)
+    {
+        return new ApprovalService(store) { PollInterval = TimeSpan.FromMilliseconds(1) };
+    }
+
+    private static Task<ApprovalRequest> RequestAsync(ApprovalService service)
+    {
+        var context = new ApiCallContext("user-1", Constants.CallLog.SourceMcp, "token-1");
+        var api = new ApiRegistration
+        {
+            Id = "petstore",
+            DisplayName = "Petstore",
+            BaseUrl = "https://petstore.example.com",
+            OpenApiVersion = "3.0.0",
+            Auth = new NoAuthConfig()
+        };
+        var endpoint = new ApiEndpoint
+        {
+            Id = "pets-delete",
+            OperationId = "deletePet",
+            Method = "delete",
+            Path = "/pets/{petId}",
+            RequiresApproval = true
+        };
+
+        return service.RequestAsync(context, api, endpoint, "petstore.pets.deletepet", """{"petId":7}""");
+    }
+
+    #endregion
+
+    #region Mock Implementations
+
+    // Hands out copies and checks ETags on update, like Cosmos DB
+    private class MockApprovalStore : IApprovalStore
+    {
+        public Dictionary<string, ApprovalRequest> Items { get; } = new();
+
+        public Task AddAsync(ApprovalRequest approval, CancellationToken ct = default)
+        {
+            approval.ETag = Guid.NewGuid().ToString();
+            Items[approval.Id] = Copy(approval);
+            return Task.CompletedTask;
+        }
+
+        public Task<ApprovalRequest?> GetAsync(string userId, string id, CancellationToken ct = default)
+        {
+            return Task.FromResult(Items.TryGetValue(id, out var approval) && approval.UserId == userId
+                ? Copy(approval)
+                : null);
+        }
+
+        public Task<bool> TryUpdateAsync(ApprovalRequest approval, CancellationToken ct = default)
+        {
+            if (!Items.TryGetValue(approval.Id, out var stored) || stored.ETag != approval.ETag)
+                return Task.FromResult(false);
+
+            approval.ETag = Guid.NewGuid().ToString();
+            Items[approval.Id] = Copy(approval);
+            return Task.FromResult(true);
+        }
+
+        public Task<IReadOnlyList<ApprovalRequest>> QueryAsync(
+            string userId,
+            string? status = null,
+            int limit = Constants.Approvals.MaxPageSize,
+            CancellationToken ct = default)
+        {
+            IReadOnlyList<ApprovalRequest> results = Items.Values
+                .Where(a => a.UserId == userId && (status == null || a.Status == status))
+                .OrderByDescending(a => a.CreatedAt)
+                .Take(limit)
+                .Select(Copy)
+                .ToList();
+            return Task.FromResult(results);
+        }
+
+        public Task DeleteAllForUserAsync(string userId, CancellationToken ct = default)
+        {
+            foreach (var id in Items.Values.Where(a => a.UserId == userId).Select(a => a.Id).ToList())
+            {
+                Items.Remove(id);
+            }
+
+            return Task.CompletedTask;
+        }
+
+        private static ApprovalRequest Copy(ApprovalRequest approval)
+        {
+            return JsonSerializer.Deserialize<ApprovalRequest>(JsonSerializer.Serialize(approval))!;
+        }
+    }
+
+    #endregion
+}
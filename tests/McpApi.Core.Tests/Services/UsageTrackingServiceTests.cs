@@ -0,0 +1,353 @@
+namespace McpApi.Core.Tests.Services;
+
+using McpApi.Core.Models;
+using McpApi.Core.Services;
+using McpApi.Core.Storage;
+using Xunit;
+
+public class UsageTrackingServiceTests
+{
+    #region Daily Usage Tests
+
+    [Fact]
+    public async Task GetDailyUsageAsync_FillsDaysWithoutCalls()
+    {
+        // Arrange
+        var store = new MockUsageStore();
+        store.Daily.Add(CreateRecord(DaysAgo(0), "petstore", "get-pet", calls: 3, errors: 1));
+        store.Daily.Add(CreateRecord(DaysAgo(0), "petstore", "list-pets", calls: 2));
+        store.Daily.Add(CreateRecord(DaysAgo(2), "petstore", "get-pet", calls: 4));
+        var service = CreateService(store);
+
+        // Act
+        var points = await service.GetDailyUsageAsync("user-1", new UsageBreakdownQuery(Days: 3));
+
+        // Assert
+        Assert.Equal(3, points.Count);
+        Assert.Equal(new DailyUsagePoint(DaysAgo(2), 4, 0), points[0]);
+        Assert.Equal(new DailyUsagePoint(DaysAgo(1), 0, 0), points[1]);
+        Assert.Equal(new DailyUsagePoint(DaysAgo(0), 5, 1), points[2]);
+    }
+
+    [Fact]
+    public async Task GetDailyUsageAsync_AppliesFilters()
+    {
+        // Arrange
+        var store = new MockUsageStore();
+        store.Daily.Add(CreateRecord(DaysAgo(0), "petstore", "get-pet", calls: 3));
+        store.Daily.Add(CreateRecord(DaysAgo(0), "weather", "get-forecast", calls: 7));
+        var service = CreateService(store);
+
+        // Act
+        var points = await service.GetDailyUsageAsync("user-1", new UsageBreakdownQuery(Days: 1, ApiId: "weather"));
+
+        // Assert
+        Assert.Equal(7, Assert.Single(points).CallCount);
+    }
+
+    #endregion
+
+    #region Breakdown Tests
+
+    [Fact]
+    public async Task GetUsageBreakdownAsync_ByApi_SumsAndOrdersByCallCount()
+    {
+        // Arrange
+        var store = new MockUsageStore();
+        store.Daily.Add(CreateRecord(DaysAgo(0), "petstore", "get-pet", calls: 3, durationMs: 300));
+        store.Daily.Add(CreateRecord(DaysAgo(1), "petstore", "list-pets", calls: 1, errors: 1, durationMs: 100));
+        store.Daily.Add(CreateRecord(DaysAgo(0), "weather", "get-forecast", calls: 10, durationMs: 5000));
+        var service = CreateService(store);
+
+        // Act
+        var items = await service.GetUsageBreakdownAsync("user-1", Constants.UsageBreakdown.ByApi, new UsageBreakdownQuery());
+
+        // Assert
+        Assert.Equal(2, items.Count);
+        Assert.Equal("weather", items[0].Key);
+        Assert.Equal(10, items[0].CallCount);
+        Assert.Equal(500, items[0].AverageDurationMs);
+        Assert.Equal("petstore", items[1].Key);
+        Assert.Equal("petstore API", items[1].Label);
+        Assert.Equal(4, items[1].CallCount);
+        Assert.Equal(1, items[1].ErrorCount);
+        Assert.Equal(100, items[1].AverageDurationMs);
+    }
+
+    [Fact]
+    public async Task GetUsageBreakdownAsync_ByEndpoint_LabelsWithMethodAndPath()
+    {
+        // Arrange
+        var store = new MockUsageStore();
+        store.Daily.Add(CreateRecord(DaysAgo(0), "petstore", "get-pet", calls: 2));
+        var service = CreateService(store);
+
+        // Act
+        var items = await service.GetUsageBreakdownAsync("user-1", Constants.UsageBreakdown.ByEndpoint, new UsageBreakdownQuery());
+
+        // Assert
+        var item = Assert.Single(items);
+        Assert.Equal("petstore:get-pet", item.Key);
+        Assert.Equal("GET /get-pet", item.Label);
+        Assert.Equal("petstore API · get-pet", item.Detail);
+    }
+
+    [Fact]
+    public async Task GetUsageBreakdownAsync_ByToken_GroupsCallsWithoutToken()
+    {
+        // Arrange
+        var store = new MockUsageStore();
+        store.Daily.Add(CreateRecord(DaysAgo(0), "petstore", "get-pet", calls: 2, tokenId: "token-1"));
+        store.Daily.Add(CreateRecord(DaysAgo(0), "petstore", "get-pet", calls: 1, source: Constants.CallLog.SourcePlayground));
+        store.Daily.Add(CreateRecord(DaysAgo(0), "petstore", "get-pet", calls: 1, source: Constants.CallLog.SourceTryIt));
+        var service = CreateService(store);
+
+        // Act
+        var items = await service.GetUsageBreakdownAsync("user-1", Constants.UsageBreakdown.ByToken, new UsageBreakdownQuery());
+
+        // Assert
+        Assert.Equal(2, items.Count);
+        Assert.Contains(items, i => i.Key == "token-1" && i.CallCount == 2);
+        Assert.Contains(items, i => i.Key == null && i.CallCount == 2);
+    }
+
+    [Fact]
+    public async Task GetUsageBreakdownAsync_LimitsToTop()
+    {
+        // Arrange
+        var store = new MockUsageStore();
+        for (var i = 1; i <= 5; i++)
+        {
+            store.Daily.Add(CreateRecord(DaysAgo(0), "petstore", $"op-{i}", calls: i));
+        }
+        var service = CreateService(store);
+
+        // Act
+        var items = await service.GetUsageBreakdownAsync("user-1", Constants.UsageBreakdown.ByEndpoint, new UsageBreakdownQuery(), top: 2);
+
+        // Assert
+        Assert.Equal(new string?[] { "petstore:op-5", "petstore:op-4" }, items.Select(i => i.Key));
+    }
+
+    [Fact]
+    public async Task GetUsageBreakdownAsync_UnknownDimension_Throws()
+    {
+        // Arrange
+        var service = CreateService(new MockUsageStore());
+
+        // Act & Assert
+        await Assert.ThrowsAsync<ArgumentException>(() =>
+            service.GetUsageBreakdownAsync("user-1", "country", new UsageBreakdownQuery()));
+    }
+
+    #endregion
+
+    #region Recording Tests
+
+    [Fact]
+    public async Task RecordEndpointCallAsync_AddsSingleCallForTheDay()
+    {
+        // Arrange
+        var store = new MockUsageStore();
+        var service = CreateService(store);
+        var call = new ApiCallLog
+        {
+            Id = "log-1",
+            UserId = "user-1",
+            Timestamp = new DateTime(2026, 3, 14, 23, 59, 0, DateTimeKind.Utc),
+            Source = Constants.CallLog.SourceMcp,
+            TokenId = "token-1",
+            ApiId = "petstore",
+            ApiName = "Petstore",
+            EndpointId = "get-pet",
+            OperationId = "getPet",
+            Method = "GET",
+            Path = "/pets/{petId}",
+            StatusCode = 404,
+            IsSuccess = false,
+            DurationMs = 120
+        };
+
+        // Act
+        await service.RecordEndpointCallAsync(call);
+
+        // Assert
+        var record = Assert.Single(store.Daily);
+        Assert.Equal("2026-03-14", record.Date);
+        Assert.Equal("user-1:2026-03-14:petstore:get-pet:mcp:token-1", record.Id);
+        Assert.Equal(1, record.CallCount);
+        Assert.Equal(1, record.ErrorCount);
+        Assert.Equal(120, record.TotalDurationMs);
+    }
+
+    #endregion
+
+    #region Helper Methods
+
+    private static UsageTrackingService CreateService(MockUsageStore store)
+    {
+        return new UsageTrackingService(store, new MockApiRegistrationStore());
+    }
+
+    private static string DaysAgo(int days)
+    {
+        return DateTime.UtcNow.AddDays(-days).ToString("yyyy-MM-dd");
+    }
+
+    private static DailyUsageRecord CreateRecord(
+        string date,
+        string apiId,
+        string endpointId,
+        int calls,
+        int errors = 0,
+        long durationMs = 0,
+        string source = Constants.CallLog.SourceMcp,
+        string? tokenId = null)
+    {
+        return new DailyUsageRecord
+        {
+            Id = DailyUsageRecord.CreateId("user-1", date, apiId, endpointId, source, tokenId),
+            UserId = "user-1",
+            Date = date,
+            ApiId = apiId,
+            ApiName = $"{apiId} API",
+            EndpointId = endpointId,
+            OperationId = endpointId,
+            Method = "GET",
+            Path = $"/{endpointId}",
+            Source = source,
+            TokenId = tokenId,
+            CallCount = calls,
+            ErrorCount = errors,
+            TotalDurationMs = durationMs
+        };
+    }
+
+    #endregion
+
+    #region Mock Implementations
+
+    private class MockUsageStore : IUsageStore
+    {
+        public List<DailyUsageRecord> Daily { get; } = [];
+
+        public Task AddDailyUsageAsync(DailyUsageRecord usage, CancellationToken ct = default)
+        {
+            var existing = Daily.FirstOrDefault(r => r.Id == usage.Id);
+            if (existing == null)
+            {
+                Daily.Add(usage);
+            }
+            else
+            {
+                existing.CallCount += usage.CallCount;
+                existing.ErrorCount += usage.ErrorCount;
+                existing.TotalDurationMs += usage.TotalDurationMs;
+            }
+
+            return Task.CompletedTask;
+        }
+
+        public Task<IReadOnlyList<DailyUsageRecord>> GetDailyRangeAsync(
+            string userId,
+            string startDate,
+            string endDate,
+            CancellationToken ct = default)
+        {
+            IReadOnlyList<DailyUsageRecord> records = Daily
+                .Where(r => r.UserId == userId
+                    && string.CompareOrdinal(r.Date, startDate) >= 0
+                    && string.CompareOrdinal(r.Date, endDate) <= 0)
+                .OrderBy(r => r.Date)
+                .ToList();
+            return Task.FromResult(records);
+        }
+
+        public Task<UsageRecord?> GetAsync(string userId, string yearMonth, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<UsageRecord?> GetCurrentMonthAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<UsageRecord>> GetRangeAsync(
+            string userId,
+            string startYearMonth,
+            string endYearMonth,
+            CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<UsageRecord> IncrementApiCallCountAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<UsageRecord> UpsertAsync(UsageRecord record, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task DeleteAllForUserAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+    }
+
+    /// <summary>
+    /// Unused by the breakdown methods; present only to construct the service.
+    /// </summary>
+    private class MockApiRegistrationStore : IApiRegistrationStore
+    {
+        public Task<ApiRegistration?> GetAsync(string userId, string id, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<ApiRegistration>> GetAllAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<ApiRegistration>> GetEnabledAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<ApiRegistration> UpsertAsync(ApiRegistration registration, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task DeleteAsync(string userId, string id, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<bool> ExistsAsync(string userId, string id, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<ApiEndpoint>> GetEndpointsAsync(string userId, string apiId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<ApiEndpoint>> GetEnabledEndpointsAsync(string userId, string apiId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<ApiEndpoint?> GetEndpointAsync(string userId, string apiId, string endpointId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task SaveEndpointsAsync(string userId, string apiId, IEnumerable<ApiEndpoint> endpoints, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task DeleteEndpointsAsync(string userId, string apiId, IEnumerable<string> endpointIds, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<ApiEndpoint> UpdateEndpointAsync(ApiEndpoint endpoint, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<int> GetEndpointCountAsync(string userId, string apiId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<int> GetEnabledEndpointCountAsync(string userId, string apiId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<EndpointSearchResult>> SearchEndpointsAsync(string userId, string query, int limit = 20, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<string> GetVersionAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<ApiRegistration>> GetScheduledForRefreshAsync(CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<int> GetApiCountAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task DeleteAllForUserAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+    }
+
+    #endregion
+}
@@ -0,0 +1,304 @@
+namespace McpApi.Core.Tests.Utilities;
+
+using McpApi.Core.Models;
+using McpApi.Core.Utilities;
+using Xunit;
+
+public class EndpointDiffTests
+{
+    #region Compare Tests
+
+    [Fact]
+    public void Compare_WithIdenticalEndpoints_ReportsNoChanges()
+    {
+        // Arrange
+        var existing = new[] { CreateEndpoint("users-list", "GET", "/users", CreateParam("page", "query")) };
+        var refreshed = new[] { CreateEndpoint("users-list", "GET", "/users", CreateParam("page", "query")) };
+
+        // Act
+        var changes = EndpointDiff.Compare(existing, refreshed);
+
+        // Assert
+        Assert.False(changes.HasChanges);
+        Assert.Equal(1, changes.UnchangedCount);
+    }
+
+    [Fact]
+    public void Compare_WithAddedAndRemovedEndpoints_ReportsBoth()
+    {
+        // Arrange
+        var existing = new[]
+        {
+            CreateEndpoint("users-list", "GET", "/users"),
+            CreateEndpoint("users-delete", "DELETE", "/users/{id}")
+        };
+        var refreshed = new[]
+        {
+            CreateEndpoint("users-list", "GET", "/users"),
+            CreateEndpoint("users-create", "POST", "/users")
+        };
+
+        // Act
+        var changes = EndpointDiff.Compare(existing, refreshed);
+
+        // Assert
+        Assert.Equal("users-create", Assert.Single(changes.Added).Id);
+        Assert.Equal("users-delete", Assert.Single(changes.Removed).Id);
+        Assert.Empty(changes.Changed);
+        Assert.True(changes.HasBreakingChanges);
+    }
+
+    [Fact]
+    public void Compare_WithOptionalParameterAdded_IsNotBreaking()
+    {
+        // Arrange
+        var existing = new[] { CreateEndpoint("users-list", "GET", "/users") };
+        var refreshed = new[] { CreateEndpoint("users-list", "GET", "/users", CreateParam("page", "query")) };
+
+        // Act
+        var changes = EndpointDiff.Compare(existing, refreshed);
+
+        // Assert
+        var change = Assert.Single(changes.Changed);
+        Assert.Contains(change.Changes, c => c.Description.Contains("'page'") && !c.IsBreaking);
+        Assert.False(changes.HasBreakingChanges);
+    }
+
+    [Fact]
+    public void Compare_WithRequiredParameterAdded_IsBreaking()
+    {
+        // Arrange
+        var existing = new[] { CreateEndpoint("users-list", "GET", "/users") };
+        var refreshed = new[] { CreateEndpoint("users-list", "GET", "/users", CreateParam("org", "query", required: true)) };
+
+        // Act
+        var changes = EndpointDiff.Compare(existing, refreshed);
+
+        // Assert
+        Assert.True(Assert.Single(changes.Changed).IsBreaking);
+    }
+
+    [Fact]
+    public void Compare_WithParameterTypeChanged_ReportsSchemaChange()
+    {
+        // Arrange
+        var existing = new[] { CreateEndpoint("users-list", "GET", "/users", CreateParam("page", "query")) };
+        var param = CreateParam("page", "query");
+        param.Schema = new JsonSchema { Type = "integer" };
+        var refreshed = new[] { CreateEndpoint("users-list", "GET", "/users", param) };
+
+        // Act
+        var changes = EndpointDiff.Compare(existing, refreshed);
+
+        // Assert
+        var change = Assert.Single(Assert.Single(changes.Changed).Changes);
+        Assert.Equal("Parameter 'page' schema changed", change.Description);
+        Assert.True(change.IsBreaking);
+    }
+
+    [Fact]
+    public void Compare_WithParameterStyleChanged_ReportsSerializationChange()
+    {
+        // Arrange
+        var existing = new[] { CreateEndpoint("users-list", "GET", "/users", CreateParam("ids", "query")) };
+        var param = CreateParam("ids", "query");
+        param.Style = Constants.ParameterStyles.PipeDelimited;
+        param.Explode = false;
+        var refreshed = new[] { CreateEndpoint("users-list", "GET", "/users", param) };
+
+        // Act
+        var changes = EndpointDiff.Compare(existing, refreshed);
+
+        // Assert
+        var change = Assert.Single(Assert.Single(changes.Changed).Changes);
+        Assert.Equal("Parameter 'ids' serialization changed", change.Description);
+        Assert.True(change.IsBreaking);
+    }
+
+    [Fact]
+    public void Compare_WithDefaultStyleSpelledOut_ReportsNoChanges()
+    {
+        // Arrange
+        var existing = new[] { CreateEndpoint("users-list", "GET", "/users", CreateParam("ids", "query")) };
+        var param = CreateParam("ids", "query");
+        param.Style = Constants.ParameterStyles.Form;
+        param.Explode = true;
+        var refreshed = new[] { CreateEndpoint("users-list", "GET", "/users", param) };
+
+        // Act
+        var changes = EndpointDiff.Compare(existing, refreshed);
+
+        // Assert
+        Assert.False(changes.HasChanges);
+    }
+
+    [Fact]
+    public void Compare_WithOnlySchemaDescriptionChanged_ReportsNoChanges()
+    {
+        // Arrange
+        var existingParam = CreateParam("page", "query");
+        existingParam.Schema.Description = "Page number";
+        var refreshedParam = CreateParam("page", "query");
+        refreshedParam.Schema.Description = "The page to return";
+
+        var existing = new[] { CreateEndpoint("users-list", "GET", "/users", existingParam) };
+        var refreshed = new[] { CreateEndpoint("users-list", "GET", "/users", refreshedParam) };
+
+        // Act
+        var changes = EndpointDiff.Compare(existing, refreshed);
+
+        // Assert
+        Assert.False(changes.HasChanges);
+    }
+
+    [Fact]
+    public void Compare_WithRequestBodySchemaChanged_IsBreaking()
+    {
+        // Arrange
+        var existingEndpoint = CreateEndpoint("users-create", "POST", "/users");
+        existingEndpoint.RequestBody = CreateBody(new JsonSchema
+        {
+            Type = "object",
+            Properties = new() { ["name"] = new JsonSchema { Type = "string" } }
+        });
+
+        var refreshedEndpoint = CreateEndpoint("users-create", "POST", "/users");
+        refreshedEndpoint.RequestBody = CreateBody(new JsonSchema
+        {
+            Type = "object",
+            Properties = new() { ["name"] = new JsonSchema { Type = "string" } },
+            Required = ["name"]
+        });
+
+        // Act
+        var changes = EndpointDiff.Compare([existingEndpoint], [refreshedEndpoint]);
+
+        // Assert
+        var change = Assert.Single(Assert.Single(changes.Changed).Changes);
+        Assert.Equal("Request body schema changed (application/json)", change.Description);
+        Assert.True(change.IsBreaking);
+    }
+
+    [Fact]
+    public void Compare_WithPathChanged_IsBreaking()
+    {
+        // Arrange
+        var existing = new[] { CreateEndpoint("users-get", "GET", "/users/{id}") };
+        var refreshed = new[] { CreateEndpoint("users-get", "GET", "/v2/users/{id}") };
+
+        // Act
+        var changes = EndpointDiff.Compare(existing, refreshed);
+
+        // Assert
+        var change = Assert.Single(Assert.Single(changes.Changed).Changes);
+        Assert.Equal("Moved from GET /users/{id} to GET /v2/users/{id}", change.Description);
+        Assert.True(change.IsBreaking);
+    }
+
+    #endregion
+
+    #region PreserveSettings Tests
+
+    [Fact]
+    public void PreserveSettings_CopiesEnabledStateAndToolNameOverride()
+    {
+        // Arrange
+        var existing = CreateEndpoint("users-list", "GET", "/users");
+        existing.IsEnabled = false;
+        existing.ToolNameOverride = "list_users";
+        var refreshed = CreateEndpoint("users-list", "GET", "/users");
+        var added = CreateEndpoint("users-create", "POST", "/users");
+
+        // Act
+        EndpointDiff.PreserveSettings([existing], [refreshed, added]);
+
+        // Assert
+        Assert.False(refreshed.IsEnabled);
+        Assert.Equal("list_users", refreshed.ToolNameOverride);
+        Assert.True(added.IsEnabled);
+        Assert.Null(added.ToolNameOverride);
+    }
+
+    [Fact]
+    public void PreserveSettings_CopiesResponseShaping()
+    {
+        // Arrange
+        var existing = CreateEndpoint("users-list", "GET", "/users");
+        existing.ResponseShaping = new ResponseShapingConfig { Fields = ["$[*].login"], MaxArrayLength = 10 };
+        var refreshed = CreateEndpoint("users-list", "GET", "/users");
+
+        // Act
+        EndpointDiff.PreserveSettings([existing], [refreshed]);
+
+        // Assert
+        Assert.Same(existing.ResponseShaping, refreshed.ResponseShaping);
+    }
+
+    [Fact]
+    public void PreserveSettings_CopiesPagination()
+    {
+        // Arrange
+        var existing = CreateEndpoint("users-list", "GET", "/users");
+        existing.Pagination = new PaginationConfig { Style = "cursor", Parameter = "after", CursorPath = "meta.next" };
+        var refreshed = CreateEndpoint("users-list", "GET", "/users");
+
+        // Act
+        EndpointDiff.PreserveSettings([existing], [refreshed]);
+
+        // Assert
+        Assert.Same(existing.Pagination, refreshed.Pagination);
+    }
+
+    [Fact]
+    public void PreserveSettings_CopiesRequiresApproval()
+    {
+        // Arrange
+        var existing = CreateEndpoint("users-delete", "DELETE", "/users/{id}");
+        existing.RequiresApproval = true;
+        var refreshed = CreateEndpoint("users-delete", "DELETE", "/users/{id}");
+
+        // Act
+        EndpointDiff.PreserveSettings([existing], [refreshed]);
+
+        // Assert
+        Assert.True(refreshed.RequiresApproval);
+    }
+
+    #endregion
+
+    #region Helper Methods
+
+    private static ApiEndpoint CreateEndpoint(string id, string method, string path, params ParameterDefinition[] parameters)
+    {
+        return new ApiEndpoint
+        {
+            Id = id,
+            OperationId = id,
+            Method = method,
+            Path = path,
+            Parameters = parameters.ToList()
+        };
+    }
+
+    private static ParameterDefinition CreateParam(string name, string location, bool required = false)
+    {
+        return new ParameterDefinition
+        {
+            Name = name,
+            In = location,
+            Required = required,
+            Schema = new JsonSchema { Type = "string" }
+        };
+    }
+
+    private static RequestBodyDefinition CreateBody(JsonSchema schema)
+    {
+        return new RequestBodyDefinition
+        {
+            Required = true,
+            Content = new() { ["application/json"] = schema }
+        };
+    }
+
+    #endregion
+}
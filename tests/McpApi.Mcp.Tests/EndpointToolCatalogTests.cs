@@ -0,0 +1,263 @@
+namespace McpApi.Mcp.Tests;
+
+using McpApi.Core.Models;
+using McpApi.Core.Storage;
+using McpApi.Core.Utilities;
+
+public class EndpointToolCatalogTests
+{
+    #region GetToolsAsync Tests
+
+    [Fact]
+    public async Task GetToolsAsync_WithDuplicateNames_SuffixesLaterTools()
+    {
+        // Arrange
+        var store = new MockApiRegistrationStore();
+        store.Add(CreateApi(), CreateEndpoint("pets-a", "listPets"), CreateEndpoint("pets-b", "listPets"));
+        var catalog = new EndpointToolCatalog(store);
+
+        // Act
+        var tools = await catalog.GetToolsAsync("user-1");
+
+        // Assert
+        Assert.Equal(
+            new[] { "petstore.api.listpets", $"petstore.api.listpets-{IdGenerator.ComputeShortHash("pets-b")}" },
+            tools.Select(t => t.Tool.Name));
+    }
+
+    [Fact]
+    public async Task GetToolsAsync_WhenSuffixedNameIsTaken_KeepsNamesUnique()
+    {
+        // Arrange
+        var store = new MockApiRegistrationStore();
+        var suffixedName = $"petstore.api.listpets-{IdGenerator.ComputeShortHash("pets-c")}";
+        var overridden = CreateEndpoint("pets-b", "findPets");
+        overridden.ToolNameOverride = suffixedName;
+        store.Add(CreateApi(), CreateEndpoint("pets-a", "listPets"), overridden, CreateEndpoint("pets-c", "listPets"));
+        var catalog = new EndpointToolCatalog(store);
+
+        // Act
+        var tools = await catalog.GetToolsAsync("user-1");
+
+        // Assert
+        var names = tools.Select(t => t.Tool.Name).ToList();
+        Assert.Equal(3, names.Distinct().Count());
+        Assert.Equal(suffixedName, names[1]);
+        Assert.StartsWith("petstore.api.listpets-", names[2]);
+        Assert.NotEqual(suffixedName, names[2]);
+    }
+
+    #endregion
+
+    #region FindToolAsync Tests
+
+    [Fact]
+    public async Task FindToolAsync_AfterListing_ReadsOnlyTheToolsApiAndEndpoint()
+    {
+        // Arrange
+        var store = new MockApiRegistrationStore();
+        store.Add(CreateApi(), CreateEndpoint("pets-list", "listPets"), CreateEndpoint("pets-delete", "deletePet"));
+        var catalog = new EndpointToolCatalog(store);
+        await catalog.GetToolsAsync("user-1");
+
+        // Act
+        var tool = await catalog.FindToolAsync("user-1", "petstore.api.deletepet");
+
+        // Assert
+        Assert.NotNull(tool);
+        Assert.Equal("pets-delete", tool.Endpoint.Id);
+        Assert.Equal(1, store.CatalogBuilds);
+        Assert.Equal(1, store.EndpointReads);
+    }
+
+    [Fact]
+    public async Task FindToolAsync_EndpointDisabledSinceListing_ReturnsNull()
+    {
+        // Arrange
+        var store = new MockApiRegistrationStore();
+        var endpoint = CreateEndpoint("pets-delete", "deletePet");
+        store.Add(CreateApi(), endpoint);
+        var catalog = new EndpointToolCatalog(store);
+        await catalog.GetToolsAsync("user-1");
+        endpoint.IsEnabled = false;
+
+        // Act
+        var tool = await catalog.FindToolAsync("user-1", "petstore.api.deletepet");
+
+        // Assert
+        Assert.Null(tool);
+    }
+
+    [Fact]
+    public async Task FindToolAsync_EndpointChangedSinceListing_UsesCurrentSettings()
+    {
+        // Arrange
+        var store = new MockApiRegistrationStore();
+        store.Add(CreateApi(), CreateEndpoint("pets-delete", "deletePet"));
+        var catalog = new EndpointToolCatalog(store);
+        await catalog.GetToolsAsync("user-1");
+        store.Replace(CreateEndpoint("pets-delete", "deletePet", requiresApproval: true));
+
+        // Act
+        var tool = await catalog.FindToolAsync("user-1", "petstore.api.deletepet");
+
+        // Assert
+        Assert.NotNull(tool);
+        Assert.True(tool.Endpoint.RequiresApproval);
+    }
+
+    [Fact]
+    public async Task FindToolAsync_NameNotInLastBuild_RebuildsCatalog()
+    {
+        // Arrange
+        var store = new MockApiRegistrationStore();
+        var api = CreateApi();
+        store.Add(api, CreateEndpoint("pets-list", "listPets"));
+        var catalog = new EndpointToolCatalog(store);
+        await catalog.GetToolsAsync("user-1");
+        store.Add(api, CreateEndpoint("pets-delete", "deletePet"));
+
+        // Act
+        var tool = await catalog.FindToolAsync("user-1", "petstore.api.deletepet");
+
+        // Assert
+        Assert.NotNull(tool);
+        Assert.Equal(2, store.CatalogBuilds);
+    }
+
+    [Fact]
+    public async Task FindToolAsync_UnknownTool_ReturnsNull()
+    {
+        // Arrange
+        var store = new MockApiRegistrationStore();
+        store.Add(CreateApi(), CreateEndpoint("pets-list", "listPets"));
+        var catalog = new EndpointToolCatalog(store);
+
+        // Act
+        var tool = await catalog.FindToolAsync("user-1", "missing");
+
+        // Assert
+        Assert.Null(tool);
+    }
+
+    #endregion
+
+    #region Helper Methods
+
+    private static ApiRegistration CreateApi()
+    {
+        return new ApiRegistration
+        {
+            Id = "petstore",
+            UserId = "user-1",
+            DisplayName = "Petstore",
+            BaseUrl = "https://petstore.example.com",
+            OpenApiVersion = "3.0.0",
+            Auth = new NoAuthConfig()
+        };
+    }
+
+    private static ApiEndpoint CreateEndpoint(string id, string operationId, bool requiresApproval = false)
+    {
+        return new ApiEndpoint
+        {
+            Id = id,
+            ApiId = "petstore",
+            UserId = "user-1",
+            OperationId = operationId,
+            Method = "get",
+            Path = "/pets",
+            RequiresApproval = requiresApproval
+        };
+    }
+
+    #endregion
+
+    #region Mock Implementations
+
+    private class MockApiRegistrationStore : IApiRegistrationStore
+    {
+        private readonly Dictionary<string, ApiRegistration> _apis = new();
+        private readonly List<ApiEndpoint> _endpoints = [];
+
+        public int CatalogBuilds { get; private set; }
+        public int EndpointReads { get; private set; }
+
+        public void Add(ApiRegistration api, params ApiEndpoint[] endpoints)
+        {
+            _apis[api.Id] = api;
+            _endpoints.AddRange(endpoints);
+        }
+
+        public void Replace(ApiEndpoint endpoint)
+        {
+            _endpoints.RemoveAll(e => e.Id == endpoint.Id);
+            _endpoints.Add(endpoint);
+        }
+
+        public Task<ApiRegistration?> GetAsync(string userId, string id, CancellationToken ct = default)
+            => Task.FromResult(_apis.GetValueOrDefault(id));
+
+        public Task<IReadOnlyList<ApiRegistration>> GetAllAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<ApiRegistration>> GetEnabledAsync(string userId, CancellationToken ct = default)
+        {
+            CatalogBuilds++;
+            return Task.FromResult<IReadOnlyList<ApiRegistration>>(_apis.Values.Where(a => a.IsEnabled).ToList());
+        }
+
+        public Task<ApiRegistration> UpsertAsync(ApiRegistration registration, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task DeleteAsync(string userId, string id, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<bool> ExistsAsync(string userId, string id, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<ApiEndpoint>> GetEndpointsAsync(string userId, string apiId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<ApiEndpoint>> GetEnabledEndpointsAsync(string userId, string apiId, CancellationToken ct = default)
+            => Task.FromResult<IReadOnlyList<ApiEndpoint>>(_endpoints.Where(e => e.ApiId == apiId && e.IsEnabled).ToList());
+
+        public Task<ApiEndpoint?> GetEndpointAsync(string userId, string apiId, string endpointId, CancellationToken ct = default)
+        {
+            EndpointReads++;
+            return Task.FromResult(_endpoints.FirstOrDefault(e => e.ApiId == apiId && e.Id == endpointId));
+        }
+
+        public Task SaveEndpointsAsync(string userId, string apiId, IEnumerable<ApiEndpoint> endpoints, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task DeleteEndpointsAsync(string userId, string apiId, IEnumerable<string> endpointIds, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<ApiEndpoint> UpdateEndpointAsync(ApiEndpoint endpoint, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<int> GetEndpointCountAsync(string userId, string apiId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<int> GetEnabledEndpointCountAsync(string userId, string apiId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<EndpointSearchResult>> SearchEndpointsAsync(string userId, string query, int limit = 20, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<string> GetVersionAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<ApiRegistration>> GetScheduledForRefreshAsync(CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<int> GetApiCountAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task DeleteAllForUserAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+    }
+
+    #endregion
+}
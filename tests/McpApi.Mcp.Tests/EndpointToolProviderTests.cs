@@ -0,0 +1,417 @@
+namespace McpApi.Mcp.Tests;
+
+using System.Text.Json;
+using McpApi.Core;
+using McpApi.Core.Http;
+using McpApi.Core.Models;
+using McpApi.Core.Secrets;
+using McpApi.Core.Services;
+using McpApi.Core.Storage;
+using Microsoft.Extensions.Logging.Abstractions;
+using ModelContextProtocol.Protocol;
+
+public class EndpointToolProviderTests
+{
+    private const string ToolName = "petstore.api.deletepet";
+
+    #region Approval Tests
+
+    [Fact]
+    public async Task CallToolAsync_RequiresApproval_ReturnsPendingWithoutCallingApi()
+    {
+        // Arrange
+        var approvalStore = new MockApprovalStore();
+        var callLog = new MockApiCallLogService();
+        var provider = CreateProvider(approvalStore, callLog, new MockUsageTrackingService());
+
+        // Act
+        var result = await provider.CallToolAsync(ToolName, Arguments("""{"petId":7}"""));
+
+        // Assert
+        Assert.False(result.IsError);
+        var approval = Assert.Single(approvalStore.Items.Values);
+        Assert.Equal(Constants.Approvals.StatusPending, approval.Status);
+        Assert.Equal("""{"petId":7}""", approval.Arguments);
+        Assert.Equal("token-1", approval.TokenId);
+        Assert.Contains(approval.Id, GetText(result));
+        Assert.Empty(callLog.Calls);
+    }
+
+    [Fact]
+    public async Task CallToolAsync_WithApprovedApprovalId_MakesApprovedCall()
+    {
+        // Arrange
+        var approvalStore = new MockApprovalStore();
+        var callLog = new MockApiCallLogService();
+        var provider = CreateProvider(approvalStore, callLog, new MockUsageTrackingService());
+        var approval = await RequestApprovalAsync(approvalStore, approve: true);
+
+        // Act
+        var result = await provider.CallToolAsync(ToolName, Arguments($$"""{"petId":99,"_approvalId":"{{approval.Id}}"}"""));
+
+        // Assert
+        Assert.False(result.IsError);
+        Assert.Equal(7L, callLog.Calls.Single()["petId"]);
+        Assert.Equal(Constants.Approvals.StatusExecuted, approvalStore.Items[approval.Id].Status);
+    }
+
+    [Fact]
+    public async Task CallToolAsync_WithRejectedApprovalId_ReturnsRejection()
+    {
+        // Arrange
+        var approvalStore = new MockApprovalStore();
+        var callLog = new MockApiCallLogService();
+        var provider = CreateProvider(approvalStore, callLog, new MockUsageTrackingService());
+        var approval = await RequestApprovalAsync(approvalStore, approve: false);
+
+        // Act
+        var result = await provider.CallToolAsync(ToolName, Arguments($$"""{"_approvalId":"{{approval.Id}}"}"""));
+
+        // Assert
+        Assert.True(result.IsError);
+        Assert.Contains(Constants.Approvals.StatusRejected, GetText(result));
+        Assert.Empty(callLog.Calls);
+    }
+
+    [Fact]
+    public async Task CallToolAsync_WithExpiredApprovalId_ReturnsExpired()
+    {
+        // Arrange
+        var approvalStore = new MockApprovalStore();
+        var callLog = new MockApiCallLogService();
+        var provider = CreateProvider(approvalStore, callLog, new MockUsageTrackingService());
+        var approval = await RequestApprovalAsync(approvalStore, approve: null);
+        approvalStore.Items[approval.Id].ExpiresAt = DateTime.UtcNow.AddMinutes(-1);
+
+        // Act
+        var result = await provider.CallToolAsync(ToolName, Arguments($$"""{"_approvalId":"{{approval.Id}}"}"""));
+
+        // Assert
+        Assert.True(result.IsError);
+        Assert.Contains(Constants.Approvals.StatusExpired, GetText(result));
+        Assert.Empty(callLog.Calls);
+    }
+
+    [Fact]
+    public async Task CallToolAsync_ApprovalIdReused_MakesCallOnlyOnce()
+    {
+        // Arrange
+        var approvalStore = new MockApprovalStore();
+        var callLog = new MockApiCallLogService();
+        var provider = CreateProvider(approvalStore, callLog, new MockUsageTrackingService());
+        var approval = await RequestApprovalAsync(approvalStore, approve: true);
+        var arguments = Arguments($$"""{"_approvalId":"{{approval.Id}}"}""");
+
+        // Act
+        var first = await provider.CallToolAsync(ToolName, arguments);
+        var second = await provider.CallToolAsync(ToolName, arguments);
+
+        // Assert
+        Assert.False(first.IsError);
+        Assert.True(second.IsError);
+        Assert.Contains("already made", GetText(second));
+        Assert.Single(callLog.Calls);
+    }
+
+    [Fact]
+    public async Task CallToolAsync_ApprovedWhenUsageLimitExceeded_KeepsApprovalForRetry()
+    {
+        // Arrange
+        var approvalStore = new MockApprovalStore();
+        var callLog = new MockApiCallLogService();
+        var usageTracking = new MockUsageTrackingService { LimitExceeded = true };
+        var provider = CreateProvider(approvalStore, callLog, usageTracking);
+        var approval = await RequestApprovalAsync(approvalStore, approve: true);
+        var arguments = Arguments($$"""{"_approvalId":"{{approval.Id}}"}""");
+
+        // Act
+        var refused = await provider.CallToolAsync(ToolName, arguments);
+        var statusAfterRefusal = approvalStore.Items[approval.Id].Status;
+        usageTracking.LimitExceeded = false;
+        var retried = await provider.CallToolAsync(ToolName, arguments);
+
+        // Assert
+        Assert.True(refused.IsError);
+        Assert.Contains("Usage limit exceeded", GetText(refused));
+        Assert.Equal(Constants.Approvals.StatusApproved, statusAfterRefusal);
+        Assert.False(retried.IsError);
+        Assert.Single(callLog.Calls);
+        Assert.Equal(Constants.Approvals.StatusExecuted, approvalStore.Items[approval.Id].Status);
+    }
+
+    #endregion
+
+    #region Helper Methods
+
+    private static EndpointToolProvider CreateProvider(
+        IApprovalStore approvalStore,
+        IApiCallLogService callLog,
+        IUsageTrackingService usageTracking)
+    {
+        var store = new MockApiRegistrationStore(CreateApi(), CreateEndpoint());
+        var catalog = new EndpointToolCatalog(store);
+
+        return new EndpointToolProvider(
+            catalog,
+            callLog,
+            CreateApprovals(approvalStore),
+            new MockMcpCurrentUser(),
+            usageTracking,
+            new ToolListChangedNotifier(catalog, NullLogger<ToolListChangedNotifier>.Instance))
+        {
+            ApprovalWait = TimeSpan.FromMilliseconds(20)
+        };
+    }
+
+    private static ApprovalService CreateApprovals(IApprovalStore store)
+    {
+        return new ApprovalService(store) { PollInterval = TimeSpan.FromMilliseconds(1) };
+    }
+
+    // Records a call with petId 7, then approves or rejects it when a decision is given
+    private static async Task<ApprovalRequest> RequestApprovalAsync(IApprovalStore store, bool? approve)
+    {
+        var approvals = CreateApprovals(store);
+        var context = new ApiCallContext("user-1", Constants.CallLog.SourceMcp, "token-1");
+        var approval = await approvals.RequestAsync(context, CreateApi(), CreateEndpoint(), ToolName, """{"petId":7}""");
+
+        if (approve != null)
+            await approvals.DecideAsync("user-1", approval.Id, approve.Value);
+
+        return approval;
+    }
+
+    private static ApiRegistration CreateApi()
+    {
+        return new ApiRegistration
+        {
+            Id = "petstore",
+            UserId = "user-1",
+            DisplayName = "Petstore",
+            BaseUrl = "https://petstore.example.com",
+            OpenApiVersion = "3.0.0",
+            Auth = new NoAuthConfig()
+        };
+    }
+
+    private static ApiEndpoint CreateEndpoint()
+    {
+        return new ApiEndpoint
+        {
+            Id = "pets-delete",
+            ApiId = "petstore",
+            UserId = "user-1",
+            OperationId = "deletePet",
+            Method = "delete",
+            Path = "/pets",
+            RequiresApproval = true
+        };
+    }
+
+    private static Dictionary<string, JsonElement> Arguments(string json)
+    {
+        return JsonSerializer.Deserialize<Dictionary<string, JsonElement>>(json)!;
+    }
+
+    private static string GetText(CallToolResult result)
+    {
+        return Assert.IsType<TextContentBlock>(result.Content[0]).Text;
+    }
+
+    #endregion
+
+    #region Mock Implementations
+
+    private class MockMcpCurrentUser : IMcpCurrentUser
+    {
+        public string UserId => "user-1";
+        public string Tier => "free";
+        public UserSecretContext? SecretContext => null;
+        public string? TokenId => "token-1";
+        public string? DefaultEnvironment => null;
+    }
+
+    private class MockApiCallLogService : IApiCallLogService
+    {
+        public List<Dictionary<string, object?>> Calls { get; } = [];
+
+        public Task<ApiResponse> ExecuteAndLogAsync(
+            ApiCallContext context,
+            ApiRegistration api,
+            ApiEndpoint endpoint,
+            Dictionary<string, object?> parameters,
+            UserSecretContext? userContext = null,
+            CancellationToken ct = default)
+        {
+            Calls.Add(parameters);
+            return Task.FromResult(new ApiResponse
+            {
+                StatusCode = 200,
+                ReasonPhrase = "OK",
+                Headers = new Dictionary<string, string[]>(),
+                Body = "{}"
+            });
+        }
+    }
+
+    private class MockUsageTrackingService : IUsageTrackingService
+    {
+        public bool LimitExceeded { get; set; }
+
+        public Task<UsageRecord> CheckAndRecordApiCallAsync(string userId, string userTier, CancellationToken ct = default)
+        {
+            if (LimitExceeded)
+                throw new UsageLimitExceededException("api_calls", 100, 100);
+
+            return Task.FromResult(new UsageRecord { Id = "usage", UserId = userId, YearMonth = "2026-10" });
+        }
+
+        public Task<bool> CanMakeApiCallAsync(string userId, string userTier, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<UsageRecord> RecordApiCallAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public bool CanRegisterApi(string userTier, int currentApiCount)
+            => throw new NotImplementedException();
+
+        public Task<int> GetRemainingApiCallsAsync(string userId, string userTier, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<UsageSummary> GetUsageSummaryAsync(string userId, string userTier, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<UsageRecord>> GetUsageHistoryAsync(string userId, int months = 12, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task RecordEndpointCallAsync(ApiCallLog call, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<DailyUsagePoint>> GetDailyUsageAsync(string userId, UsageBreakdownQuery query, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<UsageBreakdownItem>> GetUsageBreakdownAsync(
+            string userId,
+            string dimension,
+            UsageBreakdownQuery query,
+            int top = Constants.UsageBreakdown.DefaultTop,
+            CancellationToken ct = default)
+            => throw new NotImplementedException();
+    }
+
+    // Hands out copies and checks ETags on update, like Cosmos DB
+    private class MockApprovalStore : IApprovalStore
+    {
+        public Dictionary<string, ApprovalRequest> Items { get; } = new();
+
+        public Task AddAsync(ApprovalRequest approval, CancellationToken ct = default)
+        {
+            approval.ETag = Guid.NewGuid().ToString();
+            Items[approval.Id] = Copy(approval);
+            return Task.CompletedTask;
+        }
+
+        public Task<ApprovalRequest?> GetAsync(string userId, string id, CancellationToken ct = default)
+        {
+            return Task.FromResult(Items.TryGetValue(id, out var approval) && approval.UserId == userId
+                ? Copy(approval)
+                : null);
+        }
+
+        public Task<bool> TryUpdateAsync(ApprovalRequest approval, CancellationToken ct = default)
+        {
+            if (!Items.TryGetValue(approval.Id, out var stored) || stored.ETag != approval.ETag)
+                return Task.FromResult(false);
+
+            approval.ETag = Guid.NewGuid().ToString();
+            Items[approval.Id] = Copy(approval);
+            return Task.FromResult(true);
+        }
+
+        public Task<IReadOnlyList<ApprovalRequest>> QueryAsync(
+            string userId,
+            string? status = null,
+            int limit = Constants.Approvals.MaxPageSize,
+            CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task DeleteAllForUserAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        private static ApprovalRequest Copy(ApprovalRequest approval)
+        {
+            return JsonSerializer.Deserialize<ApprovalRequest>(JsonSerializer.Serialize(approval))!;
+        }
+    }
+
+    private class MockApiRegistrationStore : IApiRegistrationStore
+    {
+        private readonly ApiRegistration _api;
+        private readonly ApiEndpoint _endpoint;
+
+        public MockApiRegistrationStore(ApiRegistration api, ApiEndpoint endpoint)
+        {
+            _api = api;
+            _endpoint = endpoint;
+        }
+
+        public Task<ApiRegistration?> GetAsync(string userId, string id, CancellationToken ct = default)
+            => Task.FromResult(id == _api.Id ? _api : null);
+
+        public Task<IReadOnlyList<ApiRegistration>> GetAllAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<ApiRegistration>> GetEnabledAsync(string userId, CancellationToken ct = default)
+            => Task.FromResult<IReadOnlyList<ApiRegistration>>([_api]);
+
+        public Task<ApiRegistration> UpsertAsync(ApiRegistration registration, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task DeleteAsync(string userId, string id, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<bool> ExistsAsync(string userId, string id, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<ApiEndpoint>> GetEndpointsAsync(string userId, string apiId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<ApiEndpoint>> GetEnabledEndpointsAsync(string userId, string apiId, CancellationToken ct = default)
+            => Task.FromResult<IReadOnlyList<ApiEndpoint>>([_endpoint]);
+
+        public Task<ApiEndpoint?> GetEndpointAsync(string userId, string apiId, string endpointId, CancellationToken ct = default)
+            => Task.FromResult(endpointId == _endpoint.Id ? _endpoint : null);
+
+        public Task SaveEndpointsAsync(string userId, string apiId, IEnumerable<ApiEndpoint> endpoints, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task DeleteEndpointsAsync(string userId, string apiId, IEnumerable<string> endpointIds, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<ApiEndpoint> UpdateEndpointAsync(ApiEndpoint endpoint, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<int> GetEndpointCountAsync(string userId, string apiId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<int> GetEnabledEndpointCountAsync(string userId, string apiId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<EndpointSearchResult>> SearchEndpointsAsync(string userId, string query, int limit = 20, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<string> GetVersionAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<IReadOnlyList<ApiRegistration>> GetScheduledForRefreshAsync(CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<int> GetApiCountAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task DeleteAllForUserAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+    }
+
+    #endregion
+}
@@ -0,0 +1,320 @@
+namespace McpApi.Mcp.Tests;
+
+using System.Net;
+using System.Text;
+using System.Text.Encodings.Web;
+using McpApi.Core.Auth;
+using McpApi.Core.Models;
+using McpApi.Core.Secrets;
+using McpApi.Core.Storage;
+using Microsoft.AspNetCore.Authentication;
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Hosting;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.TestHost;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Logging.Abstractions;
+using Microsoft.Extensions.Options;
+
+public class McpTokenAuthenticationHandlerTests
+{
+    #region Authentication Tests
+
+    [Fact]
+    public async Task AuthenticateAsync_WithoutAuthorizationHeader_ReturnsNoResult()
+    {
+        // Arrange
+        var (tokenService, userStore) = CreateServices();
+
+        // Act
+        var (result, _) = await AuthenticateAsync(tokenService, userStore, authorization: null);
+
+        // Assert
+        Assert.True(result.None);
+    }
+
+    [Fact]
+    public async Task AuthenticateAsync_WithNonBearerHeader_ReturnsNoResult()
+    {
+        // Arrange
+        var (tokenService, userStore) = CreateServices();
+
+        // Act
+        var (result, _) = await AuthenticateAsync(tokenService, userStore, "Basic dXNlcjpwYXNz");
+
+        // Assert
+        Assert.True(result.None);
+    }
+
+    [Fact]
+    public async Task AuthenticateAsync_WithUnknownToken_Fails()
+    {
+        // Arrange
+        var (tokenService, userStore) = CreateServices();
+
+        // Act
+        var (result, _) = await AuthenticateAsync(tokenService, userStore, "Bearer mcp_not-a-token");
+
+        // Assert
+        Assert.False(result.Succeeded);
+        Assert.NotNull(result.Failure);
+    }
+
+    [Fact]
+    public async Task AuthenticateAsync_WithRevokedToken_Fails()
+    {
+        // Arrange
+        var (tokenService, userStore) = CreateServices();
+        var created = await tokenService.CreateTokenAsync("user-1", "Laptop");
+        await tokenService.RevokeTokenAsync("user-1", created.Token.Id);
+
+        // Act
+        var (result, _) = await AuthenticateAsync(tokenService, userStore, $"Bearer {created.PlaintextToken}");
+
+        // Assert
+        Assert.False(result.Succeeded);
+        Assert.Contains("Invalid or expired", result.Failure!.Message);
+    }
+
+    [Fact]
+    public async Task AuthenticateAsync_WithExpiredToken_Fails()
+    {
+        // Arrange
+        var (tokenService, userStore) = CreateServices();
+        var created = await tokenService.CreateTokenAsync("user-1", "Laptop", expiresAt: DateTime.UtcNow.AddMinutes(-1));
+
+        // Act
+        var (result, _) = await AuthenticateAsync(tokenService, userStore, $"Bearer {created.PlaintextToken}");
+
+        // Assert
+        Assert.False(result.Succeeded);
+        Assert.Contains("Invalid or expired", result.Failure!.Message);
+    }
+
+    [Fact]
+    public async Task AuthenticateAsync_WhenUserDeleted_Fails()
+    {
+        // Arrange
+        var (tokenService, userStore) = CreateServices();
+        var created = await tokenService.CreateTokenAsync("user-1", "Laptop");
+        await userStore.DeleteAsync("user-1");
+
+        // Act
+        var (result, _) = await AuthenticateAsync(tokenService, userStore, $"Bearer {created.PlaintextToken}");
+
+        // Assert
+        Assert.False(result.Succeeded);
+        Assert.Contains("User account not found", result.Failure!.Message);
+    }
+
+    [Fact]
+    public async Task AuthenticateAsync_WithValidToken_MapsClaimsToCurrentUser()
+    {
+        // Arrange
+        var (tokenService, userStore) = CreateServices();
+        var created = await tokenService.CreateTokenAsync("user-1", "Laptop", defaultEnvironment: "staging");
+
+        // Act
+        var (result, context) = await AuthenticateAsync(tokenService, userStore, $"Bearer {created.PlaintextToken}");
+        context.User = result.Principal!;
+        var currentUser = new HttpContextMcpCurrentUser(new HttpContextAccessor { HttpContext = context });
+
+        // Assert
+        Assert.True(result.Succeeded);
+        Assert.Equal("user-1", currentUser.UserId);
+        Assert.Equal("pro", currentUser.Tier);
+        Assert.Equal(created.Token.Id, currentUser.TokenId);
+        Assert.Equal("staging", currentUser.DefaultEnvironment);
+        Assert.Equal(new UserSecretContext("user-1", "salt-1"), currentUser.SecretContext);
+    }
+
+    [Fact]
+    public void HttpContextMcpCurrentUser_WithoutAuthenticatedUser_Throws()
+    {
+        // Arrange
+        var currentUser = new HttpContextMcpCurrentUser(new HttpContextAccessor { HttpContext = new DefaultHttpContext() });
+
+        // Act & Assert
+        Assert.Throws<InvalidOperationException>(() => currentUser.UserId);
+    }
+
+    #endregion
+
+    #region Endpoint Tests
+
+    [Fact]
+    public async Task McpEndpoint_WithoutCredentials_Returns401()
+    {
+        // Arrange
+        var (tokenService, userStore) = CreateServices();
+        await using var app = await StartMcpAppAsync(tokenService, userStore);
+        var client = app.GetTestClient();
+
+        // Act
+        var response = await client.PostAsync("/mcp", CreateInitializeContent());
+
+        // Assert
+        Assert.Equal(HttpStatusCode.Unauthorized, response.StatusCode);
+        Assert.Contains("Bearer", response.Headers.WwwAuthenticate.ToString());
+    }
+
+    [Fact]
+    public async Task McpEndpoint_WithRevokedToken_Returns401()
+    {
+        // Arrange
+        var (tokenService, userStore) = CreateServices();
+        var created = await tokenService.CreateTokenAsync("user-1", "Laptop");
+        await tokenService.RevokeTokenAsync("user-1", created.Token.Id);
+        await using var app = await StartMcpAppAsync(tokenService, userStore);
+        var client = app.GetTestClient();
+        client.DefaultRequestHeaders.Authorization = new("Bearer", created.PlaintextToken);
+
+        // Act
+        var response = await client.PostAsync("/mcp", CreateInitializeContent());
+
+        // Assert
+        Assert.Equal(HttpStatusCode.Unauthorized, response.StatusCode);
+    }
+
+    #endregion
+
+    #region Helper Methods
+
+    private static (McpTokenService TokenService, MockUserStore UserStore) CreateServices()
+    {
+        var userStore = new MockUserStore();
+        userStore.Users["user-1"] = new User
+        {
+            Id = "user-1",
+            Email = "ada@example.com",
+            Tier = "pro",
+            EncryptionKeySalt = "salt-1"
+        };
+
+        return (new McpTokenService(new MockMcpTokenStore()), userStore);
+    }
+
+    private static async Task<(AuthenticateResult Result, HttpContext Context)> AuthenticateAsync(
+        IMcpTokenService tokenService,
+        IUserStore userStore,
+        string? authorization)
+    {
+        var context = new DefaultHttpContext();
+        if (authorization != null)
+        {
+            context.Request.Headers.Authorization = authorization;
+        }
+
+        var handler = new McpTokenAuthenticationHandler(
+            new MockOptionsMonitor(), NullLoggerFactory.Instance, UrlEncoder.Default, tokenService, userStore);
+        var scheme = new AuthenticationScheme(
+            McpTokenAuthenticationHandler.SchemeName, null, typeof(McpTokenAuthenticationHandler));
+        await handler.InitializeAsync(scheme, context);
+
+        return (await handler.AuthenticateAsync(), context);
+    }
+
+    // Hosts /mcp with the same authentication and authorization as Program.cs does for the HTTP transport
+    private static async Task<WebApplication> StartMcpAppAsync(IMcpTokenService tokenService, IUserStore userStore)
+    {
+        var builder = WebApplication.CreateBuilder();
+        builder.WebHost.UseTestServer();
+
+        builder.Services.AddSingleton(tokenService);
+        builder.Services.AddSingleton(userStore);
+        builder.Services
+            .AddAuthentication(McpTokenAuthenticationHandler.SchemeName)
+            .AddScheme<AuthenticationSchemeOptions, McpTokenAuthenticationHandler>(McpTokenAuthenticationHandler.SchemeName, null);
+        builder.Services.AddAuthorization();
+        builder.Services.AddMcpServer().WithHttpTransport();
+
+        var app = builder.Build();
+        app.UseAuthentication();
+        app.UseAuthorization();
+        app.MapMcp("/mcp").RequireAuthorization();
+
+        await app.StartAsync();
+        return app;
+    }
+
+    private static StringContent CreateInitializeContent()
+    {
+        return new StringContent(
+            """{"jsonrpc":"2.0","id":1,"method":"initialize","params":{"protocolVersion":"2025-06-18","capabilities":{},"clientInfo":{"name":"test","version":"1.0"}}}""",
+            Encoding.UTF8,
+            "application/json");
+    }
+
+    #endregion
+
+    #region Mock Implementations
+
+    private class MockOptionsMonitor : IOptionsMonitor<AuthenticationSchemeOptions>
+    {
+        public AuthenticationSchemeOptions CurrentValue { get; } = new();
+
+        public AuthenticationSchemeOptions Get(string? name) => CurrentValue;
+
+        public IDisposable? OnChange(Action<AuthenticationSchemeOptions, string?> listener) => null;
+    }
+
+    private class MockMcpTokenStore : IMcpTokenStore
+    {
+        private readonly Dictionary<string, McpToken> _tokens = new();
+
+        public Task<McpToken?> GetAsync(string userId, string tokenId, CancellationToken ct = default)
+            => Task.FromResult(_tokens.TryGetValue(tokenId, out var token) && token.UserId == userId ? token : null);
+
+        public Task<McpToken?> GetByHashAsync(string tokenHash, CancellationToken ct = default)
+            => Task.FromResult(_tokens.Values.FirstOrDefault(t => t.TokenHash == tokenHash));
+
+        public Task<IReadOnlyList<McpToken>> GetAllForUserAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task<McpToken> UpsertAsync(McpToken token, CancellationToken ct = default)
+        {
+            _tokens[token.Id] = token;
+            return Task.FromResult(token);
+        }
+
+        public Task DeleteAsync(string userId, string tokenId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+
+        public Task UpdateLastUsedAsync(string userId, string tokenId, CancellationToken ct = default)
+            => Task.CompletedTask;
+
+        public Task DeleteAllForUserAsync(string userId, CancellationToken ct = default)
+            => throw new NotImplementedException();
+    }
+
+    private class MockUserStore : IUserStore
+    {
+        public Dictionary<string, User> Users { get; } = new();
+
+        public Task<User?> GetByIdAsync(string id, CancellationToken cancellationToken = default)
+            => Task.FromResult(Users.GetValueOrDefault(id));
+
+        public Task<User?> GetByEmailAsync(string email, CancellationToken cancellationToken = default)
+            => throw new NotImplementedException();
+
+        public Task<User?> GetByOAuthProviderAsync(string provider, string providerId, CancellationToken cancellationToken = default)
+            => throw new NotImplementedException();
+
+        public Task<User?> GetByEmailVerificationTokenAsync(string token, CancellationToken cancellationToken = default)
+            => throw new NotImplementedException();
+
+        public Task<User> UpsertAsync(User user, CancellationToken cancellationToken = default)
+            => throw new NotImplementedException();
+
+        public Task DeleteAsync(string id, CancellationToken cancellationToken = default)
+        {
+            Users.Remove(id);
+            return Task.CompletedTask;
+        }
+
+        public Task<bool> EmailExistsAsync(string email, CancellationToken cancellationToken = default)
+            => throw new NotImplementedException();
+    }
+
+    #endregion
+}